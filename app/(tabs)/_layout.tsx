@@ -22,6 +22,7 @@ const TAB_CONFIGS: Record<string, TabConfig> = {
   beerlist: { label: 'BEERS', icon: 'mug.fill' },
   mybeers: { label: 'FINDER', icon: 'star.fill', memberOnly: true },
   tastedbrews: { label: 'TASTED', icon: 'checkmark.circle.fill', memberOnly: true },
+  wishlist: { label: 'WISH', icon: 'star' },
 };
 
 function TerminalTabBar({ state, descriptors, navigation }: BottomTabBarProps) {
@@ -186,6 +187,7 @@ export default function TabLayout() {
         name="tastedbrews"
         options={{ title: 'Tasted Brews', href: isInVisitorMode ? null : undefined }}
       />
+      <Tabs.Screen name="wishlist" options={{ title: 'Wishlist' }} />
     </Tabs>
   );
 }
@@ -5,7 +5,7 @@ import { ChromeStatusBar } from '@/components/ui/ChromeStatusBar';
 import { ScanlineTitle } from '@/components/ui/ScanlineTitle';
 import { areApiUrlsConfigured } from '@/src/database/preferences';
 import { checkAndRefreshOnAppOpen } from '@/src/services/dataUpdateService';
-import { shouldRunFocusRefresh } from '@/src/utils/focusRefreshThrottle';
+import { useNetwork } from '@/context/NetworkContext';
 import ErrorBoundary from '@/components/ErrorBoundary';
 import { logError } from '@/src/utils/errorLogger';
 import { AllBeers } from '@/components/AllBeers';
@@ -45,6 +45,9 @@ function BeerListScreen() {
 
 export default function TabOneScreen() {
   const [apiUrlsSet, setApiUrlsSet] = useState<boolean | null>(null);
+  // A dependency of the focus check below, so a taplist left for Wi-Fi
+  // refreshes once the device joins it, without leaving the tab
+  const { isConnectionExpensive } = useNetwork().details;
 
   useEffect(() => {
     const checkApiUrls = async () => {
@@ -62,10 +65,9 @@ export default function TabOneScreen() {
     useCallback(() => {
       const refreshDataOnFocus = async () => {
         if (!apiUrlsSet) return;
-        if (!shouldRunFocusRefresh()) return;
         console.log('Beer list tab focused, checking for data updates');
         try {
-          const result = await checkAndRefreshOnAppOpen(2);
+          const result = await checkAndRefreshOnAppOpen({ isConnectionExpensive });
           if (result.updated) {
             console.log('Beer data was updated when tab became active');
           }
@@ -75,7 +77,7 @@ export default function TabOneScreen() {
       };
       refreshDataOnFocus();
       return () => {};
-    }, [apiUrlsSet])
+    }, [apiUrlsSet, isConnectionExpensive])
   );
 
   if (apiUrlsSet === null || !apiUrlsSet) return null;
@@ -17,6 +17,8 @@ import { MetricCard } from '@/components/ui/MetricCard';
 import { ChromeIconWell } from '@/components/ui/ChromeIconWell';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { useHomeScreenState, HomeScreenView } from '@/hooks/useHomeScreenState';
+import { useNewSinceLastVisit } from '@/hooks/useNewSinceLastVisit';
+import { TaplistDiff, TaplistDiffBeer, isEmptyTaplistDiff } from '@/src/utils/taplistDiff';
 import { Colors } from '@/constants/Colors';
 import { useAnimatedPress } from '@/animations';
 
@@ -92,6 +94,90 @@ function NavigationCard({
   );
 }
 
+/** Beers named per group before the rest are summed up as "and N more" */
+const MAX_NAMED_BEERS = 5;
+
+function DiffGroup({
+  label,
+  beers,
+  color,
+  testID,
+}: {
+  label: string;
+  beers: readonly TaplistDiffBeer[];
+  color: string;
+  testID: string;
+}) {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+
+  if (beers.length === 0) return null;
+
+  const named = beers.slice(0, MAX_NAMED_BEERS);
+  const more = beers.length - named.length;
+
+  return (
+    <View style={styles.diffGroup} testID={testID}>
+      <Text style={[styles.sectionLabel, { color }]}>
+        {label} · {beers.length}
+      </Text>
+      {named.map(beer => (
+        <Text key={beer.id} style={[styles.diffBeer, { color: colors.text }]} numberOfLines={1}>
+          {beer.brew_name || 'Unnamed Beer'}
+          <Text style={{ color: colors.textSecondary }}>
+            {beer.brewer ? ` · ${beer.brewer}` : ''}
+          </Text>
+        </Text>
+      ))}
+      {more > 0 && (
+        <Text style={[styles.diffBeer, { color: colors.textMuted }]}>and {more} more</Text>
+      )}
+    </View>
+  );
+}
+
+function NewSinceLastVisit({ diff }: { diff: TaplistDiff }) {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+
+  return (
+    <View style={{ marginTop: 32 }} testID="new-since-last-visit">
+      <View
+        style={[
+          styles.labelPlate,
+          {
+            backgroundColor: colors.steelLabelPlate,
+            borderColor: colors.steelLabelBorder,
+            alignSelf: 'flex-start',
+          },
+        ]}
+      >
+        <Text style={[styles.labelPlateText, { color: colors.border }]}>NEW SINCE LAST VISIT</Text>
+      </View>
+      <View
+        style={[
+          styles.diffCard,
+          { borderColor: colors.border, backgroundColor: colors.backgroundSecondary },
+        ]}
+      >
+        <DiffGroup label="ON TAP" beers={diff.added} color={colors.tint} testID="diff-added" />
+        <DiffGroup
+          label="CHANGED"
+          beers={diff.changed.map(change => change.beer)}
+          color={colors.amber}
+          testID="diff-changed"
+        />
+        <DiffGroup
+          label="GONE"
+          beers={diff.removed}
+          color={colors.textMuted}
+          testID="diff-removed"
+        />
+      </View>
+    </View>
+  );
+}
+
 function MainHomeView({
   view,
   memberName,
@@ -109,11 +195,13 @@ function MainHomeView({
     navigateToBeerfinder: () => void;
     navigateToTastedBrews: () => void;
     navigateToRewards: () => void;
+    navigateToCompareStores: () => void;
   };
 }) {
   const isVisitor = view === 'visitor';
   const colorScheme = useColorScheme() ?? 'dark';
   const colors = Colors[colorScheme];
+  const newSinceLastVisit = useNewSinceLastVisit();
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -179,6 +267,8 @@ function MainHomeView({
           </View>
         )}
 
+        {!isEmptyTaplistDiff(newSinceLastVisit) && <NewSinceLastVisit diff={newSinceLastVisit} />}
+
         {/* Navigation section */}
         <View style={{ marginTop: 32 }}>
           <View
@@ -228,6 +318,13 @@ function MainHomeView({
               onPress={actions.navigateToRewards}
               disabled={isVisitor}
             />
+            <NavigationCard
+              testID="nav-compare-stores"
+              title="Compare Stores"
+              description="See what only one Saucer has on tap"
+              iconName="git-compare-outline"
+              onPress={actions.navigateToCompareStores}
+            />
           </View>
         </View>
 
@@ -371,6 +468,16 @@ const styles = StyleSheet.create({
   storeRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginTop: 8 },
   storeName: { fontFamily: 'SpaceMono', fontSize: 11 },
 
+  diffCard: {
+    marginTop: 12,
+    padding: 12,
+    gap: 12,
+    borderWidth: 1,
+    borderRadius: 11,
+  },
+  diffGroup: { gap: 4 },
+  diffBeer: { fontFamily: 'SpaceMono', fontSize: 11 },
+
   navCardBezel: {
     borderRadius: 14,
     padding: 3,
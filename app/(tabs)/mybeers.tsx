@@ -7,12 +7,13 @@ import { ScanlineTitle } from '@/components/ui/ScanlineTitle';
 import { Beerfinder } from '@/components/Beerfinder';
 import { areApiUrlsConfigured } from '@/src/database/preferences';
 import { checkAndRefreshOnAppOpen } from '@/src/services/dataUpdateService';
-import { shouldRunFocusRefresh } from '@/src/utils/focusRefreshThrottle';
+import { useNetwork } from '@/context/NetworkContext';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { Colors } from '@/constants/Colors';
 
 export default function MyBeersScreen() {
   const [apiUrlsSet, setApiUrlsSet] = useState<boolean | null>(null);
+  const { isConnectionExpensive } = useNetwork().details;
   const colorScheme = useColorScheme() ?? 'dark';
   const colors = Colors[colorScheme];
 
@@ -32,10 +33,9 @@ export default function MyBeersScreen() {
     useCallback(() => {
       const refreshDataOnFocus = async () => {
         if (!apiUrlsSet) return;
-        if (!shouldRunFocusRefresh()) return;
         console.log('Beerfinder tab focused, checking for data updates');
         try {
-          const result = await checkAndRefreshOnAppOpen(2);
+          const result = await checkAndRefreshOnAppOpen({ isConnectionExpensive });
           if (result.updated) {
             console.log('Beer data was updated when Beerfinder tab became active');
           }
@@ -45,7 +45,7 @@ export default function MyBeersScreen() {
       };
       refreshDataOnFocus();
       return () => {};
-    }, [apiUrlsSet])
+    }, [apiUrlsSet, isConnectionExpensive])
   );
 
   if (apiUrlsSet === null || !apiUrlsSet) return null;
@@ -7,7 +7,7 @@ import { ScanlineTitle } from '@/components/ui/ScanlineTitle';
 import { TastedBrewList } from '@/components/TastedBrewList';
 import { areApiUrlsConfigured } from '@/src/database/preferences';
 import { checkAndRefreshOnAppOpen } from '@/src/services/dataUpdateService';
-import { shouldRunFocusRefresh } from '@/src/utils/focusRefreshThrottle';
+import { useNetwork } from '@/context/NetworkContext';
 import ErrorBoundary from '@/components/ErrorBoundary';
 import { logError } from '@/src/utils/errorLogger';
 import { useColorScheme } from '@/hooks/useColorScheme';
@@ -15,6 +15,7 @@ import { Colors } from '@/constants/Colors';
 
 export default function TastedBrewsScreen() {
   const [apiUrlsSet, setApiUrlsSet] = useState<boolean | null>(null);
+  const { isConnectionExpensive } = useNetwork().details;
   const colorScheme = useColorScheme() ?? 'dark';
   const colors = Colors[colorScheme];
 
@@ -34,10 +35,9 @@ export default function TastedBrewsScreen() {
     useCallback(() => {
       const refreshDataOnFocus = async () => {
         if (!apiUrlsSet) return;
-        if (!shouldRunFocusRefresh()) return;
         console.log('Tasted Brews tab focused, checking for data updates');
         try {
-          const result = await checkAndRefreshOnAppOpen(2);
+          const result = await checkAndRefreshOnAppOpen({ isConnectionExpensive });
           if (result.updated) {
             console.log('Beer data was updated when Tasted Brews tab became active');
           }
@@ -47,7 +47,7 @@ export default function TastedBrewsScreen() {
       };
       refreshDataOnFocus();
       return () => {};
-    }, [apiUrlsSet])
+    }, [apiUrlsSet, isConnectionExpensive])
   );
 
   if (apiUrlsSet === null || !apiUrlsSet) return null;
@@ -0,0 +1,52 @@
+import { StyleSheet, View } from 'react-native';
+import { ChromeStatusBar } from '@/components/ui/ChromeStatusBar';
+import { ScanlineTitle } from '@/components/ui/ScanlineTitle';
+import ErrorBoundary from '@/components/ErrorBoundary';
+import { logError } from '@/src/utils/errorLogger';
+import { Wishlist } from '@/components/Wishlist';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors } from '@/constants/Colors';
+
+export default function WishlistScreen() {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+
+  return (
+    <View
+      testID="wishlist-screen"
+      style={[styles.container, { backgroundColor: colors.background }]}
+    >
+      <ChromeStatusBar />
+      <View style={styles.headerContainer}>
+        <ScanlineTitle title="Wishlist" />
+      </View>
+      <View style={styles.contentContainer}>
+        <ErrorBoundary
+          fallbackMessage="Failed to load your wishlist. Please try again."
+          onError={(error, errorInfo) => {
+            logError(error, {
+              operation: 'Wishlist render',
+              component: 'WishlistScreen',
+              additionalData: { componentStack: errorInfo.componentStack },
+            });
+          }}
+        >
+          <Wishlist />
+        </ErrorBoundary>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  headerContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 18,
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  contentContainer: { flex: 1 },
+});
@@ -7,6 +7,7 @@ import { useEffect, useState, useRef } from 'react';
 import 'react-native-reanimated';
 import { LogBox, Alert, AppState, AppStateStatus, Platform, Linking } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
+import NetInfo from '@react-native-community/netinfo';
 
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { resolveColdStartRoute, type InitialRoute } from '@/src/utils/coldStartNavigation';
@@ -22,12 +23,24 @@ import { isVisitorMode as checkIsVisitorMode } from '@/src/api/authService';
 // eslint-disable-next-line no-restricted-imports -- setupDatabase, cleanupBadAbvData, and resetDatabaseState are bootstrap functions, not CRUD
 import { setupDatabase, cleanupBadAbvData, resetDatabaseState } from '@/src/database/db';
 import {
+  DataUpdateResult,
   fetchAndUpdateAllBeers,
   fetchAndUpdateMyBeers,
   fetchAndUpdateRewards,
 } from '@/src/services/dataUpdateService';
 import { getPreference, setPreference, areApiUrlsConfigured } from '@/src/database/preferences';
 import { getDatabase, closeDatabaseConnection } from '@/src/database/connection';
+import { startEnrichmentJobRunner } from '@/src/services/enrichmentJobService';
+import { startEnrichmentMetricsRecorder } from '@/src/services/enrichmentDiagnosticsService';
+import {
+  defineBackgroundRefreshTask,
+  scheduleBackgroundRefresh,
+  launchSourcesFreshFromBackground,
+} from '@/src/services/backgroundRefreshService';
+import { noteWaitingForWifi, sourcesWaitingForWifi } from '@/src/services/refreshPolicyService';
+import { recordRefreshRun } from '@/src/services/refreshLogService';
+import { RefreshLogSource, skippedSource, sourceFromResult } from '@/src/utils/refreshLog';
+import { REFRESH_SOURCES, RefreshSource } from '@/src/utils/refreshPolicy';
 import {
   runStartupMigrationCheck,
   startupMigrationAlert,
@@ -78,6 +91,9 @@ export const unstable_settings = {
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
 
+// At module scope, so a background start of the refresh task finds it
+defineBackgroundRefreshTask();
+
 export default function RootLayout() {
   const colorScheme = useColorScheme();
   const [loaded] = useFonts({
@@ -92,6 +108,7 @@ export default function RootLayout() {
   const [migrationProgress, setMigrationProgress] = useState<number | null>(null);
   const initializationStarted = useRef(false);
   const lifecycleOperationInProgress = useRef(false);
+  const [databaseReady, setDatabaseReady] = useState(false);
 
   useEffect(() => {
     async function prepare() {
@@ -111,38 +128,65 @@ export default function RootLayout() {
           console.error('[_layout] ABV cleanup failed (non-fatal):', e);
         }
 
+        // Starts the runners that need the tables setup creates
+        setDatabaseReady(true);
+        // Not awaited: the OS only records the request, and it never throws
+        void scheduleBackgroundRefresh();
+
         const shouldFetchData = await areApiUrlsConfigured();
-        if (shouldFetchData) {
-          // These three catches handle less than they appear to, and the gap is
-          // recorded rather than papered over. Each `fetchAndUpdate*` RETURNS
-          // `{ success: false, error }` for every failure the network work on
-          // this branch classifies — it does not throw — so the catch below
-          // fires only for something unforeseen, and the returned result, error
-          // and all, is discarded on the floor.
+        const freshFromBackground = shouldFetchData
+          ? await launchSourcesFreshFromBackground()
+          : new Set<RefreshSource>();
+        if (shouldFetchData && freshFromBackground.size === REFRESH_SOURCES.length) {
+          console.log('A background refresh just fetched everything, skipping launch data fetch');
+        } else if (shouldFetchData) {
+          // These three catches handle less than they appear to. Each
+          // `fetchAndUpdate*` RETURNS `{ success: false, error }` for every
+          // failure the network work on this branch classifies — it does not
+          // throw — so the catch below fires only for something unforeseen.
           //
-          // The consequence is that an app-open refresh cannot tell the user
-          // anything, however carefully the failure was typed; only a manual
-          // refresh renders these. Left as-is deliberately: the fix is a UI
-          // affordance this app does not have, and an Alert on every cold start
-          // would be worse than the silence. See `emptyTableNotModifiedFailure`
-          // in dataUpdateService.ts for the full account.
-          try {
-            await fetchAndUpdateAllBeers();
-          } catch (e) {
-            console.error('[_layout] All beers fetch failed:', e);
-          }
-
-          try {
-            await fetchAndUpdateMyBeers();
-          } catch (e) {
-            console.error('[_layout] My beers fetch failed:', e);
+          // The returned result, error and all, goes to the refresh log and no
+          // further: an app-open refresh cannot tell the user anything, however
+          // carefully the failure was typed, beyond what Settings > Sync
+          // History shows afterwards. Left as-is deliberately: an Alert on
+          // every cold start would be worse than the silence. See
+          // `emptyTableNotModifiedFailure` in dataUpdateService.ts for the full
+          // account.
+          //
+          // The NetworkProvider mounts below this component, so the metered
+          // check asks NetInfo itself.
+          const startedAt = Date.now();
+          const waitingForWifi = await sourcesWaitingForWifi(
+            (await NetInfo.fetch().catch(() => null))?.details?.isConnectionExpensive
+          );
+          const launchRefreshers: [RefreshSource, string, () => Promise<DataUpdateResult>][] = [
+            ['allBeers', 'all beers', fetchAndUpdateAllBeers],
+            ['myBeers', 'my beers', fetchAndUpdateMyBeers],
+            ['rewards', 'rewards', fetchAndUpdateRewards],
+          ];
+          const logged: RefreshLogSource[] = [];
+
+          for (const [source, label, refresh] of launchRefreshers) {
+            if (freshFromBackground.has(source)) {
+              console.log(`[_layout] A background refresh just fetched ${label}, skipping it`);
+              logged.push(skippedSource(source, 'fresh'));
+              continue;
+            }
+            if (noteWaitingForWifi(source, waitingForWifi.has(source))) {
+              console.log(`[_layout] On a metered connection, leaving ${label} for Wi-Fi`);
+              logged.push(skippedSource(source, 'waiting-for-wifi'));
+            }
+            if (waitingForWifi.has(source)) {
+              continue;
+            }
+            try {
+              logged.push(sourceFromResult(source, await refresh()));
+            } catch (e) {
+              console.error(`[_layout] ${label} fetch failed:`, e);
+            }
           }
 
-          try {
-            await fetchAndUpdateRewards();
-          } catch (e) {
-            console.error('[_layout] Rewards fetch failed:', e);
-          }
+          await recordRefreshRun('launch', startedAt, logged);
         } else {
           console.log('API URLs not configured, skipping data fetch');
         }
@@ -272,6 +316,22 @@ export default function RootLayout() {
     prepare();
   }, [loaded]);
 
+  // Runners that live as long as the app, once setup has created their tables
+  useEffect(() => {
+    if (!databaseReady) return;
+
+    // Resume polling for enrichment left waiting by an earlier session;
+    // needs enrichment_jobs
+    const stopEnrichmentJobRunner = startEnrichmentJobRunner();
+    // Keeps the enrichment counters across launches; needs enrichment_metrics
+    const stopEnrichmentMetricsRecorder = startEnrichmentMetricsRecorder();
+
+    return () => {
+      stopEnrichmentJobRunner();
+      stopEnrichmentMetricsRecorder();
+    };
+  }, [databaseReady]);
+
   // Database lifecycle management - close on background, reopen on foreground
   useEffect(() => {
     const handleAppStateChange = async (nextAppState: AppStateStatus) => {
@@ -392,6 +452,11 @@ export default function RootLayout() {
                   <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
                   <Stack.Screen name="settings" options={{ headerShown: false }} />
                   <Stack.Screen name="screens/rewards" options={{ headerShown: false }} />
+                  <Stack.Screen name="screens/past-plates" options={{ headerShown: false }} />
+                  <Stack.Screen name="screens/compare-stores" options={{ headerShown: false }} />
+                  <Stack.Screen name="screens/abv-review" options={{ headerShown: false }} />
+                  <Stack.Screen name="screens/refresh-policy" options={{ headerShown: false }} />
+                  <Stack.Screen name="screens/sync-history" options={{ headerShown: false }} />
                   <Stack.Screen name="+not-found" />
                 </Stack>
                 <OfflineIndicator />
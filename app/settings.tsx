@@ -12,6 +12,8 @@ import AboutSection from '@/components/settings/AboutSection';
 import DataManagementSection from '@/components/settings/DataManagementSection';
 import WelcomeSection from '@/components/settings/WelcomeSection';
 import DeveloperSection from '@/components/settings/DeveloperSection';
+import NewArrivalsSection from '@/components/settings/NewArrivalsSection';
+import StoreSection from '@/components/settings/StoreSection';
 
 import { useLoginFlow } from '@/hooks/useLoginFlow';
 import { useSettingsState } from '@/hooks/useSettingsState';
@@ -111,6 +113,10 @@ export default function SettingsScreen() {
           />
         )}
 
+        {apiUrlsConfigured && <StoreSection />}
+
+        {apiUrlsConfigured && <NewArrivalsSection />}
+
         <AboutSection />
 
         <DeveloperSection />
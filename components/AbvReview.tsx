@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { BeerWithContainerType } from '@/src/types/beer';
+import { describeAbvSource, LOW_CONFIDENCE_THRESHOLD } from '@/src/utils/enrichmentConfidence';
+import { MAX_CORRECTED_ABV } from '@/src/utils/beerCorrections';
+import { useAbvReview } from '@/hooks/useAbvReview';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors } from '@/constants/Colors';
+
+type ReviewRowProps = {
+  beer: BeerWithContainerType;
+  selected: boolean;
+  disabled: boolean;
+  onToggle: (id: string) => void;
+  onCorrect: (beer: BeerWithContainerType, abv: number) => void;
+};
+
+const ReviewRow = ({ beer, selected, disabled, onToggle, onCorrect }: ReviewRowProps) => {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const [abvText, setAbvText] = useState('');
+
+  const abv = Number(abvText.trim().replace('%', ''));
+  const canCorrect =
+    abvText.trim() !== '' && Number.isFinite(abv) && abv >= 0 && abv <= MAX_CORRECTED_ABV;
+
+  return (
+    <View
+      style={[
+        styles.row,
+        { backgroundColor: colors.backgroundSecondary, borderColor: colors.border },
+      ]}
+      testID={`abv-review-row-${beer.id}`}
+    >
+      <TouchableOpacity
+        onPress={() => onToggle(beer.id)}
+        hitSlop={8}
+        testID={`abv-review-select-${beer.id}`}
+        accessibilityRole="checkbox"
+        accessibilityState={{ checked: selected }}
+        accessibilityLabel={`Select ${beer.brew_name}`}
+      >
+        <Ionicons
+          name={selected ? 'checkbox' : 'square-outline'}
+          size={20}
+          color={selected ? colors.tint : colors.textMuted}
+        />
+      </TouchableOpacity>
+      <View style={styles.beerCol}>
+        <Text style={[styles.beerName, { color: colors.text }]} numberOfLines={1}>
+          {beer.brew_name || 'Unnamed Beer'}
+        </Text>
+        <Text style={[styles.meta, { color: colors.textSecondary }]} numberOfLines={1}>
+          {[beer.brewer, beer.brew_style].filter(Boolean).join(' · ')}
+        </Text>
+        <Text style={[styles.meta, { color: colors.textMuted }]} numberOfLines={1}>
+          ~{beer.abv}% · {describeAbvSource(beer)}
+        </Text>
+      </View>
+      <TextInput
+        style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+        value={abvText}
+        onChangeText={setAbvText}
+        placeholder="ABV"
+        placeholderTextColor={colors.textMuted}
+        keyboardType="decimal-pad"
+        maxLength={6}
+        testID={`abv-review-input-${beer.id}`}
+        accessibilityLabel={`Correct ABV of ${beer.brew_name}`}
+      />
+      <TouchableOpacity
+        style={[
+          styles.fixButton,
+          { borderColor: colors.tint, opacity: canCorrect && !disabled ? 1 : 0.4 },
+        ]}
+        onPress={() => onCorrect(beer, abv)}
+        disabled={!canCorrect || disabled}
+        testID={`abv-review-fix-${beer.id}`}
+        accessibilityRole="button"
+      >
+        <Text style={[styles.buttonText, { color: colors.tint }]}>FIX</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+/**
+ * The active store's beers with a low-confidence ABV, for a reviewer to
+ * confirm in bulk or correct one at a time.
+ */
+export const AbvReview = () => {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const {
+    beers,
+    selectedIds,
+    toggleSelected,
+    toggleSelectAll,
+    confirmSelected,
+    correctAbv,
+    saving,
+    error,
+  } = useAbvReview();
+
+  const allSelected = beers.length > 0 && selectedIds.size === beers.length;
+
+  return (
+    <FlatList
+      data={beers}
+      keyExtractor={beer => beer.id}
+      renderItem={({ item }) => (
+        <ReviewRow
+          beer={item}
+          selected={selectedIds.has(item.id)}
+          disabled={saving}
+          onToggle={toggleSelected}
+          onCorrect={(beer, abv) => void correctAbv(beer, abv)}
+        />
+      )}
+      ListHeaderComponent={
+        <View style={styles.header}>
+          <Text style={[styles.meta, { color: colors.textSecondary }]} testID="abv-review-count">
+            {beers.length} {beers.length === 1 ? 'beer' : 'beers'} below{' '}
+            {Math.round(LOW_CONFIDENCE_THRESHOLD * 100)}% confidence
+          </Text>
+          {beers.length > 0 && (
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={[styles.actionButton, { borderColor: colors.border }]}
+                onPress={toggleSelectAll}
+                disabled={saving}
+                testID="abv-review-select-all"
+                accessibilityRole="button"
+              >
+                <Text style={[styles.buttonText, { color: colors.textSecondary }]}>
+                  {allSelected ? 'SELECT NONE' : 'SELECT ALL'}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.actionButton,
+                  {
+                    borderColor: colors.tint,
+                    backgroundColor: colors.tint,
+                    opacity: selectedIds.size > 0 ? 1 : 0.4,
+                  },
+                ]}
+                onPress={() => void confirmSelected()}
+                disabled={selectedIds.size === 0 || saving}
+                testID="abv-review-confirm"
+                accessibilityRole="button"
+              >
+                {saving ? (
+                  <ActivityIndicator size="small" color={colors.textOnPrimary} />
+                ) : (
+                  <Text style={[styles.buttonText, { color: colors.textOnPrimary }]}>
+                    CONFIRM {selectedIds.size}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+          {error && (
+            <Text style={[styles.meta, { color: colors.error }]} testID="abv-review-error">
+              {error}
+            </Text>
+          )}
+        </View>
+      }
+      ListEmptyComponent={
+        <Text style={[styles.message, { color: colors.textMuted }]} testID="abv-review-empty">
+          Every ABV on this taplist is confident or corrected.
+        </Text>
+      }
+      contentContainerStyle={styles.listContent}
+      testID="abv-review-list"
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  listContent: {
+    paddingHorizontal: 18,
+    paddingBottom: 24,
+  },
+  header: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 10,
+    marginBottom: 6,
+    borderWidth: 1,
+    borderRadius: 10,
+  },
+  beerCol: {
+    flex: 1,
+    gap: 2,
+  },
+  beerName: {
+    fontFamily: 'SpaceGrotesk-SemiBold',
+    fontSize: 13,
+  },
+  meta: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+  },
+  input: {
+    width: 56,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    fontFamily: 'SpaceMono',
+    fontSize: 12,
+  },
+  fixButton: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 7,
+  },
+  buttonText: {
+    fontFamily: 'SpaceGrotesk-SemiBold',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+  message: {
+    fontFamily: 'SpaceMono',
+    fontSize: 11,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+});
@@ -7,13 +7,23 @@ import { useColorScheme } from '@/hooks/useColorScheme';
 import { Colors } from '@/constants/Colors';
 import { SearchBar } from './SearchBar';
 import { useBeerFilters } from '@/hooks/useBeerFilters';
+import { useFilterPresets } from '@/hooks/useFilterPresets';
+import { useWishlist } from '@/hooks/useWishlist';
+import { useNewArrivals } from '@/hooks/useNewArrivals';
 import { useDataRefresh } from '@/hooks/useDataRefresh';
+import { useBeerCorrections } from '@/hooks/useBeerCorrections';
+import { useTaplistSnapshots } from '@/hooks/useTaplistSnapshots';
 import { FilterBar } from './beer/FilterBar';
 import { BeerList } from './beer/BeerList';
+import { BeerDetailsEditor } from './beer/BeerDetailsEditor';
+import { TaplistSnapshotPicker, formatSnapshotTime } from './beer/TaplistSnapshotPicker';
 import { UntappdWebView } from './UntappdWebView';
 import { SkeletonLoader } from './beer/SkeletonLoader';
 import { BeerWithContainerType } from '@/src/types/beer';
 import { useDebounce } from '@/hooks/useDebounce';
+import { useFullTextSearch } from '@/hooks/useFullTextSearch';
+import type { FilterPresetState } from '@/src/utils/filterPresets';
+import type { WishlistBeer } from '@/src/database/repositories/WishlistRepository';
 import { useAppContext } from '@/context/AppContext';
 
 export const AllBeers = () => {
@@ -34,25 +44,95 @@ export const AllBeers = () => {
   const [localSearchText, setLocalSearchText] = useState('');
   const debouncedSearchText = useDebounce(localSearchText, 300);
 
+  // An earlier taplist kept for this store, shown read-only in place of the current one
+  const {
+    snapshots,
+    selected: selectedSnapshot,
+    snapshotBeers,
+    loadingSnapshot,
+    selectSnapshot,
+    reload: reloadSnapshots,
+  } = useTaplistSnapshots();
+  const browsingSnapshot = selectedSnapshot !== null;
+  const shownBeers = browsingSnapshot ? (snapshotBeers ?? []) : beers.allBeers;
+
+  // Descriptions are only searchable through the full-text index. It indexes the
+  // current taplist, so a snapshot is searched by the filters' own matching alone.
+  const { matchRanks, snippets } = useFullTextSearch(
+    debouncedSearchText,
+    'allbeers',
+    beers.allBeers
+  );
+
   // Use the shared filtering hook with data from context
   const {
     filteredBeers,
     containerFilter,
     sortBy,
     sortDirection,
+    hasRelevance,
     expandedId,
     setSearchText,
+    styleFamilies,
+    styleFamilyCounts,
     cycleContainerFilter,
+    toggleStyleFamily,
+    clearStyleFamilies,
     cycleSort,
     toggleSortDirection,
     toggleExpand,
-  } = useBeerFilters(beers.allBeers);
+    filterState,
+    applyFilterState,
+  } = useBeerFilters(
+    shownBeers,
+    'added_date',
+    undefined,
+    browsingSnapshot ? undefined : matchRanks
+  );
 
   // Sync debounced search text with hook's search state
   useEffect(() => {
     setSearchText(debouncedSearchText);
   }, [debouncedSearchText, setSearchText]);
 
+  // A preset (or the restored last-used state) also fills the search box
+  const applyPreset = useCallback(
+    (state: FilterPresetState) => {
+      setLocalSearchText(state.searchText);
+      applyFilterState(state);
+    },
+    [applyFilterState]
+  );
+  const filterPresets = useFilterPresets('allbeers', filterState, applyPreset);
+
+  // Wishlisted beers are highlighted here, since every beer listed is on tap
+  const { wishlistIds, toggleWishlist } = useWishlist();
+  const handleToggleWishlist = useCallback(
+    (beer: WishlistBeer) => {
+      toggleWishlist(beer).catch(error => {
+        console.error('Failed to update wishlist:', error);
+      });
+    },
+    [toggleWishlist]
+  );
+
+  // NEW badges for beers a refresh added within the window set in Settings
+  const { newArrivalIds } = useNewArrivals();
+
+  // Corrections are written locally and queued for the enrichment Worker
+  const { saveCorrection } = useBeerCorrections();
+
+  const handleSelectSnapshot = useCallback(
+    (id: number | null) => {
+      void selectSnapshot(id);
+    },
+    [selectSnapshot]
+  );
+
+  const handleBackToNow = useCallback(() => {
+    void selectSnapshot(null);
+  }, [selectSnapshot]);
+
   const colorScheme = useColorScheme() ?? 'dark';
   const colors = Colors[colorScheme];
 
@@ -122,22 +202,26 @@ export const AllBeers = () => {
   // re-rendering every visible row on each parent render.
   const renderBeerActions = useCallback(
     (item: BeerWithContainerType) => (
-      <View style={styles.buttonContainer}>
-        <TouchableOpacity
-          style={[styles.checkInButton, { borderColor: colors.tint }]}
-          onPress={() => handleUntappdSearch(item.brew_name)}
-          activeOpacity={0.7}
-          accessible={true}
-          accessibilityLabel={`Check ${item.brew_name} on Untappd`}
-          accessibilityRole="button"
-        >
-          <Text style={[styles.checkInButtonText, { color: colors.tint }]} numberOfLines={1}>
-            UNTAPPD
-          </Text>
-        </TouchableOpacity>
-      </View>
+      <>
+        <View style={styles.buttonContainer}>
+          <TouchableOpacity
+            style={[styles.checkInButton, { borderColor: colors.tint }]}
+            onPress={() => handleUntappdSearch(item.brew_name)}
+            activeOpacity={0.7}
+            accessible={true}
+            accessibilityLabel={`Check ${item.brew_name} on Untappd`}
+            accessibilityRole="button"
+          >
+            <Text style={[styles.checkInButtonText, { color: colors.tint }]} numberOfLines={1}>
+              UNTAPPD
+            </Text>
+          </TouchableOpacity>
+        </View>
+        {/* A snapshot is read-only: its beers may no longer be in the table to correct */}
+        {!browsingSnapshot && <BeerDetailsEditor beer={item} onSave={saveCorrection} />}
+      </>
     ),
-    [colors, handleUntappdSearch]
+    [colors, handleUntappdSearch, saveCorrection, browsingSnapshot]
   );
 
   return (
@@ -180,10 +264,38 @@ export const AllBeers = () => {
             />
             <View style={styles.beerCountContainer}>
               <Text style={[styles.beerCount, { color: colors.textSecondary }]} testID="beer-count">
-                {filteredBeers.length} beers on tap
+                {filteredBeers.length}
+                {browsingSnapshot ? ' beers were on tap' : ' beers on tap'}
               </Text>
+              <TaplistSnapshotPicker
+                snapshots={snapshots}
+                selected={selectedSnapshot}
+                onSelect={handleSelectSnapshot}
+                onOpen={reloadSnapshots}
+              />
             </View>
 
+            {selectedSnapshot && (
+              <View
+                style={[styles.snapshotBanner, { borderColor: colors.tint }]}
+                testID="taplist-snapshot-banner"
+              >
+                <Text style={[styles.snapshotBannerText, { color: colors.textSecondary }]}>
+                  Taplist as of {formatSnapshotTime(selectedSnapshot.fetched_at)} · read-only
+                </Text>
+                <TouchableOpacity
+                  onPress={handleBackToNow}
+                  hitSlop={8}
+                  testID="taplist-snapshot-back"
+                  accessibilityRole="button"
+                >
+                  <Text style={[styles.snapshotBannerAction, { color: colors.tint }]}>
+                    BACK TO NOW
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
             <FilterBar
               containerFilter={containerFilter}
               sortBy={sortBy}
@@ -191,12 +303,19 @@ export const AllBeers = () => {
               onCycleContainerFilter={cycleContainerFilter}
               onCycleSort={cycleSort}
               onToggleSortDirection={toggleSortDirection}
+              showRelevance={hasRelevance}
+              styleFamilyCounts={styleFamilyCounts}
+              selectedStyleFamilies={styleFamilies}
+              onToggleStyleFamily={toggleStyleFamily}
+              onClearStyleFamilies={clearStyleFamilies}
+              presets={filterPresets}
+              onApplyPreset={applyPreset}
             />
           </View>
 
           <BeerList
             beers={filteredBeers}
-            loading={loading.isLoadingBeers}
+            loading={browsingSnapshot ? loadingSnapshot : loading.isLoadingBeers}
             refreshing={refreshing}
             onRefresh={handleRefresh}
             emptyMessage="No beers found"
@@ -204,6 +323,10 @@ export const AllBeers = () => {
             onToggleExpand={toggleExpand}
             renderItemActions={renderBeerActions}
             numColumns={numColumns}
+            snippetsById={browsingSnapshot ? undefined : snippets}
+            wishlistIds={wishlistIds}
+            onToggleWishlist={browsingSnapshot ? undefined : handleToggleWishlist}
+            newIds={browsingSnapshot ? undefined : newArrivalIds}
           />
 
           <UntappdWebView
@@ -227,7 +350,31 @@ const styles = StyleSheet.create({
     marginBottom: 16,
   },
   beerCountContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  snapshotBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
     marginBottom: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderRadius: 8,
+  },
+  snapshotBannerText: {
+    flex: 1,
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+  },
+  snapshotBannerAction: {
+    fontFamily: 'SpaceGrotesk-SemiBold',
+    fontSize: 12,
+    letterSpacing: 1,
   },
   beerCount: {
     fontFamily: 'SpaceMono',
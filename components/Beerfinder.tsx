@@ -17,14 +17,22 @@ import { SearchBar } from './SearchBar';
 import { router, Href } from 'expo-router';
 import { UntappdWebView } from './UntappdWebView';
 import { useBeerFilters } from '@/hooks/useBeerFilters';
+import { useFilterPresets } from '@/hooks/useFilterPresets';
+import { useWishlist } from '@/hooks/useWishlist';
+import { useNewArrivals } from '@/hooks/useNewArrivals';
 import { useDataRefresh } from '@/hooks/useDataRefresh';
+import { useBeerCorrections } from '@/hooks/useBeerCorrections';
 import { FilterBar } from './beer/FilterBar';
 import { BeerList } from './beer/BeerList';
+import { BeerDetailsEditor } from './beer/BeerDetailsEditor';
 import { SkeletonLoader } from './beer/SkeletonLoader';
 import { QueuedBeer } from '@/src/utils/htmlParser';
 import { getQueuedBeers, deleteQueuedBeer as deleteQueuedBeerApi } from '@/src/api/queueService';
 import { BeerWithContainerType } from '@/src/types/beer';
 import { useDebounce } from '@/hooks/useDebounce';
+import { useFullTextSearch } from '@/hooks/useFullTextSearch';
+import type { FilterPresetState } from '@/src/utils/filterPresets';
+import type { WishlistBeer } from '@/src/database/repositories/WishlistRepository';
 import { useAppContext } from '@/context/AppContext';
 import { selectUntastedBeers } from '@/src/utils/untastedBeers';
 import { useQueuedCheckIn } from '@/hooks/useQueuedCheckIn';
@@ -64,18 +72,32 @@ export const Beerfinder = () => {
     [beers.allBeers, beers.tastedBeers, beers.queuedBeerIds]
   );
 
+  // Untasted beers are allbeers rows, so they share that table's index
+  const { matchRanks, snippets } = useFullTextSearch(
+    debouncedSearchText,
+    'allbeers',
+    beers.allBeers
+  );
+
   const {
     filteredBeers,
     containerFilter,
     sortBy,
     sortDirection,
+    hasRelevance,
     expandedId,
     setSearchText,
+    styleFamilies,
+    styleFamilyCounts,
     cycleContainerFilter,
+    toggleStyleFamily,
+    clearStyleFamilies,
     cycleSort,
     toggleSortDirection,
     toggleExpand,
-  } = useBeerFilters(untastedBeers);
+    filterState,
+    applyFilterState,
+  } = useBeerFilters(untastedBeers, 'added_date', undefined, matchRanks);
 
   const colorScheme = useColorScheme() ?? 'dark';
   const colors = Colors[colorScheme];
@@ -128,6 +150,32 @@ export const Beerfinder = () => {
     setSearchText(debouncedSearchText);
   }, [debouncedSearchText, setSearchText]);
 
+  // A preset (or the restored last-used state) also fills the search box
+  const applyPreset = useCallback(
+    (state: FilterPresetState) => {
+      setLocalSearchText(state.searchText);
+      applyFilterState(state);
+    },
+    [applyFilterState]
+  );
+  const filterPresets = useFilterPresets('beerfinder', filterState, applyPreset);
+
+  // Starring here adds to the same local wishlist as All Beers, not to the queue
+  const { wishlistIds, toggleWishlist } = useWishlist();
+  const handleToggleWishlist = useCallback(
+    (beer: WishlistBeer) => {
+      toggleWishlist(beer).catch(error => {
+        console.error('Failed to update wishlist:', error);
+      });
+    },
+    [toggleWishlist]
+  );
+
+  const { newArrivalIds } = useNewArrivals();
+
+  // Corrections are written locally and queued for the enrichment Worker
+  const { saveCorrection } = useBeerCorrections();
+
   /**
    * MP-3 Bottleneck #5: Memoized event handlers for stable references
    * MP-7 Step 2: Use queued check-in with offline support
@@ -263,16 +311,19 @@ export const Beerfinder = () => {
 
   const renderBeerActions = useCallback(
     (item: BeerWithContainerType) => (
-      <View style={styles.buttonContainer}>
-        <ActionButton
-          label="CHECK IN"
-          onPress={() => handleCheckIn(item)}
-          loading={checkinLoading}
-        />
-        <ActionButton label="UNTAPPD" onPress={() => handleUntappdSearch(item.brew_name)} />
-      </View>
+      <>
+        <View style={styles.buttonContainer}>
+          <ActionButton
+            label="CHECK IN"
+            onPress={() => handleCheckIn(item)}
+            loading={checkinLoading}
+          />
+          <ActionButton label="UNTAPPD" onPress={() => handleUntappdSearch(item.brew_name)} />
+        </View>
+        <BeerDetailsEditor beer={item} onSave={saveCorrection} />
+      </>
     ),
-    [handleCheckIn, checkinLoading, handleUntappdSearch]
+    [handleCheckIn, checkinLoading, handleUntappdSearch, saveCorrection]
   );
 
   const renderQueueModal = () => (
@@ -394,6 +445,13 @@ export const Beerfinder = () => {
                 onCycleContainerFilter={cycleContainerFilter}
                 onCycleSort={cycleSort}
                 onToggleSortDirection={toggleSortDirection}
+                showRelevance={hasRelevance}
+                styleFamilyCounts={styleFamilyCounts}
+                selectedStyleFamilies={styleFamilies}
+                onToggleStyleFamily={toggleStyleFamily}
+                onClearStyleFamilies={clearStyleFamilies}
+                presets={filterPresets}
+                onApplyPreset={applyPreset}
               />
               <ActionButton label="QUEUE" onPress={viewQueues} loading={loadingQueues} />
               <ActionButton
@@ -413,6 +471,10 @@ export const Beerfinder = () => {
             onToggleExpand={toggleExpand}
             renderItemActions={renderBeerActions}
             numColumns={numColumns}
+            snippetsById={snippets}
+            wishlistIds={wishlistIds}
+            onToggleWishlist={handleToggleWishlist}
+            newIds={newArrivalIds}
           />
 
           {renderQueueModal()}
@@ -441,7 +503,7 @@ const styles = StyleSheet.create({
   },
   filterRow: {
     flexDirection: 'row',
-    alignItems: 'center',
+    alignItems: 'flex-start',
     gap: 6,
   },
   beerCount: {
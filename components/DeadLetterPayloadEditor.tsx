@@ -0,0 +1,290 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import {
+  CorrectBeerDetailsPayload,
+  OperationPayload,
+  OperationType,
+  QueuedOperation,
+  UpdatePreferencesPayload,
+  isCorrectBeerDetailsPayload,
+  isUpdatePreferencesPayload,
+} from '@/src/types/operationQueue';
+import { normalizeBeerCorrection, validateBeerCorrection } from '@/src/utils/beerCorrections';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors } from '@/constants/Colors';
+
+type DeadLetterPayloadEditorProps = {
+  operation: QueuedOperation;
+  /** True while the queue is busy */
+  disabled: boolean;
+  onSave: (payload: OperationPayload) => void;
+  onCancel: () => void;
+};
+
+type FieldsProps<P> = Omit<DeadLetterPayloadEditorProps, 'operation'> & {
+  id: string;
+  payload: P;
+};
+
+/**
+ * Whether a failed operation has details the user may correct. Only a beer
+ * correction and a preference change do; every other payload names who or
+ * what the operation is for, which an edit must not change.
+ */
+export const isPayloadEditable = (operation: QueuedOperation): boolean =>
+  (operation.type === OperationType.CORRECT_BEER_DETAILS &&
+    isCorrectBeerDetailsPayload(operation.payload)) ||
+  (operation.type === OperationType.UPDATE_PREFERENCES &&
+    isUpdatePreferencesPayload(operation.payload));
+
+/**
+ * Edits the details of a failed operation before it is resubmitted, with an
+ * input for each field that may change. The fields that say what the
+ * operation is for are shown but not editable, and are saved as they were.
+ */
+export const DeadLetterPayloadEditor: React.FC<DeadLetterPayloadEditorProps> = ({
+  operation,
+  ...props
+}) => {
+  const { id, type, payload } = operation;
+
+  if (type === OperationType.CORRECT_BEER_DETAILS && isCorrectBeerDetailsPayload(payload)) {
+    return <CorrectionFields id={id} payload={payload} {...props} />;
+  }
+  if (type === OperationType.UPDATE_PREFERENCES && isUpdatePreferencesPayload(payload)) {
+    return <PreferenceFields id={id} payload={payload} {...props} />;
+  }
+  return null;
+};
+
+const CorrectionFields: React.FC<FieldsProps<CorrectBeerDetailsPayload>> = ({
+  id,
+  payload,
+  disabled,
+  onSave,
+  onCancel,
+}) => {
+  const colors = Colors[useColorScheme() ?? 'dark'];
+  const [abv, setAbv] = useState(payload.abv !== null ? String(payload.abv) : '');
+  const [style, setStyle] = useState(payload.brewStyle ?? '');
+  const [description, setDescription] = useState(payload.brewDescription ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    const abvText = abv.trim().replace('%', '');
+    const input = normalizeBeerCorrection({
+      beer_id: payload.beerId,
+      abv: abvText === '' ? null : Number(abvText),
+      brew_style: style,
+      brew_description: description,
+    });
+
+    const invalid = validateBeerCorrection(input);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    setError(null);
+    onSave({
+      ...payload,
+      abv: input.abv,
+      brewStyle: input.brew_style,
+      brewDescription: input.brew_description,
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <ReadOnlyField label="Beer" value={payload.beerName} testID={`dead-letter-beer-${id}`} />
+      <View style={styles.row}>
+        <TextInput
+          style={[
+            styles.input,
+            styles.abvInput,
+            { color: colors.text, borderColor: colors.border },
+          ]}
+          value={abv}
+          onChangeText={setAbv}
+          placeholder="ABV %"
+          placeholderTextColor={colors.textMuted}
+          keyboardType="decimal-pad"
+          maxLength={6}
+          testID={`dead-letter-abv-${id}`}
+          accessibilityLabel="ABV"
+        />
+        <TextInput
+          style={[
+            styles.input,
+            styles.flexInput,
+            { color: colors.text, borderColor: colors.border },
+          ]}
+          value={style}
+          onChangeText={setStyle}
+          placeholder="Style"
+          placeholderTextColor={colors.textMuted}
+          maxLength={100}
+          testID={`dead-letter-style-${id}`}
+          accessibilityLabel="Style"
+        />
+      </View>
+      <TextInput
+        style={[
+          styles.input,
+          styles.multilineInput,
+          { color: colors.text, borderColor: colors.border },
+        ]}
+        value={description}
+        onChangeText={setDescription}
+        placeholder="Description..."
+        placeholderTextColor={colors.textMuted}
+        multiline
+        maxLength={2000}
+        testID={`dead-letter-description-${id}`}
+        accessibilityLabel="Description"
+      />
+      <EditorActions
+        id={id}
+        error={error}
+        disabled={disabled}
+        onSave={handleSave}
+        onCancel={onCancel}
+      />
+    </View>
+  );
+};
+
+const PreferenceFields: React.FC<FieldsProps<UpdatePreferencesPayload>> = ({
+  id,
+  payload,
+  disabled,
+  onSave,
+  onCancel,
+}) => {
+  const colors = Colors[useColorScheme() ?? 'dark'];
+  const [value, setValue] = useState(payload.value);
+
+  return (
+    <View style={styles.container}>
+      <ReadOnlyField label="Setting" value={payload.key} testID={`dead-letter-setting-${id}`} />
+      <TextInput
+        style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+        value={value}
+        onChangeText={setValue}
+        placeholder="Value"
+        placeholderTextColor={colors.textMuted}
+        autoCapitalize="none"
+        autoCorrect={false}
+        testID={`dead-letter-value-${id}`}
+        accessibilityLabel="Value"
+      />
+      <EditorActions
+        id={id}
+        error={null}
+        disabled={disabled}
+        onSave={() => onSave({ ...payload, value })}
+        onCancel={onCancel}
+      />
+    </View>
+  );
+};
+
+const ReadOnlyField: React.FC<{ label: string; value: string; testID: string }> = ({
+  label,
+  value,
+  testID,
+}) => {
+  const colors = Colors[useColorScheme() ?? 'dark'];
+
+  return (
+    <Text style={[styles.readOnly, { color: colors.textSecondary }]} testID={testID}>
+      {label}: {value}
+    </Text>
+  );
+};
+
+const EditorActions: React.FC<{
+  id: string;
+  error: string | null;
+  disabled: boolean;
+  onSave: () => void;
+  onCancel: () => void;
+}> = ({ id, error, disabled, onSave, onCancel }) => {
+  const colors = Colors[useColorScheme() ?? 'dark'];
+
+  return (
+    <>
+      {error && (
+        <Text
+          style={[styles.errorText, { color: colors.error }]}
+          testID={`dead-letter-error-${id}`}
+        >
+          {error}
+        </Text>
+      )}
+      <View style={styles.row}>
+        <TouchableOpacity
+          onPress={onSave}
+          style={[styles.actionButton, { borderColor: colors.tint }]}
+          disabled={disabled}
+          testID={`dead-letter-save-${id}`}
+        >
+          <Text style={[styles.actionButtonText, { color: colors.tint }]}>SAVE & RESUBMIT</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={onCancel}
+          style={[styles.actionButton, { borderColor: colors.border }]}
+          testID={`dead-letter-cancel-${id}`}
+        >
+          <Text style={[styles.actionButtonText, { color: colors.text }]}>CANCEL</Text>
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  readOnly: {
+    fontFamily: 'SpaceMono',
+    fontSize: 11,
+  },
+  input: {
+    fontFamily: 'SpaceMono',
+    fontSize: 11,
+    borderWidth: 1,
+    padding: 8,
+  },
+  abvInput: {
+    width: 80,
+  },
+  flexInput: {
+    flex: 1,
+  },
+  multilineInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+  },
+  actionButtonText: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 2,
+  },
+});
@@ -0,0 +1,398 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import { useOperationQueue } from '@/context/OperationQueueContext';
+import { autoLogin } from '@/src/api/authService';
+import {
+  OperationAttempt,
+  OperationErrorClass,
+  OperationPayload,
+  OperationStatus,
+  QueuedOperation,
+} from '@/src/types/operationQueue';
+import {
+  DeadLetterGroup,
+  OPERATION_ERROR_CLASS_DESCRIPTIONS,
+  OPERATION_ERROR_CLASS_TITLES,
+  groupDeadLetters,
+} from '@/src/utils/operationFailures';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors } from '@/constants/Colors';
+import { DeadLetterPayloadEditor, isPayloadEditable } from './DeadLetterPayloadEditor';
+
+type DeadLetterSectionProps = {
+  /** Every queued operation; only the failed ones are shown */
+  operations: QueuedOperation[];
+  /** True while the queue is being retried */
+  disabled: boolean;
+  getOperationTypeName: (operation: QueuedOperation) => string;
+  getOperationDetails: (operation: QueuedOperation) => string;
+  /** Leave the queue for Settings, to log in */
+  onOpenSettings: () => void;
+};
+
+/**
+ * The failed operations in the queue, grouped by the kind of failure they
+ * ended in, each group with the remedy that fits it: log in again, log in as a
+ * member, correct the payload, or just try again. Each operation shows its
+ * timeline of failed attempts, and one with details the user may correct can
+ * be edited and resubmitted.
+ */
+export const DeadLetterSection: React.FC<DeadLetterSectionProps> = ({
+  operations,
+  disabled,
+  getOperationTypeName,
+  getOperationDetails,
+  onOpenSettings,
+}) => {
+  const { resubmitOperations, editAndResubmit, deleteOperation, getAttempts } = useOperationQueue();
+  const [attempts, setAttempts] = useState<OperationAttempt[]>([]);
+  const [expandedTimelineId, setExpandedTimelineId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+
+  const failedIds = useMemo(
+    () => operations.filter(op => op.status === OperationStatus.FAILED).map(op => op.id),
+    [operations]
+  );
+
+  // Reread on every queue change: a resubmitted operation that fails again
+  // has a new attempt to show
+  useEffect(() => {
+    let cancelled = false;
+    getAttempts(failedIds).then(loaded => {
+      if (!cancelled) {
+        setAttempts(loaded);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [failedIds, getAttempts]);
+
+  const groups = useMemo(() => groupDeadLetters(operations, attempts), [operations, attempts]);
+
+  if (groups.length === 0) {
+    return null;
+  }
+
+  const isDisabled = disabled || isBusy;
+  const failedCount = groups.reduce((count, group) => count + group.operations.length, 0);
+
+  const resubmit = async (ids: string[]) => {
+    setIsBusy(true);
+    try {
+      const resubmitted = await resubmitOperations(ids);
+      Alert.alert(
+        'Resubmitted',
+        `${resubmitted} ${resubmitted === 1 ? 'operation' : 'operations'} put back in the queue`
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      Alert.alert('Resubmit Failed', `Could not resubmit: ${errorMessage}`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleLogInAndResubmit = async (ids: string[]) => {
+    setIsBusy(true);
+    try {
+      const result = await autoLogin();
+      if (!result.success) {
+        Alert.alert(
+          'Login Failed',
+          `${result.error ?? 'Could not log in again.'}\n\nLog in from Settings, then resubmit.`,
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Open Settings', onPress: onOpenSettings },
+          ]
+        );
+        return;
+      }
+    } finally {
+      setIsBusy(false);
+    }
+
+    await resubmit(ids);
+  };
+
+  const handleDelete = (id: string) => {
+    Alert.alert('Delete Operation', 'Are you sure you want to delete this failed operation?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteOperation(id);
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+            Alert.alert('Delete Failed', `Could not delete operation: ${errorMessage}`);
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleSaveAndResubmit = async (id: string, payload: OperationPayload) => {
+    setIsBusy(true);
+    try {
+      // The engine checks the payload against the operation's handler
+      const resubmitted = await editAndResubmit(id, payload);
+      if (resubmitted) {
+        setEditingId(null);
+      } else {
+        Alert.alert('Not Resubmitted', 'This operation is no longer failed.');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      Alert.alert('Resubmit Failed', errorMessage);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const renderGroupActions = (group: DeadLetterGroup) => {
+    const ids = group.operations.map(op => op.id);
+
+    switch (group.errorClass) {
+      case 'auth':
+        return (
+          <TouchableOpacity
+            onPress={() => handleLogInAndResubmit(ids)}
+            style={[styles.actionButton, { borderColor: colors.tint }]}
+            disabled={isDisabled}
+            testID="dead-letter-login-resubmit"
+          >
+            <Text style={[styles.actionButtonText, { color: colors.tint }]}>LOG IN & RESUBMIT</Text>
+          </TouchableOpacity>
+        );
+      case 'visitor':
+        return (
+          <>
+            <TouchableOpacity
+              onPress={onOpenSettings}
+              style={[styles.actionButton, { borderColor: colors.tint }]}
+              testID="dead-letter-open-settings"
+            >
+              <Text style={[styles.actionButtonText, { color: colors.tint }]}>SETTINGS</Text>
+            </TouchableOpacity>
+            {renderResubmitAll(group.errorClass, ids)}
+          </>
+        );
+      default:
+        return renderResubmitAll(group.errorClass, ids);
+    }
+  };
+
+  const renderResubmitAll = (errorClass: OperationErrorClass, ids: string[]) => (
+    <TouchableOpacity
+      onPress={() => resubmit(ids)}
+      style={[styles.actionButton, { borderColor: colors.tint }]}
+      disabled={isDisabled}
+      testID={`dead-letter-resubmit-${errorClass}`}
+    >
+      <Text style={[styles.actionButtonText, { color: colors.tint }]}>RESUBMIT ALL</Text>
+    </TouchableOpacity>
+  );
+
+  const renderTimeline = (operation: QueuedOperation) => {
+    const timeline = attempts.filter(attempt => attempt.operationId === operation.id);
+
+    return (
+      <View style={[styles.timeline, { borderLeftColor: colors.border }]}>
+        <Text style={[styles.timelineEntry, { color: colors.textSecondary }]}>
+          {new Date(operation.timestamp).toLocaleString()} · Queued
+        </Text>
+        {timeline.length === 0 ? (
+          <Text style={[styles.timelineEntry, { color: colors.textSecondary }]}>
+            No attempts recorded
+          </Text>
+        ) : (
+          timeline.map((attempt, index) => (
+            <Text
+              key={`${attempt.attemptedAt}-${index}`}
+              style={[
+                styles.timelineEntry,
+                { color: attempt.outcome === 'failed' ? colors.error : colors.textSecondary },
+              ]}
+            >
+              {new Date(attempt.attemptedAt).toLocaleString()} ·{' '}
+              {attempt.outcome === 'failed' ? 'Failed' : 'Will retry'}
+              {attempt.errorMessage ? ` · ${attempt.errorMessage}` : ''}
+            </Text>
+          ))
+        )}
+      </View>
+    );
+  };
+
+  const renderOperation = (operation: QueuedOperation) => {
+    const isEditing = editingId === operation.id;
+    const showTimeline = expandedTimelineId === operation.id;
+
+    return (
+      <View
+        key={operation.id}
+        style={[
+          styles.operationCard,
+          { backgroundColor: colors.backgroundActive, borderColor: colors.border },
+        ]}
+      >
+        <Text style={[styles.operationType, { color: colors.text }]}>
+          {getOperationTypeName(operation)}
+        </Text>
+        <Text style={[styles.operationDetails, { color: colors.text }]}>
+          {getOperationDetails(operation)}
+        </Text>
+        {operation.errorMessage && (
+          <Text style={[styles.errorMessage, { color: colors.error }]}>
+            {operation.errorMessage}
+          </Text>
+        )}
+
+        {showTimeline && renderTimeline(operation)}
+
+        {isEditing && (
+          <DeadLetterPayloadEditor
+            operation={operation}
+            disabled={isDisabled}
+            onSave={payload => handleSaveAndResubmit(operation.id, payload)}
+            onCancel={() => setEditingId(null)}
+          />
+        )}
+
+        <View style={styles.actions}>
+          <TouchableOpacity
+            onPress={() => setExpandedTimelineId(showTimeline ? null : operation.id)}
+            style={[styles.actionButton, { borderColor: colors.border }]}
+            testID={`dead-letter-timeline-${operation.id}`}
+          >
+            <Text style={[styles.actionButtonText, { color: colors.text }]}>
+              {showTimeline ? 'HIDE' : 'TIMELINE'}
+            </Text>
+          </TouchableOpacity>
+          {!isEditing && isPayloadEditable(operation) && (
+            <TouchableOpacity
+              onPress={() => setEditingId(operation.id)}
+              style={[styles.actionButton, { borderColor: colors.tint }]}
+              disabled={isDisabled}
+              testID={`dead-letter-edit-${operation.id}`}
+            >
+              <Text style={[styles.actionButtonText, { color: colors.tint }]}>EDIT</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            onPress={() => handleDelete(operation.id)}
+            style={[styles.actionButton, { borderColor: colors.error }]}
+            disabled={isDisabled}
+          >
+            <Text style={[styles.actionButtonText, { color: colors.error }]}>DELETE</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View testID="dead-letter-section">
+      <Text style={[styles.sectionTitle, { color: colors.error }]}>Failed ({failedCount})</Text>
+      {groups.map(group => (
+        <View
+          key={group.errorClass}
+          style={styles.group}
+          testID={`dead-letter-${group.errorClass}`}
+        >
+          <Text style={[styles.groupTitle, { color: colors.text }]}>
+            {OPERATION_ERROR_CLASS_TITLES[group.errorClass]} ({group.operations.length})
+          </Text>
+          <Text style={[styles.groupDescription, { color: colors.textSecondary }]}>
+            {OPERATION_ERROR_CLASS_DESCRIPTIONS[group.errorClass]}
+          </Text>
+          <View style={styles.groupActions}>{renderGroupActions(group)}</View>
+          {group.operations.map(renderOperation)}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  sectionTitle: {
+    fontFamily: 'SpaceGrotesk-SemiBold',
+    fontSize: 16,
+    fontWeight: '700',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  group: {
+    marginBottom: 16,
+  },
+  groupTitle: {
+    fontFamily: 'SpaceGrotesk-SemiBold',
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  groupDescription: {
+    fontFamily: 'SpaceMono',
+    fontSize: 11,
+    marginBottom: 8,
+  },
+  groupActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  operationCard: {
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 1,
+  },
+  operationType: {
+    fontFamily: 'SpaceGrotesk-SemiBold',
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  operationDetails: {
+    fontFamily: 'SpaceGrotesk-Regular',
+    fontSize: 13,
+    marginBottom: 4,
+  },
+  errorMessage: {
+    fontFamily: 'SpaceMono',
+    fontSize: 11,
+    marginBottom: 8,
+  },
+  timeline: {
+    borderLeftWidth: 2,
+    paddingLeft: 8,
+    marginBottom: 8,
+  },
+  timelineEntry: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+    marginBottom: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderWidth: 1,
+  },
+  actionButtonText: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 2,
+  },
+});
@@ -8,6 +8,7 @@ import { useColorScheme } from '@/hooks/useColorScheme';
 import { Colors } from '@/constants/Colors';
 import { setPreference } from '@/src/database/preferences';
 import { commitTaplistWrite } from '@/src/services/taplistEtag';
+import { taplistUrlForStore } from '@/src/utils/storeDirectory';
 import { databaseLockManager } from '@/src/database/DatabaseLockManager';
 import { handleVisitorLogin } from '@/src/api/authService';
 import { saveSessionData, extractSessionDataFromResponse } from '@/src/api/sessionManager';
@@ -579,7 +580,7 @@ export default function LoginWebView({
                   'Placeholder URL for visitor mode (not a real endpoint)'
                 );
 
-                const storeJsonUrl = `https://fsbs.beerknurd.com/bk-store-json.php?sid=${storeId}`;
+                const storeJsonUrl = taplistUrlForStore(storeId);
                 console.log('Setting all_beers_api_url to:', storeJsonUrl);
                 await setPreference(
                   'all_beers_api_url',
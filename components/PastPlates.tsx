@@ -0,0 +1,229 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  FlatList,
+  ActivityIndicator,
+  TouchableOpacity,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { tastingHistoryRepository } from '@/src/database/repositories/TastingHistoryRepository';
+import { summarizeCompletedPlates, PlateSummary } from '@/src/utils/plateHistory';
+import { TastingHistoryEntry } from '@/src/types/beer';
+import { useAppContext } from '@/context/AppContext';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors } from '@/constants/Colors';
+
+/** Styles listed per plate before the rest collapse into "+N more". */
+const MAX_STYLES_SHOWN = 5;
+
+const PlateCard = ({ plate }: { plate: PlateSummary }) => {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+
+  const shownStyles = plate.styles.slice(0, MAX_STYLES_SHOWN);
+  const hiddenStyleCount = plate.styles.length - shownStyles.length;
+  const dateRange =
+    plate.firstTastedDate && plate.lastTastedDate
+      ? `${plate.firstTastedDate} – ${plate.lastTastedDate}`
+      : 'Dates unknown';
+
+  return (
+    <View
+      style={[
+        styles.plateCard,
+        { backgroundColor: colors.backgroundElevated, borderColor: colors.accentMuted },
+      ]}
+      testID={`past-plate-${plate.rohLap}`}
+    >
+      <View style={styles.plateHeader}>
+        <Text style={[styles.plateTitle, { color: colors.text }]}>PLATE {plate.rohLap}</Text>
+        <Text style={[styles.plateCount, { color: colors.tint }]}>{plate.beerCount} beers</Text>
+      </View>
+      <Text style={[styles.plateDates, { color: colors.textSecondary }]}>{dateRange}</Text>
+      <View style={[styles.styleList, { borderTopColor: colors.separator }]}>
+        {shownStyles.map(({ style, count }) => (
+          <View key={style} style={styles.styleRow}>
+            <Text style={[styles.styleName, { color: colors.text }]} numberOfLines={1}>
+              {style}
+            </Text>
+            <Text style={[styles.styleCount, { color: colors.textSecondary }]}>{count}</Text>
+          </View>
+        ))}
+        {hiddenStyleCount > 0 && (
+          <Text style={[styles.styleMore, { color: colors.textMuted }]}>
+            +{hiddenStyleCount} more {hiddenStyleCount === 1 ? 'style' : 'styles'}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+};
+
+/**
+ * Completed UFO Club plates, read from the local tasting history.
+ *
+ * Only plates this device has synced appear here: the history starts from the
+ * first sync after the v10 upgrade, and the Flying Saucer API never returns a
+ * previous plate.
+ */
+export const PastPlates = () => {
+  const { beers } = useAppContext();
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+
+  const [history, setHistory] = useState<TastingHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setHistory(await tastingHistoryRepository.getAll());
+    } catch (loadError) {
+      console.error('[PastPlates] Failed to load tasting history:', loadError);
+      setError('Could not load your past plates.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const currentRohLap = beers.tastedBeers.find(beer => beer.roh_lap)?.roh_lap ?? null;
+  const plates = useMemo(
+    () => summarizeCompletedPlates(history, currentRohLap),
+    [history, currentRohLap]
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color={colors.tint} />
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View style={styles.centered}>
+        <Text style={[styles.message, { color: colors.text }]}>{error}</Text>
+        <TouchableOpacity
+          style={[styles.retryButton, { backgroundColor: colors.tint }]}
+          onPress={loadHistory}
+        >
+          <Text style={[styles.retryText, { color: colors.textOnPrimary }]}>Try Again</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      data={plates}
+      keyExtractor={plate => plate.rohLap}
+      renderItem={({ item }) => <PlateCard plate={item} />}
+      contentContainerStyle={plates.length === 0 ? styles.centered : styles.listContent}
+      ListEmptyComponent={
+        <View style={styles.emptyState}>
+          <Ionicons name="beer-outline" size={48} color={colors.tint} />
+          <Text style={[styles.emptyTitle, { color: colors.text }]}>No Past Plates Yet</Text>
+          <Text style={[styles.message, { color: colors.textSecondary }]}>
+            Finished plates show up here once you roll over to the next one.
+          </Text>
+        </View>
+      }
+      testID="past-plates-list"
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  listContent: {
+    paddingHorizontal: 18,
+    paddingBottom: 24,
+  },
+  plateCard: {
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderRadius: 14,
+  },
+  plateHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  plateTitle: {
+    fontFamily: 'SpaceGrotesk-Bold',
+    fontSize: 18,
+    letterSpacing: 1,
+  },
+  plateCount: {
+    fontFamily: 'SpaceMono',
+    fontSize: 12,
+  },
+  plateDates: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+    marginTop: 4,
+  },
+  styleList: {
+    marginTop: 10,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    gap: 4,
+  },
+  styleRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  styleName: {
+    flex: 1,
+    fontFamily: 'SpaceMono',
+    fontSize: 11,
+  },
+  styleCount: {
+    fontFamily: 'SpaceMono',
+    fontSize: 11,
+  },
+  styleMore: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+  },
+  emptyState: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  emptyTitle: {
+    fontFamily: 'SpaceGrotesk-Bold',
+    fontSize: 20,
+    marginTop: 16,
+  },
+  message: {
+    fontFamily: 'SpaceMono',
+    fontSize: 11,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+  },
+  retryText: {
+    fontFamily: 'SpaceGrotesk-SemiBold',
+    fontSize: 13,
+  },
+});
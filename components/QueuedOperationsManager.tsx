@@ -1,7 +1,9 @@
 /**
  * QueuedOperationsManager Component
  *
- * Manages the display of queued operations indicator and modal.
+ * Manages the display of queued operations indicator and modal, settles the
+ * "queued" state of rewards redeemed offline as their operations finish, and
+ * reloads the app's data when a queued refresh succeeds.
  * This component is placed in _layout.tsx to be available globally.
  *
  * @example
@@ -15,9 +17,13 @@
 import React, { useState } from 'react';
 import { QueuedOperationsIndicator } from './QueuedOperationsIndicator';
 import { QueuedOperationsModal } from './QueuedOperationsModal';
+import { useRewardRedemptionSettlement } from '@/hooks/useRewardRedemption';
+import { useQueuedRefreshSettlement } from '@/hooks/useQueuedRefresh';
 
 export const QueuedOperationsManager: React.FC = () => {
   const [modalVisible, setModalVisible] = useState(false);
+  useRewardRedemptionSettlement();
+  useQueuedRefreshSettlement();
 
   return (
     <>
@@ -9,12 +9,16 @@ import {
   ActivityIndicator,
   Alert,
 } from 'react-native';
+import { router } from 'expo-router';
 import { useOperationQueue } from '@/context/OperationQueueContext';
+import { DeadLetterSection } from './DeadLetterSection';
 import {
   OperationType,
   OperationStatus,
   QueuedOperation,
   isCheckInBeerPayload,
+  isCorrectBeerDetailsPayload,
+  isRewardRedemptionPayload,
 } from '@/src/types/operationQueue';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { Colors } from '@/constants/Colors';
@@ -34,6 +38,11 @@ export const QueuedOperationsModal: React.FC<QueuedOperationsModalProps> = ({
   const colorScheme = useColorScheme() ?? 'dark';
   const colors = Colors[colorScheme];
 
+  // Failed operations are listed by DeadLetterSection, grouped by failure
+  const waitingOperations = queuedOperations.filter(
+    operation => operation.status !== OperationStatus.FAILED
+  );
+
   const getOperationTypeName = (type: OperationType): string => {
     switch (type) {
       case OperationType.CHECK_IN_BEER:
@@ -46,6 +55,8 @@ export const QueuedOperationsModal: React.FC<QueuedOperationsModalProps> = ({
         return 'Refresh Rewards';
       case OperationType.UPDATE_PREFERENCES:
         return 'Update Settings';
+      case OperationType.CORRECT_BEER_DETAILS:
+        return 'Correct Beer Details';
       default:
         return type;
     }
@@ -59,7 +70,15 @@ export const QueuedOperationsModal: React.FC<QueuedOperationsModalProps> = ({
         }
         return 'Beer check-in';
       case OperationType.ADD_TO_REWARD_QUEUE:
+        if (isRewardRedemptionPayload(operation.payload)) {
+          return operation.payload.rewardType;
+        }
         return 'Reward redemption';
+      case OperationType.CORRECT_BEER_DETAILS:
+        if (isCorrectBeerDetailsPayload(operation.payload)) {
+          return operation.payload.beerName;
+        }
+        return 'Beer details correction';
       default:
         return 'Operation';
     }
@@ -146,6 +165,11 @@ export const QueuedOperationsModal: React.FC<QueuedOperationsModalProps> = ({
     ]);
   };
 
+  const handleOpenSettings = () => {
+    onClose();
+    router.push('/settings');
+  };
+
   const handleClearAll = () => {
     Alert.alert('Clear Queue', 'Are you sure you want to clear all queued operations?', [
       { text: 'Cancel', style: 'cancel' },
@@ -192,7 +216,7 @@ export const QueuedOperationsModal: React.FC<QueuedOperationsModalProps> = ({
                 </Text>
               </View>
             ) : (
-              queuedOperations.map(operation => (
+              waitingOperations.map(operation => (
                 <View
                   key={operation.id}
                   style={[
@@ -261,6 +285,13 @@ export const QueuedOperationsModal: React.FC<QueuedOperationsModalProps> = ({
                 </View>
               ))
             )}
+            <DeadLetterSection
+              operations={queuedOperations}
+              disabled={isRetrying}
+              getOperationTypeName={operation => getOperationTypeName(operation.type)}
+              getOperationDetails={getOperationDetails}
+              onOpenSettings={handleOpenSettings}
+            />
           </ScrollView>
 
           {queuedOperations.length > 0 && (
@@ -8,7 +8,6 @@ import {
   ActivityIndicator,
   TouchableOpacity,
   Alert,
-  Platform,
   useWindowDimensions,
 } from 'react-native';
 import Animated, {
@@ -30,10 +29,12 @@ import { Ionicons } from '@expo/vector-icons';
 import { rewardsRepository } from '@/src/database/repositories/RewardsRepository';
 import { fetchRewardsFromAPI } from '@/src/api/beerApi';
 import { useColorScheme } from '@/hooks/useColorScheme';
-import { getSessionData } from '@/src/api/sessionManager';
-import Constants from 'expo-constants';
 import { useAppContext } from '@/context/AppContext';
-import { config } from '@/src/config';
+import { useNetwork } from '@/context/NetworkContext';
+import { useRewardRedemption } from '@/hooks/useRewardRedemption';
+import { useQueuedRefresh } from '@/hooks/useQueuedRefresh';
+import { ApiErrorType } from '@/src/utils/notificationUtils';
+import { isOffline } from '@/src/utils/networkStatus';
 import { Colors } from '@/constants/Colors';
 
 type Reward = {
@@ -184,10 +185,12 @@ const RewardBadge = ({
   );
 };
 
-const StatusBadge = ({ isRedeemed }: { isRedeemed: boolean }) => {
+const StatusBadge = ({ isRedeemed, isQueued }: { isRedeemed: boolean; isQueued: boolean }) => {
   const colorScheme = useColorScheme() ?? 'dark';
   const colors = Colors[colorScheme];
 
+  const accent = isQueued ? colors.warning : colors.tint;
+
   return (
     <View
       style={[
@@ -195,12 +198,12 @@ const StatusBadge = ({ isRedeemed }: { isRedeemed: boolean }) => {
         {
           backgroundColor: isRedeemed ? colors.backgroundActive : 'transparent',
           borderWidth: isRedeemed ? 0 : 1,
-          borderColor: isRedeemed ? 'transparent' : colors.tint,
+          borderColor: isRedeemed ? 'transparent' : accent,
         },
       ]}
     >
-      <Text style={[styles.statusText, { color: isRedeemed ? colors.textSecondary : colors.tint }]}>
-        {isRedeemed ? 'REDEEMED' : 'AVAILABLE'}
+      <Text style={[styles.statusText, { color: isRedeemed ? colors.textSecondary : accent }]}>
+        {isRedeemed ? 'REDEEMED' : isQueued ? 'QUEUED' : 'AVAILABLE'}
       </Text>
     </View>
   );
@@ -338,6 +341,8 @@ const ProgressHeader = ({ tastedCount }: { tastedCount: number }) => {
 
 export const Rewards = () => {
   const { session, beers, loading, errors, refreshBeerData } = useAppContext();
+  const { isConnected, isInternetReachable } = useNetwork();
+  const { queueRefresh } = useQueuedRefresh();
 
   const [refreshing, setRefreshing] = useState(false);
   /** Guards against overlapping refreshes; see `refreshRewards`. */
@@ -409,6 +414,10 @@ export const Rewards = () => {
       // about a failure must not depend on the vibration motor.
       void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light).catch(() => {});
 
+      // Set when the server could not be reached at all, so the same refresh
+      // can be queued to run once the connection is back.
+      let unreachable = false;
+
       try {
         setRefreshing(true);
 
@@ -420,7 +429,18 @@ export const Rewards = () => {
           rerunRequested.current = false;
 
           if (!session.isVisitor) {
+            if (isOffline({ isConnected, isInternetReachable })) {
+              unreachable = true;
+              throw new Error('Rewards could not be fetched: offline');
+            }
             const source = await fetchRewardsFromAPI();
+            if (
+              source.status === 'failed' &&
+              (source.error.type === ApiErrorType.NETWORK_ERROR ||
+                source.error.type === ApiErrorType.TIMEOUT_ERROR)
+            ) {
+              unreachable = true;
+            }
 
             // `unavailable` is an ERROR state, not an empty list — the old bare []
             // rendered "no rewards" for a member whose request never happened.
@@ -462,11 +482,18 @@ export const Rewards = () => {
         // and a member whose rewards never arrived had no way to know the attempt
         // had failed at all.
         //
-        // The wording names no cause on purpose: this `try` also spans
-        // `rewardsRepository.insertMany` and the context sync, so "check your
-        // connection" sent a user to toggle wifi over a failed local write.
+        // The wording names no cause unless the server was never reached: this
+        // `try` also spans `rewardsRepository.insertMany` and the context sync,
+        // so "check your connection" sent a user to toggle wifi over a failed
+        // local write. Unreached, the refresh is queued for when it can run.
         console.error('Error refreshing rewards:', error);
-        if (notifyOnFailureRef.current) {
+        if (notifyOnFailureRef.current && unreachable) {
+          const queued = await queueRefresh('rewards');
+          const retryNote = queued
+            ? "Your rewards will refresh when you're back online."
+            : 'Please check your internet connection and try again later.';
+          Alert.alert('Server Connection Error', `Unable to connect to the server. ${retryNote}`);
+        } else if (notifyOnFailureRef.current) {
           Alert.alert(
             'Rewards Refresh Failed',
             'Could not refresh your rewards. Please try again.'
@@ -478,7 +505,7 @@ export const Rewards = () => {
         setRefreshing(false);
       }
     },
-    [session.isVisitor, refreshBeerData]
+    [session.isVisitor, refreshBeerData, isConnected, isInternetReachable, queueRefresh]
   );
 
   /** Pull-to-refresh: the user asked, so the user is told if it fails. */
@@ -500,100 +527,41 @@ export const Rewards = () => {
     void refreshBeerData();
   }, [refreshBeerData]);
 
+  // A reward queued offline shows as QUEUED until the operation queue sends
+  // it; once the server accepts it, a silent sync picks up its new state.
+  const { redeemReward, getPendingRedemption } = useRewardRedemption({
+    onQueuedRedemptionComplete: () => void refreshRewards({ notifyOnFailure: false }),
+  });
+
   const queueReward = useCallback(
-    async (rewardId: string, rewardType: string) => {
+    async (reward: Reward) => {
+      const rewardType = reward.reward_type;
       try {
-        setQueueingRewards(prev => ({ ...prev, [rewardId]: true }));
+        setQueueingRewards(prev => ({ ...prev, [reward.reward_id]: true }));
         void Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium).catch(() => {});
 
-        const sessionData = await getSessionData();
+        const result = await redeemReward(reward);
 
-        if (!sessionData) {
-          Alert.alert('Error', 'You are not logged in. Please log in to queue rewards.');
+        if (result.outcome === 'failed') {
+          void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
+          Alert.alert('Error', `Failed to queue the reward: ${result.error}`);
           return;
         }
 
-        const {
-          memberId,
-          storeId,
-          storeName,
-          sessionId,
-          username,
-          firstName,
-          lastName,
-          email,
-          cardNum,
-        } = sessionData;
-
-        const userAgent =
-          Platform.OS === 'web'
-            ? window.navigator.userAgent
-            : `BeerSelector/${Constants.expoConfig?.version || '1.0.0'} (${Platform.OS}; ${Platform.Version})`;
-
-        const formData = `chitCode=${rewardId}&chitRewardType=${encodeURIComponent(rewardType)}&chitStoreName=${encodeURIComponent(storeName)}&chitUserId=${memberId}`;
-
-        console.log('Sending form data:', formData);
-
-        const headers = {
-          accept: '*/*',
-          'accept-language': 'en-US,en;q=0.9',
-          'content-type': 'application/x-www-form-urlencoded; charset=UTF-8',
-          origin: config.api.baseUrl,
-          referer: config.api.referers.memberRewards,
-          'sec-ch-ua': '"Chromium";v="134", "Not:A-Brand";v="24", "Google Chrome";v="134"',
-          'sec-ch-ua-mobile': '?0',
-          'sec-ch-ua-platform': '"macOS"',
-          'sec-fetch-dest': 'empty',
-          'sec-fetch-mode': 'cors',
-          'sec-fetch-site': 'same-origin',
-          'user-agent': userAgent,
-          'x-requested-with': 'XMLHttpRequest',
-          Cookie: `store__id=${storeId}; PHPSESSID=${sessionId}; store_name=${encodeURIComponent(storeName)}; member_id=${memberId}; username=${encodeURIComponent(username || '')}; first_name=${encodeURIComponent(firstName || '')}; last_name=${encodeURIComponent(lastName || '')}; email=${encodeURIComponent(email || '')}; cardNum=${cardNum || ''}`,
-        };
-
-        console.log('Making API call with session data:', {
-          memberId,
-          storeId,
-          storeName,
-          sessionId: sessionId.substring(0, 5) + '...',
-        });
-
-        const response = await fetch(config.api.getFullUrl('addToRewardQueue'), {
-          method: 'POST',
-          headers: headers,
-          body: formData,
-        });
-
-        const responseText = await response.text();
-        console.log('API Response:', responseText);
-
-        if (response.ok) {
-          void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
-
-          if (!responseText || responseText.trim().length < 2) {
-            console.log('Empty response received from server, considering reward queue successful');
-            Alert.alert('Success', `${rewardType} has been added to your queue!`);
-            // Silent: the queue succeeded, and the user did not ask for this
-            // sync. Its failure must not contradict the confirmation above.
-            void refreshRewards({ notifyOnFailure: false });
-            return;
-          }
-
-          try {
-            const jsonResult = JSON.parse(responseText);
-            console.log('Parsed JSON result:', jsonResult);
-            Alert.alert('Success', `${rewardType} has been added to your queue!`);
-          } catch {
-            console.log('Invalid JSON response, but got HTTP 200 OK');
-            Alert.alert('Success', `${rewardType} has been added to your queue!`);
-          }
+        void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success).catch(() => {});
 
-          void refreshRewards({ notifyOnFailure: false });
-        } else {
-          void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
-          console.error('Failed to queue reward:', responseText);
-          Alert.alert('Error', `Failed to queue the reward. Status: ${response.status}`);
+        if (result.outcome === 'queued') {
+          Alert.alert(
+            'Queued for Later',
+            `${rewardType} will be added to your queue when you're back online.`
+          );
+          return;
         }
+
+        Alert.alert('Success', `${rewardType} has been added to your queue!`);
+        // Silent: the queue succeeded, and the user did not ask for this
+        // sync. Its failure must not contradict the confirmation above.
+        void refreshRewards({ notifyOnFailure: false });
       } catch (err: unknown) {
         void Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error).catch(() => {});
         console.error('Error queuing reward:', err);
@@ -602,10 +570,10 @@ export const Rewards = () => {
           `Failed to queue the reward: ${err instanceof Error ? err.message : 'Unknown error'}`
         );
       } finally {
-        setQueueingRewards(prev => ({ ...prev, [rewardId]: false }));
+        setQueueingRewards(prev => ({ ...prev, [reward.reward_id]: false }));
       }
     },
-    [refreshRewards]
+    [redeemReward, refreshRewards]
   );
 
   const handleRewardPress = useCallback(
@@ -615,23 +583,29 @@ export const Rewards = () => {
 
       if (isRedeemed) {
         Alert.alert('Already Redeemed', 'This reward has already been claimed.');
+      } else if (getPendingRedemption(item.reward_id)) {
+        Alert.alert(
+          'Already Queued',
+          `"${item.reward_type}" will be added to your queue when you're back online.`
+        );
       } else {
         Alert.alert('Queue Reward', `Would you like to add "${item.reward_type}" to your queue?`, [
           { text: 'Cancel', style: 'cancel' },
           {
             text: 'Queue It!',
-            onPress: () => queueReward(item.reward_id, item.reward_type),
+            onPress: () => queueReward(item),
           },
         ]);
       }
     },
-    [queueReward]
+    [queueReward, getPendingRedemption]
   );
 
   const renderRewardItem = useCallback(
     ({ item, index }: { item: Reward; index: number }) => {
       const isRedeemed = item.redeemed === '1';
       const isQueueing = queueingRewards[item.reward_id] || false;
+      const isQueued = !isRedeemed && getPendingRedemption(item.reward_id) !== null;
 
       return (
         <Animated.View
@@ -656,9 +630,13 @@ export const Rewards = () => {
             <View style={styles.rewardContent}>
               <Text style={[styles.rewardType, { color: colors.text }]}>{item.reward_type}</Text>
               <Text style={[styles.rewardDescription, { color: colors.textSecondary }]}>
-                {isRedeemed ? 'You have claimed this reward' : 'Tap to add to your queue'}
+                {isRedeemed
+                  ? 'You have claimed this reward'
+                  : isQueued
+                    ? 'Waiting to be sent when back online'
+                    : 'Tap to add to your queue'}
               </Text>
-              <StatusBadge isRedeemed={isRedeemed} />
+              <StatusBadge isRedeemed={isRedeemed} isQueued={isQueued} />
             </View>
 
             <View style={styles.rewardAction}>
@@ -674,7 +652,7 @@ export const Rewards = () => {
         </Animated.View>
       );
     },
-    [colors, queueingRewards, handleRewardPress]
+    [colors, queueingRewards, getPendingRedemption, handleRewardPress]
   );
 
   const tastedCount = beers.tastedBeers?.length || 0;
@@ -1,10 +1,11 @@
-import React, { useState, useCallback } from 'react';
-import { StyleSheet, TextInput, View, TouchableOpacity } from 'react-native';
+import React, { useState, useCallback, useMemo } from 'react';
+import { StyleSheet, TextInput, View, TouchableOpacity, Text } from 'react-native';
 import { IconSymbol } from './ui/IconSymbol';
 import { ChromeShell } from '@/components/ui/ChromeShell';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import * as Haptics from 'expo-haptics';
+import { parseSearchQuery } from '@/src/utils/searchQuery';
 
 type SearchBarProps = {
   searchText: string;
@@ -23,6 +24,10 @@ const SearchBarComponent: React.FC<SearchBarProps> = ({
   const colorScheme = useColorScheme() ?? 'dark';
   const colors = Colors[colorScheme];
 
+  // Same parser the list filters with, so a hint appears exactly when a token
+  // is being ignored
+  const { errors } = useMemo(() => parseSearchQuery(searchText), [searchText]);
+
   const handleFocus = useCallback(() => setIsFocused(true), []);
   const handleBlur = useCallback(() => setIsFocused(false), []);
 
@@ -32,51 +37,62 @@ const SearchBarComponent: React.FC<SearchBarProps> = ({
   }, [onClear]);
 
   return (
-    <ChromeShell
-      colors={isFocused ? [colors.tint, colors.tint, colors.tint] : undefined}
-      style={styles.chromeShell}
-      testID="search-bar"
-    >
-      <View
-        style={[
-          styles.container,
-          { backgroundColor: colors.backgroundSecondary },
-        ]}
+    <>
+      <ChromeShell
+        colors={isFocused ? [colors.tint, colors.tint, colors.tint] : undefined}
+        style={styles.chromeShell}
+        testID="search-bar"
       >
-        <IconSymbol
-          name="magnifyingglass"
-          size={16}
-          color={colors.textMuted}
-          style={styles.icon}
-        />
-        <TextInput
-          testID="search-input"
-          style={[styles.input, { color: colors.text }]}
-          value={searchText}
-          onChangeText={onSearchChange}
-          placeholder={placeholder}
-          placeholderTextColor={colors.textMuted}
-          autoCapitalize="none"
-          autoCorrect={false}
-          clearButtonMode="never"
-          onFocus={handleFocus}
-          onBlur={handleBlur}
-          selectionColor={colors.tint}
-        />
-        {searchText.length > 0 && (
-          <TouchableOpacity
-            onPress={handleClear}
-            style={styles.clearButton}
-            testID="clear-search-button"
-            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-            accessibilityLabel="Clear search"
-            accessibilityRole="button"
-          >
-            <IconSymbol name="xmark.circle.fill" size={16} color={colors.textSecondary} />
-          </TouchableOpacity>
-        )}
-      </View>
-    </ChromeShell>
+        <View
+          style={[
+            styles.container,
+            { backgroundColor: colors.backgroundSecondary },
+          ]}
+        >
+          <IconSymbol
+            name="magnifyingglass"
+            size={16}
+            color={colors.textMuted}
+            style={styles.icon}
+          />
+          <TextInput
+            testID="search-input"
+            style={[styles.input, { color: colors.text }]}
+            value={searchText}
+            onChangeText={onSearchChange}
+            placeholder={placeholder}
+            placeholderTextColor={colors.textMuted}
+            autoCapitalize="none"
+            autoCorrect={false}
+            clearButtonMode="never"
+            onFocus={handleFocus}
+            onBlur={handleBlur}
+            selectionColor={colors.tint}
+          />
+          {searchText.length > 0 && (
+            <TouchableOpacity
+              onPress={handleClear}
+              style={styles.clearButton}
+              testID="clear-search-button"
+              hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+              accessibilityLabel="Clear search"
+              accessibilityRole="button"
+            >
+              <IconSymbol name="xmark.circle.fill" size={16} color={colors.textSecondary} />
+            </TouchableOpacity>
+          )}
+        </View>
+      </ChromeShell>
+      {errors.length > 0 && (
+        <Text
+          style={[styles.hint, { color: colors.warning }]}
+          testID="search-hint"
+          accessibilityLiveRegion="polite"
+        >
+          {errors[0].message}
+        </Text>
+      )}
+    </>
   );
 };
 
@@ -107,4 +123,10 @@ const styles = StyleSheet.create({
     padding: 4,
     marginLeft: 8,
   },
+  hint: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+    marginTop: -4,
+    marginBottom: 8,
+  },
 });
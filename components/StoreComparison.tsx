@@ -0,0 +1,331 @@
+import React, { useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  SectionList,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Beer } from '@/src/types/beer';
+import { StoreComparisonEntry } from '@/src/utils/storeComparison';
+import { useStoreComparison } from '@/hooks/useStoreComparison';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors } from '@/constants/Colors';
+
+const formatFetched = (timestamp: number | null): string =>
+  timestamp === null
+    ? 'Not fetched yet'
+    : `Fetched ${new Date(timestamp).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+      })}`;
+
+type StoreHeaderProps = {
+  entry: StoreComparisonEntry;
+  failure?: string;
+  onRemove: (storeId: string) => void;
+};
+
+const StoreHeader = ({ entry, failure, onRemove }: StoreHeaderProps) => {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+
+  return (
+    <View
+      style={[
+        styles.storeCard,
+        { backgroundColor: colors.backgroundSecondary, borderColor: colors.border },
+      ]}
+      testID={`compare-store-${entry.store_id}`}
+    >
+      <View style={styles.storeTitleRow}>
+        <Text style={[styles.storeName, { color: colors.tint }]} numberOfLines={1}>
+          {entry.store_name}
+        </Text>
+        {entry.is_home ? (
+          <Text style={[styles.homeTag, { color: colors.amber, borderColor: colors.amber }]}>
+            HOME
+          </Text>
+        ) : (
+          <TouchableOpacity
+            onPress={() => onRemove(entry.store_id)}
+            hitSlop={8}
+            testID={`compare-remove-${entry.store_id}`}
+            accessibilityRole="button"
+            accessibilityLabel={`Stop comparing ${entry.store_name}`}
+          >
+            <Ionicons name="close" size={18} color={colors.textMuted} />
+          </TouchableOpacity>
+        )}
+      </View>
+      <Text
+        style={[styles.meta, { color: colors.textSecondary }]}
+        testID={`compare-counts-${entry.store_id}`}
+      >
+        {entry.total} on tap · {entry.untasted} untasted · {entry.exclusive.length} only here
+      </Text>
+      {!entry.is_home && (
+        <Text style={[styles.meta, { color: colors.textMuted }]}>
+          {formatFetched(entry.fetched_at)}
+        </Text>
+      )}
+      {failure && (
+        <Text
+          style={[styles.meta, { color: colors.error }]}
+          testID={`compare-failure-${entry.store_id}`}
+        >
+          {failure}
+        </Text>
+      )}
+    </View>
+  );
+};
+
+/**
+ * The home store and the saved stores side by side, each with the untasted
+ * beers none of the others has on tap.
+ */
+export const StoreComparison = () => {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const { comparison, addStore, removeStore, refresh, refreshing, failures, error } =
+    useStoreComparison();
+  const [storeId, setStoreId] = useState('');
+  const [storeName, setStoreName] = useState('');
+  const [addError, setAddError] = useState<string | null>(null);
+
+  const sections = useMemo(
+    () => comparison.map(entry => ({ entry, data: entry.exclusive })),
+    [comparison]
+  );
+
+  const handleAdd = () => {
+    setAddError(null);
+    addStore(storeId, storeName)
+      .then(() => {
+        setStoreId('');
+        setStoreName('');
+      })
+      .catch(addStoreError => {
+        console.error('[StoreComparison] Failed to add store:', addStoreError);
+        setAddError(
+          addStoreError instanceof Error ? addStoreError.message : 'Could not add that store.'
+        );
+      });
+  };
+
+  const handleRemove = (id: string) => {
+    removeStore(id).catch(removeError => {
+      console.error('[StoreComparison] Failed to remove store:', removeError);
+    });
+  };
+
+  if (error) {
+    return (
+      <View style={styles.centered}>
+        <Text style={[styles.message, { color: colors.text }]}>{error}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <SectionList
+      sections={sections}
+      keyExtractor={(beer: Beer, index) => `${beer.id}-${index}`}
+      renderSectionHeader={({ section }) => (
+        <StoreHeader
+          entry={section.entry}
+          failure={failures.get(section.entry.store_id)}
+          onRemove={handleRemove}
+        />
+      )}
+      renderItem={({ item }) => (
+        <View style={styles.beerRow}>
+          <Text style={[styles.beerName, { color: colors.text }]} numberOfLines={1}>
+            {item.brew_name || 'Unnamed Beer'}
+          </Text>
+          <Text style={[styles.meta, { color: colors.textSecondary }]} numberOfLines={1}>
+            {[item.brewer, item.brew_style, item.abv != null ? `${item.abv}%` : null]
+              .filter(Boolean)
+              .join(' · ')}
+          </Text>
+        </View>
+      )}
+      renderSectionFooter={({ section }) =>
+        section.data.length === 0 ? (
+          <Text style={[styles.meta, styles.emptySection, { color: colors.textMuted }]}>
+            Nothing untasted that only this store has.
+          </Text>
+        ) : null
+      }
+      ListHeaderComponent={
+        <View style={styles.addForm}>
+          <View style={styles.addRow}>
+            <TextInput
+              style={[
+                styles.input,
+                styles.idInput,
+                { color: colors.text, borderColor: colors.border },
+              ]}
+              placeholder="Store ID"
+              placeholderTextColor={colors.textMuted}
+              value={storeId}
+              onChangeText={setStoreId}
+              keyboardType="number-pad"
+              testID="compare-store-id-input"
+            />
+            <TextInput
+              style={[
+                styles.input,
+                styles.nameInput,
+                { color: colors.text, borderColor: colors.border },
+              ]}
+              placeholder="Name"
+              placeholderTextColor={colors.textMuted}
+              value={storeName}
+              onChangeText={setStoreName}
+              testID="compare-store-name-input"
+            />
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: colors.tint }]}
+              onPress={handleAdd}
+              disabled={storeId.trim() === '' || refreshing}
+              testID="compare-add-button"
+              accessibilityRole="button"
+            >
+              <Text style={[styles.buttonText, { color: colors.textOnPrimary }]}>ADD</Text>
+            </TouchableOpacity>
+          </View>
+          {addError && (
+            <Text style={[styles.meta, { color: colors.error }]} testID="compare-add-error">
+              {addError}
+            </Text>
+          )}
+          <TouchableOpacity
+            style={[styles.refreshButton, { borderColor: colors.tint }]}
+            onPress={() => void refresh()}
+            disabled={refreshing}
+            testID="compare-refresh-button"
+            accessibilityRole="button"
+          >
+            {refreshing ? (
+              <ActivityIndicator size="small" color={colors.tint} />
+            ) : (
+              <Text style={[styles.buttonText, { color: colors.tint }]}>REFRESH SAVED STORES</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      }
+      contentContainerStyle={styles.listContent}
+      stickySectionHeadersEnabled={false}
+      testID="store-comparison-list"
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  listContent: {
+    paddingHorizontal: 18,
+    paddingBottom: 24,
+  },
+  addForm: {
+    gap: 8,
+    marginBottom: 16,
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontFamily: 'SpaceMono',
+    fontSize: 12,
+  },
+  idInput: {
+    width: 90,
+  },
+  nameInput: {
+    flex: 1,
+  },
+  button: {
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    justifyContent: 'center',
+  },
+  refreshButton: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontFamily: 'SpaceGrotesk-SemiBold',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+  storeCard: {
+    padding: 12,
+    marginTop: 12,
+    marginBottom: 6,
+    borderWidth: 1,
+    borderRadius: 12,
+    gap: 2,
+  },
+  storeTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  storeName: {
+    flex: 1,
+    fontFamily: 'SpaceGrotesk-Bold',
+    fontSize: 16,
+  },
+  homeTag: {
+    fontFamily: 'SpaceMono',
+    fontSize: 9,
+    fontWeight: '700',
+    letterSpacing: 2,
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+  },
+  beerRow: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    gap: 2,
+  },
+  beerName: {
+    fontFamily: 'SpaceGrotesk-SemiBold',
+    fontSize: 13,
+  },
+  meta: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+  },
+  emptySection: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  message: {
+    fontFamily: 'SpaceMono',
+    fontSize: 11,
+    textAlign: 'center',
+  },
+});
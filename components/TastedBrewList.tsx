@@ -5,15 +5,24 @@ import { Colors } from '@/constants/Colors';
 import { useBreakpoint } from '@/hooks/useBreakpoint';
 import { SearchBar } from './SearchBar';
 import { useBeerFilters } from '@/hooks/useBeerFilters';
+import { useFilterPresets } from '@/hooks/useFilterPresets';
 import { useDataRefresh } from '@/hooks/useDataRefresh';
 import { FilterBar } from './beer/FilterBar';
 import { BeerList } from './beer/BeerList';
 import { SkeletonLoader } from './beer/SkeletonLoader';
 import { BeerfinderWithContainerType } from '@/src/types/beer';
 import { useDebounce } from '@/hooks/useDebounce';
+import { useFullTextSearch } from '@/hooks/useFullTextSearch';
+import type { FilterPresetState } from '@/src/utils/filterPresets';
 import { useAppContext } from '@/context/AppContext';
 import { useOptimisticCheckIn } from '@/hooks/useOptimisticCheckIn';
 import { OptimisticStatusBadge } from './optimistic/OptimisticStatusBadge';
+import { useBeerNotes } from '@/hooks/useBeerNotes';
+import { BeerNoteEditor } from './beer/BeerNoteEditor';
+import { BeerDetailsEditor } from './beer/BeerDetailsEditor';
+import { useBeerCorrections } from '@/hooks/useBeerCorrections';
+import { ActionButton } from './ui/ActionButton';
+import { router, Href } from 'expo-router';
 
 export const TastedBrewList = () => {
   // MP-4 Step 2: Use context for beer data instead of local state
@@ -25,6 +34,13 @@ export const TastedBrewList = () => {
   // MP-7 Step 3: Optimistic UI updates
   const { getPendingBeer, retryCheckIn, rollbackCheckIn } = useOptimisticCheckIn();
 
+  // Personal ratings and notes live in their own table, so a refresh of the
+  // tasted list never touches them
+  const { notesById, ratings, saveNote } = useBeerNotes();
+
+  // Corrections are written locally and queued for the enrichment Worker
+  const { saveCorrection } = useBeerCorrections();
+
   /**
    * MP-3 Bottleneck #4: Local search state for immediate UI updates
    * Debounced version used for filtering to reduce excessive re-renders
@@ -32,21 +48,36 @@ export const TastedBrewList = () => {
   const [localSearchText, setLocalSearchText] = useState('');
   const debouncedSearchText = useDebounce(localSearchText, 300);
 
+  const { matchRanks, snippets } = useFullTextSearch(
+    debouncedSearchText,
+    'tasted',
+    beers.tastedBeers
+  );
+
   // Use the shared filtering hook with tasted beers from context
   // Pass 'tasted_date' to sort by the date the beer was tasted instead of added_date
   const {
     filteredBeers,
     containerFilter,
+    ratingFilter,
     sortBy,
     sortDirection,
+    hasRelevance,
     searchText,
     expandedId,
     setSearchText,
+    styleFamilies,
+    styleFamilyCounts,
     cycleContainerFilter,
+    cycleRatingFilter,
+    toggleStyleFamily,
+    clearStyleFamilies,
     cycleSort,
     toggleSortDirection,
     toggleExpand,
-  } = useBeerFilters(beers.tastedBeers, 'tasted_date');
+    filterState,
+    applyFilterState,
+  } = useBeerFilters(beers.tastedBeers, 'tasted_date', ratings, matchRanks);
 
   const colorScheme = useColorScheme() ?? 'dark';
   const colors = Colors[colorScheme];
@@ -77,6 +108,16 @@ export const TastedBrewList = () => {
     setSearchText(debouncedSearchText);
   }, [debouncedSearchText, setSearchText]);
 
+  // A preset (or the restored last-used state) also fills the search box
+  const applyPreset = useCallback(
+    (state: FilterPresetState) => {
+      setLocalSearchText(state.searchText);
+      applyFilterState(state);
+    },
+    [applyFilterState]
+  );
+  const filterPresets = useFilterPresets('tasted', filterState, applyPreset);
+
   /**
    * MP-3 Bottleneck #5: Memoized event handlers for stable references
    * MP-3 Bottleneck #4: Update local search for immediate UI, debouncing handles filtering
@@ -90,26 +131,29 @@ export const TastedBrewList = () => {
   }, []);
 
   /**
-   * MP-7 Step 3: Render optimistic status badge for tasted beers
+   * MP-7 Step 3: Render optimistic status badge for tasted beers, then the
+   * personal rating/notes editor and the details editor
    */
   const renderTastedBeerActions = useCallback(
     (item: BeerfinderWithContainerType) => {
       const pendingStatus = getPendingBeer(item.id);
 
-      if (pendingStatus) {
-        return (
-          <OptimisticStatusBadge
-            status={pendingStatus.status}
-            error={pendingStatus.error}
-            onRetry={() => retryCheckIn(item.id)}
-            onCancel={() => rollbackCheckIn(item.id)}
-          />
-        );
-      }
-
-      return null;
+      return (
+        <>
+          {pendingStatus && (
+            <OptimisticStatusBadge
+              status={pendingStatus.status}
+              error={pendingStatus.error}
+              onRetry={() => retryCheckIn(item.id)}
+              onCancel={() => rollbackCheckIn(item.id)}
+            />
+          )}
+          <BeerNoteEditor beerId={item.id} note={notesById.get(item.id)} onSave={saveNote} />
+          <BeerDetailsEditor beer={item} onSave={saveCorrection} />
+        </>
+      );
     },
-    [getPendingBeer, retryCheckIn, rollbackCheckIn]
+    [getPendingBeer, retryCheckIn, rollbackCheckIn, notesById, saveNote, saveCorrection]
   );
 
   const emptyMessage = searchText
@@ -157,14 +201,29 @@ export const TastedBrewList = () => {
               </Text>
             </View>
 
-            <FilterBar
-              containerFilter={containerFilter}
-              sortBy={sortBy}
-              sortDirection={sortDirection}
-              onCycleContainerFilter={cycleContainerFilter}
-              onCycleSort={cycleSort}
-              onToggleSortDirection={toggleSortDirection}
-            />
+            <View style={styles.filterRow}>
+              <FilterBar
+                containerFilter={containerFilter}
+                sortBy={sortBy}
+                sortDirection={sortDirection}
+                onCycleContainerFilter={cycleContainerFilter}
+                onCycleSort={cycleSort}
+                onToggleSortDirection={toggleSortDirection}
+                showRelevance={hasRelevance}
+                ratingFilter={ratingFilter}
+                onCycleRatingFilter={cycleRatingFilter}
+                styleFamilyCounts={styleFamilyCounts}
+                selectedStyleFamilies={styleFamilies}
+                onToggleStyleFamily={toggleStyleFamily}
+                onClearStyleFamilies={clearStyleFamilies}
+                presets={filterPresets}
+                onApplyPreset={applyPreset}
+              />
+              <ActionButton
+                label="PLATES"
+                onPress={() => router.push('/screens/past-plates' as Href)}
+              />
+            </View>
           </View>
 
           <BeerList
@@ -178,6 +237,8 @@ export const TastedBrewList = () => {
             dateLabel="Tasted"
             renderItemActions={renderTastedBeerActions}
             numColumns={numColumns}
+            notesById={notesById}
+            snippetsById={snippets}
           />
         </>
       )}
@@ -194,6 +255,11 @@ const styles = StyleSheet.create({
   filtersContainer: {
     marginBottom: 16,
   },
+  filterRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 6,
+  },
   beerCountContainer: {
     marginBottom: 8,
   },
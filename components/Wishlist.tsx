@@ -0,0 +1,225 @@
+import React, { useEffect, useMemo } from 'react';
+import { StyleSheet, View, Text, FlatList, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { WishlistEntry } from '@/src/types/beer';
+import { useAppContext } from '@/context/AppContext';
+import { useWishlist } from '@/hooks/useWishlist';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors } from '@/constants/Colors';
+
+const formatSeen = (timestamp: number | null): string =>
+  timestamp === null
+    ? 'Not seen on tap yet'
+    : `Last on tap ${new Date(timestamp).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+      })}`;
+
+type WishlistRowProps = {
+  entry: WishlistEntry;
+  onTap: boolean;
+  onRemove: (beerId: string) => void;
+};
+
+const WishlistRow = ({ entry, onTap, onRemove }: WishlistRowProps) => {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+
+  return (
+    <View
+      style={[
+        styles.card,
+        {
+          backgroundColor: colors.backgroundSecondary,
+          borderColor: onTap ? colors.amber : colors.border,
+        },
+      ]}
+      testID={`wishlist-entry-${entry.beer_id}`}
+    >
+      <View style={styles.cardText}>
+        <Text style={[styles.beerName, { color: colors.tint }]} numberOfLines={1}>
+          {entry.brew_name || 'Unnamed Beer'}
+        </Text>
+        <Text style={[styles.meta, { color: colors.textSecondary }]} numberOfLines={1}>
+          {[entry.brewer, entry.brew_style].filter(Boolean).join(' · ')}
+        </Text>
+        {onTap ? (
+          <Text
+            style={[styles.onTap, { color: colors.amber }]}
+            testID={`wishlist-on-tap-${entry.beer_id}`}
+          >
+            ON TAP NOW
+          </Text>
+        ) : (
+          <Text
+            style={[styles.meta, { color: colors.textMuted }]}
+            testID={`wishlist-off-tap-${entry.beer_id}`}
+          >
+            {formatSeen(entry.last_seen_on_tap)}
+          </Text>
+        )}
+      </View>
+      <TouchableOpacity
+        onPress={() => onRemove(entry.beer_id)}
+        hitSlop={8}
+        testID={`wishlist-remove-${entry.beer_id}`}
+        accessibilityRole="button"
+        accessibilityLabel={`Remove ${entry.brew_name} from wishlist`}
+      >
+        <Text style={[styles.star, { color: colors.amber }]}>★</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+/**
+ * The beers the user has starred to try, with the ones on the selected store's
+ * taplist first.
+ *
+ * "On tap" is read from AppContext's `allBeers`, which holds the taplist of
+ * the store the app is set to. The table is read again whenever that list
+ * changes, to pick up the `last_seen_on_tap` stamps the refresh wrote.
+ */
+export const Wishlist = () => {
+  const { beers } = useAppContext();
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const { entries, removeFromWishlist, reload, error } = useWishlist();
+
+  useEffect(() => {
+    reload();
+  }, [beers.allBeers, reload]);
+
+  const onTapIds = useMemo(() => new Set(beers.allBeers.map(beer => beer.id)), [beers.allBeers]);
+
+  // Stable sort: within each group the wishlist keeps its newest-first order
+  const ordered = useMemo(
+    () =>
+      [...entries].sort(
+        (a, b) => Number(onTapIds.has(b.beer_id)) - Number(onTapIds.has(a.beer_id))
+      ),
+    [entries, onTapIds]
+  );
+  const onTapCount = ordered.filter(entry => onTapIds.has(entry.beer_id)).length;
+
+  const handleRemove = (beerId: string) => {
+    removeFromWishlist(beerId).catch(removeError => {
+      console.error('[Wishlist] Failed to remove beer:', removeError);
+    });
+  };
+
+  if (error) {
+    return (
+      <View style={styles.centered}>
+        <Text style={[styles.message, { color: colors.text }]}>{error}</Text>
+        <TouchableOpacity
+          style={[styles.retryButton, { backgroundColor: colors.tint }]}
+          onPress={reload}
+        >
+          <Text style={[styles.retryText, { color: colors.textOnPrimary }]}>Try Again</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <FlatList
+      data={ordered}
+      keyExtractor={entry => entry.beer_id}
+      renderItem={({ item }) => (
+        <WishlistRow entry={item} onTap={onTapIds.has(item.beer_id)} onRemove={handleRemove} />
+      )}
+      ListHeaderComponent={
+        ordered.length > 0 ? (
+          <Text style={[styles.count, { color: colors.textSecondary }]} testID="wishlist-count">
+            {ordered.length} wishlisted · {onTapCount} on tap now
+          </Text>
+        ) : null
+      }
+      contentContainerStyle={ordered.length === 0 ? styles.centered : styles.listContent}
+      ListEmptyComponent={
+        <View style={styles.emptyState}>
+          <Ionicons name="star-outline" size={48} color={colors.tint} />
+          <Text style={[styles.emptyTitle, { color: colors.text }]}>Nothing Wishlisted Yet</Text>
+          <Text style={[styles.message, { color: colors.textSecondary }]}>
+            Star a beer in All Beers to keep track of it here.
+          </Text>
+        </View>
+      }
+      testID="wishlist-list"
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  listContent: {
+    paddingHorizontal: 18,
+    paddingBottom: 24,
+  },
+  count: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+    marginBottom: 8,
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderRadius: 12,
+  },
+  cardText: {
+    flex: 1,
+    gap: 2,
+  },
+  beerName: {
+    fontFamily: 'SpaceGrotesk-SemiBold',
+    fontSize: 14,
+  },
+  meta: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+  },
+  onTap: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+    fontWeight: '700',
+    letterSpacing: 2,
+  },
+  star: {
+    fontSize: 20,
+  },
+  emptyState: {
+    alignItems: 'center',
+    gap: 8,
+  },
+  emptyTitle: {
+    fontFamily: 'SpaceGrotesk-Bold',
+    fontSize: 20,
+    marginTop: 16,
+  },
+  message: {
+    fontFamily: 'SpaceMono',
+    fontSize: 11,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+  },
+  retryText: {
+    fontFamily: 'SpaceGrotesk-SemiBold',
+    fontSize: 13,
+  },
+});
@@ -41,6 +41,9 @@ jest.mock('@/src/api/sessionManager');
 jest.mock('@/src/api/authService');
 jest.mock('@/hooks/useBeerFilters');
 jest.mock('@/hooks/useDataRefresh');
+jest.mock('@/hooks/useBeerCorrections', () => ({
+  useBeerCorrections: () => ({ saveCorrection: jest.fn() }),
+}));
 jest.mock('@/hooks/useDebounce', () => ({
   useDebounce: (value: any) => value,
 }));
@@ -45,6 +45,9 @@ jest.mock('@/src/services/liveActivityService');
 jest.mock('@/hooks/useBeerFilters');
 jest.mock('@/hooks/useDataRefresh');
 jest.mock('@/hooks/useQueuedCheckIn');
+jest.mock('@/hooks/useBeerCorrections', () => ({
+  useBeerCorrections: () => ({ saveCorrection: jest.fn() }),
+}));
 jest.mock('@/hooks/useDebounce', () => ({
   useDebounce: (value: any) => value,
 }));
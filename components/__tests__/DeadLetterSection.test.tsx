@@ -0,0 +1,221 @@
+/**
+ * Render tests for the dead-letter view of the queue modal: failed operations
+ * grouped by the kind of failure, each group's remedy, and editing the details
+ * of one before it is resubmitted.
+ *
+ * The queue context is mocked; what the view decides is which operations it
+ * hands to `resubmitOperations` and `editAndResubmit`, not how the queue
+ * carries them out.
+ */
+
+import React from 'react';
+import { Alert } from 'react-native';
+import { act, fireEvent, render } from '@testing-library/react-native';
+import { DeadLetterSection } from '../DeadLetterSection';
+import { autoLogin } from '@/src/api/authService';
+import {
+  OperationPayload,
+  OperationStatus,
+  OperationType,
+  QueuedOperation,
+} from '@/src/types/operationQueue';
+
+jest.mock('@/src/api/authService', () => ({
+  autoLogin: jest.fn(),
+}));
+jest.mock('@/hooks/useColorScheme', () => ({
+  useColorScheme: jest.fn(() => 'light'),
+}));
+
+const mockQueue = {
+  resubmitOperations: jest.fn(),
+  editAndResubmit: jest.fn(),
+  deleteOperation: jest.fn(),
+  getAttempts: jest.fn(),
+};
+jest.mock('@/context/OperationQueueContext', () => ({
+  useOperationQueue: () => mockQueue,
+}));
+
+const operation = (
+  id: string,
+  type: OperationType,
+  payload: OperationPayload,
+  errorMessage: string,
+  status = OperationStatus.FAILED
+): QueuedOperation => ({
+  id,
+  type,
+  payload,
+  timestamp: 1700000000000,
+  retryCount: 3,
+  status,
+  errorMessage,
+});
+
+const checkIn = (id: string, errorMessage: string, status?: OperationStatus) =>
+  operation(
+    id,
+    OperationType.CHECK_IN_BEER,
+    { beerId: 'b1', beerName: 'Pliny', storeId: 's1', storeName: 'Test Store', memberId: 'm1' },
+    errorMessage,
+    status
+  );
+
+const correction = operation(
+  'op-correction',
+  OperationType.CORRECT_BEER_DETAILS,
+  { beerId: 'b2', beerName: 'Hazy IPA', abv: 65, brewStyle: 'IPA', brewDescription: null },
+  'HTTP error! status: 422 Unprocessable Entity'
+);
+
+describe('DeadLetterSection', () => {
+  const onOpenSettings = jest.fn();
+
+  const renderSection = async (operations: QueuedOperation[]) => {
+    const section = render(
+      <DeadLetterSection
+        operations={operations}
+        disabled={false}
+        getOperationTypeName={op => op.type}
+        getOperationDetails={op => op.id}
+        onOpenSettings={onOpenSettings}
+      />
+    );
+    // Let the attempts load
+    await act(async () => {});
+    return section;
+  };
+
+  const press = async (section: ReturnType<typeof render>, testID: string) => {
+    await act(async () => {
+      fireEvent.press(section.getByTestId(testID));
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQueue.getAttempts.mockResolvedValue([]);
+    mockQueue.resubmitOperations.mockImplementation(async (ids: string[]) => ids.length);
+    mockQueue.editAndResubmit.mockResolvedValue(true);
+    jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+  });
+
+  it('groups the failed operations by the kind of failure', async () => {
+    const section = await renderSection([
+      checkIn('op-auth', 'HTTP error! status: 401 Unauthorized'),
+      checkIn('op-network-1', 'Network request failed'),
+      checkIn('op-pending', 'Network request failed', OperationStatus.PENDING),
+      checkIn('op-network-2', 'Request timed out'),
+      correction,
+    ]);
+
+    expect(section.getByText('Failed (4)')).toBeTruthy();
+    expect(section.getByText('Login Expired (1)')).toBeTruthy();
+    expect(section.getByText('Rejected by Server (1)')).toBeTruthy();
+    expect(section.getByText('Network (2)')).toBeTruthy();
+    expect(section.queryByText('op-pending')).toBeNull();
+  });
+
+  it('takes the kind of failure from the last attempt over the message', async () => {
+    mockQueue.getAttempts.mockResolvedValue([
+      { operationId: 'op-1', attemptedAt: 1, outcome: 'failed', errorClass: 'visitor' },
+    ]);
+
+    const section = await renderSection([checkIn('op-1', 'Network request failed')]);
+
+    expect(section.getByText('Visitor Mode (1)')).toBeTruthy();
+    expect(section.queryByText('Network (1)')).toBeNull();
+  });
+
+  it('resubmits every operation in a group at once', async () => {
+    const section = await renderSection([
+      checkIn('op-network-1', 'Network request failed'),
+      checkIn('op-network-2', 'Request timed out'),
+      correction,
+    ]);
+
+    await press(section, 'dead-letter-resubmit-network');
+
+    expect(mockQueue.resubmitOperations).toHaveBeenCalledWith(['op-network-1', 'op-network-2']);
+    expect(Alert.alert).toHaveBeenCalledWith('Resubmitted', '2 operations put back in the queue');
+  });
+
+  it('logs in again, then resubmits the operations whose login expired', async () => {
+    (autoLogin as jest.Mock).mockResolvedValue({ success: true });
+    const section = await renderSection([
+      checkIn('op-auth', 'HTTP error! status: 401 Unauthorized'),
+      checkIn('op-network', 'Network request failed'),
+    ]);
+
+    await press(section, 'dead-letter-login-resubmit');
+
+    expect(autoLogin).toHaveBeenCalledTimes(1);
+    expect(mockQueue.resubmitOperations).toHaveBeenCalledWith(['op-auth']);
+    expect((autoLogin as jest.Mock).mock.invocationCallOrder[0]).toBeLessThan(
+      mockQueue.resubmitOperations.mock.invocationCallOrder[0]
+    );
+  });
+
+  it('sends the user to Settings rather than resubmit when logging in again fails', async () => {
+    (autoLogin as jest.Mock).mockResolvedValue({ success: false, error: 'Session expired' });
+    const section = await renderSection([
+      checkIn('op-auth', 'HTTP error! status: 401 Unauthorized'),
+    ]);
+
+    await press(section, 'dead-letter-login-resubmit');
+
+    expect(mockQueue.resubmitOperations).not.toHaveBeenCalled();
+    const [title, , buttons] = (Alert.alert as jest.Mock).mock.calls[0];
+    expect(title).toBe('Login Failed');
+    buttons.find((button: { text: string }) => button.text === 'Open Settings').onPress();
+    expect(onOpenSettings).toHaveBeenCalledTimes(1);
+  });
+
+  it('edits only the corrected fields, keeping the beer it is for', async () => {
+    const section = await renderSection([correction]);
+
+    await press(section, 'dead-letter-edit-op-correction');
+
+    expect(section.getByTestId('dead-letter-beer-op-correction').props.children).toEqual([
+      'Beer',
+      ': ',
+      'Hazy IPA',
+    ]);
+    await act(async () => {
+      fireEvent.changeText(section.getByTestId('dead-letter-abv-op-correction'), '6.5');
+      fireEvent.changeText(section.getByTestId('dead-letter-description-op-correction'), ' Juicy ');
+    });
+    await press(section, 'dead-letter-save-op-correction');
+
+    expect(mockQueue.editAndResubmit).toHaveBeenCalledWith('op-correction', {
+      beerId: 'b2',
+      beerName: 'Hazy IPA',
+      abv: 6.5,
+      brewStyle: 'IPA',
+      brewDescription: 'Juicy',
+    });
+    expect(section.queryByTestId('dead-letter-abv-op-correction')).toBeNull();
+  });
+
+  it('does not resubmit a correction with an ABV out of range', async () => {
+    const section = await renderSection([correction]);
+
+    await press(section, 'dead-letter-edit-op-correction');
+    await act(async () => {
+      fireEvent.changeText(section.getByTestId('dead-letter-abv-op-correction'), '650');
+    });
+    await press(section, 'dead-letter-save-op-correction');
+
+    expect(mockQueue.editAndResubmit).not.toHaveBeenCalled();
+    expect(section.getByTestId('dead-letter-error-op-correction').props.children).toBe(
+      'ABV must be a number from 0 to 100.'
+    );
+  });
+
+  it('offers no edit for an operation that only names who and what it is for', async () => {
+    const section = await renderSection([checkIn('op-rejected', 'HTTP error! status: 422')]);
+
+    expect(section.queryByTestId('dead-letter-edit-op-rejected')).toBeNull();
+  });
+});
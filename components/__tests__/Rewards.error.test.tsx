@@ -25,6 +25,7 @@ import { rewardsRepository } from '@/src/database/repositories/RewardsRepository
 import { fetchRewardsFromAPI } from '@/src/api/beerApi';
 import { getSessionData } from '@/src/api/sessionManager';
 import { isVisitorMode } from '@/src/api/authService';
+import { OperationPriority } from '@/src/types/operationQueue';
 
 jest.mock('@/src/database/repositories/BeerRepository');
 jest.mock('@/src/database/repositories/MyBeersRepository');
@@ -36,6 +37,29 @@ jest.mock('@/hooks/useColorScheme', () => ({
   useColorScheme: jest.fn(() => 'light'),
 }));
 
+// The queue, network and optimistic-update providers sit above AppProvider in
+// the app. Their state is what decides whether a reward is sent or queued, so
+// the tests set it directly.
+const mockNetwork = { isConnected: true, isInternetReachable: true };
+const mockQueue = {
+  queueOperation: jest.fn(),
+  queuedOperations: [] as unknown[],
+  onOperationSuccess: jest.fn(() => () => {}),
+};
+const mockOptimistic = {
+  pendingUpdates: [] as unknown[],
+  applyOptimisticUpdate: jest.fn(),
+};
+jest.mock('@/context/NetworkContext', () => ({
+  useNetwork: () => mockNetwork,
+}));
+jest.mock('@/context/OperationQueueContext', () => ({
+  useOperationQueue: () => mockQueue,
+}));
+jest.mock('@/context/OptimisticUpdateContext', () => ({
+  useOptimisticUpdate: () => mockOptimistic,
+}));
+
 describe('Rewards error state', () => {
   const mockRewards = [{ reward_id: 'r1', redeemed: '0', reward_type: 'Free Plate' }];
 
@@ -95,6 +119,13 @@ describe('Rewards error state', () => {
 
     jest.spyOn(Alert, 'alert').mockImplementation(() => {});
     jest.spyOn(console, 'error').mockImplementation();
+
+    mockNetwork.isConnected = true;
+    mockNetwork.isInternetReachable = true;
+    mockQueue.queuedOperations = [];
+    mockQueue.queueOperation.mockResolvedValue('op_1');
+    mockOptimistic.pendingUpdates = [];
+    mockOptimistic.applyOptimisticUpdate.mockResolvedValue('op_1');
   });
 
   it('should keep the progress and the rewards it already has when a later read fails', async () => {
@@ -197,6 +228,81 @@ describe('Rewards error state', () => {
     );
   });
 
+  it('should queue a pull-to-refresh for later when the device is offline', async () => {
+    mockNetwork.isInternetReachable = false;
+
+    const { getByTestId } = renderRewards();
+
+    await waitFor(() => {
+      expect(getByTestId('rewards-list')).toBeDefined();
+    });
+
+    await act(async () => {
+      getByTestId('rewards-list').props.refreshControl.props.onRefresh();
+    });
+
+    expect(fetchRewardsFromAPI).not.toHaveBeenCalled();
+    expect(mockQueue.queueOperation).toHaveBeenCalledWith(
+      'REFRESH_REWARDS',
+      { dataType: 'rewards' },
+      expect.objectContaining({ priority: OperationPriority.BACKGROUND })
+    );
+    expect(Alert.alert).toHaveBeenCalledWith(
+      'Server Connection Error',
+      "Unable to connect to the server. Your rewards will refresh when you're back online."
+    );
+  });
+
+  it('should queue a pull-to-refresh for later when the server cannot be reached', async () => {
+    (fetchRewardsFromAPI as jest.Mock).mockResolvedValue({
+      status: 'failed',
+      error: { type: 'NETWORK_ERROR', message: 'Network request failed' },
+    });
+
+    const { getByTestId } = renderRewards();
+
+    await waitFor(() => {
+      expect(getByTestId('rewards-list')).toBeDefined();
+    });
+
+    await act(async () => {
+      getByTestId('rewards-list').props.refreshControl.props.onRefresh();
+    });
+
+    expect(mockQueue.queueOperation).toHaveBeenCalledWith(
+      'REFRESH_REWARDS',
+      { dataType: 'rewards' },
+      expect.objectContaining({ priority: OperationPriority.BACKGROUND })
+    );
+    expect(Alert.alert).toHaveBeenCalledWith(
+      'Server Connection Error',
+      expect.stringContaining('back online')
+    );
+  });
+
+  it('should not queue a pull-to-refresh the server answered', async () => {
+    (fetchRewardsFromAPI as jest.Mock).mockResolvedValue({
+      status: 'failed',
+      error: { type: 'SERVER_ERROR', message: 'HTTP 500' },
+    });
+
+    const { getByTestId } = renderRewards();
+
+    await waitFor(() => {
+      expect(getByTestId('rewards-list')).toBeDefined();
+    });
+
+    await act(async () => {
+      getByTestId('rewards-list').props.refreshControl.props.onRefresh();
+    });
+
+    expect(mockQueue.queueOperation).not.toHaveBeenCalled();
+    expect(Alert.alert).toHaveBeenCalledWith(
+      'Rewards Refresh Failed',
+      'Could not refresh your rewards. Please try again.'
+    );
+  });
+
   it('should not report a failure the user did not ask for after a queued reward', async () => {
     // `queueReward` reuses the pull-to-refresh handler as a post-write sync.
     // Once that handler learned to alert, a reward the server accepted (HTTP
@@ -546,4 +652,79 @@ describe('Rewards error state', () => {
 
     expect(queryByTestId('reward-error-banner')).toBeNull();
   });
+
+  it('should queue the reward for later when the device is offline', async () => {
+    // Offline, the reward goes to the operation queue instead of the network,
+    // with the optimistic "queued" state keyed by the operation's id so the
+    // two can be matched up when the queue sends it.
+    (getSessionData as jest.Mock).mockResolvedValue({
+      memberId: 'm1',
+      storeId: 's1',
+      storeName: 'Test Saucer',
+      sessionId: 'sess',
+    });
+    mockNetwork.isInternetReachable = false;
+    global.fetch = jest.fn() as jest.Mock;
+
+    const { getByText } = renderRewards();
+
+    await waitFor(() => {
+      expect(getByText('Free Plate')).toBeDefined();
+    });
+
+    await act(async () => {
+      fireEvent.press(getByText('Free Plate'));
+    });
+    const confirm = (Alert.alert as jest.Mock).mock.calls
+      .flatMap(([, , buttons]) => buttons ?? [])
+      .find((button: { text?: string }) => button?.text === 'Queue It!');
+
+    await act(async () => {
+      await confirm.onPress();
+    });
+
+    expect(mockQueue.queueOperation).toHaveBeenCalledWith(
+      'ADD_TO_REWARD_QUEUE',
+      { rewardId: 'r1', rewardType: 'Free Plate', memberId: 'm1' },
+      { priority: 10, idempotencyKey: 'reward:m1:r1' }
+    );
+    expect(mockOptimistic.applyOptimisticUpdate).toHaveBeenCalledWith({
+      id: 'op_1',
+      type: 'REDEEM_REWARD',
+      rollbackData: { type: 'REDEEM_REWARD', rewardId: 'r1', wasAvailable: true },
+      operationId: 'op_1',
+    });
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(Alert.alert).toHaveBeenCalledWith('Queued for Later', expect.stringContaining('online'));
+  });
+
+  it('should show a reward as queued only while its operation is still waiting', async () => {
+    // A permanently failed operation must not leave the reward stuck as
+    // QUEUED: the user could never redeem it again.
+    mockOptimistic.pendingUpdates = [
+      {
+        id: 'op_1',
+        type: 'REDEEM_REWARD',
+        status: 'pending',
+        timestamp: 0,
+        rollbackData: { type: 'REDEEM_REWARD', rewardId: 'r1', wasAvailable: true },
+        operationId: 'op_1',
+      },
+    ];
+    mockQueue.queuedOperations = [{ id: 'op_1', status: 'pending' }];
+
+    const { getByText, queryByText, rerender } = renderRewards();
+
+    await waitFor(() => {
+      expect(getByText('QUEUED')).toBeDefined();
+    });
+
+    mockQueue.queuedOperations = [{ id: 'op_1', status: 'failed' }];
+    rerender(<Harness />);
+
+    await waitFor(() => {
+      expect(getByText('AVAILABLE')).toBeDefined();
+    });
+    expect(queryByText('QUEUED')).toBeNull();
+  });
 });
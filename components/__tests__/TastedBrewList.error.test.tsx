@@ -38,6 +38,9 @@ jest.mock('@/src/api/authService');
 jest.mock('@/hooks/useBeerFilters');
 jest.mock('@/hooks/useDataRefresh');
 jest.mock('@/hooks/useOptimisticCheckIn');
+jest.mock('@/hooks/useBeerCorrections', () => ({
+  useBeerCorrections: () => ({ saveCorrection: jest.fn() }),
+}));
 jest.mock('@/hooks/useDebounce', () => ({
   useDebounce: <T,>(value: T) => value,
 }));
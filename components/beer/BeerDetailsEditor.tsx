@@ -0,0 +1,224 @@
+import React, { useCallback, useState } from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity } from 'react-native';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { BeerWithContainerType } from '@/src/types/beer';
+import {
+  BeerCorrectionInput,
+  normalizeBeerCorrection,
+  validateBeerCorrection,
+} from '@/src/utils/beerCorrections';
+
+type BeerDetailsEditorProps = {
+  beer: BeerWithContainerType;
+  onSave: (beer: BeerWithContainerType, input: BeerCorrectionInput) => Promise<void>;
+};
+
+/** Description text shown to the user: the API's paragraph and break tags removed */
+const toPlainDescription = (description: string | undefined): string =>
+  (description ?? '').replace(/<\/?p>/g, '').replace(/<\/?br ?\/?>/g, '\n');
+
+/**
+ * Inline editor for correcting a beer's ABV, style and description.
+ *
+ * Collapsed to a single button until opened, like BeerNoteEditor. The fields
+ * start from the beer as shown; a field left blank is not corrected.
+ */
+const BeerDetailsEditorComponent: React.FC<BeerDetailsEditorProps> = ({ beer, onSave }) => {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [abv, setAbv] = useState('');
+  const [style, setStyle] = useState('');
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const open = useCallback(() => {
+    setAbv(beer.abv != null ? String(beer.abv) : '');
+    setStyle(beer.brew_style ?? '');
+    setDescription(toPlainDescription(beer.brew_description));
+    setError(null);
+    setIsEditing(true);
+  }, [beer]);
+
+  const handleSave = useCallback(async () => {
+    const abvText = abv.trim().replace('%', '');
+    const input = normalizeBeerCorrection({
+      beer_id: beer.id,
+      abv: abvText === '' ? null : Number(abvText),
+      brew_style: style,
+      brew_description: description,
+    });
+
+    const invalid = validateBeerCorrection(input);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(beer, input);
+      setIsEditing(false);
+    } catch (saveError) {
+      console.error('[BeerDetailsEditor] Failed to save correction:', saveError);
+      setError('Could not save. Try again.');
+    } finally {
+      setSaving(false);
+    }
+  }, [onSave, beer, abv, style, description]);
+
+  if (!isEditing) {
+    return (
+      <TouchableOpacity
+        onPress={open}
+        style={[styles.button, styles.editButton, { borderColor: colors.border }]}
+        testID={`beer-details-edit-${beer.id}`}
+        accessibilityRole="button"
+        accessibilityLabel={`Edit details of ${beer.brew_name}`}
+      >
+        <Text style={[styles.buttonText, { color: colors.textSecondary }]}>EDIT DETAILS</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View style={styles.container} testID={`beer-details-editor-${beer.id}`}>
+      <View style={styles.row}>
+        <TextInput
+          style={[
+            styles.input,
+            styles.abvInput,
+            { color: colors.text, borderColor: colors.border },
+          ]}
+          value={abv}
+          onChangeText={setAbv}
+          placeholder="ABV %"
+          placeholderTextColor={colors.textMuted}
+          keyboardType="decimal-pad"
+          maxLength={6}
+          selectionColor={colors.tint}
+          testID={`beer-details-abv-${beer.id}`}
+          accessibilityLabel="ABV"
+        />
+        <TextInput
+          style={[
+            styles.input,
+            styles.styleInput,
+            { color: colors.text, borderColor: colors.border },
+          ]}
+          value={style}
+          onChangeText={setStyle}
+          placeholder="Style"
+          placeholderTextColor={colors.textMuted}
+          maxLength={100}
+          selectionColor={colors.tint}
+          testID={`beer-details-style-${beer.id}`}
+          accessibilityLabel="Style"
+        />
+      </View>
+
+      <TextInput
+        style={[
+          styles.input,
+          styles.descriptionInput,
+          { color: colors.text, borderColor: colors.border },
+        ]}
+        value={description}
+        onChangeText={setDescription}
+        placeholder="Description..."
+        placeholderTextColor={colors.textMuted}
+        multiline
+        maxLength={2000}
+        selectionColor={colors.tint}
+        testID={`beer-details-description-${beer.id}`}
+        accessibilityLabel="Description"
+      />
+
+      {error && (
+        <Text
+          style={[styles.errorText, { color: colors.error }]}
+          testID={`beer-details-error-${beer.id}`}
+        >
+          {error}
+        </Text>
+      )}
+
+      <View style={styles.row}>
+        <TouchableOpacity
+          onPress={handleSave}
+          disabled={saving}
+          style={[styles.button, { borderColor: colors.tint, backgroundColor: colors.tint }]}
+          testID={`beer-details-save-${beer.id}`}
+          accessibilityRole="button"
+        >
+          <Text style={[styles.buttonText, { color: colors.textOnPrimary }]}>
+            {saving ? 'SAVING…' : 'SAVE'}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => setIsEditing(false)}
+          disabled={saving}
+          style={[styles.button, { borderColor: colors.border }]}
+          testID={`beer-details-cancel-${beer.id}`}
+          accessibilityRole="button"
+        >
+          <Text style={[styles.buttonText, { color: colors.textSecondary }]}>CANCEL</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  input: {
+    fontFamily: 'SpaceMono',
+    fontSize: 11,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 8,
+  },
+  abvInput: {
+    width: 80,
+  },
+  styleInput: {
+    flex: 1,
+  },
+  descriptionInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+  },
+  button: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    alignItems: 'center',
+  },
+  editButton: {
+    marginTop: 8,
+  },
+  buttonText: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 2,
+  },
+});
+
+export const BeerDetailsEditor = React.memo(BeerDetailsEditorComponent);
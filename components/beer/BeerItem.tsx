@@ -1,12 +1,19 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { StyleSheet, TouchableOpacity, View, Text } from 'react-native';
 import Animated from 'react-native-reanimated';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
-import { BeerWithContainerType, BeerfinderWithContainerType } from '@/src/types/beer';
+import {
+  BeerNote,
+  BeerWithContainerType,
+  BeerfinderWithContainerType,
+  MAX_PERSONAL_RATING,
+} from '@/src/types/beer';
 import { ContainerIcon } from '../icons/ContainerIcon';
 import { ChromeIconWell } from '@/components/ui/ChromeIconWell';
 import { useAnimatedPress, useAnimatedExpand } from '@/animations';
+import { splitSearchSnippet } from '@/src/database/searchIndex';
+import { describeAbvSource, formatAbv, isLowConfidenceAbv } from '@/src/utils/enrichmentConfidence';
 
 type DisplayableBeer = BeerWithContainerType | BeerfinderWithContainerType;
 
@@ -16,8 +23,21 @@ type BeerItemProps = {
   onToggle: (id: string) => void;
   dateLabel?: string;
   renderActions?: () => React.ReactNode;
+  /** The user's own rating, notes and tags, shown when expanded */
+  personalNote?: BeerNote;
+  /** Full-text match context from the search index, shown under the style line */
+  searchSnippet?: string;
+  /** Whether the beer is on the user's wishlist; a list that shows taplist beers highlights it */
+  isWishlisted?: boolean;
+  /** Shows the wishlist star when given */
+  onToggleWishlist?: (beer: DisplayableBeer) => void;
+  /** Whether a recent taplist refresh added the beer; shows a NEW badge */
+  isNew?: boolean;
 };
 
+const formatStars = (rating: number): string =>
+  '★'.repeat(rating) + '☆'.repeat(MAX_PERSONAL_RATING - rating);
+
 const formatDate = (timestamp: string): string => {
   if (!timestamp) return 'Unknown date';
   try {
@@ -51,6 +71,11 @@ const BeerItemComponent: React.FC<BeerItemProps> = ({
   onToggle,
   dateLabel = 'Added',
   renderActions,
+  personalNote,
+  searchSnippet,
+  isWishlisted = false,
+  onToggleWishlist,
+  isNew = false,
 }) => {
   const colorScheme = useColorScheme() ?? 'dark';
   const colors = Colors[colorScheme];
@@ -58,6 +83,11 @@ const BeerItemComponent: React.FC<BeerItemProps> = ({
   const { animatedStyle: pressStyle, onPressIn, onPressOut } = useAnimatedPress();
   const { animatedStyle: expandStyle } = useAnimatedExpand({ isExpanded });
 
+  // Tapping the ABV badge shows where the ABV came from
+  const [showAbvSource, setShowAbvSource] = useState(false);
+  const abvLabel = formatAbv(beer);
+  const lowConfidence = isLowConfidenceAbv(beer);
+
   const displayDate =
     'tasted_date' in beer && beer.tasted_date
       ? formatDateString(beer.tasted_date)
@@ -91,9 +121,14 @@ const BeerItemComponent: React.FC<BeerItemProps> = ({
               styles.cardInner,
               {
                 backgroundColor: colors.backgroundSecondary,
-                borderColor: isExpanded ? colors.accentMuted : colors.border,
+                borderColor: isWishlisted
+                  ? colors.amber
+                  : isExpanded
+                    ? colors.accentMuted
+                    : colors.border,
               },
             ]}
+            testID={isWishlisted ? `beer-wishlisted-${beer.id}` : undefined}
           >
             {/* Name row: icon + name + ABV badge */}
             <View style={styles.nameRow}>
@@ -128,14 +163,90 @@ const BeerItemComponent: React.FC<BeerItemProps> = ({
                   {beer.brew_style}
                   {beer.brew_container ? ` · ${beer.brew_container}` : ''}
                 </Text>
+                {searchSnippet && (
+                  <Text
+                    style={[styles.meta, { color: colors.textMuted }]}
+                    testID={`beer-search-snippet-${beer.id}`}
+                    numberOfLines={2}
+                  >
+                    {splitSearchSnippet(searchSnippet).map((segment, index) => (
+                      <Text
+                        key={index}
+                        style={segment.match ? [styles.snippetMatch, { color: colors.tint }] : null}
+                      >
+                        {segment.text}
+                      </Text>
+                    ))}
+                  </Text>
+                )}
               </View>
-              {beer.abv != null && (
-                <View style={[styles.abvBadge, { borderColor: colors.accentMuted }]}>
-                  <Text style={[styles.abvText, { color: colors.tint }]}>{beer.abv}%</Text>
+              {isNew && (
+                <View
+                  style={[styles.newBadge, { backgroundColor: colors.tint }]}
+                  testID={`beer-new-${beer.id}`}
+                  accessibilityLabel="New on the taplist"
+                >
+                  <Text style={[styles.newBadgeText, { color: colors.textOnPrimary }]}>NEW</Text>
                 </View>
               )}
+              {onToggleWishlist && (
+                <TouchableOpacity
+                  onPress={() => onToggleWishlist(beer)}
+                  hitSlop={8}
+                  testID={`beer-wishlist-toggle-${beer.id}`}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isWishlisted }}
+                  accessibilityLabel={
+                    isWishlisted
+                      ? `Remove ${beer.brew_name} from wishlist`
+                      : `Add ${beer.brew_name} to wishlist`
+                  }
+                >
+                  <Text
+                    style={[
+                      styles.wishlistStar,
+                      { color: isWishlisted ? colors.amber : colors.textMuted },
+                    ]}
+                  >
+                    {isWishlisted ? '★' : '☆'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+              {abvLabel && (
+                <TouchableOpacity
+                  onPress={() => setShowAbvSource(prev => !prev)}
+                  hitSlop={4}
+                  style={[
+                    styles.abvBadge,
+                    lowConfidence && styles.abvBadgeLowConfidence,
+                    { borderColor: lowConfidence ? colors.border : colors.accentMuted },
+                  ]}
+                  testID={`beer-abv-${beer.id}`}
+                  accessibilityRole="button"
+                  accessibilityLabel={`ABV ${abvLabel}. ${describeAbvSource(beer)}`}
+                  accessibilityState={{ expanded: showAbvSource }}
+                >
+                  <Text
+                    style={[
+                      styles.abvText,
+                      { color: lowConfidence ? colors.textMuted : colors.tint },
+                    ]}
+                  >
+                    {abvLabel}
+                  </Text>
+                </TouchableOpacity>
+              )}
             </View>
 
+            {abvLabel && showAbvSource && (
+              <Text
+                style={[styles.meta, styles.abvSource, { color: colors.textMuted }]}
+                testID={`beer-abv-source-${beer.id}`}
+              >
+                ABV {abvLabel}: {describeAbvSource(beer)}
+              </Text>
+            )}
+
             {/* Expanded description */}
             {isExpanded && (
               <Animated.View
@@ -154,6 +265,14 @@ const BeerItemComponent: React.FC<BeerItemProps> = ({
                     {dateLabel}: {displayDate}
                   </Text>
                 )}
+                {beer.enrichment_source === 'manual' && (
+                  <Text
+                    style={[styles.meta, { color: colors.textMuted }]}
+                    testID={`beer-corrected-${beer.id}`}
+                  >
+                    Details corrected by you
+                  </Text>
+                )}
                 {beer.brew_description && (
                   <>
                     <Text style={[styles.descriptionLabel, { color: colors.text }]}>
@@ -167,6 +286,36 @@ const BeerItemComponent: React.FC<BeerItemProps> = ({
                     </Text>
                   </>
                 )}
+                {personalNote && (
+                  <View testID={`beer-personal-note-${beer.id}`}>
+                    <Text style={[styles.descriptionLabel, { color: colors.text }]}>My Notes</Text>
+                    {personalNote.rating !== null && (
+                      <Text
+                        style={[styles.ratingText, { color: colors.amber }]}
+                        testID={`beer-personal-rating-${beer.id}`}
+                        accessibilityLabel={`My rating: ${personalNote.rating} of ${MAX_PERSONAL_RATING} stars`}
+                      >
+                        {formatStars(personalNote.rating)}
+                      </Text>
+                    )}
+                    {personalNote.flavor_tags.length > 0 && (
+                      <Text
+                        style={[styles.meta, { color: colors.textMuted }]}
+                        testID={`beer-personal-tags-${beer.id}`}
+                      >
+                        {personalNote.flavor_tags.join(' · ')}
+                      </Text>
+                    )}
+                    {personalNote.notes !== '' && (
+                      <Text
+                        style={[styles.descriptionText, { color: colors.textSecondary }]}
+                        testID={`beer-personal-notes-${beer.id}`}
+                      >
+                        {personalNote.notes}
+                      </Text>
+                    )}
+                  </View>
+                )}
                 {renderActions && <View style={styles.actionsContainer}>{renderActions()}</View>}
               </Animated.View>
             )}
@@ -211,6 +360,22 @@ const styles = StyleSheet.create({
     fontFamily: 'SpaceMono',
     fontSize: 10,
   },
+  snippetMatch: {
+    fontWeight: '700',
+  },
+  wishlistStar: {
+    fontSize: 18,
+  },
+  newBadge: {
+    borderRadius: 4,
+    paddingHorizontal: 5,
+    paddingVertical: 2,
+  },
+  newBadgeText: {
+    fontFamily: 'SpaceGrotesk-Bold',
+    fontSize: 9,
+    letterSpacing: 1,
+  },
   abvBadge: {
     borderWidth: 1,
     borderRadius: 6,
@@ -219,6 +384,13 @@ const styles = StyleSheet.create({
     minWidth: 52,
     alignItems: 'center',
   },
+  abvBadgeLowConfidence: {
+    borderStyle: 'dashed',
+    opacity: 0.7,
+  },
+  abvSource: {
+    textAlign: 'right',
+  },
   abvText: {
     fontFamily: 'SpaceMono',
     fontSize: 11,
@@ -245,6 +417,10 @@ const styles = StyleSheet.create({
     fontSize: 11,
     lineHeight: 18,
   },
+  ratingText: {
+    fontSize: 14,
+    letterSpacing: 2,
+  },
   actionsContainer: {
     marginTop: 10,
   },
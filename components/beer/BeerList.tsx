@@ -4,7 +4,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { BeerItem } from './BeerItem';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { Colors } from '@/constants/Colors';
-import { BeerWithContainerType, BeerfinderWithContainerType } from '@/src/types/beer';
+import { BeerNote, BeerWithContainerType, BeerfinderWithContainerType } from '@/src/types/beer';
 
 type DisplayableBeer = BeerWithContainerType | BeerfinderWithContainerType;
 
@@ -19,6 +19,14 @@ type BeerListProps = {
   dateLabel?: string;
   renderItemActions?: (beer: DisplayableBeer) => React.ReactNode;
   numColumns?: number;
+  notesById?: ReadonlyMap<string, BeerNote>;
+  /** Full-text search snippets by beer id, from `useFullTextSearch` */
+  snippetsById?: ReadonlyMap<string, string>;
+  /** Ids of wishlisted beers, from `useWishlist` */
+  wishlistIds?: ReadonlySet<string>;
+  onToggleWishlist?: (beer: DisplayableBeer) => void;
+  /** Ids of beers a recent refresh added, from `useNewArrivals` */
+  newIds?: ReadonlySet<string>;
 };
 
 const TAB_BAR_HEIGHT = 49;
@@ -34,6 +42,11 @@ export const BeerList: React.FC<BeerListProps> = ({
   dateLabel,
   renderItemActions,
   numColumns = 1,
+  notesById,
+  snippetsById,
+  wishlistIds,
+  onToggleWishlist,
+  newIds,
 }) => {
   const insets = useSafeAreaInsets();
   const colorScheme = useColorScheme() ?? 'dark';
@@ -64,6 +77,11 @@ export const BeerList: React.FC<BeerListProps> = ({
           onToggle={onToggleExpand}
           dateLabel={dateLabel}
           renderActions={renderItemActions ? () => renderItemActions(item) : undefined}
+          personalNote={notesById?.get(item.id)}
+          searchSnippet={snippetsById?.get(item.id)}
+          isWishlisted={wishlistIds?.has(item.id)}
+          onToggleWishlist={onToggleWishlist}
+          isNew={newIds?.has(item.id)}
         />
       );
 
@@ -73,7 +91,19 @@ export const BeerList: React.FC<BeerListProps> = ({
 
       return content;
     },
-    [expandedId, onToggleExpand, dateLabel, renderItemActions, numColumns, itemWrapperStyle]
+    [
+      expandedId,
+      onToggleExpand,
+      dateLabel,
+      renderItemActions,
+      numColumns,
+      itemWrapperStyle,
+      notesById,
+      snippetsById,
+      wishlistIds,
+      onToggleWishlist,
+      newIds,
+    ]
   );
 
   if (!loading && beers.length === 0) {
@@ -0,0 +1,237 @@
+import React, { useCallback, useState } from 'react';
+import { StyleSheet, View, Text, TextInput, TouchableOpacity } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { BeerNote, FLAVOR_TAGS, MAX_PERSONAL_RATING } from '@/src/types/beer';
+import { BeerNoteInput } from '@/src/database/repositories/BeerNotesRepository';
+
+type BeerNoteEditorProps = {
+  beerId: string;
+  note?: BeerNote;
+  onSave: (note: BeerNoteInput) => Promise<void>;
+};
+
+const RATING_VALUES = Array.from({ length: MAX_PERSONAL_RATING + 1 }, (_, i) => i);
+
+/**
+ * Inline editor for the user's own rating, notes and flavor tags.
+ *
+ * Collapsed to a single button until opened, so an expanded beer card stays
+ * short for anyone who never uses it. Nothing is written until Save.
+ */
+const BeerNoteEditorComponent: React.FC<BeerNoteEditorProps> = ({ beerId, note, onSave }) => {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [rating, setRating] = useState<number | null>(note?.rating ?? null);
+  const [notes, setNotes] = useState(note?.notes ?? '');
+  const [tags, setTags] = useState<string[]>(note?.flavor_tags ?? []);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Tags saved before a FLAVOR_TAGS change still get a chip, so they can be removed
+  const tagOptions = [...FLAVOR_TAGS, ...tags.filter(tag => !FLAVOR_TAGS.some(t => t === tag))];
+
+  const open = useCallback(() => {
+    setRating(note?.rating ?? null);
+    setNotes(note?.notes ?? '');
+    setTags(note?.flavor_tags ?? []);
+    setError(null);
+    setIsEditing(true);
+  }, [note]);
+
+  const toggleTag = useCallback((tag: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setTags(prev => (prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]));
+  }, []);
+
+  const selectRating = useCallback((value: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    // Tapping the current rating again clears it back to unrated
+    setRating(prev => (prev === value ? null : value));
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave({ beer_id: beerId, rating, notes, flavor_tags: tags });
+      setIsEditing(false);
+    } catch (saveError) {
+      console.error('[BeerNoteEditor] Failed to save note:', saveError);
+      setError('Could not save. Try again.');
+    } finally {
+      setSaving(false);
+    }
+  }, [onSave, beerId, rating, notes, tags]);
+
+  if (!isEditing) {
+    return (
+      <TouchableOpacity
+        onPress={open}
+        style={[styles.button, { borderColor: colors.accentMuted }]}
+        testID={`beer-note-edit-${beerId}`}
+        accessibilityRole="button"
+      >
+        <Text style={[styles.buttonText, { color: colors.tint }]}>
+          {note ? 'EDIT MY NOTES' : 'RATE & ADD NOTES'}
+        </Text>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View style={styles.container} testID={`beer-note-editor-${beerId}`}>
+      <View style={styles.row}>
+        {RATING_VALUES.map(value => {
+          const selected = rating === value;
+          return (
+            <TouchableOpacity
+              key={value}
+              onPress={() => selectRating(value)}
+              style={[
+                styles.ratingChip,
+                {
+                  borderColor: selected ? colors.amber : colors.border,
+                  backgroundColor: selected ? colors.amberDim : 'transparent',
+                },
+              ]}
+              testID={`beer-note-rating-${value}`}
+              accessibilityRole="button"
+              accessibilityState={{ selected }}
+              accessibilityLabel={`${value} stars`}
+            >
+              <Text
+                style={[styles.chipText, { color: selected ? colors.amber : colors.textMuted }]}
+              >
+                {value}★
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={[styles.row, styles.wrap]}>
+        {tagOptions.map(tag => {
+          const selected = tags.includes(tag);
+          return (
+            <TouchableOpacity
+              key={tag}
+              onPress={() => toggleTag(tag)}
+              style={[
+                styles.tagChip,
+                {
+                  borderColor: selected ? colors.tint : colors.border,
+                  backgroundColor: selected ? colors.accentMuted : 'transparent',
+                },
+              ]}
+              testID={`beer-note-tag-${tag}`}
+              accessibilityRole="button"
+              accessibilityState={{ selected }}
+            >
+              <Text style={[styles.chipText, { color: selected ? colors.tint : colors.textMuted }]}>
+                {tag}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <TextInput
+        style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+        value={notes}
+        onChangeText={setNotes}
+        placeholder="Tasting notes..."
+        placeholderTextColor={colors.textMuted}
+        multiline
+        maxLength={1000}
+        selectionColor={colors.tint}
+        testID={`beer-note-input-${beerId}`}
+      />
+
+      {error && <Text style={[styles.errorText, { color: colors.error }]}>{error}</Text>}
+
+      <View style={styles.row}>
+        <TouchableOpacity
+          onPress={handleSave}
+          disabled={saving}
+          style={[styles.button, { borderColor: colors.tint, backgroundColor: colors.tint }]}
+          testID={`beer-note-save-${beerId}`}
+          accessibilityRole="button"
+        >
+          <Text style={[styles.buttonText, { color: colors.textOnPrimary }]}>
+            {saving ? 'SAVING…' : 'SAVE'}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => setIsEditing(false)}
+          disabled={saving}
+          style={[styles.button, { borderColor: colors.border }]}
+          testID={`beer-note-cancel-${beerId}`}
+          accessibilityRole="button"
+        >
+          <Text style={[styles.buttonText, { color: colors.textSecondary }]}>CANCEL</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  wrap: {
+    flexWrap: 'wrap',
+  },
+  ratingChip: {
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 6,
+  },
+  tagChip: {
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingVertical: 3,
+    paddingHorizontal: 8,
+  },
+  chipText: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+  },
+  input: {
+    fontFamily: 'SpaceMono',
+    fontSize: 11,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 8,
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+  },
+  button: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 2,
+  },
+});
+
+export const BeerNoteEditor = React.memo(BeerNoteEditorComponent);
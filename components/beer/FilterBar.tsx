@@ -1,4 +1,4 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useState } from 'react';
 import { StyleSheet, View, TouchableOpacity, Text } from 'react-native';
 import * as Haptics from 'expo-haptics';
 import { ChromeShell } from '@/components/ui/ChromeShell';
@@ -6,7 +6,19 @@ import { IconSymbol, IconSymbolName } from '../ui/IconSymbol';
 import BeerIcon from '../icons/BeerIcon';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
-import { ContainerFilter, SortOption, SortDirection } from '@/hooks/useBeerFilters';
+import {
+  ContainerFilter,
+  RatingFilter,
+  SortOption,
+  SortDirection,
+  StyleFamilyCounts,
+  nextRatingFilter,
+  nextSortOption,
+} from '@/hooks/useBeerFilters';
+import { STYLE_FAMILIES, StyleFamily } from '@/src/utils/styleTaxonomy';
+import type { UseFilterPresetsResult } from '@/hooks/useFilterPresets';
+import type { FilterPresetState } from '@/src/utils/filterPresets';
+import { FilterPresetPanel } from './FilterPresetPanel';
 
 type FilterBarProps = {
   containerFilter: ContainerFilter;
@@ -15,30 +27,61 @@ type FilterBarProps = {
   onCycleContainerFilter: () => void;
   onCycleSort: () => void;
   onToggleSortDirection: () => void;
+  /** Whether the sort cycle includes relevance, as it does while a search is ranked */
+  showRelevance?: boolean;
+  /** Personal-rating chip; shown only when both are provided */
+  ratingFilter?: RatingFilter;
+  onCycleRatingFilter?: () => void;
+  /** Style-family chip and picker; shown only when counts and the toggle are provided */
+  styleFamilyCounts?: StyleFamilyCounts;
+  selectedStyleFamilies?: ReadonlySet<StyleFamily>;
+  onToggleStyleFamily?: (family: StyleFamily) => void;
+  onClearStyleFamilies?: () => void;
+  /** Presets chip and panel; shown only when both are provided */
+  presets?: UseFilterPresetsResult;
+  onApplyPreset?: (state: FilterPresetState) => void;
 };
 
+type Panel = 'style' | 'presets';
+
+const NO_FAMILIES: ReadonlySet<StyleFamily> = new Set();
+
 const CONTAINER_LABELS: Record<ContainerFilter, string> = {
   all: 'ALL',
   draft: 'DRAFT',
   cans: 'CANS',
 };
 
+const RATING_LABELS: Record<RatingFilter, string> = {
+  all: 'ANY ★',
+  rated: 'RATED',
+  '3+': '★3+',
+  '4+': '★4+',
+  unrated: 'UNRATED',
+};
+
 const SORT_LABELS: Record<SortOption, string> = {
+  relevance: 'MATCH',
   date: 'DATE',
   name: 'NAME',
   abv: 'ABV',
+  rating: 'MY ★',
 };
 
 const SORT_ICONS: Record<SortOption, IconSymbolName> = {
+  relevance: 'magnifyingglass',
   date: 'calendar',
   name: 'textformat',
   abv: 'percent',
+  rating: 'star',
 };
 
 const DIRECTION_LABELS: Record<SortOption, Record<SortDirection, string>> = {
+  relevance: { asc: 'WORST ↓', desc: 'BEST ↓' },
   date: { asc: 'OLD ↓', desc: 'NEW ↓' },
   name: { asc: 'A-Z ↓', desc: 'Z-A ↓' },
   abv: { asc: 'LOW ↓', desc: 'HIGH ↓' },
+  rating: { asc: 'LOW ↓', desc: 'HIGH ↓' },
 };
 
 const NEXT_CONTAINER: Record<ContainerFilter, string> = {
@@ -46,7 +89,20 @@ const NEXT_CONTAINER: Record<ContainerFilter, string> = {
   draft: 'Cans',
   cans: 'All',
 };
-const NEXT_SORT: Record<SortOption, string> = { date: 'Name', name: 'ABV', abv: 'Date' };
+const SORT_NAMES: Record<SortOption, string> = {
+  relevance: 'Relevance',
+  date: 'Date',
+  name: 'Name',
+  abv: 'ABV',
+  rating: 'Rating',
+};
+const RATING_NAMES: Record<RatingFilter, string> = {
+  all: 'Any rating',
+  rated: 'Rated',
+  '3+': '3 stars and up',
+  '4+': '4 stars and up',
+  unrated: 'Unrated',
+};
 
 const FilterBarComponent: React.FC<FilterBarProps> = ({
   containerFilter,
@@ -55,10 +111,29 @@ const FilterBarComponent: React.FC<FilterBarProps> = ({
   onCycleContainerFilter,
   onCycleSort,
   onToggleSortDirection,
+  showRelevance = false,
+  ratingFilter,
+  onCycleRatingFilter,
+  styleFamilyCounts,
+  selectedStyleFamilies = NO_FAMILIES,
+  onToggleStyleFamily,
+  onClearStyleFamilies,
+  presets,
+  onApplyPreset,
 }) => {
   const colorScheme = useColorScheme() ?? 'dark';
   const colors = Colors[colorScheme];
   const isContainerActive = containerFilter !== 'all';
+  const showRating = ratingFilter !== undefined && onCycleRatingFilter !== undefined;
+  const isRatingActive = showRating && ratingFilter !== 'all';
+  const showStyle = styleFamilyCounts !== undefined && onToggleStyleFamily !== undefined;
+  const isStyleActive = showStyle && selectedStyleFamilies.size > 0;
+  const showPresets = presets !== undefined && onApplyPreset !== undefined;
+  const activePresetName = presets?.activePresetName ?? null;
+  // One panel at a time, so opening presets does not push the list further down
+  const [openPanel, setOpenPanel] = useState<Panel | null>(null);
+  const isStylePickerOpen = openPanel === 'style';
+  const isPresetPanelOpen = openPanel === 'presets';
 
   const handleContainerPress = useCallback(() => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -75,88 +150,276 @@ const FilterBarComponent: React.FC<FilterBarProps> = ({
     onToggleSortDirection();
   }, [onToggleSortDirection]);
 
+  const handleRatingPress = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onCycleRatingFilter?.();
+  }, [onCycleRatingFilter]);
+
+  const handleStylePress = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setOpenPanel(open => (open === 'style' ? null : 'style'));
+  }, []);
+
+  const handlePresetsPress = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setOpenPanel(open => (open === 'presets' ? null : 'presets'));
+  }, []);
+
+  const handleFamilyPress = useCallback(
+    (family: StyleFamily) => {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      onToggleStyleFamily?.(family);
+    },
+    [onToggleStyleFamily]
+  );
+
+  const styleLabel = isStyleActive ? `STYLE ${selectedStyleFamilies.size}` : 'STYLE';
+
+  // Families with no beers in the current list are hidden unless selected, so
+  // a selection can always be undone from the picker
+  const pickerFamilies = STYLE_FAMILIES.filter(
+    family => (styleFamilyCounts?.get(family) ?? 0) > 0 || selectedStyleFamilies.has(family)
+  );
+
   return (
-    <View style={styles.chipRow} testID="filter-bar">
-      {/* Container filter chip */}
-      <TouchableOpacity
-        onPress={handleContainerPress}
-        activeOpacity={0.7}
-        testID="filter-container-button"
-        accessibilityRole="button"
-        accessibilityState={{ selected: isContainerActive }}
-        accessibilityLabel={`Container filter: ${CONTAINER_LABELS[containerFilter]}. Double tap to show ${NEXT_CONTAINER[containerFilter]}.`}
-      >
-        {isContainerActive ? (
-          <View style={[styles.chromeShell, { backgroundColor: colors.tint }]}>
-            <View style={[styles.chipInner, { backgroundColor: colors.tint }]}>
-              <Text style={[styles.chipText, { color: colors.textOnPrimary }]}>
-                {CONTAINER_LABELS[containerFilter]}
+    <View style={styles.container} testID="filter-bar">
+      <View style={styles.chipRow}>
+        {/* Container filter chip */}
+        <TouchableOpacity
+          onPress={handleContainerPress}
+          activeOpacity={0.7}
+          testID="filter-container-button"
+          accessibilityRole="button"
+          accessibilityState={{ selected: isContainerActive }}
+          accessibilityLabel={`Container filter: ${CONTAINER_LABELS[containerFilter]}. Double tap to show ${NEXT_CONTAINER[containerFilter]}.`}
+        >
+          {isContainerActive ? (
+            <View style={[styles.chromeShell, { backgroundColor: colors.tint }]}>
+              <View style={[styles.chipInner, { backgroundColor: colors.tint }]}>
+                <Text style={[styles.chipText, { color: colors.textOnPrimary }]}>
+                  {CONTAINER_LABELS[containerFilter]}
+                </Text>
+              </View>
+            </View>
+          ) : (
+            <ChromeShell borderRadius={8} padding={1.5}>
+              <View style={[styles.chipInner, { backgroundColor: colors.background }]}>
+                <Text style={[styles.chipText, { color: colors.tint }]}>
+                  {CONTAINER_LABELS[containerFilter]}
+                </Text>
+              </View>
+            </ChromeShell>
+          )}
+        </TouchableOpacity>
+
+        {/* Personal rating filter chip */}
+        {showRating && (
+          <TouchableOpacity
+            onPress={handleRatingPress}
+            activeOpacity={0.7}
+            testID="filter-rating-button"
+            accessibilityRole="button"
+            accessibilityState={{ selected: isRatingActive }}
+            accessibilityLabel={`Rating filter: ${RATING_NAMES[ratingFilter]}. Double tap to show ${RATING_NAMES[nextRatingFilter(ratingFilter)]}.`}
+          >
+            {isRatingActive ? (
+              <View style={[styles.chromeShell, { backgroundColor: colors.tint }]}>
+                <View style={[styles.chipInner, { backgroundColor: colors.tint }]}>
+                  <Text style={[styles.chipText, { color: colors.textOnPrimary }]}>
+                    {RATING_LABELS[ratingFilter]}
+                  </Text>
+                </View>
+              </View>
+            ) : (
+              <ChromeShell borderRadius={8} padding={1.5}>
+                <View style={[styles.chipInner, { backgroundColor: colors.background }]}>
+                  <Text style={[styles.chipText, { color: colors.tint }]}>
+                    {RATING_LABELS[ratingFilter]}
+                  </Text>
+                </View>
+              </ChromeShell>
+            )}
+          </TouchableOpacity>
+        )}
+
+        {/* Style family chip */}
+        {showStyle && (
+          <TouchableOpacity
+            onPress={handleStylePress}
+            activeOpacity={0.7}
+            testID="filter-style-button"
+            accessibilityRole="button"
+            accessibilityState={{ selected: isStyleActive, expanded: isStylePickerOpen }}
+            accessibilityLabel={`Style filter: ${isStyleActive ? Array.from(selectedStyleFamilies).join(', ') : 'All styles'}. Double tap to ${isStylePickerOpen ? 'hide' : 'show'} styles.`}
+          >
+            {isStyleActive ? (
+              <View style={[styles.chromeShell, { backgroundColor: colors.tint }]}>
+                <View style={[styles.chipInner, { backgroundColor: colors.tint }]}>
+                  <Text style={[styles.chipText, { color: colors.textOnPrimary }]}>
+                    {styleLabel}
+                  </Text>
+                </View>
+              </View>
+            ) : (
+              <ChromeShell borderRadius={8} padding={1.5}>
+                <View style={[styles.chipInner, { backgroundColor: colors.background }]}>
+                  <Text style={[styles.chipText, { color: colors.tint }]}>{styleLabel}</Text>
+                </View>
+              </ChromeShell>
+            )}
+          </TouchableOpacity>
+        )}
+
+        {/* Sort chip */}
+        <TouchableOpacity
+          onPress={handleSortPress}
+          activeOpacity={0.7}
+          testID="sort-toggle-button"
+          accessibilityRole="button"
+          accessibilityLabel={`Sort by ${SORT_LABELS[sortBy]}. Double tap to sort by ${SORT_NAMES[nextSortOption(sortBy, showRating, showRelevance)]}.`}
+        >
+          <ChromeShell borderRadius={8} padding={1.5}>
+            <View
+              style={[
+                styles.chipInner,
+                { backgroundColor: colors.background, flexDirection: 'row', gap: 6 },
+              ]}
+            >
+              {sortBy === 'abv' ? (
+                <BeerIcon name="bottle" size={14} color={colors.tint} />
+              ) : (
+                <IconSymbol name={SORT_ICONS[sortBy]} size={14} color={colors.tint} />
+              )}
+              <Text style={[styles.chipText, { color: colors.tint }]} testID="sort-button-text">
+                {SORT_LABELS[sortBy]}
               </Text>
             </View>
-          </View>
-        ) : (
+          </ChromeShell>
+        </TouchableOpacity>
+
+        {/* Sort direction chip */}
+        <TouchableOpacity
+          onPress={handleDirectionPress}
+          activeOpacity={0.7}
+          testID="sort-direction-button"
+          accessibilityRole="button"
+          accessibilityLabel={`Sort: ${DIRECTION_LABELS[sortBy][sortDirection].replace(' ↓', '')}. Double tap for ${DIRECTION_LABELS[sortBy][sortDirection === 'asc' ? 'desc' : 'asc'].replace(' ↓', '')}.`}
+        >
           <ChromeShell borderRadius={8} padding={1.5}>
             <View style={[styles.chipInner, { backgroundColor: colors.background }]}>
               <Text style={[styles.chipText, { color: colors.tint }]}>
-                {CONTAINER_LABELS[containerFilter]}
+                {DIRECTION_LABELS[sortBy][sortDirection]}
               </Text>
             </View>
           </ChromeShell>
-        )}
-      </TouchableOpacity>
-
-      {/* Sort chip */}
-      <TouchableOpacity
-        onPress={handleSortPress}
-        activeOpacity={0.7}
-        testID="sort-toggle-button"
-        accessibilityRole="button"
-        accessibilityLabel={`Sort by ${SORT_LABELS[sortBy]}. Double tap to sort by ${NEXT_SORT[sortBy]}.`}
-      >
-        <ChromeShell borderRadius={8} padding={1.5}>
-          <View
-            style={[
-              styles.chipInner,
-              { backgroundColor: colors.background, flexDirection: 'row', gap: 6 },
-            ]}
+        </TouchableOpacity>
+
+        {/* Saved presets chip: names the preset the filters match, if any */}
+        {showPresets && (
+          <TouchableOpacity
+            onPress={handlePresetsPress}
+            activeOpacity={0.7}
+            testID="filter-presets-button"
+            accessibilityRole="button"
+            accessibilityState={{
+              selected: activePresetName !== null,
+              expanded: isPresetPanelOpen,
+            }}
+            accessibilityLabel={`Saved filters${activePresetName ? `: ${activePresetName}` : ''}. Double tap to ${isPresetPanelOpen ? 'hide' : 'show'} presets.`}
           >
-            {sortBy === 'abv' ? (
-              <BeerIcon name="bottle" size={14} color={colors.tint} />
-            ) : (
-              <IconSymbol name={SORT_ICONS[sortBy]} size={14} color={colors.tint} />
-            )}
-            <Text style={[styles.chipText, { color: colors.tint }]} testID="sort-button-text">
-              {SORT_LABELS[sortBy]}
-            </Text>
-          </View>
-        </ChromeShell>
-      </TouchableOpacity>
-
-      {/* Sort direction chip */}
-      <TouchableOpacity
-        onPress={handleDirectionPress}
-        activeOpacity={0.7}
-        testID="sort-direction-button"
-        accessibilityRole="button"
-        accessibilityLabel={`Sort: ${DIRECTION_LABELS[sortBy][sortDirection].replace(' ↓', '')}. Double tap for ${DIRECTION_LABELS[sortBy][sortDirection === 'asc' ? 'desc' : 'asc'].replace(' ↓', '')}.`}
-      >
-        <ChromeShell borderRadius={8} padding={1.5}>
-          <View style={[styles.chipInner, { backgroundColor: colors.background }]}>
-            <Text style={[styles.chipText, { color: colors.tint }]}>
-              {DIRECTION_LABELS[sortBy][sortDirection]}
-            </Text>
-          </View>
-        </ChromeShell>
-      </TouchableOpacity>
+            <ChromeShell borderRadius={8} padding={1.5}>
+              <View style={[styles.chipInner, { backgroundColor: colors.background }]}>
+                <Text
+                  style={[styles.chipText, { color: colors.tint }]}
+                  numberOfLines={1}
+                  testID="filter-presets-label"
+                >
+                  {activePresetName ? activePresetName.toUpperCase() : 'PRESETS'}
+                </Text>
+              </View>
+            </ChromeShell>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Style family picker: multi-select, with the count each family has now */}
+      {showStyle && isStylePickerOpen && (
+        <View style={styles.familyPanel} testID="style-family-panel">
+          {pickerFamilies.map(family => {
+            const selected = selectedStyleFamilies.has(family);
+            const count = styleFamilyCounts?.get(family) ?? 0;
+            return (
+              <TouchableOpacity
+                key={family}
+                onPress={() => handleFamilyPress(family)}
+                activeOpacity={0.7}
+                testID={`style-family-${family}`}
+                accessibilityRole="checkbox"
+                accessibilityState={{ checked: selected }}
+                accessibilityLabel={`${family}, ${count} ${count === 1 ? 'beer' : 'beers'}`}
+                style={[
+                  styles.familyChip,
+                  {
+                    borderColor: selected ? colors.tint : colors.border,
+                    backgroundColor: selected ? colors.tint : colors.background,
+                  },
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    { color: selected ? colors.textOnPrimary : colors.tint },
+                  ]}
+                >
+                  {family.toUpperCase()} {count}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+          {isStyleActive && onClearStyleFamilies && (
+            <TouchableOpacity
+              onPress={onClearStyleFamilies}
+              activeOpacity={0.7}
+              testID="style-family-clear"
+              accessibilityRole="button"
+              accessibilityLabel="Clear style filter"
+              style={[styles.familyChip, { borderColor: colors.border }]}
+            >
+              <Text style={[styles.chipText, { color: colors.textSecondary }]}>CLEAR</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {showPresets && isPresetPanelOpen && (
+        <FilterPresetPanel presets={presets} onApplyPreset={onApplyPreset} />
+      )}
     </View>
   );
 };
 
 const styles = StyleSheet.create({
+  // Shrinks beside the list's action buttons so the chips wrap instead of overflowing
+  container: {
+    flexShrink: 1,
+  },
   chipRow: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     gap: 6,
   },
+  familyPanel: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  familyChip: {
+    borderWidth: 1,
+    borderRadius: 7,
+    paddingVertical: 5,
+    paddingHorizontal: 8,
+  },
   chromeShell: {
     borderRadius: 8,
     overflow: 'hidden',
@@ -0,0 +1,283 @@
+import React, { useCallback, useState } from 'react';
+import { Alert, Share, StyleSheet, View, Text, TextInput, TouchableOpacity } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { Colors } from '@/constants/Colors';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import type { UseFilterPresetsResult } from '@/hooks/useFilterPresets';
+import { FilterPreset, FilterPresetState, MAX_PRESET_NAME_LENGTH } from '@/src/utils/filterPresets';
+
+type FilterPresetPanelProps = {
+  presets: UseFilterPresetsResult;
+  onApplyPreset: (state: FilterPresetState) => void;
+};
+
+type Mode = 'browse' | 'save' | 'import';
+
+/**
+ * Saved presets for one list, opened from the PRESETS chip in FilterBar.
+ *
+ * Tap a preset to apply it; long-press to delete. SAVE names the filters now
+ * applied, SHARE sends every preset of the list as one export string, and
+ * IMPORT takes such a string pasted from a teammate.
+ */
+const FilterPresetPanelComponent: React.FC<FilterPresetPanelProps> = ({
+  presets,
+  onApplyPreset,
+}) => {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const { activePresetName, savePreset, deletePreset, exportPresets, importPresets } = presets;
+
+  const [mode, setMode] = useState<Mode>('browse');
+  const [input, setInput] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const shownError = error ?? presets.error;
+
+  const openMode = useCallback((next: Mode) => {
+    setMode(next);
+    setInput('');
+    setError(null);
+    setMessage(null);
+  }, []);
+
+  const handleApply = useCallback(
+    (preset: FilterPreset) => {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      onApplyPreset(preset.state);
+    },
+    [onApplyPreset]
+  );
+
+  const handleDelete = useCallback(
+    (preset: FilterPreset) => {
+      Alert.alert('Delete preset', `Delete "${preset.name}"?`, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            deletePreset(preset.name).catch(deleteError => {
+              console.error('[FilterPresetPanel] Failed to delete preset:', deleteError);
+              setError('Could not delete. Try again.');
+            });
+          },
+        },
+      ]);
+    },
+    [deletePreset]
+  );
+
+  const handleSave = useCallback(async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      await savePreset(input);
+      setMode('browse');
+    } catch (saveError) {
+      console.error('[FilterPresetPanel] Failed to save preset:', saveError);
+      setError('Could not save. Try again.');
+    } finally {
+      setBusy(false);
+    }
+  }, [savePreset, input]);
+
+  const handleImport = useCallback(async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const count = await importPresets(input);
+      setMode('browse');
+      setMessage(`Imported ${count} ${count === 1 ? 'preset' : 'presets'}.`);
+    } catch (importError) {
+      console.warn('[FilterPresetPanel] Failed to import presets:', importError);
+      setError(importError instanceof Error ? importError.message : 'Could not import.');
+    } finally {
+      setBusy(false);
+    }
+  }, [importPresets, input]);
+
+  const handleShare = useCallback(() => {
+    Share.share({ message: exportPresets() }).catch(shareError => {
+      console.warn('[FilterPresetPanel] Failed to share presets:', shareError);
+    });
+  }, [exportPresets]);
+
+  return (
+    <View style={styles.container} testID="filter-preset-panel">
+      {presets.presets.length > 0 ? (
+        <View style={styles.row}>
+          {presets.presets.map(preset => {
+            const selected = preset.name === activePresetName;
+            return (
+              <TouchableOpacity
+                key={preset.name}
+                onPress={() => handleApply(preset)}
+                onLongPress={() => handleDelete(preset)}
+                activeOpacity={0.7}
+                testID={`filter-preset-${preset.name}`}
+                accessibilityRole="button"
+                accessibilityState={{ selected }}
+                accessibilityLabel={`Preset ${preset.name}`}
+                accessibilityHint="Double tap to apply. Long press to delete."
+                style={[
+                  styles.chip,
+                  {
+                    borderColor: selected ? colors.tint : colors.border,
+                    backgroundColor: selected ? colors.tint : colors.background,
+                  },
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.chipText,
+                    { color: selected ? colors.textOnPrimary : colors.tint },
+                  ]}
+                >
+                  {preset.name.toUpperCase()}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      ) : (
+        <Text style={[styles.hint, { color: colors.textMuted }]}>
+          No saved filters yet. Set the filters you want, then save them here.
+        </Text>
+      )}
+
+      {mode !== 'browse' && (
+        <TextInput
+          style={[
+            styles.input,
+            mode === 'import' && styles.importInput,
+            { color: colors.text, borderColor: colors.border },
+          ]}
+          value={input}
+          onChangeText={setInput}
+          placeholder={mode === 'save' ? 'Preset name' : 'Paste shared presets'}
+          placeholderTextColor={colors.textMuted}
+          maxLength={mode === 'save' ? MAX_PRESET_NAME_LENGTH : undefined}
+          multiline={mode === 'import'}
+          autoFocus
+          autoCapitalize={mode === 'save' ? 'sentences' : 'none'}
+          autoCorrect={false}
+          selectionColor={colors.tint}
+          testID="filter-preset-input"
+        />
+      )}
+
+      {shownError && <Text style={[styles.hint, { color: colors.error }]}>{shownError}</Text>}
+      {message && <Text style={[styles.hint, { color: colors.textSecondary }]}>{message}</Text>}
+
+      <View style={styles.row}>
+        {mode === 'browse' ? (
+          <>
+            <TouchableOpacity
+              onPress={() => openMode('save')}
+              style={[styles.chip, { borderColor: colors.tint }]}
+              testID="filter-preset-save"
+              accessibilityRole="button"
+              accessibilityLabel="Save current filters as a preset"
+            >
+              <Text style={[styles.chipText, { color: colors.tint }]}>SAVE</Text>
+            </TouchableOpacity>
+            {presets.presets.length > 0 && (
+              <TouchableOpacity
+                onPress={handleShare}
+                style={[styles.chip, { borderColor: colors.border }]}
+                testID="filter-preset-share"
+                accessibilityRole="button"
+                accessibilityLabel="Share presets"
+              >
+                <Text style={[styles.chipText, { color: colors.textSecondary }]}>SHARE</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              onPress={() => openMode('import')}
+              style={[styles.chip, { borderColor: colors.border }]}
+              testID="filter-preset-import"
+              accessibilityRole="button"
+              accessibilityLabel="Import shared presets"
+            >
+              <Text style={[styles.chipText, { color: colors.textSecondary }]}>IMPORT</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <TouchableOpacity
+              onPress={mode === 'save' ? handleSave : handleImport}
+              disabled={busy || !input.trim()}
+              style={[
+                styles.chip,
+                { borderColor: colors.tint, backgroundColor: colors.tint },
+                (busy || !input.trim()) && styles.disabled,
+              ]}
+              testID="filter-preset-confirm"
+              accessibilityRole="button"
+              accessibilityState={{ disabled: busy || !input.trim() }}
+            >
+              <Text style={[styles.chipText, { color: colors.textOnPrimary }]}>
+                {mode === 'save' ? 'SAVE' : 'IMPORT'}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => openMode('browse')}
+              disabled={busy}
+              style={[styles.chip, { borderColor: colors.border }]}
+              testID="filter-preset-cancel"
+              accessibilityRole="button"
+            >
+              <Text style={[styles.chipText, { color: colors.textSecondary }]}>CANCEL</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    marginTop: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 7,
+    paddingVertical: 5,
+    paddingHorizontal: 8,
+  },
+  chipText: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+    fontWeight: '600',
+    letterSpacing: 2,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  hint: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+  },
+  input: {
+    fontFamily: 'SpaceMono',
+    fontSize: 11,
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 8,
+  },
+  importInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+});
+
+export const FilterPresetPanel = React.memo(FilterPresetPanelComponent);
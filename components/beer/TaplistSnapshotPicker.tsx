@@ -0,0 +1,222 @@
+import React, { useCallback, useState } from 'react';
+import { FlatList, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors } from '@/constants/Colors';
+import { TaplistSnapshot, TaplistSnapshotSource } from '@/src/utils/taplistSnapshot';
+
+type TaplistSnapshotPickerProps = {
+  snapshots: readonly TaplistSnapshot[];
+  /** The snapshot being browsed, or null for the current taplist */
+  selected: TaplistSnapshot | null;
+  /** Called with a snapshot's id, or null for the current taplist */
+  onSelect: (id: number | null) => void;
+  /** Called as the picker opens, to read the list again */
+  onOpen?: () => void;
+};
+
+const SOURCE_LABELS: Record<TaplistSnapshotSource, string> = {
+  live: 'LIVE',
+  cache: 'CACHED',
+  stale: 'STALE',
+  fallback: 'DIRECT',
+  file: 'FILE',
+};
+
+export const formatSnapshotTime = (fetchedAt: number): string =>
+  new Date(fetchedAt).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+/**
+ * The "as of" chip on All Beers, and the sheet it opens listing the taplists
+ * kept for this store. Choosing one shows it read-only; NOW returns to the
+ * current taplist.
+ */
+export function TaplistSnapshotPicker({
+  snapshots,
+  selected,
+  onSelect,
+  onOpen,
+}: TaplistSnapshotPickerProps) {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const [pickerVisible, setPickerVisible] = useState(false);
+
+  const open = useCallback(() => {
+    onOpen?.();
+    setPickerVisible(true);
+  }, [onOpen]);
+
+  const choose = useCallback(
+    (id: number | null) => {
+      setPickerVisible(false);
+      onSelect(id);
+    },
+    [onSelect]
+  );
+
+  const renderSnapshot = useCallback(
+    ({ item }: { item: TaplistSnapshot }) => {
+      const isSelected = selected?.id === item.id;
+      return (
+        <TouchableOpacity
+          style={[styles.row, { borderBottomColor: colors.border }]}
+          onPress={() => choose(item.id)}
+          testID={`taplist-snapshot-${item.id}`}
+          accessibilityRole="button"
+          accessibilityState={{ selected: isSelected }}
+        >
+          <View style={styles.rowMain}>
+            <Text style={[styles.rowTitle, { color: isSelected ? colors.tint : colors.text }]}>
+              {formatSnapshotTime(item.fetched_at)}
+            </Text>
+            <Text style={[styles.meta, { color: colors.textMuted }]}>
+              {item.beer_count} beers · {SOURCE_LABELS[item.source]}
+            </Text>
+          </View>
+          {isSelected && <Ionicons name="checkmark" size={18} color={colors.tint} />}
+        </TouchableOpacity>
+      );
+    },
+    [colors, selected, choose]
+  );
+
+  return (
+    <View>
+      <TouchableOpacity
+        style={[styles.chip, { borderColor: selected ? colors.tint : colors.border }]}
+        onPress={open}
+        testID="taplist-snapshot-chip"
+        accessibilityRole="button"
+        accessibilityLabel="Choose which taplist to show"
+      >
+        <Ionicons name="time-outline" size={12} color={selected ? colors.tint : colors.textMuted} />
+        <Text style={[styles.chipText, { color: selected ? colors.tint : colors.textSecondary }]}>
+          AS OF {selected ? formatSnapshotTime(selected.fetched_at).toUpperCase() : 'NOW'}
+        </Text>
+      </TouchableOpacity>
+
+      <Modal
+        visible={pickerVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setPickerVisible(false)}
+      >
+        <View style={styles.overlay}>
+          <View
+            style={[
+              styles.sheet,
+              { backgroundColor: colors.backgroundSecondary, borderColor: colors.border },
+            ]}
+            testID="taplist-snapshot-picker"
+          >
+            <View style={styles.sheetHeader}>
+              <Text style={[styles.sheetTitle, { color: colors.text }]}>Taplist as of</Text>
+              <TouchableOpacity
+                onPress={() => setPickerVisible(false)}
+                hitSlop={8}
+                testID="taplist-snapshot-picker-close"
+                accessibilityRole="button"
+                accessibilityLabel="Close"
+              >
+                <Ionicons name="close" size={20} color={colors.tint} />
+              </TouchableOpacity>
+            </View>
+
+            <TouchableOpacity
+              style={[styles.row, { borderBottomColor: colors.border }]}
+              onPress={() => choose(null)}
+              testID="taplist-snapshot-now"
+              accessibilityRole="button"
+              accessibilityState={{ selected: selected === null }}
+            >
+              <View style={styles.rowMain}>
+                <Text style={[styles.rowTitle, { color: selected ? colors.text : colors.tint }]}>
+                  Now
+                </Text>
+                <Text style={[styles.meta, { color: colors.textMuted }]}>Current taplist</Text>
+              </View>
+              {!selected && <Ionicons name="checkmark" size={18} color={colors.tint} />}
+            </TouchableOpacity>
+
+            {snapshots.length === 0 ? (
+              <Text style={[styles.meta, { color: colors.textMuted }]}>
+                Earlier taplists appear here after a refresh
+              </Text>
+            ) : (
+              <FlatList
+                data={snapshots}
+                keyExtractor={snapshot => String(snapshot.id)}
+                renderItem={renderSnapshot}
+                testID="taplist-snapshot-list"
+              />
+            )}
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderWidth: 1,
+    borderRadius: 12,
+  },
+  chipText: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+    letterSpacing: 1,
+  },
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    maxHeight: '85%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    borderWidth: 1,
+    padding: 18,
+    gap: 10,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sheetTitle: {
+    fontFamily: 'SpaceGrotesk-Bold',
+    fontSize: 18,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowMain: {
+    flex: 1,
+    gap: 2,
+  },
+  rowTitle: {
+    fontFamily: 'SpaceGrotesk-SemiBold',
+    fontSize: 15,
+  },
+  meta: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+  },
+});
@@ -1,8 +1,9 @@
 import React from 'react';
 import { View } from 'react-native';
-import { render, fireEvent } from '@testing-library/react-native';
+import { render, fireEvent, act } from '@testing-library/react-native';
 
 import { BeerItem } from '../BeerItem';
+import { BeerDetailsEditor } from '../BeerDetailsEditor';
 
 // Mock theme hooks before importing component
 jest.mock('@/hooks/useColorScheme', () => ({
@@ -241,4 +242,233 @@ describe('BeerItem', () => {
     // Should show "Unnamed Beer" fallback
     expect(getByText('Unnamed Beer')).toBeTruthy();
   });
+
+  describe('personal note', () => {
+    const note = {
+      beer_id: '123',
+      rating: 3,
+      notes: 'Piney with a dry finish',
+      flavor_tags: ['hoppy', 'bitter'],
+      updated_at: 1,
+    };
+
+    test('shows rating, tags and notes when expanded', () => {
+      const { getByTestId, getByText } = render(
+        <BeerItem beer={mockBeer} isExpanded={true} onToggle={jest.fn()} personalNote={note} />
+      );
+
+      expect(getByText('My Notes')).toBeTruthy();
+      expect(getByTestId('beer-personal-rating-123').props.children).toBe('★★★☆☆');
+      expect(getByText('hoppy · bitter')).toBeTruthy();
+      expect(getByText('Piney with a dry finish')).toBeTruthy();
+    });
+
+    test('shows a zero rating as five empty stars', () => {
+      const { getByTestId } = render(
+        <BeerItem
+          beer={mockBeer}
+          isExpanded={true}
+          onToggle={jest.fn()}
+          personalNote={{ ...note, rating: 0 }}
+        />
+      );
+
+      expect(getByTestId('beer-personal-rating-123').props.children).toBe('☆☆☆☆☆');
+    });
+
+    test('omits the rating line for an unrated note', () => {
+      const { queryByTestId } = render(
+        <BeerItem
+          beer={mockBeer}
+          isExpanded={true}
+          onToggle={jest.fn()}
+          personalNote={{ ...note, rating: null }}
+        />
+      );
+
+      expect(queryByTestId('beer-personal-rating-123')).toBeNull();
+      expect(queryByTestId('beer-personal-notes-123')).toBeTruthy();
+    });
+
+    test('is hidden while collapsed', () => {
+      const { queryByText } = render(
+        <BeerItem beer={mockBeer} isExpanded={false} onToggle={jest.fn()} personalNote={note} />
+      );
+
+      expect(queryByText('My Notes')).toBeNull();
+    });
+  });
+
+  describe('wishlist', () => {
+    test('shows no star when the list does not offer the wishlist', () => {
+      const { queryByTestId } = render(
+        <BeerItem beer={mockBeer} isExpanded={false} onToggle={jest.fn()} />
+      );
+
+      expect(queryByTestId('beer-wishlist-toggle-123')).toBeNull();
+    });
+
+    test('stars the beer without expanding it', () => {
+      const onToggle = jest.fn();
+      const onToggleWishlist = jest.fn();
+      const { getByTestId } = render(
+        <BeerItem
+          beer={mockBeer}
+          isExpanded={false}
+          onToggle={onToggle}
+          onToggleWishlist={onToggleWishlist}
+        />
+      );
+
+      fireEvent.press(getByTestId('beer-wishlist-toggle-123'));
+
+      expect(onToggleWishlist).toHaveBeenCalledWith(mockBeer);
+      expect(onToggle).not.toHaveBeenCalled();
+    });
+
+    test('highlights a wishlisted beer and fills its star', () => {
+      const { getByTestId, getByText } = render(
+        <BeerItem
+          beer={mockBeer}
+          isExpanded={false}
+          onToggle={jest.fn()}
+          isWishlisted={true}
+          onToggleWishlist={jest.fn()}
+        />
+      );
+
+      expect(getByTestId('beer-wishlisted-123')).toBeTruthy();
+      expect(getByText('★')).toBeTruthy();
+    });
+
+    test('leaves a beer not on the wishlist unhighlighted', () => {
+      const { queryByTestId, getByText } = render(
+        <BeerItem
+          beer={mockBeer}
+          isExpanded={false}
+          onToggle={jest.fn()}
+          onToggleWishlist={jest.fn()}
+        />
+      );
+
+      expect(queryByTestId('beer-wishlisted-123')).toBeNull();
+      expect(getByText('☆')).toBeTruthy();
+    });
+  });
+
+  describe('NEW badge', () => {
+    test('shows the badge on a beer a recent refresh added', () => {
+      const { getByTestId } = render(
+        <BeerItem beer={mockBeer} isExpanded={false} onToggle={jest.fn()} isNew={true} />
+      );
+
+      expect(getByTestId('beer-new-123')).toBeTruthy();
+    });
+
+    test('shows no badge otherwise', () => {
+      const { queryByTestId } = render(
+        <BeerItem beer={mockBeer} isExpanded={false} onToggle={jest.fn()} />
+      );
+
+      expect(queryByTestId('beer-new-123')).toBeNull();
+    });
+  });
+
+  describe('corrected details', () => {
+    test('notes a beer the user corrected when expanded', () => {
+      const { getByTestId } = render(
+        <BeerItem
+          beer={{ ...mockBeer, enrichment_source: 'manual', enrichment_confidence: 1 }}
+          isExpanded={true}
+          onToggle={jest.fn()}
+        />
+      );
+
+      expect(getByTestId('beer-corrected-123')).toBeTruthy();
+    });
+
+    test('saves the edited details from the expanded card', async () => {
+      const onSave = jest.fn().mockResolvedValue(undefined);
+      const { getByTestId, queryByTestId } = render(
+        <BeerItem
+          beer={mockBeer}
+          isExpanded={true}
+          onToggle={jest.fn()}
+          renderActions={() => <BeerDetailsEditor beer={mockBeer} onSave={onSave} />}
+        />
+      );
+
+      fireEvent.press(getByTestId('beer-details-edit-123'));
+      fireEvent.changeText(getByTestId('beer-details-abv-123'), '6.8%');
+      fireEvent.changeText(getByTestId('beer-details-style-123'), ' ');
+      await act(async () => {
+        fireEvent.press(getByTestId('beer-details-save-123'));
+      });
+
+      expect(getByTestId('beer-details-edit-123')).toBeTruthy();
+      expect(onSave).toHaveBeenCalledWith(mockBeer, {
+        beer_id: '123',
+        abv: 6.8,
+        brew_style: null,
+        brew_description: 'A delicious test beer with hoppy notes.',
+      });
+      expect(queryByTestId('beer-details-editor-123')).toBeNull();
+    });
+
+    test('keeps the editor open with a message for an impossible ABV', () => {
+      const onSave = jest.fn();
+      const { getByTestId } = render(<BeerDetailsEditor beer={mockBeer} onSave={onSave} />);
+
+      fireEvent.press(getByTestId('beer-details-edit-123'));
+      fireEvent.changeText(getByTestId('beer-details-abv-123'), '150');
+      fireEvent.press(getByTestId('beer-details-save-123'));
+
+      expect(getByTestId('beer-details-error-123')).toBeTruthy();
+      expect(onSave).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ABV confidence', () => {
+    const guessed = {
+      ...mockBeer,
+      abv: 6.5,
+      enrichment_source: 'perplexity' as const,
+      enrichment_confidence: 0.4,
+    };
+
+    test('shows a low-confidence ABV as approximate', () => {
+      const { getByText } = render(
+        <BeerItem beer={guessed} isExpanded={false} onToggle={jest.fn()} />
+      );
+
+      expect(getByText('~6.5%')).toBeTruthy();
+    });
+
+    test('shows a confident ABV as it is', () => {
+      const { getByText } = render(
+        <BeerItem
+          beer={{ ...guessed, enrichment_confidence: 0.9 }}
+          isExpanded={false}
+          onToggle={jest.fn()}
+        />
+      );
+
+      expect(getByText('6.5%')).toBeTruthy();
+    });
+
+    test('shows where the ABV came from when the badge is pressed', () => {
+      const onToggle = jest.fn();
+      const { getByTestId, queryByTestId } = render(
+        <BeerItem beer={guessed} isExpanded={false} onToggle={onToggle} />
+      );
+
+      expect(queryByTestId('beer-abv-source-123')).toBeNull();
+      fireEvent.press(getByTestId('beer-abv-123'));
+
+      expect(getByTestId('beer-abv-source-123').props.children.join('')).toBe(
+        'ABV ~6.5%: Looked up by Perplexity · 40% confidence'
+      );
+      expect(onToggle).not.toHaveBeenCalled();
+    });
+  });
 });
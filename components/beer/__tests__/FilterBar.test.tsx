@@ -1,8 +1,9 @@
 import React from 'react';
-import { render, fireEvent } from '@testing-library/react-native';
+import { render, fireEvent, act } from '@testing-library/react-native';
 import * as Haptics from 'expo-haptics';
 
 import { FilterBar } from '../FilterBar';
+import type { UseFilterPresetsResult } from '@/hooks/useFilterPresets';
 
 jest.mock('@/hooks/useColorScheme', () => ({
   useColorScheme: jest.fn(() => 'light'),
@@ -69,7 +70,7 @@ afterAll(() => {
 
 type FilterBarProps = {
   containerFilter: 'all' | 'draft' | 'cans';
-  sortBy: 'date' | 'name' | 'abv';
+  sortBy: 'date' | 'name' | 'abv' | 'rating';
   sortDirection: 'asc' | 'desc';
   onCycleContainerFilter: jest.Mock;
   onCycleSort: jest.Mock;
@@ -287,6 +288,240 @@ describe('FilterBar', () => {
     });
   });
 
+  describe('Personal rating filter', () => {
+    test('is hidden unless a rating filter is provided', () => {
+      const props = createDefaultProps();
+      const { queryByTestId } = render(<FilterBar {...props} />);
+      expect(queryByTestId('filter-rating-button')).toBeNull();
+    });
+
+    test('shows the current filter and cycles on press', () => {
+      const props = createDefaultProps();
+      const onCycleRatingFilter = jest.fn();
+      const { getByText } = render(
+        <FilterBar {...props} ratingFilter="4+" onCycleRatingFilter={onCycleRatingFilter} />
+      );
+      fireEvent.press(getByText('★4+'));
+      expect(onCycleRatingFilter).toHaveBeenCalledTimes(1);
+    });
+
+    test('describes the next filter and marks itself selected when active', () => {
+      const props = createDefaultProps();
+      const { getByTestId } = render(
+        <FilterBar {...props} ratingFilter="rated" onCycleRatingFilter={jest.fn()} />
+      );
+      const button = getByTestId('filter-rating-button');
+      expect(button.props.accessibilityState).toEqual({ selected: true });
+      expect(button.props.accessibilityLabel).toBe(
+        'Rating filter: Rated. Double tap to show 3 stars and up.'
+      );
+    });
+
+    test('sort "ABV" label describes next state as Rating when ratings are shown', () => {
+      const props = createDefaultProps();
+      const { getByTestId } = render(
+        <FilterBar {...props} sortBy="abv" ratingFilter="all" onCycleRatingFilter={jest.fn()} />
+      );
+      expect(getByTestId('sort-toggle-button').props.accessibilityLabel).toBe(
+        'Sort by ABV. Double tap to sort by Rating.'
+      );
+    });
+  });
+
+  describe('Style family filter', () => {
+    const counts = new Map([
+      ['IPA', 12],
+      ['Stout', 3],
+    ] as const);
+
+    test('is hidden unless counts and a toggle are provided', () => {
+      const props = createDefaultProps();
+      const { queryByTestId } = render(<FilterBar {...props} />);
+      expect(queryByTestId('filter-style-button')).toBeNull();
+    });
+
+    test('opens a picker listing families that have beers, with counts', () => {
+      const props = createDefaultProps();
+      const { getByTestId, getByText, queryByTestId } = render(
+        <FilterBar {...props} styleFamilyCounts={counts} onToggleStyleFamily={jest.fn()} />
+      );
+
+      expect(queryByTestId('style-family-panel')).toBeNull();
+      fireEvent.press(getByTestId('filter-style-button'));
+
+      expect(getByText('IPA 12')).toBeTruthy();
+      expect(getByText('STOUT 3')).toBeTruthy();
+      expect(queryByTestId('style-family-Sour')).toBeNull();
+    });
+
+    test('toggles a family and shows how many are selected', () => {
+      const props = createDefaultProps();
+      const onToggleStyleFamily = jest.fn();
+      const { getByTestId, getByText } = render(
+        <FilterBar
+          {...props}
+          styleFamilyCounts={counts}
+          selectedStyleFamilies={new Set(['Stout', 'Sour'] as const)}
+          onToggleStyleFamily={onToggleStyleFamily}
+          onClearStyleFamilies={jest.fn()}
+        />
+      );
+
+      expect(getByText('STYLE 2')).toBeTruthy();
+      fireEvent.press(getByTestId('filter-style-button'));
+
+      // Selected but now empty, so it stays in the picker to be deselected
+      expect(getByText('SOUR 0')).toBeTruthy();
+      expect(getByTestId('style-family-Stout').props.accessibilityState).toEqual({
+        checked: true,
+      });
+
+      fireEvent.press(getByTestId('style-family-IPA'));
+      expect(onToggleStyleFamily).toHaveBeenCalledWith('IPA');
+    });
+
+    test('clears the selection', () => {
+      const props = createDefaultProps();
+      const onClearStyleFamilies = jest.fn();
+      const { getByTestId } = render(
+        <FilterBar
+          {...props}
+          styleFamilyCounts={counts}
+          selectedStyleFamilies={new Set(['IPA'] as const)}
+          onToggleStyleFamily={jest.fn()}
+          onClearStyleFamilies={onClearStyleFamilies}
+        />
+      );
+
+      fireEvent.press(getByTestId('filter-style-button'));
+      fireEvent.press(getByTestId('style-family-clear'));
+
+      expect(onClearStyleFamilies).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Saved presets', () => {
+    const strongDrafts = {
+      containerFilter: 'draft',
+      ratingFilter: 'all',
+      sortBy: 'abv',
+      sortDirection: 'desc',
+      searchText: 'abv:>8',
+      styleFamilies: [],
+    } as const;
+
+    const createPresets = (
+      overrides: Partial<UseFilterPresetsResult> = {}
+    ): UseFilterPresetsResult => ({
+      presets: [
+        {
+          list: 'allbeers',
+          name: 'Strong drafts',
+          state: { ...strongDrafts, styleFamilies: [] },
+          updated_at: 1,
+        },
+      ],
+      activePresetName: null,
+      savePreset: jest.fn().mockResolvedValue(undefined),
+      deletePreset: jest.fn().mockResolvedValue(undefined),
+      exportPresets: jest.fn(() => '{}'),
+      importPresets: jest.fn().mockResolvedValue(1),
+      error: null,
+      ...overrides,
+    });
+
+    test('is hidden unless presets and an apply handler are provided', () => {
+      const props = createDefaultProps();
+      const { queryByTestId } = render(<FilterBar {...props} presets={createPresets()} />);
+      expect(queryByTestId('filter-presets-button')).toBeNull();
+    });
+
+    test('names the preset the filters match', () => {
+      const props = createDefaultProps();
+      const { getByTestId } = render(
+        <FilterBar
+          {...props}
+          presets={createPresets({ activePresetName: 'Strong drafts' })}
+          onApplyPreset={jest.fn()}
+        />
+      );
+      expect(getByTestId('filter-presets-label').props.children).toBe('STRONG DRAFTS');
+    });
+
+    test('applies a preset from the panel', () => {
+      const props = createDefaultProps();
+      const onApplyPreset = jest.fn();
+      const { getByTestId, queryByTestId } = render(
+        <FilterBar {...props} presets={createPresets()} onApplyPreset={onApplyPreset} />
+      );
+
+      expect(queryByTestId('filter-preset-panel')).toBeNull();
+      fireEvent.press(getByTestId('filter-presets-button'));
+      fireEvent.press(getByTestId('filter-preset-Strong drafts'));
+
+      expect(onApplyPreset).toHaveBeenCalledWith(strongDrafts);
+    });
+
+    test('saves the current filters under the typed name', async () => {
+      const props = createDefaultProps();
+      const presets = createPresets();
+      const { getByTestId, queryByTestId } = render(
+        <FilterBar {...props} presets={presets} onApplyPreset={jest.fn()} />
+      );
+
+      fireEvent.press(getByTestId('filter-presets-button'));
+      fireEvent.press(getByTestId('filter-preset-save'));
+      fireEvent.changeText(getByTestId('filter-preset-input'), 'Hazy ones');
+      await act(async () => {
+        fireEvent.press(getByTestId('filter-preset-confirm'));
+      });
+
+      expect(presets.savePreset).toHaveBeenCalledWith('Hazy ones');
+      expect(queryByTestId('filter-preset-input')).toBeNull();
+    });
+
+    test('shows why an import was rejected', async () => {
+      const props = createDefaultProps();
+      jest.spyOn(console, 'warn').mockImplementation();
+      const presets = createPresets({
+        importPresets: jest
+          .fn()
+          .mockRejectedValue(new Error('That is not a filter preset export.')),
+      });
+      const { getByTestId, getByText } = render(
+        <FilterBar {...props} presets={presets} onApplyPreset={jest.fn()} />
+      );
+
+      fireEvent.press(getByTestId('filter-presets-button'));
+      fireEvent.press(getByTestId('filter-preset-import'));
+      fireEvent.changeText(getByTestId('filter-preset-input'), 'hello');
+      await act(async () => {
+        fireEvent.press(getByTestId('filter-preset-confirm'));
+      });
+
+      expect(getByText('That is not a filter preset export.')).toBeTruthy();
+    });
+
+    test('closes the style picker when the presets open', () => {
+      const props = createDefaultProps();
+      const { getByTestId, queryByTestId } = render(
+        <FilterBar
+          {...props}
+          styleFamilyCounts={new Map([['IPA', 2]] as const)}
+          onToggleStyleFamily={jest.fn()}
+          presets={createPresets()}
+          onApplyPreset={jest.fn()}
+        />
+      );
+
+      fireEvent.press(getByTestId('filter-style-button'));
+      fireEvent.press(getByTestId('filter-presets-button'));
+
+      expect(queryByTestId('style-family-panel')).toBeNull();
+      expect(getByTestId('filter-preset-panel')).toBeTruthy();
+    });
+  });
+
   describe('Layout', () => {
     test('all buttons render as chip style', () => {
       const props = createDefaultProps();
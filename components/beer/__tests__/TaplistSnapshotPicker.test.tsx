@@ -0,0 +1,80 @@
+import React from 'react';
+import { render, fireEvent } from '@testing-library/react-native';
+
+import { TaplistSnapshotPicker, formatSnapshotTime } from '../TaplistSnapshotPicker';
+import { TaplistSnapshot } from '@/src/utils/taplistSnapshot';
+
+jest.mock('@/hooks/useColorScheme', () => ({
+  useColorScheme: jest.fn(() => 'light'),
+}));
+
+const snapshots: TaplistSnapshot[] = [
+  {
+    id: 2,
+    store_id: '13879',
+    fetched_at: Date.UTC(2026, 9, 3, 18, 40),
+    source: 'stale',
+    etag: null,
+    beer_count: 112,
+  },
+  {
+    id: 1,
+    store_id: '13879',
+    fetched_at: Date.UTC(2026, 9, 1, 12, 5),
+    source: 'fallback',
+    etag: null,
+    beer_count: 108,
+  },
+];
+
+describe('TaplistSnapshotPicker', () => {
+  it('shows the current taplist until a snapshot is chosen', () => {
+    const { getByText } = render(
+      <TaplistSnapshotPicker snapshots={snapshots} selected={null} onSelect={jest.fn()} />
+    );
+
+    expect(getByText('AS OF NOW')).toBeTruthy();
+  });
+
+  it('names the snapshot being browsed', () => {
+    const { getByText } = render(
+      <TaplistSnapshotPicker snapshots={snapshots} selected={snapshots[1]} onSelect={jest.fn()} />
+    );
+
+    expect(
+      getByText(`AS OF ${formatSnapshotTime(snapshots[1].fetched_at).toUpperCase()}`)
+    ).toBeTruthy();
+  });
+
+  it('lists the snapshots with their size and source when opened', () => {
+    const onOpen = jest.fn();
+    const { getByTestId, getByText } = render(
+      <TaplistSnapshotPicker
+        snapshots={snapshots}
+        selected={null}
+        onSelect={jest.fn()}
+        onOpen={onOpen}
+      />
+    );
+
+    fireEvent.press(getByTestId('taplist-snapshot-chip'));
+
+    expect(onOpen).toHaveBeenCalledTimes(1);
+    expect(getByText('112 beers · STALE')).toBeTruthy();
+    expect(getByText('108 beers · DIRECT')).toBeTruthy();
+  });
+
+  it('passes the chosen snapshot, or null for now', () => {
+    const onSelect = jest.fn();
+    const { getByTestId } = render(
+      <TaplistSnapshotPicker snapshots={snapshots} selected={snapshots[0]} onSelect={onSelect} />
+    );
+
+    fireEvent.press(getByTestId('taplist-snapshot-chip'));
+    fireEvent.press(getByTestId('taplist-snapshot-1'));
+    fireEvent.press(getByTestId('taplist-snapshot-chip'));
+    fireEvent.press(getByTestId('taplist-snapshot-now'));
+
+    expect(onSelect.mock.calls).toEqual([[1], [null]]);
+  });
+});
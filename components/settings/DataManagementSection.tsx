@@ -1,6 +1,7 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet, ViewStyle } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
+import { router, Href } from 'expo-router';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { Colors } from '@/constants/Colors';
 import SettingsSection from './SettingsSection';
@@ -66,11 +67,33 @@ export default function DataManagementSection({
             accessoryType={refreshing ? 'loading' : 'none'}
             onPress={handleRefresh}
             disabled={refreshing}
-            showSeparator={showLogin || showHome}
             testID="refresh-all-data-button"
           />
         )}
 
+        {showRefresh && (
+          <SettingsItem
+            icon="clock.arrow.circlepath"
+            title="Refresh Policy"
+            subtitle="How often each list refreshes on its own"
+            accessoryType="chevron"
+            onPress={() => router.push('/screens/refresh-policy' as Href)}
+            testID="refresh-policy-button"
+          />
+        )}
+
+        {showRefresh && (
+          <SettingsItem
+            icon="list.bullet.rectangle"
+            title="Sync History"
+            subtitle="What each recent refresh did"
+            accessoryType="chevron"
+            onPress={() => router.push('/screens/sync-history' as Href)}
+            showSeparator={showLogin || showHome}
+            testID="sync-history-button"
+          />
+        )}
+
         {showLogin && (
           <SettingsItem
             icon="person.crop.circle"
@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, Alert } from 'react-native';
 import * as Haptics from 'expo-haptics';
+import { router, Href } from 'expo-router';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { Colors } from '@/constants/Colors';
 import { beerRepository } from '@/src/database/repositories/BeerRepository';
@@ -13,6 +14,7 @@ import { clearSessionData } from '@/src/api/sessionManager';
 import { databaseLockManager } from '@/src/database/DatabaseLockManager';
 import SettingsSection from './SettingsSection';
 import SettingsItem from './SettingsItem';
+import EnrichmentDiagnosticsPanel from './EnrichmentDiagnosticsPanel';
 
 function getErrorMessage(error: unknown): string {
   if (error instanceof Error) {
@@ -130,6 +132,14 @@ Tasted Beers: ${lastMyBeersRefresh ? new Date(parseInt(lastMyBeersRefresh)).toLo
     }
   }, []);
 
+  const openAbvReview = useCallback(() => {
+    if (process.env.EXPO_OS === 'ios') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+
+    router.push('/screens/abv-review' as Href);
+  }, []);
+
   const handleCreateMockSession = useCallback(async () => {
     if (process.env.EXPO_OS === 'ios') {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -286,6 +296,16 @@ Tasted Beers: ${lastMyBeersRefresh ? new Date(parseInt(lastMyBeersRefresh)).toLo
           disabled={isLoading}
         />
 
+        <SettingsItem
+          icon="checkmark.circle.fill"
+          title="Review Low-Confidence ABVs"
+          subtitle="Confirm or correct doubtful ABVs for this store"
+          accessoryType="chevron"
+          onPress={openAbvReview}
+          disabled={isLoading}
+          testID="abv-review-button"
+        />
+
         <SettingsItem
           icon="flask.fill"
           title="Create Mock Session"
@@ -298,6 +318,13 @@ Tasted Beers: ${lastMyBeersRefresh ? new Date(parseInt(lastMyBeersRefresh)).toLo
         />
       </SettingsSection>
 
+      <SettingsSection
+        title="Enrichment Diagnostics"
+        footer="Counters from the last 7 days; quota from the Worker's /health"
+      >
+        <EnrichmentDiagnosticsPanel />
+      </SettingsSection>
+
       <SettingsSection title="Danger Zone" footer="Warning: This action cannot be undone.">
         <SettingsItem
           icon="arrow.counterclockwise"
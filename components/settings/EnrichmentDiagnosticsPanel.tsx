@@ -0,0 +1,199 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Share, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors } from '@/constants/Colors';
+import {
+  EnrichmentDiagnostics,
+  formatEnrichmentDiagnostics,
+  formatRatio,
+  loadEnrichmentDiagnostics,
+} from '@/src/services/enrichmentDiagnosticsService';
+import { EnrichmentRequestOutcome } from '@/src/types/enrichment';
+
+const OUTCOME_LABELS: Record<EnrichmentRequestOutcome, string> = {
+  ok: 'OK',
+  cached: 'CACHED',
+  rate_limited: 'RATE LIMITED',
+  failed: 'FAILED',
+  timed_out: 'TIMED OUT',
+};
+
+/**
+ * The enrichment service's last 7 days, for the Developer settings: success
+ * rate, cache hit ratio and fallbacks from the stored counters, the Worker's
+ * quota from /health, and the latest requests with the Worker's request ids.
+ * COPY DIAGNOSTICS shares it all as text for a bug report.
+ */
+export default function EnrichmentDiagnosticsPanel() {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const [diagnostics, setDiagnostics] = useState<EnrichmentDiagnostics | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isMountedRef = useRef(true);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const loaded = await loadEnrichmentDiagnostics();
+      if (isMountedRef.current) setDiagnostics(loaded);
+    } catch (loadError) {
+      console.error('[EnrichmentDiagnosticsPanel] Failed to load diagnostics:', loadError);
+      if (isMountedRef.current) setError('Could not load diagnostics.');
+    } finally {
+      if (isMountedRef.current) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    void load();
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [load]);
+
+  const handleCopy = useCallback(() => {
+    if (!diagnostics) return;
+    Share.share({ message: formatEnrichmentDiagnostics(diagnostics) }).catch(shareError => {
+      console.warn('[EnrichmentDiagnosticsPanel] Failed to share diagnostics:', shareError);
+    });
+  }, [diagnostics]);
+
+  const quota = diagnostics?.quota;
+  const stats: [label: string, value: string][] = diagnostics
+    ? [
+        ['SUCCESS', formatRatio(diagnostics.successRate)],
+        ['CACHE HITS', formatRatio(diagnostics.cacheHitRatio)],
+        ['FALLBACKS', String(diagnostics.totals.fallbackCount)],
+        ['DAILY QUOTA', quota ? `${quota.daily.used}/${quota.daily.limit}` : '—'],
+        ['MONTHLY QUOTA', quota ? `${quota.monthly.used}/${quota.monthly.limit}` : '—'],
+        ['REQUESTS', String(diagnostics.totals.proxyRequests)],
+      ]
+    : [];
+
+  return (
+    <View style={styles.container} testID="enrichment-diagnostics-panel">
+      {diagnostics && (
+        <>
+          <View style={styles.grid}>
+            {stats.map(([label, value]) => (
+              <View key={label} style={[styles.stat, { borderColor: colors.border }]}>
+                <Text style={[styles.statValue, { color: colors.text }]}>{value}</Text>
+                <Text style={[styles.label, { color: colors.textMuted }]}>{label}</Text>
+              </View>
+            ))}
+          </View>
+          {quota && !quota.enabled && (
+            <Text style={[styles.label, { color: colors.warning }]}>
+              Enrichment is disabled on the Worker
+            </Text>
+          )}
+
+          <Text style={[styles.label, { color: colors.textSecondary }]}>RECENT REQUESTS</Text>
+          {diagnostics.recentRequests.length === 0 ? (
+            <Text style={[styles.row, { color: colors.textMuted }]}>None recorded yet</Text>
+          ) : (
+            diagnostics.recentRequests.map((request, index) => (
+              <Text
+                key={`${request.recorded_at}-${index}`}
+                style={[
+                  styles.row,
+                  {
+                    color:
+                      request.outcome === 'ok' || request.outcome === 'cached'
+                        ? colors.textSecondary
+                        : colors.error,
+                  },
+                ]}
+                numberOfLines={1}
+                testID={`enrichment-request-${index}`}
+              >
+                {new Date(request.recorded_at).toLocaleTimeString()} {request.endpoint}{' '}
+                {OUTCOME_LABELS[request.outcome]} {request.request_id ?? '—'}
+              </Text>
+            ))
+          )}
+        </>
+      )}
+
+      {error && <Text style={[styles.row, { color: colors.error }]}>{error}</Text>}
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.button, { borderColor: colors.border }]}
+          onPress={() => void load()}
+          disabled={loading}
+          testID="enrichment-diagnostics-refresh"
+          accessibilityRole="button"
+        >
+          {loading ? (
+            <ActivityIndicator size="small" color={colors.textSecondary} />
+          ) : (
+            <Text style={[styles.buttonText, { color: colors.textSecondary }]}>REFRESH</Text>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, { borderColor: colors.tint, opacity: diagnostics ? 1 : 0.4 }]}
+          onPress={handleCopy}
+          disabled={!diagnostics}
+          testID="enrichment-diagnostics-copy"
+          accessibilityRole="button"
+        >
+          <Text style={[styles.buttonText, { color: colors.tint }]}>COPY DIAGNOSTICS</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    padding: 16,
+    gap: 8,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  stat: {
+    width: '31%',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 8,
+    alignItems: 'center',
+    gap: 2,
+  },
+  statValue: {
+    fontFamily: 'SpaceGrotesk-SemiBold',
+    fontSize: 15,
+  },
+  label: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+    letterSpacing: 1,
+  },
+  row: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 4,
+  },
+  button: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontFamily: 'SpaceGrotesk-SemiBold',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+});
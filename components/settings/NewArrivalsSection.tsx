@@ -0,0 +1,49 @@
+import React from 'react';
+import { View, ViewStyle } from 'react-native';
+import { useNewArrivalWindow } from '@/hooks/useNewArrivals';
+import { NEW_ARRIVAL_WINDOW_OPTIONS } from '@/src/utils/taplistDiff';
+import SettingsSection from './SettingsSection';
+import SettingsItem from './SettingsItem';
+
+type NewArrivalsSectionProps = {
+  style?: ViewStyle;
+  testID?: string;
+};
+
+const formatDays = (days: number): string => (days === 1 ? '1 day' : `${days} days`);
+
+/**
+ * How long a beer keeps its NEW badge after a refresh adds it. Each tap moves
+ * to the next option, wrapping round, as the list filters do.
+ */
+export default function NewArrivalsSection({
+  style,
+  testID = 'new-arrivals-section',
+}: NewArrivalsSectionProps) {
+  const { windowDays, setWindowDays } = useNewArrivalWindow();
+
+  const cycleWindow = () => {
+    const index = NEW_ARRIVAL_WINDOW_OPTIONS.findIndex(days => days === windowDays);
+    const next = NEW_ARRIVAL_WINDOW_OPTIONS[(index + 1) % NEW_ARRIVAL_WINDOW_OPTIONS.length];
+    setWindowDays(next).catch(error => {
+      console.error('Failed to save NEW badge window:', error);
+    });
+  };
+
+  return (
+    <View style={style} testID={testID}>
+      <SettingsSection title="New Arrivals">
+        <SettingsItem
+          icon="sparkles"
+          title="Show NEW badge for"
+          subtitle="Beers added to the taplist within this time"
+          accessoryType="value"
+          value={formatDays(windowDays)}
+          onPress={cycleWindow}
+          showSeparator={false}
+          testID="new-arrival-window-item"
+        />
+      </SettingsSection>
+    </View>
+  );
+}
@@ -0,0 +1,134 @@
+import React from 'react';
+import { View, ViewStyle } from 'react-native';
+import { useRefreshPolicy } from '@/hooks/useRefreshPolicy';
+import {
+  FOCUS_THROTTLE_MINUTE_OPTIONS,
+  MAX_AGE_HOUR_OPTIONS,
+  RAPID_REFRESH_WINDOW_SECOND_OPTIONS,
+  REFRESH_SOURCES,
+  REFRESH_SOURCE_TITLES,
+} from '@/src/utils/refreshPolicy';
+import SettingsSection from './SettingsSection';
+import SettingsItem from './SettingsItem';
+
+type RefreshPolicySettingsProps = {
+  style?: ViewStyle;
+  testID?: string;
+};
+
+const plural = (count: number, unit: string): string =>
+  count === 1 ? `1 ${unit}` : `${count} ${unit}s`;
+
+/** The option after `current`, wrapping round; the first if `current` is not one */
+const nextOption = (options: readonly number[], current: number): number =>
+  options[(options.indexOf(current) + 1) % options.length];
+
+/**
+ * The refresh policy, one section per source. Each tap on a value moves to the
+ * next option, wrapping round, as the NEW badge window does.
+ */
+export default function RefreshPolicySettings({
+  style,
+  testID = 'refresh-policy-settings',
+}: RefreshPolicySettingsProps) {
+  const { policy, loading, updateSource, setRapidRefreshWindow, reset } = useRefreshPolicy();
+
+  const saveFailed = (error: unknown) => {
+    console.error('Failed to save refresh policy:', error);
+  };
+
+  return (
+    <View style={style} testID={testID}>
+      {REFRESH_SOURCES.map(source => {
+        const sourcePolicy = policy[source];
+        return (
+          <SettingsSection
+            key={source}
+            title={REFRESH_SOURCE_TITLES[source]}
+            footer={
+              source === 'allBeers'
+                ? 'The taplist is the largest download. A manual refresh always downloads it.'
+                : undefined
+            }
+          >
+            <SettingsItem
+              icon="clock.arrow.circlepath"
+              title="Refresh when older than"
+              subtitle="Checked when a tab opens"
+              accessoryType="value"
+              value={plural(sourcePolicy.maxAgeHours, 'hour')}
+              onPress={() =>
+                updateSource(source, {
+                  maxAgeHours: nextOption(MAX_AGE_HOUR_OPTIONS, sourcePolicy.maxAgeHours),
+                }).catch(saveFailed)
+              }
+              disabled={loading}
+              testID={`refresh-policy-${source}-max-age`}
+            />
+            <SettingsItem
+              icon="timer"
+              title="Check at most every"
+              subtitle="However often you switch tabs"
+              accessoryType="value"
+              value={plural(sourcePolicy.focusThrottleMinutes, 'minute')}
+              onPress={() =>
+                updateSource(source, {
+                  focusThrottleMinutes: nextOption(
+                    FOCUS_THROTTLE_MINUTE_OPTIONS,
+                    sourcePolicy.focusThrottleMinutes
+                  ),
+                }).catch(saveFailed)
+              }
+              disabled={loading}
+              testID={`refresh-policy-${source}-throttle`}
+            />
+            <SettingsItem
+              icon="wifi"
+              title="Wait for Wi-Fi"
+              subtitle="Skip automatic refreshes on cellular data"
+              accessoryType="switch"
+              switchValue={sourcePolicy.onMetered === 'wait-for-wifi'}
+              onSwitchChange={waitForWifi =>
+                updateSource(source, {
+                  onMetered: waitForWifi ? 'wait-for-wifi' : 'refresh',
+                }).catch(saveFailed)
+              }
+              disabled={loading}
+              showSeparator={false}
+              testID={`refresh-policy-${source}-metered`}
+            />
+          </SettingsSection>
+        );
+      })}
+
+      <SettingsSection
+        title="Manual Refresh"
+        footer="Refreshing twice within this time downloads the whole taplist again instead of asking whether it changed."
+      >
+        <SettingsItem
+          icon="arrow.clockwise"
+          title="Double-refresh window"
+          accessoryType="value"
+          value={plural(policy.rapidRefreshWindowSeconds, 'second')}
+          onPress={() =>
+            setRapidRefreshWindow(
+              nextOption(RAPID_REFRESH_WINDOW_SECOND_OPTIONS, policy.rapidRefreshWindowSeconds)
+            ).catch(saveFailed)
+          }
+          disabled={loading}
+          testID="refresh-policy-rapid-window"
+        />
+        <SettingsItem
+          icon="arrow.counterclockwise"
+          title="Reset to Defaults"
+          accessoryType="none"
+          onPress={() => reset().catch(saveFailed)}
+          disabled={loading}
+          destructive
+          showSeparator={false}
+          testID="refresh-policy-reset"
+        />
+      </SettingsSection>
+    </View>
+  );
+}
@@ -0,0 +1,421 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Modal,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+  ViewStyle,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors } from '@/constants/Colors';
+import { StoreDirectoryItem, useStoreDirectory } from '@/hooks/useStoreDirectory';
+import { BUNDLED_STORE_DIRECTORY } from '@/src/utils/storeDirectory';
+import SettingsSection from './SettingsSection';
+import SettingsItem from './SettingsItem';
+
+type StoreSectionProps = {
+  style?: ViewStyle;
+  testID?: string;
+};
+
+type EntryDraft = {
+  store_id: string;
+  name: string;
+  city: string;
+  state: string;
+  /** Whether the store id is fixed, as it is when correcting a listed store */
+  editing: boolean;
+};
+
+const EMPTY_DRAFT: EntryDraft = { store_id: '', name: '', city: '', state: '', editing: false };
+
+const formatCache = (store: StoreDirectoryItem): string =>
+  store.cachedBeerCount === null || store.cachedAt === null
+    ? 'Not cached'
+    : `${store.cachedBeerCount} beers cached ${new Date(store.cachedAt).toLocaleDateString(
+        'en-US',
+        { month: 'short', day: 'numeric' }
+      )}`;
+
+/**
+ * The store the app shows taplists for, and a picker to switch it. A store
+ * switched away from keeps its taplist, so switching back shows it at once.
+ */
+export default function StoreSection({ style, testID = 'store-section' }: StoreSectionProps) {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const {
+    stores,
+    activeStoreId,
+    switchStore,
+    refreshDirectory,
+    saveEntry,
+    removeEntry,
+    switchingTo,
+    refreshing,
+    error,
+  } = useStoreDirectory();
+  const [pickerVisible, setPickerVisible] = useState(false);
+  const [draft, setDraft] = useState<EntryDraft | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const activeStore = stores.find(store => store.store_id === activeStoreId);
+  const busy = switchingTo !== null || refreshing;
+
+  const handleSwitch = (storeId: string) => {
+    setActionError(null);
+    switchStore(storeId)
+      .then(() => setPickerVisible(false))
+      .catch(switchError => {
+        console.error('[StoreSection] Failed to switch store:', switchError);
+        setActionError(
+          switchError instanceof Error ? switchError.message : 'Could not switch stores.'
+        );
+      });
+  };
+
+  const handleSave = () => {
+    if (!draft) {
+      return;
+    }
+    setActionError(null);
+    const existing = stores.find(store => store.store_id === draft.store_id.trim());
+    saveEntry({
+      store_id: draft.store_id,
+      name: draft.name,
+      city: draft.city,
+      state: draft.state,
+      latitude: existing?.latitude ?? null,
+      longitude: existing?.longitude ?? null,
+    })
+      .then(() => setDraft(null))
+      .catch(saveError => {
+        console.error('[StoreSection] Failed to save store:', saveError);
+        setActionError(
+          saveError instanceof Error ? saveError.message : 'Could not save the store.'
+        );
+      });
+  };
+
+  const handleRevert = (storeId: string) => {
+    setActionError(null);
+    removeEntry(storeId)
+      .then(() => setDraft(null))
+      .catch(removeError => {
+        console.error('[StoreSection] Failed to remove store entry:', removeError);
+        setActionError('Could not remove the store entry.');
+      });
+  };
+
+  const startEdit = (store: StoreDirectoryItem) => {
+    setActionError(null);
+    setDraft({
+      store_id: store.store_id,
+      name: store.name,
+      city: store.city ?? '',
+      state: store.state ?? '',
+      editing: true,
+    });
+  };
+
+  const renderStore = ({ item }: { item: StoreDirectoryItem }) => {
+    const isActive = item.store_id === activeStoreId;
+    return (
+      <View style={[styles.storeRow, { borderColor: colors.border }]}>
+        <TouchableOpacity
+          style={styles.storeMain}
+          onPress={() => handleSwitch(item.store_id)}
+          disabled={busy || isActive}
+          testID={`store-picker-${item.store_id}`}
+          accessibilityRole="button"
+          accessibilityState={{ selected: isActive }}
+          accessibilityLabel={`Switch to ${item.name}`}
+        >
+          <Text style={[styles.storeName, { color: colors.text }]} numberOfLines={1}>
+            {item.name}
+          </Text>
+          <Text style={[styles.meta, { color: colors.textSecondary }]} numberOfLines={1}>
+            {[[item.city, item.state].filter(Boolean).join(', '), `#${item.store_id}`]
+              .filter(Boolean)
+              .join(' · ')}
+          </Text>
+          <Text style={[styles.meta, { color: colors.textMuted }]}>
+            {isActive ? 'Active store' : formatCache(item)}
+          </Text>
+        </TouchableOpacity>
+        {switchingTo === item.store_id ? (
+          <ActivityIndicator size="small" color={colors.tint} />
+        ) : isActive ? (
+          <Ionicons name="checkmark" size={20} color={colors.tint} />
+        ) : null}
+        <TouchableOpacity
+          onPress={() => startEdit(item)}
+          disabled={busy}
+          hitSlop={8}
+          testID={`store-edit-${item.store_id}`}
+          accessibilityRole="button"
+          accessibilityLabel={`Edit ${item.name}`}
+        >
+          <Ionicons name="create-outline" size={18} color={colors.textMuted} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderForm = (entry: EntryDraft) => {
+    const listed = stores.find(store => store.store_id === entry.store_id);
+    const field = (
+      key: 'store_id' | 'name' | 'city' | 'state',
+      placeholder: string,
+      extra?: Partial<React.ComponentProps<typeof TextInput>>
+    ) => (
+      <TextInput
+        style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+        placeholder={placeholder}
+        placeholderTextColor={colors.textMuted}
+        value={entry[key]}
+        onChangeText={text => setDraft({ ...entry, [key]: text })}
+        testID={`store-form-${key}`}
+        {...extra}
+      />
+    );
+
+    return (
+      <View style={styles.form} testID="store-form">
+        {field('store_id', 'Store ID', { keyboardType: 'number-pad', editable: !entry.editing })}
+        {field('name', 'Name')}
+        <View style={styles.formRow}>
+          <View style={styles.flex}>{field('city', 'City')}</View>
+          <View style={styles.stateField}>
+            {field('state', 'State', { autoCapitalize: 'characters' })}
+          </View>
+        </View>
+        <View style={styles.formRow}>
+          <TouchableOpacity
+            style={[styles.button, styles.flex, { backgroundColor: colors.tint }]}
+            onPress={handleSave}
+            disabled={entry.store_id.trim() === '' || entry.name.trim() === ''}
+            testID="store-form-save"
+            accessibilityRole="button"
+          >
+            <Text style={[styles.buttonText, { color: colors.textOnPrimary }]}>SAVE</Text>
+          </TouchableOpacity>
+          {entry.editing && listed && listed.source !== 'bundled' && (
+            <TouchableOpacity
+              style={[styles.button, styles.outlineButton, { borderColor: colors.tint }]}
+              onPress={() => handleRevert(entry.store_id)}
+              testID="store-form-revert"
+              accessibilityRole="button"
+            >
+              <Text style={[styles.buttonText, { color: colors.tint }]}>
+                {BUNDLED_STORE_DIRECTORY.some(store => store.store_id === listed.store_id)
+                  ? 'REVERT'
+                  : 'REMOVE'}
+              </Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={[styles.button, styles.outlineButton, { borderColor: colors.border }]}
+            onPress={() => setDraft(null)}
+            testID="store-form-cancel"
+            accessibilityRole="button"
+          >
+            <Text style={[styles.buttonText, { color: colors.textSecondary }]}>CANCEL</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={style} testID={testID}>
+      <SettingsSection
+        title="Store"
+        footer="Each store keeps the taplist it last had, so switching back works offline."
+      >
+        <SettingsItem
+          icon="mappin.and.ellipse"
+          title="Active store"
+          subtitle="Switch the taplist the app shows"
+          accessoryType="value"
+          value={activeStore?.name ?? (activeStoreId ? `#${activeStoreId}` : 'None')}
+          onPress={() => setPickerVisible(true)}
+          showSeparator={false}
+          testID="active-store-item"
+        />
+      </SettingsSection>
+
+      <Modal
+        visible={pickerVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setPickerVisible(false)}
+      >
+        <View style={styles.overlay}>
+          <View
+            style={[
+              styles.sheet,
+              { backgroundColor: colors.backgroundSecondary, borderColor: colors.border },
+            ]}
+            testID="store-picker"
+          >
+            <View style={styles.sheetHeader}>
+              <Text style={[styles.sheetTitle, { color: colors.text }]}>Stores</Text>
+              <TouchableOpacity
+                onPress={() => setPickerVisible(false)}
+                hitSlop={8}
+                testID="store-picker-close"
+                accessibilityRole="button"
+                accessibilityLabel="Close"
+              >
+                <Ionicons name="close" size={20} color={colors.tint} />
+              </TouchableOpacity>
+            </View>
+
+            {(actionError ?? error) && (
+              <Text style={[styles.meta, { color: colors.error }]} testID="store-picker-error">
+                {actionError ?? error}
+              </Text>
+            )}
+
+            {draft ? (
+              renderForm(draft)
+            ) : (
+              <View style={styles.formRow}>
+                <TouchableOpacity
+                  style={[
+                    styles.button,
+                    styles.outlineButton,
+                    styles.flex,
+                    { borderColor: colors.tint },
+                  ]}
+                  onPress={() => {
+                    setActionError(null);
+                    setDraft(EMPTY_DRAFT);
+                  }}
+                  disabled={busy}
+                  testID="store-add-button"
+                  accessibilityRole="button"
+                >
+                  <Text style={[styles.buttonText, { color: colors.tint }]}>ADD STORE</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[
+                    styles.button,
+                    styles.outlineButton,
+                    styles.flex,
+                    { borderColor: colors.tint },
+                  ]}
+                  onPress={() => void refreshDirectory()}
+                  disabled={busy}
+                  testID="store-directory-refresh"
+                  accessibilityRole="button"
+                >
+                  {refreshing ? (
+                    <ActivityIndicator size="small" color={colors.tint} />
+                  ) : (
+                    <Text style={[styles.buttonText, { color: colors.tint }]}>
+                      REFRESH DIRECTORY
+                    </Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            )}
+
+            <FlatList
+              data={stores}
+              keyExtractor={store => store.store_id}
+              renderItem={renderStore}
+              testID="store-picker-list"
+            />
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  sheet: {
+    maxHeight: '85%',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    borderWidth: 1,
+    padding: 18,
+    gap: 10,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sheetTitle: {
+    fontFamily: 'SpaceGrotesk-Bold',
+    fontSize: 18,
+  },
+  storeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  storeMain: {
+    flex: 1,
+    gap: 2,
+  },
+  storeName: {
+    fontFamily: 'SpaceGrotesk-SemiBold',
+    fontSize: 15,
+  },
+  meta: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+  },
+  form: {
+    gap: 8,
+  },
+  formRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  flex: {
+    flex: 1,
+  },
+  stateField: {
+    width: 70,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontFamily: 'SpaceMono',
+    fontSize: 12,
+  },
+  button: {
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  outlineButton: {
+    borderWidth: 1,
+  },
+  buttonText: {
+    fontFamily: 'SpaceGrotesk-SemiBold',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+});
@@ -0,0 +1,203 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { Colors } from '@/constants/Colors';
+import { clearSyncHistory, getSyncHistory } from '@/src/services/refreshLogService';
+import {
+  REFRESH_TRIGGER_TITLES,
+  RefreshLogEntry,
+  RefreshRunOutcome,
+  describeRefreshLogSource,
+  formatRefreshDuration,
+  refreshRunOutcome,
+} from '@/src/utils/refreshLog';
+import { REFRESH_SOURCE_TITLES } from '@/src/utils/refreshPolicy';
+
+const OUTCOME_LABELS: Record<RefreshRunOutcome, string> = {
+  succeeded: 'OK',
+  partial: 'PARTIAL',
+  failed: 'FAILED',
+  skipped: 'SKIPPED',
+};
+
+/**
+ * The latest refresh runs, newest first: what started each, how long it took,
+ * and what each source did — rows stored, a 304, or the error it failed with.
+ */
+export default function SyncHistoryList() {
+  const colorScheme = useColorScheme() ?? 'dark';
+  const colors = Colors[colorScheme];
+  const [entries, setEntries] = useState<RefreshLogEntry[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const isMountedRef = useRef(true);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const loaded = await getSyncHistory();
+      if (isMountedRef.current) setEntries(loaded);
+    } catch (loadError) {
+      console.error('[SyncHistoryList] Failed to load sync history:', loadError);
+      if (isMountedRef.current) setError('Could not load sync history.');
+    } finally {
+      if (isMountedRef.current) setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    void load();
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, [load]);
+
+  const handleClear = useCallback(() => {
+    Alert.alert('Clear Sync History', 'Forget every recorded refresh?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Clear',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await clearSyncHistory();
+            if (isMountedRef.current) setEntries([]);
+          } catch (clearError) {
+            console.error('[SyncHistoryList] Failed to clear sync history:', clearError);
+            if (isMountedRef.current) setError('Could not clear sync history.');
+          }
+        },
+      },
+    ]);
+  }, []);
+
+  const outcomeColors: Record<RefreshRunOutcome, string> = {
+    succeeded: colors.success,
+    partial: colors.warning,
+    failed: colors.error,
+    skipped: colors.textMuted,
+  };
+
+  return (
+    <View style={styles.container} testID="sync-history-list">
+      {entries !== null && entries.length === 0 && (
+        <Text style={[styles.row, { color: colors.textMuted }]}>No refreshes recorded yet</Text>
+      )}
+
+      {entries?.map(entry => {
+        const outcome = refreshRunOutcome(entry.sources);
+        return (
+          <View
+            key={entry.id}
+            style={[styles.entry, { borderColor: colors.border }]}
+            testID={`sync-history-entry-${entry.id}`}
+          >
+            <View style={styles.entryHeader}>
+              <Text style={[styles.title, { color: colors.text }]}>
+                {REFRESH_TRIGGER_TITLES[entry.trigger]}
+              </Text>
+              <Text style={[styles.label, { color: outcomeColors[outcome] }]}>
+                {OUTCOME_LABELS[outcome]}
+              </Text>
+            </View>
+            <Text style={[styles.label, { color: colors.textMuted }]}>
+              {new Date(entry.started_at).toLocaleString()} ·{' '}
+              {formatRefreshDuration(entry.duration_ms)}
+            </Text>
+            {entry.sources.map(source => (
+              <Text
+                key={source.source}
+                style={[
+                  styles.row,
+                  { color: source.status === 'failed' ? colors.error : colors.textSecondary },
+                ]}
+                testID={`sync-history-entry-${entry.id}-${source.source}`}
+              >
+                {REFRESH_SOURCE_TITLES[source.source]}: {describeRefreshLogSource(source)}
+              </Text>
+            ))}
+          </View>
+        );
+      })}
+
+      {error && <Text style={[styles.row, { color: colors.error }]}>{error}</Text>}
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.button, { borderColor: colors.border }]}
+          onPress={() => void load()}
+          disabled={loading}
+          testID="sync-history-refresh"
+          accessibilityRole="button"
+        >
+          {loading ? (
+            <ActivityIndicator size="small" color={colors.textSecondary} />
+          ) : (
+            <Text style={[styles.buttonText, { color: colors.textSecondary }]}>RELOAD</Text>
+          )}
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.button,
+            { borderColor: colors.error, opacity: entries && entries.length > 0 ? 1 : 0.4 },
+          ]}
+          onPress={handleClear}
+          disabled={!entries || entries.length === 0}
+          testID="sync-history-clear"
+          accessibilityRole="button"
+        >
+          <Text style={[styles.buttonText, { color: colors.error }]}>CLEAR HISTORY</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+  },
+  entry: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    gap: 4,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontFamily: 'SpaceGrotesk-SemiBold',
+    fontSize: 15,
+  },
+  label: {
+    fontFamily: 'SpaceMono',
+    fontSize: 10,
+    letterSpacing: 1,
+  },
+  row: {
+    fontFamily: 'SpaceMono',
+    fontSize: 11,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 4,
+  },
+  button: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontFamily: 'SpaceGrotesk-SemiBold',
+    fontSize: 12,
+    letterSpacing: 1,
+  },
+});
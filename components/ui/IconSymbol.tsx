@@ -19,6 +19,8 @@ const MAPPING = {
   calendar: 'calendar-today',
   textformat: 'sort-by-alpha',
   percent: 'percent',
+  star: 'star',
+  magnifyingglass: 'search',
   'arrow.up': 'arrow-upward',
   'arrow.down': 'arrow-downward',
 } as Partial<
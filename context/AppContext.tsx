@@ -45,6 +45,8 @@ import type { Reward } from '@/src/types/database';
 import { beerRepository } from '@/src/database/repositories/BeerRepository';
 import { myBeersRepository } from '@/src/database/repositories/MyBeersRepository';
 import { rewardsRepository } from '@/src/database/repositories/RewardsRepository';
+import { DatabaseChange, subscribeToDatabaseChanges } from '@/src/database/changeEvents';
+import { patchRowsById } from '@/src/utils/rowPatch';
 
 /**
  * ==========================================
@@ -67,6 +69,9 @@ import { rewardsRepository } from '@/src/database/repositories/RewardsRepository
  * - Reading from database (getAll, getById, etc.)
  * - UI-only state changes
  * - Using high-level refresh functions (they sync internally)
+ * - beerRepository.updateEnrichmentData() or myBeersRepository's: the
+ *   provider patches the enriched rows itself from the change event the
+ *   repository emits (src/database/changeEvents.ts)
  *
  * Example - Manual Sync Required:
  * ```typescript
@@ -680,6 +685,59 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     };
   }, [loadBeerDataFromDatabase]); // Depends on shared loading function
 
+  /**
+   * Patch rows in place when a repository reports an enrichment, a correction
+   * or an insert, so ABVs and descriptions from a background poll show without
+   * a refresh.
+   *
+   * A `replace` is left to `refreshBeerData`, which every writer's caller runs
+   * per the guidelines above; re-reading the whole table here as well would
+   * load it twice.
+   *
+   * The patch is dropped if a load was claimed after the change, because that
+   * load reads the table after the commit and owns the rows. A load claimed
+   * before the change and settling after the patch can still commit its older
+   * read; the next change or refresh corrects it.
+   */
+  useEffect(() => {
+    let cancelled = false;
+
+    const applyChange = async (change: DatabaseChange): Promise<void> => {
+      if (change.kind === 'replace') return;
+
+      const generation = loadGeneration.current;
+      const appendMissing = change.kind === 'insert';
+
+      if (change.table === 'allbeers') {
+        const rows = await beerRepository.getByIds(change.ids);
+        if (cancelled || generation !== loadGeneration.current) return;
+        setBeers(prev => {
+          const allBeers = patchRowsById(prev.allBeers, rows, appendMissing);
+          return allBeers === prev.allBeers ? prev : { ...prev, allBeers };
+        });
+      } else {
+        const rows = await myBeersRepository.getByIds(change.ids);
+        if (cancelled || generation !== loadGeneration.current) return;
+        setBeers(prev => {
+          const tastedBeers = patchRowsById(prev.tastedBeers, rows, appendMissing);
+          return tastedBeers === prev.tastedBeers ? prev : { ...prev, tastedBeers };
+        });
+      }
+    };
+
+    const unsubscribe = subscribeToDatabaseChanges(change => {
+      applyChange(change).catch(error => {
+        // The rows on screen are merely older; the next refresh replaces them
+        console.error(`[AppContext] Failed to apply ${change.kind} on ${change.table}:`, error);
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
   /**
    * Update session state after login
    */
@@ -1,8 +1,11 @@
 /**
  * OperationQueueContext - Queued Operations Management
  *
- * This context provides centralized management for operations that fail due to network issues
- * and automatically retries them when connection is restored.
+ * The React side of the operation queue. Queueing, running and retrying
+ * operations is done by `operationQueueEngine` (see
+ * `src/services/operationQueueEngine.ts`); this provider mirrors its queue
+ * into state for the screens that show it, and asks it to retry everything
+ * waiting when the network connection is restored.
  *
  * Features:
  * - Queue operations when offline
@@ -10,6 +13,8 @@
  * - Manual retry for individual operations
  * - Clear queue
  * - View queued operations
+ * - Resubmit failed operations, with an edited payload if need be
+ * - Read each operation's failed attempts
  * - Exponential backoff for retries
  *
  * @example
@@ -40,22 +45,22 @@ import React, {
   ReactNode,
   useRef,
 } from 'react';
-import { operationQueueRepository } from '@/src/database/repositories/OperationQueueRepository';
-import { getDatabase } from '@/src/database/connection';
 import { useNetwork } from './NetworkContext';
 import {
+  OperationAttempt,
   QueuedOperation,
   OperationType,
-  OperationStatus,
   OperationPayload,
-  OperationExecutionResult,
+  QueueOperationOptions,
   DEFAULT_RETRY_CONFIG,
   RetryConfig,
-  CheckInBeerPayload,
-  isCheckInBeerPayload,
 } from '@/src/types/operationQueue';
-import { checkInBeer } from '@/src/api/beerService';
-import { Beer } from '@/src/types/beer';
+import type {
+  OperationFailureListener,
+  OperationSuccessListener,
+} from '@/src/services/operationQueueEngine';
+import { operationQueueEngine } from '@/src/services/operationQueueService';
+import { isOffline } from '@/src/utils/networkStatus';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -64,19 +69,12 @@ import { Beer } from '@/src/types/beer';
 /**
  * Callback for operation success
  */
-export type OperationSuccessCallback = (
-  operationId: string,
-  operation: QueuedOperation
-) => Promise<void> | void;
+export type OperationSuccessCallback = OperationSuccessListener;
 
 /**
  * Callback for operation failure
  */
-export type OperationFailureCallback = (
-  operationId: string,
-  operation: QueuedOperation,
-  error?: string
-) => Promise<void> | void;
+export type OperationFailureCallback = OperationFailureListener;
 
 /**
  * Context value interface
@@ -89,7 +87,11 @@ export interface OperationQueueContextValue {
   isRetrying: boolean;
 
   /** Queue a new operation (returns operation ID) */
-  queueOperation: (type: OperationType, payload: OperationPayload) => Promise<string>;
+  queueOperation: (
+    type: OperationType,
+    payload: OperationPayload,
+    options?: QueueOperationOptions
+  ) => Promise<string>;
 
   /** Retry all pending operations */
   retryAll: () => Promise<void>;
@@ -103,14 +105,23 @@ export interface OperationQueueContextValue {
   /** Delete a specific operation from queue */
   deleteOperation: (id: string) => Promise<void>;
 
+  /** Put failed operations back in the queue (returns how many were) */
+  resubmitOperations: (ids: readonly string[]) => Promise<number>;
+
+  /** Resubmit a failed operation with a new payload (returns whether it was) */
+  editAndResubmit: (id: string, payload: OperationPayload) => Promise<boolean>;
+
+  /** The failed attempts at some operations, oldest first */
+  getAttempts: (ids: readonly string[]) => Promise<OperationAttempt[]>;
+
   /** Refresh the list of queued operations */
   refresh: () => Promise<void>;
 
-  /** Register a callback for operation success */
-  onOperationSuccess: (callback: OperationSuccessCallback) => void;
+  /** Register a callback for operation success (returns an unsubscribe function) */
+  onOperationSuccess: (callback: OperationSuccessCallback) => () => void;
 
-  /** Register a callback for operation failure (permanent) */
-  onOperationFailure: (callback: OperationFailureCallback) => void;
+  /** Register a callback for operation failure (permanent; returns an unsubscribe function) */
+  onOperationFailure: (callback: OperationFailureCallback) => () => void;
 
   /** Retry configuration */
   retryConfig: RetryConfig;
@@ -140,15 +151,11 @@ export const OperationQueueProvider: React.FC<OperationQueueProviderProps> = ({
   retryConfig: customRetryConfig,
 }) => {
   const [queuedOperations, setQueuedOperations] = useState<QueuedOperation[]>([]);
-  const [isRetrying, setIsRetrying] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(operationQueueEngine.isRetrying);
   const { isConnected, isInternetReachable, details } = useNetwork();
   const retryTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const previousConnectionState = useRef<boolean | null>(null);
 
-  // Callbacks for operation success/failure
-  const successCallbacksRef = useRef<OperationSuccessCallback[]>([]);
-  const failureCallbacksRef = useRef<OperationFailureCallback[]>([]);
-
   // Merge custom retry config with defaults
   const retryConfig = useMemo<RetryConfig>(
     () => ({
@@ -158,333 +165,129 @@ export const OperationQueueProvider: React.FC<OperationQueueProviderProps> = ({
     [customRetryConfig]
   );
 
+  useEffect(() => {
+    operationQueueEngine.setRetryConfig(retryConfig);
+  }, [retryConfig]);
+
   /**
    * Load queued operations from database
    */
   const loadQueuedOperations = useCallback(async () => {
     try {
-      const operations = await operationQueueRepository.getAllOperations();
+      const operations = await operationQueueEngine.getOperations();
       setQueuedOperations(operations);
     } catch (error) {
       console.error('[OperationQueueContext] Error loading queued operations:', error);
     }
   }, []);
 
-  /**
-   * Generate unique operation ID
-   */
-  const generateOperationId = useCallback((): string => {
-    return `op_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-  }, []);
-
   /**
    * Queue a new operation (returns operation ID)
+   *
+   * An operation whose work is already waiting in the queue, or that has the
+   * idempotency key of one still there, is not queued twice; the existing
+   * one's ID is returned instead.
    */
   const queueOperation = useCallback(
-    async (type: OperationType, payload: OperationPayload): Promise<string> => {
+    async (
+      type: OperationType,
+      payload: OperationPayload,
+      options?: QueueOperationOptions
+    ): Promise<string> => {
       try {
-        const operation: QueuedOperation = {
-          id: generateOperationId(),
-          type,
-          payload,
-          timestamp: Date.now(),
-          retryCount: 0,
-          status: OperationStatus.PENDING,
-        };
-
-        // Add to database
-        await operationQueueRepository.addOperation(operation);
-
-        // Reload operations
-        await loadQueuedOperations();
-
-        console.log(`[OperationQueueContext] Queued operation: ${type} (ID: ${operation.id})`);
-
-        return operation.id;
+        return await operationQueueEngine.enqueue(type, payload, options);
       } catch (error) {
         console.error('[OperationQueueContext] Error queueing operation:', error);
         throw error;
       }
     },
-    [generateOperationId, loadQueuedOperations]
+    []
   );
 
   /**
-   * Execute a single operation
+   * Retry a specific operation
    */
-  const executeOperation = useCallback(
-    async (operation: QueuedOperation): Promise<OperationExecutionResult> => {
-      console.log(
-        `[OperationQueueContext] Executing operation: ${operation.type} (${operation.id})`
-      );
-
-      try {
-        switch (operation.type) {
-          case OperationType.CHECK_IN_BEER: {
-            if (!isCheckInBeerPayload(operation.payload)) {
-              throw new Error('Invalid CHECK_IN_BEER payload');
-            }
-
-            const payload = operation.payload as CheckInBeerPayload;
-
-            // Create Beer object for checkInBeer function
-            const beer: Beer = {
-              id: payload.beerId,
-              brew_name: payload.beerName,
-              brewer: '',
-              brewer_loc: '',
-              brew_style: '',
-              brew_container: '',
-              review_count: '',
-              review_rating: '',
-              brew_description: '',
-            };
-
-            const result = await checkInBeer(beer);
-
-            if (result.success) {
-              return { success: true };
-            }
-
-            return {
-              success: false,
-              error: result.error || 'Check-in failed',
-              isRetryable: true,
-            };
-          }
-
-          case OperationType.ADD_TO_REWARD_QUEUE:
-            // TODO: Implement reward redemption
-            console.log('[OperationQueueContext] Reward redemption not yet implemented');
-            return {
-              success: false,
-              error: 'Reward redemption not yet implemented',
-              isRetryable: false,
-            };
-
-          case OperationType.REFRESH_ALL_DATA:
-          case OperationType.REFRESH_REWARDS:
-          case OperationType.UPDATE_PREFERENCES:
-            // TODO: Implement these operation types
-            console.log(`[OperationQueueContext] ${operation.type} not yet implemented`);
-            return {
-              success: false,
-              error: `${operation.type} not yet implemented`,
-              isRetryable: false,
-            };
-
-          default:
-            return {
-              success: false,
-              error: `Unknown operation type: ${operation.type}`,
-              isRetryable: false,
-            };
-        }
-      } catch (error) {
-        console.error(`[OperationQueueContext] Error executing operation ${operation.id}:`, error);
-        return {
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-          isRetryable: true, // Assume retryable unless we know otherwise
-        };
-      }
-    },
+  const retryOperation = useCallback(
+    (id: string): Promise<void> => operationQueueEngine.retryOperation(id),
     []
   );
 
   /**
-   * Calculate delay for exponential backoff
+   * Retry all pending operations
    */
-  const calculateRetryDelay = useCallback(
-    (retryCount: number): number => {
-      const delay = retryConfig.baseDelayMs * Math.pow(2, retryCount);
-      return Math.min(delay, retryConfig.maxDelayMs);
-    },
-    [retryConfig]
-  );
+  const retryAll = useCallback((): Promise<void> => operationQueueEngine.retryAll(), []);
 
   /**
-   * Notify success callbacks
+   * Clear all operations from queue
    */
-  const notifySuccess = useCallback(
-    async (operationId: string, operation: QueuedOperation): Promise<void> => {
-      for (const callback of successCallbacksRef.current) {
-        try {
-          await callback(operationId, operation);
-        } catch (error) {
-          console.error('[OperationQueueContext] Error in success callback:', error);
-        }
-      }
-    },
-    []
-  );
+  const clearQueue = useCallback(async (): Promise<void> => {
+    try {
+      await operationQueueEngine.clearQueue();
+    } catch (error) {
+      console.error('[OperationQueueContext] Error clearing queue:', error);
+      throw error;
+    }
+  }, []);
 
   /**
-   * Notify failure callbacks
+   * Delete a specific operation
    */
-  const notifyFailure = useCallback(
-    async (operationId: string, operation: QueuedOperation, error?: string): Promise<void> => {
-      for (const callback of failureCallbacksRef.current) {
-        try {
-          await callback(operationId, operation, error);
-        } catch (callbackError) {
-          console.error('[OperationQueueContext] Error in failure callback:', callbackError);
-        }
-      }
-    },
-    []
-  );
+  const deleteOperation = useCallback(async (id: string): Promise<void> => {
+    try {
+      await operationQueueEngine.deleteOperation(id);
+    } catch (error) {
+      console.error(`[OperationQueueContext] Error deleting operation ${id}:`, error);
+      throw error;
+    }
+  }, []);
+
+  const isOnline = !isOffline({ isConnected, isInternetReachable });
 
   /**
-   * Retry a specific operation
+   * Put failed operations back in the queue, and run them now if online;
+   * otherwise they run when the connection comes back
    */
-  const retryOperation = useCallback(
-    async (id: string): Promise<void> => {
+  const resubmitOperations = useCallback(
+    async (ids: readonly string[]): Promise<number> => {
       try {
-        const operation = await operationQueueRepository.getOperationById(id);
-
-        if (!operation) {
-          console.warn(`[OperationQueueContext] Operation ${id} not found`);
-          return;
-        }
-
-        // Atomic update with WHERE clause to prevent concurrent retries
-        const db = await getDatabase();
-        const updateResult = await db.runAsync(
-          `UPDATE operation_queue
-           SET status = ?, last_retry_timestamp = ?
-           WHERE id = ? AND status != ?`,
-          [OperationStatus.RETRYING, Date.now(), id, OperationStatus.RETRYING]
-        );
-
-        // If no rows updated, operation is already being retried
-        if (updateResult.changes === 0) {
-          console.log(`[OperationQueueContext] Operation ${id} is already being retried`);
-          return;
+        const resubmitted = await operationQueueEngine.resubmitOperations(ids);
+        if (resubmitted > 0 && isOnline) {
+          retryAll();
         }
-
-        await loadQueuedOperations();
-
-        // Execute the operation
-        const result = await executeOperation(operation);
-
-        if (result.success) {
-          // Success - mark as success and delete
-          await operationQueueRepository.updateStatus(id, OperationStatus.SUCCESS);
-          await operationQueueRepository.deleteOperation(id);
-          console.log(`[OperationQueueContext] Operation ${id} completed successfully`);
-
-          // Notify success callbacks
-          await notifySuccess(id, operation);
-        } else if (result.isRetryable && operation.retryCount < retryConfig.maxRetries) {
-          // Failed but retryable - increment retry count
-          await operationQueueRepository.incrementRetryCount(id, result.error);
-          console.log(
-            `[OperationQueueContext] Operation ${id} failed (retry ${operation.retryCount + 1}/${retryConfig.maxRetries}): ${result.error}`
-          );
-        } else {
-          // Failed permanently - mark as failed
-          await operationQueueRepository.updateStatus(id, OperationStatus.FAILED, result.error);
-          console.error(
-            `[OperationQueueContext] Operation ${id} failed permanently: ${result.error}`
-          );
-
-          // Notify failure callbacks
-          await notifyFailure(id, operation, result.error);
-        }
-
-        // Reload operations
-        await loadQueuedOperations();
+        return resubmitted;
       } catch (error) {
-        console.error(`[OperationQueueContext] Error retrying operation ${id}:`, error);
-
-        // Update status back to PENDING on error
-        try {
-          await operationQueueRepository.updateStatus(
-            id,
-            OperationStatus.PENDING,
-            error instanceof Error ? error.message : 'Unknown error'
-          );
-          await loadQueuedOperations();
-        } catch (updateError) {
-          console.error('[OperationQueueContext] Error updating operation status:', updateError);
-        }
+        console.error('[OperationQueueContext] Error resubmitting operations:', error);
+        throw error;
       }
     },
-    [executeOperation, loadQueuedOperations, retryConfig.maxRetries, notifySuccess, notifyFailure]
+    [isOnline, retryAll]
   );
 
   /**
-   * Retry all pending operations
-   */
-  const retryAll = useCallback(async (): Promise<void> => {
-    if (isRetrying) {
-      console.log('[OperationQueueContext] Retry already in progress');
-      return;
-    }
-
-    try {
-      setIsRetrying(true);
-
-      const pendingOperations = await operationQueueRepository.getPendingOperations();
-
-      if (pendingOperations.length === 0) {
-        console.log('[OperationQueueContext] No pending operations to retry');
-        return;
-      }
-
-      console.log(
-        `[OperationQueueContext] Retrying ${pendingOperations.length} pending operations`
-      );
-
-      // Retry operations sequentially to avoid overwhelming the server
-      for (const operation of pendingOperations) {
-        await retryOperation(operation.id);
-
-        // Add delay between operations based on retry count
-        if (operation.retryCount > 0) {
-          const delay = calculateRetryDelay(operation.retryCount);
-          await new Promise(resolve => setTimeout(resolve, delay));
-        }
-      }
-
-      console.log('[OperationQueueContext] Finished retrying all operations');
-    } catch (error) {
-      console.error('[OperationQueueContext] Error retrying all operations:', error);
-    } finally {
-      setIsRetrying(false);
-    }
-  }, [isRetrying, retryOperation, calculateRetryDelay]);
-
-  /**
-   * Clear all operations from queue
-   */
-  const clearQueue = useCallback(async (): Promise<void> => {
-    try {
-      await operationQueueRepository.clearAll();
-      await loadQueuedOperations();
-      console.log('[OperationQueueContext] Queue cleared');
-    } catch (error) {
-      console.error('[OperationQueueContext] Error clearing queue:', error);
-      throw error;
-    }
-  }, [loadQueuedOperations]);
-
-  /**
-   * Delete a specific operation
+   * Resubmit a failed operation with a new payload, as resubmitOperations
    */
-  const deleteOperation = useCallback(
-    async (id: string): Promise<void> => {
+  const editAndResubmit = useCallback(
+    async (id: string, payload: OperationPayload): Promise<boolean> => {
       try {
-        await operationQueueRepository.deleteOperation(id);
-        await loadQueuedOperations();
-        console.log(`[OperationQueueContext] Operation ${id} deleted`);
+        const resubmitted = await operationQueueEngine.editAndResubmit(id, payload);
+        if (resubmitted && isOnline) {
+          retryAll();
+        }
+        return resubmitted;
       } catch (error) {
-        console.error(`[OperationQueueContext] Error deleting operation ${id}:`, error);
+        console.error(`[OperationQueueContext] Error resubmitting operation ${id}:`, error);
         throw error;
       }
     },
-    [loadQueuedOperations]
+    [isOnline, retryAll]
+  );
+
+  /**
+   * Read the failed attempts at some operations
+   */
+  const getAttempts = useCallback(
+    (ids: readonly string[]): Promise<OperationAttempt[]> => operationQueueEngine.getAttempts(ids),
+    []
   );
 
   /**
@@ -498,43 +301,34 @@ export const OperationQueueProvider: React.FC<OperationQueueProviderProps> = ({
    * Register a callback for operation success
    * Returns an unsubscribe function to clean up the callback
    */
-  const onOperationSuccess = useCallback((callback: OperationSuccessCallback): (() => void) => {
-    successCallbacksRef.current.push(callback);
-
-    // Return unsubscribe function
-    return () => {
-      const index = successCallbacksRef.current.indexOf(callback);
-      if (index > -1) {
-        successCallbacksRef.current.splice(index, 1);
-      }
-    };
-  }, []);
+  const onOperationSuccess = useCallback(
+    (callback: OperationSuccessCallback): (() => void) => operationQueueEngine.onSuccess(callback),
+    []
+  );
 
   /**
    * Register a callback for operation failure (permanent)
    * Returns an unsubscribe function to clean up the callback
    */
-  const onOperationFailure = useCallback((callback: OperationFailureCallback): (() => void) => {
-    failureCallbacksRef.current.push(callback);
-
-    // Return unsubscribe function
-    return () => {
-      const index = failureCallbacksRef.current.indexOf(callback);
-      if (index > -1) {
-        failureCallbacksRef.current.splice(index, 1);
-      }
-    };
-  }, []);
+  const onOperationFailure = useCallback(
+    (callback: OperationFailureCallback): (() => void) => operationQueueEngine.onFailure(callback),
+    []
+  );
 
   // ============================================================================
   // EFFECTS
   // ============================================================================
 
   /**
-   * Load operations on mount
+   * Load operations on mount, and again whenever the engine changes the queue
    */
   useEffect(() => {
     loadQueuedOperations();
+
+    return operationQueueEngine.onChange(() => {
+      setIsRetrying(operationQueueEngine.isRetrying);
+      loadQueuedOperations();
+    });
   }, [loadQueuedOperations]);
 
   /**
@@ -598,6 +392,9 @@ export const OperationQueueProvider: React.FC<OperationQueueProviderProps> = ({
       retryOperation,
       clearQueue,
       deleteOperation,
+      resubmitOperations,
+      editAndResubmit,
+      getAttempts,
       refresh,
       onOperationSuccess,
       onOperationFailure,
@@ -611,6 +408,9 @@ export const OperationQueueProvider: React.FC<OperationQueueProviderProps> = ({
       retryOperation,
       clearQueue,
       deleteOperation,
+      resubmitOperations,
+      editAndResubmit,
+      getAttempts,
       refresh,
       onOperationSuccess,
       onOperationFailure,
@@ -28,6 +28,7 @@ import { myBeersRepository } from '@/src/database/repositories/MyBeersRepository
 import { rewardsRepository } from '@/src/database/repositories/RewardsRepository';
 import { getSessionData } from '@/src/api/sessionManager';
 import { isVisitorMode } from '@/src/api/authService';
+import { emitDatabaseChange } from '@/src/database/changeEvents';
 
 jest.mock('@/src/database/repositories/BeerRepository');
 jest.mock('@/src/database/repositories/MyBeersRepository');
@@ -65,6 +66,7 @@ describe('AppContext', () => {
       <>
         <Text testID="beer-error">{errors.beerError ?? 'none'}</Text>
         <Text testID="beer-count">{String(beers.allBeers.length)}</Text>
+        <Text testID="first-abv">{String(beers.allBeers[0]?.abv ?? 'none')}</Text>
         <Text testID="beer-loading">{String(loading.isLoadingBeers)}</Text>
         <Text testID="reward-error">{errors.rewardError ?? 'none'}</Text>
         <Text testID="reward-count">{String(beers.rewards.length)}</Text>
@@ -606,4 +608,71 @@ describe('AppContext', () => {
       expect(getByTestId('reward-count').props.children).toBe('1');
     });
   });
+
+  describe('database change events', () => {
+    it('should patch the enriched rows in place without reloading the table', async () => {
+      const { getByTestId } = renderProbe();
+
+      await waitFor(() => {
+        expect(getByTestId('first-abv').props.children).toBe('6.5');
+      });
+
+      (beerRepository.getByIds as jest.Mock).mockResolvedValue([{ ...mockBeers[0], abv: '7.1' }]);
+
+      await act(async () => {
+        emitDatabaseChange({ table: 'allbeers', kind: 'enrichment', ids: ['1'] });
+      });
+
+      expect(getByTestId('first-abv').props.children).toBe('7.1');
+      expect(beerRepository.getByIds).toHaveBeenCalledWith(['1']);
+      // The mount's load only
+      expect(beerRepository.getAll).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave a replaced table to refreshBeerData', async () => {
+      const { getByTestId } = renderProbe();
+
+      await waitFor(() => {
+        expect(getByTestId('beer-count').props.children).toBe('1');
+      });
+
+      await act(async () => {
+        emitDatabaseChange({ table: 'allbeers', kind: 'replace', ids: ['1', '2'] });
+      });
+
+      expect(beerRepository.getByIds).not.toHaveBeenCalled();
+      expect(beerRepository.getAll).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drop a patch read before a newer load', async () => {
+      const { getByTestId } = renderProbe();
+
+      await waitFor(() => {
+        expect(getByTestId('first-abv').props.children).toBe('6.5');
+      });
+
+      let resolveRead: (rows: unknown[]) => void = () => {};
+      (beerRepository.getByIds as jest.Mock).mockReturnValue(
+        new Promise(resolve => {
+          resolveRead = resolve;
+        })
+      );
+
+      await act(async () => {
+        emitDatabaseChange({ table: 'allbeers', kind: 'enrichment', ids: ['1'] });
+      });
+
+      // A refresh claims the rows while the patch's read is still out
+      (beerRepository.getAll as jest.Mock).mockResolvedValue([{ ...mockBeers[0], abv: '8.0' }]);
+      await act(async () => {
+        fireEvent.press(getByTestId('refresh'));
+      });
+
+      await act(async () => {
+        resolveRead([{ ...mockBeers[0], abv: '7.1' }]);
+      });
+
+      expect(getByTestId('first-abv').props.children).toBe('8.0');
+    });
+  });
 });
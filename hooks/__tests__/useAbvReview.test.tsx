@@ -0,0 +1,132 @@
+/**
+ * Behaviour tests for useAbvReview, driven through a probe consumer.
+ *
+ * Not `renderHook`, per TESTING.md. AppContext and the correction writer are
+ * stubbed: the list comes from `allBeers`, and a confirmed beer leaves it when
+ * the context hands back the row patched to `manual`.
+ */
+
+import React from 'react';
+import { Pressable, Text } from 'react-native';
+import { act, fireEvent, render } from '@testing-library/react-native';
+import { useAbvReview } from '../useAbvReview';
+import { useAppContext } from '@/context/AppContext';
+import { useBeerCorrections } from '../useBeerCorrections';
+import { BeerWithContainerType } from '@/src/types/beer';
+
+jest.mock('@/context/AppContext', () => ({
+  useAppContext: jest.fn(),
+}));
+
+jest.mock('../useBeerCorrections', () => ({
+  useBeerCorrections: jest.fn(),
+}));
+
+const beer = (
+  id: string,
+  enrichment_confidence: number | null,
+  overrides: Partial<BeerWithContainerType> = {}
+): BeerWithContainerType => ({
+  id,
+  brew_name: `Beer ${id}`,
+  brewer: 'Test Brewery',
+  container_type: 'pint',
+  abv: 6,
+  enrichment_confidence,
+  enrichment_source: 'perplexity',
+  style_family: null,
+  ...overrides,
+});
+
+describe('useAbvReview', () => {
+  const saveCorrection = jest.fn();
+  const saveCorrections = jest.fn();
+  let allBeers: BeerWithContainerType[];
+
+  const Probe = () => {
+    const { beers, selectedIds, toggleSelected, toggleSelectAll, confirmSelected, error } =
+      useAbvReview();
+    return (
+      <>
+        <Text testID="ids">{beers.map(b => b.id).join(',')}</Text>
+        <Text testID="selected">{Array.from(selectedIds).sort().join(',')}</Text>
+        <Text testID="error">{error ?? ''}</Text>
+        <Pressable testID="toggle-b1" onPress={() => toggleSelected('b1')}>
+          <Text>b1</Text>
+        </Pressable>
+        <Pressable testID="select-all" onPress={toggleSelectAll}>
+          <Text>all</Text>
+        </Pressable>
+        <Pressable testID="confirm" onPress={() => void confirmSelected()}>
+          <Text>confirm</Text>
+        </Pressable>
+      </>
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation();
+    allBeers = [
+      beer('b1', 0.5),
+      beer('b2', 0.3),
+      beer('sure', 0.95),
+      beer('mine', 0.2, { enrichment_source: 'manual' }),
+      beer('none', 0.2, { abv: null }),
+    ];
+    (useAppContext as jest.Mock).mockImplementation(() => ({ beers: { allBeers } }));
+    (useBeerCorrections as jest.Mock).mockReturnValue({ saveCorrection, saveCorrections });
+    saveCorrections.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lists only doubtful ABVs, least confident first', () => {
+    const { getByTestId } = render(<Probe />);
+
+    expect(getByTestId('ids').props.children).toBe('b2,b1');
+  });
+
+  it('confirms the ticked beers at the ABV they have', async () => {
+    const { getByTestId } = render(<Probe />);
+
+    fireEvent.press(getByTestId('toggle-b1'));
+    await act(async () => {
+      fireEvent.press(getByTestId('confirm'));
+    });
+
+    expect(saveCorrections).toHaveBeenCalledWith([
+      {
+        beer: allBeers[0],
+        input: { beer_id: 'b1', abv: 6, brew_style: null, brew_description: null },
+      },
+    ]);
+    expect(getByTestId('selected').props.children).toBe('');
+  });
+
+  it('drops the tick of a beer that leaves the list', () => {
+    const { getByTestId, rerender } = render(<Probe />);
+    fireEvent.press(getByTestId('select-all'));
+    expect(getByTestId('selected').props.children).toBe('b1,b2');
+
+    allBeers = [{ ...allBeers[0], enrichment_source: 'manual' }, ...allBeers.slice(1)];
+    rerender(<Probe />);
+
+    expect(getByTestId('ids').props.children).toBe('b2');
+    expect(getByTestId('selected').props.children).toBe('b2');
+  });
+
+  it('reports a failed save', async () => {
+    saveCorrections.mockRejectedValueOnce(new Error('database is locked'));
+    const { getByTestId } = render(<Probe />);
+
+    fireEvent.press(getByTestId('toggle-b1'));
+    await act(async () => {
+      fireEvent.press(getByTestId('confirm'));
+    });
+
+    expect(getByTestId('error').props.children).toBe('database is locked');
+  });
+});
@@ -3,7 +3,10 @@ import {
   applySorting,
   nextContainerFilter,
   nextSortOption,
+  nextRatingFilter,
   defaultDirectionForSort,
+  countStyleFamilies,
+  styleFamilyOf,
 } from '../useBeerFilters';
 import { BeerWithContainerType, BeerfinderWithContainerType } from '@/src/types/beer';
 
@@ -224,6 +227,116 @@ describe('useBeerFilters - Filter Logic', () => {
       });
     });
 
+    describe('Structured search', () => {
+      it('should filter on a single field', () => {
+        const result = applyFilters(mockBeers, {
+          containerFilter: 'all',
+          searchText: 'style:stout',
+        });
+
+        expect(result.map(b => b.id)).toEqual(['2']);
+      });
+
+      it('should filter on an ABV range together with the container filter', () => {
+        const result = applyFilters(mockBeers, {
+          containerFilter: 'draft',
+          searchText: 'abv:5..7',
+        });
+
+        expect(result.map(b => b.id).sort()).toEqual(['1', '3']);
+      });
+
+      it('should exclude beers matching a negated term', () => {
+        const result = applyFilters(mockBeers, {
+          containerFilter: 'all',
+          searchText: '-loc:tx abv:>5',
+        });
+
+        expect(result.map(b => b.id)).not.toContain('1');
+        expect(result.map(b => b.id)).toContain('2');
+      });
+
+      it('should keep filtering on valid terms when another term has an error', () => {
+        const result = applyFilters(mockBeers, {
+          containerFilter: 'all',
+          searchText: 'style:porter abv:lots',
+        });
+
+        expect(result.map(b => b.id)).toEqual(['3']);
+      });
+    });
+
+    describe('Full-text matches', () => {
+      it('should include beers the index matched on their description', () => {
+        const result = applyFilters(mockBeers, {
+          containerFilter: 'all',
+          searchText: 'smooth',
+          fullTextMatches: new Map([['3', -2]]),
+        });
+
+        expect(result.map(b => b.id)).toEqual(['3']);
+      });
+
+      it('should still apply field and negated terms to index matches', () => {
+        const result = applyFilters(mockBeers, {
+          containerFilter: 'all',
+          searchText: 'dark -style:stout',
+          fullTextMatches: new Map([
+            ['2', -3],
+            ['3', -2],
+          ]),
+        });
+
+        expect(result.map(b => b.id)).toEqual(['3']);
+      });
+
+      it('should keep substring matches the index did not return', () => {
+        const result = applyFilters(mockBeers, {
+          containerFilter: 'all',
+          searchText: 'alpha',
+          fullTextMatches: new Map(),
+        });
+
+        expect(result.map(b => b.id)).toEqual(['1']);
+      });
+    });
+
+    describe('Style families', () => {
+      it('should keep only the selected families', () => {
+        const result = applyFilters(mockBeers, {
+          containerFilter: 'all',
+          searchText: '',
+          styleFamilies: new Set(['Stout', 'Porter'] as const),
+        });
+
+        expect(result.map(b => b.id).sort()).toEqual(['2', '3']);
+      });
+
+      it('should treat an empty selection as no style filter', () => {
+        const result = applyFilters(mockBeers, {
+          containerFilter: 'all',
+          searchText: '',
+          styleFamilies: new Set(),
+        });
+
+        expect(result).toBe(mockBeers);
+      });
+
+      it('should prefer the stored family over the raw style', () => {
+        expect(styleFamilyOf({ ...mockBeers[0], style_family: 'Sour' })).toBe('Sour');
+        expect(styleFamilyOf({ ...mockBeers[0], style_family: undefined })).toBe('IPA');
+      });
+
+      it('should count beers per family', () => {
+        const counts = countStyleFamilies(mockBeers);
+
+        // Alpha IPA and Delta Hazy ("Hazy IPA") share the family
+        expect(counts.get('IPA')).toBe(2);
+        expect(counts.get('Stout')).toBe(1);
+        expect(counts.has('Sour')).toBe(false);
+      });
+    });
+
     describe('Early Exit', () => {
       it('should return original array reference when no filters active', () => {
         const result = applyFilters(mockBeers, {
@@ -452,6 +565,34 @@ describe('useBeerFilters - Filter Logic', () => {
       });
     });
 
+    describe('Relevance sort', () => {
+      // Beer 3 is the best match; beer 5 matched only by substring, so is unranked
+      const ranks: ReadonlyMap<string, number> = new Map([
+        ['1', -1.5],
+        ['2', -4.2],
+        ['3', -9.1],
+        ['4', -0.3],
+      ]);
+
+      it('should put the best match first when descending', () => {
+        const result = applySorting(mockBeers, 'relevance', 'desc', 'added_date', undefined, ranks);
+
+        expect(result.map(b => b.id)).toEqual(['3', '2', '1', '4', '5']);
+      });
+
+      it('should put the worst match first when ascending, unranked still last', () => {
+        const result = applySorting(mockBeers, 'relevance', 'asc', 'added_date', undefined, ranks);
+
+        expect(result.map(b => b.id)).toEqual(['4', '1', '2', '3', '5']);
+      });
+
+      it('should keep the order when nothing is ranked', () => {
+        const result = applySorting(mockBeers, 'relevance', 'desc');
+
+        expect(result.map(b => b.id)).toEqual(['1', '2', '3', '4', '5']);
+      });
+    });
+
     describe('Edge Cases', () => {
       it('should handle empty list', () => {
         const result = applySorting([], 'date', 'desc');
@@ -510,6 +651,35 @@ describe('useBeerFilters - Filter Logic', () => {
       it('should cycle abv -> date', () => {
         expect(nextSortOption('abv')).toBe('date');
       });
+
+      it('should cycle abv -> rating -> date when personal ratings are included', () => {
+        expect(nextSortOption('abv', true)).toBe('rating');
+        expect(nextSortOption('rating', true)).toBe('date');
+      });
+
+      it('should step off rating when personal ratings are not included', () => {
+        expect(nextSortOption('rating')).toBe('date');
+      });
+
+      it('should wrap to relevance, then date, while a search is ranked', () => {
+        expect(nextSortOption('abv', false, true)).toBe('relevance');
+        expect(nextSortOption('rating', true, true)).toBe('relevance');
+        expect(nextSortOption('relevance', false, true)).toBe('date');
+      });
+
+      it('should step off relevance when no search is ranked', () => {
+        expect(nextSortOption('relevance')).toBe('date');
+      });
+    });
+
+    describe('nextRatingFilter', () => {
+      it('should cycle all -> rated -> 3+ -> 4+ -> unrated -> all', () => {
+        expect(nextRatingFilter('all')).toBe('rated');
+        expect(nextRatingFilter('rated')).toBe('3+');
+        expect(nextRatingFilter('3+')).toBe('4+');
+        expect(nextRatingFilter('4+')).toBe('unrated');
+        expect(nextRatingFilter('unrated')).toBe('all');
+      });
     });
 
     describe('defaultDirectionForSort', () => {
@@ -524,6 +694,69 @@ describe('useBeerFilters - Filter Logic', () => {
       it('should return asc for abv', () => {
         expect(defaultDirectionForSort('abv')).toBe('asc');
       });
+
+      it('should return desc for rating', () => {
+        expect(defaultDirectionForSort('rating')).toBe('desc');
+      });
+
+      it('should return desc for relevance, best match first', () => {
+        expect(defaultDirectionForSort('relevance')).toBe('desc');
+      });
+    });
+  });
+
+  describe('Personal ratings', () => {
+    // Beer 1 rated 2, beer 2 rated 5, beer 3 rated 0, beers 4 and 5 unrated
+    const ratings: ReadonlyMap<string, number> = new Map([
+      ['1', 2],
+      ['2', 5],
+      ['3', 0],
+    ]);
+    const ids = (beers: BeerWithContainerType[]) => beers.map(beer => beer.id);
+    const filterBy = (ratingFilter: 'all' | 'rated' | '3+' | '4+' | 'unrated') =>
+      ids(
+        applyFilters(mockBeers, { containerFilter: 'all', searchText: '', ratingFilter, ratings })
+      );
+
+    it('should keep only rated beers, counting a zero rating as rated', () => {
+      expect(filterBy('rated')).toEqual(['1', '2', '3']);
+    });
+
+    it('should apply star thresholds and exclude unrated beers', () => {
+      expect(filterBy('3+')).toEqual(['2']);
+      expect(filterBy('4+')).toEqual(['2']);
+    });
+
+    it('should keep only unrated beers', () => {
+      expect(filterBy('unrated')).toEqual(['4', '5']);
+    });
+
+    it('should return the original array when the rating filter is all', () => {
+      const result = applyFilters(mockBeers, {
+        containerFilter: 'all',
+        searchText: '',
+        ratingFilter: 'all',
+        ratings,
+      });
+      expect(result).toBe(mockBeers);
+    });
+
+    it('should treat every beer as unrated when no ratings are supplied', () => {
+      expect(
+        ids(applyFilters(mockBeers, { containerFilter: 'all', searchText: '', ratingFilter: '3+' }))
+      ).toEqual([]);
+    });
+
+    it('should sort by rating descending with unrated beers last', () => {
+      const sorted = applySorting(mockBeers, 'rating', 'desc', 'added_date', ratings);
+      expect(ids(sorted).slice(0, 3)).toEqual(['2', '1', '3']);
+      expect(ids(sorted).slice(3).sort()).toEqual(['4', '5']);
+    });
+
+    it('should sort by rating ascending with unrated beers still last', () => {
+      const sorted = applySorting(mockBeers, 'rating', 'asc', 'added_date', ratings);
+      expect(ids(sorted).slice(0, 3)).toEqual(['3', '1', '2']);
+      expect(ids(sorted).slice(3).sort()).toEqual(['4', '5']);
     });
   });
 });
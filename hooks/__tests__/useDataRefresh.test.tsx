@@ -22,6 +22,11 @@ import { manualRefreshAllData } from '@/src/services/dataUpdateService';
 jest.mock('@/src/database/preferences');
 jest.mock('@/src/services/dataUpdateService');
 
+const mockQueueRefresh = jest.fn();
+jest.mock('../useQueuedRefresh', () => ({
+  useQueuedRefresh: () => ({ queueRefresh: mockQueueRefresh }),
+}));
+
 describe('useDataRefresh', () => {
   const Probe = ({ onDataReloaded }: { onDataReloaded: () => Promise<void> }) => {
     const { refreshing, handleRefresh } = useDataRefresh({
@@ -63,6 +68,8 @@ describe('useDataRefresh', () => {
       allNetworkErrors: false,
     });
 
+    mockQueueRefresh.mockResolvedValue(true);
+
     jest.spyOn(Alert, 'alert').mockImplementation(() => {});
     jest.spyOn(console, 'error').mockImplementation();
   });
@@ -106,6 +113,50 @@ describe('useDataRefresh', () => {
     expect(body).toContain('could not be reloaded either');
   });
 
+  it('should queue the refresh for when the connection is back if it could not connect', async () => {
+    (manualRefreshAllData as jest.Mock).mockResolvedValue({
+      hasErrors: true,
+      allNetworkErrors: true,
+    });
+
+    await pressRefresh(jest.fn().mockResolvedValue(undefined));
+
+    expect(mockQueueRefresh).toHaveBeenCalledWith('all');
+    expect(Alert.alert).toHaveBeenCalledWith(
+      'Server Connection Error',
+      expect.stringContaining("run again when you're back online"),
+      expect.anything()
+    );
+  });
+
+  it('should not promise a later refresh it could not queue', async () => {
+    (manualRefreshAllData as jest.Mock).mockResolvedValue({
+      hasErrors: true,
+      allNetworkErrors: true,
+    });
+    mockQueueRefresh.mockResolvedValue(false);
+
+    await pressRefresh(jest.fn().mockResolvedValue(undefined));
+
+    const [, body] = (Alert.alert as jest.Mock).mock.calls[0];
+    expect(body).toContain('check your internet connection');
+    expect(body).not.toContain('run again');
+  });
+
+  it('should not queue a refresh the server rejected', async () => {
+    (manualRefreshAllData as jest.Mock).mockResolvedValue({
+      hasErrors: true,
+      allNetworkErrors: false,
+      allBeersResult: { success: false, error: { type: 'SERVER_ERROR', message: 'boom' } },
+      myBeersResult: { success: true },
+      rewardsResult: { success: true },
+    });
+
+    await pressRefresh(jest.fn().mockResolvedValue(undefined));
+
+    expect(mockQueueRefresh).not.toHaveBeenCalled();
+  });
+
   it('should name each failed source when only some of them failed', async () => {
     // The partial-error branch was deletable with the entire 103-suite run
     // green. Nothing anywhere drove `hasErrors` with `allNetworkErrors: false`
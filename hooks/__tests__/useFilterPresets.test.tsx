@@ -0,0 +1,185 @@
+/**
+ * Behaviour tests for useFilterPresets, driven through a probe consumer.
+ *
+ * Not `renderHook`, per TESTING.md. The probe wires the hook to
+ * `useBeerFilters` the way the lists do, so restoring and applying a preset
+ * are checked against the filters a list actually ends up with.
+ */
+
+import React from 'react';
+import { Pressable, Text } from 'react-native';
+import { act, fireEvent, render } from '@testing-library/react-native';
+import { useBeerFilters } from '../useBeerFilters';
+import { useFilterPresets } from '../useFilterPresets';
+import { filterPresetRepository } from '@/src/database/repositories/FilterPresetRepository';
+import { DEFAULT_FILTER_STATE, FilterPresetState } from '@/src/utils/filterPresets';
+
+jest.mock('@/src/database/repositories/FilterPresetRepository', () => ({
+  filterPresetRepository: {
+    getLastFilterState: jest.fn(),
+    setLastFilterState: jest.fn(),
+    getByList: jest.fn(),
+    save: jest.fn(),
+    saveMany: jest.fn(),
+    delete: jest.fn(),
+  },
+}));
+
+const repository = filterPresetRepository as jest.Mocked<typeof filterPresetRepository>;
+
+const strongDrafts: FilterPresetState = {
+  ...DEFAULT_FILTER_STATE,
+  containerFilter: 'draft',
+  sortBy: 'abv',
+  sortDirection: 'desc',
+  searchText: 'abv:>8',
+};
+
+describe('useFilterPresets', () => {
+  const Probe = ({ withRatings = false }: { withRatings?: boolean }) => {
+    const filters = useBeerFilters([], 'added_date', withRatings ? new Map() : undefined);
+    const presets = useFilterPresets('allbeers', filters.filterState, filters.applyFilterState);
+
+    return (
+      <>
+        <Text testID="state">{JSON.stringify(filters.filterState)}</Text>
+        <Text testID="active">{String(presets.activePresetName)}</Text>
+        <Text testID="names">{presets.presets.map(preset => preset.name).join(',')}</Text>
+        <Pressable testID="cycle-container" onPress={filters.cycleContainerFilter}>
+          <Text>container</Text>
+        </Pressable>
+        <Pressable testID="save" onPress={() => void presets.savePreset('Mine')}>
+          <Text>save</Text>
+        </Pressable>
+      </>
+    );
+  };
+
+  const renderProbe = async (props: { withRatings?: boolean } = {}) => {
+    const utils = render(<Probe {...props} />);
+    // Let the restore and the preset load settle
+    await act(async () => {});
+    const state = (): FilterPresetState =>
+      JSON.parse(utils.getByTestId('state').props.children as string);
+    return { ...utils, state };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    repository.getLastFilterState.mockResolvedValue(null);
+    repository.setLastFilterState.mockResolvedValue(undefined);
+    repository.getByList.mockResolvedValue([]);
+  });
+
+  it('restores the filters the list was left with', async () => {
+    repository.getLastFilterState.mockResolvedValue(strongDrafts);
+
+    const { state } = await renderProbe();
+
+    expect(repository.getLastFilterState).toHaveBeenCalledWith('allbeers');
+    expect(state()).toEqual(strongDrafts);
+    // Restoring is not a change worth writing back
+    expect(repository.setLastFilterState).not.toHaveBeenCalled();
+  });
+
+  it('does not overwrite the stored filters with the defaults before restoring', async () => {
+    let finishRestore: (state: FilterPresetState) => void = () => {};
+    repository.getLastFilterState.mockReturnValue(
+      new Promise(resolve => {
+        finishRestore = resolve;
+      })
+    );
+
+    render(<Probe />);
+    await act(async () => {});
+    expect(repository.setLastFilterState).not.toHaveBeenCalled();
+
+    await act(async () => {
+      finishRestore(strongDrafts);
+    });
+    expect(repository.setLastFilterState).not.toHaveBeenCalled();
+  });
+
+  it('remembers each change to the filters', async () => {
+    const { getByTestId } = await renderProbe();
+
+    await act(async () => {
+      fireEvent.press(getByTestId('cycle-container'));
+    });
+
+    expect(repository.setLastFilterState).toHaveBeenLastCalledWith(
+      'allbeers',
+      expect.objectContaining({ containerFilter: 'draft' })
+    );
+  });
+
+  it('still works with the defaults when the stored filters cannot be read', async () => {
+    repository.getLastFilterState.mockRejectedValue(new Error('database is locked'));
+    jest.spyOn(console, 'warn').mockImplementation();
+
+    const { getByTestId, state } = await renderProbe();
+    expect(state()).toEqual(DEFAULT_FILTER_STATE);
+
+    await act(async () => {
+      fireEvent.press(getByTestId('cycle-container'));
+    });
+    expect(repository.setLastFilterState).toHaveBeenCalled();
+  });
+
+  it('steps off the rating sort on a list without personal ratings', async () => {
+    repository.getLastFilterState.mockResolvedValue({
+      ...DEFAULT_FILTER_STATE,
+      sortBy: 'rating',
+      sortDirection: 'asc',
+      ratingFilter: '4+',
+    });
+
+    const { state } = await renderProbe();
+
+    expect(state()).toMatchObject({ sortBy: 'date', sortDirection: 'desc', ratingFilter: 'all' });
+  });
+
+  it('keeps the rating filter on a list with personal ratings', async () => {
+    repository.getLastFilterState.mockResolvedValue({
+      ...DEFAULT_FILTER_STATE,
+      ratingFilter: '4+',
+    });
+
+    const { state } = await renderProbe({ withRatings: true });
+
+    expect(state().ratingFilter).toBe('4+');
+  });
+
+  it('names the saved preset the current filters match', async () => {
+    repository.getLastFilterState.mockResolvedValue(strongDrafts);
+    repository.getByList.mockResolvedValue([
+      { list: 'allbeers', name: 'Strong drafts', state: strongDrafts, updated_at: 1 },
+    ]);
+
+    const { getByTestId } = await renderProbe();
+    expect(getByTestId('active').props.children).toBe('Strong drafts');
+
+    await act(async () => {
+      fireEvent.press(getByTestId('cycle-container'));
+    });
+    expect(getByTestId('active').props.children).toBe('null');
+  });
+
+  it('saves the current filters and lists the new preset', async () => {
+    repository.save.mockImplementation(async (list, name, state) => ({
+      list,
+      name,
+      state,
+      updated_at: 1,
+    }));
+
+    const { getByTestId } = await renderProbe();
+    await act(async () => {
+      fireEvent.press(getByTestId('save'));
+    });
+
+    expect(repository.save).toHaveBeenCalledWith('allbeers', 'Mine', DEFAULT_FILTER_STATE);
+    expect(getByTestId('names').props.children).toBe('Mine');
+    expect(getByTestId('active').props.children).toBe('Mine');
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Behaviour tests for useFullTextSearch feeding useBeerFilters, driven through
+ * a probe consumer wired the way the list screens wire them.
+ *
+ * Not `renderHook`, per TESTING.md. The index returns hits best first; these
+ * pin that the list comes out in that order, not just that it holds them.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Pressable, Text } from 'react-native';
+import { act, fireEvent, render } from '@testing-library/react-native';
+import { useFullTextSearch } from '../useFullTextSearch';
+import { useBeerFilters } from '../useBeerFilters';
+import { beerSearchRepository } from '@/src/database/repositories/BeerSearchRepository';
+import { BeerWithContainerType } from '@/src/types/beer';
+import { DEFAULT_FILTER_STATE, FilterPresetState } from '@/src/utils/filterPresets';
+
+jest.mock('@/src/database/repositories/BeerSearchRepository', () => ({
+  beerSearchRepository: { search: jest.fn() },
+}));
+
+const search = beerSearchRepository.search as jest.Mock;
+
+const beer = (id: string, name: string, addedDate: string, description = '') =>
+  ({
+    id,
+    brew_name: name,
+    brewer: 'Test Brewery',
+    brew_style: 'Stout',
+    brew_container: 'Draft',
+    brew_description: description,
+    added_date: addedDate,
+    container_type: null,
+  }) as BeerWithContainerType;
+
+// Newest first: the latte, the stout, the porter. Best match first: the
+// stout, the porter, the latte, whose description alone says coffee.
+const beers = [
+  beer('stout', 'Coffee Stout', '200'),
+  beer('latte', 'Breakfast Latte', '300', 'Brewed with coffee'),
+  beer('porter', 'Morning Coffee Porter', '100'),
+];
+
+const hits = [
+  { beer_id: 'stout', snippet: '', rank: -9.5 },
+  { beer_id: 'porter', snippet: '', rank: -6.1 },
+  { beer_id: 'latte', snippet: '', rank: -1.2 },
+];
+
+describe('useFullTextSearch with useBeerFilters', () => {
+  const Probe = ({ searchText }: { searchText: string }) => {
+    const [text, setText] = useState(searchText);
+    useEffect(() => setText(searchText), [searchText]);
+
+    const { matchRanks } = useFullTextSearch(text, 'allbeers', beers);
+    const { filteredBeers, sortBy, setSearchText, cycleSort, applyFilterState } = useBeerFilters(
+      beers,
+      'added_date',
+      undefined,
+      matchRanks
+    );
+    useEffect(() => setSearchText(text), [text, setSearchText]);
+
+    const applyPreset = (state: FilterPresetState) => {
+      setText(state.searchText);
+      applyFilterState(state);
+    };
+
+    return (
+      <>
+        <Text testID="ids">{filteredBeers.map(b => b.id).join(',')}</Text>
+        <Text testID="sort">{sortBy}</Text>
+        <Pressable testID="cycle-sort" onPress={cycleSort}>
+          <Text>sort</Text>
+        </Pressable>
+        <Pressable
+          testID="abv-preset"
+          onPress={() =>
+            applyPreset({ ...DEFAULT_FILTER_STATE, searchText: 'coffee', sortBy: 'abv' })
+          }
+        >
+          <Text>preset</Text>
+        </Pressable>
+      </>
+    );
+  };
+
+  const press = async (probe: ReturnType<typeof render>, testID: string) => {
+    await act(async () => {
+      fireEvent.press(probe.getByTestId(testID));
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    search.mockResolvedValue(hits);
+  });
+
+  it('lists a search best match first', async () => {
+    const probe = render(<Probe searchText="coffee" />);
+    await act(async () => {});
+
+    expect(search).toHaveBeenCalledWith('coffee', 'allbeers');
+    expect(probe.getByTestId('sort').props.children).toBe('relevance');
+    expect(probe.getByTestId('ids').props.children).toBe('stout,porter,latte');
+  });
+
+  it('sorts by date once the user picks it during a search', async () => {
+    const probe = render(<Probe searchText="coffee" />);
+    await act(async () => {});
+
+    await press(probe, 'cycle-sort');
+
+    expect(probe.getByTestId('sort').props.children).toBe('date');
+    expect(probe.getByTestId('ids').props.children).toBe('latte,stout,porter');
+  });
+
+  it('brings back the sort from before the search once it is cleared', async () => {
+    const probe = render(<Probe searchText="" />);
+    await act(async () => {});
+    await press(probe, 'cycle-sort');
+    expect(probe.getByTestId('sort').props.children).toBe('name');
+
+    probe.rerender(<Probe searchText="coffee" />);
+    await act(async () => {});
+    expect(probe.getByTestId('sort').props.children).toBe('relevance');
+
+    probe.rerender(<Probe searchText="" />);
+    await act(async () => {});
+
+    expect(probe.getByTestId('sort').props.children).toBe('name');
+    expect(probe.getByTestId('ids').props.children).toBe('latte,stout,porter');
+  });
+
+  it("keeps a preset's own sort when its search comes back ranked", async () => {
+    const probe = render(<Probe searchText="" />);
+    await act(async () => {});
+
+    await press(probe, 'abv-preset');
+    await act(async () => {});
+
+    expect(search).toHaveBeenCalledWith('coffee', 'allbeers');
+    expect(probe.getByTestId('sort').props.children).toBe('abv');
+  });
+});
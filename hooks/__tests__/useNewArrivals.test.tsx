@@ -0,0 +1,128 @@
+/**
+ * Behaviour tests for useNewArrivals, driven through probe consumers.
+ *
+ * Not `renderHook`, per TESTING.md. A list probe and a settings probe are
+ * mounted side by side, as All Beers and the Settings screen are, to check
+ * that a window changed in one relabels the other.
+ */
+
+import React from 'react';
+import { Pressable, Text } from 'react-native';
+import { act, fireEvent, render } from '@testing-library/react-native';
+import { useNewArrivalWindow, useNewArrivals } from '../useNewArrivals';
+import { taplistDiffRepository } from '@/src/database/repositories/TaplistDiffRepository';
+import { emitDatabaseChange } from '@/src/database/changeEvents';
+import { TaplistDiffRecord } from '@/src/utils/taplistDiff';
+
+jest.mock('@/src/database/repositories/TaplistDiffRepository', () => ({
+  taplistDiffRepository: {
+    getRecent: jest.fn(),
+    getNewArrivalWindowDays: jest.fn(),
+    setNewArrivalWindowDays: jest.fn(),
+  },
+}));
+
+const repository = taplistDiffRepository as jest.Mocked<typeof taplistDiffRepository>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const arrivalAt = (id: string, recordedAt: number): TaplistDiffRecord => ({
+  id: recordedAt,
+  recorded_at: recordedAt,
+  added: [{ id, brew_name: `Beer ${id}`, brewer: 'Test Brewery', abv: null }],
+  removed: [],
+  changed: [],
+});
+
+describe('useNewArrivals', () => {
+  const ListProbe = () => {
+    const { newArrivalIds } = useNewArrivals();
+    return <Text testID="new-ids">{Array.from(newArrivalIds).sort().join(',')}</Text>;
+  };
+
+  const SettingsProbe = () => {
+    const { windowDays, setWindowDays } = useNewArrivalWindow();
+    return (
+      <>
+        <Text testID="window">{String(windowDays)}</Text>
+        <Pressable testID="set-week" onPress={() => void setWindowDays(7)}>
+          <Text>week</Text>
+        </Pressable>
+      </>
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation();
+    const now = Date.now();
+    repository.getRecent.mockResolvedValue([
+      arrivalAt('fresh', now - DAY_MS),
+      arrivalAt('older', now - 5 * DAY_MS),
+    ]);
+    repository.getNewArrivalWindowDays.mockResolvedValue(3);
+    repository.setNewArrivalWindowDays.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('marks the beers added within the stored window', async () => {
+    const { getByTestId } = render(<ListProbe />);
+    await act(async () => {});
+
+    expect(getByTestId('new-ids').props.children).toBe('fresh');
+  });
+
+  it('widens every mounted list when the window is changed', async () => {
+    const { getByTestId } = render(
+      <>
+        <ListProbe />
+        <SettingsProbe />
+      </>
+    );
+    await act(async () => {});
+
+    await act(async () => {
+      fireEvent.press(getByTestId('set-week'));
+    });
+
+    expect(repository.setNewArrivalWindowDays).toHaveBeenCalledWith(7);
+    expect(getByTestId('window').props.children).toBe('7');
+    expect(getByTestId('new-ids').props.children).toBe('fresh,older');
+  });
+
+  it('reads the diffs again when the taplist is replaced', async () => {
+    render(<ListProbe />);
+    await act(async () => {});
+
+    await act(async () => {
+      emitDatabaseChange({ table: 'allbeers', kind: 'replace', ids: ['fresh', 'older', 'newest'] });
+    });
+
+    expect(repository.getRecent).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not read the diffs for an enrichment, which records none', async () => {
+    render(<ListProbe />);
+    await act(async () => {});
+
+    await act(async () => {
+      emitDatabaseChange({ table: 'allbeers', kind: 'enrichment', ids: ['fresh'] });
+      emitDatabaseChange({ table: 'tasted_brew_current_round', kind: 'replace', ids: [] });
+    });
+
+    expect(repository.getRecent).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows no badges when the diffs cannot be read', async () => {
+    repository.getRecent.mockRejectedValue(new Error('no such table: taplist_diffs'));
+
+    const { getByTestId } = render(<ListProbe />);
+    await act(async () => {});
+
+    expect(getByTestId('new-ids').props.children).toBe('');
+    expect(console.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Behaviour tests for useOptimisticCheckIn, driven through a probe consumer.
+ *
+ * Not `renderHook`, per TESTING.md. These pin the double tap: online, a
+ * check-in goes straight to `checkInBeer`, past the queue's idempotency key,
+ * so a second tap while the first is in flight must not post again.
+ */
+
+import React from 'react';
+import { Alert, Pressable, Text } from 'react-native';
+import { act, fireEvent, render } from '@testing-library/react-native';
+import { useOptimisticCheckIn } from '../useOptimisticCheckIn';
+import { checkInBeer } from '@/src/api/beerService';
+import { getSessionData } from '@/src/api/sessionManager';
+import { getActiveStoreId } from '@/src/services/storeDirectoryService';
+import { BeerWithContainerType } from '@/src/types/beer';
+
+jest.mock('@/src/api/beerService');
+jest.mock('@/src/api/sessionManager');
+jest.mock('@/src/api/queueService');
+jest.mock('@/src/services/liveActivityService');
+jest.mock('@/src/services/storeDirectoryService', () => ({
+  getActiveStoreId: jest.fn(),
+}));
+
+const mockNetwork = { isConnected: true, isInternetReachable: true };
+const mockQueue = { queueOperation: jest.fn() };
+const mockApp = {
+  beers: { tastedBeers: [] as { id: string }[] },
+  addQueuedBeer: jest.fn(),
+};
+jest.mock('@/context/NetworkContext', () => ({
+  useNetwork: () => mockNetwork,
+}));
+jest.mock('@/context/OperationQueueContext', () => ({
+  useOperationQueue: () => mockQueue,
+}));
+jest.mock('@/context/OptimisticUpdateContext', () => ({
+  useOptimisticUpdate: () => ({ pendingUpdates: [] }),
+}));
+jest.mock('@/context/AppContext', () => ({
+  useAppContext: () => mockApp,
+}));
+
+const pliny = {
+  id: 'b1',
+  brew_name: 'Pliny the Elder',
+  container_type: null,
+} as BeerWithContainerType;
+
+describe('useOptimisticCheckIn', () => {
+  const Probe = () => {
+    const { checkInBeer: checkIn } = useOptimisticCheckIn();
+
+    return (
+      <Pressable testID="check-in" onPress={() => void checkIn(pliny)}>
+        <Text>check in</Text>
+      </Pressable>
+    );
+  };
+
+  const tap = async ({ getByTestId }: ReturnType<typeof render>) => {
+    await act(async () => {
+      fireEvent.press(getByTestId('check-in'));
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    mockNetwork.isConnected = true;
+    mockNetwork.isInternetReachable = true;
+
+    (getSessionData as jest.Mock).mockResolvedValue({
+      memberId: 'm1',
+      storeId: 's1',
+      storeName: 'Test Store',
+    });
+    (getActiveStoreId as jest.Mock).mockResolvedValue(null);
+    (checkInBeer as jest.Mock).mockResolvedValue({ success: true });
+
+    jest.spyOn(Alert, 'alert').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  it('posts a double-tapped online check-in once', async () => {
+    let finish: (result: { success: boolean }) => void = () => {};
+    (checkInBeer as jest.Mock).mockImplementation(() => new Promise(resolve => (finish = resolve)));
+    const probe = render(<Probe />);
+
+    await tap(probe);
+    await tap(probe);
+
+    expect(checkInBeer).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      finish({ success: true });
+    });
+
+    expect(mockApp.addQueuedBeer).toHaveBeenCalledTimes(1);
+    expect(Alert.alert).toHaveBeenCalledTimes(1);
+    expect(Alert.alert).toHaveBeenCalledWith(
+      'Success',
+      'Pliny the Elder has been queued for check-in!'
+    );
+  });
+
+  it('checks in again once the first check-in has finished', async () => {
+    const probe = render(<Probe />);
+
+    await tap(probe);
+    await tap(probe);
+
+    expect(checkInBeer).toHaveBeenCalledTimes(2);
+  });
+
+  it('checks in again after the first check-in failed', async () => {
+    (checkInBeer as jest.Mock).mockRejectedValueOnce(new Error('Network request failed'));
+    jest.spyOn(console, 'error').mockImplementation();
+    const probe = render(<Probe />);
+
+    await tap(probe);
+    await tap(probe);
+
+    expect(checkInBeer).toHaveBeenCalledTimes(2);
+    expect(Alert.alert).toHaveBeenCalledWith('Error', 'Network request failed');
+  });
+
+  it('queues a double-tapped offline check-in once', async () => {
+    mockNetwork.isConnected = false;
+    let finish: () => void = () => {};
+    mockQueue.queueOperation.mockImplementation(
+      () => new Promise<void>(resolve => (finish = resolve))
+    );
+    const probe = render(<Probe />);
+
+    await tap(probe);
+    await tap(probe);
+    await act(async () => {
+      finish();
+    });
+
+    expect(mockQueue.queueOperation).toHaveBeenCalledTimes(1);
+    expect(mockQueue.queueOperation).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ beerId: 'b1', memberId: 'm1', storeId: 's1' }),
+      expect.objectContaining({ idempotencyKey: 'check-in:m1:s1:b1' })
+    );
+    expect(checkInBeer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Behaviour tests for useTaplistSnapshots, driven through a probe consumer.
+ *
+ * Not `renderHook`, per TESTING.md.
+ */
+
+import React from 'react';
+import { Pressable, Text } from 'react-native';
+import { act, fireEvent, render } from '@testing-library/react-native';
+import { useTaplistSnapshots } from '../useTaplistSnapshots';
+import { taplistSnapshotRepository } from '@/src/database/repositories/TaplistSnapshotRepository';
+import { getPreference } from '@/src/database/preferences';
+import { emitDatabaseChange } from '@/src/database/changeEvents';
+import { TaplistSnapshot } from '@/src/utils/taplistSnapshot';
+
+jest.mock('@/src/database/repositories/TaplistSnapshotRepository', () => ({
+  taplistSnapshotRepository: {
+    getForStore: jest.fn(),
+    getBeers: jest.fn(),
+  },
+}));
+jest.mock('@/src/database/preferences', () => ({
+  getPreference: jest.fn(),
+}));
+
+const repository = taplistSnapshotRepository as jest.Mocked<typeof taplistSnapshotRepository>;
+
+const snapshot = (id: number, fetchedAt: number): TaplistSnapshot => ({
+  id,
+  store_id: '13879',
+  fetched_at: fetchedAt,
+  source: 'live',
+  etag: null,
+  beer_count: 1,
+});
+
+describe('useTaplistSnapshots', () => {
+  const Probe = () => {
+    const { snapshots, selected, snapshotBeers, selectSnapshot } = useTaplistSnapshots();
+    return (
+      <>
+        <Text testID="snapshots">{snapshots.map(listed => listed.id).join(',')}</Text>
+        <Text testID="selected">{selected ? String(selected.id) : 'now'}</Text>
+        <Text testID="beers">
+          {snapshotBeers
+            ? snapshotBeers.map(beer => `${beer.brew_name}:${beer.container_type}`).join(',')
+            : 'none'}
+        </Text>
+        <Pressable testID="select-2" onPress={() => void selectSnapshot(2)}>
+          <Text>2</Text>
+        </Pressable>
+        <Pressable testID="select-now" onPress={() => void selectSnapshot(null)}>
+          <Text>now</Text>
+        </Pressable>
+      </>
+    );
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation();
+    (getPreference as jest.Mock).mockResolvedValue(
+      'https://fsbs.beerknurd.com/bk-store-json.php?sid=13879'
+    );
+    repository.getForStore.mockResolvedValue([snapshot(2, 2000), snapshot(1, 1000)]);
+    repository.getBeers.mockResolvedValue([
+      { id: 'b1', brew_name: 'Lager', brew_container: 'Draught', abv: 4.8 },
+    ]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("lists the current store's snapshots", async () => {
+    const { getByTestId } = render(<Probe />);
+    await act(async () => {});
+
+    expect(repository.getForStore).toHaveBeenCalledWith('13879');
+    expect(getByTestId('snapshots').props.children).toBe('2,1');
+    expect(getByTestId('selected').props.children).toBe('now');
+  });
+
+  it("loads a selected snapshot's beers with their container types, and returns to now", async () => {
+    const { getByTestId } = render(<Probe />);
+    await act(async () => {});
+
+    await act(async () => {
+      fireEvent.press(getByTestId('select-2'));
+    });
+
+    expect(repository.getBeers).toHaveBeenCalledWith(2);
+    expect(getByTestId('selected').props.children).toBe('2');
+    expect(getByTestId('beers').props.children).toBe('Lager:pint');
+
+    await act(async () => {
+      fireEvent.press(getByTestId('select-now'));
+    });
+
+    expect(getByTestId('selected').props.children).toBe('now');
+    expect(getByTestId('beers').props.children).toBe('none');
+  });
+
+  it('lists nothing for a taplist URL without a store ID', async () => {
+    (getPreference as jest.Mock).mockResolvedValue('https://example.com/allbeers.json');
+
+    const { getByTestId } = render(<Probe />);
+    await act(async () => {});
+
+    expect(repository.getForStore).not.toHaveBeenCalled();
+    expect(getByTestId('snapshots').props.children).toBe('');
+  });
+
+  it('returns to now when the selected snapshot is no longer listed', async () => {
+    const { getByTestId } = render(<Probe />);
+    await act(async () => {});
+    await act(async () => {
+      fireEvent.press(getByTestId('select-2'));
+    });
+
+    repository.getForStore.mockResolvedValue([snapshot(3, 3000)]);
+    await act(async () => {
+      emitDatabaseChange({ table: 'allbeers', kind: 'replace', ids: ['b9'] });
+    });
+
+    expect(getByTestId('snapshots').props.children).toBe('3');
+    expect(getByTestId('selected').props.children).toBe('now');
+  });
+
+  it('stays on now when a snapshot cannot be read', async () => {
+    repository.getBeers.mockResolvedValue(null);
+
+    const { getByTestId } = render(<Probe />);
+    await act(async () => {});
+    await act(async () => {
+      fireEvent.press(getByTestId('select-2'));
+    });
+
+    expect(getByTestId('selected').props.children).toBe('now');
+    expect(console.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Behaviour tests for useWishlist, driven through probe consumers.
+ *
+ * Not `renderHook`, per TESTING.md. Two probes are mounted side by side, as
+ * All Beers and the Wishlist tab are, to check that a star toggled in one
+ * reaches the other.
+ */
+
+import React from 'react';
+import { Pressable, Text } from 'react-native';
+import { act, fireEvent, render } from '@testing-library/react-native';
+import { useWishlist } from '../useWishlist';
+import { wishlistRepository } from '@/src/database/repositories/WishlistRepository';
+import { WishlistEntry } from '@/src/types/beer';
+
+jest.mock('@/src/database/repositories/WishlistRepository', () => ({
+  wishlistRepository: {
+    getAll: jest.fn(),
+    add: jest.fn(),
+    remove: jest.fn(),
+  },
+}));
+
+const repository = wishlistRepository as jest.Mocked<typeof wishlistRepository>;
+
+const pliny = {
+  id: 'b1',
+  brew_name: 'Pliny the Elder',
+  brewer: 'Russian River',
+  brew_style: 'Double IPA',
+};
+
+const entryFor = (beer: typeof pliny, addedAt = 1000): WishlistEntry => ({
+  beer_id: beer.id,
+  brew_name: beer.brew_name,
+  brewer: beer.brewer,
+  brew_style: beer.brew_style,
+  added_at: addedAt,
+  last_seen_on_tap: addedAt,
+});
+
+describe('useWishlist', () => {
+  const Probe = ({ name }: { name: string }) => {
+    const wishlist = useWishlist();
+
+    return (
+      <>
+        <Text testID={`${name}-ids`}>{Array.from(wishlist.wishlistIds).join(',')}</Text>
+        <Text testID={`${name}-error`}>{String(wishlist.error)}</Text>
+        <Pressable
+          testID={`${name}-toggle`}
+          // The lists log a failed toggle; the probe only needs it not to escape
+          onPress={() => wishlist.toggleWishlist(pliny).catch(() => {})}
+        >
+          <Text>toggle</Text>
+        </Pressable>
+        <Pressable testID={`${name}-reload`} onPress={() => void wishlist.reload()}>
+          <Text>reload</Text>
+        </Pressable>
+      </>
+    );
+  };
+
+  const renderProbes = async () => {
+    const utils = render(
+      <>
+        <Probe name="list" />
+        <Probe name="tab" />
+      </>
+    );
+    await act(async () => {});
+    const ids = (name: string): string => utils.getByTestId(`${name}-ids`).props.children;
+    return { ...utils, ids };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation();
+    repository.getAll.mockResolvedValue([]);
+    repository.add.mockImplementation(async beer => entryFor(beer as typeof pliny));
+    repository.remove.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('loads the stored wishlist', async () => {
+    repository.getAll.mockResolvedValue([entryFor(pliny)]);
+
+    const { ids } = await renderProbes();
+
+    expect(ids('list')).toBe('b1');
+  });
+
+  it('adds a beer that is not on the wishlist, in every mounted copy', async () => {
+    const { getByTestId, ids } = await renderProbes();
+
+    await act(async () => {
+      fireEvent.press(getByTestId('list-toggle'));
+    });
+
+    expect(repository.add).toHaveBeenCalledWith(pliny);
+    expect(ids('list')).toBe('b1');
+    expect(ids('tab')).toBe('b1');
+  });
+
+  it('removes a beer that is already on the wishlist', async () => {
+    repository.getAll.mockResolvedValue([entryFor(pliny)]);
+    const { getByTestId, ids } = await renderProbes();
+
+    await act(async () => {
+      fireEvent.press(getByTestId('tab-toggle'));
+    });
+
+    expect(repository.remove).toHaveBeenCalledWith('b1');
+    expect(repository.add).not.toHaveBeenCalled();
+    expect(ids('list')).toBe('');
+    expect(ids('tab')).toBe('');
+  });
+
+  it('leaves the wishlist as it was when the write fails', async () => {
+    repository.add.mockRejectedValue(new Error('database is locked'));
+    const { getByTestId, ids } = await renderProbes();
+
+    await act(async () => {
+      fireEvent.press(getByTestId('list-toggle'));
+    });
+
+    expect(ids('list')).toBe('');
+    expect(ids('tab')).toBe('');
+  });
+
+  it('reports a load failure and recovers on reload', async () => {
+    repository.getAll.mockRejectedValueOnce(new Error('no such table: wishlist'));
+    const { getByTestId, ids } = await renderProbes();
+
+    expect(getByTestId('list-error').props.children).toBe('Could not load your wishlist.');
+
+    repository.getAll.mockResolvedValue([entryFor(pliny)]);
+    await act(async () => {
+      fireEvent.press(getByTestId('list-reload'));
+    });
+
+    expect(getByTestId('list-error').props.children).toBe('null');
+    expect(ids('list')).toBe('b1');
+  });
+});
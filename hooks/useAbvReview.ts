@@ -0,0 +1,135 @@
+/**
+ * useAbvReview Hook - The current store's low-confidence ABVs, for a reviewer
+ *
+ * Lists the active store's beers whose ABV the enrichment Worker was unsure of,
+ * read from AppContext's `allBeers`. Confirming or correcting one saves it as a
+ * correction (see useBeerCorrections); the repository's change event patches
+ * the row to `manual`, and it drops off the list without a reload.
+ *
+ * @example
+ * ```tsx
+ * const { beers, selectedIds, toggleSelected, confirmSelected } = useAbvReview();
+ * ```
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import { useAppContext } from '@/context/AppContext';
+import { useBeerCorrections } from './useBeerCorrections';
+import { BeerWithContainerType } from '@/src/types/beer';
+import { selectLowConfidenceBeers } from '@/src/utils/enrichmentConfidence';
+
+export type UseAbvReviewResult = {
+  /** Beers to review, least confident first */
+  beers: readonly BeerWithContainerType[];
+
+  /** Ids ticked for a bulk confirm; only ids still listed */
+  selectedIds: ReadonlySet<string>;
+
+  toggleSelected: (id: string) => void;
+
+  /** Tick every listed beer, or untick them all if they already are */
+  toggleSelectAll: () => void;
+
+  /** Confirm the ticked beers' ABVs as they stand */
+  confirmSelected: () => Promise<void>;
+
+  /** Replace one beer's ABV */
+  correctAbv: (beer: BeerWithContainerType, abv: number) => Promise<void>;
+
+  saving: boolean;
+
+  /** Why the last save failed */
+  error: string | null;
+};
+
+export const useAbvReview = (): UseAbvReviewResult => {
+  const { beers: contextBeers } = useAppContext();
+  const { saveCorrection, saveCorrections } = useBeerCorrections();
+  const [ticked, setTicked] = useState<ReadonlySet<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const beers = useMemo(
+    () => selectLowConfidenceBeers(contextBeers.allBeers),
+    [contextBeers.allBeers]
+  );
+
+  // A confirmed beer leaves the list; its tick must not linger for the next bulk confirm
+  const selectedIds = useMemo(
+    () => new Set(beers.filter(beer => ticked.has(beer.id)).map(beer => beer.id)),
+    [beers, ticked]
+  );
+
+  const toggleSelected = useCallback((id: string) => {
+    setTicked(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const toggleSelectAll = useCallback(() => {
+    setTicked(selectedIds.size === beers.length ? new Set() : new Set(beers.map(beer => beer.id)));
+  }, [beers, selectedIds]);
+
+  const save = useCallback(async (write: () => Promise<void>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await write();
+    } catch (saveError) {
+      console.error('[useAbvReview] Failed to save review:', saveError);
+      setError(saveError instanceof Error ? saveError.message : 'Could not save. Try again.');
+    } finally {
+      setSaving(false);
+    }
+  }, []);
+
+  const confirmSelected = useCallback(
+    () =>
+      save(async () => {
+        const entries = beers
+          .filter(beer => selectedIds.has(beer.id))
+          .map(beer => ({
+            beer,
+            input: {
+              beer_id: beer.id,
+              abv: beer.abv ?? null,
+              brew_style: null,
+              brew_description: null,
+            },
+          }));
+        await saveCorrections(entries);
+        setTicked(new Set());
+      }),
+    [save, beers, selectedIds, saveCorrections]
+  );
+
+  const correctAbv = useCallback(
+    (beer: BeerWithContainerType, abv: number) =>
+      save(() =>
+        saveCorrection(beer, {
+          beer_id: beer.id,
+          abv,
+          brew_style: null,
+          brew_description: null,
+        })
+      ),
+    [save, saveCorrection]
+  );
+
+  return {
+    beers,
+    selectedIds,
+    toggleSelected,
+    toggleSelectAll,
+    confirmSelected,
+    correctAbv,
+    saving,
+    error,
+  };
+};
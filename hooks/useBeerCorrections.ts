@@ -0,0 +1,93 @@
+/**
+ * useBeerCorrections Hook - The user's corrections to a beer's ABV, style and description
+ *
+ * Saving writes the correction locally first, so the list shows it straight
+ * away (the repository reports a `correction` change and AppContext patches the
+ * row), then queues it for the enrichment Worker. When online it is sent at
+ * once; otherwise the queue sends it on reconnect.
+ *
+ * @example
+ * ```tsx
+ * const { saveCorrection } = useBeerCorrections();
+ *
+ * await saveCorrection(beer, { beer_id: beer.id, abv: 6.8, brew_style: null, brew_description: null });
+ * ```
+ */
+
+import { useCallback } from 'react';
+import { useNetwork } from '@/context/NetworkContext';
+import { useOperationQueue } from '@/context/OperationQueueContext';
+import { beerCorrectionRepository } from '@/src/database/repositories/BeerCorrectionRepository';
+import { BeerWithContainerType } from '@/src/types/beer';
+import { CorrectBeerDetailsPayload, OperationType } from '@/src/types/operationQueue';
+import { BeerCorrectionInput } from '@/src/utils/beerCorrections';
+import { isOffline } from '@/src/utils/networkStatus';
+
+/** A beer and the correction to save for it */
+export type BeerCorrectionEntry = {
+  beer: BeerWithContainerType;
+  input: BeerCorrectionInput;
+};
+
+export type UseBeerCorrectionsResult = {
+  /**
+   * Save a correction and queue it for the Worker.
+   * Rejects with the validation message if the correction is invalid.
+   */
+  saveCorrection: (beer: BeerWithContainerType, input: BeerCorrectionInput) => Promise<void>;
+
+  /**
+   * Save several corrections in one write and queue each for the Worker.
+   * Rejects, saving none, if any correction is invalid.
+   */
+  saveCorrections: (entries: readonly BeerCorrectionEntry[]) => Promise<void>;
+};
+
+export const useBeerCorrections = (): UseBeerCorrectionsResult => {
+  const { isConnected, isInternetReachable } = useNetwork();
+  const { queueOperation, retryOperation, retryAll } = useOperationQueue();
+
+  const saveCorrections = useCallback(
+    async (entries: readonly BeerCorrectionEntry[]): Promise<void> => {
+      if (entries.length === 0) return;
+
+      const corrections = await beerCorrectionRepository.saveMany(
+        entries.map(entry => entry.input)
+      );
+
+      // The local save is what the user sees; a failure to queue only costs the Worker the fix
+      try {
+        const operationIds: string[] = [];
+        for (const [index, correction] of corrections.entries()) {
+          const payload: CorrectBeerDetailsPayload = {
+            beerId: correction.beer_id,
+            beerName: entries[index].beer.brew_name,
+            abv: correction.abv,
+            brewStyle: correction.brew_style,
+            brewDescription: correction.brew_description,
+          };
+          operationIds.push(await queueOperation(OperationType.CORRECT_BEER_DETAILS, payload));
+        }
+
+        if (!isOffline({ isConnected, isInternetReachable })) {
+          // One is sent at once; a batch goes through retryAll, which spaces the requests
+          await (operationIds.length === 1 ? retryOperation(operationIds[0]) : retryAll());
+        }
+      } catch (queueError) {
+        console.error(
+          '[useBeerCorrections] Failed to queue correction for the Worker:',
+          queueError
+        );
+      }
+    },
+    [isConnected, isInternetReachable, queueOperation, retryOperation, retryAll]
+  );
+
+  const saveCorrection = useCallback(
+    (beer: BeerWithContainerType, input: BeerCorrectionInput): Promise<void> =>
+      saveCorrections([{ beer, input }]),
+    [saveCorrections]
+  );
+
+  return { saveCorrection, saveCorrections };
+};
@@ -1,13 +1,36 @@
-import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { BeerWithContainerType, BeerfinderWithContainerType } from '@/src/types/beer';
+import {
+  parseSearchQuery,
+  matchesSearchQuery,
+  withoutFreeText,
+  freeTextOf,
+} from '@/src/utils/searchQuery';
+import { StyleFamily, getStyleFamily } from '@/src/utils/styleTaxonomy';
+import type { FilterPresetState } from '@/src/utils/filterPresets';
 
 // Union type to allow both BeerWithContainerType and BeerfinderWithContainerType
 type FilterableBeer = BeerWithContainerType | BeerfinderWithContainerType;
 
-export type SortOption = 'date' | 'name' | 'abv';
+export type SortOption = 'relevance' | 'date' | 'name' | 'abv' | 'rating';
 export type SortDirection = 'asc' | 'desc';
 export type ContainerFilter = 'all' | 'draft' | 'cans';
 
+/**
+ * Filter on the user's own star rating (from `beer_notes`), not the API's
+ * `review_ratings`. The threshold filters exclude unrated beers.
+ */
+export type RatingFilter = 'all' | 'rated' | '3+' | '4+' | 'unrated';
+
+/** Personal rating per beer id. A beer absent from the map is unrated. */
+export type PersonalRatings = ReadonlyMap<string, number>;
+
+/**
+ * bm25 rank per beer id the full-text index matched; lower is more relevant.
+ * A beer absent from the map was not matched by the index.
+ */
+export type FullTextRanks = ReadonlyMap<string, number>;
+
 export type FilterState = {
   containerFilter: ContainerFilter;
 };
@@ -15,8 +38,21 @@ export type FilterState = {
 export type FilterOptions = {
   containerFilter: ContainerFilter;
   searchText: string;
+  ratingFilter?: RatingFilter;
+  ratings?: PersonalRatings;
+  /**
+   * Beers the full-text index matched on the query's free text. Such a beer
+   * passes the search even when the text is only in its description, provided
+   * it meets the query's field, ABV and negated terms.
+   */
+  fullTextMatches?: FullTextRanks | null;
+  /** Style families to keep; empty or absent keeps every family */
+  styleFamilies?: ReadonlySet<StyleFamily>;
 };
 
+/** Beers per style family. A family with no beers is absent. */
+export type StyleFamilyCounts = ReadonlyMap<StyleFamily, number>;
+
 type DateSortField = 'added_date' | 'tasted_date';
 
 // Pure cycling helpers
@@ -29,33 +65,96 @@ export const nextContainerFilter = (current: ContainerFilter): ContainerFilter =
   return cycle[current];
 };
 
-export const nextSortOption = (current: SortOption): SortOption => {
-  const cycle: Record<SortOption, SortOption> = { date: 'name', name: 'abv', abv: 'date' };
+export const nextRatingFilter = (current: RatingFilter): RatingFilter => {
+  const cycle: Record<RatingFilter, RatingFilter> = {
+    all: 'rated',
+    rated: '3+',
+    '3+': '4+',
+    '4+': 'unrated',
+    unrated: 'all',
+  };
+  return cycle[current];
+};
+
+/**
+ * `includeRating` adds the personal-rating sort to the cycle, after ABV. Lists
+ * without personal ratings leave it out, and step off it if they land there.
+ * `includeRelevance` likewise adds the relevance sort, last, while a search
+ * has ranked matches.
+ */
+export const nextSortOption = (
+  current: SortOption,
+  includeRating = false,
+  includeRelevance = false
+): SortOption => {
+  const wrap: SortOption = includeRelevance ? 'relevance' : 'date';
+  const cycle: Record<SortOption, SortOption> = {
+    relevance: 'date',
+    date: 'name',
+    name: 'abv',
+    abv: includeRating ? 'rating' : wrap,
+    rating: wrap,
+  };
   return cycle[current];
 };
 
 export const defaultDirectionForSort = (sort: SortOption): SortDirection => {
-  return sort === 'date' ? 'desc' : 'asc';
+  return sort === 'relevance' || sort === 'date' || sort === 'rating' ? 'desc' : 'asc';
+};
+
+const matchesRatingFilter = (rating: number | undefined, filter: RatingFilter): boolean => {
+  switch (filter) {
+    case 'rated':
+      return rating !== undefined;
+    case '3+':
+      return rating !== undefined && rating >= 3;
+    case '4+':
+      return rating !== undefined && rating >= 4;
+    case 'unrated':
+      return rating === undefined;
+    default:
+      return true;
+  }
+};
+
+/** The stored family, or one computed now for a beer that was never normalized. */
+export const styleFamilyOf = (beer: FilterableBeer): StyleFamily =>
+  beer.style_family ?? getStyleFamily(beer.brew_style);
+
+export const countStyleFamilies = (beers: readonly FilterableBeer[]): StyleFamilyCounts => {
+  const counts = new Map<StyleFamily, number>();
+  for (const beer of beers) {
+    const family = styleFamilyOf(beer);
+    counts.set(family, (counts.get(family) ?? 0) + 1);
+  }
+  return counts;
 };
 
 export const applyFilters = <T extends FilterableBeer>(beers: T[], options: FilterOptions): T[] => {
-  const { searchText, containerFilter } = options;
+  const {
+    searchText,
+    containerFilter,
+    ratingFilter = 'all',
+    ratings,
+    fullTextMatches,
+    styleFamilies,
+  } = options;
+  const filterByStyle = styleFamilies !== undefined && styleFamilies.size > 0;
 
-  if (!searchText && containerFilter === 'all') {
+  if (!searchText && containerFilter === 'all' && ratingFilter === 'all' && !filterByStyle) {
     return beers;
   }
 
-  const searchLower = searchText ? searchText.toLowerCase() : '';
+  // Parsed once per pass, not per beer. Tokens with errors are dropped here;
+  // the SearchBar parses the same text to show hints for them.
+  const query = parseSearchQuery(searchText);
+  const structuredOnly = fullTextMatches ? withoutFreeText(query) : query;
 
   return beers.filter(beer => {
-    if (searchLower) {
-      const matchesSearch =
-        (beer.brew_name && beer.brew_name.toLowerCase().includes(searchLower)) ||
-        (beer.brewer && beer.brewer.toLowerCase().includes(searchLower)) ||
-        (beer.brew_style && beer.brew_style.toLowerCase().includes(searchLower)) ||
-        (beer.brewer_loc && beer.brewer_loc.toLowerCase().includes(searchLower));
-      if (!matchesSearch) return false;
-    }
+    const matchesSearch =
+      matchesSearchQuery(beer, query) ||
+      (fullTextMatches?.has(beer.id) === true && matchesSearchQuery(beer, structuredOnly));
+    if (!matchesSearch) return false;
 
     if (containerFilter === 'draft') {
       if (!beer.brew_container) return false;
@@ -69,20 +168,53 @@ export const applyFilters = <T extends FilterableBeer>(beers: T[], options: Filt
       if (!container.includes('bottle') && !container.includes('can')) return false;
     }
 
+    if (ratingFilter !== 'all' && !matchesRatingFilter(ratings?.get(beer.id), ratingFilter)) {
+      return false;
+    }
+
+    if (filterByStyle && !styleFamilies.has(styleFamilyOf(beer))) {
+      return false;
+    }
+
     return true;
   });
 };
 
+/**
+ * Relevance puts the index's best match first when descending. Beers the index
+ * did not rank (substring matches it missed) go last in both directions.
+ */
 export const applySorting = <T extends FilterableBeer>(
   beers: T[],
   sortBy: SortOption,
   direction: SortDirection,
-  dateField: DateSortField = 'added_date'
+  dateField: DateSortField = 'added_date',
+  ratings?: PersonalRatings,
+  ranks?: FullTextRanks | null
 ): T[] => {
   const sorted = [...beers];
   const dir = direction === 'asc' ? 1 : -1;
 
-  if (sortBy === 'name') {
+  if (sortBy === 'relevance') {
+    sorted.sort((a, b) => {
+      const rankA = ranks?.get(a.id);
+      const rankB = ranks?.get(b.id);
+      if (rankA === undefined && rankB === undefined) return 0;
+      if (rankA === undefined) return 1;
+      if (rankB === undefined) return -1;
+      return dir * (rankB - rankA);
+    });
+  } else if (sortBy === 'rating') {
+    // Unrated beers go last in both directions, as null ABVs do
+    sorted.sort((a, b) => {
+      const ratingA = ratings?.get(a.id);
+      const ratingB = ratings?.get(b.id);
+      if (ratingA === undefined && ratingB === undefined) return 0;
+      if (ratingA === undefined) return 1;
+      if (ratingB === undefined) return -1;
+      return dir * (ratingA - ratingB);
+    });
+  } else if (sortBy === 'name') {
     sorted.sort((a, b) => dir * (a.brew_name || '').localeCompare(b.brew_name || ''));
   } else if (sortBy === 'abv') {
     sorted.sort((a, b) => {
@@ -130,39 +262,159 @@ export const applySorting = <T extends FilterableBeer>(
   return sorted;
 };
 
+/**
+ * Pass `ratings` to enable the personal-rating sort and filter. Without it
+ * the rating filter stays at 'all' and the sort cycle skips 'rating'.
+ *
+ * Pass `fullTextMatches` from `useFullTextSearch` to widen the search to
+ * descriptions. While it holds a search's matches the list is sorted by
+ * relevance, until the user picks another sort; once the search is cleared the
+ * sort from before it comes back.
+ */
 export const useBeerFilters = <T extends FilterableBeer>(
   beers: T[],
-  dateField: DateSortField = 'added_date'
+  dateField: DateSortField = 'added_date',
+  ratings?: PersonalRatings,
+  fullTextMatches?: FullTextRanks | null
 ) => {
   const [containerFilter, setContainerFilter] = useState<ContainerFilter>('all');
+  const [ratingFilter, setRatingFilter] = useState<RatingFilter>('all');
   const [sortBy, setSortBy] = useState<SortOption>('date');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [searchText, setSearchText] = useState('');
+  const [styleFamilies, setStyleFamilies] = useState<ReadonlySet<StyleFamily>>(new Set());
   const [expandedId, setExpandedId] = useState<string | null>(null);
 
+  // The sort to go back to when a search stops being ranked, and whether the
+  // next ranked search should keep the sort a preset just set
+  const hasRelevance = fullTextMatches != null;
+  const sortBeforeSearch = useRef<{ sortBy: SortOption; sortDirection: SortDirection } | null>(
+    null
+  );
+  const keepSortOnSearch = useRef(false);
+  const currentSort = useRef({ sortBy, sortDirection });
+  currentSort.current = { sortBy, sortDirection };
+
+  useEffect(() => {
+    if (hasRelevance) {
+      sortBeforeSearch.current = currentSort.current;
+      if (keepSortOnSearch.current) {
+        keepSortOnSearch.current = false;
+        return;
+      }
+      setSortBy('relevance');
+      setSortDirection(defaultDirectionForSort('relevance'));
+      return;
+    }
+
+    const before = sortBeforeSearch.current;
+    sortBeforeSearch.current = null;
+    if (currentSort.current.sortBy === 'relevance') {
+      setSortBy(before?.sortBy ?? 'date');
+      setSortDirection(before?.sortDirection ?? defaultDirectionForSort('date'));
+    }
+  }, [hasRelevance]);
+
+  // Counted before the style selection is applied, so choosing IPA leaves the
+  // other families' counts visible to add to the selection.
+  const unstyledBeers = useMemo(
+    () =>
+      applyFilters(beers, {
+        containerFilter,
+        searchText,
+        ratingFilter: ratings ? ratingFilter : 'all',
+        ratings,
+        fullTextMatches,
+      }),
+    [beers, containerFilter, searchText, ratingFilter, ratings, fullTextMatches]
+  );
+
+  const styleFamilyCounts = useMemo(() => countStyleFamilies(unstyledBeers), [unstyledBeers]);
+
   const filteredBeers = useMemo(() => {
-    const filtered = applyFilters(beers, { containerFilter, searchText });
-    return applySorting(filtered, sortBy, sortDirection, dateField);
-  }, [beers, containerFilter, searchText, sortBy, sortDirection, dateField]);
+    const filtered = applyFilters(unstyledBeers, {
+      containerFilter: 'all',
+      searchText: '',
+      styleFamilies,
+    });
+    return applySorting(filtered, sortBy, sortDirection, dateField, ratings, fullTextMatches);
+  }, [unstyledBeers, styleFamilies, sortBy, sortDirection, dateField, ratings, fullTextMatches]);
 
   useEffect(() => {
     setExpandedId(null);
-  }, [containerFilter, searchText]);
+  }, [containerFilter, searchText, ratingFilter, styleFamilies]);
 
   const cycleContainerFilter = useCallback(() => {
     setContainerFilter(prev => nextContainerFilter(prev));
   }, []);
 
+  const cycleRatingFilter = useCallback(() => {
+    setRatingFilter(prev => nextRatingFilter(prev));
+  }, []);
+
+  const includeRating = ratings !== undefined;
   const cycleSort = useCallback(() => {
-    const newSort = nextSortOption(sortBy);
+    const newSort = nextSortOption(sortBy, includeRating, hasRelevance);
     setSortBy(newSort);
     setSortDirection(defaultDirectionForSort(newSort));
-  }, [sortBy]);
+  }, [sortBy, includeRating, hasRelevance]);
+
+  const toggleStyleFamily = useCallback((family: StyleFamily) => {
+    setStyleFamilies(prev => {
+      const next = new Set(prev);
+      if (!next.delete(family)) next.add(family);
+      return next;
+    });
+  }, []);
+
+  const clearStyleFamilies = useCallback(() => {
+    setStyleFamilies(new Set());
+  }, []);
 
   const toggleSortDirection = useCallback(() => {
     setSortDirection(prev => (prev === 'asc' ? 'desc' : 'asc'));
   }, []);
 
+  // Everything a preset saves. The search text is the hook's (debounced) copy.
+  const filterState = useMemo<FilterPresetState>(
+    () => ({
+      containerFilter,
+      ratingFilter,
+      sortBy,
+      sortDirection,
+      searchText,
+      styleFamilies: Array.from(styleFamilies),
+    }),
+    [containerFilter, ratingFilter, sortBy, sortDirection, searchText, styleFamilies]
+  );
+
+  /**
+   * Replace every filter at once, from a preset or the last-used state. On a
+   * list without personal ratings the rating filter and sort fall back to
+   * their defaults, as the cycles would never have reached them there; so does
+   * a relevance sort without free text to rank. The state's sort is kept when
+   * its search comes back ranked.
+   */
+  const applyFilterState = useCallback(
+    (state: FilterPresetState) => {
+      const hasFreeText = freeTextOf(parseSearchQuery(state.searchText)) !== '';
+      const sort =
+        (!includeRating && state.sortBy === 'rating') ||
+        (!hasFreeText && state.sortBy === 'relevance')
+          ? 'date'
+          : state.sortBy;
+      // Already ranked, the search stays ranked and nothing overrides the sort
+      keepSortOnSearch.current = hasFreeText && !hasRelevance;
+      setContainerFilter(state.containerFilter);
+      setRatingFilter(includeRating ? state.ratingFilter : 'all');
+      setSortBy(sort);
+      setSortDirection(sort === state.sortBy ? state.sortDirection : defaultDirectionForSort(sort));
+      setSearchText(state.searchText);
+      setStyleFamilies(new Set(state.styleFamilies));
+    },
+    [includeRating, hasRelevance]
+  );
+
   const toggleExpand = useCallback((id: string) => {
     setExpandedId(prev => (prev === id ? null : id));
   }, []);
@@ -170,12 +422,21 @@ export const useBeerFilters = <T extends FilterableBeer>(
   return {
     filteredBeers,
     containerFilter,
+    ratingFilter,
     sortBy,
     sortDirection,
+    hasRelevance,
     searchText,
+    styleFamilies,
+    styleFamilyCounts,
+    filterState,
     expandedId,
     setSearchText,
+    applyFilterState,
     cycleContainerFilter,
+    cycleRatingFilter,
+    toggleStyleFamily,
+    clearStyleFamilies,
     cycleSort,
     toggleSortDirection,
     toggleExpand,
@@ -0,0 +1,96 @@
+/**
+ * useBeerNotes Hook - The user's own ratings, tasting notes and flavor tags
+ *
+ * Loads every row of `beer_notes` once on mount and keeps it in a map keyed by
+ * beer id. Saves write through the repository and then patch the map, so the
+ * list re-sorts and re-filters on the new rating without reloading the table.
+ *
+ * The notes are independent of AppContext's beer data on purpose: a refresh
+ * replaces the tasted list wholesale, and these must outlive that.
+ *
+ * @example
+ * ```tsx
+ * const { notesById, ratings, saveNote } = useBeerNotes();
+ *
+ * await saveNote({ beer_id: beer.id, rating: 4, notes: 'Piney', flavor_tags: ['hoppy'] });
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { BeerNote } from '@/src/types/beer';
+import {
+  beerNotesRepository,
+  BeerNoteInput,
+  isEmptyBeerNote,
+} from '@/src/database/repositories/BeerNotesRepository';
+
+export type UseBeerNotesResult = {
+  /** Every stored note, keyed by beer id */
+  notesById: ReadonlyMap<string, BeerNote>;
+
+  /** Personal rating per beer id, for sorting and filtering. Unrated beers are absent. */
+  ratings: ReadonlyMap<string, number>;
+
+  /** Save (or, if every field is empty, remove) the note for a beer */
+  saveNote: (note: BeerNoteInput) => Promise<void>;
+
+  /** Load error, if the table could not be read */
+  error: string | null;
+};
+
+export const useBeerNotes = (): UseBeerNotesResult => {
+  const [notesById, setNotesById] = useState<ReadonlyMap<string, BeerNote>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    beerNotesRepository
+      .getAll()
+      .then(notes => {
+        if (cancelled) return;
+        setNotesById(new Map(notes.map(note => [note.beer_id, note])));
+        setError(null);
+      })
+      .catch(loadError => {
+        if (cancelled) return;
+        console.error('[useBeerNotes] Failed to load beer notes:', loadError);
+        setError('Could not load your ratings and notes.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const saveNote = useCallback(async (note: BeerNoteInput): Promise<void> => {
+    await beerNotesRepository.save(note);
+
+    setNotesById(prev => {
+      const next = new Map(prev);
+      if (isEmptyBeerNote(note)) {
+        next.delete(note.beer_id);
+      } else {
+        next.set(note.beer_id, {
+          ...note,
+          notes: note.notes.trim(),
+          flavor_tags: Array.from(new Set(note.flavor_tags)),
+          updated_at: Date.now(),
+        });
+      }
+      return next;
+    });
+  }, []);
+
+  const ratings = useMemo(() => {
+    const map = new Map<string, number>();
+    notesById.forEach((note, beerId) => {
+      if (note.rating !== null) {
+        map.set(beerId, note.rating);
+      }
+    });
+    return map;
+  }, [notesById]);
+
+  return { notesById, ratings, saveNote, error };
+};
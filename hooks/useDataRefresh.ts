@@ -3,6 +3,7 @@ import { Alert } from 'react-native';
 import { areApiUrlsConfigured } from '@/src/database/preferences';
 import { manualRefreshAllData } from '@/src/services/dataUpdateService';
 import { buildRefreshErrorMessages } from '@/src/utils/refreshErrorMessages';
+import { useQueuedRefresh } from './useQueuedRefresh';
 
 /**
  * Parameters for the useDataRefresh hook
@@ -50,7 +51,8 @@ export type UseDataRefreshResult = {
  * 2. Validates API URLs are configured
  * 3. Calls manualRefreshAllData() from dataUpdateService
  * 4. Handles three error scenarios:
- *    - All network errors: Shows generic connection error
+ *    - All network errors: Queues the refresh to run when back online and
+ *      shows a connection error saying so
  *    - Partial errors: Shows detailed error messages per data type
  *    - Success: No alert shown
  * 5. Reloads local data from database (even on partial success)
@@ -95,6 +97,7 @@ export const useDataRefresh = ({
   componentName = 'Component',
 }: UseDataRefreshParams): UseDataRefreshResult => {
   const [refreshing, setRefreshing] = useState(false);
+  const { queueRefresh } = useQueuedRefresh();
 
   /**
    * Handle manual refresh triggered by user pull-to-refresh gesture
@@ -168,10 +171,15 @@ export const useDataRefresh = ({
 
       if (result.hasErrors) {
         if (result.allNetworkErrors) {
-          // All errors are network-related
+          // All errors are network-related, so the same refresh can run once
+          // the connection is back
+          const queued = await queueRefresh('all');
+          const retryNote = queued
+            ? "The refresh will run again when you're back online."
+            : 'Please check your internet connection and try again later.';
           Alert.alert(
             'Server Connection Error',
-            `Unable to connect to the server. Please check your internet connection and try again later.${staleWarning}`,
+            `Unable to connect to the server. ${retryNote}${staleWarning}`,
             [{ text: 'OK' }]
           );
         } else {
@@ -198,7 +206,7 @@ export const useDataRefresh = ({
     } finally {
       setRefreshing(false);
     }
-  }, [refreshing, onDataReloaded, componentName]);
+  }, [refreshing, onDataReloaded, componentName, queueRefresh]);
 
   return {
     refreshing,
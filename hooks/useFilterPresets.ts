@@ -0,0 +1,185 @@
+/**
+ * useFilterPresets Hook - Saved presets and last-used filters for one list
+ *
+ * On mount, restores the filters the list was left with and loads its saved
+ * presets. From then on, every change to the filters is remembered, so the
+ * list reopens as it was left rather than at all/date/desc with no search.
+ *
+ * Restoring goes through `onApply`, the same path as choosing a preset. A list
+ * whose search box keeps its own text (for debouncing) should set that text in
+ * `onApply` too, or the box shows nothing while the restored search applies.
+ *
+ * @example
+ * ```tsx
+ * const { filterState, applyFilterState } = useBeerFilters(beers.allBeers);
+ * const applyPreset = useCallback(state => {
+ *   setLocalSearchText(state.searchText);
+ *   applyFilterState(state);
+ * }, [applyFilterState]);
+ * const presets = useFilterPresets('allbeers', filterState, applyPreset);
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { filterPresetRepository } from '@/src/database/repositories/FilterPresetRepository';
+import {
+  FilterPreset,
+  FilterPresetList,
+  FilterPresetState,
+  exportFilterPresets,
+  importFilterPresets,
+  isSameFilterState,
+} from '@/src/utils/filterPresets';
+
+export type UseFilterPresetsResult = {
+  /** The list's saved presets, by name */
+  presets: readonly FilterPreset[];
+
+  /** Name of the preset the current filters match exactly, if any */
+  activePresetName: string | null;
+
+  /** Save the current filters under a name, replacing a preset of that name */
+  savePreset: (name: string) => Promise<void>;
+
+  deletePreset: (name: string) => Promise<void>;
+
+  /** Every preset of this list, as one string to share */
+  exportPresets: () => string;
+
+  /**
+   * Save the presets in an export string to this list
+   * @returns How many presets were imported
+   * @throws Error with a message fit to show the user if the text is not an export
+   */
+  importPresets: (text: string) => Promise<number>;
+
+  /** Load error, if the presets could not be read */
+  error: string | null;
+};
+
+const byName = (a: FilterPreset, b: FilterPreset): number =>
+  a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+
+/** Replace presets of the same name, keeping the list sorted as the table reads it. */
+const mergePresets = (
+  current: readonly FilterPreset[],
+  saved: readonly FilterPreset[]
+): FilterPreset[] => {
+  const names = new Set(saved.map(preset => preset.name));
+  return [...current.filter(preset => !names.has(preset.name)), ...saved].sort(byName);
+};
+
+/**
+ * @param list - Which list's presets and last-used filters to use
+ * @param filterState - The filters the list is showing now
+ * @param onApply - Replaces the list's filters; called to restore and to apply a preset
+ */
+export const useFilterPresets = (
+  list: FilterPresetList,
+  filterState: FilterPresetState,
+  onApply: (state: FilterPresetState) => void
+): UseFilterPresetsResult => {
+  const [presets, setPresets] = useState<readonly FilterPreset[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [hasRestored, setHasRestored] = useState(false);
+  const lastSavedState = useRef<FilterPresetState | null>(null);
+
+  // Read once per list: a later onApply identity must not re-restore over
+  // filters the user has changed since.
+  const onApplyRef = useRef(onApply);
+  onApplyRef.current = onApply;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    filterPresetRepository
+      .getLastFilterState(list)
+      .then(state => {
+        if (cancelled) return;
+        if (state) {
+          lastSavedState.current = state;
+          onApplyRef.current(state);
+        }
+        setHasRestored(true);
+      })
+      .catch(restoreError => {
+        if (cancelled) return;
+        console.warn('[useFilterPresets] Failed to restore last-used filters:', restoreError);
+        setHasRestored(true);
+      });
+
+    filterPresetRepository
+      .getByList(list)
+      .then(stored => {
+        if (cancelled) return;
+        setPresets(stored);
+        setError(null);
+      })
+      .catch(loadError => {
+        if (cancelled) return;
+        console.error('[useFilterPresets] Failed to load filter presets:', loadError);
+        setError('Could not load your saved filters.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [list]);
+
+  // Not before the restore has settled, or the defaults a list renders with
+  // first would overwrite the state it is about to restore
+  useEffect(() => {
+    if (!hasRestored) return;
+    if (lastSavedState.current && isSameFilterState(lastSavedState.current, filterState)) return;
+
+    lastSavedState.current = filterState;
+    filterPresetRepository.setLastFilterState(list, filterState).catch(saveError => {
+      console.warn('[useFilterPresets] Failed to remember filters:', saveError);
+    });
+  }, [hasRestored, list, filterState]);
+
+  const savePreset = useCallback(
+    async (name: string): Promise<void> => {
+      const saved = await filterPresetRepository.save(list, name, filterState);
+      setPresets(prev => mergePresets(prev, [saved]));
+    },
+    [list, filterState]
+  );
+
+  const deletePreset = useCallback(
+    async (name: string): Promise<void> => {
+      await filterPresetRepository.delete(list, name);
+      setPresets(prev => prev.filter(preset => preset.name !== name));
+    },
+    [list]
+  );
+
+  const exportPresets = useCallback(() => exportFilterPresets(presets), [presets]);
+
+  const importPresets = useCallback(
+    async (text: string): Promise<number> => {
+      const saved = await filterPresetRepository.saveMany(list, importFilterPresets(text));
+      setPresets(prev => mergePresets(prev, saved));
+      return saved.length;
+    },
+    [list]
+  );
+
+  const activePresetName = useMemo(
+    () => presets.find(preset => isSameFilterState(preset.state, filterState))?.name ?? null,
+    [presets, filterState]
+  );
+
+  return useMemo(
+    () => ({
+      presets,
+      activePresetName,
+      savePreset,
+      deletePreset,
+      exportPresets,
+      importPresets,
+      error,
+    }),
+    [presets, activePresetName, savePreset, deletePreset, exportPresets, importPresets, error]
+  );
+};
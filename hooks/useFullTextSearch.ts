@@ -0,0 +1,80 @@
+/**
+ * useFullTextSearch Hook - Ranked matches from the beer_search index
+ *
+ * Sends the free-text part of a search box query to the FTS5 index, which also
+ * covers descriptions, so "coffee" finds a stout whose name never says so. The
+ * result feeds `useBeerFilters` as extra matches on top of its own substring
+ * search, with each match's rank so the list can be sorted by relevance, and
+ * gives each matched row a highlighted snippet to show.
+ *
+ * Field, ABV and negated terms stay with `useBeerFilters`. If the index cannot
+ * be queried, `matchRanks` is null and the lists search exactly as they did
+ * before the index existed.
+ *
+ * @example
+ * ```tsx
+ * const { matchRanks, snippets } = useFullTextSearch(debouncedSearchText, 'allbeers', beers.allBeers);
+ * const { filteredBeers } = useBeerFilters(beers.allBeers, 'added_date', undefined, matchRanks);
+ * ```
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { beerSearchRepository } from '@/src/database/repositories/BeerSearchRepository';
+import type { SearchSource } from '@/src/database/searchIndex';
+import { freeTextOf, parseSearchQuery } from '@/src/utils/searchQuery';
+import type { FullTextRanks } from './useBeerFilters';
+
+export type UseFullTextSearchResult = {
+  /** bm25 rank of each beer the index matched, or null when there is nothing to add */
+  matchRanks: FullTextRanks | null;
+
+  /** Highlighted snippet per matched beer id, in `splitSearchSnippet` format */
+  snippets: ReadonlyMap<string, string>;
+};
+
+const NO_RESULT: UseFullTextSearchResult = { matchRanks: null, snippets: new Map() };
+
+/**
+ * @param searchText - The (debounced) search box text
+ * @param source - Which table's index to query
+ * @param dataKey - Changes when the source table is reloaded, e.g. the beer
+ *   array from context, so the matches are re-read against the new index
+ */
+export const useFullTextSearch = (
+  searchText: string,
+  source: SearchSource,
+  dataKey?: unknown
+): UseFullTextSearchResult => {
+  const freeText = useMemo(() => freeTextOf(parseSearchQuery(searchText)), [searchText]);
+  const [result, setResult] = useState<UseFullTextSearchResult>(NO_RESULT);
+
+  useEffect(() => {
+    if (!freeText) {
+      setResult(NO_RESULT);
+      return;
+    }
+
+    let cancelled = false;
+
+    beerSearchRepository
+      .search(freeText, source)
+      .then(hits => {
+        if (cancelled) return;
+        setResult({
+          matchRanks: new Map(hits.map(hit => [hit.beer_id, hit.rank])),
+          snippets: new Map(hits.map(hit => [hit.beer_id, hit.snippet])),
+        });
+      })
+      .catch(searchError => {
+        if (cancelled) return;
+        console.warn('[useFullTextSearch] Index search failed, using plain search:', searchError);
+        setResult(NO_RESULT);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [freeText, source, dataKey]);
+
+  return result;
+};
@@ -1,6 +1,8 @@
 import { useState, useCallback, useEffect, useMemo } from 'react';
 import { router, useFocusEffect, Href } from 'expo-router';
 import { areApiUrlsConfigured } from '@/src/database/preferences';
+import { getActiveStore } from '@/src/services/storeDirectoryService';
+import { DirectoryStore } from '@/src/utils/storeDirectory';
 import { useAppContext } from '@/context/AppContext';
 
 /**
@@ -14,7 +16,9 @@ export type HomeScreenView = 'loading' | 'setup' | 'visitor' | 'member';
 export type HomeScreenUserData = {
   memberName?: string;
   email?: string;
+  /** The store whose taplist is shown: the one signed in at, or one switched to */
   storeId?: string;
+  /** The name of the store `storeId` names */
   storeName?: string;
   memberId?: string;
   tastedBeerCount: number;
@@ -35,6 +39,8 @@ export type HomeScreenActions = {
   navigateToTastedBrews: () => void;
   /** Navigate to rewards screen */
   navigateToRewards: () => void;
+  /** Navigate to the store comparison screen */
+  navigateToCompareStores: () => void;
 };
 
 /**
@@ -114,6 +120,8 @@ export type UseHomeScreenStateReturn = {
 export const useHomeScreenState = (): UseHomeScreenStateReturn => {
   const { session, beers } = useAppContext();
   const [apiUrlsConfigured, setApiUrlsConfigured] = useState<boolean | null>(null);
+  // The store switched to in Settings, which need not be the one signed in at
+  const [activeStore, setActiveStore] = useState<DirectoryStore | null>(null);
 
   /**
    * Check if API URLs are configured
@@ -123,6 +131,7 @@ export const useHomeScreenState = (): UseHomeScreenStateReturn => {
     try {
       const isConfigured = await areApiUrlsConfigured();
       setApiUrlsConfigured(isConfigured);
+      setActiveStore(isConfigured ? await getActiveStore() : null);
 
       if (!isConfigured && __DEV__) {
         if (session.isVisitor) {
@@ -186,8 +195,9 @@ export const useHomeScreenState = (): UseHomeScreenStateReturn => {
     return {
       memberName: session.firstName || session.userName,
       email: session.userEmail,
-      storeId: session.storeId,
-      storeName: session.storeName,
+      // Id and name from the same store, never the active name on the home id
+      storeId: activeStore?.store_id ?? session.storeId,
+      storeName: activeStore?.name ?? session.storeName,
       memberId: session.memberId,
       tastedBeerCount: beers.tastedBeers.length,
       allBeerCount: beers.allBeers.length,
@@ -200,6 +210,7 @@ export const useHomeScreenState = (): UseHomeScreenStateReturn => {
     session.userEmail,
     session.storeId,
     session.storeName,
+    activeStore,
     session.memberId,
     beers.tastedBeers.length,
     beers.allBeers.length,
@@ -223,6 +234,9 @@ export const useHomeScreenState = (): UseHomeScreenStateReturn => {
       navigateToRewards: () => {
         router.push('/screens/rewards' as Href);
       },
+      navigateToCompareStores: () => {
+        router.push('/screens/compare-stores' as Href);
+      },
     }),
     []
   );
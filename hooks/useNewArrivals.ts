@@ -0,0 +1,110 @@
+/**
+ * useNewArrivals Hook - Which beers on the taplist get a NEW badge
+ *
+ * A beer is new if a recorded taplist diff added it within the last
+ * `windowDays` days. The diffs are read on mount and again whenever the
+ * taplist is replaced, since a refresh that replaced it has just recorded one.
+ * An enrichment patch to the rows records nothing, so it reads nothing.
+ *
+ * The window is a preference, set from Settings. Changing it patches every
+ * mounted copy of `useNewArrivalWindow`, so the lists behind the settings
+ * screen relabel their rows without reloading.
+ *
+ * @example
+ * ```tsx
+ * const { newArrivalIds } = useNewArrivals();
+ *
+ * <BeerList newIds={newArrivalIds} />
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { subscribeToDatabaseChanges } from '@/src/database/changeEvents';
+import { taplistDiffRepository } from '@/src/database/repositories/TaplistDiffRepository';
+import {
+  DEFAULT_NEW_ARRIVAL_WINDOW_DAYS,
+  TaplistDiffRecord,
+  getNewArrivals,
+} from '@/src/utils/taplistDiff';
+
+export type UseNewArrivalWindowResult = {
+  /** Days a beer keeps its NEW badge */
+  windowDays: number;
+
+  /** Store a new window; one of NEW_ARRIVAL_WINDOW_OPTIONS */
+  setWindowDays: (days: number) => Promise<void>;
+};
+
+export type UseNewArrivalsResult = {
+  /** Ids of the beers added within the window */
+  newArrivalIds: ReadonlySet<string>;
+
+  windowDays: number;
+};
+
+/** Every mounted copy of `useNewArrivalWindow`, so a change in Settings reaches the lists */
+const mountedSetters = new Set<(days: number) => void>();
+
+export const useNewArrivalWindow = (): UseNewArrivalWindowResult => {
+  const [windowDays, setWindowDaysState] = useState<number>(DEFAULT_NEW_ARRIVAL_WINDOW_DAYS);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    mountedSetters.add(setWindowDaysState);
+    // Never rejects: an unreadable preference gives the default
+    taplistDiffRepository.getNewArrivalWindowDays().then(days => {
+      if (!cancelled) setWindowDaysState(days);
+    });
+
+    return () => {
+      cancelled = true;
+      mountedSetters.delete(setWindowDaysState);
+    };
+  }, []);
+
+  const setWindowDays = useCallback(async (days: number): Promise<void> => {
+    await taplistDiffRepository.setNewArrivalWindowDays(days);
+    mountedSetters.forEach(setter => setter(days));
+  }, []);
+
+  return useMemo(() => ({ windowDays, setWindowDays }), [windowDays, setWindowDays]);
+};
+
+export const useNewArrivals = (): UseNewArrivalsResult => {
+  const { windowDays } = useNewArrivalWindow();
+  const [records, setRecords] = useState<readonly TaplistDiffRecord[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = () => {
+      taplistDiffRepository
+        .getRecent()
+        .then(recent => {
+          if (!cancelled) setRecords(recent);
+        })
+        .catch(error => {
+          // No badges is the right fallback: the list itself is unaffected
+          if (!cancelled) console.error('[useNewArrivals] Failed to load taplist diffs:', error);
+        });
+    };
+
+    const unsubscribe = subscribeToDatabaseChanges(change => {
+      if (change.table === 'allbeers' && change.kind === 'replace') load();
+    });
+    load();
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const newArrivalIds = useMemo(
+    () => new Set(getNewArrivals(records, windowDays).keys()),
+    [records, windowDays]
+  );
+
+  return useMemo(() => ({ newArrivalIds, windowDays }), [newArrivalIds, windowDays]);
+};
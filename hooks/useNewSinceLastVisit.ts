@@ -0,0 +1,71 @@
+/**
+ * useNewSinceLastVisit Hook - What the taplist gained and lost since Home was last opened
+ *
+ * Each time the Home screen gains focus, the previous visit's time is read and
+ * the current time stored in its place. The diffs recorded after the previous
+ * visit are folded into one summary, read again whenever the taplist changes
+ * while Home is showing, so a refresh that lands after the screen opened
+ * still counts towards this visit.
+ *
+ * The first visit ever has nothing to compare with and shows nothing.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useFocusEffect } from 'expo-router';
+import { useAppContext } from '@/context/AppContext';
+import { taplistDiffRepository } from '@/src/database/repositories/TaplistDiffRepository';
+import { TaplistDiff, summarizeTaplistDiffs } from '@/src/utils/taplistDiff';
+
+const EMPTY_DIFF: TaplistDiff = { added: [], removed: [], changed: [] };
+
+export const useNewSinceLastVisit = (): TaplistDiff => {
+  const { beers } = useAppContext();
+  const [previousVisit, setPreviousVisit] = useState<number | null>(null);
+  const [summary, setSummary] = useState<TaplistDiff>(EMPTY_DIFF);
+
+  useFocusEffect(
+    useCallback(() => {
+      let cancelled = false;
+
+      (async () => {
+        const lastVisit = await taplistDiffRepository.getLastHomeVisit();
+        if (cancelled) return;
+        setPreviousVisit(lastVisit);
+        try {
+          await taplistDiffRepository.setLastHomeVisit(Date.now());
+        } catch (error) {
+          console.error('[useNewSinceLastVisit] Failed to store visit time:', error);
+        }
+      })();
+
+      return () => {
+        cancelled = true;
+      };
+    }, [])
+  );
+
+  useEffect(() => {
+    if (previousVisit === null) {
+      setSummary(EMPTY_DIFF);
+      return;
+    }
+
+    let cancelled = false;
+
+    taplistDiffRepository
+      .getRecent()
+      .then(records => {
+        if (!cancelled) setSummary(summarizeTaplistDiffs(records, previousVisit));
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('[useNewSinceLastVisit] Failed to load taplist diffs:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [previousVisit, beers.allBeers]);
+
+  return summary;
+};
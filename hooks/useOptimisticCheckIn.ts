@@ -7,7 +7,9 @@
  *
  * Features:
  * - Network-aware behavior (queue if offline, execute if online)
+ * - A double tap checks in once, online or off
  * - Session validation before check-in
+ * - Refused while another store's taplist is active (check-ins go to the home store)
  * - Success/failure feedback via alerts
  *
  * @example
@@ -29,11 +31,31 @@ import { useOptimisticUpdate } from '@/context/OptimisticUpdateContext';
 import { useAppContext } from '@/context/AppContext';
 import { checkInBeer as checkInBeerApi } from '@/src/api/beerService';
 import { BeerWithContainerType } from '@/src/types/beer';
-import { OperationType, CheckInBeerPayload } from '@/src/types/operationQueue';
+import { OperationPriority, OperationType, CheckInBeerPayload } from '@/src/types/operationQueue';
 import { OptimisticUpdateType, OptimisticUpdateStatus } from '@/src/types/optimisticUpdate';
 import { getSessionData } from '@/src/api/sessionManager';
 import { getQueuedBeers } from '@/src/api/queueService';
 import { updateLiveActivityWithQueue } from '@/src/services/liveActivityService';
+import { getActiveStoreId } from '@/src/services/storeDirectoryService';
+import { isOffline } from '@/src/utils/networkStatus';
+
+/**
+ * How long a queued check-in stays worth sending. It is for the store the user
+ * was at; once they have likely left, it fails instead of checking them in.
+ */
+export const QUEUED_CHECK_IN_LIFETIME_MS = 4 * 60 * 60 * 1000;
+
+/** Names one member's check-in of one beer at one store */
+const checkInKey = ({ memberId, storeId, beerId }: CheckInBeerPayload): string =>
+  `check-in:${memberId}:${storeId}:${beerId}`;
+
+/**
+ * Check-ins being sent or queued right now, by `checkInKey`. Shared by every
+ * screen using the hook, so a second tap on any of them is dropped while the
+ * first is in flight. The queue's idempotency key covers a check-in only once
+ * it is queued; one sent online is never queued.
+ */
+const checkInsInFlight = new Set<string>();
 
 export type UseOptimisticCheckInResult = {
   /** Execute a check-in with optimistic UI updates */
@@ -68,6 +90,7 @@ export const useOptimisticCheckIn = (): UseOptimisticCheckInResult => {
   const checkInBeer = useCallback(
     async (beer: BeerWithContainerType): Promise<void> => {
       setIsChecking(true);
+      let inFlightKey: string | null = null;
 
       try {
         // Get session data
@@ -92,6 +115,34 @@ export const useOptimisticCheckIn = (): UseOptimisticCheckInResult => {
           return;
         }
 
+        const payload: CheckInBeerPayload = {
+          beerId: beer.id,
+          beerName: beer.brew_name,
+          storeId: sessionData.storeId,
+          storeName: sessionData.storeName,
+          memberId: sessionData.memberId,
+        };
+
+        // A double tap: the first tap's check-in reports back for both
+        const key = checkInKey(payload);
+        if (checkInsInFlight.has(key)) {
+          console.log('[useOptimisticCheckIn] Already checking in:', beer.brew_name);
+          return;
+        }
+        checkInsInFlight.add(key);
+        inFlightKey = key;
+
+        // Beerfinder lists the active store's beers, but a check-in goes to the
+        // store signed in at; one from another store's taplist would be wrong there
+        const activeStoreId = await getActiveStoreId();
+        if (activeStoreId && activeStoreId !== sessionData.storeId) {
+          Alert.alert(
+            'Another Store Active',
+            `Check-ins go to ${sessionData.storeName}. Switch back to it in Settings to check in.`
+          );
+          return;
+        }
+
         // Check if beer is already in tasted list
         const wasInTastedBeers = beers.tastedBeers.some(b => b.id === beer.id);
 
@@ -100,22 +151,17 @@ export const useOptimisticCheckIn = (): UseOptimisticCheckInResult => {
           return;
         }
 
-        // Check network connectivity
-        const isOnline = isConnected && isInternetReachable;
-
-        if (!isOnline) {
+        if (isOffline({ isConnected, isInternetReachable })) {
           // Queue the operation for later
           console.log('[useOptimisticCheckIn] Offline - queueing check-in for:', beer.brew_name);
 
-          const payload: CheckInBeerPayload = {
-            beerId: beer.id,
-            beerName: beer.brew_name,
-            storeId: sessionData.storeId,
-            storeName: sessionData.storeName,
-            memberId: sessionData.memberId,
-          };
-
-          await queueOperation(OperationType.CHECK_IN_BEER, payload);
+          // The key stops a tap after this one from sending addToQueue.php
+          // twice while the check-in waits in the queue
+          await queueOperation(OperationType.CHECK_IN_BEER, payload, {
+            priority: OperationPriority.USER_ACTION,
+            idempotencyKey: key,
+            expiresAt: Date.now() + QUEUED_CHECK_IN_LIFETIME_MS,
+          });
 
           // Add to queued set to remove from Beerfinder list
           addQueuedBeer(beer.id);
@@ -186,6 +232,9 @@ export const useOptimisticCheckIn = (): UseOptimisticCheckInResult => {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
         Alert.alert('Error', errorMessage);
       } finally {
+        if (inFlightKey !== null) {
+          checkInsInFlight.delete(inFlightKey);
+        }
         setIsChecking(false);
       }
     },
@@ -0,0 +1,106 @@
+/**
+ * useQueuedRefresh Hook - Refreshes Deferred Until Back Online
+ *
+ * A pull-to-refresh that cannot reach the server is queued as a
+ * `REFRESH_ALL_DATA` or `REFRESH_REWARDS` operation and run by the operation
+ * queue once the connection comes back. Only one refresh per `dataType` waits
+ * at a time; queueing another returns the one already waiting, which then
+ * depends on the newer check-in.
+ *
+ * A refresh depends on the latest check-in still waiting in the queue, so
+ * that it runs after the check-ins and fetches the list they changed. It runs
+ * even if that check-in failed.
+ *
+ * `useQueuedRefreshSettlement` reloads the app's data when a queued refresh
+ * succeeds. It is mounted app-wide, because the queue can drain while the
+ * screen that queued the refresh is closed.
+ *
+ * @example
+ * ```tsx
+ * const { queueRefresh } = useQueuedRefresh();
+ *
+ * if (result.allNetworkErrors && (await queueRefresh('all'))) {
+ *   // Tell the user it will run when they're back online
+ * }
+ * ```
+ */
+
+import { useCallback, useEffect } from 'react';
+import { useOperationQueue } from '@/context/OperationQueueContext';
+import { useAppContext } from '@/context/AppContext';
+import {
+  OperationPriority,
+  OperationStatus,
+  OperationType,
+  QueuedOperation,
+  RefreshDataPayload,
+} from '@/src/types/operationQueue';
+
+export type UseQueuedRefreshResult = {
+  /**
+   * Queue a refresh to run when back online. Resolves to whether it is
+   * queued; never rejects, so a refresh that failed is not reported as
+   * failing twice.
+   */
+  queueRefresh: (dataType: RefreshDataPayload['dataType']) => Promise<boolean>;
+};
+
+/**
+ * Hook for queueing refreshes that could not reach the server
+ */
+export const useQueuedRefresh = (): UseQueuedRefreshResult => {
+  const { queueOperation, queuedOperations } = useOperationQueue();
+
+  const queueRefresh = useCallback(
+    async (dataType: RefreshDataPayload['dataType']): Promise<boolean> => {
+      try {
+        const payload: RefreshDataPayload = { dataType };
+        let latestCheckIn: QueuedOperation | undefined;
+        for (const operation of queuedOperations) {
+          if (
+            operation.type === OperationType.CHECK_IN_BEER &&
+            (operation.status === OperationStatus.PENDING ||
+              operation.status === OperationStatus.RETRYING) &&
+            (latestCheckIn === undefined || operation.timestamp > latestCheckIn.timestamp)
+          ) {
+            latestCheckIn = operation;
+          }
+        }
+
+        await queueOperation(
+          dataType === 'rewards' ? OperationType.REFRESH_REWARDS : OperationType.REFRESH_ALL_DATA,
+          payload,
+          { priority: OperationPriority.BACKGROUND, dependsOn: latestCheckIn?.id }
+        );
+        return true;
+      } catch (error) {
+        console.error('[useQueuedRefresh] Error queueing refresh:', error);
+        return false;
+      }
+    },
+    [queueOperation, queuedOperations]
+  );
+
+  return { queueRefresh };
+};
+
+/**
+ * Reloads the app's data from the database when a queued refresh succeeds
+ */
+export const useQueuedRefreshSettlement = (): void => {
+  const { onOperationSuccess } = useOperationQueue();
+  const { refreshBeerData } = useAppContext();
+
+  useEffect(
+    () =>
+      onOperationSuccess(async (_operationId, operation) => {
+        if (
+          operation.type === OperationType.REFRESH_ALL_DATA ||
+          operation.type === OperationType.REFRESH_REWARDS
+        ) {
+          await refreshBeerData();
+        }
+      }),
+    [onOperationSuccess, refreshBeerData]
+  );
+};
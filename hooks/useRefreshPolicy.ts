@@ -0,0 +1,88 @@
+/**
+ * useRefreshPolicy - read and change the refresh policy from Settings
+ *
+ * Each change is saved at once and takes effect on the next refresh that
+ * reads the policy; nothing already running is affected.
+ *
+ * @example
+ * ```tsx
+ * const { policy, updateSource } = useRefreshPolicy();
+ *
+ * updateSource('allBeers', { onMetered: 'wait-for-wifi' });
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { getRefreshPolicy, saveRefreshPolicy } from '@/src/services/refreshPolicyService';
+import {
+  DEFAULT_REFRESH_POLICY,
+  RefreshPolicy,
+  RefreshSource,
+  SourceRefreshPolicy,
+  withSourcePolicy,
+} from '@/src/utils/refreshPolicy';
+
+export type UseRefreshPolicyResult = {
+  /** The policy in effect; the default until the stored one is read */
+  policy: RefreshPolicy;
+
+  /** True until the stored policy is read */
+  loading: boolean;
+
+  /** Change some of one source's settings */
+  updateSource: (source: RefreshSource, changes: Partial<SourceRefreshPolicy>) => Promise<void>;
+
+  /** Change the window in which a second manual refresh forces a full download */
+  setRapidRefreshWindow: (seconds: number) => Promise<void>;
+
+  /** Go back to the default policy */
+  reset: () => Promise<void>;
+};
+
+export const useRefreshPolicy = (): UseRefreshPolicyResult => {
+  const [policy, setPolicy] = useState<RefreshPolicy>(DEFAULT_REFRESH_POLICY);
+  const [loading, setLoading] = useState(true);
+  // Changes build on the latest policy, not on the one the last render saw,
+  // so two quick taps on different rows do not undo each other
+  const policyRef = useRef(policy);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Never rejects: an unreadable preference gives the default
+    getRefreshPolicy().then(stored => {
+      if (cancelled) return;
+      policyRef.current = stored;
+      setPolicy(stored);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const save = useCallback(async (next: RefreshPolicy): Promise<void> => {
+    await saveRefreshPolicy(next);
+    policyRef.current = next;
+    setPolicy(next);
+  }, []);
+
+  const updateSource = useCallback(
+    (source: RefreshSource, changes: Partial<SourceRefreshPolicy>) =>
+      save(withSourcePolicy(policyRef.current, source, changes)),
+    [save]
+  );
+
+  const setRapidRefreshWindow = useCallback(
+    (seconds: number) => save({ ...policyRef.current, rapidRefreshWindowSeconds: seconds }),
+    [save]
+  );
+
+  const reset = useCallback(() => save(DEFAULT_REFRESH_POLICY), [save]);
+
+  return useMemo(
+    () => ({ policy, loading, updateSource, setRapidRefreshWindow, reset }),
+    [policy, loading, updateSource, setRapidRefreshWindow, reset]
+  );
+};
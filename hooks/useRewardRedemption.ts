@@ -0,0 +1,223 @@
+/**
+ * useRewardRedemption Hook - Reward Queue Management
+ *
+ * Adds a reward to the member's queue at the Saucer. Online, the request goes
+ * straight to the server; offline, it is queued as an `ADD_TO_REWARD_QUEUE`
+ * operation and retried when the connection comes back, the same way
+ * check-ins are.
+ *
+ * A queued redemption is shown as "queued" through an optimistic update whose
+ * id is the operation's id, so the two can be matched when the operation
+ * settles. `useRewardRedemptionSettlement` confirms or rolls that update back;
+ * it is mounted app-wide because the queue can drain while the Rewards screen
+ * is closed.
+ *
+ * @example
+ * ```tsx
+ * const { redeemReward, getPendingRedemption } = useRewardRedemption();
+ *
+ * const result = await redeemReward(reward);
+ * if (result.outcome === 'queued') {
+ *   // Will be sent when back online
+ * }
+ * ```
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { Alert } from 'react-native';
+import { useNetwork } from '@/context/NetworkContext';
+import { useOperationQueue } from '@/context/OperationQueueContext';
+import { useOptimisticUpdate } from '@/context/OptimisticUpdateContext';
+import { redeemReward as redeemRewardApi } from '@/src/api/rewardService';
+import { getSessionData } from '@/src/api/sessionManager';
+import { Reward } from '@/src/types/database';
+import {
+  OperationPriority,
+  OperationStatus,
+  OperationType,
+  RewardRedemptionPayload,
+  isRewardRedemptionPayload,
+} from '@/src/types/operationQueue';
+import { OptimisticUpdateStatus, OptimisticUpdateType } from '@/src/types/optimisticUpdate';
+import { isOffline } from '@/src/utils/networkStatus';
+
+/**
+ * How a redemption attempt ended: sent and accepted, queued for when the
+ * device is back online, or refused with the reason in `error`
+ */
+export type RewardRedemptionResult =
+  | { outcome: 'redeemed' }
+  | { outcome: 'queued' }
+  | { outcome: 'failed'; error: string };
+
+export type UseRewardRedemptionOptions = {
+  /** Called when a redemption queued offline has been accepted by the server */
+  onQueuedRedemptionComplete?: () => void;
+};
+
+export type UseRewardRedemptionResult = {
+  /** Redeem a reward now, or queue it if the device is offline */
+  redeemReward: (reward: Reward) => Promise<RewardRedemptionResult>;
+
+  /** The queued redemption for a reward (if any) */
+  getPendingRedemption: (rewardId: string) => { status: OptimisticUpdateStatus } | null;
+};
+
+/**
+ * Hook for redeeming rewards with offline queueing
+ */
+export const useRewardRedemption = ({
+  onQueuedRedemptionComplete,
+}: UseRewardRedemptionOptions = {}): UseRewardRedemptionResult => {
+  const { isConnected, isInternetReachable } = useNetwork();
+  const { queueOperation, queuedOperations, onOperationSuccess } = useOperationQueue();
+  const { pendingUpdates, applyOptimisticUpdate } = useOptimisticUpdate();
+
+  const onCompleteRef = useRef(onQueuedRedemptionComplete);
+  onCompleteRef.current = onQueuedRedemptionComplete;
+
+  useEffect(
+    () =>
+      onOperationSuccess((_operationId, operation) => {
+        if (operation.type === OperationType.ADD_TO_REWARD_QUEUE) {
+          onCompleteRef.current?.();
+        }
+      }),
+    [onOperationSuccess]
+  );
+
+  /**
+   * Get the queued redemption for a reward. An update whose operation has
+   * failed permanently or been deleted from the queue no longer counts, so a
+   * redemption the user gave up on does not leave the reward stuck as queued.
+   */
+  const getPendingRedemption = useCallback(
+    (rewardId: string): { status: OptimisticUpdateStatus } | null => {
+      const update = pendingUpdates.find(
+        u =>
+          u.type === OptimisticUpdateType.REDEEM_REWARD &&
+          u.rollbackData.type === 'REDEEM_REWARD' &&
+          u.rollbackData.rewardId === rewardId &&
+          queuedOperations.some(
+            op => op.id === u.operationId && op.status !== OperationStatus.FAILED
+          )
+      );
+
+      return update ? { status: update.status } : null;
+    },
+    [pendingUpdates, queuedOperations]
+  );
+
+  const redeemReward = useCallback(
+    async (reward: Reward): Promise<RewardRedemptionResult> => {
+      const sessionData = await getSessionData();
+
+      if (!sessionData || !sessionData.memberId) {
+        return {
+          outcome: 'failed',
+          error: 'You are not logged in. Please log in to queue rewards.',
+        };
+      }
+
+      if (sessionData.memberId === 'visitor') {
+        return {
+          outcome: 'failed',
+          error: 'Rewards require UFO Club member login. Please log in via Settings.',
+        };
+      }
+
+      if (getPendingRedemption(reward.reward_id)) {
+        return { outcome: 'queued' };
+      }
+
+      if (isOffline({ isConnected, isInternetReachable })) {
+        console.log('[useRewardRedemption] Offline - queueing reward:', reward.reward_type);
+
+        const payload: RewardRedemptionPayload = {
+          rewardId: reward.reward_id,
+          rewardType: reward.reward_type,
+          memberId: sessionData.memberId,
+        };
+
+        // The key stops a second tap from posting the same reward twice
+        const operationId = await queueOperation(OperationType.ADD_TO_REWARD_QUEUE, payload, {
+          priority: OperationPriority.USER_ACTION,
+          idempotencyKey: `reward:${payload.memberId}:${payload.rewardId}`,
+        });
+
+        // The operation is queued either way; the "queued" state is only how
+        // it is shown, so failing to record it must not report the
+        // redemption as failed.
+        try {
+          await applyOptimisticUpdate({
+            id: operationId,
+            type: OptimisticUpdateType.REDEEM_REWARD,
+            rollbackData: {
+              type: 'REDEEM_REWARD',
+              rewardId: reward.reward_id,
+              wasAvailable: reward.redeemed !== '1',
+            },
+            operationId,
+          });
+        } catch (error) {
+          console.error('[useRewardRedemption] Error recording queued reward:', error);
+        }
+
+        return { outcome: 'queued' };
+      }
+
+      console.log('[useRewardRedemption] Online - redeeming reward:', reward.reward_type);
+      const result = await redeemRewardApi({
+        rewardId: reward.reward_id,
+        rewardType: reward.reward_type,
+      });
+
+      if (result.success) {
+        return { outcome: 'redeemed' };
+      }
+
+      return { outcome: 'failed', error: result.error || 'Unknown error' };
+    },
+    [isConnected, isInternetReachable, queueOperation, applyOptimisticUpdate, getPendingRedemption]
+  );
+
+  return {
+    redeemReward,
+    getPendingRedemption,
+  };
+};
+
+/**
+ * Settles the optimistic "queued" state of offline reward redemptions as
+ * their operations finish: confirmed when the server accepts one, rolled back
+ * with an alert when it fails for good.
+ */
+export const useRewardRedemptionSettlement = (): void => {
+  const { onOperationSuccess, onOperationFailure } = useOperationQueue();
+  const { confirmUpdate, rollbackUpdate } = useOptimisticUpdate();
+
+  useEffect(() => {
+    const unsubscribeSuccess = onOperationSuccess(async (operationId, operation) => {
+      if (operation.type !== OperationType.ADD_TO_REWARD_QUEUE) return;
+      await confirmUpdate(operationId);
+    });
+
+    const unsubscribeFailure = onOperationFailure(async (operationId, operation, error) => {
+      if (operation.type !== OperationType.ADD_TO_REWARD_QUEUE) return;
+      await rollbackUpdate(operationId, error);
+
+      const rewardType = isRewardRedemptionPayload(operation.payload)
+        ? operation.payload.rewardType
+        : 'Your reward';
+      Alert.alert(
+        'Reward Not Queued',
+        `${rewardType} could not be added to your queue: ${error || 'Unknown error'}`
+      );
+    });
+
+    return () => {
+      unsubscribeSuccess();
+      unsubscribeFailure();
+    };
+  }, [onOperationSuccess, onOperationFailure, confirmUpdate, rollbackUpdate]);
+};
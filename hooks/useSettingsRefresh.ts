@@ -3,6 +3,7 @@ import { Alert } from 'react-native';
 import { manualRefreshAllData } from '@/src/services/dataUpdateService';
 import { getPreference } from '@/src/database/preferences';
 import { buildRefreshErrorMessages } from '@/src/utils/refreshErrorMessages';
+import { useQueuedRefresh } from './useQueuedRefresh';
 
 /**
  * Return value of the useSettingsRefresh hook
@@ -41,7 +42,8 @@ export type UseSettingsRefreshReturn = {
  * 5. Sets refreshing state to false
  *
  * **Error Handling:**
- * - Network errors are consolidated into a single message
+ * - Network errors are consolidated into a single message, and the refresh is
+ *   queued to run when back online
  * - Server errors show specific endpoint information
  * - Visitor mode is detected and messaging is adjusted accordingly
  * - All errors are caught and handled gracefully
@@ -68,84 +70,91 @@ export type UseSettingsRefreshReturn = {
  */
 export const useSettingsRefresh = (): UseSettingsRefreshReturn => {
   const [refreshing, setRefreshing] = useState(false);
+  const { queueRefresh } = useQueuedRefresh();
 
   /**
    * Handle refreshing all data from APIs
    * Shows user-friendly alerts based on success/error states
    * @param silent - If true, suppresses success alerts (errors still shown)
    */
-  const handleRefresh = useCallback(async (silent: boolean = false) => {
-    try {
-      setRefreshing(true);
+  const handleRefresh = useCallback(
+    async (silent: boolean = false) => {
+      try {
+        setRefreshing(true);
 
-      // Perform the refresh of both tables using the conditional update function
-      const result = await manualRefreshAllData();
+        // Perform the refresh of both tables using the conditional update function
+        const result = await manualRefreshAllData();
 
-      // Check if there were any errors
-      if (result.hasErrors) {
-        // If all errors are network-related, show a single consolidated message
-        if (result.allNetworkErrors) {
-          Alert.alert(
-            'Server Connection Error',
-            'Unable to connect to the server. Please check your internet connection and try again later.',
-            [{ text: 'OK' }]
-          );
-        }
-        // Otherwise, show individual error messages for each endpoint
-        else {
-          // One line per failed source, rewards included — omitting it here
-          // while `hasErrors` counted it produced an error dialog with an empty
-          // body. See refreshErrorMessages.ts.
-          const errorMessages = buildRefreshErrorMessages(result);
+        // Check if there were any errors
+        if (result.hasErrors) {
+          // If all errors are network-related, show a single consolidated message
+          if (result.allNetworkErrors) {
+            const queued = await queueRefresh('all');
+            Alert.alert(
+              'Server Connection Error',
+              queued
+                ? "Unable to connect to the server. The refresh will run again when you're back online."
+                : 'Unable to connect to the server. Please check your internet connection and try again later.',
+              [{ text: 'OK' }]
+            );
+          }
+          // Otherwise, show individual error messages for each endpoint
+          else {
+            // One line per failed source, rewards included — omitting it here
+            // while `hasErrors` counted it produced an error dialog with an empty
+            // body. See refreshErrorMessages.ts.
+            const errorMessages = buildRefreshErrorMessages(result);
 
-          // Show error alert with all error messages
-          Alert.alert(
-            'Data Refresh Error',
-            `There were problems refreshing beer data:\n\n${errorMessages.join('\n\n')}`,
-            [{ text: 'OK' }]
-          );
+            // Show error alert with all error messages
+            Alert.alert(
+              'Data Refresh Error',
+              `There were problems refreshing beer data:\n\n${errorMessages.join('\n\n')}`,
+              [{ text: 'OK' }]
+            );
+          }
         }
-      }
-      // If no errors but data was updated
-      else if (result.allBeersResult.dataUpdated || result.myBeersResult.dataUpdated) {
-        // Only show success alert if not in silent mode
-        if (!silent) {
-          // Show success message with counts
-          const allBeersCount = result.allBeersResult.itemCount || 0;
-          const tastedBeersCount = result.myBeersResult.itemCount || 0;
+        // If no errors but data was updated
+        else if (result.allBeersResult.dataUpdated || result.myBeersResult.dataUpdated) {
+          // Only show success alert if not in silent mode
+          if (!silent) {
+            // Show success message with counts
+            const allBeersCount = result.allBeersResult.itemCount || 0;
+            const tastedBeersCount = result.myBeersResult.itemCount || 0;
 
-          // Check if user is in visitor mode to customize message
-          const isVisitor = (await getPreference('is_visitor_mode')) === 'true';
+            // Check if user is in visitor mode to customize message
+            const isVisitor = (await getPreference('is_visitor_mode')) === 'true';
 
-          let successMessage = `Beer data refreshed successfully!\n\nAll Beers: ${allBeersCount} beers\n`;
+            let successMessage = `Beer data refreshed successfully!\n\nAll Beers: ${allBeersCount} beers\n`;
 
-          if (!isVisitor) {
-            // Beerfinder = beers available to check-in (All Beers - Tasted Beers)
-            // Optimized: Use counts from refresh result instead of redundant database queries
-            // This is mathematically correct because Beerfinder = All Beers - Tasted Beers
-            const beerfinderCount = allBeersCount - tastedBeersCount;
+            if (!isVisitor) {
+              // Beerfinder = beers available to check-in (All Beers - Tasted Beers)
+              // Optimized: Use counts from refresh result instead of redundant database queries
+              // This is mathematically correct because Beerfinder = All Beers - Tasted Beers
+              const beerfinderCount = allBeersCount - tastedBeersCount;
 
-            successMessage += `Tasted Beers: ${tastedBeersCount} beers\n`;
-            successMessage += `Beerfinder (available): ${beerfinderCount} beers`;
-          } else {
-            successMessage += 'Visitor mode: Personal data not available';
-          }
+              successMessage += `Tasted Beers: ${tastedBeersCount} beers\n`;
+              successMessage += `Beerfinder (available): ${beerfinderCount} beers`;
+            } else {
+              successMessage += 'Visitor mode: Personal data not available';
+            }
 
-          Alert.alert('Success', successMessage);
+            Alert.alert('Success', successMessage);
+          }
         }
+        // If no errors and no data was updated
+        else if (!silent) {
+          Alert.alert('Info', 'No new data available.');
+        }
+      } catch (err) {
+        console.error('Failed to refresh data:', err);
+        Alert.alert('Error', 'Failed to refresh data from server. Please try again later.');
+      } finally {
+        // Set refreshing to false at the end, in both success and error cases
+        setRefreshing(false);
       }
-      // If no errors and no data was updated
-      else if (!silent) {
-        Alert.alert('Info', 'No new data available.');
-      }
-    } catch (err) {
-      console.error('Failed to refresh data:', err);
-      Alert.alert('Error', 'Failed to refresh data from server. Please try again later.');
-    } finally {
-      // Set refreshing to false at the end, in both success and error cases
-      setRefreshing(false);
-    }
-  }, []);
+    },
+    [queueRefresh]
+  );
 
   return {
     refreshing,
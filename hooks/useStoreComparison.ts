@@ -0,0 +1,168 @@
+/**
+ * useStoreComparison Hook - The active store's taplist beside the saved stores'
+ *
+ * Loads the saved stores on mount and compares their cached taplists with the
+ * active store's, which is read from AppContext's `allBeers` and never fetched
+ * here. Refreshing fetches the saved stores only; the active store is refreshed
+ * by the usual pull-to-refresh on the lists.
+ *
+ * "Untasted" means not in the member's current-round tasted list, as on
+ * Beerfinder.
+ *
+ * @example
+ * ```tsx
+ * const { comparison, refresh, refreshing } = useStoreComparison();
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAppContext } from '@/context/AppContext';
+import { storeTaplistRepository } from '@/src/database/repositories/StoreTaplistRepository';
+import { refreshStoreTaplists, StoreRefreshOutcome } from '@/src/services/storeComparisonService';
+import { getActiveStoreId, loadStoreDirectory } from '@/src/services/storeDirectoryService';
+import {
+  ComparedStore,
+  compareStoreTaplists,
+  StoreComparisonEntry,
+  StoreTaplist,
+} from '@/src/utils/storeComparison';
+
+export type UseStoreComparisonResult = {
+  /** The active store first, then the saved stores in the order they were added */
+  comparison: readonly StoreComparisonEntry[];
+
+  /** Save a store to compare and fetch its taplist */
+  addStore: (storeId: string, storeName: string) => Promise<void>;
+
+  removeStore: (storeId: string) => Promise<void>;
+
+  /** Fetch every saved store's taplist again */
+  refresh: () => Promise<void>;
+
+  refreshing: boolean;
+
+  /** Why the last refresh of a store failed, by store id */
+  failures: ReadonlyMap<string, string>;
+
+  /** Load error, if the saved stores could not be read */
+  error: string | null;
+};
+
+export const useStoreComparison = (): UseStoreComparisonResult => {
+  const { session, beers } = useAppContext();
+  const [stores, setStores] = useState<readonly StoreTaplist[]>([]);
+  const [activeStore, setActiveStore] = useState<{ id: string; name: string | null }>({
+    id: '',
+    name: null,
+  });
+  const [refreshing, setRefreshing] = useState(false);
+  const [failures, setFailures] = useState<ReadonlyMap<string, string>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+
+  const homeStoreId = activeStore.id;
+
+  const load = useCallback(async (): Promise<readonly StoreTaplist[]> => {
+    try {
+      const [saved, activeId, directory] = await Promise.all([
+        storeTaplistRepository.getCompared(),
+        getActiveStoreId(),
+        loadStoreDirectory(),
+      ]);
+      const id = activeId ?? '';
+      setActiveStore({
+        id,
+        name: directory.find(store => store.store_id === id)?.name ?? null,
+      });
+      setStores(saved);
+      setError(null);
+      return saved;
+    } catch (loadError) {
+      console.error('[useStoreComparison] Failed to load saved stores:', loadError);
+      setError('Could not load your saved stores.');
+      return [];
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const applyOutcomes = useCallback((outcomes: readonly StoreRefreshOutcome[]) => {
+    setFailures(prev => {
+      const next = new Map(prev);
+      for (const outcome of outcomes) {
+        if (outcome.status === 'failed') {
+          next.set(outcome.storeId, outcome.message);
+        } else {
+          next.delete(outcome.storeId);
+        }
+      }
+      return next;
+    });
+  }, []);
+
+  const fetchStores = useCallback(
+    async (toFetch: readonly StoreTaplist[]) => {
+      setRefreshing(true);
+      try {
+        applyOutcomes(await refreshStoreTaplists(toFetch));
+        await load();
+      } finally {
+        setRefreshing(false);
+      }
+    },
+    [applyOutcomes, load]
+  );
+
+  const refresh = useCallback(
+    () => fetchStores(stores.filter(store => store.store_id !== homeStoreId)),
+    [fetchStores, stores, homeStoreId]
+  );
+
+  const addStore = useCallback(
+    async (storeId: string, storeName: string): Promise<void> => {
+      if (storeId.trim() === homeStoreId) {
+        throw new Error('That is your active store, which is always compared.');
+      }
+      const added = await storeTaplistRepository.add(storeId, storeName);
+      const saved = await load();
+      await fetchStores(saved.filter(store => store.store_id === added.store_id));
+    },
+    [homeStoreId, load, fetchStores]
+  );
+
+  const removeStore = useCallback(async (storeId: string): Promise<void> => {
+    await storeTaplistRepository.remove(storeId);
+    setStores(prev => prev.filter(store => store.store_id !== storeId));
+  }, []);
+
+  const comparison = useMemo(() => {
+    const home: ComparedStore = {
+      store_id: homeStoreId,
+      // The directory's name, or the signed-in store's when it is that one
+      store_name:
+        activeStore.name ??
+        (homeStoreId === session.storeId ? session.storeName : undefined) ??
+        'Active store',
+      beers: beers.allBeers,
+      fetched_at: null,
+      is_home: true,
+    };
+    const others: ComparedStore[] = stores
+      .filter(store => store.store_id !== homeStoreId)
+      .map(store => ({ ...store, is_home: false }));
+    const tastedIds = new Set(beers.tastedBeers.map(beer => beer.id));
+
+    return compareStoreTaplists([home, ...others], tastedIds);
+  }, [
+    homeStoreId,
+    activeStore.name,
+    session.storeId,
+    session.storeName,
+    beers.allBeers,
+    beers.tastedBeers,
+    stores,
+  ]);
+
+  return { comparison, addStore, removeStore, refresh, refreshing, failures, error };
+};
@@ -0,0 +1,175 @@
+/**
+ * useStoreDirectory Hook - The store directory and switching the active store
+ *
+ * Loads the directory nearest first from the active store, with what each
+ * store has cached. A switch restores the store's cache at once, reloads
+ * AppContext from it, then fetches the store's taplist in the background; a
+ * failed fetch leaves the cached taplist in place.
+ *
+ * @example
+ * ```tsx
+ * const { stores, activeStoreId, switchStore } = useStoreDirectory();
+ * ```
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAppContext } from '@/context/AppContext';
+import { storeTaplistRepository } from '@/src/database/repositories/StoreTaplistRepository';
+import {
+  storeDirectoryRepository,
+  StoreDirectoryEntry,
+} from '@/src/database/repositories/StoreDirectoryRepository';
+import { fetchAndUpdateAllBeers } from '@/src/services/dataUpdateService';
+import {
+  getActiveStoreId,
+  loadStoreDirectory,
+  refreshStoreDirectory,
+  StoreSwitchResult,
+  switchActiveStore,
+} from '@/src/services/storeDirectoryService';
+import { DirectoryStore, sortByDistanceFrom } from '@/src/utils/storeDirectory';
+
+/** A directory entry with what the app holds for it */
+export type StoreDirectoryItem = DirectoryStore & {
+  /** Beers in the store's cached taplist; null when it has none */
+  cachedBeerCount: number | null;
+  /** When the cached taplist was fetched, in epoch ms */
+  cachedAt: number | null;
+};
+
+export type UseStoreDirectoryResult = {
+  /** The active store first, then nearest first */
+  stores: readonly StoreDirectoryItem[];
+
+  activeStoreId: string | null;
+
+  /** Make a store the active one; the store being switched to is in `switchingTo` */
+  switchStore: (storeId: string) => Promise<StoreSwitchResult>;
+
+  /** Fetch the directory from the enrichment proxy */
+  refreshDirectory: () => Promise<void>;
+
+  /** Add a store, or correct one, as the user enters it */
+  saveEntry: (entry: StoreDirectoryEntry) => Promise<void>;
+
+  /** Drop the user's or the fetched entry; a bundled store reverts to the shipped one */
+  removeEntry: (storeId: string) => Promise<void>;
+
+  switchingTo: string | null;
+
+  refreshing: boolean;
+
+  /** Why the directory could not be loaded or refreshed */
+  error: string | null;
+};
+
+export const useStoreDirectory = (): UseStoreDirectoryResult => {
+  const { refreshBeerData } = useAppContext();
+  const [stores, setStores] = useState<readonly StoreDirectoryItem[]>([]);
+  const [activeStoreId, setActiveStoreId] = useState<string | null>(null);
+  const [switchingTo, setSwitchingTo] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [directory, activeId, cached] = await Promise.all([
+        loadStoreDirectory(),
+        getActiveStoreId(),
+        storeTaplistRepository.getAllCached(),
+      ]);
+      const cacheById = new Map(cached.map(store => [store.store_id, store]));
+
+      setActiveStoreId(activeId);
+      setStores(
+        sortByDistanceFrom(directory, activeId).map(store => {
+          const cache = cacheById.get(store.store_id);
+          return {
+            ...store,
+            cachedBeerCount: cache && cache.fetched_at !== null ? cache.beers.length : null,
+            cachedAt: cache?.fetched_at ?? null,
+          };
+        })
+      );
+      setError(null);
+    } catch (loadError) {
+      console.error('[useStoreDirectory] Failed to load the store directory:', loadError);
+      setError('Could not load the store directory.');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const switchStore = useCallback(
+    async (storeId: string): Promise<StoreSwitchResult> => {
+      setSwitchingTo(storeId);
+      try {
+        const result = await switchActiveStore(storeId);
+        if (result.status === 'switched') {
+          await refreshBeerData();
+          await load();
+
+          // Not awaited: the cached taplist is already showing
+          fetchAndUpdateAllBeers()
+            .then(async update => {
+              if (update.dataUpdated) {
+                await refreshBeerData();
+                await load();
+              }
+            })
+            .catch(fetchError => {
+              console.error('[useStoreDirectory] Failed to refresh the new store:', fetchError);
+            });
+        }
+        return result;
+      } finally {
+        setSwitchingTo(null);
+      }
+    },
+    [refreshBeerData, load]
+  );
+
+  const refreshDirectory = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      const outcome = await refreshStoreDirectory();
+      await load();
+      // After the load, which clears the error it finds nothing wrong with
+      if (outcome.status === 'failed') {
+        setError(outcome.message);
+      }
+    } finally {
+      setRefreshing(false);
+    }
+  }, [load]);
+
+  const saveEntry = useCallback(
+    async (entry: StoreDirectoryEntry) => {
+      await storeDirectoryRepository.saveUserEntry(entry);
+      await load();
+    },
+    [load]
+  );
+
+  const removeEntry = useCallback(
+    async (storeId: string) => {
+      await storeDirectoryRepository.removeEntry(storeId);
+      await load();
+    },
+    [load]
+  );
+
+  return {
+    stores,
+    activeStoreId,
+    switchStore,
+    refreshDirectory,
+    saveEntry,
+    removeEntry,
+    switchingTo,
+    refreshing,
+    error,
+  };
+};
@@ -0,0 +1,134 @@
+/**
+ * useTaplistSnapshots Hook - Browse the current store's earlier taplists
+ *
+ * Lists the snapshots kept for the store in `all_beers_api_url`, newest first,
+ * and loads one's beers when it is selected. The list is read on mount, again
+ * whenever the taplist is replaced (a refresh keeps a snapshot of it, and a
+ * store switch changes whose are listed), and on `reload`, which the picker
+ * calls as it opens.
+ *
+ * A selected snapshot that is no longer listed — pruned, or another store's —
+ * is cleared, returning the screen to the current taplist.
+ *
+ * @example
+ * ```tsx
+ * const { snapshots, selected, snapshotBeers, selectSnapshot } = useTaplistSnapshots();
+ *
+ * const beers = snapshotBeers ?? allBeers;
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { subscribeToDatabaseChanges } from '@/src/database/changeEvents';
+import { getPreference } from '@/src/database/preferences';
+import { taplistSnapshotRepository } from '@/src/database/repositories/TaplistSnapshotRepository';
+import { calculateContainerTypes } from '@/src/database/utils/glassTypeCalculator';
+import { BeerWithContainerType } from '@/src/types/beer';
+import { storeIdFromTaplistUrl } from '@/src/utils/storeDirectory';
+import { TaplistSnapshot } from '@/src/utils/taplistSnapshot';
+
+export type UseTaplistSnapshotsResult = {
+  /** The current store's snapshots, newest first */
+  snapshots: readonly TaplistSnapshot[];
+
+  /** The snapshot being browsed, or null for the current taplist */
+  selected: TaplistSnapshot | null;
+
+  /** The selected snapshot's beers, or null for the current taplist */
+  snapshotBeers: BeerWithContainerType[] | null;
+
+  /** Whether a selected snapshot's beers are still loading */
+  loadingSnapshot: boolean;
+
+  /** Browse a snapshot, or pass null to return to the current taplist */
+  selectSnapshot: (id: number | null) => Promise<void>;
+
+  /** Read the list of snapshots again */
+  reload: () => void;
+};
+
+export const useTaplistSnapshots = (): UseTaplistSnapshotsResult => {
+  const [snapshots, setSnapshots] = useState<readonly TaplistSnapshot[]>([]);
+  const [selected, setSelected] = useState<TaplistSnapshot | null>(null);
+  const [snapshotBeers, setSnapshotBeers] = useState<BeerWithContainerType[] | null>(null);
+  const [loadingSnapshot, setLoadingSnapshot] = useState(false);
+  const isMountedRef = useRef(true);
+  // The selection a load is for, so a slow load cannot overwrite a newer choice
+  const requestedIdRef = useRef<number | null>(null);
+
+  const clearSelection = useCallback(() => {
+    requestedIdRef.current = null;
+    setSelected(null);
+    setSnapshotBeers(null);
+    setLoadingSnapshot(false);
+  }, []);
+
+  const reload = useCallback(() => {
+    (async () => {
+      const storeId = storeIdFromTaplistUrl((await getPreference('all_beers_api_url')) ?? '');
+      return storeId ? taplistSnapshotRepository.getForStore(storeId) : [];
+    })()
+      .then(listed => {
+        if (!isMountedRef.current) return;
+        setSnapshots(listed);
+        const requestedId = requestedIdRef.current;
+        if (requestedId !== null && !listed.some(snapshot => snapshot.id === requestedId)) {
+          clearSelection();
+        }
+      })
+      .catch(error => {
+        // No history to browse is the right fallback: the current taplist is unaffected
+        if (isMountedRef.current) {
+          console.error('[useTaplistSnapshots] Failed to load taplist snapshots:', error);
+        }
+      });
+  }, [clearSelection]);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    const unsubscribe = subscribeToDatabaseChanges(change => {
+      if (change.table === 'allbeers' && change.kind === 'replace') reload();
+    });
+    reload();
+
+    return () => {
+      isMountedRef.current = false;
+      unsubscribe();
+    };
+  }, [reload]);
+
+  const selectSnapshot = useCallback(
+    async (id: number | null): Promise<void> => {
+      const snapshot = id === null ? undefined : snapshots.find(listed => listed.id === id);
+      if (!snapshot) {
+        clearSelection();
+        return;
+      }
+
+      requestedIdRef.current = snapshot.id;
+      setSelected(snapshot);
+      setLoadingSnapshot(true);
+      try {
+        const beers = await taplistSnapshotRepository.getBeers(snapshot.id);
+        if (!isMountedRef.current || requestedIdRef.current !== snapshot.id) return;
+        if (beers === null) {
+          console.error(`[useTaplistSnapshots] Snapshot ${snapshot.id} could not be read`);
+          clearSelection();
+          return;
+        }
+        setSnapshotBeers(calculateContainerTypes(beers));
+        setLoadingSnapshot(false);
+      } catch (error) {
+        if (!isMountedRef.current || requestedIdRef.current !== snapshot.id) return;
+        console.error('[useTaplistSnapshots] Failed to load taplist snapshot:', error);
+        clearSelection();
+      }
+    },
+    [snapshots, clearSelection]
+  );
+
+  return useMemo(
+    () => ({ snapshots, selected, snapshotBeers, loadingSnapshot, selectSnapshot, reload }),
+    [snapshots, selected, snapshotBeers, loadingSnapshot, selectSnapshot, reload]
+  );
+};
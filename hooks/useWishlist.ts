@@ -0,0 +1,110 @@
+/**
+ * useWishlist Hook - Beers the user has starred to try
+ *
+ * Loads the `wishlist` table on mount. Adding or removing a beer writes
+ * through the repository and then patches every mounted copy of the hook, so
+ * a star toggled on All Beers shows on the Wishlist tab and on Beerfinder
+ * without either reloading the table.
+ *
+ * Which wishlisted beers are on tap is not stored here: a beer is on tap if
+ * it is in AppContext's `allBeers`, and the lists already hold that.
+ *
+ * @example
+ * ```tsx
+ * const { wishlistIds, toggleWishlist } = useWishlist();
+ *
+ * <BeerList wishlistIds={wishlistIds} onToggleWishlist={beer => void toggleWishlist(beer)} />
+ * ```
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { WishlistEntry } from '@/src/types/beer';
+import { wishlistRepository, WishlistBeer } from '@/src/database/repositories/WishlistRepository';
+
+export type UseWishlistResult = {
+  /** Every wishlisted beer, most recently starred first */
+  entries: readonly WishlistEntry[];
+
+  /** Ids of the wishlisted beers, for marking rows in a list */
+  wishlistIds: ReadonlySet<string>;
+
+  /** Add the beer if it is not on the wishlist, otherwise remove it */
+  toggleWishlist: (beer: WishlistBeer) => Promise<void>;
+
+  removeFromWishlist: (beerId: string) => Promise<void>;
+
+  /** Read the table again, e.g. after a refresh has stamped `last_seen_on_tap` */
+  reload: () => Promise<void>;
+
+  /** Load error, if the table could not be read */
+  error: string | null;
+};
+
+type EntriesPatch = (entries: readonly WishlistEntry[]) => readonly WishlistEntry[];
+
+/** Every mounted copy of the hook, so one copy's write reaches the others */
+const mountedPatchers = new Set<(patch: EntriesPatch) => void>();
+
+const broadcast = (patch: EntriesPatch): void => {
+  mountedPatchers.forEach(applyPatch => applyPatch(patch));
+};
+
+export const useWishlist = (): UseWishlistResult => {
+  const [entries, setEntries] = useState<readonly WishlistEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (isCancelled: () => boolean = () => false) => {
+    try {
+      const stored = await wishlistRepository.getAll();
+      if (isCancelled()) return;
+      setEntries(stored);
+      setError(null);
+    } catch (loadError) {
+      if (isCancelled()) return;
+      console.error('[useWishlist] Failed to load wishlist:', loadError);
+      setError('Could not load your wishlist.');
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const applyPatch = (patch: EntriesPatch) => setEntries(prev => patch(prev));
+
+    mountedPatchers.add(applyPatch);
+    load(() => cancelled);
+
+    return () => {
+      cancelled = true;
+      mountedPatchers.delete(applyPatch);
+    };
+  }, [load]);
+
+  const wishlistIds = useMemo(() => new Set(entries.map(entry => entry.beer_id)), [entries]);
+
+  const removeFromWishlist = useCallback(async (beerId: string): Promise<void> => {
+    await wishlistRepository.remove(beerId);
+    broadcast(prev => prev.filter(entry => entry.beer_id !== beerId));
+  }, []);
+
+  const toggleWishlist = useCallback(
+    async (beer: WishlistBeer): Promise<void> => {
+      if (wishlistIds.has(beer.id)) {
+        await removeFromWishlist(beer.id);
+        return;
+      }
+
+      const added = await wishlistRepository.add(beer);
+      broadcast(prev =>
+        prev.some(entry => entry.beer_id === added.beer_id) ? prev : [added, ...prev]
+      );
+    },
+    [wishlistIds, removeFromWishlist]
+  );
+
+  const reload = useCallback(() => load(), [load]);
+
+  return useMemo(
+    () => ({ entries, wishlistIds, toggleWishlist, removeFromWishlist, reload, error }),
+    [entries, wishlistIds, toggleWishlist, removeFromWishlist, reload, error]
+  );
+};
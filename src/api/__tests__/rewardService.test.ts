@@ -0,0 +1,118 @@
+import { redeemReward } from '../rewardService';
+import { getSessionData } from '../sessionManager';
+import { autoLogin } from '../authService';
+import { ApiClient } from '../apiClient';
+import { ApiError } from '../../types/api';
+
+jest.mock('../sessionManager');
+jest.mock('../authService');
+
+// The service takes its client when it is imported, so the mock client is
+// built inside the factory rather than referenced from this file.
+jest.mock('../apiClient', () => {
+  const client = { request: jest.fn() };
+  return { ApiClient: { getInstance: () => client } };
+});
+
+const mockApiClient = ApiClient.getInstance() as unknown as { request: jest.Mock };
+
+const reward = { rewardId: 'r-42', rewardType: 'Free Plate' };
+
+describe('rewardService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation();
+
+    (getSessionData as jest.Mock).mockResolvedValue({
+      memberId: 'member-1',
+      storeId: 'store-1',
+      storeName: 'Test Saucer',
+      sessionId: 'session-1',
+    });
+  });
+
+  describe('redeemReward', () => {
+    it('posts the reward to the reward queue with the rewards page as referer', async () => {
+      mockApiClient.request.mockResolvedValue({ success: true, data: {}, statusCode: 200 });
+
+      await expect(redeemReward(reward)).resolves.toMatchObject({ success: true });
+
+      const [endpoint, options] = mockApiClient.request.mock.calls[0];
+      expect(endpoint).toBe('/addToRewardQueue.php');
+      expect(options.method).toBe('POST');
+      expect(Object.fromEntries(new URLSearchParams(options.body))).toEqual({
+        chitCode: 'r-42',
+        chitRewardType: 'Free Plate',
+        chitStoreName: 'Test Saucer',
+        chitUserId: 'member-1',
+      });
+      expect(options.headers.referer).toContain('/memberRewards.php');
+    });
+
+    it('treats a 200 with a body that is not JSON as accepted', async () => {
+      mockApiClient.request.mockResolvedValue({
+        success: false,
+        data: null,
+        error: 'Response is not valid JSON: OK',
+        statusCode: 200,
+      });
+
+      await expect(redeemReward(reward)).resolves.toMatchObject({ success: true });
+    });
+
+    it.each([
+      [503, true],
+      [0, true],
+      [403, false],
+    ])('marks a failure with status %d as retryable: %s', async (statusCode, isRetryable) => {
+      mockApiClient.request.mockResolvedValue({
+        success: false,
+        data: null,
+        error: `HTTP error! status: ${statusCode}`,
+        statusCode,
+      });
+
+      await expect(redeemReward(reward)).resolves.toMatchObject({ success: false, isRetryable });
+    });
+
+    it('refuses a queued redemption made for a different member', async () => {
+      const result = await redeemReward(reward, 'member-2');
+
+      expect(result).toMatchObject({ success: false });
+      expect(result.isRetryable).toBeFalsy();
+      expect(mockApiClient.request).not.toHaveBeenCalled();
+    });
+
+    it('does not send anything in visitor mode', async () => {
+      (getSessionData as jest.Mock).mockResolvedValue({
+        memberId: 'visitor',
+        storeId: 'store-1',
+        storeName: 'Test Saucer',
+        sessionId: 'session-1',
+      });
+
+      await expect(redeemReward(reward)).resolves.toMatchObject({ success: false });
+      expect(mockApiClient.request).not.toHaveBeenCalled();
+    });
+
+    it('fails without retrying when there is no session and auto-login fails', async () => {
+      (getSessionData as jest.Mock).mockResolvedValue(null);
+      (autoLogin as jest.Mock).mockResolvedValue({ success: false });
+
+      await expect(redeemReward(reward)).resolves.toMatchObject({
+        success: false,
+        isRetryable: false,
+      });
+    });
+
+    it('keeps the retryability of an error the client throws', async () => {
+      mockApiClient.request.mockRejectedValue(new ApiError('Request timed out', 408, false, true));
+
+      await expect(redeemReward(reward)).resolves.toMatchObject({
+        success: false,
+        error: 'Request timed out',
+        isRetryable: true,
+      });
+    });
+  });
+});
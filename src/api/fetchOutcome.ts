@@ -113,8 +113,8 @@ export type FetchedSource<T> =
  * the unions by axis — and that argument is about the shape of the SHARED union,
  * not about what each individual producer declares it can return. None of the
  * three `beerApi` fetchers sends `If-None-Match`; only the enrichment proxy does,
- * and `dataUpdateService` handles its 304 separately without ever building a
- * `FetchedSource`.
+ * and `taplistSources.ts` answers its 304 with an `unchanged` of its own that
+ * carries the ETag, rather than through `FetchedSource`.
  *
  * Two of the five consumers were therefore carrying a branch for a state their
  * input could not be in. Those branches cannot be tested through the public API, and an untested
@@ -0,0 +1,120 @@
+import { getSessionData } from './sessionManager';
+import { autoLogin } from './authService';
+import { ApiClient } from './apiClient';
+import { ApiError, RewardRedemptionResponse } from '../types/api';
+import { RewardRedemptionPayload } from '../types/operationQueue';
+import { config } from '@/src/config';
+
+const apiClient = ApiClient.getInstance();
+
+/**
+ * Whether a failed request is worth sending again: no connection, a timeout,
+ * rate limiting or a server error. Mirrors `ApiError.retryable`.
+ */
+const isRetryableStatus = (statusCode: number): boolean =>
+  statusCode === 0 || statusCode === 408 || statusCode === 429 || statusCode >= 500;
+
+/**
+ * Adds a reward to the member's queue by making an API request to
+ * tapthatapp.beerknurd.com
+ * @param reward The reward to redeem
+ * @param memberId The member the redemption was made for, when it was queued
+ * earlier. A redemption queued offline is refused rather than sent for
+ * whoever happens to be logged in by the time it runs.
+ * @returns A promise that resolves to the response data
+ */
+export const redeemReward = async (
+  reward: Pick<RewardRedemptionPayload, 'rewardId' | 'rewardType'>,
+  memberId?: string
+): Promise<RewardRedemptionResponse> => {
+  try {
+    // Get session data from secure storage
+    let sessionData = await getSessionData();
+
+    // If no session data or session is missing required fields, try auto-login
+    if (
+      !sessionData ||
+      !sessionData.memberId ||
+      !sessionData.storeId ||
+      !sessionData.storeName ||
+      !sessionData.sessionId
+    ) {
+      console.log('Session data invalid or missing, attempting auto-login');
+      const loginResult = await autoLogin();
+
+      if (!loginResult.success) {
+        throw new ApiError('No session data found. Please log in again.', 401, false, false);
+      }
+
+      sessionData = loginResult.sessionData;
+      console.log('Auto-login successful, continuing with reward redemption');
+    }
+
+    if (sessionData.memberId === 'visitor') {
+      return {
+        success: false,
+        error: 'Rewards require UFO Club member login. Please log in via Settings.',
+        message: 'Visitor mode does not support rewards',
+      };
+    }
+
+    if (memberId !== undefined && memberId !== sessionData.memberId) {
+      return {
+        success: false,
+        error: 'This reward was queued by a different member.',
+        message: 'Reward redemption refused',
+      };
+    }
+
+    const body = new URLSearchParams({
+      chitCode: reward.rewardId,
+      chitRewardType: reward.rewardType,
+      chitStoreName: sessionData.storeName,
+      chitUserId: sessionData.memberId,
+    });
+
+    const response = await apiClient.request<Record<string, unknown>>(
+      config.api.endpoints.addToRewardQueue,
+      {
+        method: 'POST',
+        body: body.toString(),
+        headers: { referer: config.api.referers.memberRewards },
+      }
+    );
+
+    // addToRewardQueue.php answers 200 with an empty or non-JSON body when it
+    // accepts a reward. The client reports an unparseable body as a failure,
+    // so the status code decides, not `success`.
+    if (response.success || (response.statusCode >= 200 && response.statusCode < 300)) {
+      return {
+        success: true,
+        message: 'Reward added to queue',
+      };
+    }
+
+    return {
+      success: false,
+      error: response.error || 'Unknown error occurred while queueing the reward',
+      message: 'Reward redemption failed',
+      isRetryable: isRetryableStatus(response.statusCode),
+    };
+  } catch (error) {
+    console.error('Error redeeming reward:', error);
+
+    if (error instanceof ApiError) {
+      return {
+        success: false,
+        error: error.message,
+        message: 'Reward redemption failed due to API error',
+        isRetryable: error.retryable,
+      };
+    }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      message: 'Reward redemption failed due to unexpected error',
+      isRetryable: true,
+    };
+  }
+};
@@ -64,7 +64,18 @@ export interface EnrichmentConfig {
   rateLimitWindow: number;
   rateLimitMaxRequests: number;
   isConfigured: () => boolean;
-  getFullUrl: (endpoint: 'beers' | 'batch' | 'sync' | 'health') => string;
+  getFullUrl: (
+    endpoint: 'beers' | 'batch' | 'sync' | 'health' | 'stores' | 'corrections'
+  ) => string;
+}
+
+/**
+ * Static taplist file configuration
+ */
+export interface TaplistFileConfig {
+  /** Where to read a JSON or CSV taplist from; a file://, http:// or https:// URI */
+  uri: string | undefined;
+  isConfigured: () => boolean;
 }
 
 /**
@@ -90,6 +101,7 @@ export interface AppConfig {
   network: NetworkConfig;
   external: ExternalServices;
   enrichment: EnrichmentConfig;
+  taplistFile: TaplistFileConfig;
   getEnvironment: () => AppEnvironment;
   setEnvironment: (env: AppEnvironment) => void;
   setCustomApiUrl: (url: string) => void;
@@ -292,6 +304,8 @@ const ENRICHMENT_ENDPOINTS = {
   batch: '/beers/batch', // POST /beers/batch
   sync: '/beers/sync', // POST /beers/sync - sync missing beers to Worker
   health: '/health', // GET /health
+  stores: '/stores', // GET /stores - the store directory
+  corrections: '/beers/corrections', // POST /beers/corrections - a user's correction of a beer
 } as const;
 
 type EnrichmentEndpoint = keyof typeof ENRICHMENT_ENDPOINTS;
@@ -361,6 +375,20 @@ function getEnrichmentConfig(): EnrichmentConfig {
   };
 }
 
+/**
+ * Gets the static taplist file configuration from environment variables.
+ * Set only to run the app against a local fixture or another bar's export.
+ * @returns TaplistFileConfig object
+ */
+function getTaplistFileConfig(): TaplistFileConfig {
+  const uri = process.env.EXPO_PUBLIC_TAPLIST_FILE_URI?.trim() || undefined;
+
+  return {
+    uri,
+    isConfigured: () => Boolean(uri),
+  };
+}
+
 /**
  * Current environment (mutable for environment switching)
  * Can be set via EXPO_PUBLIC_DEFAULT_ENV environment variable
@@ -507,6 +535,13 @@ export const config: AppConfig = {
     return getEnrichmentConfig();
   },
 
+  /**
+   * Static taplist file configuration (dynamic getter)
+   */
+  get taplistFile(): TaplistFileConfig {
+    return getTaplistFileConfig();
+  },
+
   /**
    * Get the current environment
    * @returns Current environment name
@@ -44,6 +44,7 @@ export {
   type ApiConfig,
   type AppConfig,
   type EnrichmentConfig,
+  type TaplistFileConfig,
   type ConfiguredEnrichment,
   // Error classes for error handling
   InvalidUrlError,
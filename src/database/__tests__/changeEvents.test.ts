@@ -0,0 +1,72 @@
+/**
+ * Tests for the database change event bus
+ */
+
+import { DatabaseChange, emitDatabaseChange, subscribeToDatabaseChanges } from '../changeEvents';
+
+const enrichment: DatabaseChange = { table: 'allbeers', kind: 'enrichment', ids: ['b1'] };
+
+describe('changeEvents', () => {
+  let unsubscribers: (() => void)[] = [];
+
+  const subscribe = (listener: (change: DatabaseChange) => void): jest.Mock => {
+    const mock = jest.fn(listener);
+    unsubscribers.push(subscribeToDatabaseChanges(mock));
+    return mock;
+  };
+
+  afterEach(() => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    unsubscribers = [];
+    jest.restoreAllMocks();
+  });
+
+  it('delivers each change to every subscriber', () => {
+    const first = subscribe(() => {});
+    const second = subscribe(() => {});
+
+    emitDatabaseChange(enrichment);
+
+    expect(first).toHaveBeenCalledWith(enrichment);
+    expect(second).toHaveBeenCalledWith(enrichment);
+  });
+
+  it('stops delivering after unsubscribe', () => {
+    const listener = jest.fn();
+    const unsubscribe = subscribeToDatabaseChanges(listener);
+
+    unsubscribe();
+    emitDatabaseChange(enrichment);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('keeps delivering when a listener throws', () => {
+    jest.spyOn(console, 'error').mockImplementation();
+    subscribe(() => {
+      throw new Error('listener bug');
+    });
+    const after = subscribe(() => {});
+
+    emitDatabaseChange(enrichment);
+
+    expect(after).toHaveBeenCalledWith(enrichment);
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('does not announce an enrichment that touched no rows', () => {
+    const listener = subscribe(() => {});
+
+    emitDatabaseChange({ table: 'allbeers', kind: 'enrichment', ids: [] });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('announces a table emptied by a replace', () => {
+    const listener = subscribe(() => {});
+
+    emitDatabaseChange({ table: 'tasted_brew_current_round', kind: 'replace', ids: [] });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -21,6 +21,23 @@
 
 import { setupDatabase, resetDatabaseState } from '../db';
 import * as connection from '../connection';
+import { migrateToVersion25 } from '../migrations/migrateToV25';
+import { migrateToVersion24 } from '../migrations/migrateToV24';
+import { migrateToVersion23 } from '../migrations/migrateToV23';
+import { migrateToVersion22 } from '../migrations/migrateToV22';
+import { migrateToVersion21 } from '../migrations/migrateToV21';
+import { migrateToVersion20 } from '../migrations/migrateToV20';
+import { migrateToVersion19 } from '../migrations/migrateToV19';
+import { migrateToVersion18 } from '../migrations/migrateToV18';
+import { migrateToVersion17 } from '../migrations/migrateToV17';
+import { migrateToVersion16 } from '../migrations/migrateToV16';
+import { migrateToVersion15 } from '../migrations/migrateToV15';
+import { migrateToVersion14 } from '../migrations/migrateToV14';
+import { migrateToVersion13 } from '../migrations/migrateToV13';
+import { migrateToVersion12 } from '../migrations/migrateToV12';
+import { migrateToVersion11 } from '../migrations/migrateToV11';
+import { migrateToVersion10 } from '../migrations/migrateToV10';
+import { migrateToVersion9 } from '../migrations/migrateToV9';
 import { migrateToVersion8 } from '../migrations/migrateToV8';
 import { migrateToVersion7 } from '../migrations/migrateToV7';
 import { migrateToVersion6 } from '../migrations/migrateToV6';
@@ -30,6 +47,57 @@ import { migrateToVersion3 } from '../migrations/migrateToV3';
 import { CURRENT_SCHEMA_VERSION } from '../schemaVersion';
 
 jest.mock('../connection');
+jest.mock('../migrations/migrateToV25', () => ({
+  migrateToVersion25: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../migrations/migrateToV24', () => ({
+  migrateToVersion24: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../migrations/migrateToV23', () => ({
+  migrateToVersion23: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../migrations/migrateToV22', () => ({
+  migrateToVersion22: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../migrations/migrateToV21', () => ({
+  migrateToVersion21: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../migrations/migrateToV20', () => ({
+  migrateToVersion20: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../migrations/migrateToV19', () => ({
+  migrateToVersion19: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../migrations/migrateToV18', () => ({
+  migrateToVersion18: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../migrations/migrateToV17', () => ({
+  migrateToVersion17: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../migrations/migrateToV16', () => ({
+  migrateToVersion16: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../migrations/migrateToV15', () => ({
+  migrateToVersion15: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../migrations/migrateToV14', () => ({
+  migrateToVersion14: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../migrations/migrateToV13', () => ({
+  migrateToVersion13: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../migrations/migrateToV12', () => ({
+  migrateToVersion12: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../migrations/migrateToV11', () => ({
+  migrateToVersion11: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../migrations/migrateToV10', () => ({
+  migrateToVersion10: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../migrations/migrateToV9', () => ({
+  migrateToVersion9: jest.fn().mockResolvedValue(undefined),
+}));
 jest.mock('../migrations/migrateToV8', () => ({
   migrateToVersion8: jest.fn().mockResolvedValue(undefined),
 }));
@@ -109,12 +177,199 @@ describe('migration dispatch', () => {
     expect(migrateToVersion8).toHaveBeenCalledWith(mockDatabase);
   });
 
+  it('runs the v9 migration on a database at version 8', async () => {
+    // Literal for the same reason as the v8 case above: a device on the release
+    // before beer_notes existed must get the table, or every save throws.
+    storedVersionIs(8);
+
+    await setupDatabase();
+
+    expect(migrateToVersion9).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion8).not.toHaveBeenCalled();
+  });
+
+  it('runs the v10 migration on a database at version 9', async () => {
+    // Literal again. A v9 device that misses this arm keeps wiping its plate
+    // history on every rollover, with nothing failing to say so.
+    storedVersionIs(9);
+
+    await setupDatabase();
+
+    expect(migrateToVersion10).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion9).not.toHaveBeenCalled();
+  });
+
+  it('runs the v11 migration on a database at version 10', async () => {
+    // Without this arm a v10 device never builds beer_search, and every search
+    // quietly takes the fallback path instead of reaching descriptions.
+    storedVersionIs(10);
+
+    await setupDatabase();
+
+    expect(migrateToVersion11).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion10).not.toHaveBeenCalled();
+  });
+
+  it('runs the v12 migration on a database at version 11', async () => {
+    // Without it an upgraded device filters on style_family columns that do
+    // not exist, and every import fails on the missing column.
+    storedVersionIs(11);
+
+    await setupDatabase();
+
+    expect(migrateToVersion12).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion11).not.toHaveBeenCalled();
+  });
+
+  it('runs the v13 migration on a database at version 12', async () => {
+    // Without it an upgraded device has no filter_presets table, and saving a
+    // preset fails on every list.
+    storedVersionIs(12);
+
+    await setupDatabase();
+
+    expect(migrateToVersion13).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion12).not.toHaveBeenCalled();
+  });
+
+  it('runs the v14 migration on a database at version 13', async () => {
+    // Without it an upgraded device has no wishlist table, and starring a beer
+    // fails everywhere.
+    storedVersionIs(13);
+
+    await setupDatabase();
+
+    expect(migrateToVersion14).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion13).not.toHaveBeenCalled();
+  });
+
+  it('runs the v15 migration on a database at version 14', async () => {
+    // Without it an upgraded device has no taplist_diffs table: every refresh
+    // logs a failed diff write and the Home screen never shows new arrivals.
+    storedVersionIs(14);
+
+    await setupDatabase();
+
+    expect(migrateToVersion15).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion14).not.toHaveBeenCalled();
+  });
+
+  it('runs the v16 migration on a database at version 15', async () => {
+    // Without it an upgraded device cannot save a store to compare: the
+    // comparison screen reports a failed save for every store.
+    storedVersionIs(15);
+
+    await setupDatabase();
+
+    expect(migrateToVersion16).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion15).not.toHaveBeenCalled();
+  });
+
+  it('runs the v17 migration on a database at version 16', async () => {
+    // Without it an upgraded device cannot switch stores: the switch stashes the
+    // current taplist in a store_taplists column the v16 table does not have.
+    storedVersionIs(16);
+
+    await setupDatabase();
+
+    expect(migrateToVersion17).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion16).not.toHaveBeenCalled();
+  });
+
+  it('runs the v18 migration on a database at version 17', async () => {
+    // Without it an upgraded device cannot record the beers it is waiting on,
+    // and every handover to the Worker fails to be tracked.
+    storedVersionIs(17);
+
+    await setupDatabase();
+
+    expect(migrateToVersion18).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion17).not.toHaveBeenCalled();
+  });
+
+  it('runs the v19 migration on a database at version 18', async () => {
+    // Without it an upgraded device has nowhere to keep a correction, and
+    // every "Edit details" save fails.
+    storedVersionIs(18);
+
+    await setupDatabase();
+
+    expect(migrateToVersion19).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion18).not.toHaveBeenCalled();
+  });
+
+  it('runs the v20 migration on a database at version 19', async () => {
+    // Without it an upgraded device has nowhere to keep the enrichment
+    // counters, and every background flush fails.
+    storedVersionIs(19);
+
+    await setupDatabase();
+
+    expect(migrateToVersion20).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion19).not.toHaveBeenCalled();
+  });
+
+  it('runs the v21 migration on a database at version 20', async () => {
+    // Without it an upgraded device has nowhere to keep a taplist snapshot, and
+    // the "as of" selector on All Beers never has anything to offer.
+    storedVersionIs(20);
+
+    await setupDatabase();
+
+    expect(migrateToVersion21).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion20).not.toHaveBeenCalled();
+  });
+
+  it('runs the v22 migration on a database at version 21', async () => {
+    // Without it an upgraded device has nowhere to record a refresh run, and
+    // Sync History stays empty however often the lists refresh.
+    storedVersionIs(21);
+
+    await setupDatabase();
+
+    expect(migrateToVersion22).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion21).not.toHaveBeenCalled();
+  });
+
+  it('runs the v23 migration on a database at version 22', async () => {
+    // Without it an upgraded device's operation_queue has no priority or
+    // idempotency key columns, and queueing any operation fails its INSERT.
+    storedVersionIs(22);
+
+    await setupDatabase();
+
+    expect(migrateToVersion23).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion22).not.toHaveBeenCalled();
+  });
+
+  it('runs the v24 migration on a database at version 23', async () => {
+    // Without it an upgraded device has nowhere to record an attempt, and a
+    // failed operation's timeline is always empty.
+    storedVersionIs(23);
+
+    await setupDatabase();
+
+    expect(migrateToVersion24).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion23).not.toHaveBeenCalled();
+  });
+
+  it('runs the v25 migration on a database at version 24', async () => {
+    // Without it an upgraded device's operation_queue has no dedupe_key
+    // column, and queueing any operation fails its INSERT.
+    storedVersionIs(24);
+
+    await setupDatabase();
+
+    expect(migrateToVersion25).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion24).not.toHaveBeenCalled();
+  });
+
   it('declares a schema version that has a migration to reach it', async () => {
     // Pins the constant itself. Without this, lowering CURRENT_SCHEMA_VERSION
     // is only caught indirectly, and a future bump with no corresponding
     // dispatch arm would ship a migration nothing calls — the exact defect this
     // file exists for.
-    expect(CURRENT_SCHEMA_VERSION).toBe(8);
+    expect(CURRENT_SCHEMA_VERSION).toBe(25);
   });
 
   it('runs no migration on a database already at the current version', async () => {
@@ -125,6 +380,23 @@ describe('migration dispatch', () => {
 
     await setupDatabase();
 
+    expect(migrateToVersion25).not.toHaveBeenCalled();
+    expect(migrateToVersion24).not.toHaveBeenCalled();
+    expect(migrateToVersion23).not.toHaveBeenCalled();
+    expect(migrateToVersion22).not.toHaveBeenCalled();
+    expect(migrateToVersion21).not.toHaveBeenCalled();
+    expect(migrateToVersion20).not.toHaveBeenCalled();
+    expect(migrateToVersion19).not.toHaveBeenCalled();
+    expect(migrateToVersion18).not.toHaveBeenCalled();
+    expect(migrateToVersion17).not.toHaveBeenCalled();
+    expect(migrateToVersion16).not.toHaveBeenCalled();
+    expect(migrateToVersion15).not.toHaveBeenCalled();
+    expect(migrateToVersion14).not.toHaveBeenCalled();
+    expect(migrateToVersion13).not.toHaveBeenCalled();
+    expect(migrateToVersion12).not.toHaveBeenCalled();
+    expect(migrateToVersion11).not.toHaveBeenCalled();
+    expect(migrateToVersion10).not.toHaveBeenCalled();
+    expect(migrateToVersion9).not.toHaveBeenCalled();
     expect(migrateToVersion8).not.toHaveBeenCalled();
     expect(migrateToVersion7).not.toHaveBeenCalled();
   });
@@ -139,6 +411,23 @@ describe('migration dispatch', () => {
 
     expect(migrateToVersion7).toHaveBeenCalledWith(mockDatabase);
     expect(migrateToVersion8).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion9).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion10).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion11).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion12).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion13).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion14).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion15).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion16).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion17).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion18).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion19).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion20).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion21).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion22).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion23).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion24).toHaveBeenCalledWith(mockDatabase);
+    expect(migrateToVersion25).toHaveBeenCalledWith(mockDatabase);
   });
 
   /**
@@ -170,13 +459,32 @@ describe('migration dispatch', () => {
     [6, migrateToVersion6 as jest.Mock],
     [7, migrateToVersion7 as jest.Mock],
     [8, migrateToVersion8 as jest.Mock],
+    [9, migrateToVersion9 as jest.Mock],
+    [10, migrateToVersion10 as jest.Mock],
+    [11, migrateToVersion11 as jest.Mock],
+    [12, migrateToVersion12 as jest.Mock],
+    [13, migrateToVersion13 as jest.Mock],
+    [14, migrateToVersion14 as jest.Mock],
+    [15, migrateToVersion15 as jest.Mock],
+    [16, migrateToVersion16 as jest.Mock],
+    [17, migrateToVersion17 as jest.Mock],
+    [18, migrateToVersion18 as jest.Mock],
+    [19, migrateToVersion19 as jest.Mock],
+    [20, migrateToVersion20 as jest.Mock],
+    [21, migrateToVersion21 as jest.Mock],
+    [22, migrateToVersion22 as jest.Mock],
+    [23, migrateToVersion23 as jest.Mock],
+    [24, migrateToVersion24 as jest.Mock],
+    [25, migrateToVersion25 as jest.Mock],
   ];
 
   it('covers every dispatch arm in runMigrations', () => {
     // Guards the table above against a new migration being added to
     // `runMigrations` without a case here — which would silently shrink this
     // file's coverage back to the gap it was written to close.
-    expect(DISPATCH_ARMS.map(([version]) => version)).toEqual([3, 4, 5, 6, 7, 8]);
+    expect(DISPATCH_ARMS.map(([version]) => version)).toEqual([
+      3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23, 24, 25,
+    ]);
     expect(DISPATCH_ARMS[DISPATCH_ARMS.length - 1][0]).toBe(CURRENT_SCHEMA_VERSION);
   });
 
@@ -1,4 +1,9 @@
-import { getPreference, setPreference, getAllPreferences } from '../preferences';
+import {
+  getPreference,
+  setPreference,
+  setPreferenceUnsafe,
+  getAllPreferences,
+} from '../preferences';
 import { Preference } from '../../types/database';
 import * as connection from '../connection';
 import { DatabaseContentionError } from '../errors';
@@ -216,6 +221,32 @@ describe('Preference Functions', () => {
     });
   });
 
+  describe('setPreferenceUnsafe', () => {
+    it('should write through the transaction handle, not the database', async () => {
+      const { mockDatabase } = createMockPreferencesDb();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      const txn = { runAsync: jest.fn(), getFirstAsync: jest.fn(), prepareAsync: jest.fn() };
+
+      await setPreferenceUnsafe(txn, 'key', 'value', 'A description');
+
+      expect(txn.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT OR REPLACE INTO preferences'),
+        ['key', 'value', 'A description', 'key']
+      );
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+
+    it('should keep the stored description when none is given', async () => {
+      const txn = { runAsync: jest.fn(), getFirstAsync: jest.fn(), prepareAsync: jest.fn() };
+
+      await setPreferenceUnsafe(txn, 'key', 'value');
+
+      const [sql, params] = txn.runAsync.mock.calls[0];
+      expect(sql).toContain('SELECT description FROM preferences WHERE key = ?');
+      expect(params).toEqual(['key', 'value', null, 'key']);
+    });
+  });
+
   describe('getAllPreferences', () => {
     it('should return all preferences ordered by key', async () => {
       const { mockDatabase, mockGetAllAsync } = createMockPreferencesDb();
@@ -85,6 +85,39 @@ describe('Database Schema', () => {
       expect(mockExecAsync).toHaveBeenCalledWith(
         expect.stringContaining('CREATE TABLE IF NOT EXISTS operation_queue')
       );
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS beer_notes')
+      );
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS tasting_history')
+      );
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS filter_presets')
+      );
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS wishlist')
+      );
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS taplist_diffs')
+      );
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS store_taplists')
+      );
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS store_directory')
+      );
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS enrichment_jobs')
+      );
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS beer_corrections')
+      );
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS enrichment_metrics')
+      );
+      expect(mockExecAsync).toHaveBeenCalledWith(
+        expect.stringContaining('CREATE TABLE IF NOT EXISTS enrichment_requests')
+      );
     });
 
     it('should create allbeers table with correct columns', async () => {
@@ -109,6 +142,7 @@ describe('Database Schema', () => {
       expect(sql).toContain('review_count TEXT');
       expect(sql).toContain('review_rating TEXT');
       expect(sql).toContain('brew_description TEXT');
+      expect(sql).toContain('style_family TEXT');
     });
 
     it('should create tasted_brew_current_round table with correct columns', async () => {
@@ -134,6 +168,7 @@ describe('Database Schema', () => {
       expect(sql).toContain('review_ratings TEXT');
       expect(sql).toContain('brew_description TEXT');
       expect(sql).toContain('chit_code TEXT');
+      expect(sql).toContain('style_family TEXT');
     });
 
     it('should create rewards table with correct columns', async () => {
@@ -183,6 +218,221 @@ describe('Database Schema', () => {
       expect(sql).toContain('status TEXT');
     });
 
+    it('should create beer_notes table with correct columns', async () => {
+      await setupDatabase();
+
+      const beerNotesCall = (mockExecAsync as jest.Mock).mock.calls.find(call =>
+        call[0].includes('CREATE TABLE IF NOT EXISTS beer_notes')
+      );
+
+      expect(beerNotesCall).toBeDefined();
+      const sql = beerNotesCall[0];
+
+      expect(sql).toContain('beer_id TEXT PRIMARY KEY');
+      expect(sql).toContain('rating INTEGER');
+      expect(sql).toContain('notes TEXT');
+      expect(sql).toContain('flavor_tags TEXT');
+      expect(sql).toContain('updated_at INTEGER NOT NULL');
+    });
+
+    it('should create tasting_history table keyed by beer and plate', async () => {
+      await setupDatabase();
+
+      const historyCall = (mockExecAsync as jest.Mock).mock.calls.find(call =>
+        call[0].includes('CREATE TABLE IF NOT EXISTS tasting_history')
+      );
+
+      expect(historyCall).toBeDefined();
+      const sql = historyCall[0];
+
+      expect(sql).toContain('beer_id TEXT NOT NULL');
+      expect(sql).toContain('roh_lap TEXT NOT NULL');
+      expect(sql).toContain('tasted_date TEXT');
+      expect(sql).toContain('brew_style TEXT');
+      expect(sql).toContain('recorded_at INTEGER NOT NULL');
+      expect(sql).toContain('PRIMARY KEY (beer_id, roh_lap)');
+    });
+
+    it('should create filter_presets table keyed by list and name', async () => {
+      await setupDatabase();
+
+      const presetsCall = (mockExecAsync as jest.Mock).mock.calls.find(call =>
+        call[0].includes('CREATE TABLE IF NOT EXISTS filter_presets')
+      );
+
+      expect(presetsCall).toBeDefined();
+      const sql = presetsCall[0];
+
+      expect(sql).toContain('state TEXT NOT NULL');
+      expect(sql).toContain('updated_at INTEGER NOT NULL');
+      expect(sql).toContain('PRIMARY KEY (list, name)');
+    });
+
+    it('should create wishlist table keyed by beer id', async () => {
+      await setupDatabase();
+
+      const wishlistCall = (mockExecAsync as jest.Mock).mock.calls.find(call =>
+        call[0].includes('CREATE TABLE IF NOT EXISTS wishlist')
+      );
+
+      expect(wishlistCall).toBeDefined();
+      const sql = wishlistCall[0];
+
+      expect(sql).toContain('beer_id TEXT PRIMARY KEY');
+      expect(sql).toContain('brew_name TEXT NOT NULL');
+      expect(sql).toContain('added_at INTEGER NOT NULL');
+      expect(sql).toContain('last_seen_on_tap INTEGER');
+    });
+
+    it('should create taplist_diffs table with JSON change columns', async () => {
+      await setupDatabase();
+
+      const diffsCall = (mockExecAsync as jest.Mock).mock.calls.find(call =>
+        call[0].includes('CREATE TABLE IF NOT EXISTS taplist_diffs')
+      );
+
+      expect(diffsCall).toBeDefined();
+      const sql = diffsCall[0];
+
+      expect(sql).toContain('id INTEGER PRIMARY KEY AUTOINCREMENT');
+      expect(sql).toContain('recorded_at INTEGER NOT NULL');
+      expect(sql).toContain('added TEXT NOT NULL');
+      expect(sql).toContain('removed TEXT NOT NULL');
+      expect(sql).toContain('changed TEXT NOT NULL');
+    });
+
+    it('should create store_taplists table keyed by store with a cached taplist and ETag', async () => {
+      await setupDatabase();
+
+      const storesCall = (mockExecAsync as jest.Mock).mock.calls.find(call =>
+        call[0].includes('CREATE TABLE IF NOT EXISTS store_taplists')
+      );
+
+      expect(storesCall).toBeDefined();
+      const sql = storesCall[0];
+
+      expect(sql).toContain('store_id TEXT PRIMARY KEY');
+      expect(sql).toContain('store_name TEXT NOT NULL');
+      expect(sql).toContain("beers TEXT NOT NULL DEFAULT '[]'");
+      expect(sql).toContain('etag TEXT');
+      expect(sql).toContain('fetched_at INTEGER');
+      expect(sql).toContain('added_at INTEGER NOT NULL');
+      expect(sql).toContain('compared INTEGER NOT NULL DEFAULT 1');
+    });
+
+    it('should create store_directory table keyed by store with its location', async () => {
+      await setupDatabase();
+
+      const directoryCall = (mockExecAsync as jest.Mock).mock.calls.find(call =>
+        call[0].includes('CREATE TABLE IF NOT EXISTS store_directory')
+      );
+
+      expect(directoryCall).toBeDefined();
+      const sql = directoryCall[0];
+
+      expect(sql).toContain('store_id TEXT PRIMARY KEY');
+      expect(sql).toContain('name TEXT NOT NULL');
+      expect(sql).toContain('city TEXT');
+      expect(sql).toContain('latitude REAL');
+      expect(sql).toContain('longitude REAL');
+      expect(sql).toContain('source TEXT NOT NULL');
+      expect(sql).toContain('updated_at INTEGER NOT NULL');
+    });
+
+    it('should create enrichment_jobs table keyed by beer with its attempt count', async () => {
+      await setupDatabase();
+
+      const jobsCall = (mockExecAsync as jest.Mock).mock.calls.find(call =>
+        call[0].includes('CREATE TABLE IF NOT EXISTS enrichment_jobs')
+      );
+
+      expect(jobsCall).toBeDefined();
+      const sql = jobsCall[0];
+
+      expect(sql).toContain('beer_id TEXT PRIMARY KEY');
+      expect(sql).toContain('requested_at INTEGER NOT NULL');
+      expect(sql).toContain('attempts INTEGER NOT NULL DEFAULT 0');
+      expect(sql).toContain('last_attempt_at INTEGER');
+    });
+
+    it('should create beer_corrections table keyed by beer with nullable fields', async () => {
+      await setupDatabase();
+
+      const correctionsCall = (mockExecAsync as jest.Mock).mock.calls.find(call =>
+        call[0].includes('CREATE TABLE IF NOT EXISTS beer_corrections')
+      );
+
+      expect(correctionsCall).toBeDefined();
+      const sql = correctionsCall[0];
+
+      expect(sql).toContain('beer_id TEXT PRIMARY KEY');
+      expect(sql).toContain('abv REAL,');
+      expect(sql).toContain('brew_style TEXT,');
+      expect(sql).toContain('brew_description TEXT,');
+      expect(sql).toContain('updated_at INTEGER NOT NULL');
+    });
+
+    it('should create enrichment_metrics table keyed by hour and counter', async () => {
+      await setupDatabase();
+
+      const metricsCall = (mockExecAsync as jest.Mock).mock.calls.find(call =>
+        call[0].includes('CREATE TABLE IF NOT EXISTS enrichment_metrics')
+      );
+
+      expect(metricsCall).toBeDefined();
+      const sql = metricsCall[0];
+
+      expect(sql).toContain('bucket_start INTEGER NOT NULL');
+      expect(sql).toContain('metric TEXT NOT NULL');
+      expect(sql).toContain('count INTEGER NOT NULL DEFAULT 0');
+      expect(sql).toContain('PRIMARY KEY (bucket_start, metric)');
+    });
+
+    it('should create enrichment_requests table with an autoincrement id', async () => {
+      await setupDatabase();
+
+      const requestsCall = (mockExecAsync as jest.Mock).mock.calls.find(call =>
+        call[0].includes('CREATE TABLE IF NOT EXISTS enrichment_requests')
+      );
+
+      expect(requestsCall).toBeDefined();
+      const sql = requestsCall[0];
+
+      expect(sql).toContain('id INTEGER PRIMARY KEY AUTOINCREMENT');
+      expect(sql).toContain('request_id TEXT,');
+      expect(sql).toContain('endpoint TEXT NOT NULL');
+      expect(sql).toContain('outcome TEXT NOT NULL');
+      expect(sql).toContain('recorded_at INTEGER NOT NULL');
+    });
+
+    it('should create the beer_search full-text index', async () => {
+      await setupDatabase();
+
+      const searchCall = (mockExecAsync as jest.Mock).mock.calls.find(call =>
+        call[0].includes('CREATE VIRTUAL TABLE IF NOT EXISTS beer_search')
+      );
+
+      expect(searchCall).toBeDefined();
+      const sql = searchCall[0];
+
+      expect(sql).toContain('USING fts5');
+      expect(sql).toContain('beer_id UNINDEXED');
+      expect(sql).toContain('source UNINDEXED');
+      expect(sql).toContain('description');
+    });
+
+    it('should still set up the database when SQLite has no FTS5', async () => {
+      (mockExecAsync as jest.Mock).mockImplementation(async (sql: string) => {
+        if (sql.includes('USING fts5')) throw new Error('no such module: fts5');
+      });
+      const consoleWarnSpy = jest.spyOn(console, 'warn').mockImplementation();
+
+      await setupDatabase();
+
+      expect(consoleWarnSpy).toHaveBeenCalledWith(expect.stringContaining('FTS5'));
+      consoleWarnSpy.mockRestore();
+    });
+
     it('should initialize default preferences if table is empty', async () => {
       // Mock getFirstAsync to return 0 count (empty table)
       mockGetFirstAsync.mockResolvedValue({ count: 0 });
@@ -257,16 +507,19 @@ describe('Database Schema', () => {
   });
 
   describe('Table Schema Verification', () => {
-    it('should have 6 tables total', async () => {
+    it('should have 20 tables total', async () => {
       await setupDatabase();
 
       // Count the number of CREATE TABLE calls
-      // Tables: allbeers, tasted_brew_current_round, rewards, preferences, operation_queue, schema_version
+      // Tables: allbeers, tasted_brew_current_round, rewards, preferences, operation_queue,
+      // operation_attempts, beer_notes, tasting_history, filter_presets, wishlist, taplist_diffs,
+      // store_taplists, store_directory, enrichment_jobs, beer_corrections, enrichment_metrics, enrichment_requests, taplist_snapshots,
+      // refresh_log, schema_version
       const createTableCalls = (mockExecAsync as jest.Mock).mock.calls.filter(call =>
         call[0].includes('CREATE TABLE IF NOT EXISTS')
       );
 
-      expect(createTableCalls.length).toBe(6);
+      expect(createTableCalls.length).toBe(20);
     });
 
     it('should use TEXT type for all columns', async () => {
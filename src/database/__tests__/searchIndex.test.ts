@@ -0,0 +1,221 @@
+/**
+ * Tests for the beer_search index helpers
+ */
+
+import {
+  cleanDescriptionForIndex,
+  clearSearchSourceUnsafe,
+  isSearchIndexUnsupportedError,
+  replaceSearchSourceUnsafe,
+  splitSearchSnippet,
+  toFtsMatchQuery,
+  updateSearchDescriptionsUnsafe,
+} from '../searchIndex';
+
+jest.mock('../../utils/errorLogger', () => ({
+  logWarning: jest.fn(),
+}));
+
+function createMockTxn() {
+  const statement = {
+    executeAsync: jest.fn().mockResolvedValue(undefined),
+    finalizeAsync: jest.fn().mockResolvedValue(undefined),
+  };
+  return {
+    runAsync: jest.fn().mockResolvedValue({ changes: 1, lastInsertRowId: 0 }),
+    getFirstAsync: jest.fn(),
+    prepareAsync: jest.fn().mockResolvedValue(statement),
+    statement,
+  };
+}
+
+describe('cleanDescriptionForIndex', () => {
+  it('strips tags, decodes entities and collapses whitespace', () => {
+    expect(
+      cleanDescriptionForIndex('<p>Roasted&nbsp;coffee &amp; <b>cocoa</b></p>\n<br/>Smooth')
+    ).toBe('Roasted coffee & cocoa Smooth');
+  });
+
+  it('returns an empty string for a missing description', () => {
+    expect(cleanDescriptionForIndex(undefined)).toBe('');
+    expect(cleanDescriptionForIndex(null)).toBe('');
+  });
+});
+
+describe('toFtsMatchQuery', () => {
+  it('quotes each word as a prefix term', () => {
+    expect(toFtsMatchQuery('coffee  stout')).toBe('"coffee"* "stout"*');
+  });
+
+  it('neutralises FTS5 syntax and quotes in user input', () => {
+    expect(toFtsMatchQuery('NEAR(ipa "hazy" OR sour)')).toBe('"NEAR(ipa"* "hazy"* "OR"* "sour)"*');
+  });
+
+  it('returns null when nothing searchable is left', () => {
+    expect(toFtsMatchQuery('')).toBeNull();
+    expect(toFtsMatchQuery(' - "" * ')).toBeNull();
+  });
+});
+
+describe('splitSearchSnippet', () => {
+  it('splits highlighted terms from the text around them', () => {
+    expect(splitSearchSnippet('…with \u0002coffee\u0003 and \u0002cocoa\u0003')).toEqual([
+      { text: '…with ', match: false },
+      { text: 'coffee', match: true },
+      { text: ' and ', match: false },
+      { text: 'cocoa', match: true },
+    ]);
+  });
+
+  it('treats an unterminated highlight as running to the end', () => {
+    expect(splitSearchSnippet('a \u0002cof')).toEqual([
+      { text: 'a ', match: false },
+      { text: 'cof', match: true },
+    ]);
+  });
+});
+
+describe('replaceSearchSourceUnsafe', () => {
+  it('replaces only the given source and skips beers without an id', async () => {
+    const txn = createMockTxn();
+
+    await replaceSearchSourceUnsafe(txn as never, 'tasted', [
+      {
+        id: '1',
+        brew_name: 'Mocha',
+        brewer: 'B',
+        brew_style: 'Stout',
+        brew_description: '<p>x</p>',
+      },
+      { id: '', brew_name: 'No id' },
+    ]);
+
+    expect(txn.runAsync).toHaveBeenCalledWith('DELETE FROM beer_search WHERE source = ?', [
+      'tasted',
+    ]);
+    expect(txn.statement.executeAsync).toHaveBeenCalledTimes(1);
+    expect(txn.statement.executeAsync).toHaveBeenCalledWith([
+      '1',
+      'tasted',
+      'Mocha',
+      'B',
+      'Stout',
+      'x',
+    ]);
+    expect(txn.statement.finalizeAsync).toHaveBeenCalled();
+  });
+
+  it('logs and swallows an index failure so the import can commit', async () => {
+    const txn = createMockTxn();
+    txn.runAsync.mockRejectedValue(new Error('no such table: beer_search'));
+
+    await expect(
+      replaceSearchSourceUnsafe(txn as never, 'allbeers', [{ id: '1' }])
+    ).resolves.toBeUndefined();
+  });
+
+  it('runs under a savepoint and clears the stale mark when it completes', async () => {
+    const txn = createMockTxn();
+
+    await replaceSearchSourceUnsafe(txn as never, 'allbeers', [{ id: '1' }]);
+
+    const statements = txn.runAsync.mock.calls.map(([sql]) => sql);
+    expect(statements).toEqual([
+      'SAVEPOINT beer_search_replace',
+      'DELETE FROM beer_search WHERE source = ?',
+      'DELETE FROM preferences WHERE key = ?',
+      'RELEASE beer_search_replace',
+    ]);
+    expect(txn.runAsync).toHaveBeenCalledWith('DELETE FROM preferences WHERE key = ?', [
+      'search_index_stale_allbeers',
+    ]);
+  });
+
+  it('rolls back a replace that fails partway and marks the source stale', async () => {
+    const txn = createMockTxn();
+    txn.statement.executeAsync
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('disk I/O error'));
+
+    await expect(
+      replaceSearchSourceUnsafe(txn as never, 'tasted', [{ id: '1' }, { id: '2' }])
+    ).resolves.toBeUndefined();
+
+    const statements = txn.runAsync.mock.calls.map(([sql]) => sql);
+    expect(statements).toEqual([
+      'SAVEPOINT beer_search_replace',
+      'DELETE FROM beer_search WHERE source = ?',
+      'ROLLBACK TO beer_search_replace',
+      'RELEASE beer_search_replace',
+      'INSERT OR REPLACE INTO preferences (key, value, description) VALUES (?, ?, ?)',
+    ]);
+    expect(txn.runAsync).toHaveBeenLastCalledWith(expect.any(String), [
+      'search_index_stale_tasted',
+      'true',
+      expect.any(String),
+    ]);
+  });
+
+  it('rethrows lock contention so the transaction can be retried', async () => {
+    const txn = createMockTxn();
+    txn.statement.executeAsync.mockRejectedValue(new Error('database is locked'));
+
+    await expect(
+      replaceSearchSourceUnsafe(txn as never, 'allbeers', [{ id: '1' }])
+    ).rejects.toThrow('database is locked');
+    expect(txn.statement.finalizeAsync).toHaveBeenCalled();
+  });
+});
+
+describe('updateSearchDescriptionsUnsafe', () => {
+  it('rewrites the cleaned description of each beer in the source', async () => {
+    const txn = createMockTxn();
+
+    await updateSearchDescriptionsUnsafe(txn as never, 'allbeers', [['9', '<p>Toasty</p>']]);
+
+    expect(txn.runAsync).toHaveBeenCalledWith(
+      'UPDATE beer_search SET description = ? WHERE beer_id = ? AND source = ?',
+      ['Toasty', '9', 'allbeers']
+    );
+  });
+
+  it('marks the source stale when a rewrite fails', async () => {
+    const txn = createMockTxn();
+    txn.runAsync.mockRejectedValueOnce(new Error('disk I/O error'));
+
+    await updateSearchDescriptionsUnsafe(txn as never, 'allbeers', [['9', '<p>Toasty</p>']]);
+
+    expect(txn.runAsync).toHaveBeenLastCalledWith(
+      'INSERT OR REPLACE INTO preferences (key, value, description) VALUES (?, ?, ?)',
+      ['search_index_stale_allbeers', 'true', expect.any(String)]
+    );
+  });
+
+  it('does nothing for an empty batch', async () => {
+    const txn = createMockTxn();
+
+    await updateSearchDescriptionsUnsafe(txn as never, 'allbeers', []);
+
+    expect(txn.runAsync).not.toHaveBeenCalled();
+  });
+});
+
+describe('clearSearchSourceUnsafe', () => {
+  it('deletes only the given source', async () => {
+    const txn = createMockTxn();
+
+    await clearSearchSourceUnsafe(txn as never, 'allbeers');
+
+    expect(txn.runAsync).toHaveBeenCalledWith('DELETE FROM beer_search WHERE source = ?', [
+      'allbeers',
+    ]);
+  });
+});
+
+describe('isSearchIndexUnsupportedError', () => {
+  it('recognises a SQLite built without FTS5', () => {
+    expect(isSearchIndexUnsupportedError(new Error('no such module: fts5'))).toBe(true);
+    expect(isSearchIndexUnsupportedError(new Error('database is locked'))).toBe(false);
+    expect(isSearchIndexUnsupportedError('no such module: fts5')).toBe(false);
+  });
+});
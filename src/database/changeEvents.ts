@@ -0,0 +1,75 @@
+/**
+ * Database change events
+ *
+ * The repositories announce each committed write to the beer tables here, so
+ * anything holding a copy of those rows can bring it up to date without
+ * re-reading the table. A background enrichment poll is the case this exists
+ * for: nothing on screen started it, so nothing on screen would otherwise
+ * learn that the ABVs it was showing as missing are now stored.
+ *
+ * Events are emitted after the transaction commits, never from inside it, so
+ * a listener that reads the rows back sees what the event describes. Listeners
+ * run synchronously in subscription order; one that throws is logged and the
+ * rest still run, because a write that has committed cannot be undone by a
+ * listener failing.
+ */
+
+/** The tables whose rows AppContext holds */
+export type ChangeTable = 'allbeers' | 'tasted_brew_current_round';
+
+/**
+ * What happened to the rows:
+ * - `insert`: the rows were added or overwritten by id; the rest are untouched
+ * - `replace`: the table's contents were replaced; `ids` is what it now holds
+ * - `enrichment`: the enrichment columns (ABV, confidence, source, description)
+ *   of the rows changed
+ * - `correction`: the user corrected the rows' ABV, style or description, and
+ *   the columns worked out from them
+ */
+export type DatabaseChangeKind = 'insert' | 'replace' | 'enrichment' | 'correction';
+
+export type DatabaseChange = {
+  readonly table: ChangeTable;
+  readonly kind: DatabaseChangeKind;
+  readonly ids: readonly string[];
+};
+
+export type DatabaseChangeListener = (change: DatabaseChange) => void;
+
+/** Every subscriber, in subscription order */
+const listeners = new Set<DatabaseChangeListener>();
+
+/**
+ * Be told of every committed change to the beer tables.
+ *
+ * @param listener - Called once per change, after the commit
+ * @returns Unsubscribe function
+ */
+export function subscribeToDatabaseChanges(listener: DatabaseChangeListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Announce a committed change. For repositories only.
+ *
+ * An `insert` or `enrichment` that touched no rows is not announced.
+ *
+ * @param change - What was written
+ */
+export function emitDatabaseChange(change: DatabaseChange): void {
+  if (change.kind !== 'replace' && change.ids.length === 0) {
+    return;
+  }
+
+  // Copied so a listener that unsubscribes itself does not skip its neighbour
+  for (const listener of Array.from(listeners)) {
+    try {
+      listener(change);
+    } catch (error) {
+      console.error(`[changeEvents] Listener failed for ${change.kind} on ${change.table}:`, error);
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { migrateToVersion10 } from '../migrateToV10';
+import { databaseLockManager } from '../../DatabaseLockManager';
+import { recordMigration } from '../../schemaVersion';
+import { CREATE_TASTING_HISTORY_TABLE } from '../../schema';
+
+// The lock manager is deliberately NOT mocked, as in v7 through v9: isLocked()
+// then asserts genuine lock state, which is what catches a dropped release.
+
+jest.mock('../../schemaVersion', () => ({
+  ...jest.requireActual('../../schemaVersion'),
+  recordMigration: jest.fn().mockResolvedValue(undefined),
+}));
+
+/** One write the migration made, and whether a transaction was open for it. */
+type WriteLogEntry = { readonly write: string; readonly transactionsOpen: number };
+
+type MockDb = {
+  execAsync: jest.Mock;
+  runAsync: jest.Mock;
+  withTransactionAsync: jest.Mock;
+  /** Every write, in order, tagged with the transaction depth at the moment it ran. */
+  writeLog: WriteLogEntry[];
+};
+
+function createMockMigrationDb(): MockDb {
+  databaseLockManager.resetForTesting();
+  jest.restoreAllMocks();
+  (recordMigration as jest.Mock).mockClear();
+
+  let transactionsOpen = 0;
+  const writeLog: WriteLogEntry[] = [];
+
+  (recordMigration as jest.Mock).mockImplementation(async () => {
+    writeLog.push({ write: 'recordMigration', transactionsOpen });
+  });
+
+  return {
+    execAsync: jest.fn(async (sql: string) => {
+      writeLog.push({ write: sql.trim().split(/\s+/)[0].toUpperCase(), transactionsOpen });
+    }),
+    runAsync: jest.fn(async (sql: string) => {
+      writeLog.push({ write: sql.trim().split(/\s+/)[0].toUpperCase(), transactionsOpen });
+      return { changes: 0 };
+    }),
+    withTransactionAsync: jest.fn(async (callback: () => Promise<void>) => {
+      transactionsOpen += 1;
+      try {
+        await callback();
+      } finally {
+        transactionsOpen -= 1;
+      }
+    }),
+    writeLog,
+  };
+}
+
+/** Collapse whitespace so DDL can be compared regardless of indentation. */
+const normalise = (sql: string): string => sql.replace(/\s+/g, ' ').trim();
+
+describe('migrateToVersion10', () => {
+  it('creates the same table a fresh install gets', async () => {
+    const db = createMockMigrationDb();
+
+    await migrateToVersion10(db as never);
+
+    const [sql] = (db.execAsync.mock.calls as [string][])[0];
+    expect(normalise(sql)).toBe(normalise(CREATE_TASTING_HISTORY_TABLE));
+  });
+
+  it('seeds the history from the current round without overwriting it', async () => {
+    // A device that upgrades mid-plate and rolls over before its next sync
+    // would otherwise lose that plate, which is the one this table is for.
+    const db = createMockMigrationDb();
+
+    await migrateToVersion10(db as never);
+
+    expect(db.runAsync).toHaveBeenCalledTimes(1);
+    const [sql, params] = db.runAsync.mock.calls[0] as [string, unknown[]];
+    expect(sql).toMatch(/INSERT OR IGNORE INTO tasting_history/);
+    expect(sql).toMatch(/FROM tasted_brew_current_round/);
+    expect(params).toEqual([expect.any(Number)]);
+  });
+
+  it('skips current-round rows that carry no plate number', async () => {
+    const db = createMockMigrationDb();
+
+    await migrateToVersion10(db as never);
+
+    const [sql] = db.runAsync.mock.calls[0] as [string];
+    expect(normalise(sql)).toContain("roh_lap IS NOT NULL AND roh_lap != ''");
+  });
+
+  it('creates, seeds and records the version inside one transaction', async () => {
+    const db = createMockMigrationDb();
+
+    await migrateToVersion10(db as never);
+
+    expect(db.writeLog).toEqual([
+      { write: 'CREATE', transactionsOpen: 1 },
+      { write: 'INSERT', transactionsOpen: 1 },
+      { write: 'recordMigration', transactionsOpen: 1 },
+    ]);
+  });
+
+  it('acquires and releases the migration lock', async () => {
+    const db = createMockMigrationDb();
+    const lockSpy = jest.spyOn(databaseLockManager, 'withDatabaseLock');
+
+    await migrateToVersion10(db as never);
+
+    expect(lockSpy).toHaveBeenCalledWith('schema-migration-v10', expect.any(Function));
+    expect(databaseLockManager.isLocked()).toBe(false);
+    expect(recordMigration).toHaveBeenCalledWith(db, 10);
+  });
+
+  it('releases the lock and records nothing when the seed fails', async () => {
+    const db = createMockMigrationDb();
+    db.runAsync.mockRejectedValue(new Error('database is locked'));
+
+    await expect(migrateToVersion10(db as never)).rejects.toThrow('database is locked');
+
+    expect(databaseLockManager.isLocked()).toBe(false);
+    expect(recordMigration).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,166 @@
+import { migrateToVersion11 } from '../migrateToV11';
+import { databaseLockManager } from '../../DatabaseLockManager';
+import { recordMigration } from '../../schemaVersion';
+import { CREATE_BEER_SEARCH_TABLE } from '../../schema';
+
+// The lock manager is deliberately NOT mocked, as in v7 through v10: isLocked()
+// then asserts genuine lock state, which is what catches a dropped release.
+
+jest.mock('../../schemaVersion', () => ({
+  ...jest.requireActual('../../schemaVersion'),
+  recordMigration: jest.fn().mockResolvedValue(undefined),
+}));
+
+/** One write the migration made, and whether a transaction was open for it. */
+type WriteLogEntry = { readonly write: string; readonly transactionsOpen: number };
+
+type MockDb = {
+  execAsync: jest.Mock;
+  runAsync: jest.Mock;
+  getAllAsync: jest.Mock;
+  prepareAsync: jest.Mock;
+  withTransactionAsync: jest.Mock;
+  /** Rows inserted into the index, as [beer_id, source, ...] parameter lists. */
+  indexed: unknown[][];
+  /** Every write, in order, tagged with the transaction depth at the moment it ran. */
+  writeLog: WriteLogEntry[];
+};
+
+function createMockMigrationDb(
+  allBeers: Record<string, unknown>[] = [],
+  tasted: Record<string, unknown>[] = []
+): MockDb {
+  databaseLockManager.resetForTesting();
+  jest.restoreAllMocks();
+  (recordMigration as jest.Mock).mockClear();
+
+  let transactionsOpen = 0;
+  const writeLog: WriteLogEntry[] = [];
+  const indexed: unknown[][] = [];
+
+  (recordMigration as jest.Mock).mockImplementation(async () => {
+    writeLog.push({ write: 'recordMigration', transactionsOpen });
+  });
+
+  const logWrite = (sql: string) => {
+    writeLog.push({ write: sql.trim().split(/\s+/)[0].toUpperCase(), transactionsOpen });
+  };
+
+  return {
+    execAsync: jest.fn(async (sql: string) => logWrite(sql)),
+    runAsync: jest.fn(async (sql: string) => {
+      logWrite(sql);
+      return { changes: 0 };
+    }),
+    getAllAsync: jest.fn(async (sql: string) =>
+      sql.includes('FROM allbeers') ? allBeers : tasted
+    ),
+    prepareAsync: jest.fn(async (sql: string) => ({
+      executeAsync: jest.fn(async (params: unknown[]) => {
+        logWrite(sql);
+        indexed.push(params);
+      }),
+      finalizeAsync: jest.fn().mockResolvedValue(undefined),
+    })),
+    withTransactionAsync: jest.fn(async (callback: () => Promise<void>) => {
+      transactionsOpen += 1;
+      try {
+        await callback();
+      } finally {
+        transactionsOpen -= 1;
+      }
+    }),
+    indexed,
+    writeLog,
+  };
+}
+
+/** Collapse whitespace so DDL can be compared regardless of indentation. */
+const normalise = (sql: string): string => sql.replace(/\s+/g, ' ').trim();
+
+describe('migrateToVersion11', () => {
+  it('creates the same index a fresh install gets', async () => {
+    const db = createMockMigrationDb();
+
+    await migrateToVersion11(db as never);
+
+    const [sql] = (db.execAsync.mock.calls as [string][])[0];
+    expect(normalise(sql)).toBe(normalise(CREATE_BEER_SEARCH_TABLE));
+  });
+
+  it('indexes both beer tables from what is already on the device', async () => {
+    const db = createMockMigrationDb(
+      [
+        {
+          id: 'a1',
+          brew_name: 'Black Coffee',
+          brewer: 'Roaster',
+          brew_style: 'Stout',
+          brew_description: '<p>Cold&nbsp;brew</p>',
+        },
+      ],
+      [{ id: 't1', brew_name: 'Pils', brewer: 'Lager Co', brew_style: 'Pilsner' }]
+    );
+
+    await migrateToVersion11(db as never);
+
+    expect(db.indexed).toEqual([
+      ['a1', 'allbeers', 'Black Coffee', 'Roaster', 'Stout', 'Cold brew'],
+      ['t1', 'tasted', 'Pils', 'Lager Co', 'Pilsner', ''],
+    ]);
+  });
+
+  it('builds the index and records the version inside one transaction', async () => {
+    const db = createMockMigrationDb([{ id: 'a1', brew_name: 'Porter' }]);
+
+    await migrateToVersion11(db as never);
+
+    // Each source is replaced under its own savepoint, which also clears its
+    // stale mark (the DELETE before each RELEASE)
+    expect(db.writeLog).toEqual([
+      { write: 'CREATE', transactionsOpen: 1 },
+      { write: 'SAVEPOINT', transactionsOpen: 1 },
+      { write: 'DELETE', transactionsOpen: 1 },
+      { write: 'INSERT', transactionsOpen: 1 },
+      { write: 'DELETE', transactionsOpen: 1 },
+      { write: 'RELEASE', transactionsOpen: 1 },
+      { write: 'SAVEPOINT', transactionsOpen: 1 },
+      { write: 'DELETE', transactionsOpen: 1 },
+      { write: 'DELETE', transactionsOpen: 1 },
+      { write: 'RELEASE', transactionsOpen: 1 },
+      { write: 'recordMigration', transactionsOpen: 1 },
+    ]);
+  });
+
+  it('still records version 11 when SQLite has no FTS5', async () => {
+    const db = createMockMigrationDb([{ id: 'a1', brew_name: 'Porter' }]);
+    db.execAsync.mockRejectedValue(new Error('no such module: fts5'));
+    jest.spyOn(console, 'warn').mockImplementation();
+
+    await migrateToVersion11(db as never);
+
+    expect(db.getAllAsync).not.toHaveBeenCalled();
+    expect(recordMigration).toHaveBeenCalledWith(db, 11);
+  });
+
+  it('acquires and releases the migration lock', async () => {
+    const db = createMockMigrationDb();
+    const lockSpy = jest.spyOn(databaseLockManager, 'withDatabaseLock');
+
+    await migrateToVersion11(db as never);
+
+    expect(lockSpy).toHaveBeenCalledWith('schema-migration-v11', expect.any(Function));
+    expect(databaseLockManager.isLocked()).toBe(false);
+    expect(recordMigration).toHaveBeenCalledWith(db, 11);
+  });
+
+  it('releases the lock and records nothing when the table cannot be created', async () => {
+    const db = createMockMigrationDb();
+    db.execAsync.mockRejectedValue(new Error('database is locked'));
+
+    await expect(migrateToVersion11(db as never)).rejects.toThrow('database is locked');
+
+    expect(databaseLockManager.isLocked()).toBe(false);
+    expect(recordMigration).not.toHaveBeenCalled();
+  });
+});
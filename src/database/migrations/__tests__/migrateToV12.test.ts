@@ -0,0 +1,103 @@
+import { migrateToVersion12 } from '../migrateToV12';
+import { databaseLockManager } from '../../DatabaseLockManager';
+import { recordMigration } from '../../schemaVersion';
+
+// The lock manager is deliberately NOT mocked, as in v7 through v11: isLocked()
+// then asserts genuine lock state, which is what catches a dropped release.
+
+jest.mock('../../schemaVersion', () => ({
+  ...jest.requireActual('../../schemaVersion'),
+  recordMigration: jest.fn().mockResolvedValue(undefined),
+}));
+
+type MockDb = {
+  getAllAsync: jest.Mock;
+  execAsync: jest.Mock;
+  runAsync: jest.Mock;
+  withTransactionAsync: jest.Mock;
+};
+
+/**
+ * @param hasColumn - Whether PRAGMA reports style_family already present
+ * @param styles - The DISTINCT brew_style values each table returns
+ */
+function createMockMigrationDb(hasColumn: boolean, styles: (string | null)[] = []): MockDb {
+  databaseLockManager.resetForTesting();
+  jest.restoreAllMocks();
+  (recordMigration as jest.Mock).mockClear();
+
+  const columns = [{ name: 'id' }, { name: 'brew_style' }];
+  if (hasColumn) columns.push({ name: 'style_family' });
+
+  return {
+    getAllAsync: jest.fn(async (sql: string) =>
+      sql.startsWith('PRAGMA') ? columns : styles.map(brew_style => ({ brew_style }))
+    ),
+    execAsync: jest.fn().mockResolvedValue(undefined),
+    runAsync: jest.fn().mockResolvedValue({ changes: 1 }),
+    withTransactionAsync: jest.fn(async (callback: () => Promise<void>) => await callback()),
+  };
+}
+
+describe('migrateToVersion12', () => {
+  it('adds style_family to both beer tables', async () => {
+    const db = createMockMigrationDb(false);
+
+    await migrateToVersion12(db as never);
+
+    expect(db.execAsync.mock.calls.map(([sql]) => sql)).toEqual([
+      'ALTER TABLE allbeers ADD COLUMN style_family TEXT DEFAULT NULL',
+      'ALTER TABLE tasted_brew_current_round ADD COLUMN style_family TEXT DEFAULT NULL',
+    ]);
+  });
+
+  it('skips the column when it already exists', async () => {
+    const db = createMockMigrationDb(true);
+
+    await migrateToVersion12(db as never);
+
+    expect(db.execAsync).not.toHaveBeenCalled();
+    expect(recordMigration).toHaveBeenCalledWith(db, 12);
+  });
+
+  it('backfills each distinct style with its normalized family, NULL included', async () => {
+    const db = createMockMigrationDb(false, ['Imperial IPA', 'Milk Stout', null]);
+
+    await migrateToVersion12(db as never);
+
+    const allbeersUpdates = db.runAsync.mock.calls.filter(([sql]) =>
+      String(sql).startsWith('UPDATE allbeers')
+    );
+    expect(allbeersUpdates).toEqual([
+      [expect.stringContaining('WHERE brew_style IS ?'), ['IPA', 'Imperial IPA']],
+      [expect.any(String), ['Stout', 'Milk Stout']],
+      [expect.any(String), ['Other', null]],
+    ]);
+    expect(
+      db.runAsync.mock.calls.filter(([sql]) =>
+        String(sql).startsWith('UPDATE tasted_brew_current_round')
+      )
+    ).toHaveLength(3);
+  });
+
+  it('acquires and releases the migration lock', async () => {
+    const db = createMockMigrationDb(false);
+    const lockSpy = jest.spyOn(databaseLockManager, 'withDatabaseLock');
+
+    await migrateToVersion12(db as never);
+
+    expect(lockSpy).toHaveBeenCalledWith('schema-migration-v12', expect.any(Function));
+    expect(databaseLockManager.isLocked()).toBe(false);
+    expect(recordMigration).toHaveBeenCalledWith(db, 12);
+  });
+
+  it('releases the lock and records nothing when the backfill fails', async () => {
+    const db = createMockMigrationDb(false, ['IPA']);
+    db.runAsync.mockRejectedValue(new Error('database is locked'));
+
+    await expect(migrateToVersion12(db as never)).rejects.toThrow('database is locked');
+
+    expect(databaseLockManager.isLocked()).toBe(false);
+    expect(recordMigration).not.toHaveBeenCalled();
+  });
+});
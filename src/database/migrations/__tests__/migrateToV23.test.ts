@@ -0,0 +1,154 @@
+import { migrateToVersion23 } from '../migrateToV23';
+import { databaseLockManager } from '../../DatabaseLockManager';
+import { recordMigration } from '../../schemaVersion';
+import { CREATE_OPERATION_QUEUE_TABLE } from '../../schema';
+
+// The lock manager is deliberately NOT mocked, as in v7 through v22: isLocked()
+// then asserts genuine lock state, which is what catches a dropped release.
+
+jest.mock('../../schemaVersion', () => ({
+  ...jest.requireActual('../../schemaVersion'),
+  recordMigration: jest.fn().mockResolvedValue(undefined),
+}));
+
+/** One write the migration made, and whether a transaction was open for it. */
+type WriteLogEntry = { readonly write: string; readonly transactionsOpen: number };
+
+type MockDb = {
+  execAsync: jest.Mock;
+  getAllAsync: jest.Mock;
+  withTransactionAsync: jest.Mock;
+  /** Every write, in order, tagged with the transaction depth at the moment it ran. */
+  writeLog: WriteLogEntry[];
+};
+
+const V22_OPERATION_QUEUE_COLUMNS = [
+  'id',
+  'type',
+  'payload',
+  'timestamp',
+  'retry_count',
+  'status',
+  'error_message',
+  'last_retry_timestamp',
+].map(name => ({ name }));
+
+function createMockMigrationDb(columns = V22_OPERATION_QUEUE_COLUMNS): MockDb {
+  databaseLockManager.resetForTesting();
+  jest.restoreAllMocks();
+  (recordMigration as jest.Mock).mockClear();
+
+  let transactionsOpen = 0;
+  const writeLog: WriteLogEntry[] = [];
+
+  (recordMigration as jest.Mock).mockImplementation(async () => {
+    writeLog.push({ write: 'recordMigration', transactionsOpen });
+  });
+
+  return {
+    execAsync: jest.fn(async (sql: string) => {
+      writeLog.push({ write: sql.trim().split(/\s+/)[0].toUpperCase(), transactionsOpen });
+    }),
+    getAllAsync: jest.fn().mockResolvedValue(columns),
+    withTransactionAsync: jest.fn(async (callback: () => Promise<void>) => {
+      transactionsOpen += 1;
+      try {
+        await callback();
+      } finally {
+        transactionsOpen -= 1;
+      }
+    }),
+    writeLog,
+  };
+}
+
+/** Collapse whitespace so DDL can be compared regardless of indentation. */
+const normalise = (sql: string): string => sql.replace(/\s+/g, ' ').trim();
+
+const executed = (db: MockDb): string[] =>
+  (db.execAsync.mock.calls as [string][]).map(([sql]) => normalise(sql));
+
+const addedColumns = (db: MockDb): string[] =>
+  executed(db)
+    .filter(sql => sql.startsWith('ALTER TABLE operation_queue ADD COLUMN '))
+    .map(sql => sql.replace('ALTER TABLE operation_queue ADD COLUMN ', ''));
+
+describe('migrateToVersion23', () => {
+  it('adds the same columns a fresh install gets', async () => {
+    // The DDL is duplicated on purpose (see the migration's doc comment), so
+    // nothing else stops the two drifting apart.
+    const db = createMockMigrationDb();
+
+    await migrateToVersion23(db as never);
+
+    const added = addedColumns(db);
+    expect(added).toEqual([
+      'priority INTEGER NOT NULL DEFAULT 0',
+      'depends_on TEXT',
+      'idempotency_key TEXT',
+      'expires_at INTEGER',
+    ]);
+    for (const column of added) {
+      expect(normalise(CREATE_OPERATION_QUEUE_TABLE)).toContain(column);
+    }
+  });
+
+  it('makes the idempotency key unique', async () => {
+    const db = createMockMigrationDb();
+
+    await migrateToVersion23(db as never);
+
+    expect(executed(db)).toContain(
+      'CREATE UNIQUE INDEX IF NOT EXISTS idx_operation_queue_idempotency_key ON operation_queue(idempotency_key)'
+    );
+  });
+
+  it('adds only the columns that are missing', async () => {
+    const db = createMockMigrationDb([
+      ...V22_OPERATION_QUEUE_COLUMNS,
+      { name: 'priority' },
+      { name: 'depends_on' },
+    ]);
+
+    await migrateToVersion23(db as never);
+
+    expect(addedColumns(db)).toEqual(['idempotency_key TEXT', 'expires_at INTEGER']);
+    expect(recordMigration).toHaveBeenCalledWith(db, 23);
+  });
+
+  it('reads the columns before the transaction and writes inside one', async () => {
+    const db = createMockMigrationDb();
+
+    await migrateToVersion23(db as never);
+
+    expect(db.getAllAsync).toHaveBeenCalledWith('PRAGMA table_info(operation_queue)');
+    expect(db.writeLog).toEqual([
+      { write: 'ALTER', transactionsOpen: 1 },
+      { write: 'ALTER', transactionsOpen: 1 },
+      { write: 'ALTER', transactionsOpen: 1 },
+      { write: 'ALTER', transactionsOpen: 1 },
+      { write: 'CREATE', transactionsOpen: 1 },
+      { write: 'recordMigration', transactionsOpen: 1 },
+    ]);
+  });
+
+  it('acquires and releases the migration lock', async () => {
+    const db = createMockMigrationDb();
+    const lockSpy = jest.spyOn(databaseLockManager, 'withDatabaseLock');
+
+    await migrateToVersion23(db as never);
+
+    expect(lockSpy).toHaveBeenCalledWith('schema-migration-v23', expect.any(Function));
+    expect(databaseLockManager.isLocked()).toBe(false);
+  });
+
+  it('releases the lock and records nothing when a column cannot be added', async () => {
+    const db = createMockMigrationDb();
+    db.execAsync.mockRejectedValue(new Error('database is locked'));
+
+    await expect(migrateToVersion23(db as never)).rejects.toThrow('database is locked');
+
+    expect(databaseLockManager.isLocked()).toBe(false);
+    expect(recordMigration).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,138 @@
+import { migrateToVersion25 } from '../migrateToV25';
+import { databaseLockManager } from '../../DatabaseLockManager';
+import { recordMigration } from '../../schemaVersion';
+import { CREATE_OPERATION_QUEUE_TABLE } from '../../schema';
+
+// The lock manager is deliberately NOT mocked, as in v7 through v24: isLocked()
+// then asserts genuine lock state, which is what catches a dropped release.
+
+jest.mock('../../schemaVersion', () => ({
+  ...jest.requireActual('../../schemaVersion'),
+  recordMigration: jest.fn().mockResolvedValue(undefined),
+}));
+
+/** One write the migration made, and whether a transaction was open for it. */
+type WriteLogEntry = { readonly write: string; readonly transactionsOpen: number };
+
+type MockDb = {
+  execAsync: jest.Mock;
+  getAllAsync: jest.Mock;
+  withTransactionAsync: jest.Mock;
+  /** Every write, in order, tagged with the transaction depth at the moment it ran. */
+  writeLog: WriteLogEntry[];
+};
+
+const V24_OPERATION_QUEUE_COLUMNS = [
+  'id',
+  'type',
+  'payload',
+  'timestamp',
+  'retry_count',
+  'status',
+  'error_message',
+  'last_retry_timestamp',
+  'priority',
+  'depends_on',
+  'idempotency_key',
+  'expires_at',
+].map(name => ({ name }));
+
+function createMockMigrationDb(columns = V24_OPERATION_QUEUE_COLUMNS): MockDb {
+  databaseLockManager.resetForTesting();
+  jest.restoreAllMocks();
+  (recordMigration as jest.Mock).mockClear();
+
+  let transactionsOpen = 0;
+  const writeLog: WriteLogEntry[] = [];
+
+  (recordMigration as jest.Mock).mockImplementation(async () => {
+    writeLog.push({ write: 'recordMigration', transactionsOpen });
+  });
+
+  return {
+    execAsync: jest.fn(async (sql: string) => {
+      writeLog.push({ write: sql.trim().split(/\s+/)[0].toUpperCase(), transactionsOpen });
+    }),
+    getAllAsync: jest.fn().mockResolvedValue(columns),
+    withTransactionAsync: jest.fn(async (callback: () => Promise<void>) => {
+      transactionsOpen += 1;
+      try {
+        await callback();
+      } finally {
+        transactionsOpen -= 1;
+      }
+    }),
+    writeLog,
+  };
+}
+
+/** Collapse whitespace so DDL can be compared regardless of indentation. */
+const normalise = (sql: string): string => sql.replace(/\s+/g, ' ').trim();
+
+const executed = (db: MockDb): string[] =>
+  (db.execAsync.mock.calls as [string][]).map(([sql]) => normalise(sql));
+
+describe('migrateToVersion25', () => {
+  it('adds the same column a fresh install gets', async () => {
+    // The DDL is duplicated on purpose (see the migration's doc comment), so
+    // nothing else stops the two drifting apart.
+    const db = createMockMigrationDb();
+
+    await migrateToVersion25(db as never);
+
+    expect(executed(db)).toContain('ALTER TABLE operation_queue ADD COLUMN dedupe_key TEXT');
+    expect(normalise(CREATE_OPERATION_QUEUE_TABLE)).toContain('dedupe_key TEXT');
+  });
+
+  it('indexes the dedupe key', async () => {
+    const db = createMockMigrationDb();
+
+    await migrateToVersion25(db as never);
+
+    expect(executed(db)).toContain(
+      'CREATE INDEX IF NOT EXISTS idx_operation_queue_dedupe_key ON operation_queue(dedupe_key)'
+    );
+  });
+
+  it('leaves a column already there alone', async () => {
+    const db = createMockMigrationDb([...V24_OPERATION_QUEUE_COLUMNS, { name: 'dedupe_key' }]);
+
+    await migrateToVersion25(db as never);
+
+    expect(executed(db).some(sql => sql.startsWith('ALTER TABLE'))).toBe(false);
+    expect(recordMigration).toHaveBeenCalledWith(db, 25);
+  });
+
+  it('reads the columns before the transaction and writes inside one', async () => {
+    const db = createMockMigrationDb();
+
+    await migrateToVersion25(db as never);
+
+    expect(db.getAllAsync).toHaveBeenCalledWith('PRAGMA table_info(operation_queue)');
+    expect(db.writeLog).toEqual([
+      { write: 'ALTER', transactionsOpen: 1 },
+      { write: 'CREATE', transactionsOpen: 1 },
+      { write: 'recordMigration', transactionsOpen: 1 },
+    ]);
+  });
+
+  it('acquires and releases the migration lock', async () => {
+    const db = createMockMigrationDb();
+    const lockSpy = jest.spyOn(databaseLockManager, 'withDatabaseLock');
+
+    await migrateToVersion25(db as never);
+
+    expect(lockSpy).toHaveBeenCalledWith('schema-migration-v25', expect.any(Function));
+    expect(databaseLockManager.isLocked()).toBe(false);
+  });
+
+  it('releases the lock and records nothing when the column cannot be added', async () => {
+    const db = createMockMigrationDb();
+    db.execAsync.mockRejectedValue(new Error('database is locked'));
+
+    await expect(migrateToVersion25(db as never)).rejects.toThrow('database is locked');
+
+    expect(databaseLockManager.isLocked()).toBe(false);
+    expect(recordMigration).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,127 @@
+import { migrateToVersion9 } from '../migrateToV9';
+import { databaseLockManager } from '../../DatabaseLockManager';
+import { recordMigration } from '../../schemaVersion';
+import { CREATE_BEER_NOTES_TABLE } from '../../schema';
+
+// The lock manager is deliberately NOT mocked, as in v7 and v8: isLocked()
+// then asserts genuine lock state, which is what catches a dropped release.
+
+jest.mock('../../schemaVersion', () => ({
+  ...jest.requireActual('../../schemaVersion'),
+  recordMigration: jest.fn().mockResolvedValue(undefined),
+}));
+
+/** One write the migration made, and whether a transaction was open for it. */
+type WriteLogEntry = { readonly write: string; readonly transactionsOpen: number };
+
+type MockDb = {
+  execAsync: jest.Mock;
+  runAsync: jest.Mock;
+  withTransactionAsync: jest.Mock;
+  /** Every write, in order, tagged with the transaction depth at the moment it ran. */
+  writeLog: WriteLogEntry[];
+};
+
+function createMockMigrationDb(): MockDb {
+  databaseLockManager.resetForTesting();
+  jest.restoreAllMocks();
+  (recordMigration as jest.Mock).mockClear();
+
+  let transactionsOpen = 0;
+  const writeLog: WriteLogEntry[] = [];
+
+  (recordMigration as jest.Mock).mockImplementation(async () => {
+    writeLog.push({ write: 'recordMigration', transactionsOpen });
+  });
+
+  return {
+    execAsync: jest.fn(async (sql: string) => {
+      writeLog.push({ write: sql.trim().split(/\s+/)[0].toUpperCase(), transactionsOpen });
+    }),
+    runAsync: jest.fn().mockResolvedValue({ changes: 0 }),
+    withTransactionAsync: jest.fn(async (callback: () => Promise<void>) => {
+      transactionsOpen += 1;
+      try {
+        await callback();
+      } finally {
+        transactionsOpen -= 1;
+      }
+    }),
+    writeLog,
+  };
+}
+
+/** Collapse whitespace so DDL can be compared regardless of indentation. */
+const normalise = (sql: string): string => sql.replace(/\s+/g, ' ').trim();
+
+describe('migrateToVersion9', () => {
+  it('creates the beer_notes table idempotently', async () => {
+    const db = createMockMigrationDb();
+
+    await migrateToVersion9(db as never);
+
+    const creates = (db.execAsync.mock.calls as [string][]).filter(([sql]) =>
+      /CREATE TABLE IF NOT EXISTS beer_notes/.test(sql)
+    );
+    expect(creates).toHaveLength(1);
+  });
+
+  it('creates the same table a fresh install gets', async () => {
+    // The DDL is duplicated on purpose (see the migration's doc comment), so
+    // nothing else stops the two drifting apart before they are meant to. An
+    // upgraded device and a fresh install at version 9 must hold the same table.
+    const db = createMockMigrationDb();
+
+    await migrateToVersion9(db as never);
+
+    const [sql] = (db.execAsync.mock.calls as [string][])[0];
+    expect(normalise(sql)).toBe(normalise(CREATE_BEER_NOTES_TABLE));
+  });
+
+  it('never touches the tasted brew table', async () => {
+    // The reason the notes have their own table. A migration that copied or
+    // reshaped tasted_brew_current_round would tie the notes back to the data
+    // every refresh throws away.
+    const db = createMockMigrationDb();
+
+    await migrateToVersion9(db as never);
+
+    const statements = [
+      ...(db.execAsync.mock.calls as [string][]).map(([sql]) => sql),
+      ...(db.runAsync.mock.calls as [string][]).map(([sql]) => sql),
+    ];
+    expect(statements.some(sql => sql.includes('tasted_brew_current_round'))).toBe(false);
+  });
+
+  it('creates the table and records the version inside one transaction', async () => {
+    const db = createMockMigrationDb();
+
+    await migrateToVersion9(db as never);
+
+    expect(db.writeLog).toEqual([
+      { write: 'CREATE', transactionsOpen: 1 },
+      { write: 'recordMigration', transactionsOpen: 1 },
+    ]);
+  });
+
+  it('acquires and releases the migration lock', async () => {
+    const db = createMockMigrationDb();
+    const lockSpy = jest.spyOn(databaseLockManager, 'withDatabaseLock');
+
+    await migrateToVersion9(db as never);
+
+    expect(lockSpy).toHaveBeenCalledWith('schema-migration-v9', expect.any(Function));
+    expect(databaseLockManager.isLocked()).toBe(false);
+    expect(recordMigration).toHaveBeenCalledWith(db, 9);
+  });
+
+  it('releases the lock and records nothing when the create fails', async () => {
+    const db = createMockMigrationDb();
+    db.execAsync.mockRejectedValue(new Error('database is locked'));
+
+    await expect(migrateToVersion9(db as never)).rejects.toThrow('database is locked');
+
+    expect(databaseLockManager.isLocked()).toBe(false);
+    expect(recordMigration).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,57 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+import { recordMigration } from '../schemaVersion';
+import { databaseLockManager } from '../DatabaseLockManager';
+
+/**
+ * Migration to version 10: Add the append-only `tasting_history` table
+ *
+ * `tasted_brew_current_round` is a mirror of the current plate and is emptied
+ * on every sync, so when a plate rolls over at 200 beers its history used to
+ * leave the device entirely. `tasting_history` keeps one row per beer per plate
+ * (`roh_lap`), written with INSERT OR IGNORE and never updated or deleted.
+ *
+ * The table is seeded from whatever is in the current round right now. Without
+ * that, a device that upgrades mid-plate and then rolls over before its next
+ * sync would lose the one plate this migration exists to keep. Rows with no
+ * `roh_lap` are skipped: they cannot be attributed to a plate, and the composite
+ * key would lump them together under an empty string.
+ *
+ * DDL is written out rather than imported from `schema.ts`, as in v9: the
+ * migration records the schema at this version.
+ */
+export async function migrateToVersion10(database: SQLiteDatabase): Promise<void> {
+  console.log('[Migration v10] Starting migration to schema version 10...');
+
+  await databaseLockManager.withDatabaseLock('schema-migration-v10', async () => {
+    await database.withTransactionAsync(async () => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS tasting_history (
+          beer_id TEXT NOT NULL,
+          roh_lap TEXT NOT NULL,
+          tasted_date TEXT,
+          brew_name TEXT,
+          brewer TEXT,
+          brew_style TEXT,
+          recorded_at INTEGER NOT NULL,
+          PRIMARY KEY (beer_id, roh_lap)
+        )
+      `);
+      console.log('[Migration v10] Created tasting_history table if absent');
+
+      const seeded = await database.runAsync(
+        `INSERT OR IGNORE INTO tasting_history (
+          beer_id, roh_lap, tasted_date, brew_name, brewer, brew_style, recorded_at
+        )
+        SELECT id, roh_lap, tasted_date, brew_name, brewer, brew_style, ?
+        FROM tasted_brew_current_round
+        WHERE id IS NOT NULL AND id != '' AND roh_lap IS NOT NULL AND roh_lap != ''`,
+        [Date.now()]
+      );
+      console.log(`[Migration v10] Seeded ${seeded.changes} rows from the current round`);
+
+      await recordMigration(database, 10);
+    });
+  });
+
+  console.log('[Migration v10] Migration to version 10 complete');
+}
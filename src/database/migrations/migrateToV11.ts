@@ -0,0 +1,69 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+import { recordMigration } from '../schemaVersion';
+import { databaseLockManager } from '../DatabaseLockManager';
+import {
+  IndexableBeer,
+  isSearchIndexUnsupportedError,
+  replaceSearchSourceUnsafe,
+} from '../searchIndex';
+
+/**
+ * Migration to version 11: Add the `beer_search` FTS5 full-text index
+ *
+ * Builds the index over both beer tables from what is on the device now, so
+ * search works before the next refresh rewrites them. From here on the
+ * repositories keep it current inside their own import and enrichment
+ * transactions.
+ *
+ * FTS5 is optional. On a SQLite built without it the table cannot be created;
+ * the migration still records version 11, because nothing else depends on the
+ * index and every search path falls back without it.
+ *
+ * DDL is written out rather than imported from `schema.ts`, as in v9 and v10.
+ */
+export async function migrateToVersion11(database: SQLiteDatabase): Promise<void> {
+  console.log('[Migration v11] Starting migration to schema version 11...');
+
+  await databaseLockManager.withDatabaseLock('schema-migration-v11', async () => {
+    await database.withTransactionAsync(async () => {
+      let created = true;
+      try {
+        await database.execAsync(`
+          CREATE VIRTUAL TABLE IF NOT EXISTS beer_search USING fts5(
+            beer_id UNINDEXED,
+            source UNINDEXED,
+            brew_name,
+            brewer,
+            brew_style,
+            description,
+            tokenize = 'unicode61 remove_diacritics 2'
+          )
+        `);
+      } catch (error) {
+        if (!isSearchIndexUnsupportedError(error)) throw error;
+        created = false;
+        console.warn('[Migration v11] FTS5 unavailable; skipping the beer_search index');
+      }
+
+      if (created) {
+        const allBeers = await database.getAllAsync<IndexableBeer>(
+          'SELECT id, brew_name, brewer, brew_style, brew_description FROM allbeers'
+        );
+        await replaceSearchSourceUnsafe(database, 'allbeers', allBeers);
+
+        const tasted = await database.getAllAsync<IndexableBeer>(
+          'SELECT id, brew_name, brewer, brew_style, brew_description FROM tasted_brew_current_round'
+        );
+        await replaceSearchSourceUnsafe(database, 'tasted', tasted);
+
+        console.log(
+          `[Migration v11] Indexed ${allBeers.length} taplist and ${tasted.length} tasted beers`
+        );
+      }
+
+      await recordMigration(database, 11);
+    });
+  });
+
+  console.log('[Migration v11] Migration to version 11 complete');
+}
@@ -0,0 +1,62 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+import { recordMigration } from '../schemaVersion';
+import { databaseLockManager } from '../DatabaseLockManager';
+import { getStyleFamily } from '../../utils/styleTaxonomy';
+
+const BEER_TABLES = ['allbeers', 'tasted_brew_current_round'] as const;
+
+/**
+ * Migration to version 12: Add the `style_family` column to both beer tables
+ *
+ * Stores the normalized family of the free-text `brew_style` ("IPA - Double"
+ * and "DIPA" are both IPA), which the style filter groups and counts by.
+ * New rows get it from `calculateContainerTypes`; this backfills the rows
+ * already on the device so the filter is complete before the next refresh.
+ *
+ * The backfill runs once per distinct style rather than once per row: a
+ * taplist of ~1,200 beers has well under a hundred distinct styles.
+ *
+ * As in v7, the PRAGMA checks run before the transaction and make the column
+ * additions idempotent.
+ */
+export async function migrateToVersion12(database: SQLiteDatabase): Promise<void> {
+  console.log('[Migration v12] Starting migration to schema version 12...');
+
+  await databaseLockManager.withDatabaseLock('schema-migration-v12', async () => {
+    // PRAGMA statements don't work correctly inside transactions
+    const missing: string[] = [];
+    for (const table of BEER_TABLES) {
+      const columns = await database.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+      if (!columns.some(column => column.name === 'style_family')) {
+        missing.push(table);
+      }
+    }
+
+    await database.withTransactionAsync(async () => {
+      for (const table of BEER_TABLES) {
+        if (missing.includes(table)) {
+          await database.execAsync(
+            `ALTER TABLE ${table} ADD COLUMN style_family TEXT DEFAULT NULL`
+          );
+          console.log(`[Migration v12] Added style_family column to ${table}`);
+        }
+
+        const styles = await database.getAllAsync<{ brew_style: string | null }>(
+          `SELECT DISTINCT brew_style FROM ${table}`
+        );
+        for (const { brew_style } of styles) {
+          // IS rather than =, so the NULL style is matched too
+          await database.runAsync(`UPDATE ${table} SET style_family = ? WHERE brew_style IS ?`, [
+            getStyleFamily(brew_style),
+            brew_style,
+          ]);
+        }
+        console.log(`[Migration v12] Backfilled ${styles.length} distinct styles in ${table}`);
+      }
+
+      await recordMigration(database, 12);
+    });
+  });
+
+  console.log('[Migration v12] Migration to version 12 complete');
+}
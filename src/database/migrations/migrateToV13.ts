@@ -0,0 +1,40 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+import { recordMigration } from '../schemaVersion';
+import { databaseLockManager } from '../DatabaseLockManager';
+
+/**
+ * Migration to version 13: Add the `filter_presets` table
+ *
+ * Named filter presets, keyed by the list they belong to and their name, so
+ * All Beers and Beerfinder can each have a "Strong drafts". Like `beer_notes`,
+ * nothing in the refresh path writes here.
+ *
+ * The last-used filters of each list are not in this table: they are a single
+ * value per list and live in `preferences` under `filter_state_<list>`.
+ *
+ * Idempotent: `CREATE TABLE IF NOT EXISTS` is a no-op on a device that already
+ * has the table. The DDL is written out here rather than imported from
+ * `schema.ts`, for the reason given in v9.
+ */
+export async function migrateToVersion13(database: SQLiteDatabase): Promise<void> {
+  console.log('[Migration v13] Starting migration to schema version 13...');
+
+  await databaseLockManager.withDatabaseLock('schema-migration-v13', async () => {
+    await database.withTransactionAsync(async () => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS filter_presets (
+          list TEXT NOT NULL,
+          name TEXT NOT NULL,
+          state TEXT NOT NULL,
+          updated_at INTEGER NOT NULL,
+          PRIMARY KEY (list, name)
+        )
+      `);
+      console.log('[Migration v13] Created filter_presets table if absent');
+
+      await recordMigration(database, 13);
+    });
+  });
+
+  console.log('[Migration v13] Migration to version 13 complete');
+}
@@ -0,0 +1,38 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+import { recordMigration } from '../schemaVersion';
+import { databaseLockManager } from '../DatabaseLockManager';
+
+/**
+ * Migration to version 14: Add the `wishlist` table
+ *
+ * Beers the user has starred to try, kept on the device only. Rows carry the
+ * name, brewer and style from when the beer was starred, because the beer may
+ * not be on any taplist when the wishlist is next opened.
+ *
+ * Idempotent: `CREATE TABLE IF NOT EXISTS` is a no-op on a device that already
+ * has the table. The DDL is written out here rather than imported from
+ * `schema.ts`, for the reason given in v9.
+ */
+export async function migrateToVersion14(database: SQLiteDatabase): Promise<void> {
+  console.log('[Migration v14] Starting migration to schema version 14...');
+
+  await databaseLockManager.withDatabaseLock('schema-migration-v14', async () => {
+    await database.withTransactionAsync(async () => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS wishlist (
+          beer_id TEXT PRIMARY KEY,
+          brew_name TEXT NOT NULL,
+          brewer TEXT,
+          brew_style TEXT,
+          added_at INTEGER NOT NULL,
+          last_seen_on_tap INTEGER
+        )
+      `);
+      console.log('[Migration v14] Created wishlist table if absent');
+
+      await recordMigration(database, 14);
+    });
+  });
+
+  console.log('[Migration v14] Migration to version 14 complete');
+}
@@ -0,0 +1,40 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+import { recordMigration } from '../schemaVersion';
+import { databaseLockManager } from '../DatabaseLockManager';
+
+/**
+ * Migration to version 15: Add the `taplist_diffs` table
+ *
+ * One row per taplist refresh that changed something: the beers it added and
+ * removed and the ones whose ABV or description changed, as JSON. The Home
+ * screen's "New since last visit" section and the NEW badge read from here.
+ *
+ * Starts empty. There is no earlier taplist to compare with, so the first
+ * refresh after the upgrade only sets the baseline.
+ *
+ * Idempotent: `CREATE TABLE IF NOT EXISTS` is a no-op on a device that already
+ * has the table. The DDL is written out here rather than imported from
+ * `schema.ts`, for the reason given in v9.
+ */
+export async function migrateToVersion15(database: SQLiteDatabase): Promise<void> {
+  console.log('[Migration v15] Starting migration to schema version 15...');
+
+  await databaseLockManager.withDatabaseLock('schema-migration-v15', async () => {
+    await database.withTransactionAsync(async () => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS taplist_diffs (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          recorded_at INTEGER NOT NULL,
+          added TEXT NOT NULL,
+          removed TEXT NOT NULL,
+          changed TEXT NOT NULL
+        )
+      `);
+      console.log('[Migration v15] Created taplist_diffs table if absent');
+
+      await recordMigration(database, 15);
+    });
+  });
+
+  console.log('[Migration v15] Migration to version 15 complete');
+}
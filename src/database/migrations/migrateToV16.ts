@@ -0,0 +1,41 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+import { recordMigration } from '../schemaVersion';
+import { databaseLockManager } from '../DatabaseLockManager';
+
+/**
+ * Migration to version 16: Add the `store_taplists` table
+ *
+ * One row per store saved for comparison, holding that store's last fetched
+ * taplist as JSON and the proxy ETag it came with. The home store's taplist
+ * stays in `allbeers` under `all_beers_etag`; nothing here reads or writes
+ * either.
+ *
+ * Starts empty: no store is saved until the user adds one.
+ *
+ * Idempotent: `CREATE TABLE IF NOT EXISTS` is a no-op on a device that already
+ * has the table. The DDL is written out here rather than imported from
+ * `schema.ts`, for the reason given in v9.
+ */
+export async function migrateToVersion16(database: SQLiteDatabase): Promise<void> {
+  console.log('[Migration v16] Starting migration to schema version 16...');
+
+  await databaseLockManager.withDatabaseLock('schema-migration-v16', async () => {
+    await database.withTransactionAsync(async () => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS store_taplists (
+          store_id TEXT PRIMARY KEY,
+          store_name TEXT NOT NULL,
+          beers TEXT NOT NULL DEFAULT '[]',
+          etag TEXT,
+          fetched_at INTEGER,
+          added_at INTEGER NOT NULL
+        )
+      `);
+      console.log('[Migration v16] Created store_taplists table if absent');
+
+      await recordMigration(database, 16);
+    });
+  });
+
+  console.log('[Migration v16] Migration to version 16 complete');
+}
@@ -0,0 +1,60 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+import { recordMigration } from '../schemaVersion';
+import { databaseLockManager } from '../DatabaseLockManager';
+
+/**
+ * Migration to version 17: Add the `store_directory` table and
+ * `store_taplists.compared`
+ *
+ * `store_directory` holds the Flying Saucer locations fetched from the proxy or
+ * entered by the user. It starts empty: the bundled directory ships with the
+ * app and is not copied in, so an app update can correct it.
+ *
+ * `store_taplists` now also caches the taplist of every store switched away
+ * from, so the column says which rows are the stores saved for comparison.
+ * Every row already there was saved for comparison, hence the default of 1.
+ *
+ * Idempotent: `CREATE TABLE IF NOT EXISTS`, and the column is added only when
+ * `PRAGMA table_info` does not already list it. The PRAGMA runs outside the
+ * transaction, as in v7. The DDL is written out here rather than imported from
+ * `schema.ts`, for the reason given in v9.
+ */
+export async function migrateToVersion17(database: SQLiteDatabase): Promise<void> {
+  console.log('[Migration v17] Starting migration to schema version 17...');
+
+  await databaseLockManager.withDatabaseLock('schema-migration-v17', async () => {
+    const tableInfo = await database.getAllAsync<{ name: string }>(
+      'PRAGMA table_info(store_taplists)'
+    );
+    const hasCompared = tableInfo.some(column => column.name === 'compared');
+
+    await database.withTransactionAsync(async () => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS store_directory (
+          store_id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          city TEXT,
+          state TEXT,
+          latitude REAL,
+          longitude REAL,
+          source TEXT NOT NULL,
+          updated_at INTEGER NOT NULL
+        )
+      `);
+      console.log('[Migration v17] Created store_directory table if absent');
+
+      if (!hasCompared) {
+        await database.execAsync(
+          'ALTER TABLE store_taplists ADD COLUMN compared INTEGER NOT NULL DEFAULT 1'
+        );
+        console.log('[Migration v17] Added compared column to store_taplists');
+      } else {
+        console.log('[Migration v17] compared column already exists, skipping');
+      }
+
+      await recordMigration(database, 17);
+    });
+  });
+
+  console.log('[Migration v17] Migration to version 17 complete');
+}
@@ -0,0 +1,40 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+import { recordMigration } from '../schemaVersion';
+import { databaseLockManager } from '../DatabaseLockManager';
+
+/**
+ * Migration to version 18: Add the `enrichment_jobs` table
+ *
+ * One row per beer handed to the Worker for enrichment and not yet back, so
+ * the wait survives the app being backgrounded or killed. Until now the ids
+ * lived only in the poll's memory.
+ *
+ * Starts empty: whatever a poll was waiting on before the upgrade is lost, as
+ * it always was, and the next refresh that finds those beers missing hands
+ * them over again.
+ *
+ * Idempotent: `CREATE TABLE IF NOT EXISTS` is a no-op on a device that already
+ * has the table. The DDL is written out here rather than imported from
+ * `schema.ts`, for the reason given in v9.
+ */
+export async function migrateToVersion18(database: SQLiteDatabase): Promise<void> {
+  console.log('[Migration v18] Starting migration to schema version 18...');
+
+  await databaseLockManager.withDatabaseLock('schema-migration-v18', async () => {
+    await database.withTransactionAsync(async () => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS enrichment_jobs (
+          beer_id TEXT PRIMARY KEY,
+          requested_at INTEGER NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          last_attempt_at INTEGER
+        )
+      `);
+      console.log('[Migration v18] Created enrichment_jobs table if absent');
+
+      await recordMigration(database, 18);
+    });
+  });
+
+  console.log('[Migration v18] Migration to version 18 complete');
+}
@@ -0,0 +1,40 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+import { recordMigration } from '../schemaVersion';
+import { databaseLockManager } from '../DatabaseLockManager';
+
+/**
+ * Migration to version 19: Add the `beer_corrections` table
+ *
+ * One row per beer whose ABV, style or description the user has corrected.
+ * Kept apart from `allbeers` and `tasted_brew_current_round` for the reason
+ * `beer_notes` is: both are emptied and refilled on every refresh, and a
+ * correction must outlive that.
+ *
+ * Starts empty: nothing could be corrected before this version.
+ *
+ * Idempotent: `CREATE TABLE IF NOT EXISTS` is a no-op on a device that already
+ * has the table. The DDL is written out here rather than imported from
+ * `schema.ts`, for the reason given in v9.
+ */
+export async function migrateToVersion19(database: SQLiteDatabase): Promise<void> {
+  console.log('[Migration v19] Starting migration to schema version 19...');
+
+  await databaseLockManager.withDatabaseLock('schema-migration-v19', async () => {
+    await database.withTransactionAsync(async () => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS beer_corrections (
+          beer_id TEXT PRIMARY KEY,
+          abv REAL,
+          brew_style TEXT,
+          brew_description TEXT,
+          updated_at INTEGER NOT NULL
+        )
+      `);
+      console.log('[Migration v19] Created beer_corrections table if absent');
+
+      await recordMigration(database, 19);
+    });
+  });
+
+  console.log('[Migration v19] Migration to version 19 complete');
+}
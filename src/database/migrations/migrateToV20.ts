@@ -0,0 +1,51 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+import { recordMigration } from '../schemaVersion';
+import { databaseLockManager } from '../DatabaseLockManager';
+
+/**
+ * Migration to version 20: Add the `enrichment_metrics` and
+ * `enrichment_requests` tables
+ *
+ * The enrichment service's counters were kept in memory only, and lost with
+ * the app. `enrichment_metrics` sums them per hour; `enrichment_requests` keeps
+ * the latest requests to the Worker and how each ended, for the diagnostics
+ * panel in the Developer settings.
+ *
+ * Both start empty: nothing was recorded before this version.
+ *
+ * Idempotent: `CREATE TABLE IF NOT EXISTS` is a no-op on a device that already
+ * has the tables. The DDL is written out here rather than imported from
+ * `schema.ts`, for the reason given in v9.
+ */
+export async function migrateToVersion20(database: SQLiteDatabase): Promise<void> {
+  console.log('[Migration v20] Starting migration to schema version 20...');
+
+  await databaseLockManager.withDatabaseLock('schema-migration-v20', async () => {
+    await database.withTransactionAsync(async () => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS enrichment_metrics (
+          bucket_start INTEGER NOT NULL,
+          metric TEXT NOT NULL,
+          count INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (bucket_start, metric)
+        )
+      `);
+      console.log('[Migration v20] Created enrichment_metrics table if absent');
+
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS enrichment_requests (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          request_id TEXT,
+          endpoint TEXT NOT NULL,
+          outcome TEXT NOT NULL,
+          recorded_at INTEGER NOT NULL
+        )
+      `);
+      console.log('[Migration v20] Created enrichment_requests table if absent');
+
+      await recordMigration(database, 20);
+    });
+  });
+
+  console.log('[Migration v20] Migration to version 20 complete');
+}
@@ -0,0 +1,42 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+import { recordMigration } from '../schemaVersion';
+import { databaseLockManager } from '../DatabaseLockManager';
+
+/**
+ * Migration to version 21: Add the `taplist_snapshots` table
+ *
+ * A refresh replaced `allbeers` and the previous taplist was gone. Each write
+ * now also keeps the taplist as a snapshot, the last few per store, so All
+ * Beers can show one as it was — the beer seen last week that has since been
+ * tapped out.
+ *
+ * Starts empty: the taplists replaced before this version are not recoverable.
+ *
+ * Idempotent: `CREATE TABLE IF NOT EXISTS` is a no-op on a device that already
+ * has the table. The DDL is written out here rather than imported from
+ * `schema.ts`, for the reason given in v9.
+ */
+export async function migrateToVersion21(database: SQLiteDatabase): Promise<void> {
+  console.log('[Migration v21] Starting migration to schema version 21...');
+
+  await databaseLockManager.withDatabaseLock('schema-migration-v21', async () => {
+    await database.withTransactionAsync(async () => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS taplist_snapshots (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          store_id TEXT NOT NULL,
+          fetched_at INTEGER NOT NULL,
+          source TEXT NOT NULL,
+          etag TEXT,
+          beer_count INTEGER NOT NULL,
+          beers TEXT NOT NULL
+        )
+      `);
+      console.log('[Migration v21] Created taplist_snapshots table if absent');
+
+      await recordMigration(database, 21);
+    });
+  });
+
+  console.log('[Migration v21] Migration to version 21 complete');
+}
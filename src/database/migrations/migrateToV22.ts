@@ -0,0 +1,39 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+import { recordMigration } from '../schemaVersion';
+import { databaseLockManager } from '../DatabaseLockManager';
+
+/**
+ * Migration to version 22: Add the `refresh_log` table
+ *
+ * A refresh run's results were turned into an alert, or a log line, and then
+ * dropped. Each run is now kept, with what every source did, so Settings can
+ * show the sync history when a list looks stale.
+ *
+ * Starts empty: runs before this version were never recorded.
+ *
+ * Idempotent: `CREATE TABLE IF NOT EXISTS` is a no-op on a device that already
+ * has the table. The DDL is written out here rather than imported from
+ * `schema.ts`, for the reason given in v9.
+ */
+export async function migrateToVersion22(database: SQLiteDatabase): Promise<void> {
+  console.log('[Migration v22] Starting migration to schema version 22...');
+
+  await databaseLockManager.withDatabaseLock('schema-migration-v22', async () => {
+    await database.withTransactionAsync(async () => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS refresh_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          trigger TEXT NOT NULL,
+          started_at INTEGER NOT NULL,
+          duration_ms INTEGER NOT NULL,
+          sources TEXT NOT NULL
+        )
+      `);
+      console.log('[Migration v22] Created refresh_log table if absent');
+
+      await recordMigration(database, 22);
+    });
+  });
+
+  console.log('[Migration v22] Migration to version 22 complete');
+}
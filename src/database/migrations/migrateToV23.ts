@@ -0,0 +1,60 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+import { recordMigration } from '../schemaVersion';
+import { databaseLockManager } from '../DatabaseLockManager';
+
+/** The columns v23 adds to `operation_queue`, with their DDL */
+const OPERATION_QUEUE_COLUMNS: readonly { name: string; definition: string }[] = [
+  { name: 'priority', definition: 'priority INTEGER NOT NULL DEFAULT 0' },
+  { name: 'depends_on', definition: 'depends_on TEXT' },
+  { name: 'idempotency_key', definition: 'idempotency_key TEXT' },
+  { name: 'expires_at', definition: 'expires_at INTEGER' },
+];
+
+/**
+ * Migration to version 23: Add scheduling columns to `operation_queue`
+ *
+ * The queue ran its operations in the order they were queued. Each can now
+ * carry a priority, the ID of an operation it must wait for, an idempotency
+ * key that stops the same work being queued twice, and a time after which it
+ * is no longer worth running. Operations already queued get priority 0 and
+ * none of the rest, so they run as before.
+ *
+ * The idempotency key is unique; SQLite lets any number of rows leave it NULL.
+ *
+ * Idempotent: each column is added only when `PRAGMA table_info` does not
+ * already list it, and the index is `CREATE UNIQUE INDEX IF NOT EXISTS`. The
+ * PRAGMA runs outside the transaction, as in v7. The DDL is written out here
+ * rather than imported from `schema.ts`, for the reason given in v9.
+ */
+export async function migrateToVersion23(database: SQLiteDatabase): Promise<void> {
+  console.log('[Migration v23] Starting migration to schema version 23...');
+
+  await databaseLockManager.withDatabaseLock('schema-migration-v23', async () => {
+    const tableInfo = await database.getAllAsync<{ name: string }>(
+      'PRAGMA table_info(operation_queue)'
+    );
+    const existing = new Set(tableInfo.map(column => column.name));
+
+    await database.withTransactionAsync(async () => {
+      for (const column of OPERATION_QUEUE_COLUMNS) {
+        if (existing.has(column.name)) {
+          console.log(`[Migration v23] ${column.name} column already exists, skipping`);
+          continue;
+        }
+
+        await database.execAsync(`ALTER TABLE operation_queue ADD COLUMN ${column.definition}`);
+        console.log(`[Migration v23] Added ${column.name} column to operation_queue`);
+      }
+
+      await database.execAsync(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_operation_queue_idempotency_key
+        ON operation_queue(idempotency_key)
+      `);
+      console.log('[Migration v23] Created idempotency key index if absent');
+
+      await recordMigration(database, 23);
+    });
+  });
+
+  console.log('[Migration v23] Migration to version 23 complete');
+}
@@ -0,0 +1,46 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+import { recordMigration } from '../schemaVersion';
+import { databaseLockManager } from '../DatabaseLockManager';
+
+/**
+ * Migration to version 24: Add the `operation_attempts` table
+ *
+ * A queued operation kept only its latest error and the time of its last
+ * retry, so a failed one could not show how it got there. Each attempt is now
+ * recorded with its outcome and error, for the failed operations' timelines.
+ *
+ * Starts empty: attempts before this version were never recorded.
+ *
+ * Idempotent: `CREATE TABLE IF NOT EXISTS` and `CREATE INDEX IF NOT EXISTS`
+ * are no-ops on a device that already has them. The DDL is written out here
+ * rather than imported from `schema.ts`, for the reason given in v9.
+ */
+export async function migrateToVersion24(database: SQLiteDatabase): Promise<void> {
+  console.log('[Migration v24] Starting migration to schema version 24...');
+
+  await databaseLockManager.withDatabaseLock('schema-migration-v24', async () => {
+    await database.withTransactionAsync(async () => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS operation_attempts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          operation_id TEXT NOT NULL,
+          attempted_at INTEGER NOT NULL,
+          outcome TEXT NOT NULL,
+          error_message TEXT,
+          error_class TEXT
+        )
+      `);
+      console.log('[Migration v24] Created operation_attempts table if absent');
+
+      await database.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_operation_attempts_operation_id
+        ON operation_attempts(operation_id)
+      `);
+      console.log('[Migration v24] Created operation_attempts index if absent');
+
+      await recordMigration(database, 24);
+    });
+  });
+
+  console.log('[Migration v24] Migration to version 24 complete');
+}
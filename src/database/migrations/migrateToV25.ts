@@ -0,0 +1,49 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+import { recordMigration } from '../schemaVersion';
+import { databaseLockManager } from '../DatabaseLockManager';
+
+/**
+ * Migration to version 25: Add `dedupe_key` to `operation_queue`
+ *
+ * Queueing work already waiting returns the waiting operation. The engine
+ * found it by reading the whole queue and then inserting, so two processes
+ * queueing together could both miss the other. Each operation now stores its
+ * handler's dedupe key, and the check and the insert are one statement.
+ *
+ * Operations already queued get no key; at worst one of them runs alongside a
+ * later copy of the same work.
+ *
+ * Idempotent: the column is added only when `PRAGMA table_info` does not
+ * already list it, and the index is `CREATE INDEX IF NOT EXISTS`. The PRAGMA
+ * runs outside the transaction, as in v7. The DDL is written out here rather
+ * than imported from `schema.ts`, for the reason given in v9.
+ */
+export async function migrateToVersion25(database: SQLiteDatabase): Promise<void> {
+  console.log('[Migration v25] Starting migration to schema version 25...');
+
+  await databaseLockManager.withDatabaseLock('schema-migration-v25', async () => {
+    const tableInfo = await database.getAllAsync<{ name: string }>(
+      'PRAGMA table_info(operation_queue)'
+    );
+    const hasDedupeKey = tableInfo.some(column => column.name === 'dedupe_key');
+
+    await database.withTransactionAsync(async () => {
+      if (hasDedupeKey) {
+        console.log('[Migration v25] dedupe_key column already exists, skipping');
+      } else {
+        await database.execAsync(`ALTER TABLE operation_queue ADD COLUMN dedupe_key TEXT`);
+        console.log('[Migration v25] Added dedupe_key column to operation_queue');
+      }
+
+      await database.execAsync(`
+        CREATE INDEX IF NOT EXISTS idx_operation_queue_dedupe_key
+        ON operation_queue(dedupe_key)
+      `);
+      console.log('[Migration v25] Created dedupe key index if absent');
+
+      await recordMigration(database, 25);
+    });
+  });
+
+  console.log('[Migration v25] Migration to version 25 complete');
+}
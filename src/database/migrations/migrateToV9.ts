@@ -0,0 +1,47 @@
+import { SQLiteDatabase } from 'expo-sqlite';
+import { recordMigration } from '../schemaVersion';
+import { databaseLockManager } from '../DatabaseLockManager';
+
+/**
+ * Migration to version 9: Add the `beer_notes` table
+ *
+ * Holds the user's own star rating, tasting notes and flavor tags, keyed by
+ * beer id. A new table rather than new columns on `tasted_brew_current_round`:
+ * `MyBeersRepository.insertMany` empties that table and refills it from the
+ * API on every refresh, so anything stored on its rows lasts until the next
+ * pull-to-refresh. Nothing in the refresh path touches `beer_notes`.
+ *
+ * There is no foreign key to the beer tables, for the same reason. A note on a
+ * beer that leaves the current round (plate rollover, or a refresh that briefly
+ * returns nothing) must survive it, and reappear if the beer does.
+ *
+ * Idempotent: `CREATE TABLE IF NOT EXISTS` is a no-op on a device that already
+ * has the table, which is exactly what a fresh install at version 9 has.
+ *
+ * The DDL is written out here rather than imported from `schema.ts`'s
+ * `CREATE_BEER_NOTES_TABLE`. A migration records the schema as it was at its
+ * version; if the fresh-install statement later gains a column, that column
+ * belongs to a later migration, not to this one retroactively.
+ */
+export async function migrateToVersion9(database: SQLiteDatabase): Promise<void> {
+  console.log('[Migration v9] Starting migration to schema version 9...');
+
+  await databaseLockManager.withDatabaseLock('schema-migration-v9', async () => {
+    await database.withTransactionAsync(async () => {
+      await database.execAsync(`
+        CREATE TABLE IF NOT EXISTS beer_notes (
+          beer_id TEXT PRIMARY KEY,
+          rating INTEGER,
+          notes TEXT,
+          flavor_tags TEXT,
+          updated_at INTEGER NOT NULL
+        )
+      `);
+      console.log('[Migration v9] Created beer_notes table if absent');
+
+      await recordMigration(database, 9);
+    });
+  });
+
+  console.log('[Migration v9] Migration to version 9 complete');
+}
@@ -6,6 +6,7 @@
 import { Preference } from './types';
 import { toContentionError, retryOnContention } from './errors';
 import { getDatabase } from './connection';
+import { TransactionLike } from './transactions';
 import { isPreferenceRow, preferenceRowToPreference, PreferenceRow } from './schemaTypes';
 
 /**
@@ -87,6 +88,32 @@ const setPreferenceOnce = async (
   }
 };
 
+/**
+ * Set a preference inside a transaction the caller holds
+ *
+ * UNSAFE: not retried. A contended write aborts the whole transaction, which
+ * is the caller's to retry or report; the value commits or rolls back with the
+ * transaction's other writes. Without a description the stored one is kept.
+ *
+ * @param txn - The transaction to write in
+ * @param key The preference key
+ * @param value The preference value
+ * @param description Optional description for the preference
+ * @throws Error if the write fails
+ */
+export const setPreferenceUnsafe = async (
+  txn: TransactionLike,
+  key: string,
+  value: string,
+  description?: string
+): Promise<void> => {
+  await txn.runAsync(
+    `INSERT OR REPLACE INTO preferences (key, value, description)
+     VALUES (?, ?, COALESCE(?, (SELECT description FROM preferences WHERE key = ?), ''))`,
+    [key, value, description || null, key]
+  );
+};
+
 /**
  * Get all preferences from the database
  * Validates all rows with type guards and filters out invalid data.
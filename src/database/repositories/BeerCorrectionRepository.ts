@@ -0,0 +1,269 @@
+/**
+ * BeerCorrectionRepository - The user's corrections to beer details
+ *
+ * Manages the beer_corrections table: an ABV, style and description per beer
+ * id that the user has entered to replace what was fetched. Saving one also
+ * corrects the beer's rows in allbeers and tasted_brew_current_round; the
+ * insert paths of those repositories read this table and lay each correction
+ * over the rows they write, so a refresh does not undo it. See
+ * beerCorrections.ts.
+ */
+
+import { getDatabase } from '../connection';
+import { BeerCorrection, BeerWithContainerType } from '../../types/beer';
+import { databaseLockManager } from '../locks';
+import { isDatabaseLockedError, withContentionMapping } from '../errors';
+import { emitDatabaseChange, ChangeTable } from '../changeEvents';
+import { replaceSearchRowsUnsafe, SearchSource } from '../searchIndex';
+import {
+  allBeersRowToBeerWithContainerType,
+  AllBeersRow,
+  beerCorrectionRowToCorrection,
+  BeerCorrectionRow,
+  isAllBeersRow,
+  isBeerCorrectionRow,
+  isTastedBrewRow,
+  tastedBrewRowToBeerfinderWithContainerType,
+  TastedBrewRow,
+} from '../schemaTypes';
+import {
+  applyBeerCorrection,
+  BeerCorrectionInput,
+  normalizeBeerCorrection,
+  validateBeerCorrection,
+} from '../../utils/beerCorrections';
+
+/** The beer tables a correction is written into, with their search index source */
+const CORRECTED_TABLES: readonly { table: ChangeTable; source: SearchSource }[] = [
+  { table: 'allbeers', source: 'allbeers' },
+  { table: 'tasted_brew_current_round', source: 'tasted' },
+];
+
+/**
+ * Repository class for BeerCorrection operations
+ *
+ * Handles:
+ * - Saving corrections, one or many, and applying them to the stored beer rows
+ * - Reading all corrections, or one by beer id
+ */
+export class BeerCorrectionRepository {
+  /**
+   * Save the correction for a beer, replacing any earlier one, and correct the
+   * beer's rows in both beer tables.
+   *
+   * Blank text fields are stored as "not corrected". The corrected rows are
+   * marked with the `manual` enrichment source, which
+   * `updateEnrichmentData` leaves alone.
+   *
+   * @param input - The correction as entered
+   * @returns The correction as stored
+   * @throws Error if the correction is invalid (see validateBeerCorrection)
+   */
+  async save(input: BeerCorrectionInput): Promise<BeerCorrection> {
+    const [correction] = await this.saveMany([input]);
+    return correction;
+  }
+
+  /**
+   * Save several corrections at once, as `save` does, in one transaction.
+   *
+   * All are validated before anything is written: one invalid correction
+   * saves none of them.
+   *
+   * @param inputs - The corrections as entered
+   * @returns The corrections as stored, in the same order
+   * @throws Error naming the first invalid correction
+   */
+  async saveMany(inputs: readonly BeerCorrectionInput[]): Promise<BeerCorrection[]> {
+    if (inputs.length === 0) return [];
+
+    const updatedAt = Date.now();
+    const corrections = inputs.map(input => {
+      const normalized = normalizeBeerCorrection(input);
+      const invalid = validateBeerCorrection(normalized);
+      if (invalid) {
+        throw new Error(invalid);
+      }
+      return { ...normalized, updated_at: updatedAt };
+    });
+
+    const changed = await databaseLockManager.withDatabaseLock(
+      'BeerCorrectionRepository.save',
+      () =>
+        withContentionMapping('beer correction save', async () => {
+          const database = await getDatabase();
+
+          // Read before the transaction; the lock keeps any refresh out until it ends
+          const updates: {
+            table: ChangeTable;
+            source: SearchSource;
+            beer: BeerWithContainerType;
+          }[] = [];
+          for (const correction of corrections) {
+            const rows = await this.readBeerRows(correction.beer_id);
+            for (const { table, source, beer } of rows) {
+              updates.push({ table, source, beer: applyBeerCorrection(beer, correction) });
+            }
+          }
+
+          await database.withTransactionAsync(async () => {
+            for (const correction of corrections) {
+              await database.runAsync(
+                `INSERT OR REPLACE INTO beer_corrections (
+                  beer_id, abv, brew_style, brew_description, updated_at
+                ) VALUES (?, ?, ?, ?, ?)`,
+                [
+                  correction.beer_id,
+                  correction.abv,
+                  correction.brew_style,
+                  correction.brew_description,
+                  correction.updated_at,
+                ]
+              );
+            }
+
+            for (const { table, source, beer } of updates) {
+              await database.runAsync(
+                `UPDATE ${table} SET
+                  abv = ?,
+                  brew_style = ?,
+                  brew_description = ?,
+                  container_type = ?,
+                  style_family = ?,
+                  enrichment_source = ?,
+                  enrichment_confidence = ?
+                 WHERE id = ?`,
+                [
+                  beer.abv ?? null,
+                  beer.brew_style || '',
+                  beer.brew_description || '',
+                  beer.container_type,
+                  beer.style_family ?? null,
+                  beer.enrichment_source,
+                  beer.enrichment_confidence,
+                  beer.id,
+                ]
+              );
+              await replaceSearchRowsUnsafe(database, source, [beer]);
+            }
+          });
+
+          return updates;
+        })
+    );
+
+    for (const { table } of CORRECTED_TABLES) {
+      const ids = changed.filter(update => update.table === table).map(update => update.beer.id);
+      if (ids.length > 0) {
+        emitDatabaseChange({ table, kind: 'correction', ids });
+      }
+    }
+
+    return corrections;
+  }
+
+  /**
+   * Get every stored correction
+   *
+   * Validates all rows with type guards and filters out invalid data.
+   *
+   * @returns Array of BeerCorrection objects, most recent first
+   * @throws Propagates any database error to the caller
+   */
+  async getAll(): Promise<BeerCorrection[]> {
+    const database = await getDatabase();
+
+    try {
+      const rows = await database.getAllAsync<BeerCorrectionRow>(
+        'SELECT * FROM beer_corrections ORDER BY updated_at DESC'
+      );
+
+      return rows
+        .filter(row => isBeerCorrectionRow(row))
+        .map(row => beerCorrectionRowToCorrection(row));
+    } catch (error) {
+      console.error('Error getting beer corrections:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the correction for one beer
+   *
+   * @param beerId - The beer id to look up
+   * @returns BeerCorrection if found and valid, null otherwise
+   */
+  async getByBeerId(beerId: string): Promise<BeerCorrection | null> {
+    const database = await getDatabase();
+
+    try {
+      const row = await database.getFirstAsync<BeerCorrectionRow>(
+        'SELECT * FROM beer_corrections WHERE beer_id = ?',
+        [beerId]
+      );
+
+      if (row && isBeerCorrectionRow(row)) {
+        return beerCorrectionRowToCorrection(row);
+      }
+
+      return null;
+    } catch (error) {
+      console.error('Error getting beer correction by ID:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Every correction by beer id, for a beer table about to be written.
+   *
+   * Takes no lock: the writers call it while holding theirs. An unreadable
+   * table — one a migration has not created yet — reads as no corrections, so
+   * it never stops a refresh; the rows are written as fetched and corrected
+   * again by the next write. Lock contention is rethrown, as the writer would
+   * hit it next anyway.
+   *
+   * @returns Map of beer id to correction
+   */
+  async getAllByBeerIdUnsafe(): Promise<Map<string, BeerCorrection>> {
+    try {
+      const corrections = await this.getAll();
+      return new Map(corrections.map(correction => [correction.beer_id, correction]));
+    } catch (error) {
+      if (isDatabaseLockedError(error)) {
+        throw error;
+      }
+      return new Map();
+    }
+  }
+
+  /**
+   * The beer's rows as stored, in each table that has one
+   */
+  private async readBeerRows(
+    beerId: string
+  ): Promise<{ table: ChangeTable; source: SearchSource; beer: BeerWithContainerType }[]> {
+    const database = await getDatabase();
+    const found: { table: ChangeTable; source: SearchSource; beer: BeerWithContainerType }[] = [];
+
+    for (const { table, source } of CORRECTED_TABLES) {
+      const row = await database.getFirstAsync<AllBeersRow | TastedBrewRow>(
+        `SELECT * FROM ${table} WHERE id = ?`,
+        [beerId]
+      );
+      if (!row) continue;
+
+      if (table === 'allbeers' && isAllBeersRow(row)) {
+        found.push({ table, source, beer: allBeersRowToBeerWithContainerType(row) });
+      } else if (table === 'tasted_brew_current_round' && isTastedBrewRow(row)) {
+        found.push({ table, source, beer: tastedBrewRowToBeerfinderWithContainerType(row) });
+      }
+    }
+
+    return found;
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const beerCorrectionRepository = new BeerCorrectionRepository();
@@ -0,0 +1,147 @@
+/**
+ * BeerNotesRepository - Handles CRUD operations for the user's own beer notes
+ *
+ * Manages the beer_notes table: a personal star rating, free-text tasting
+ * notes and flavor tags per beer id. Unlike every other beer table, nothing
+ * here comes from the API, so nothing in the refresh path writes to it and a
+ * full replace of tasted_brew_current_round leaves it untouched.
+ */
+
+import { getDatabase } from '../connection';
+import { BeerNote, MAX_PERSONAL_RATING } from '../../types/beer';
+import { databaseLockManager } from '../locks';
+import { withContentionMapping } from '../errors';
+import { isBeerNoteRow, beerNoteRowToBeerNote, BeerNoteRow } from '../schemaTypes';
+
+/**
+ * What a caller supplies when saving a note. `updated_at` is stamped here.
+ */
+export type BeerNoteInput = Omit<BeerNote, 'updated_at'>;
+
+/**
+ * Whether a note carries anything worth storing.
+ *
+ * A rating of 0 counts — it is a deliberate "did not like it", distinct from
+ * never having rated the beer.
+ */
+export const isEmptyBeerNote = (note: BeerNoteInput): boolean =>
+  note.rating === null && note.notes.trim() === '' && note.flavor_tags.length === 0;
+
+/**
+ * Repository class for BeerNote operations
+ *
+ * Handles:
+ * - Upserting a note (and removing it once everything in it is cleared)
+ * - Reading all notes, or one by beer id
+ */
+export class BeerNotesRepository {
+  /**
+   * Save the note for a beer, replacing any existing one.
+   *
+   * A note with no rating, no text and no tags is deleted rather than stored,
+   * so clearing every field in the editor leaves no empty row behind to count
+   * as "rated" in the filters.
+   *
+   * @param note - The note to save
+   * @throws Error if the rating is not an integer from 0 to MAX_PERSONAL_RATING
+   */
+  async save(note: BeerNoteInput): Promise<void> {
+    if (
+      note.rating !== null &&
+      (!Number.isInteger(note.rating) || note.rating < 0 || note.rating > MAX_PERSONAL_RATING)
+    ) {
+      throw new Error(`Rating must be an integer from 0 to ${MAX_PERSONAL_RATING}`);
+    }
+
+    if (isEmptyBeerNote(note)) {
+      return this.delete(note.beer_id);
+    }
+
+    await databaseLockManager.withDatabaseLock('BeerNotesRepository.save', () =>
+      withContentionMapping('beer note save', async () => {
+        const database = await getDatabase();
+        const tags = Array.from(new Set(note.flavor_tags));
+
+        await database.runAsync(
+          `INSERT OR REPLACE INTO beer_notes (
+            beer_id,
+            rating,
+            notes,
+            flavor_tags,
+            updated_at
+          ) VALUES (?, ?, ?, ?, ?)`,
+          [note.beer_id, note.rating, note.notes.trim(), JSON.stringify(tags), Date.now()]
+        );
+      })
+    );
+  }
+
+  /**
+   * Remove the note for a beer. Deleting a note that does not exist is not an error.
+   *
+   * @param beerId - The beer whose note to remove
+   */
+  async delete(beerId: string): Promise<void> {
+    await databaseLockManager.withDatabaseLock('BeerNotesRepository.delete', () =>
+      withContentionMapping('beer note delete', async () => {
+        const database = await getDatabase();
+        await database.runAsync('DELETE FROM beer_notes WHERE beer_id = ?', [beerId]);
+      })
+    );
+  }
+
+  /**
+   * Get every stored note
+   *
+   * Rethrows on error, like the other list reads: an unreadable table and a
+   * user who has rated nothing are different facts.
+   * Validates all rows with type guards and filters out invalid data.
+   *
+   * @returns Array of BeerNote objects
+   */
+  async getAll(): Promise<BeerNote[]> {
+    const database = await getDatabase();
+
+    try {
+      const rows = await database.getAllAsync<BeerNoteRow>(
+        'SELECT * FROM beer_notes ORDER BY updated_at DESC'
+      );
+
+      return rows.filter(row => isBeerNoteRow(row)).map(row => beerNoteRowToBeerNote(row));
+    } catch (error) {
+      console.error('Error getting beer notes:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the note for one beer
+   *
+   * @param beerId - The beer id to look up
+   * @returns BeerNote if found and valid, null otherwise
+   */
+  async getByBeerId(beerId: string): Promise<BeerNote | null> {
+    const database = await getDatabase();
+
+    try {
+      const row = await database.getFirstAsync<BeerNoteRow>(
+        'SELECT * FROM beer_notes WHERE beer_id = ?',
+        [beerId]
+      );
+
+      if (row && isBeerNoteRow(row)) {
+        return beerNoteRowToBeerNote(row);
+      }
+
+      return null;
+    } catch (error) {
+      console.error('Error getting beer note by ID:', error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const beerNotesRepository = new BeerNotesRepository();
@@ -11,10 +11,21 @@ import { BeerWithContainerType } from '../../types/beer';
 import type { NonEmptyArray } from '../../api/fetchOutcome';
 import { databaseLockManager } from '../locks';
 import { toContentionError, withContentionMapping } from '../errors';
-import { withAtomicWrite } from '../transactions';
+import { TransactionLike, withAtomicWrite } from '../transactions';
+import { emitDatabaseChange } from '../changeEvents';
+import {
+  clearSearchSourceUnsafe,
+  replaceSearchSourceUnsafe,
+  updateSearchDescriptionsUnsafe,
+} from '../searchIndex';
 import { isAllBeersRow, allBeersRowToBeerWithContainerType, AllBeersRow } from '../schemaTypes';
 import { EnrichmentUpdate } from '../../types/enrichment';
 import { logError } from '../../utils/errorLogger';
+import { beerSearchRepository, BeerSearchHit } from './BeerSearchRepository';
+import { beerCorrectionRepository } from './BeerCorrectionRepository';
+import { applyBeerCorrections } from '../../utils/beerCorrections';
+
+const ID_CHUNK_SIZE = 500;
 
 /**
  * Repository class for Beer entity operations
@@ -54,6 +65,30 @@ export class BeerRepository {
     await withContentionMapping('allbeers import', () => this._insertManyInternal(beers));
   }
 
+  /**
+   * Replace the taplist, with further writes committed in the same transaction
+   *
+   * UNSAFE: This method does NOT acquire a database lock. The store switch
+   * calls it inside its hold, so that the rows, the stamps describing them and
+   * the store they belong to are never seen out of step.
+   *
+   * Unlike insertMany, an empty list is allowed: a store switched to with
+   * nothing cached has an empty taplist until its first refresh.
+   *
+   * @param beers - The new taplist, possibly empty
+   * @param alongside - Writes to commit with the rows. Runs after them; every
+   *   query it makes must go through its `txn`, and like the rest of the body it
+   *   should only write. If it throws, the rows roll back with its writes.
+   */
+  async replaceAllWithUnsafe(
+    beers: readonly BeerWithContainerType[],
+    alongside: (txn: TransactionLike) => Promise<void>
+  ): Promise<void> {
+    await withContentionMapping('allbeers import', () =>
+      this._replaceAllInternal(beers, alongside)
+    );
+  }
+
   /**
    * Internal implementation of beer insertion (shared by locked and unlocked variants)
    *
@@ -69,9 +104,28 @@ export class BeerRepository {
       throw new Error('Refusing to replace the taplist with an empty beer list');
     }
 
+    await this._replaceAllInternal(beers);
+  }
+
+  /**
+   * Replace the table's rows and their search index in one transaction
+   *
+   * @param beers - The new rows; callers decide whether empty is allowed
+   * @param alongside - Optional writes to commit with the rows
+   */
+  private async _replaceAllInternal(
+    beers: readonly BeerWithContainerType[],
+    alongside?: (txn: TransactionLike) => Promise<void>
+  ): Promise<void> {
     const database = await getDatabase();
 
-    console.log(`Starting import of ${beers.length} beers...`);
+    // The user's corrections outrank the fetched rows, so every write carries them
+    const rows = applyBeerCorrections(
+      [...beers],
+      await beerCorrectionRepository.getAllByBeerIdUnsafe()
+    );
+
+    console.log(`Starting import of ${rows.length} beers...`);
 
     // Paces progress logging ONLY. This is deliberately not a durability
     // boundary any more: the delete and every insert publish at a single
@@ -96,13 +150,13 @@ export class BeerRepository {
           id, added_date, brew_name, brewer, brewer_loc,
           brew_style, brew_container, review_count, review_rating,
           brew_description, container_type, abv,
-          enrichment_confidence, enrichment_source
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+          enrichment_confidence, enrichment_source, style_family
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
       );
 
       try {
-        for (let i = 0; i < beers.length; i += batchSize) {
-          const batch = beers.slice(i, i + batchSize);
+        for (let i = 0; i < rows.length; i += batchSize) {
+          const batch = rows.slice(i, i + batchSize);
 
           for (const beer of batch) {
             if (!beer.id) continue; // Skip entries without an ID
@@ -122,13 +176,14 @@ export class BeerRepository {
               beer.abv ?? null,
               beer.enrichment_confidence ?? null,
               beer.enrichment_source ?? null,
+              beer.style_family ?? null,
             ]);
           }
 
           // Log progress for larger batches
-          if ((i + batchSize) % 200 === 0 || i + batchSize >= beers.length) {
+          if ((i + batchSize) % 200 === 0 || i + batchSize >= rows.length) {
             console.log(
-              `Imported ${Math.min(i + batchSize, beers.length)} of ${beers.length} beers...`
+              `Imported ${Math.min(i + batchSize, rows.length)} of ${rows.length} beers...`
             );
           }
         }
@@ -148,6 +203,19 @@ export class BeerRepository {
           console.error('[BeerRepository] failed to finalize the insert statement', finalizeError);
         }
       }
+
+      // Same transaction, so the index never describes a taplist that did not commit
+      await replaceSearchSourceUnsafe(txn, 'allbeers', rows);
+
+      if (alongside) {
+        await alongside(txn);
+      }
+    });
+
+    emitDatabaseChange({
+      table: 'allbeers',
+      kind: 'replace',
+      ids: rows.filter(beer => beer.id).map(beer => beer.id),
     });
 
     // Verify final row count — deliberately outside the transaction, on the
@@ -248,21 +316,92 @@ export class BeerRepository {
     }
   }
 
+  /**
+   * Get the beers with the given IDs, for patching rows already held in memory
+   *
+   * Validates all rows with type guards and filters out invalid data. IDs not
+   * in the table are left out.
+   *
+   * @param ids - The beer IDs to read
+   * @returns The matching BeerWithContainerType objects, in no particular order
+   */
+  async getByIds(ids: readonly string[]): Promise<BeerWithContainerType[]> {
+    if (ids.length === 0) return [];
+
+    const database = await getDatabase();
+
+    try {
+      const rows: AllBeersRow[] = [];
+      // Kept well under SQLite's bound-parameter limit
+      for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+        const chunk = ids.slice(i, i + ID_CHUNK_SIZE);
+        rows.push(
+          ...(await database.getAllAsync<AllBeersRow>(
+            `SELECT * FROM allbeers WHERE id IN (${chunk.map(() => '?').join(', ')})`,
+            chunk
+          ))
+        );
+      }
+
+      return rows
+        .filter(row => isAllBeersRow(row))
+        .map(row => allBeersRowToBeerWithContainerType(row));
+    } catch (error) {
+      console.error('Error getting beers by ID:', error);
+      throw error;
+    }
+  }
+
   /**
    * Search beers by name, brewer, style, or description
    *
    * If query is empty, returns all beers.
-   * Uses LIKE operator for partial matching.
+   * Ranked by relevance through the beer_search full-text index. If the index
+   * cannot be queried (no FTS5, or not yet built), falls back to an unranked
+   * LIKE scan ordered by added_date.
    * Validates all rows with type guards and filters out invalid data.
    *
    * @param query - Search query string
-   * @returns Array of matching BeerWithContainerType objects
+   * @returns Array of matching BeerWithContainerType objects, best match first
    */
   async search(query: string): Promise<BeerWithContainerType[]> {
     if (!query.trim()) {
       return this.getAll();
     }
 
+    let hits: BeerSearchHit[];
+    try {
+      hits = await beerSearchRepository.search(query, 'allbeers');
+    } catch {
+      return this.searchWithLike(query);
+    }
+    if (hits.length === 0) return [];
+
+    const database = await getDatabase();
+
+    try {
+      const placeholders = hits.map(() => '?').join(',');
+      const rows = await database.getAllAsync<AllBeersRow>(
+        `SELECT * FROM allbeers
+         WHERE brew_name IS NOT NULL AND brew_name != "" AND id IN (${placeholders})`,
+        hits.map(hit => hit.beer_id)
+      );
+
+      const position = new Map(hits.map((hit, index) => [hit.beer_id, index]));
+      return rows
+        .filter(row => isAllBeersRow(row))
+        .sort((a, b) => (position.get(String(a.id)) ?? 0) - (position.get(String(b.id)) ?? 0))
+        .map(row => allBeersRowToBeerWithContainerType(row));
+    } catch (error) {
+      console.error('Error searching beers:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The pre-index search: LIKE across name, brewer, style and raw description.
+   */
+  private async searchWithLike(query: string): Promise<BeerWithContainerType[]> {
     const database = await getDatabase();
     const searchTerm = `%${query.trim()}%`;
 
@@ -380,6 +519,9 @@ export class BeerRepository {
    * (abv, enrichment_confidence, enrichment_source, brew_description) without
    * affecting other beer data or requiring a full table refresh.
    *
+   * Rows the user has corrected (`enrichment_source = 'manual'`) are left as
+   * they are: the Worker's answer does not outrank the user's.
+   *
    * Uses database lock to prevent concurrent operations.
    *
    * @param enrichments - Record mapping beer IDs to their enrichment data
@@ -392,7 +534,8 @@ export class BeerRepository {
     return databaseLockManager.withDatabaseLock('BeerRepository.updateEnrichmentData', async () => {
       try {
         const database = await getDatabase();
-        let updatedCount = 0;
+        const updatedIds: string[] = [];
+        const reindex: [string, string][] = [];
 
         await database.withTransactionAsync(async () => {
           const stmt = await database.prepareAsync(
@@ -401,7 +544,7 @@ export class BeerRepository {
                 enrichment_confidence = ?,
                 enrichment_source = ?,
                 brew_description = COALESCE(?, brew_description)
-               WHERE id = ?`
+               WHERE id = ? AND enrichment_source IS NOT 'manual'`
           );
 
           try {
@@ -413,15 +556,22 @@ export class BeerRepository {
                 data.brew_description ?? null,
                 id,
               ]);
-              if (result.changes > 0) updatedCount++;
+              if (result.changes > 0) {
+                updatedIds.push(id);
+                if (data.brew_description != null) reindex.push([id, data.brew_description]);
+              }
             }
           } finally {
             await stmt.finalizeAsync();
           }
+
+          await updateSearchDescriptionsUnsafe(database, 'allbeers', reindex);
         });
 
-        console.log(`[BeerRepository] Updated enrichment for ${updatedCount} beers`);
-        return updatedCount;
+        emitDatabaseChange({ table: 'allbeers', kind: 'enrichment', ids: updatedIds });
+
+        console.log(`[BeerRepository] Updated enrichment for ${updatedIds.length} beers`);
+        return updatedIds.length;
       } catch (error) {
         throw toContentionError('allbeers enrichment update', error);
       }
@@ -442,6 +592,7 @@ export class BeerRepository {
           'SELECT COUNT(*) as count FROM allbeers'
         );
         await database.runAsync('DELETE FROM allbeers');
+        await clearSearchSourceUnsafe(database, 'allbeers');
         const after = await database.getFirstAsync<{ count: number }>(
           'SELECT COUNT(*) as count FROM allbeers'
         );
@@ -449,6 +600,8 @@ export class BeerRepository {
           `DB: Successfully cleared allbeers table (removed ${before?.count ?? 0} rows, now ${after?.count ?? 0})`
         );
       });
+
+      emitDatabaseChange({ table: 'allbeers', kind: 'replace', ids: [] });
     } catch (error) {
       console.error('Error clearing all beers:', error);
       throw toContentionError('allbeers clear', error);
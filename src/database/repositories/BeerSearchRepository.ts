@@ -0,0 +1,95 @@
+/**
+ * BeerSearchRepository - Ranked full-text queries against the beer_search index
+ *
+ * Read-only. The index is written by BeerRepository and MyBeersRepository inside
+ * their own transactions (see searchIndex.ts); this class only asks it questions.
+ */
+
+import { getDatabase } from '../connection';
+import {
+  SearchSource,
+  SNIPPET_MATCH_END,
+  SNIPPET_MATCH_START,
+  searchIndexStaleKey,
+  toFtsMatchQuery,
+} from '../searchIndex';
+
+/** One index match, best first when returned from `search`. */
+export type BeerSearchHit = {
+  beer_id: string;
+  /** Text around the match, with matched terms between the SNIPPET_MATCH_* markers. */
+  snippet: string;
+  /** bm25 score; lower is more relevant. */
+  rank: number;
+};
+
+/** Upper bound on hits per query; a taplist is around 1,200 beers. */
+const DEFAULT_HIT_LIMIT = 2000;
+
+/** Tokens of context either side of a match in a snippet. */
+const SNIPPET_TOKENS = 12;
+
+/**
+ * bm25 column weights, in table column order. The two UNINDEXED columns never
+ * match; a hit in the name outranks one buried in the description.
+ */
+const RANK_WEIGHTS = '0.0, 0.0, 10.0, 5.0, 3.0, 1.0';
+
+/**
+ * Repository class for full-text beer search
+ *
+ * Handles:
+ * - Ranked matching of free text across name, brewer, style and description
+ * - Highlighted match snippets for display under a list row
+ */
+export class BeerSearchRepository {
+  /**
+   * Search one source table's index.
+   *
+   * @param text - Free text as typed; converted with `toFtsMatchQuery`
+   * @param source - Which table's beers to search
+   * @returns Hits ordered best first; empty when the text has no searchable words
+   * @throws Propagates database errors, including a missing index, so callers
+   *   can fall back to a plain scan; throws too when the source is marked
+   *   stale, since its index may be missing beers
+   */
+  async search(
+    text: string,
+    source: SearchSource,
+    limit: number = DEFAULT_HIT_LIMIT
+  ): Promise<BeerSearchHit[]> {
+    const match = toFtsMatchQuery(text);
+    if (!match) return [];
+
+    const database = await getDatabase();
+
+    try {
+      const stale = await database.getFirstAsync<{ value: string }>(
+        'SELECT value FROM preferences WHERE key = ?',
+        [searchIndexStaleKey(source)]
+      );
+      if (stale) {
+        throw new Error(`beer_search index for ${source} is stale`);
+      }
+
+      return await database.getAllAsync<BeerSearchHit>(
+        `SELECT beer_id,
+                snippet(beer_search, -1, ?, ?, '…', ${SNIPPET_TOKENS}) AS snippet,
+                bm25(beer_search, ${RANK_WEIGHTS}) AS rank
+         FROM beer_search
+         WHERE beer_search MATCH ? AND source = ?
+         ORDER BY rank
+         LIMIT ?`,
+        [SNIPPET_MATCH_START, SNIPPET_MATCH_END, match, source, limit]
+      );
+    } catch (error) {
+      console.error('Error searching beer_search index:', error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const beerSearchRepository = new BeerSearchRepository();
@@ -0,0 +1,145 @@
+/**
+ * EnrichmentJobRepository - Beers waiting on the Worker for enrichment
+ *
+ * Manages the enrichment_jobs table. A row is added when a beer is handed to
+ * the Worker, counted each time the app asks for its result, and removed when
+ * the result is stored or the job runs out of attempts or time. See
+ * enrichmentJobService.ts for the loop that drives it.
+ */
+
+import { getDatabase } from '../connection';
+import { databaseLockManager } from '../locks';
+import { withContentionMapping } from '../errors';
+import { EnrichmentJob } from '../../types/enrichment';
+import { enrichmentJobRowToJob, EnrichmentJobRow, isEnrichmentJobRow } from '../schemaTypes';
+
+/**
+ * Repository class for enrichment job operations
+ *
+ * Handles:
+ * - Recording beers handed to the Worker
+ * - Reading the jobs still waiting
+ * - Counting each attempt to fetch their results
+ * - Removing finished and expired jobs
+ */
+export class EnrichmentJobRepository {
+  /**
+   * Record beers handed to the Worker. A beer already waiting keeps its
+   * original request time and attempt count, so handing it over again does
+   * not extend its budget.
+   *
+   * @param beerIds - The beers handed over
+   * @param requestedAt - When, in epoch ms
+   */
+  async track(beerIds: readonly string[], requestedAt: number = Date.now()): Promise<void> {
+    const ids = beerIds.filter(id => id);
+    if (ids.length === 0) return;
+
+    await databaseLockManager.withDatabaseLock('EnrichmentJobRepository.track', () =>
+      withContentionMapping('enrichment job track', async () => {
+        const database = await getDatabase();
+        await database.withTransactionAsync(async () => {
+          for (const id of ids) {
+            await database.runAsync(
+              'INSERT OR IGNORE INTO enrichment_jobs (beer_id, requested_at, attempts) VALUES (?, ?, 0)',
+              [id, requestedAt]
+            );
+          }
+        });
+      })
+    );
+  }
+
+  /**
+   * Get every job still waiting, oldest request first
+   *
+   * Validates all rows with type guards and filters out invalid data.
+   *
+   * @returns Array of EnrichmentJob objects
+   * @throws Propagates any database error to the caller
+   */
+  async getAll(): Promise<EnrichmentJob[]> {
+    const database = await getDatabase();
+
+    try {
+      const rows = await database.getAllAsync<EnrichmentJobRow>(
+        'SELECT * FROM enrichment_jobs ORDER BY requested_at ASC, beer_id ASC'
+      );
+
+      return rows.filter(row => isEnrichmentJobRow(row)).map(row => enrichmentJobRowToJob(row));
+    } catch (error) {
+      console.error('Error getting enrichment jobs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Count an attempt to fetch the results of these jobs
+   *
+   * @param beerIds - The beers asked about
+   * @param attemptedAt - When, in epoch ms
+   */
+  async recordAttempt(beerIds: readonly string[], attemptedAt: number = Date.now()): Promise<void> {
+    if (beerIds.length === 0) return;
+
+    await databaseLockManager.withDatabaseLock('EnrichmentJobRepository.recordAttempt', () =>
+      withContentionMapping('enrichment job attempt', async () => {
+        const database = await getDatabase();
+        await database.withTransactionAsync(async () => {
+          for (const id of beerIds) {
+            await database.runAsync(
+              'UPDATE enrichment_jobs SET attempts = attempts + 1, last_attempt_at = ? WHERE beer_id = ?',
+              [attemptedAt, id]
+            );
+          }
+        });
+      })
+    );
+  }
+
+  /**
+   * Remove jobs whose results have been stored. Removing one that is not
+   * there is not an error.
+   *
+   * @param beerIds - The finished beers
+   */
+  async remove(beerIds: readonly string[]): Promise<void> {
+    if (beerIds.length === 0) return;
+
+    await databaseLockManager.withDatabaseLock('EnrichmentJobRepository.remove', () =>
+      withContentionMapping('enrichment job remove', async () => {
+        const database = await getDatabase();
+        await database.withTransactionAsync(async () => {
+          for (const id of beerIds) {
+            await database.runAsync('DELETE FROM enrichment_jobs WHERE beer_id = ?', [id]);
+          }
+        });
+      })
+    );
+  }
+
+  /**
+   * Remove the jobs that have used up their attempts or waited too long
+   *
+   * @param maxAttempts - A job asked about this many times is given up on
+   * @param requestedBefore - A job handed over before this, in epoch ms, is given up on
+   * @returns Number of jobs removed
+   */
+  async removeExpired(maxAttempts: number, requestedBefore: number): Promise<number> {
+    return databaseLockManager.withDatabaseLock('EnrichmentJobRepository.removeExpired', () =>
+      withContentionMapping('enrichment job expiry', async () => {
+        const database = await getDatabase();
+        const result = await database.runAsync(
+          'DELETE FROM enrichment_jobs WHERE attempts >= ? OR requested_at < ?',
+          [maxAttempts, requestedBefore]
+        );
+        return result?.changes ?? 0;
+      })
+    );
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const enrichmentJobRepository = new EnrichmentJobRepository();
@@ -0,0 +1,170 @@
+/**
+ * EnrichmentMetricsRepository - The enrichment service's counters and request log
+ *
+ * Manages the enrichment_metrics and enrichment_requests tables. Counts are
+ * added to hourly buckets, never replaced; the request log keeps only the
+ * latest requests. See enrichmentDiagnosticsService.ts for what writes and
+ * reads them.
+ */
+
+import { getDatabase } from '../connection';
+import { databaseLockManager } from '../locks';
+import { withContentionMapping } from '../errors';
+import {
+  ENRICHMENT_COUNTERS,
+  EnrichmentCounter,
+  EnrichmentMetricBucket,
+  EnrichmentRequestRecord,
+} from '../../types/enrichment';
+import {
+  enrichmentRequestRowToRecord,
+  EnrichmentRequestRow,
+  isEnrichmentRequestRow,
+} from '../schemaTypes';
+
+const isEnrichmentCounter = (metric: unknown): metric is EnrichmentCounter =>
+  ENRICHMENT_COUNTERS.includes(metric as EnrichmentCounter);
+
+/**
+ * Repository class for enrichment metrics operations
+ *
+ * Handles:
+ * - Adding counts to their hourly buckets
+ * - Logging requests and trimming the log
+ * - Summing the counters over a period
+ * - Dropping buckets past retention
+ */
+export class EnrichmentMetricsRepository {
+  /**
+   * Add counts to their buckets and log requests, in one transaction. The log
+   * is then trimmed to the latest `keepRequests`.
+   *
+   * @param buckets - Counts to add, by hour
+   * @param requests - Requests to log, oldest first
+   * @param keepRequests - How many logged requests to keep
+   */
+  async record(
+    buckets: readonly EnrichmentMetricBucket[],
+    requests: readonly EnrichmentRequestRecord[],
+    keepRequests: number
+  ): Promise<void> {
+    if (buckets.length === 0 && requests.length === 0) return;
+
+    await databaseLockManager.withDatabaseLock('EnrichmentMetricsRepository.record', () =>
+      withContentionMapping('enrichment metrics record', async () => {
+        const database = await getDatabase();
+        await database.withTransactionAsync(async () => {
+          for (const bucket of buckets) {
+            for (const [metric, count] of Object.entries(bucket.counts)) {
+              if (!count) continue;
+              await database.runAsync(
+                `INSERT INTO enrichment_metrics (bucket_start, metric, count) VALUES (?, ?, ?)
+                 ON CONFLICT(bucket_start, metric) DO UPDATE SET count = count + excluded.count`,
+                [bucket.bucket_start, metric, count]
+              );
+            }
+          }
+
+          for (const request of requests) {
+            await database.runAsync(
+              'INSERT INTO enrichment_requests (request_id, endpoint, outcome, recorded_at) VALUES (?, ?, ?, ?)',
+              [request.request_id, request.endpoint, request.outcome, request.recorded_at]
+            );
+          }
+
+          if (requests.length > 0) {
+            await database.runAsync(
+              'DELETE FROM enrichment_requests WHERE id NOT IN (SELECT id FROM enrichment_requests ORDER BY id DESC LIMIT ?)',
+              [keepRequests]
+            );
+          }
+        });
+      })
+    );
+  }
+
+  /**
+   * Sum each counter over the buckets starting at or after `since`
+   *
+   * @param since - Start of the period, in epoch ms
+   * @returns Every counter, zero where nothing was recorded
+   * @throws Propagates any database error to the caller
+   */
+  async getTotalsSince(since: number): Promise<Record<EnrichmentCounter, number>> {
+    const database = await getDatabase();
+    const totals = Object.fromEntries(ENRICHMENT_COUNTERS.map(counter => [counter, 0])) as Record<
+      EnrichmentCounter,
+      number
+    >;
+
+    try {
+      const rows = await database.getAllAsync<{ metric: string; total: number | null }>(
+        'SELECT metric, SUM(count) AS total FROM enrichment_metrics WHERE bucket_start >= ? GROUP BY metric',
+        [since]
+      );
+
+      for (const row of rows) {
+        if (isEnrichmentCounter(row.metric)) {
+          totals[row.metric] = row.total ?? 0;
+        }
+      }
+      return totals;
+    } catch (error) {
+      console.error('Error getting enrichment metric totals:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the latest logged requests, newest first
+   *
+   * Validates all rows with type guards and filters out invalid data.
+   *
+   * @param limit - How many to return
+   * @returns Array of EnrichmentRequestRecord objects
+   * @throws Propagates any database error to the caller
+   */
+  async getRecentRequests(limit: number): Promise<EnrichmentRequestRecord[]> {
+    const database = await getDatabase();
+
+    try {
+      const rows = await database.getAllAsync<EnrichmentRequestRow>(
+        'SELECT * FROM enrichment_requests ORDER BY id DESC LIMIT ?',
+        [limit]
+      );
+
+      return rows
+        .filter(row => isEnrichmentRequestRow(row))
+        .map(row => enrichmentRequestRowToRecord(row));
+    } catch (error) {
+      console.error('Error getting enrichment requests:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Drop the buckets that started before `cutoff`
+   *
+   * @param cutoff - Epoch ms
+   * @returns Number of bucket rows removed
+   */
+  async removeBucketsBefore(cutoff: number): Promise<number> {
+    return databaseLockManager.withDatabaseLock(
+      'EnrichmentMetricsRepository.removeBucketsBefore',
+      () =>
+        withContentionMapping('enrichment metrics expiry', async () => {
+          const database = await getDatabase();
+          const result = await database.runAsync(
+            'DELETE FROM enrichment_metrics WHERE bucket_start < ?',
+            [cutoff]
+          );
+          return result?.changes ?? 0;
+        })
+    );
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const enrichmentMetricsRepository = new EnrichmentMetricsRepository();
@@ -0,0 +1,189 @@
+/**
+ * FilterPresetRepository - Handles CRUD operations for saved filter presets
+ *
+ * Manages the filter_presets table: named filter and sort snapshots, kept per
+ * beer list. Like beer_notes, the rows are the user's own and nothing in the
+ * refresh path writes to them.
+ *
+ * The last-used filters of each list are a preference, not a preset; see
+ * `getLastFilterState` and `setLastFilterState` below.
+ */
+
+import { getDatabase } from '../connection';
+import { databaseLockManager } from '../locks';
+import { withContentionMapping } from '../errors';
+import { getPreference, setPreference } from '../preferences';
+import { isFilterPresetRow, filterPresetRowToFilterPreset, FilterPresetRow } from '../schemaTypes';
+import {
+  FilterPreset,
+  FilterPresetList,
+  FilterPresetState,
+  SharedFilterPreset,
+  normalizePresetName,
+  parseFilterPresetState,
+} from '../../utils/filterPresets';
+
+const lastStateKey = (list: FilterPresetList): string => `filter_state_${list}`;
+
+/**
+ * Repository class for FilterPreset operations
+ *
+ * Handles:
+ * - Saving a preset (replacing one of the same name on the same list)
+ * - Importing several presets at once
+ * - Reading and deleting a list's presets
+ * - Reading and writing each list's last-used filters
+ */
+export class FilterPresetRepository {
+  /**
+   * Save a preset, replacing any preset of the same name on the same list.
+   *
+   * @param list - The list the preset belongs to
+   * @param name - Display name; trimmed, and cut to MAX_PRESET_NAME_LENGTH
+   * @param state - The filters to save
+   * @returns The preset as stored
+   * @throws Error if the name is empty once trimmed
+   */
+  async save(
+    list: FilterPresetList,
+    name: string,
+    state: FilterPresetState
+  ): Promise<FilterPreset> {
+    const [saved] = await this.saveMany(list, [{ name, state }]);
+    return saved;
+  }
+
+  /**
+   * Save several presets in one transaction, as an import does. Each replaces
+   * any preset of the same name on the list; none are saved if one write fails.
+   *
+   * @param list - The list the presets belong to
+   * @param presets - Presets to save
+   * @returns The presets as stored
+   * @throws Error if any name is empty once trimmed
+   */
+  async saveMany(
+    list: FilterPresetList,
+    presets: readonly SharedFilterPreset[]
+  ): Promise<FilterPreset[]> {
+    const updatedAt = Date.now();
+    const stored = presets.map(preset => {
+      const name = normalizePresetName(preset.name);
+      if (!name) {
+        throw new Error('Preset name must not be empty');
+      }
+      return { list, name, state: preset.state, updated_at: updatedAt };
+    });
+
+    if (stored.length === 0) {
+      return [];
+    }
+
+    await databaseLockManager.withDatabaseLock('FilterPresetRepository.saveMany', () =>
+      withContentionMapping('filter preset save', async () => {
+        const database = await getDatabase();
+
+        await database.withTransactionAsync(async () => {
+          for (const preset of stored) {
+            await database.runAsync(
+              `INSERT OR REPLACE INTO filter_presets (
+                list,
+                name,
+                state,
+                updated_at
+              ) VALUES (?, ?, ?, ?)`,
+              [preset.list, preset.name, JSON.stringify(preset.state), preset.updated_at]
+            );
+          }
+        });
+      })
+    );
+
+    return stored;
+  }
+
+  /**
+   * Remove a preset. Deleting a preset that does not exist is not an error.
+   *
+   * @param list - The list the preset belongs to
+   * @param name - The preset's name as stored
+   */
+  async delete(list: FilterPresetList, name: string): Promise<void> {
+    await databaseLockManager.withDatabaseLock('FilterPresetRepository.delete', () =>
+      withContentionMapping('filter preset delete', async () => {
+        const database = await getDatabase();
+        await database.runAsync('DELETE FROM filter_presets WHERE list = ? AND name = ?', [
+          list,
+          name,
+        ]);
+      })
+    );
+  }
+
+  /**
+   * Get every preset saved for a list, by name
+   *
+   * Rethrows on error, like the other list reads. Rows that fail validation,
+   * or whose state is not readable, are left out.
+   *
+   * @param list - The list whose presets to read
+   * @returns Array of FilterPreset objects
+   */
+  async getByList(list: FilterPresetList): Promise<FilterPreset[]> {
+    const database = await getDatabase();
+
+    try {
+      const rows = await database.getAllAsync<FilterPresetRow>(
+        'SELECT * FROM filter_presets WHERE list = ? ORDER BY name COLLATE NOCASE',
+        [list]
+      );
+
+      return rows
+        .filter(row => isFilterPresetRow(row))
+        .map(row => filterPresetRowToFilterPreset(row))
+        .filter((preset): preset is FilterPreset => preset !== null);
+    } catch (error) {
+      console.error('Error getting filter presets:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The filters a list was left with, or null if none were stored or the
+   * stored value is unreadable. Never throws: a list that cannot restore its
+   * filters opens with the defaults.
+   *
+   * @param list - The list to restore
+   */
+  async getLastFilterState(list: FilterPresetList): Promise<FilterPresetState | null> {
+    const value = await getPreference(lastStateKey(list));
+    if (!value) {
+      return null;
+    }
+
+    try {
+      return parseFilterPresetState(JSON.parse(value));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Remember the filters a list is showing, to restore next time it opens.
+   *
+   * @param list - The list the filters belong to
+   * @param state - The filters now applied
+   */
+  async setLastFilterState(list: FilterPresetList, state: FilterPresetState): Promise<void> {
+    await setPreference(
+      lastStateKey(list),
+      JSON.stringify(state),
+      `Last-used filters on the ${list} list`
+    );
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const filterPresetRepository = new FilterPresetRepository();
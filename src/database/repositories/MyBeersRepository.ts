@@ -19,6 +19,15 @@ import {
   isCountResult,
 } from '../schemaTypes';
 import { EnrichmentUpdate } from '../../types/enrichment';
+import { emitDatabaseChange } from '../changeEvents';
+import { tastingHistoryRepository } from './TastingHistoryRepository';
+import { beerCorrectionRepository } from './BeerCorrectionRepository';
+import { applyBeerCorrections } from '../../utils/beerCorrections';
+import {
+  clearSearchSourceUnsafe,
+  replaceSearchSourceUnsafe,
+  updateSearchDescriptionsUnsafe,
+} from '../searchIndex';
 
 /**
  * Repository class for tasted beers (Beerfinder) operations
@@ -89,6 +98,8 @@ function assertNoRowFailures(failures: readonly unknown[], attempted: number): v
   );
 }
 
+const ID_CHUNK_SIZE = 500;
+
 export class MyBeersRepository {
   /**
    * Insert multiple tasted beers into the database
@@ -112,7 +123,11 @@ export class MyBeersRepository {
 
         // The empty-array branch is gone: emptying the table is now
         // replaceAllWithEmpty(), asked for explicitly rather than inferred.
-        const validBeers = beers.filter(beer => beer && beer.id);
+        // The user's corrections outrank the fetched rows, so every write carries them
+        const validBeers = applyBeerCorrections(
+          beers.filter(beer => beer && beer.id),
+          await beerCorrectionRepository.getAllByBeerIdUnsafe()
+        );
         console.log(
           `DB: Found ${validBeers.length} valid beers with IDs out of ${beers.length} total beers`
         );
@@ -156,8 +171,8 @@ export class MyBeersRepository {
                     id, roh_lap, tasted_date, brew_name, brewer, brewer_loc,
                     brew_style, brew_container, review_count, review_ratings,
                     brew_description, chit_code, container_type, abv,
-                    enrichment_confidence, enrichment_source
-                  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                    enrichment_confidence, enrichment_source, style_family
+                  ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
                     [
                       beer.id,
                       beer.roh_lap || '',
@@ -175,6 +190,7 @@ export class MyBeersRepository {
                       beer.abv ?? null,
                       beer.enrichment_confidence ?? null,
                       beer.enrichment_source ?? null,
+                      beer.style_family ?? null,
                     ]
                   );
                 } catch (err) {
@@ -187,6 +203,16 @@ export class MyBeersRepository {
             // leaving the previous tasted list intact rather than committing an
             // empty or partial one.
             assertNoRowFailures(rowFailures, validBeers.length);
+
+            // Same transaction, so a rolled-back import leaves no history or index rows
+            await tastingHistoryRepository.appendUnsafe(validBeers);
+            await replaceSearchSourceUnsafe(database, 'tasted', validBeers);
+          });
+
+          emitDatabaseChange({
+            table: 'tasted_brew_current_round',
+            kind: 'replace',
+            ids: validBeers.map(beer => beer.id),
           });
 
           // Verify final row count
@@ -259,7 +285,10 @@ export class MyBeersRepository {
     await database.withTransactionAsync(async () => {
       const cleared = await database.runAsync('DELETE FROM tasted_brew_current_round');
       console.log(`Cleared tasted_brew_current_round table (removed ${cleared.changes} rows)`);
+      await clearSearchSourceUnsafe(database, 'tasted');
     });
+
+    emitDatabaseChange({ table: 'tasted_brew_current_round', kind: 'replace', ids: [] });
   }
 
   async insertManyUnsafe(beers: NonEmptyArray<BeerfinderWithContainerType>): Promise<void> {
@@ -277,7 +306,11 @@ export class MyBeersRepository {
     return withContentionMapping('My Beers import', async () => {
       // The empty-array branch is gone: emptying the table is now
       // replaceAllWithEmptyUnsafe(), asked for explicitly rather than inferred.
-      const validBeers = beers.filter(beer => beer && beer.id);
+      // The user's corrections outrank the fetched rows, so every write carries them
+      const validBeers = applyBeerCorrections(
+        beers.filter(beer => beer && beer.id),
+        await beerCorrectionRepository.getAllByBeerIdUnsafe()
+      );
       console.log(
         `DB: Found ${validBeers.length} valid beers with IDs out of ${beers.length} total beers`
       );
@@ -321,8 +354,8 @@ export class MyBeersRepository {
                   id, roh_lap, tasted_date, brew_name, brewer, brewer_loc,
                   brew_style, brew_container, review_count, review_ratings,
                   brew_description, chit_code, container_type, abv,
-                  enrichment_confidence, enrichment_source
-                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                  enrichment_confidence, enrichment_source, style_family
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
                   [
                     beer.id,
                     beer.roh_lap || '',
@@ -340,6 +373,7 @@ export class MyBeersRepository {
                     beer.abv ?? null,
                     beer.enrichment_confidence ?? null,
                     beer.enrichment_source ?? null,
+                    beer.style_family ?? null,
                   ]
                 );
               } catch (err) {
@@ -352,6 +386,16 @@ export class MyBeersRepository {
           // leaving the previous tasted list intact rather than committing an
           // empty or partial one.
           assertNoRowFailures(rowFailures, validBeers.length);
+
+          // Same transaction, so a rolled-back import leaves no history or index rows
+          await tastingHistoryRepository.appendUnsafe(validBeers);
+          await replaceSearchSourceUnsafe(database, 'tasted', validBeers);
+        });
+
+        emitDatabaseChange({
+          table: 'tasted_brew_current_round',
+          kind: 'replace',
+          ids: validBeers.map(beer => beer.id),
         });
 
         // Verify final row count
@@ -454,6 +498,43 @@ export class MyBeersRepository {
     }
   }
 
+  /**
+   * Get the tasted beers with the given IDs, for patching rows already held in
+   * memory
+   *
+   * Validates all rows with type guards and filters out invalid data. IDs not
+   * in the table are left out.
+   *
+   * @param ids - The beer IDs to read
+   * @returns The matching BeerfinderWithContainerType objects, in no particular order
+   */
+  async getByIds(ids: readonly string[]): Promise<BeerfinderWithContainerType[]> {
+    if (ids.length === 0) return [];
+
+    const database = await getDatabase();
+
+    try {
+      const rows: TastedBrewRow[] = [];
+      // Kept well under SQLite's bound-parameter limit
+      for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+        const chunk = ids.slice(i, i + ID_CHUNK_SIZE);
+        rows.push(
+          ...(await database.getAllAsync<TastedBrewRow>(
+            `SELECT * FROM tasted_brew_current_round WHERE id IN (${chunk.map(() => '?').join(', ')})`,
+            chunk
+          ))
+        );
+      }
+
+      return rows
+        .filter(row => isTastedBrewRow(row))
+        .map(row => tastedBrewRowToBeerfinderWithContainerType(row));
+    } catch (error) {
+      console.error('Error getting tasted beers by ID:', error);
+      throw error;
+    }
+  }
+
   /**
    * Clear all tasted beers from the table
    *
@@ -501,6 +582,9 @@ export class MyBeersRepository {
    * (abv, enrichment_confidence, enrichment_source, brew_description) without
    * affecting other beer data or requiring a full table refresh.
    *
+   * Rows the user has corrected are left as they are, as in
+   * `BeerRepository.updateEnrichmentData`.
+   *
    * Uses database lock to prevent concurrent operations.
    *
    * @param enrichments - Record mapping beer IDs to their enrichment data
@@ -515,7 +599,8 @@ export class MyBeersRepository {
       async () => {
         try {
           const database = await getDatabase();
-          let updatedCount = 0;
+          const updatedIds: string[] = [];
+          const reindex: [string, string][] = [];
 
           await database.withTransactionAsync(async () => {
             const stmt = await database.prepareAsync(
@@ -524,7 +609,7 @@ export class MyBeersRepository {
             enrichment_confidence = ?,
             enrichment_source = ?,
             brew_description = COALESCE(?, brew_description)
-           WHERE id = ?`
+           WHERE id = ? AND enrichment_source IS NOT 'manual'`
             );
 
             try {
@@ -536,15 +621,26 @@ export class MyBeersRepository {
                   data.brew_description ?? null,
                   id,
                 ]);
-                if (result.changes > 0) updatedCount++;
+                if (result.changes > 0) {
+                  updatedIds.push(id);
+                  if (data.brew_description != null) reindex.push([id, data.brew_description]);
+                }
               }
             } finally {
               await stmt.finalizeAsync();
             }
+
+            await updateSearchDescriptionsUnsafe(database, 'tasted', reindex);
+          });
+
+          emitDatabaseChange({
+            table: 'tasted_brew_current_round',
+            kind: 'enrichment',
+            ids: updatedIds,
           });
 
-          console.log(`[MyBeersRepository] Updated enrichment for ${updatedCount} beers`);
-          return updatedCount;
+          console.log(`[MyBeersRepository] Updated enrichment for ${updatedIds.length} beers`);
+          return updatedIds.length;
         } catch (error) {
           throw toContentionError('tasted beers enrichment update', error);
         }
@@ -0,0 +1,175 @@
+/**
+ * OperationAttemptRepository - The attempts made at queued operations
+ *
+ * Manages the operation_attempts table: one row per failed attempt at a
+ * queued operation, with how it ended. A failed operation's timeline is read
+ * from here. The operation queue engine records each failed attempt and
+ * removes an operation's attempts with the operation.
+ *
+ * @example
+ * ```typescript
+ * import { operationAttemptRepository } from '@/src/database/repositories/OperationAttemptRepository';
+ *
+ * await operationAttemptRepository.recordAttempt({
+ *   operationId: 'op_123',
+ *   attemptedAt: Date.now(),
+ *   outcome: 'retry',
+ *   errorMessage: 'Network request failed',
+ *   errorClass: 'network',
+ * });
+ *
+ * const attempts = await operationAttemptRepository.getAttempts(['op_123']);
+ * ```
+ */
+
+import { getDatabase } from '../connection';
+import { toContentionError, retryOnContention } from '../errors';
+import {
+  OPERATION_ATTEMPT_OUTCOMES,
+  OPERATION_ERROR_CLASSES,
+  OperationAttempt,
+  OperationAttemptOutcome,
+  OperationAttemptRow,
+  OperationErrorClass,
+} from '../../types/operationQueue';
+
+// ============================================================================
+// REPOSITORY CLASS
+// ============================================================================
+
+export class OperationAttemptRepository {
+  /**
+   * Record a failed attempt
+   *
+   * @param attempt - The finished attempt
+   */
+  async recordAttempt(attempt: OperationAttempt): Promise<void> {
+    // Retried for the reason given in OperationQueueRepository.addOperation
+    return retryOnContention('operation attempt record', () => this.recordAttemptOnce(attempt));
+  }
+
+  private async recordAttemptOnce(attempt: OperationAttempt): Promise<void> {
+    const database = await getDatabase();
+
+    try {
+      await database.runAsync(
+        `INSERT INTO operation_attempts (
+          operation_id, attempted_at, outcome, error_message, error_class
+        ) VALUES (?, ?, ?, ?, ?)`,
+        [
+          attempt.operationId,
+          attempt.attemptedAt,
+          attempt.outcome,
+          attempt.errorMessage ?? null,
+          attempt.errorClass ?? null,
+        ]
+      );
+    } catch (error) {
+      console.error('[OperationAttemptRepository] Error recording attempt:', error);
+      throw toContentionError('operation attempt record', error);
+    }
+  }
+
+  /**
+   * Get the attempts at some operations, oldest first
+   *
+   * @param operationIds - The operations
+   * @returns Their attempts, all together; empty if they have none or the
+   *   read fails
+   */
+  async getAttempts(operationIds: readonly string[]): Promise<OperationAttempt[]> {
+    if (operationIds.length === 0) {
+      return [];
+    }
+
+    const database = await getDatabase();
+
+    try {
+      const rows = await database.getAllAsync<OperationAttemptRow>(
+        `SELECT * FROM operation_attempts
+         WHERE operation_id IN (${operationIds.map(() => '?').join(', ')})
+         ORDER BY attempted_at ASC, id ASC`,
+        [...operationIds]
+      );
+
+      return (rows || [])
+        .map(row => this.rowToAttempt(row))
+        .filter((attempt): attempt is OperationAttempt => attempt !== null);
+    } catch (error) {
+      console.error('[OperationAttemptRepository] Error getting attempts:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Delete an operation's attempts
+   *
+   * @param operationId - Operation ID
+   */
+  async deleteForOperation(operationId: string): Promise<void> {
+    const database = await getDatabase();
+
+    try {
+      await database.runAsync(`DELETE FROM operation_attempts WHERE operation_id = ?`, [
+        operationId,
+      ]);
+    } catch (error) {
+      console.error(
+        `[OperationAttemptRepository] Error deleting attempts for ${operationId}:`,
+        error
+      );
+      throw toContentionError('operation attempt delete', error);
+    }
+  }
+
+  /**
+   * Delete every recorded attempt
+   */
+  async clearAll(): Promise<void> {
+    const database = await getDatabase();
+
+    try {
+      await database.runAsync(`DELETE FROM operation_attempts`);
+    } catch (error) {
+      console.error('[OperationAttemptRepository] Error clearing attempts:', error);
+      throw toContentionError('operation attempt clear', error);
+    }
+  }
+
+  // ============================================================================
+  // HELPER METHODS
+  // ============================================================================
+
+  /**
+   * Convert a database row to an OperationAttempt, or null if it is not one
+   */
+  private rowToAttempt(row: OperationAttemptRow): OperationAttempt | null {
+    if (
+      typeof row.operation_id !== 'string' ||
+      typeof row.attempted_at !== 'number' ||
+      !OPERATION_ATTEMPT_OUTCOMES.includes(row.outcome as OperationAttemptOutcome)
+    ) {
+      console.error('[OperationAttemptRepository] Invalid attempt from database:', row);
+      return null;
+    }
+
+    return {
+      operationId: row.operation_id,
+      attemptedAt: row.attempted_at,
+      outcome: row.outcome as OperationAttemptOutcome,
+      errorMessage: row.error_message ?? undefined,
+      errorClass: OPERATION_ERROR_CLASSES.includes(row.error_class as OperationErrorClass)
+        ? (row.error_class as OperationErrorClass)
+        : undefined,
+    };
+  }
+}
+
+// ============================================================================
+// SINGLETON EXPORT
+// ============================================================================
+
+/**
+ * Singleton instance of OperationAttemptRepository
+ */
+export const operationAttemptRepository = new OperationAttemptRepository();
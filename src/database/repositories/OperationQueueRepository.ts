@@ -5,9 +5,12 @@
  * and need to be retried when connection is restored.
  *
  * Features:
- * - Add operations to queue
- * - Retrieve pending operations
+ * - Add operations to queue, or hand the work to the same operation already waiting
+ * - Retrieve pending operations, highest priority first
+ * - Look up an operation by its idempotency key
  * - Update operation status
+ * - Put operations left marked as being retried back in line
+ * - Resubmit a failed operation
  * - Delete operations
  * - Clear all operations
  *
@@ -41,11 +44,18 @@ import {
   isQueuedOperation,
 } from '../../types/operationQueue';
 
+/** The columns an operation is inserted with, in the order `insertParams` gives them */
+const INSERT_COLUMNS = `id, type, payload, timestamp, retry_count, status, error_message,
+  last_retry_timestamp, priority, depends_on, idempotency_key, expires_at`;
+
+/** Matches an operation waiting its turn, with the dedupe key bound last */
+const WAITING_WITH_DEDUPE_KEY = `status = ? AND dedupe_key = ?`;
+
 // ============================================================================
 // REPOSITORY CLASS
 // ============================================================================
 
-class OperationQueueRepository {
+export class OperationQueueRepository {
   /**
    * Add a new operation to the queue
    *
@@ -63,22 +73,10 @@ class OperationQueueRepository {
     const database = await getDatabase();
 
     try {
-      const payloadJson = JSON.stringify(operation.payload);
-
       await database.runAsync(
-        `INSERT INTO operation_queue (
-          id, type, payload, timestamp, retry_count, status, error_message, last_retry_timestamp
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-        [
-          operation.id,
-          operation.type,
-          payloadJson,
-          operation.timestamp,
-          operation.retryCount,
-          operation.status,
-          operation.errorMessage ?? null,
-          operation.lastRetryTimestamp ?? null,
-        ]
+        `INSERT INTO operation_queue (${INSERT_COLUMNS})
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        this.insertParams(operation)
       );
 
       console.log(
@@ -90,17 +88,97 @@ class OperationQueueRepository {
     }
   }
 
+  /**
+   * Add an operation, or hand its work to one with the same dedupe key that
+   * is still waiting its turn
+   *
+   * The check and the insert are one statement, so two callers queueing the
+   * same work at once cannot both add it, whichever engine or process they
+   * queue from. A waiting operation takes the new payload and dependency, so
+   * it does the work as last asked for and runs after what the newer one
+   * waited on. One already running has read its payload, so it covers
+   * nothing queued after it started.
+   *
+   * @param operation - The operation to queue
+   * @param dedupeKey - What the operation does, as its handler names it
+   * @returns The ID of the operation left waiting: the new one, or the one
+   *   already queued
+   * @throws Error if operation cannot be added
+   */
+  async addOperationOrUpdateWaiting(
+    operation: QueuedOperation,
+    dedupeKey: string
+  ): Promise<string> {
+    return retryOnContention('operation queue add', () =>
+      this.addOperationOrUpdateWaitingOnce(operation, dedupeKey)
+    );
+  }
+
+  private async addOperationOrUpdateWaitingOnce(
+    operation: QueuedOperation,
+    dedupeKey: string
+  ): Promise<string> {
+    const database = await getDatabase();
+    const waitingParams = [OperationStatus.PENDING, dedupeKey];
+
+    try {
+      const result = await database.runAsync(
+        `INSERT INTO operation_queue (${INSERT_COLUMNS}, dedupe_key)
+         SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+         WHERE NOT EXISTS (SELECT 1 FROM operation_queue WHERE ${WAITING_WITH_DEDUPE_KEY})`,
+        [...this.insertParams(operation), dedupeKey, ...waitingParams]
+      );
+
+      if (result.changes > 0) {
+        console.log(
+          `[OperationQueueRepository] Added operation to queue: ${operation.id} (${operation.type})`
+        );
+        return operation.id;
+      }
+
+      const waiting = await database.getFirstAsync<{ id: string }>(
+        `SELECT id FROM operation_queue WHERE ${WAITING_WITH_DEDUPE_KEY}
+         ORDER BY timestamp ASC LIMIT 1`,
+        waitingParams
+      );
+      const updated = waiting
+        ? await database.runAsync(
+            `UPDATE operation_queue SET payload = ?, depends_on = ? WHERE id = ? AND status = ?`,
+            [
+              JSON.stringify(operation.payload),
+              operation.dependsOn ?? null,
+              waiting.id,
+              OperationStatus.PENDING,
+            ]
+          )
+        : null;
+
+      if (!waiting || !updated || updated.changes === 0) {
+        // The waiting operation started or finished between the statements,
+        // so nothing covers this one any more
+        return this.addOperationOrUpdateWaitingOnce(operation, dedupeKey);
+      }
+
+      console.log(`[OperationQueueRepository] ${dedupeKey} already queued: ${waiting.id}`);
+      return waiting.id;
+    } catch (error) {
+      console.error('[OperationQueueRepository] Error adding operation to queue:', error);
+      throw toContentionError('operation queue add', error);
+    }
+  }
+
   /**
    * Get all pending operations from the queue
    *
-   * @returns Array of pending operations
+   * @returns Array of pending operations, highest priority first and in the
+   *   order queued within a priority
    */
   async getPendingOperations(): Promise<QueuedOperation[]> {
     const database = await getDatabase();
 
     try {
       const rows = await database.getAllAsync<QueuedOperationRow>(
-        `SELECT * FROM operation_queue WHERE status = ? ORDER BY timestamp ASC`,
+        `SELECT * FROM operation_queue WHERE status = ? ORDER BY priority DESC, timestamp ASC`,
         [OperationStatus.PENDING]
       );
 
@@ -157,6 +235,35 @@ class OperationQueueRepository {
     }
   }
 
+  /**
+   * Get the operation queued with an idempotency key, whatever its status
+   *
+   * @param idempotencyKey - Key given when the operation was queued
+   * @returns The operation or null if none has the key
+   */
+  async getOperationByIdempotencyKey(idempotencyKey: string): Promise<QueuedOperation | null> {
+    const database = await getDatabase();
+
+    try {
+      const row = await database.getFirstAsync<QueuedOperationRow>(
+        `SELECT * FROM operation_queue WHERE idempotency_key = ?`,
+        [idempotencyKey]
+      );
+
+      if (!row) {
+        return null;
+      }
+
+      return this.rowToOperation(row);
+    } catch (error) {
+      console.error(
+        `[OperationQueueRepository] Error getting operation with key ${idempotencyKey}:`,
+        error
+      );
+      return null;
+    }
+  }
+
   /**
    * Update operation status
    *
@@ -180,6 +287,58 @@ class OperationQueueRepository {
     }
   }
 
+  /**
+   * Mark an operation as being retried, unless it already is
+   *
+   * One conditional UPDATE, so two retries started at once cannot both
+   * claim the same operation.
+   *
+   * @param id - Operation ID
+   * @returns Whether this call claimed it
+   */
+  async markRetrying(id: string): Promise<boolean> {
+    const database = await getDatabase();
+
+    try {
+      const result = await database.runAsync(
+        `UPDATE operation_queue
+         SET status = ?, last_retry_timestamp = ?
+         WHERE id = ? AND status != ?`,
+        [OperationStatus.RETRYING, Date.now(), id, OperationStatus.RETRYING]
+      );
+
+      return result.changes > 0;
+    } catch (error) {
+      console.error(`[OperationQueueRepository] Error claiming operation ${id} for retry:`, error);
+      throw toContentionError('operation queue retry claim', error);
+    }
+  }
+
+  /**
+   * Put every operation marked as being retried back in line
+   *
+   * A mark lasts only as long as the retry that made it. One left by an app
+   * killed mid-retry would otherwise never run again, and would keep its
+   * dependents and any later copy of its work waiting with it.
+   *
+   * @returns How many were put back
+   */
+  async resetRetrying(): Promise<number> {
+    const database = await getDatabase();
+
+    try {
+      const result = await database.runAsync(
+        `UPDATE operation_queue SET status = ? WHERE status = ?`,
+        [OperationStatus.PENDING, OperationStatus.RETRYING]
+      );
+
+      return result.changes;
+    } catch (error) {
+      console.error('[OperationQueueRepository] Error resetting retrying operations:', error);
+      throw toContentionError('operation queue retry reset', error);
+    }
+  }
+
   /**
    * Increment retry count and update last retry timestamp
    *
@@ -209,6 +368,44 @@ class OperationQueueRepository {
     }
   }
 
+  /**
+   * Put a failed operation back in the queue with a fresh retry budget
+   *
+   * Its expiry is dropped: the user asked for it to run, however late. Only a
+   * FAILED operation is touched, so one that is waiting or running is left
+   * alone.
+   *
+   * @param id - Operation ID
+   * @param payload - A replacement payload, or nothing to keep the old one
+   * @returns Whether the operation was failed and is now pending
+   */
+  async resubmit(id: string, payload?: OperationPayload): Promise<boolean> {
+    const database = await getDatabase();
+
+    try {
+      const result = await database.runAsync(
+        `UPDATE operation_queue
+         SET status = ?,
+             retry_count = 0,
+             error_message = NULL,
+             expires_at = NULL,
+             payload = COALESCE(?, payload)
+         WHERE id = ? AND status = ?`,
+        [
+          OperationStatus.PENDING,
+          payload === undefined ? null : JSON.stringify(payload),
+          id,
+          OperationStatus.FAILED,
+        ]
+      );
+
+      return result.changes > 0;
+    } catch (error) {
+      console.error(`[OperationQueueRepository] Error resubmitting operation ${id}:`, error);
+      throw toContentionError('operation queue resubmit', error);
+    }
+  }
+
   /**
    * Delete a specific operation from the queue
    *
@@ -306,6 +503,26 @@ class OperationQueueRepository {
   // HELPER METHODS
   // ============================================================================
 
+  /**
+   * The values for `INSERT_COLUMNS`
+   */
+  private insertParams(operation: QueuedOperation): (string | number | null)[] {
+    return [
+      operation.id,
+      operation.type,
+      JSON.stringify(operation.payload),
+      operation.timestamp,
+      operation.retryCount,
+      operation.status,
+      operation.errorMessage ?? null,
+      operation.lastRetryTimestamp ?? null,
+      operation.priority ?? 0,
+      operation.dependsOn ?? null,
+      operation.idempotencyKey ?? null,
+      operation.expiresAt ?? null,
+    ];
+  }
+
   /**
    * Convert database row to QueuedOperation object
    */
@@ -327,6 +544,10 @@ class OperationQueueRepository {
         status: row.status as OperationStatus,
         errorMessage: row.error_message ?? undefined,
         lastRetryTimestamp: row.last_retry_timestamp ?? undefined,
+        priority: row.priority ?? undefined,
+        dependsOn: row.depends_on ?? undefined,
+        idempotencyKey: row.idempotency_key ?? undefined,
+        expiresAt: row.expires_at ?? undefined,
       };
 
       // Validate the operation
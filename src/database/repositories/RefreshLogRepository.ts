@@ -0,0 +1,94 @@
+/**
+ * RefreshLogRepository - The refresh runs, for Sync History
+ *
+ * Manages the refresh_log table. One row per refresh run, written after the
+ * run has finished and let go of the write lock; only the latest
+ * MAX_REFRESH_LOG_ENTRIES are kept. See refreshLogService.ts for what writes
+ * them.
+ */
+
+import { getDatabase } from '../connection';
+import { databaseLockManager } from '../locks';
+import { withContentionMapping } from '../errors';
+import { isRefreshLogRow, refreshLogRowToEntry, RefreshLogRow } from '../schemaTypes';
+import {
+  MAX_REFRESH_LOG_ENTRIES,
+  NewRefreshLogEntry,
+  RefreshLogEntry,
+} from '../../utils/refreshLog';
+
+/**
+ * Repository class for refresh log operations
+ *
+ * Handles:
+ * - Recording a run and pruning the log
+ * - Listing the latest runs
+ * - Clearing the log
+ */
+export class RefreshLogRepository {
+  /**
+   * Record a run and prune the log to the latest MAX_REFRESH_LOG_ENTRIES, in
+   * one transaction.
+   *
+   * @param entry - The finished run
+   */
+  async record(entry: NewRefreshLogEntry): Promise<void> {
+    await databaseLockManager.withDatabaseLock('RefreshLogRepository.record', () =>
+      withContentionMapping('refresh log record', async () => {
+        const database = await getDatabase();
+        await database.withTransactionAsync(async () => {
+          await database.runAsync(
+            'INSERT INTO refresh_log (trigger, started_at, duration_ms, sources) VALUES (?, ?, ?, ?)',
+            [entry.trigger, entry.started_at, entry.duration_ms, JSON.stringify(entry.sources)]
+          );
+          await database.runAsync(
+            'DELETE FROM refresh_log WHERE id NOT IN (SELECT id FROM refresh_log ORDER BY id DESC LIMIT ?)',
+            [MAX_REFRESH_LOG_ENTRIES]
+          );
+        });
+      })
+    );
+  }
+
+  /**
+   * Get the latest runs, newest first
+   *
+   * Validates all rows with type guards and filters out invalid data.
+   *
+   * @param limit - How many to return
+   * @returns Array of RefreshLogEntry objects
+   * @throws Propagates any database error to the caller
+   */
+  async getRecent(limit: number): Promise<RefreshLogEntry[]> {
+    const database = await getDatabase();
+
+    try {
+      const rows = await database.getAllAsync<RefreshLogRow>(
+        'SELECT * FROM refresh_log ORDER BY id DESC LIMIT ?',
+        [limit]
+      );
+
+      return rows.filter(row => isRefreshLogRow(row)).map(refreshLogRowToEntry);
+    } catch (error) {
+      console.error('Error getting refresh log:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Remove every recorded run
+   */
+  async clear(): Promise<void> {
+    await databaseLockManager.withDatabaseLock('RefreshLogRepository.clear', () =>
+      withContentionMapping('refresh log clear', async () => {
+        const database = await getDatabase();
+        await database.runAsync('DELETE FROM refresh_log');
+      })
+    );
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const refreshLogRepository = new RefreshLogRepository();
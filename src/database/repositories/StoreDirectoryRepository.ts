@@ -0,0 +1,151 @@
+/**
+ * StoreDirectoryRepository - Fetched and user-entered store directory entries
+ *
+ * Manages the store_directory table. The bundled directory is not stored here;
+ * storeDirectoryService lays these entries over it by store id.
+ *
+ * A user entry outranks a fetched one: a directory refresh replaces only the
+ * fetched entries, and never one for a store the user has edited.
+ */
+
+import { getDatabase } from '../connection';
+import { databaseLockManager } from '../locks';
+import { withContentionMapping } from '../errors';
+import { DirectoryStore } from '../../utils/storeDirectory';
+import { isStoreDirectoryRow, storeDirectoryRowToStore, StoreDirectoryRow } from '../schemaTypes';
+
+/** A directory entry as entered or fetched, before it is stamped and stored */
+export type StoreDirectoryEntry = Omit<DirectoryStore, 'source' | 'updated_at'>;
+
+const INSERT_ENTRY_COLUMNS =
+  '(store_id, name, city, state, latitude, longitude, source, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)';
+
+const entryParams = (entry: StoreDirectoryEntry, source: 'remote' | 'user', updatedAt: number) => [
+  entry.store_id,
+  entry.name,
+  entry.city,
+  entry.state,
+  entry.latitude,
+  entry.longitude,
+  source,
+  updatedAt,
+];
+
+/**
+ * Repository class for store directory operations
+ *
+ * Handles:
+ * - Reading the stored entries
+ * - Saving and removing a user's entry
+ * - Replacing the fetched entries after a directory refresh
+ */
+export class StoreDirectoryRepository {
+  /**
+   * Get every stored entry, fetched or user-entered
+   *
+   * Validates all rows with type guards and filters out invalid data.
+   *
+   * @returns Array of DirectoryStore objects
+   * @throws Propagates any database error to the caller
+   */
+  async getStored(): Promise<DirectoryStore[]> {
+    const database = await getDatabase();
+
+    try {
+      const rows = await database.getAllAsync<StoreDirectoryRow>(
+        'SELECT * FROM store_directory ORDER BY store_id ASC'
+      );
+
+      return rows.filter(row => isStoreDirectoryRow(row)).map(row => storeDirectoryRowToStore(row));
+    } catch (error) {
+      console.error('Error getting store directory:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save the user's version of a store's entry, adding the store if the
+   * directory does not have it.
+   *
+   * @param entry - The entry as the user left it
+   * @returns The entry as stored
+   * @throws Error if the store id or name is empty
+   */
+  async saveUserEntry(entry: StoreDirectoryEntry): Promise<DirectoryStore> {
+    const store: DirectoryStore = {
+      ...entry,
+      store_id: entry.store_id.trim(),
+      name: entry.name.trim(),
+      city: entry.city?.trim() || null,
+      state: entry.state?.trim() || null,
+      source: 'user',
+      updated_at: Date.now(),
+    };
+    if (!store.store_id) {
+      throw new Error('Store ID is required');
+    }
+    if (!store.name) {
+      throw new Error('Store name is required');
+    }
+
+    await databaseLockManager.withDatabaseLock('StoreDirectoryRepository.saveUserEntry', () =>
+      withContentionMapping('store directory edit', async () => {
+        const database = await getDatabase();
+        await database.runAsync(
+          `INSERT OR REPLACE INTO store_directory ${INSERT_ENTRY_COLUMNS}`,
+          entryParams(store, 'user', store.updated_at)
+        );
+      })
+    );
+
+    return store;
+  }
+
+  /**
+   * Remove a store's stored entry. A bundled store reverts to its bundled
+   * entry; any other leaves the directory.
+   *
+   * @param storeId - The store
+   */
+  async removeEntry(storeId: string): Promise<void> {
+    await databaseLockManager.withDatabaseLock('StoreDirectoryRepository.removeEntry', () =>
+      withContentionMapping('store directory remove', async () => {
+        const database = await getDatabase();
+        await database.runAsync('DELETE FROM store_directory WHERE store_id = ?', [storeId]);
+      })
+    );
+  }
+
+  /**
+   * Replace the fetched entries with a refresh's, in one transaction.
+   *
+   * A store the user has an entry for keeps it.
+   *
+   * @param entries - The directory as fetched
+   * @param fetchedAt - When, in epoch ms
+   */
+  async replaceRemote(
+    entries: readonly StoreDirectoryEntry[],
+    fetchedAt: number = Date.now()
+  ): Promise<void> {
+    await databaseLockManager.withDatabaseLock('StoreDirectoryRepository.replaceRemote', () =>
+      withContentionMapping('store directory refresh', async () => {
+        const database = await getDatabase();
+        await database.withTransactionAsync(async () => {
+          await database.runAsync("DELETE FROM store_directory WHERE source = 'remote'");
+          for (const entry of entries) {
+            await database.runAsync(
+              `INSERT OR IGNORE INTO store_directory ${INSERT_ENTRY_COLUMNS}`,
+              entryParams(entry, 'remote', fetchedAt)
+            );
+          }
+        });
+      })
+    );
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const storeDirectoryRepository = new StoreDirectoryRepository();
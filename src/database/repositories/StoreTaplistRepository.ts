@@ -0,0 +1,252 @@
+/**
+ * StoreTaplistRepository - Cached taplists of stores other than the active one
+ *
+ * Manages the store_taplists table: which stores the user compares against
+ * the active store, and the taplist and proxy ETag last fetched for every
+ * store the app holds one for. The active store's taplist is `allbeers`; a
+ * switch moves it here and the new store's out (storeSwitchService).
+ *
+ * Written by the comparison screen (adding and removing stores), by
+ * storeComparisonService (storing what a fetch returned) and by the store
+ * switch and refresh writers, which hold the database lock already.
+ */
+
+import { getDatabase } from '../connection';
+import { databaseLockManager } from '../locks';
+import { isDatabaseLockedError, withContentionMapping } from '../errors';
+import { TransactionLike } from '../transactions';
+import { Beer } from '../../types/beer';
+import { StoreTaplist } from '../../utils/storeComparison';
+import { isStoreTaplistRow, storeTaplistRowToStoreTaplist, StoreTaplistRow } from '../schemaTypes';
+
+/**
+ * Repository class for saved-store operations
+ *
+ * Handles:
+ * - Saving and removing a store to compare
+ * - Reading the compared stores, or one store's cache
+ * - Storing a fetched taplist, or stamping a revalidated one
+ */
+export class StoreTaplistRepository {
+  /**
+   * Save a store to compare. A store already cached, by a switch or an earlier
+   * comparison, keeps its taplist and takes the new name.
+   *
+   * @param storeId - Flying Saucer store id, as in `?sid=`
+   * @param storeName - The name to show for it
+   * @returns The store as saved, with no taplist yet if it is new
+   * @throws Error if the store id is empty
+   */
+  async add(storeId: string, storeName: string): Promise<StoreTaplist> {
+    const id = storeId.trim();
+    if (!id) {
+      throw new Error('Store ID is required to compare a store');
+    }
+
+    const store: StoreTaplist = {
+      store_id: id,
+      store_name: storeName.trim() || `Store ${id}`,
+      beers: [],
+      etag: null,
+      fetched_at: null,
+      added_at: Date.now(),
+      compared: true,
+    };
+
+    await databaseLockManager.withDatabaseLock('StoreTaplistRepository.add', () =>
+      withContentionMapping('saved store add', async () => {
+        const database = await getDatabase();
+        await database.runAsync(
+          `INSERT INTO store_taplists (store_id, store_name, added_at, compared) VALUES (?, ?, ?, 1)
+           ON CONFLICT(store_id) DO UPDATE SET
+             store_name = excluded.store_name, added_at = excluded.added_at, compared = 1`,
+          [store.store_id, store.store_name, store.added_at]
+        );
+      })
+    );
+
+    return store;
+  }
+
+  /**
+   * Stop comparing a store. Its cached taplist is kept, so switching to it
+   * later is still instant. Removing one that is not saved is not an error.
+   *
+   * @param storeId - The store to remove
+   */
+  async remove(storeId: string): Promise<void> {
+    await databaseLockManager.withDatabaseLock('StoreTaplistRepository.remove', () =>
+      withContentionMapping('saved store remove', async () => {
+        const database = await getDatabase();
+        await database.runAsync('UPDATE store_taplists SET compared = 0 WHERE store_id = ?', [
+          storeId,
+        ]);
+      })
+    );
+  }
+
+  /**
+   * Get every store saved for comparison, in the order they were added
+   *
+   * Validates all rows with type guards and filters out invalid data.
+   *
+   * @returns Array of StoreTaplist objects
+   * @throws Propagates any database error to the caller
+   */
+  async getCompared(): Promise<StoreTaplist[]> {
+    const database = await getDatabase();
+
+    try {
+      const rows = await database.getAllAsync<StoreTaplistRow>(
+        'SELECT * FROM store_taplists WHERE compared = 1 ORDER BY added_at ASC'
+      );
+
+      return rows
+        .filter(row => isStoreTaplistRow(row))
+        .map(row => storeTaplistRowToStoreTaplist(row));
+    } catch (error) {
+      console.error('Error getting saved stores:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the cached taplist of every store, compared or not
+   *
+   * @returns Array of StoreTaplist objects, by store id
+   * @throws Propagates any database error to the caller
+   */
+  async getAllCached(): Promise<StoreTaplist[]> {
+    const database = await getDatabase();
+
+    try {
+      const rows = await database.getAllAsync<StoreTaplistRow>(
+        'SELECT * FROM store_taplists ORDER BY store_id ASC'
+      );
+
+      return rows
+        .filter(row => isStoreTaplistRow(row))
+        .map(row => storeTaplistRowToStoreTaplist(row));
+    } catch (error) {
+      console.error('Error getting cached store taplists:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get one store's cached taplist
+   *
+   * @param storeId - The store
+   * @returns The cache, or null if the app holds none for that store
+   * @throws Propagates any database error to the caller
+   */
+  async getByStoreId(storeId: string): Promise<StoreTaplist | null> {
+    const database = await getDatabase();
+
+    try {
+      const row = await database.getFirstAsync<StoreTaplistRow>(
+        'SELECT * FROM store_taplists WHERE store_id = ?',
+        [storeId]
+      );
+
+      return row && isStoreTaplistRow(row) ? storeTaplistRowToStoreTaplist(row) : null;
+    } catch (error) {
+      console.error('Error getting cached store taplist:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Store a taplist fetched for a saved store, replacing the cached one.
+   *
+   * Beers and ETag are written in one statement, so the ETag never describes
+   * a taplist other than the one beside it. A store removed while its fetch
+   * was in flight stays removed.
+   *
+   * @param storeId - The store fetched
+   * @param beers - Its taplist
+   * @param etag - The ETag it came with; '' or null when there is none
+   * @param fetchedAt - When the fetch completed, in epoch ms
+   */
+  async saveTaplist(
+    storeId: string,
+    beers: readonly Beer[],
+    etag: string | null,
+    fetchedAt: number = Date.now()
+  ): Promise<void> {
+    await databaseLockManager.withDatabaseLock('StoreTaplistRepository.saveTaplist', () =>
+      withContentionMapping('saved store taplist write', async () => {
+        const database = await getDatabase();
+        await database.runAsync(
+          'UPDATE store_taplists SET beers = ?, etag = ?, fetched_at = ? WHERE store_id = ?',
+          [JSON.stringify(beers), etag || null, fetchedAt, storeId]
+        );
+      })
+    );
+  }
+
+  /**
+   * Record that a saved store's cached taplist was revalidated (a 304).
+   *
+   * @param storeId - The store revalidated
+   * @param fetchedAt - When, in epoch ms
+   */
+  async markRevalidated(storeId: string, fetchedAt: number = Date.now()): Promise<void> {
+    await databaseLockManager.withDatabaseLock('StoreTaplistRepository.markRevalidated', () =>
+      withContentionMapping('saved store revalidate', async () => {
+        const database = await getDatabase();
+        await database.runAsync('UPDATE store_taplists SET fetched_at = ? WHERE store_id = ?', [
+          fetchedAt,
+          storeId,
+        ]);
+      })
+    );
+  }
+
+  /**
+   * Cache a store's taplist without acquiring a lock, creating the row if the
+   * store has none. An existing row keeps its name and whether it is compared.
+   *
+   * UNSAFE: takes no lock; called inside the store switch's hold, and by the
+   * taplist writers keeping rows fetched for a store the app has left. A cache
+   * is worth a download at most, so failures other than lock contention are
+   * logged and swallowed rather than failing the caller.
+   *
+   * @param storeId - The store the taplist belongs to
+   * @param storeName - The name to give a new row
+   * @param beers - Its taplist
+   * @param etag - The ETag it came with; '' or null when there is none
+   * @param fetchedAt - When it was fetched or last revalidated, in epoch ms; null if unknown
+   * @param txn - A transaction to write in, when the cache must commit with other writes
+   */
+  async saveTaplistUnsafe(
+    storeId: string,
+    storeName: string,
+    beers: readonly Beer[],
+    etag: string | null,
+    fetchedAt: number | null,
+    txn?: TransactionLike
+  ): Promise<void> {
+    const database = txn ?? (await getDatabase());
+
+    try {
+      await database.runAsync(
+        `INSERT INTO store_taplists (store_id, store_name, beers, etag, fetched_at, added_at, compared)
+         VALUES (?, ?, ?, ?, ?, ?, 0)
+         ON CONFLICT(store_id) DO UPDATE SET
+           beers = excluded.beers, etag = excluded.etag, fetched_at = excluded.fetched_at`,
+        [storeId, storeName, JSON.stringify(beers), etag || null, fetchedAt, Date.now()]
+      );
+    } catch (error) {
+      if (isDatabaseLockedError(error)) {
+        throw error;
+      }
+      console.error('DB: Error caching store taplist; continuing:', error);
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const storeTaplistRepository = new StoreTaplistRepository();
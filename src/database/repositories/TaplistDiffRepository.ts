@@ -0,0 +1,175 @@
+/**
+ * TaplistDiffRepository - What each taplist refresh changed
+ *
+ * Manages the taplist_diffs table. Rows are written by the refresh paths in
+ * dataUpdateService, inside the same lock hold that replaces allbeers, and
+ * only the latest MAX_TAPLIST_DIFFS are kept.
+ *
+ * Two preferences ride along, as the last-used filters do with presets: how
+ * many days a beer keeps its NEW badge, and when the Home screen was last
+ * opened.
+ */
+
+import { getDatabase } from '../connection';
+import { isDatabaseLockedError } from '../errors';
+import { TransactionLike } from '../transactions';
+import { getPreference, setPreference } from '../preferences';
+import { isTaplistDiffRow, taplistDiffRowToRecord, TaplistDiffRow } from '../schemaTypes';
+import {
+  DEFAULT_NEW_ARRIVAL_WINDOW_DAYS,
+  MAX_TAPLIST_DIFFS,
+  TaplistDiff,
+  TaplistDiffRecord,
+  isNewArrivalWindow,
+} from '../../utils/taplistDiff';
+
+const NEW_ARRIVAL_WINDOW_KEY = 'new_arrival_window_days';
+const LAST_HOME_VISIT_KEY = 'home_last_visit';
+
+/**
+ * Repository class for taplist diff operations
+ *
+ * Handles:
+ * - Recording a refresh's diff and pruning old ones
+ * - Clearing the history when the taplist it describes is replaced wholesale
+ * - Reading the retained diffs
+ * - Reading and writing the NEW badge window and the last Home visit
+ */
+export class TaplistDiffRepository {
+  /**
+   * Record a diff and prune all but the latest MAX_TAPLIST_DIFFS.
+   *
+   * UNSAFE: takes no lock. The refresh paths call this inside the hold that
+   * replaced allbeers, so the diff lands with the rows it describes.
+   *
+   * A failure other than lock contention is logged and swallowed: the taplist
+   * itself has been stored, and a missing diff only costs a NEW badge.
+   *
+   * @param diff - What the refresh changed
+   * @param recordedAt - When the refresh ran, in epoch ms
+   */
+  async recordUnsafe(diff: TaplistDiff, recordedAt: number = Date.now()): Promise<void> {
+    const database = await getDatabase();
+
+    try {
+      await database.runAsync(
+        'INSERT INTO taplist_diffs (recorded_at, added, removed, changed) VALUES (?, ?, ?, ?)',
+        [
+          recordedAt,
+          JSON.stringify(diff.added),
+          JSON.stringify(diff.removed),
+          JSON.stringify(diff.changed),
+        ]
+      );
+      await database.runAsync(
+        `DELETE FROM taplist_diffs WHERE id NOT IN (
+          SELECT id FROM taplist_diffs ORDER BY recorded_at DESC, id DESC LIMIT ?
+        )`,
+        [MAX_TAPLIST_DIFFS]
+      );
+    } catch (error) {
+      if (isDatabaseLockedError(error)) {
+        throw error;
+      }
+      console.error('DB: Error recording taplist diff; continuing refresh:', error);
+    }
+  }
+
+  /**
+   * Remove every recorded diff.
+   *
+   * UNSAFE: takes no lock; called by the login write inside its hold. Failures
+   * other than lock contention are logged and swallowed, as for `recordUnsafe`.
+   *
+   * @param txn - A transaction to write in, when the clear must commit with other writes
+   */
+  async clearUnsafe(txn?: TransactionLike): Promise<void> {
+    const database = txn ?? (await getDatabase());
+
+    try {
+      await database.runAsync('DELETE FROM taplist_diffs');
+    } catch (error) {
+      if (isDatabaseLockedError(error)) {
+        throw error;
+      }
+      console.error('DB: Error clearing taplist diffs; continuing:', error);
+    }
+  }
+
+  /**
+   * Get the retained diffs, newest first
+   *
+   * Validates all rows with type guards; rows whose JSON cannot be read are
+   * left out.
+   *
+   * @returns Array of TaplistDiffRecord objects
+   * @throws Propagates any database error to the caller
+   */
+  async getRecent(): Promise<TaplistDiffRecord[]> {
+    const database = await getDatabase();
+
+    try {
+      const rows = await database.getAllAsync<TaplistDiffRow>(
+        'SELECT * FROM taplist_diffs ORDER BY recorded_at DESC, id DESC'
+      );
+
+      return rows
+        .filter(row => isTaplistDiffRow(row))
+        .map(row => taplistDiffRowToRecord(row))
+        .filter((record): record is TaplistDiffRecord => record !== null);
+    } catch (error) {
+      console.error('Error getting taplist diffs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * How many days a beer keeps its NEW badge. Never throws: an unreadable or
+   * unknown value gives the default.
+   */
+  async getNewArrivalWindowDays(): Promise<number> {
+    try {
+      const days = Number(await getPreference(NEW_ARRIVAL_WINDOW_KEY));
+      return isNewArrivalWindow(days) ? days : DEFAULT_NEW_ARRIVAL_WINDOW_DAYS;
+    } catch {
+      return DEFAULT_NEW_ARRIVAL_WINDOW_DAYS;
+    }
+  }
+
+  /**
+   * @param days - One of NEW_ARRIVAL_WINDOW_OPTIONS
+   * @throws Error if `days` is not one of the options
+   */
+  async setNewArrivalWindowDays(days: number): Promise<void> {
+    if (!isNewArrivalWindow(days)) {
+      throw new Error(`Unsupported NEW badge window: ${days} days`);
+    }
+    await setPreference(NEW_ARRIVAL_WINDOW_KEY, String(days), 'Days a beer shows as NEW');
+  }
+
+  /**
+   * When the Home screen was last opened, in epoch ms, or null if never (or
+   * unreadable). Never throws.
+   */
+  async getLastHomeVisit(): Promise<number | null> {
+    try {
+      const value = Number(await getPreference(LAST_HOME_VISIT_KEY));
+      return Number.isFinite(value) && value > 0 ? value : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async setLastHomeVisit(visitedAt: number): Promise<void> {
+    await setPreference(
+      LAST_HOME_VISIT_KEY,
+      String(visitedAt),
+      'When the Home screen was last opened, for "New since last visit"'
+    );
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const taplistDiffRepository = new TaplistDiffRepository();
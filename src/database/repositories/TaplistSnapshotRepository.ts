@@ -0,0 +1,137 @@
+/**
+ * TaplistSnapshotRepository - Earlier taplists, per store
+ *
+ * Manages the taplist_snapshots table. Rows are written by the refresh paths
+ * in dataUpdateService, inside the same lock hold that replaces allbeers, and
+ * only the latest MAX_TAPLIST_SNAPSHOTS per store are kept. The taplist itself
+ * is packed (see `packTaplist`) and only read when a snapshot is opened.
+ */
+
+import { getDatabase } from '../connection';
+import { isDatabaseLockedError } from '../errors';
+import {
+  isTaplistSnapshotRow,
+  taplistSnapshotRowToSnapshot,
+  TaplistSnapshotRow,
+} from '../schemaTypes';
+import { Beer } from '../../types/beer';
+import {
+  MAX_TAPLIST_SNAPSHOTS,
+  TaplistSnapshot,
+  TaplistSnapshotSource,
+  packTaplist,
+  unpackTaplist,
+} from '../../utils/taplistSnapshot';
+
+/**
+ * A taplist to keep, and where it came from
+ */
+export type NewTaplistSnapshot = {
+  storeId: string;
+  /** When the taplist was fetched, in epoch ms */
+  fetchedAt: number;
+  source: TaplistSnapshotSource;
+  etag: string | null;
+  beers: readonly Beer[];
+};
+
+/**
+ * Repository class for taplist snapshot operations
+ *
+ * Handles:
+ * - Saving a refresh's taplist and pruning the store's old snapshots
+ * - Listing a store's snapshots
+ * - Reading one snapshot's beers
+ */
+export class TaplistSnapshotRepository {
+  /**
+   * Save a snapshot and prune the store's snapshots to the latest
+   * MAX_TAPLIST_SNAPSHOTS.
+   *
+   * UNSAFE: takes no lock. The refresh paths call this inside the hold that
+   * replaced allbeers, so the snapshot matches the rows written.
+   *
+   * A failure other than lock contention is logged and swallowed: the taplist
+   * itself has been stored, and a missing snapshot only shortens the history.
+   */
+  async saveUnsafe(snapshot: NewTaplistSnapshot): Promise<void> {
+    try {
+      const database = await getDatabase();
+      await database.runAsync(
+        `INSERT INTO taplist_snapshots (store_id, fetched_at, source, etag, beer_count, beers)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [
+          snapshot.storeId,
+          snapshot.fetchedAt,
+          snapshot.source,
+          snapshot.etag,
+          snapshot.beers.length,
+          packTaplist(snapshot.beers),
+        ]
+      );
+      await database.runAsync(
+        `DELETE FROM taplist_snapshots WHERE store_id = ? AND id NOT IN (
+          SELECT id FROM taplist_snapshots WHERE store_id = ?
+          ORDER BY fetched_at DESC, id DESC LIMIT ?
+        )`,
+        [snapshot.storeId, snapshot.storeId, MAX_TAPLIST_SNAPSHOTS]
+      );
+    } catch (error) {
+      if (isDatabaseLockedError(error)) {
+        throw error;
+      }
+      console.error('DB: Error saving taplist snapshot; continuing refresh:', error);
+    }
+  }
+
+  /**
+   * Get a store's snapshots, newest first, without their beers
+   *
+   * @param storeId - Flying Saucer store ID
+   * @returns Array of TaplistSnapshot objects
+   * @throws Propagates any database error to the caller
+   */
+  async getForStore(storeId: string): Promise<TaplistSnapshot[]> {
+    const database = await getDatabase();
+
+    try {
+      const rows = await database.getAllAsync<TaplistSnapshotRow>(
+        `SELECT id, store_id, fetched_at, source, etag, beer_count FROM taplist_snapshots
+         WHERE store_id = ? ORDER BY fetched_at DESC, id DESC`,
+        [storeId]
+      );
+
+      return rows.filter(row => isTaplistSnapshotRow(row)).map(taplistSnapshotRowToSnapshot);
+    } catch (error) {
+      console.error('Error getting taplist snapshots:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get one snapshot's beers
+   *
+   * @param id - Snapshot id
+   * @returns The taplist, or null if the snapshot is gone or cannot be read
+   * @throws Propagates any database error to the caller
+   */
+  async getBeers(id: number): Promise<Beer[] | null> {
+    const database = await getDatabase();
+
+    try {
+      const row = await database.getFirstAsync<{ beers: string }>(
+        'SELECT beers FROM taplist_snapshots WHERE id = ?',
+        [id]
+      );
+      return row ? unpackTaplist(row.beers) : null;
+    } catch (error) {
+      console.error('Error getting taplist snapshot beers:', error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const taplistSnapshotRepository = new TaplistSnapshotRepository();
@@ -0,0 +1,122 @@
+/**
+ * TastingHistoryRepository - Append-only record of tasted beers per plate
+ *
+ * Manages the tasting_history table. Rows are written by MyBeersRepository
+ * inside its import transaction, the first time a sync sees a beer on a given
+ * plate (`roh_lap`), and are never updated or deleted afterwards. That is what
+ * lets a plate's history survive the rollover that empties
+ * tasted_brew_current_round.
+ */
+
+import { getDatabase } from '../connection';
+import { BeerfinderWithContainerType, TastingHistoryEntry } from '../../types/beer';
+import { isDatabaseLockedError } from '../errors';
+import { isTastingHistoryRow, tastingHistoryRowToEntry, TastingHistoryRow } from '../schemaTypes';
+
+/** Seven bound values per row; 50 rows stays well under SQLite's variable limit. */
+const HISTORY_BATCH_SIZE = 50;
+
+/**
+ * Repository class for tasting history operations
+ *
+ * Handles:
+ * - Appending tasted beers under their plate, ignoring ones already recorded
+ * - Reading the full history for the Past Plates screen
+ */
+export class TastingHistoryRepository {
+  /**
+   * Record tasted beers in the history, inside the caller's transaction.
+   *
+   * UNSAFE: takes no lock and opens no transaction. Only MyBeersRepository's
+   * import paths call this, while holding both, so the history and the
+   * current round commit or roll back together.
+   *
+   * A failure other than lock contention is logged and swallowed. History is a
+   * by-product of the import, and a device whose v10 migration failed has no
+   * table to write to — letting that throw would roll back every tasted-list
+   * refresh from then on. Contention is rethrown, because it aborts the
+   * transaction the caller is relying on.
+   *
+   * @param beers - Tasted beers from the current sync
+   * @returns Number of rows newly recorded
+   */
+  async appendUnsafe(beers: readonly BeerfinderWithContainerType[]): Promise<number> {
+    // A beer with no plate number cannot be attributed to a plate
+    const recordable = beers.filter(beer => beer.id && beer.roh_lap);
+    if (recordable.length === 0) {
+      return 0;
+    }
+
+    const database = await getDatabase();
+    const recordedAt = Date.now();
+    let appended = 0;
+
+    try {
+      for (let i = 0; i < recordable.length; i += HISTORY_BATCH_SIZE) {
+        const batch = recordable.slice(i, i + HISTORY_BATCH_SIZE);
+        const placeholders = batch.map(() => '(?, ?, ?, ?, ?, ?, ?)').join(',');
+        const values: (string | number)[] = [];
+
+        batch.forEach(beer => {
+          values.push(
+            beer.id,
+            beer.roh_lap || '',
+            beer.tasted_date || '',
+            beer.brew_name || '',
+            beer.brewer || '',
+            beer.brew_style || '',
+            recordedAt
+          );
+        });
+
+        const result = await database.runAsync(
+          `INSERT OR IGNORE INTO tasting_history (
+            beer_id, roh_lap, tasted_date, brew_name, brewer, brew_style, recorded_at
+          ) VALUES ${placeholders}`,
+          values
+        );
+        appended += result?.changes ?? 0;
+      }
+    } catch (error) {
+      if (isDatabaseLockedError(error)) {
+        throw error;
+      }
+      console.error('DB: Error appending to tasting_history; continuing import:', error);
+      return appended;
+    }
+
+    if (appended > 0) {
+      console.log(`DB: Recorded ${appended} new beers in tasting_history`);
+    }
+    return appended;
+  }
+
+  /**
+   * Get the whole tasting history
+   *
+   * Ordered by plate, then by when each beer was first recorded.
+   * Validates all rows with type guards and filters out invalid data.
+   *
+   * @returns Array of TastingHistoryEntry objects
+   * @throws Propagates any database error to the caller
+   */
+  async getAll(): Promise<TastingHistoryEntry[]> {
+    const database = await getDatabase();
+
+    try {
+      const rows = await database.getAllAsync<TastingHistoryRow>(
+        'SELECT * FROM tasting_history ORDER BY CAST(roh_lap AS INTEGER), recorded_at'
+      );
+
+      return rows.filter(row => isTastingHistoryRow(row)).map(row => tastingHistoryRowToEntry(row));
+    } catch (error) {
+      console.error('Error getting tasting history:', error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const tastingHistoryRepository = new TastingHistoryRepository();
@@ -0,0 +1,156 @@
+/**
+ * WishlistRepository - Beers the user wants to try
+ *
+ * Manages the wishlist table. Rows are added and removed only by the user
+ * starring a beer; the one thing the refresh path writes is
+ * `last_seen_on_tap`, stamped by fetchAndUpdateAllBeers for every wishlisted
+ * beer on the taplist it has just stored.
+ *
+ * Entirely local. Starring a beer here does not queue it with Flying Saucer.
+ */
+
+import { getDatabase } from '../connection';
+import { databaseLockManager } from '../locks';
+import { isDatabaseLockedError, withContentionMapping } from '../errors';
+import { TransactionLike } from '../transactions';
+import { Beer, WishlistEntry } from '../../types/beer';
+import { isWishlistRow, wishlistRowToEntry, WishlistRow } from '../schemaTypes';
+
+/** The fields of a beer kept with its wishlist entry */
+export type WishlistBeer = Pick<Beer, 'id' | 'brew_name' | 'brewer' | 'brew_style'>;
+
+/**
+ * Repository class for wishlist operations
+ *
+ * Handles:
+ * - Adding and removing a starred beer
+ * - Reading the whole wishlist
+ * - Stamping wishlisted beers found on a freshly stored taplist
+ */
+export class WishlistRepository {
+  /**
+   * Add a beer to the wishlist. Adding a beer that is already there keeps its
+   * original entry.
+   *
+   * The beer is being starred from a taplist, so it is recorded as on tap now.
+   *
+   * @param beer - The beer to add
+   * @returns The entry as stored, or as it would be for a beer already present
+   * @throws Error if the beer has no id
+   */
+  async add(beer: WishlistBeer): Promise<WishlistEntry> {
+    if (!beer.id) {
+      throw new Error('Beer ID is required to add to the wishlist');
+    }
+
+    const now = Date.now();
+    const entry: WishlistEntry = {
+      beer_id: beer.id,
+      brew_name: beer.brew_name || '',
+      brewer: beer.brewer || '',
+      brew_style: beer.brew_style || '',
+      added_at: now,
+      last_seen_on_tap: now,
+    };
+
+    await databaseLockManager.withDatabaseLock('WishlistRepository.add', () =>
+      withContentionMapping('wishlist add', async () => {
+        const database = await getDatabase();
+        await database.runAsync(
+          `INSERT OR IGNORE INTO wishlist (
+            beer_id,
+            brew_name,
+            brewer,
+            brew_style,
+            added_at,
+            last_seen_on_tap
+          ) VALUES (?, ?, ?, ?, ?, ?)`,
+          [
+            entry.beer_id,
+            entry.brew_name,
+            entry.brewer,
+            entry.brew_style,
+            entry.added_at,
+            entry.last_seen_on_tap,
+          ]
+        );
+      })
+    );
+
+    return entry;
+  }
+
+  /**
+   * Remove a beer from the wishlist. Removing one that is not there is not an
+   * error.
+   *
+   * @param beerId - The beer to remove
+   */
+  async remove(beerId: string): Promise<void> {
+    await databaseLockManager.withDatabaseLock('WishlistRepository.remove', () =>
+      withContentionMapping('wishlist remove', async () => {
+        const database = await getDatabase();
+        await database.runAsync('DELETE FROM wishlist WHERE beer_id = ?', [beerId]);
+      })
+    );
+  }
+
+  /**
+   * Get the whole wishlist, most recently starred first
+   *
+   * Validates all rows with type guards and filters out invalid data.
+   *
+   * @returns Array of WishlistEntry objects
+   * @throws Propagates any database error to the caller
+   */
+  async getAll(): Promise<WishlistEntry[]> {
+    const database = await getDatabase();
+
+    try {
+      const rows = await database.getAllAsync<WishlistRow>(
+        'SELECT * FROM wishlist ORDER BY added_at DESC'
+      );
+
+      return rows.filter(row => isWishlistRow(row)).map(row => wishlistRowToEntry(row));
+    } catch (error) {
+      console.error('Error getting wishlist:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stamp `last_seen_on_tap` on every wishlisted beer now in allbeers.
+   *
+   * UNSAFE: takes no lock. fetchAndUpdateAllBeers calls this inside its write
+   * hold, straight after replacing allbeers, so the stamp describes the rows
+   * it has just stored and not a later store's.
+   *
+   * A failure other than lock contention is logged and swallowed, as for the
+   * tasting history: a device without the table must still be able to refresh.
+   *
+   * @param txn - A transaction to write in, when the stamp must commit with other writes
+   * @returns Number of wishlisted beers found on tap
+   */
+  async markOnTapUnsafe(txn?: TransactionLike): Promise<number> {
+    const database = txn ?? (await getDatabase());
+
+    try {
+      const result = await database.runAsync(
+        'UPDATE wishlist SET last_seen_on_tap = ? WHERE beer_id IN (SELECT id FROM allbeers)',
+        [Date.now()]
+      );
+      return result?.changes ?? 0;
+    } catch (error) {
+      if (isDatabaseLockedError(error)) {
+        throw error;
+      }
+      console.error('DB: Error marking wishlisted beers on tap; continuing refresh:', error);
+      return 0;
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const wishlistRepository = new WishlistRepository();
@@ -0,0 +1,172 @@
+/**
+ * Tests for BeerCorrectionRepository
+ */
+
+import { BeerCorrectionRepository } from '../BeerCorrectionRepository';
+import * as connection from '../../connection';
+import { DatabaseChange, subscribeToDatabaseChanges } from '../../changeEvents';
+
+jest.mock('../../connection');
+
+type MockDatabase = {
+  withTransactionAsync: jest.Mock;
+  runAsync: jest.Mock;
+  getAllAsync: jest.Mock;
+  getFirstAsync: jest.Mock;
+};
+
+function createMockDatabase(): MockDatabase {
+  return {
+    withTransactionAsync: jest.fn(async (callback: () => Promise<void>) => await callback()),
+    runAsync: jest.fn().mockResolvedValue({ changes: 1 }),
+    getAllAsync: jest.fn(),
+    getFirstAsync: jest.fn().mockResolvedValue(null),
+  };
+}
+
+const allBeersRow = {
+  id: 'b1',
+  brew_name: 'Test IPA',
+  brewer: 'Test Brewery',
+  brew_style: 'IPA',
+  brew_container: 'Draught',
+  brew_description: 'Wrong',
+  container_type: 'pint',
+  abv: 5,
+  enrichment_confidence: 0.5,
+  enrichment_source: 'perplexity',
+  style_family: 'IPA',
+};
+
+describe('BeerCorrectionRepository', () => {
+  let mockDatabase: MockDatabase;
+  let repository: BeerCorrectionRepository;
+
+  beforeEach(() => {
+    mockDatabase = createMockDatabase();
+    (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+    repository = new BeerCorrectionRepository();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('save', () => {
+    it('stores the normalized correction', async () => {
+      const saved = await repository.save({
+        beer_id: 'b1',
+        abv: 6.8,
+        brew_style: '  ',
+        brew_description: ' Piney ',
+      });
+
+      expect(saved).toMatchObject({ beer_id: 'b1', abv: 6.8, brew_style: null });
+      const [sql, params] = mockDatabase.runAsync.mock.calls[0];
+      expect(sql).toContain('INSERT OR REPLACE INTO beer_corrections');
+      expect(params).toEqual(['b1', 6.8, null, 'Piney', saved.updated_at]);
+    });
+
+    it('rejects an invalid correction without writing', async () => {
+      await expect(
+        repository.save({ beer_id: 'b1', abv: 250, brew_style: null, brew_description: null })
+      ).rejects.toThrow(/ABV must be/);
+
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+
+    it('corrects the stored row, re-indexes it and announces the correction', async () => {
+      mockDatabase.getFirstAsync.mockImplementation(async (sql: string) =>
+        sql.includes('FROM allbeers') ? allBeersRow : null
+      );
+      const changes: DatabaseChange[] = [];
+      const unsubscribe = subscribeToDatabaseChanges(change => changes.push(change));
+
+      try {
+        await repository.save({
+          beer_id: 'b1',
+          abv: 6.8,
+          brew_style: null,
+          brew_description: 'Right',
+        });
+      } finally {
+        unsubscribe();
+      }
+
+      const update = mockDatabase.runAsync.mock.calls.find(([sql]) =>
+        sql.includes('UPDATE allbeers SET')
+      );
+      expect(update?.[1]).toEqual([6.8, 'IPA', 'Right', 'pint', 'IPA', 'manual', 1, 'b1']);
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        'DELETE FROM beer_search WHERE beer_id = ? AND source = ?',
+        ['b1', 'allbeers']
+      );
+      expect(
+        mockDatabase.runAsync.mock.calls.some(([sql]) => sql.includes('tasted_brew_current_round'))
+      ).toBe(false);
+      expect(changes).toEqual([{ table: 'allbeers', kind: 'correction', ids: ['b1'] }]);
+    });
+  });
+
+  describe('saveMany', () => {
+    it('writes every correction in one transaction and announces them together', async () => {
+      mockDatabase.getFirstAsync.mockImplementation(async (sql: string, [id]: string[]) =>
+        sql.includes('FROM allbeers') ? { ...allBeersRow, id } : null
+      );
+      const changes: DatabaseChange[] = [];
+      const unsubscribe = subscribeToDatabaseChanges(change => changes.push(change));
+
+      try {
+        await repository.saveMany([
+          { beer_id: 'b1', abv: 5, brew_style: null, brew_description: null },
+          { beer_id: 'b2', abv: 7, brew_style: null, brew_description: null },
+        ]);
+      } finally {
+        unsubscribe();
+      }
+
+      expect(mockDatabase.withTransactionAsync).toHaveBeenCalledTimes(1);
+      const inserts = mockDatabase.runAsync.mock.calls.filter(([sql]) =>
+        sql.includes('INSERT OR REPLACE INTO beer_corrections')
+      );
+      expect(inserts.map(([, params]) => params[0])).toEqual(['b1', 'b2']);
+      expect(changes).toEqual([{ table: 'allbeers', kind: 'correction', ids: ['b1', 'b2'] }]);
+    });
+
+    it('saves none when one is invalid', async () => {
+      await expect(
+        repository.saveMany([
+          { beer_id: 'b1', abv: 5, brew_style: null, brew_description: null },
+          { beer_id: 'b2', abv: -3, brew_style: null, brew_description: null },
+        ])
+      ).rejects.toThrow(/ABV must be/);
+
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAllByBeerIdUnsafe', () => {
+    it('maps the corrections by beer id', async () => {
+      mockDatabase.getAllAsync.mockResolvedValue([
+        { beer_id: 'b1', abv: 6.8, brew_style: null, brew_description: null, updated_at: 2 },
+      ]);
+
+      const corrections = await repository.getAllByBeerIdUnsafe();
+
+      expect(corrections.get('b1')?.abv).toBe(6.8);
+    });
+
+    it('reads an unreadable table as no corrections', async () => {
+      mockDatabase.getAllAsync.mockRejectedValue(new Error('no such table: beer_corrections'));
+
+      await expect(repository.getAllByBeerIdUnsafe()).resolves.toEqual(new Map());
+    });
+
+    it('rethrows lock contention', async () => {
+      mockDatabase.getAllAsync.mockRejectedValue(new Error('database is locked'));
+
+      await expect(repository.getAllByBeerIdUnsafe()).rejects.toThrow('database is locked');
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Tests for BeerNotesRepository
+ */
+
+import { BeerNotesRepository, isEmptyBeerNote } from '../BeerNotesRepository';
+import * as connection from '../../connection';
+import { databaseLockManager } from '../../locks';
+
+jest.mock('../../connection');
+
+type MockDatabase = {
+  withTransactionAsync: jest.Mock;
+  runAsync: jest.Mock;
+  getAllAsync: jest.Mock;
+  getFirstAsync: jest.Mock;
+};
+
+function createMockDatabase(): MockDatabase {
+  return {
+    withTransactionAsync: jest.fn(async (callback: () => Promise<void>) => await callback()),
+    runAsync: jest.fn().mockResolvedValue({ changes: 1 }),
+    getAllAsync: jest.fn(),
+    getFirstAsync: jest.fn(),
+  };
+}
+
+describe('BeerNotesRepository', () => {
+  let mockDatabase: MockDatabase;
+  let repository: BeerNotesRepository;
+
+  beforeEach(() => {
+    mockDatabase = createMockDatabase();
+    (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+    repository = new BeerNotesRepository();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('save', () => {
+    it('upserts the note with tags as a JSON array', async () => {
+      await repository.save({
+        beer_id: 'b1',
+        rating: 4,
+        notes: '  Piney, dry finish  ',
+        flavor_tags: ['hoppy', 'bitter', 'hoppy'],
+      });
+
+      const [sql, params] = mockDatabase.runAsync.mock.calls[0];
+      expect(sql).toContain('INSERT OR REPLACE INTO beer_notes');
+      expect(params.slice(0, 4)).toEqual(['b1', 4, 'Piney, dry finish', '["hoppy","bitter"]']);
+      expect(typeof params[4]).toBe('number');
+    });
+
+    it('stores a rating of zero rather than treating it as empty', async () => {
+      await repository.save({ beer_id: 'b1', rating: 0, notes: '', flavor_tags: [] });
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT OR REPLACE INTO beer_notes'),
+        expect.arrayContaining(['b1', 0])
+      );
+    });
+
+    it('deletes the row when every field is cleared', async () => {
+      // An empty row would otherwise count as "rated" to nothing and linger forever.
+      await repository.save({ beer_id: 'b1', rating: null, notes: '   ', flavor_tags: [] });
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledTimes(1);
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        'DELETE FROM beer_notes WHERE beer_id = ?',
+        ['b1']
+      );
+    });
+
+    it.each([6, -1, 2.5])('rejects a rating of %p without writing', async rating => {
+      await expect(
+        repository.save({ beer_id: 'b1', rating, notes: '', flavor_tags: [] })
+      ).rejects.toThrow(/Rating must be an integer/);
+
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+
+    it('takes the master lock, so it waits for a refresh instead of aborting it', async () => {
+      const lockSpy = jest.spyOn(databaseLockManager, 'withDatabaseLock');
+
+      await repository.save({ beer_id: 'b1', rating: 3, notes: '', flavor_tags: [] });
+
+      expect(lockSpy).toHaveBeenCalledWith('BeerNotesRepository.save', expect.any(Function));
+      expect(databaseLockManager.isLocked()).toBe(false);
+    });
+
+    it('maps a lock abort to a contention error', async () => {
+      mockDatabase.runAsync.mockRejectedValue(new Error('database is locked'));
+
+      await expect(
+        repository.save({ beer_id: 'b1', rating: 3, notes: '', flavor_tags: [] })
+      ).rejects.toMatchObject({ name: 'DatabaseContentionError' });
+    });
+  });
+
+  describe('getAll', () => {
+    it('converts rows and drops invalid ones', async () => {
+      mockDatabase.getAllAsync.mockResolvedValue([
+        { beer_id: 'b1', rating: 5, notes: 'Great', flavor_tags: '["fruity"]', updated_at: 2 },
+        { beer_id: 'b2', rating: null, notes: null, flavor_tags: 'not json', updated_at: 1 },
+        { beer_id: '', rating: 3, notes: '', flavor_tags: '[]', updated_at: 1 },
+        { beer_id: 'b3', rating: 9, notes: '', flavor_tags: '[]', updated_at: 1 },
+      ]);
+
+      const notes = await repository.getAll();
+
+      expect(notes).toEqual([
+        { beer_id: 'b1', rating: 5, notes: 'Great', flavor_tags: ['fruity'], updated_at: 2 },
+        { beer_id: 'b2', rating: null, notes: '', flavor_tags: [], updated_at: 1 },
+      ]);
+    });
+
+    it('rethrows read failures', async () => {
+      mockDatabase.getAllAsync.mockRejectedValue(new Error('disk I/O error'));
+
+      await expect(repository.getAll()).rejects.toThrow('disk I/O error');
+    });
+  });
+
+  describe('getByBeerId', () => {
+    it('returns null when the beer has no note', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue(null);
+
+      await expect(repository.getByBeerId('missing')).resolves.toBeNull();
+    });
+
+    it('returns the converted note', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue({
+        beer_id: 'b1',
+        rating: 2,
+        notes: 'Thin',
+        flavor_tags: '[]',
+        updated_at: 10,
+      });
+
+      await expect(repository.getByBeerId('b1')).resolves.toEqual({
+        beer_id: 'b1',
+        rating: 2,
+        notes: 'Thin',
+        flavor_tags: [],
+        updated_at: 10,
+      });
+    });
+  });
+
+  describe('isEmptyBeerNote', () => {
+    it('treats whitespace-only notes with no rating or tags as empty', () => {
+      expect(isEmptyBeerNote({ beer_id: 'b1', rating: null, notes: ' \n', flavor_tags: [] })).toBe(
+        true
+      );
+    });
+
+    it('treats a zero rating as content', () => {
+      expect(isEmptyBeerNote({ beer_id: 'b1', rating: 0, notes: '', flavor_tags: [] })).toBe(false);
+    });
+  });
+});
@@ -89,8 +89,16 @@ function createTransactionalFake(
 
   const isWrite = (sql: string): boolean => /^\s*(DELETE|INSERT|UPDATE)/i.test(sql);
 
+  // Only allbeers is modelled. The beer_search rows the import writes in the
+  // same transaction are accepted and ignored.
+  const isAllBeers = (sql: string): boolean => /\ballbeers\b/i.test(sql);
+
   // Applies a statement to whichever id list the caller is allowed to touch.
   const apply = (target: string[], sql: string, params: readonly unknown[]): RunResult => {
+    if (!isAllBeers(sql)) {
+      return { changes: 0, lastInsertRowId: 0 };
+    }
+
     if (/^\s*DELETE/i.test(sql)) {
       const removed = target.length;
       target.length = 0;
@@ -160,7 +168,8 @@ function createTransactionalFake(
     // compile-per-row is visible rather than merely slower.
     prepareAsync: async (sql: string) => {
       if (staged === null) throw new Error('fake: txn used outside a transaction');
-      prepares += 1;
+      const counted = isAllBeers(sql);
+      if (counted) prepares += 1;
       let finalized = false;
       return {
         executeAsync: async (params: readonly unknown[] = []): Promise<RunResult> => {
@@ -171,7 +180,7 @@ function createTransactionalFake(
         },
         finalizeAsync: async (): Promise<void> => {
           finalized = true;
-          finalizes += 1;
+          if (counted) finalizes += 1;
           if (finalizeShouldThrow) {
             throw new Error('SQLITE_MISUSE: cannot finalize on a failed transaction');
           }
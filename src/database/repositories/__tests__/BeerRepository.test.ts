@@ -9,6 +9,8 @@ import * as connection from '../../connection';
 import { toNonEmpty } from '../../../api/fetchOutcome';
 import type { NonEmptyArray } from '../../../api/fetchOutcome';
 import { databaseLockManager } from '../../locks';
+import { beerSearchRepository } from '../BeerSearchRepository';
+import { DatabaseChange, subscribeToDatabaseChanges } from '../../changeEvents';
 
 // Mock the database connection module
 jest.mock('../../connection');
@@ -27,6 +29,8 @@ type MockDatabase = {
   getFirstAsync: jest.Mock;
   /** The statement prepareAsync hands back — the import's inserts land here. */
   statement: MockStatement;
+  /** The statement for beer_search rows, kept apart so row counts above stay per-beer. */
+  searchStatement: MockStatement;
 };
 
 function createMockDatabase(): MockDatabase {
@@ -34,6 +38,10 @@ function createMockDatabase(): MockDatabase {
     executeAsync: jest.fn().mockResolvedValue({ changes: 1, lastInsertRowId: 1 }),
     finalizeAsync: jest.fn().mockResolvedValue(undefined),
   };
+  const searchStatement: MockStatement = {
+    executeAsync: jest.fn().mockResolvedValue({ changes: 1, lastInsertRowId: 1 }),
+    finalizeAsync: jest.fn().mockResolvedValue(undefined),
+  };
 
   const mockDatabase: MockDatabase = {
     withTransactionAsync: jest.fn(async (callback: () => Promise<void>) => await callback()),
@@ -43,10 +51,13 @@ function createMockDatabase(): MockDatabase {
     runAsync: jest.fn().mockResolvedValue({ changes: 0, lastInsertRowId: 0 }),
     // The import compiles its INSERT once and reuses it, so the per-row
     // assertions below look at statement.executeAsync rather than runAsync.
-    prepareAsync: jest.fn().mockResolvedValue(statement),
+    prepareAsync: jest.fn(async (sql: string) =>
+      sql.includes('beer_search') ? searchStatement : statement
+    ),
     getAllAsync: jest.fn(),
     getFirstAsync: jest.fn(),
     statement,
+    searchStatement,
   };
 
   // Hands the body a `txn` that forwards to the same mock, so assertions on
@@ -137,6 +148,7 @@ describe('BeerRepository', () => {
           container_type: 'pint',
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
         {
           id: '2',
@@ -147,6 +159,7 @@ describe('BeerRepository', () => {
           container_type: 'tulip',
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -169,6 +182,46 @@ describe('BeerRepository', () => {
       );
     });
 
+    it("should lay the user's stored correction over a fetched beer", async () => {
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      mockDatabase.getAllAsync.mockImplementation(async (sql: string) =>
+        sql.includes('beer_corrections')
+          ? [
+              {
+                beer_id: '1',
+                abv: 7.2,
+                brew_style: null,
+                brew_description: 'Corrected',
+                updated_at: 1,
+              },
+            ]
+          : []
+      );
+
+      await createRepository().insertMany(
+        nel<BeerWithContainerType>([
+          {
+            id: '1',
+            brew_name: 'Test IPA',
+            brew_style: 'IPA',
+            brew_description: 'Wrong',
+            container_type: 'pint',
+            abv: 5,
+            enrichment_confidence: 0.5,
+            enrichment_source: 'perplexity',
+            style_family: null,
+          },
+        ])
+      );
+
+      const params = mockDatabase.statement.executeAsync.mock.calls[0][0];
+      expect(params[0]).toBe('1');
+      expect(params[5]).toBe('IPA');
+      expect(params[9]).toBe('Corrected');
+      expect(params.slice(11, 14)).toEqual([7.2, 1, 'manual']);
+    });
+
     it('should skip beers without IDs', async () => {
       const mockDatabase = createMockDatabase();
       (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
@@ -181,6 +234,7 @@ describe('BeerRepository', () => {
           container_type: 'pint',
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
         {
           id: '',
@@ -189,6 +243,7 @@ describe('BeerRepository', () => {
           container_type: 'pint',
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         } as BeerWithContainerType,
         {
           id: '2',
@@ -197,6 +252,7 @@ describe('BeerRepository', () => {
           container_type: 'tulip',
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -223,6 +279,7 @@ describe('BeerRepository', () => {
         container_type: i % 2 === 0 ? ('pint' as const) : ('tulip' as const),
         enrichment_confidence: null,
         enrichment_source: null,
+        style_family: null,
       }));
 
       mockDatabase.getFirstAsync.mockResolvedValue({ count: 0 });
@@ -235,7 +292,10 @@ describe('BeerRepository', () => {
       expect(mockDatabase.withTransactionAsync).not.toHaveBeenCalled();
 
       // Should insert all 120 beers, from a single compiled statement
-      expect(mockDatabase.prepareAsync).toHaveBeenCalledTimes(1);
+      const allBeersPrepares = mockDatabase.prepareAsync.mock.calls.filter(([sql]) =>
+        String(sql).includes('allbeers')
+      );
+      expect(allBeersPrepares).toHaveLength(1);
       expect(mockDatabase.statement.executeAsync).toHaveBeenCalledTimes(120);
     });
 
@@ -265,6 +325,7 @@ describe('BeerRepository', () => {
           container_type: 'pint',
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
           // All optional fields missing
         },
       ];
@@ -291,6 +352,7 @@ describe('BeerRepository', () => {
           container_type: 'pint',
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -298,6 +360,168 @@ describe('BeerRepository', () => {
 
       await expect(repository.insertMany(nel(beers))).rejects.toThrow('Database error');
     });
+
+    it('should announce the replaced table after the import commits', async () => {
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      mockDatabase.getFirstAsync.mockResolvedValue({ count: 2 });
+      const repository = createRepository();
+      const changes: DatabaseChange[] = [];
+      const unsubscribe = subscribeToDatabaseChanges(change => changes.push(change));
+
+      try {
+        await repository.insertMany(
+          nel([
+            { id: '1', brew_name: 'Test IPA', container_type: 'pint' },
+            { id: '2', brew_name: 'Test Stout', container_type: 'tulip' },
+          ] as BeerWithContainerType[])
+        );
+      } finally {
+        unsubscribe();
+      }
+
+      expect(changes).toEqual([{ table: 'allbeers', kind: 'replace', ids: ['1', '2'] }]);
+    });
+
+    it('should announce nothing when the import fails', async () => {
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      mockDatabase.runAsync.mockRejectedValueOnce(new Error('Database error'));
+      const repository = createRepository();
+      const listener = jest.fn();
+      const unsubscribe = subscribeToDatabaseChanges(listener);
+
+      try {
+        await expect(
+          repository.insertMany(
+            nel([
+              { id: '1', brew_name: 'Test IPA', container_type: 'pint' },
+            ] as BeerWithContainerType[])
+          )
+        ).rejects.toThrow('Database error');
+      } finally {
+        unsubscribe();
+      }
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should rebuild the allbeers search index inside the import transaction', async () => {
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      let inTransaction = false;
+      mockDatabase.withExclusiveTransactionAsync.mockImplementation(
+        async (task: (txn: MockDatabase) => Promise<void>) => {
+          inTransaction = true;
+          try {
+            await task(mockDatabase);
+          } finally {
+            inTransaction = false;
+          }
+        }
+      );
+      const indexedInTransaction: boolean[] = [];
+      mockDatabase.searchStatement.executeAsync.mockImplementation(async () => {
+        indexedInTransaction.push(inTransaction);
+        return { changes: 1, lastInsertRowId: 1 };
+      });
+
+      await createRepository().insertMany(
+        nel<BeerWithContainerType>([
+          {
+            id: '1',
+            brew_name: 'Black Coffee',
+            brewer: 'Test Brewery',
+            brew_style: 'Stout',
+            brew_description: '<p>Cold brew coffee</p>',
+            container_type: 'pint',
+            enrichment_confidence: null,
+            enrichment_source: null,
+            style_family: null,
+          },
+        ])
+      );
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        'DELETE FROM beer_search WHERE source = ?',
+        ['allbeers']
+      );
+      expect(mockDatabase.searchStatement.executeAsync).toHaveBeenCalledWith([
+        '1',
+        'allbeers',
+        'Black Coffee',
+        'Test Brewery',
+        'Stout',
+        'Cold brew coffee',
+      ]);
+      expect(indexedInTransaction).toEqual([true]);
+    });
+  });
+
+  describe('replaceAllWithUnsafe', () => {
+    it('should run the writes alongside the rows inside the same transaction', async () => {
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      let inTransaction = false;
+      mockDatabase.withExclusiveTransactionAsync.mockImplementation(
+        async (task: (txn: MockDatabase) => Promise<void>) => {
+          inTransaction = true;
+          try {
+            await task(mockDatabase);
+          } finally {
+            inTransaction = false;
+          }
+        }
+      );
+      const alongside = jest.fn(async () => {
+        expect(inTransaction).toBe(true);
+        expect(mockDatabase.statement.executeAsync).toHaveBeenCalledTimes(1);
+      });
+
+      await createRepository().replaceAllWithUnsafe(
+        [{ id: '1', brew_name: 'Test IPA', container_type: 'pint' }] as BeerWithContainerType[],
+        alongside
+      );
+
+      expect(alongside).toHaveBeenCalledWith(mockDatabase);
+      expect(mockDatabase.withExclusiveTransactionAsync).toHaveBeenCalledTimes(1);
+    });
+
+    it('should empty the table and its index for an empty list', async () => {
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+
+      await createRepository().replaceAllWithUnsafe([], async () => {});
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith('DELETE FROM allbeers');
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        'DELETE FROM beer_search WHERE source = ?',
+        ['allbeers']
+      );
+      expect(mockDatabase.statement.executeAsync).not.toHaveBeenCalled();
+    });
+
+    it('should fail, and announce nothing, when the writes alongside fail', async () => {
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      const listener = jest.fn();
+      const unsubscribe = subscribeToDatabaseChanges(listener);
+
+      try {
+        await expect(
+          createRepository().replaceAllWithUnsafe(
+            [{ id: '1', brew_name: 'Test IPA', container_type: 'pint' }] as BeerWithContainerType[],
+            async () => {
+              throw new Error('Database error');
+            }
+          )
+        ).rejects.toThrow('Database error');
+      } finally {
+        unsubscribe();
+      }
+
+      expect(listener).not.toHaveBeenCalled();
+    });
   });
 
   describe('getAll', () => {
@@ -321,6 +545,7 @@ describe('BeerRepository', () => {
           review_rating: undefined,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
         {
           id: '1',
@@ -337,6 +562,7 @@ describe('BeerRepository', () => {
           review_rating: undefined,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -400,6 +626,7 @@ describe('BeerRepository', () => {
           review_rating: undefined,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -450,6 +677,7 @@ describe('BeerRepository', () => {
         review_rating: undefined,
         enrichment_confidence: null,
         enrichment_source: null,
+        style_family: null,
       };
 
       mockDatabase.getFirstAsync.mockResolvedValue(mockBeer);
@@ -502,7 +730,75 @@ describe('BeerRepository', () => {
     });
   });
 
+  describe('getByIds', () => {
+    it('should read the rows with the given IDs in one query', async () => {
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      mockDatabase.getAllAsync.mockResolvedValue([
+        { id: '1', brew_name: 'Test IPA', abv: 6.5 },
+        { id: '2', brew_name: 'Test Stout', abv: null },
+      ]);
+
+      const result = await createRepository().getByIds(['1', '2']);
+
+      expect(result.map(beer => [beer.id, beer.abv])).toEqual([
+        ['1', 6.5],
+        ['2', null],
+      ]);
+      expect(mockDatabase.getAllAsync).toHaveBeenCalledWith(
+        'SELECT * FROM allbeers WHERE id IN (?, ?)',
+        ['1', '2']
+      );
+    });
+
+    it('should split a long ID list into chunks', async () => {
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      mockDatabase.getAllAsync.mockResolvedValue([]);
+      const ids = Array.from({ length: 501 }, (_, i) => String(i));
+
+      await createRepository().getByIds(ids);
+
+      expect(mockDatabase.getAllAsync).toHaveBeenCalledTimes(2);
+      expect(mockDatabase.getAllAsync.mock.calls[1][1]).toEqual(['500']);
+    });
+
+    it('should not query for an empty ID list', async () => {
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+
+      await expect(createRepository().getByIds([])).resolves.toEqual([]);
+      expect(mockDatabase.getAllAsync).not.toHaveBeenCalled();
+    });
+
+    it('should filter out invalid rows', async () => {
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      mockDatabase.getAllAsync.mockResolvedValue([
+        { id: '1', brew_name: 'Test IPA' },
+        { brew_name: 'No ID' },
+      ]);
+
+      const result = await createRepository().getByIds(['1']);
+
+      expect(result.map(beer => beer.id)).toEqual(['1']);
+    });
+  });
+
   describe('search', () => {
+    // These cases cover the LIKE path, which search falls back to when the
+    // full-text index cannot be queried. The ranked path is covered below.
+    beforeEach(() => {
+      jest
+        .spyOn(beerSearchRepository, 'search')
+        .mockRejectedValue(new Error('no such table: beer_search'));
+      jest.spyOn(console, 'error').mockImplementation();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
     it('should search beers by name, brewer, style, and description', async () => {
       const mockDatabase = createMockDatabase();
       (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
@@ -523,6 +819,7 @@ describe('BeerRepository', () => {
           review_rating: undefined,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -557,6 +854,7 @@ describe('BeerRepository', () => {
           review_rating: undefined,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -644,6 +942,54 @@ describe('BeerRepository', () => {
     });
   });
 
+  describe('search with the full-text index', () => {
+    const row = (id: string, brewName: string) => ({
+      id,
+      brew_name: brewName,
+      container_type: null,
+      abv: null,
+      enrichment_confidence: null,
+      enrichment_source: null,
+      style_family: null,
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should return beers in relevance order, not table order', async () => {
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      jest.spyOn(beerSearchRepository, 'search').mockResolvedValue([
+        { beer_id: '2', snippet: '…roasted \u0002coffee\u0003 beans…', rank: -9 },
+        { beer_id: '1', snippet: '…\u0002coffee\u0003 finish…', rank: -2 },
+      ]);
+      mockDatabase.getAllAsync.mockResolvedValue([
+        row('1', 'Morning Porter'),
+        row('2', 'Java Stout'),
+      ]);
+
+      const result = await createRepository().search('coffee');
+
+      expect(result.map(beer => beer.id)).toEqual(['2', '1']);
+      expect(mockDatabase.getAllAsync).toHaveBeenCalledWith(
+        expect.stringContaining('id IN (?,?)'),
+        ['2', '1']
+      );
+    });
+
+    it('should not scan with LIKE when the index has no match', async () => {
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      jest.spyOn(beerSearchRepository, 'search').mockResolvedValue([]);
+
+      const result = await createRepository().search('kölsch');
+
+      expect(result).toEqual([]);
+      expect(mockDatabase.getAllAsync).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getByStyle', () => {
     it('should return beers matching the style', async () => {
       const mockDatabase = createMockDatabase();
@@ -665,6 +1011,7 @@ describe('BeerRepository', () => {
           review_rating: undefined,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
         {
           id: '2',
@@ -681,6 +1028,7 @@ describe('BeerRepository', () => {
           review_rating: undefined,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -752,6 +1100,7 @@ describe('BeerRepository', () => {
           review_rating: undefined,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
         {
           id: '2',
@@ -768,6 +1117,7 @@ describe('BeerRepository', () => {
           review_rating: undefined,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -839,6 +1189,7 @@ describe('BeerRepository', () => {
           review_rating: undefined,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
         {
           id: '2',
@@ -855,6 +1206,7 @@ describe('BeerRepository', () => {
           review_rating: undefined,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -940,6 +1292,7 @@ describe('BeerRepository', () => {
           container_type: 'pint',
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -963,6 +1316,7 @@ describe('BeerRepository', () => {
           container_type: 'pint',
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -0,0 +1,78 @@
+/**
+ * Tests for BeerSearchRepository
+ */
+
+import { BeerSearchRepository } from '../BeerSearchRepository';
+import * as connection from '../../connection';
+import { SNIPPET_MATCH_END, SNIPPET_MATCH_START } from '../../searchIndex';
+
+jest.mock('../../connection');
+
+describe('BeerSearchRepository', () => {
+  let getAllAsync: jest.Mock;
+  let getFirstAsync: jest.Mock;
+  let repository: BeerSearchRepository;
+
+  beforeEach(() => {
+    getAllAsync = jest.fn().mockResolvedValue([]);
+    getFirstAsync = jest.fn().mockResolvedValue(null);
+    (connection.getDatabase as jest.Mock).mockResolvedValue({ getAllAsync, getFirstAsync });
+    repository = new BeerSearchRepository();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('queries one source with a quoted prefix match, best rank first', async () => {
+    await repository.search('coffee stout', 'allbeers');
+
+    const [sql, params] = getAllAsync.mock.calls[0] as [string, unknown[]];
+    expect(sql).toContain('WHERE beer_search MATCH ? AND source = ?');
+    expect(sql).toContain('ORDER BY rank');
+    expect(params).toEqual([
+      SNIPPET_MATCH_START,
+      SNIPPET_MATCH_END,
+      '"coffee"* "stout"*',
+      'allbeers',
+      2000,
+    ]);
+  });
+
+  it('returns the hits as the index ranked them', async () => {
+    const hits = [
+      { beer_id: '7', snippet: 'x', rank: -4.2 },
+      { beer_id: '3', snippet: 'y', rank: -1.1 },
+    ];
+    getAllAsync.mockResolvedValue(hits);
+
+    await expect(repository.search('coffee', 'tasted')).resolves.toEqual(hits);
+  });
+
+  it('does not query when the text has no searchable words', async () => {
+    await expect(repository.search(' "" - ', 'allbeers')).resolves.toEqual([]);
+
+    expect(getAllAsync).not.toHaveBeenCalled();
+  });
+
+  it('propagates a missing index so callers can fall back', async () => {
+    getAllAsync.mockRejectedValue(new Error('no such table: beer_search'));
+
+    await expect(repository.search('coffee', 'allbeers')).rejects.toThrow(
+      'no such table: beer_search'
+    );
+  });
+
+  it('refuses a source whose index is marked stale, so callers fall back', async () => {
+    getFirstAsync.mockResolvedValue({ value: 'true' });
+
+    await expect(repository.search('coffee', 'tasted')).rejects.toThrow(
+      'beer_search index for tasted is stale'
+    );
+    expect(getFirstAsync).toHaveBeenCalledWith('SELECT value FROM preferences WHERE key = ?', [
+      'search_index_stale_tasted',
+    ]);
+    expect(getAllAsync).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for EnrichmentJobRepository
+ */
+
+import { EnrichmentJobRepository } from '../EnrichmentJobRepository';
+import * as connection from '../../connection';
+import { DatabaseContentionError } from '../../errors';
+
+jest.mock('../../connection');
+
+type MockDatabase = {
+  runAsync: jest.Mock;
+  getAllAsync: jest.Mock;
+  withTransactionAsync: jest.Mock;
+};
+
+function createMockDatabase(): MockDatabase {
+  return {
+    runAsync: jest.fn().mockResolvedValue({ changes: 1, lastInsertRowId: 1 }),
+    getAllAsync: jest.fn(),
+    withTransactionAsync: jest.fn(async (task: () => Promise<void>) => task()),
+  };
+}
+
+describe('EnrichmentJobRepository', () => {
+  let mockDatabase: MockDatabase;
+  let repository: EnrichmentJobRepository;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDatabase = createMockDatabase();
+    (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+    repository = new EnrichmentJobRepository();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('track', () => {
+    it('inserts each beer without replacing one already waiting', async () => {
+      await repository.track(['b1', 'b2'], 5000);
+
+      expect(mockDatabase.withTransactionAsync).toHaveBeenCalledTimes(1);
+      expect(mockDatabase.runAsync).toHaveBeenCalledTimes(2);
+      const [sql, params] = mockDatabase.runAsync.mock.calls[0];
+      expect(sql).toContain('INSERT OR IGNORE INTO enrichment_jobs');
+      expect(params).toEqual(['b1', 5000]);
+    });
+
+    it('skips empty ids and does nothing for an empty list', async () => {
+      await repository.track(['', '']);
+
+      expect(connection.getDatabase).not.toHaveBeenCalled();
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+
+    it('maps lock contention to DatabaseContentionError', async () => {
+      mockDatabase.withTransactionAsync.mockRejectedValueOnce(new Error('database is locked'));
+
+      await expect(repository.track(['b1'])).rejects.toBeInstanceOf(DatabaseContentionError);
+    });
+  });
+
+  describe('getAll', () => {
+    it('returns valid rows as jobs, oldest first, and drops invalid ones', async () => {
+      mockDatabase.getAllAsync.mockResolvedValueOnce([
+        { beer_id: 'b1', requested_at: 1000, attempts: 2, last_attempt_at: 3000 },
+        { beer_id: 'b2', requested_at: 2000, attempts: 0, last_attempt_at: null },
+        { beer_id: '', requested_at: 2000, attempts: 0, last_attempt_at: null },
+      ]);
+
+      const jobs = await repository.getAll();
+
+      expect(mockDatabase.getAllAsync.mock.calls[0][0]).toContain('ORDER BY requested_at ASC');
+      expect(jobs).toEqual([
+        { beer_id: 'b1', requested_at: 1000, attempts: 2, last_attempt_at: 3000 },
+        { beer_id: 'b2', requested_at: 2000, attempts: 0, last_attempt_at: null },
+      ]);
+    });
+
+    it('propagates database errors', async () => {
+      mockDatabase.getAllAsync.mockRejectedValueOnce(new Error('no such table: enrichment_jobs'));
+
+      await expect(repository.getAll()).rejects.toThrow('no such table');
+      expect(console.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('recordAttempt', () => {
+    it('counts an attempt for each beer', async () => {
+      await repository.recordAttempt(['b1', 'b2'], 7000);
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledTimes(2);
+      const [sql, params] = mockDatabase.runAsync.mock.calls[1];
+      expect(sql).toContain('attempts = attempts + 1');
+      expect(params).toEqual([7000, 'b2']);
+    });
+
+    it('does nothing for an empty list', async () => {
+      await repository.recordAttempt([]);
+
+      expect(connection.getDatabase).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('deletes each beer', async () => {
+      await repository.remove(['b1']);
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        'DELETE FROM enrichment_jobs WHERE beer_id = ?',
+        ['b1']
+      );
+    });
+  });
+
+  describe('removeExpired', () => {
+    it('deletes jobs past either budget and returns how many', async () => {
+      mockDatabase.runAsync.mockResolvedValueOnce({ changes: 3, lastInsertRowId: 0 });
+
+      const removed = await repository.removeExpired(20, 9000);
+
+      expect(removed).toBe(3);
+      const [sql, params] = mockDatabase.runAsync.mock.calls[0];
+      expect(sql).toContain('attempts >= ? OR requested_at < ?');
+      expect(params).toEqual([20, 9000]);
+    });
+  });
+});
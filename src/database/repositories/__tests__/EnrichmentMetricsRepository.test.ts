@@ -0,0 +1,140 @@
+/**
+ * Tests for EnrichmentMetricsRepository
+ */
+
+import { EnrichmentMetricsRepository } from '../EnrichmentMetricsRepository';
+import * as connection from '../../connection';
+import { DatabaseContentionError } from '../../errors';
+
+jest.mock('../../connection');
+
+type MockDatabase = {
+  runAsync: jest.Mock;
+  getAllAsync: jest.Mock;
+  withTransactionAsync: jest.Mock;
+};
+
+function createMockDatabase(): MockDatabase {
+  return {
+    runAsync: jest.fn().mockResolvedValue({ changes: 1, lastInsertRowId: 1 }),
+    getAllAsync: jest.fn(),
+    withTransactionAsync: jest.fn(async (task: () => Promise<void>) => task()),
+  };
+}
+
+describe('EnrichmentMetricsRepository', () => {
+  let mockDatabase: MockDatabase;
+  let repository: EnrichmentMetricsRepository;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDatabase = createMockDatabase();
+    (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+    repository = new EnrichmentMetricsRepository();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('record', () => {
+    it('adds counts to their buckets and logs requests in one transaction', async () => {
+      await repository.record(
+        [{ bucket_start: 3600000, counts: { proxyRequests: 2, cacheHits: 0, proxySuccesses: 1 } }],
+        [{ request_id: 'req-1', endpoint: 'beers', outcome: 'ok', recorded_at: 3600500 }],
+        100
+      );
+
+      expect(mockDatabase.withTransactionAsync).toHaveBeenCalledTimes(1);
+      const calls = mockDatabase.runAsync.mock.calls as [string, unknown[]][];
+
+      // A zero count writes nothing; the others are added to what is there
+      const upserts = calls.filter(([sql]) => sql.includes('INSERT INTO enrichment_metrics'));
+      expect(upserts.map(([, params]) => params)).toEqual([
+        [3600000, 'proxyRequests', 2],
+        [3600000, 'proxySuccesses', 1],
+      ]);
+      expect(upserts[0][0]).toContain('SET count = count + excluded.count');
+
+      const inserts = calls.filter(([sql]) => sql.includes('INSERT INTO enrichment_requests'));
+      expect(inserts.map(([, params]) => params)).toEqual([['req-1', 'beers', 'ok', 3600500]]);
+
+      const [trimSql, trimParams] = calls[calls.length - 1];
+      expect(trimSql).toContain('DELETE FROM enrichment_requests WHERE id NOT IN');
+      expect(trimParams).toEqual([100]);
+    });
+
+    it('does nothing when there is nothing to record', async () => {
+      await repository.record([], [], 100);
+
+      expect(connection.getDatabase).not.toHaveBeenCalled();
+    });
+
+    it('maps lock contention to DatabaseContentionError', async () => {
+      mockDatabase.withTransactionAsync.mockRejectedValueOnce(new Error('database is locked'));
+
+      await expect(
+        repository.record([{ bucket_start: 0, counts: { proxyRequests: 1 } }], [], 100)
+      ).rejects.toBeInstanceOf(DatabaseContentionError);
+    });
+  });
+
+  describe('getTotalsSince', () => {
+    it('sums each counter since the cutoff, with zero for the rest', async () => {
+      mockDatabase.getAllAsync.mockResolvedValueOnce([
+        { metric: 'proxyRequests', total: 12 },
+        { metric: 'cacheHits', total: 4 },
+        { metric: 'retiredCounter', total: 9 },
+      ]);
+
+      const totals = await repository.getTotalsSince(1000);
+
+      const [sql, params] = mockDatabase.getAllAsync.mock.calls[0];
+      expect(sql).toContain('WHERE bucket_start >= ?');
+      expect(params).toEqual([1000]);
+      expect(totals).toEqual({
+        proxyRequests: 12,
+        proxySuccesses: 0,
+        proxyFailures: 0,
+        rateLimitedRequests: 0,
+        fallbackCount: 0,
+        enrichedBeerCount: 0,
+        unenrichedBeerCount: 0,
+        cacheHits: 4,
+      });
+    });
+  });
+
+  describe('getRecentRequests', () => {
+    it('returns valid rows newest first and drops invalid ones', async () => {
+      mockDatabase.getAllAsync.mockResolvedValueOnce([
+        { id: 2, request_id: null, endpoint: 'batch', outcome: 'timed_out', recorded_at: 2000 },
+        { id: 1, request_id: 'req-1', endpoint: 'beers', outcome: 'ok', recorded_at: 1000 },
+        { id: 0, request_id: 'req-0', endpoint: 'beers', outcome: 'exploded', recorded_at: 500 },
+      ]);
+
+      const requests = await repository.getRecentRequests(20);
+
+      const [sql, params] = mockDatabase.getAllAsync.mock.calls[0];
+      expect(sql).toContain('ORDER BY id DESC LIMIT ?');
+      expect(params).toEqual([20]);
+      expect(requests).toEqual([
+        { request_id: null, endpoint: 'batch', outcome: 'timed_out', recorded_at: 2000 },
+        { request_id: 'req-1', endpoint: 'beers', outcome: 'ok', recorded_at: 1000 },
+      ]);
+    });
+  });
+
+  describe('removeBucketsBefore', () => {
+    it('deletes the buckets older than the cutoff and returns how many', async () => {
+      mockDatabase.runAsync.mockResolvedValueOnce({ changes: 3 });
+
+      await expect(repository.removeBucketsBefore(5000)).resolves.toBe(3);
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        'DELETE FROM enrichment_metrics WHERE bucket_start < ?',
+        [5000]
+      );
+    });
+  });
+});
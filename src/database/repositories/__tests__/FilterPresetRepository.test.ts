@@ -0,0 +1,177 @@
+/**
+ * Tests for FilterPresetRepository
+ */
+
+import { FilterPresetRepository } from '../FilterPresetRepository';
+import * as connection from '../../connection';
+import { getPreference, setPreference } from '../../preferences';
+import { DEFAULT_FILTER_STATE, FilterPresetState } from '../../../utils/filterPresets';
+
+jest.mock('../../connection');
+jest.mock('../../preferences', () => ({
+  getPreference: jest.fn(),
+  setPreference: jest.fn().mockResolvedValue(undefined),
+}));
+
+type MockDatabase = {
+  withTransactionAsync: jest.Mock;
+  runAsync: jest.Mock;
+  getAllAsync: jest.Mock;
+};
+
+function createMockDatabase(): MockDatabase {
+  return {
+    withTransactionAsync: jest.fn(async (callback: () => Promise<void>) => await callback()),
+    runAsync: jest.fn().mockResolvedValue({ changes: 1 }),
+    getAllAsync: jest.fn(),
+  };
+}
+
+const strongDrafts: FilterPresetState = {
+  ...DEFAULT_FILTER_STATE,
+  containerFilter: 'draft',
+  sortBy: 'abv',
+  searchText: 'abv:>8',
+};
+
+describe('FilterPresetRepository', () => {
+  let mockDatabase: MockDatabase;
+  let repository: FilterPresetRepository;
+
+  beforeEach(() => {
+    mockDatabase = createMockDatabase();
+    (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+    (getPreference as jest.Mock).mockReset();
+    (setPreference as jest.Mock).mockClear();
+    repository = new FilterPresetRepository();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('save', () => {
+    it('upserts the preset under its list and trimmed name, with the state as JSON', async () => {
+      const saved = await repository.save('allbeers', '  Strong   drafts ', strongDrafts);
+
+      const [sql, params] = mockDatabase.runAsync.mock.calls[0];
+      expect(sql).toContain('INSERT OR REPLACE INTO filter_presets');
+      expect(params.slice(0, 3)).toEqual([
+        'allbeers',
+        'Strong drafts',
+        JSON.stringify(strongDrafts),
+      ]);
+      expect(saved).toEqual({
+        list: 'allbeers',
+        name: 'Strong drafts',
+        state: strongDrafts,
+        updated_at: params[3],
+      });
+    });
+
+    it('rejects a blank name without writing', async () => {
+      await expect(repository.save('allbeers', '   ', strongDrafts)).rejects.toThrow(
+        'Preset name must not be empty'
+      );
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('saveMany', () => {
+    it('writes every preset inside one transaction', async () => {
+      let transactionsOpen = 0;
+      const writesInTransaction: number[] = [];
+      mockDatabase.withTransactionAsync.mockImplementation(
+        async (callback: () => Promise<void>) => {
+          transactionsOpen += 1;
+          await callback();
+          transactionsOpen -= 1;
+        }
+      );
+      mockDatabase.runAsync.mockImplementation(async () => {
+        writesInTransaction.push(transactionsOpen);
+        return { changes: 1 };
+      });
+
+      await repository.saveMany('beerfinder', [
+        { name: 'Strong drafts', state: strongDrafts },
+        { name: 'Cans', state: { ...DEFAULT_FILTER_STATE, containerFilter: 'cans' } },
+      ]);
+
+      expect(writesInTransaction).toEqual([1, 1]);
+    });
+
+    it('does nothing for an empty import', async () => {
+      expect(await repository.saveMany('allbeers', [])).toEqual([]);
+      expect(mockDatabase.withTransactionAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('delete', () => {
+    it('deletes by list and name', async () => {
+      await repository.delete('tasted', 'Favourites');
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        'DELETE FROM filter_presets WHERE list = ? AND name = ?',
+        ['tasted', 'Favourites']
+      );
+    });
+  });
+
+  describe('getByList', () => {
+    it('reads the list presets and drops rows whose state is unreadable', async () => {
+      mockDatabase.getAllAsync.mockResolvedValue([
+        { list: 'allbeers', name: 'Broken', state: 'not json', updated_at: 1 },
+        {
+          list: 'allbeers',
+          name: 'Strong drafts',
+          state: JSON.stringify(strongDrafts),
+          updated_at: 2,
+        },
+        { list: 'elsewhere', name: 'Stray', state: '{}', updated_at: 3 },
+      ]);
+
+      const presets = await repository.getByList('allbeers');
+
+      expect(mockDatabase.getAllAsync).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE list = ?'),
+        ['allbeers']
+      );
+      expect(presets).toEqual([
+        { list: 'allbeers', name: 'Strong drafts', state: strongDrafts, updated_at: 2 },
+      ]);
+    });
+
+    it('rethrows when the table cannot be read', async () => {
+      mockDatabase.getAllAsync.mockRejectedValue(new Error('no such table: filter_presets'));
+
+      await expect(repository.getByList('allbeers')).rejects.toThrow('no such table');
+    });
+  });
+
+  describe('last-used filters', () => {
+    it('stores each list under its own preference key', async () => {
+      await repository.setLastFilterState('beerfinder', strongDrafts);
+
+      expect(setPreference).toHaveBeenCalledWith(
+        'filter_state_beerfinder',
+        JSON.stringify(strongDrafts),
+        expect.any(String)
+      );
+    });
+
+    it('restores a stored state', async () => {
+      (getPreference as jest.Mock).mockResolvedValue(JSON.stringify(strongDrafts));
+
+      expect(await repository.getLastFilterState('allbeers')).toEqual(strongDrafts);
+      expect(getPreference).toHaveBeenCalledWith('filter_state_allbeers');
+    });
+
+    it.each([null, '', 'not json', '"draft"'])('reads %p as nothing to restore', async value => {
+      (getPreference as jest.Mock).mockResolvedValue(value);
+
+      expect(await repository.getLastFilterState('allbeers')).toBeNull();
+    });
+  });
+});
@@ -10,6 +10,7 @@ import { toNonEmpty } from '../../../api/fetchOutcome';
 import type { NonEmptyArray } from '../../../api/fetchOutcome';
 import { databaseLockManager } from '../../locks';
 import { DatabaseContentionError } from '../../errors';
+import { tastingHistoryRepository } from '../TastingHistoryRepository';
 
 // Mock the database connection module
 jest.mock('../../connection');
@@ -65,6 +66,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
         {
           id: '2',
@@ -77,6 +79,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -115,11 +118,40 @@ describe('MyBeersRepository', () => {
 
       // Should not insert any beers
       const insertCalls = mockDatabase.runAsync.mock.calls.filter((call: unknown[]) =>
-        (call[0] as string).includes('INSERT OR REPLACE')
+        (call[0] as string).includes('INSERT OR REPLACE INTO tasted_brew_current_round')
       );
       expect(insertCalls).toHaveLength(0);
     });
 
+    it('should leave personal beer notes alone on a full replace', async () => {
+      // beer_notes is keyed by beer id with no foreign key precisely so this
+      // replace cannot reach it. A statement naming it here would mean every
+      // refresh erases the user's ratings.
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      jest.spyOn(console, 'log').mockImplementation();
+
+      await createRepository().insertMany(
+        nel<BeerfinderWithContainerType>([
+          {
+            id: '1',
+            brew_name: 'Tasted IPA',
+            container_type: 'pint',
+            abv: null,
+            enrichment_confidence: null,
+            enrichment_source: null,
+            style_family: null,
+          },
+        ])
+      );
+
+      const statements = mockDatabase.runAsync.mock.calls.map(
+        (call: unknown[]) => call[0] as string
+      );
+      expect(statements).toContain('DELETE FROM tasted_brew_current_round');
+      expect(statements.some(sql => sql.includes('beer_notes'))).toBe(false);
+    });
+
     it('should filter out beers without IDs', async () => {
       const mockDatabase = createMockDatabase();
       (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
@@ -134,6 +166,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
         {
           id: '',
@@ -144,6 +177,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         } as BeerfinderWithContainerType,
         {
           id: '2',
@@ -154,6 +188,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -163,7 +198,7 @@ describe('MyBeersRepository', () => {
 
       // Should only insert the valid beers (2 beers)
       const insertCalls = mockDatabase.runAsync.mock.calls.filter((call: unknown[]) =>
-        (call[0] as string).includes('INSERT OR REPLACE')
+        (call[0] as string).includes('INSERT OR REPLACE INTO tasted_brew_current_round')
       );
 
       expect(insertCalls).toHaveLength(2);
@@ -189,6 +224,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         } as BeerfinderWithContainerType,
         {
           id: '',
@@ -198,6 +234,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         } as BeerfinderWithContainerType,
       ];
 
@@ -212,7 +249,7 @@ describe('MyBeersRepository', () => {
 
       // Should not insert any beers
       const insertCalls = mockDatabase.runAsync.mock.calls.filter((call: unknown[]) =>
-        (call[0] as string).includes('INSERT OR REPLACE')
+        (call[0] as string).includes('INSERT OR REPLACE INTO tasted_brew_current_round')
       );
       expect(insertCalls).toHaveLength(0);
     });
@@ -230,6 +267,7 @@ describe('MyBeersRepository', () => {
         abv: null,
         enrichment_confidence: null,
         enrichment_source: null,
+        style_family: null,
       }));
 
       mockDatabase.getFirstAsync.mockResolvedValue({ count: 0 });
@@ -241,7 +279,7 @@ describe('MyBeersRepository', () => {
 
       // Should insert all 50 beers
       const insertCalls = mockDatabase.runAsync.mock.calls.filter((call: unknown[]) =>
-        (call[0] as string).includes('INSERT OR REPLACE')
+        (call[0] as string).includes('INSERT OR REPLACE INTO tasted_brew_current_round')
       );
       expect(insertCalls).toHaveLength(50);
     });
@@ -258,6 +296,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
           // All optional Beerfinder fields missing
         },
       ];
@@ -286,6 +325,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -311,6 +351,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -346,6 +387,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
         {
           id: '2',
@@ -357,6 +399,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -408,6 +451,7 @@ describe('MyBeersRepository', () => {
         abv: null,
         enrichment_confidence: null,
         enrichment_source: null,
+        style_family: null,
       };
 
       mockDatabase.getFirstAsync.mockResolvedValue(mockBeer);
@@ -572,6 +616,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
         {
           id: '2',
@@ -581,6 +626,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -608,6 +654,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -638,6 +685,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -661,6 +709,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
       const original = new Error('no such table: tasted_brew_current_round');
@@ -742,6 +791,7 @@ describe('MyBeersRepository', () => {
             abv: null,
             enrichment_confidence: null,
             enrichment_source: null,
+            style_family: null,
           },
         ])
       );
@@ -781,6 +831,7 @@ describe('MyBeersRepository', () => {
             abv: null,
             enrichment_confidence: null,
             enrichment_source: null,
+            style_family: null,
           },
         ])
       );
@@ -842,6 +893,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
     }
@@ -999,6 +1051,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
         {
           id: '2',
@@ -1009,6 +1062,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -1018,7 +1072,7 @@ describe('MyBeersRepository', () => {
 
       expect(mockDatabase.withTransactionAsync).toHaveBeenCalled();
       const insertCalls = mockDatabase.runAsync.mock.calls.filter((call: unknown[]) =>
-        (call[0] as string).includes('INSERT OR REPLACE')
+        (call[0] as string).includes('INSERT OR REPLACE INTO tasted_brew_current_round')
       );
       expect(insertCalls).toHaveLength(2);
     });
@@ -1051,6 +1105,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         } as BeerfinderWithContainerType,
       ];
 
@@ -1076,6 +1131,7 @@ describe('MyBeersRepository', () => {
         abv: null,
         enrichment_confidence: null,
         enrichment_source: null,
+        style_family: null,
       }));
 
       mockDatabase.getFirstAsync.mockResolvedValue({ count: 0 });
@@ -1083,7 +1139,7 @@ describe('MyBeersRepository', () => {
       await repository.insertManyUnsafe(nel(beers));
 
       const insertCalls = mockDatabase.runAsync.mock.calls.filter((call: unknown[]) =>
-        (call[0] as string).includes('INSERT OR REPLACE')
+        (call[0] as string).includes('INSERT OR REPLACE INTO tasted_brew_current_round')
       );
       expect(insertCalls).toHaveLength(50);
     });
@@ -1102,6 +1158,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
         {
           id: '',
@@ -1111,6 +1168,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         } as BeerfinderWithContainerType,
         {
           id: '2',
@@ -1120,6 +1178,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -1128,7 +1187,7 @@ describe('MyBeersRepository', () => {
       await repository.insertManyUnsafe(nel(beers));
 
       const insertCalls = mockDatabase.runAsync.mock.calls.filter((call: unknown[]) =>
-        (call[0] as string).includes('INSERT OR REPLACE')
+        (call[0] as string).includes('INSERT OR REPLACE INTO tasted_brew_current_round')
       );
       expect(insertCalls).toHaveLength(2); // Only valid beers inserted
     });
@@ -1149,6 +1208,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -1173,6 +1233,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -1190,6 +1251,189 @@ describe('MyBeersRepository', () => {
   // up as a permanent hang at splash rather than a test failure.
   // ==========================================================================
 
+  describe('tasting history', () => {
+    const platedBeer: BeerfinderWithContainerType = {
+      id: '1',
+      brew_name: 'Tasted IPA',
+      brew_style: 'IPA',
+      roh_lap: '4',
+      tasted_date: '02/03/2025',
+      container_type: 'pint',
+      abv: null,
+      enrichment_confidence: null,
+      enrichment_source: null,
+      style_family: null,
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation();
+      jest.spyOn(console, 'error').mockImplementation();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    /** Record whether each tasting_history write ran inside the import transaction. */
+    function trackHistoryWrites(mockDatabase: MockDatabase): boolean[] {
+      let inTransaction = false;
+      const historyWrites: boolean[] = [];
+      mockDatabase.withTransactionAsync.mockImplementation(async (cb: () => Promise<void>) => {
+        inTransaction = true;
+        try {
+          await cb();
+        } finally {
+          inTransaction = false;
+        }
+      });
+      mockDatabase.runAsync.mockImplementation(async (sql: string) => {
+        if (sql.includes('tasting_history')) historyWrites.push(inTransaction);
+        return { changes: 1, lastInsertRowId: 0 };
+      });
+      return historyWrites;
+    }
+
+    it('appends to the history inside the insertMany transaction', async () => {
+      // Same transaction as the replace: a rolled-back import must not leave
+      // behind history for a list that was never committed.
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      const historyWrites = trackHistoryWrites(mockDatabase);
+
+      await createRepository().insertMany(nel([platedBeer]));
+
+      expect(historyWrites).toEqual([true]);
+    });
+
+    it('appends to the history inside the insertManyUnsafe transaction', async () => {
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      const historyWrites = trackHistoryWrites(mockDatabase);
+
+      await createRepository().insertManyUnsafe(nel([platedBeer]));
+
+      expect(historyWrites).toEqual([true]);
+    });
+
+    it('never deletes from the history on a full replace', async () => {
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+
+      await createRepository().insertMany(nel([platedBeer]));
+
+      const statements = mockDatabase.runAsync.mock.calls.map(
+        (call: unknown[]) => call[0] as string
+      );
+      expect(
+        statements.some(sql => sql.includes('tasting_history') && !sql.includes('INSERT OR IGNORE'))
+      ).toBe(false);
+    });
+
+    it('still imports the tasted list when the history table is missing', async () => {
+      // A device whose v10 migration failed has no tasting_history. Losing the
+      // history is acceptable; losing every refresh of the tasted list is not.
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      mockDatabase.runAsync.mockImplementation(async (sql: string) => {
+        if (sql.includes('tasting_history')) throw new Error('no such table: tasting_history');
+        return { changes: 1, lastInsertRowId: 0 };
+      });
+
+      await expect(createRepository().insertMany(nel([platedBeer]))).resolves.toBeUndefined();
+
+      const statements = mockDatabase.runAsync.mock.calls.map(
+        (call: unknown[]) => call[0] as string
+      );
+      expect(statements.some(sql => sql.includes('INSERT OR REPLACE'))).toBe(true);
+    });
+
+    it('records no history when the import itself fails', async () => {
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      mockDatabase.runAsync.mockImplementation(async (sql: string) => {
+        if (sql.includes('INSERT OR REPLACE')) throw new Error('constraint failed');
+        return { changes: 1, lastInsertRowId: 0 };
+      });
+      const appendSpy = jest.spyOn(tastingHistoryRepository, 'appendUnsafe');
+
+      await expect(createRepository().insertMany(nel([platedBeer]))).rejects.toThrow();
+
+      expect(appendSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('search index', () => {
+    const tastedBeer: BeerfinderWithContainerType = {
+      id: '7',
+      brew_name: 'Mocha Porter',
+      brewer: 'Test Brewery',
+      brew_style: 'Porter',
+      brew_description: '<p>Coffee &amp; chocolate</p>',
+      container_type: 'pint',
+      abv: null,
+      enrichment_confidence: null,
+      enrichment_source: null,
+      style_family: null,
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'log').mockImplementation();
+      jest.spyOn(console, 'error').mockImplementation();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('rebuilds the tasted index inside the insertMany transaction', async () => {
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      let inTransaction = false;
+      mockDatabase.withTransactionAsync.mockImplementation(async (cb: () => Promise<void>) => {
+        inTransaction = true;
+        try {
+          await cb();
+        } finally {
+          inTransaction = false;
+        }
+      });
+      const indexed: { params: unknown[]; inTransaction: boolean }[] = [];
+      const withPrepare = Object.assign(mockDatabase, {
+        prepareAsync: jest.fn(async () => ({
+          executeAsync: jest.fn(async (params: unknown[]) => {
+            indexed.push({ params, inTransaction });
+          }),
+          finalizeAsync: jest.fn().mockResolvedValue(undefined),
+        })),
+      });
+
+      await createRepository().insertMany(nel([tastedBeer]));
+
+      expect(withPrepare.runAsync).toHaveBeenCalledWith(
+        'DELETE FROM beer_search WHERE source = ?',
+        ['tasted']
+      );
+      expect(indexed).toEqual([
+        {
+          params: ['7', 'tasted', 'Mocha Porter', 'Test Brewery', 'Porter', 'Coffee & chocolate'],
+          inTransaction: true,
+        },
+      ]);
+    });
+
+    it('clears the tasted index along with the table', async () => {
+      const mockDatabase = createMockDatabase();
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+
+      await createRepository().clear();
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        'DELETE FROM beer_search WHERE source = ?',
+        ['tasted']
+      );
+    });
+  });
+
   describe('lock lifetime', () => {
     it('does not leave the lock held when the write throws', async () => {
       const mockDatabase = createMockDatabase();
@@ -1204,6 +1448,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -1228,6 +1473,7 @@ describe('MyBeersRepository', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: null,
         },
       ];
 
@@ -0,0 +1,200 @@
+/**
+ * OperationAttemptRepository Unit Tests
+ *
+ * Tests the SQLite persistence layer for attempts at queued operations.
+ */
+
+import { operationAttemptRepository } from '../OperationAttemptRepository';
+import { DatabaseContentionError } from '../../errors';
+
+// Create mock database
+const mockDb = {
+  runAsync: jest.fn(),
+  getAllAsync: jest.fn(),
+};
+
+// Mock the database connection
+jest.mock('../../connection', () => ({
+  getDatabase: jest.fn(() => Promise.resolve(mockDb)),
+}));
+
+describe('OperationAttemptRepository', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recordAttempt', () => {
+    it('should insert the attempt', async () => {
+      mockDb.runAsync.mockResolvedValue({ changes: 1 });
+
+      await operationAttemptRepository.recordAttempt({
+        operationId: 'op-1',
+        attemptedAt: 1000,
+        outcome: 'retry',
+        errorMessage: 'Network request failed',
+        errorClass: 'network',
+      });
+
+      expect(mockDb.runAsync).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO operation_attempts'),
+        ['op-1', 1000, 'retry', 'Network request failed', 'network']
+      );
+    });
+
+    it('should store an attempt with no error as nulls', async () => {
+      mockDb.runAsync.mockResolvedValue({ changes: 1 });
+
+      await operationAttemptRepository.recordAttempt({
+        operationId: 'op-1',
+        attemptedAt: 1000,
+        outcome: 'failed',
+      });
+
+      expect(mockDb.runAsync).toHaveBeenCalledWith(expect.any(String), [
+        'op-1',
+        1000,
+        'failed',
+        null,
+        null,
+      ]);
+    });
+  });
+
+  describe('getAttempts', () => {
+    it('should read the attempts of every operation asked for, oldest first', async () => {
+      mockDb.getAllAsync.mockResolvedValue([
+        {
+          id: 1,
+          operation_id: 'op-1',
+          attempted_at: 1000,
+          outcome: 'retry',
+          error_message: 'Network request failed',
+          error_class: 'network',
+        },
+        {
+          id: 2,
+          operation_id: 'op-2',
+          attempted_at: 2000,
+          outcome: 'failed',
+          error_message: null,
+          error_class: null,
+        },
+      ]);
+
+      const attempts = await operationAttemptRepository.getAttempts(['op-1', 'op-2']);
+
+      const [sql, params] = mockDb.getAllAsync.mock.calls[0];
+      expect(sql).toContain('WHERE operation_id IN (?, ?)');
+      expect(sql).toContain('ORDER BY attempted_at ASC');
+      expect(params).toEqual(['op-1', 'op-2']);
+      expect(attempts).toEqual([
+        {
+          operationId: 'op-1',
+          attemptedAt: 1000,
+          outcome: 'retry',
+          errorMessage: 'Network request failed',
+          errorClass: 'network',
+        },
+        {
+          operationId: 'op-2',
+          attemptedAt: 2000,
+          outcome: 'failed',
+          errorMessage: undefined,
+          errorClass: undefined,
+        },
+      ]);
+    });
+
+    it('should not query for no operations', async () => {
+      expect(await operationAttemptRepository.getAttempts([])).toEqual([]);
+      expect(mockDb.getAllAsync).not.toHaveBeenCalled();
+    });
+
+    it('should skip rows with an unknown outcome and drop an unknown error class', async () => {
+      mockDb.getAllAsync.mockResolvedValue([
+        {
+          id: 1,
+          operation_id: 'op-1',
+          attempted_at: 1000,
+          outcome: 'exploded',
+          error_message: null,
+          error_class: null,
+        },
+        {
+          id: 2,
+          operation_id: 'op-1',
+          attempted_at: 2000,
+          outcome: 'failed',
+          error_message: 'Nope',
+          error_class: 'cosmic-rays',
+        },
+      ]);
+
+      const attempts = await operationAttemptRepository.getAttempts(['op-1']);
+
+      expect(attempts).toEqual([
+        {
+          operationId: 'op-1',
+          attemptedAt: 2000,
+          outcome: 'failed',
+          errorMessage: 'Nope',
+          errorClass: undefined,
+        },
+      ]);
+    });
+
+    it('should return an empty list when the read fails', async () => {
+      mockDb.getAllAsync.mockRejectedValue(new Error('Database error'));
+
+      expect(await operationAttemptRepository.getAttempts(['op-1'])).toEqual([]);
+    });
+  });
+
+  describe('deleteForOperation', () => {
+    it("should delete the operation's attempts", async () => {
+      mockDb.runAsync.mockResolvedValue({ changes: 3 });
+
+      await operationAttemptRepository.deleteForOperation('op-1');
+
+      expect(mockDb.runAsync).toHaveBeenCalledWith(
+        'DELETE FROM operation_attempts WHERE operation_id = ?',
+        ['op-1']
+      );
+    });
+  });
+
+  describe('clearAll', () => {
+    it('should delete every attempt', async () => {
+      mockDb.runAsync.mockResolvedValue({ changes: 3 });
+
+      await operationAttemptRepository.clearAll();
+
+      expect(mockDb.runAsync).toHaveBeenCalledWith('DELETE FROM operation_attempts');
+    });
+  });
+});
+
+describe('OperationAttemptRepository under database contention', () => {
+  // Global fake timers (jest.setup.js) would stall the retry backoff.
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useRealTimers();
+  });
+
+  afterEach(() => {
+    jest.useFakeTimers();
+  });
+
+  it('retries a locked attempt write and maps a lasting lock to DatabaseContentionError', async () => {
+    mockDb.runAsync.mockRejectedValue(new Error('database is locked'));
+
+    await expect(
+      operationAttemptRepository.recordAttempt({
+        operationId: 'op-1',
+        attemptedAt: 1000,
+        outcome: 'retry',
+      })
+    ).rejects.toBeInstanceOf(DatabaseContentionError);
+    expect(mockDb.runAsync.mock.calls.length).toBeGreaterThan(1);
+  });
+});
@@ -65,6 +65,26 @@ describe('OperationQueueRepository', () => {
       );
     });
 
+    it('stores the scheduling fields, defaulting the priority to 0', async () => {
+      const operation: QueuedOperation = {
+        id: 'test-op-3',
+        type: OperationType.REFRESH_ALL_DATA,
+        payload: { dataType: 'all' },
+        timestamp: 1700000000000,
+        retryCount: 0,
+        status: OperationStatus.PENDING,
+        dependsOn: 'test-op-1',
+        idempotencyKey: 'refresh:all',
+        expiresAt: 1700003600000,
+      };
+
+      await operationQueueRepository.addOperation(operation);
+
+      const [sql, params] = mockDb.runAsync.mock.calls[0];
+      expect(sql).toContain('priority, depends_on, idempotency_key, expires_at');
+      expect(params.slice(-4)).toEqual([0, 'test-op-1', 'refresh:all', 1700003600000]);
+    });
+
     it('should serialize payload as JSON', async () => {
       const payload: CheckInBeerPayload = {
         beerId: 'beer-123',
@@ -93,6 +113,75 @@ describe('OperationQueueRepository', () => {
     });
   });
 
+  describe('addOperationOrUpdateWaiting', () => {
+    const refresh: QueuedOperation = {
+      id: 'op-new',
+      type: OperationType.REFRESH_ALL_DATA,
+      payload: { dataType: 'all' },
+      timestamp: 1700000000000,
+      retryCount: 0,
+      status: OperationStatus.PENDING,
+      dependsOn: 'op-check-in',
+    };
+
+    it('checks for a waiting operation and inserts in one statement', async () => {
+      mockDb.runAsync.mockResolvedValueOnce({ changes: 1 });
+
+      await expect(
+        operationQueueRepository.addOperationOrUpdateWaiting(refresh, 'refresh:all')
+      ).resolves.toBe('op-new');
+
+      expect(mockDb.runAsync).toHaveBeenCalledTimes(1);
+      const [sql, params] = mockDb.runAsync.mock.calls[0];
+      expect(sql).toContain('INSERT INTO operation_queue');
+      expect(sql).toContain('WHERE NOT EXISTS');
+      expect(params.slice(0, 2)).toEqual(['op-new', OperationType.REFRESH_ALL_DATA]);
+      expect(params.slice(-3)).toEqual(['refresh:all', OperationStatus.PENDING, 'refresh:all']);
+    });
+
+    it('gives the operation already waiting the new payload and dependency', async () => {
+      mockDb.runAsync.mockResolvedValueOnce({ changes: 0 }).mockResolvedValueOnce({ changes: 1 });
+      mockDb.getFirstAsync.mockResolvedValueOnce({ id: 'op-waiting' });
+
+      await expect(
+        operationQueueRepository.addOperationOrUpdateWaiting(refresh, 'refresh:all')
+      ).resolves.toBe('op-waiting');
+
+      expect(mockDb.runAsync).toHaveBeenCalledTimes(2);
+      const [sql, params] = mockDb.runAsync.mock.calls[1];
+      expect(sql).toContain('UPDATE operation_queue SET payload = ?, depends_on = ?');
+      expect(params).toEqual([
+        JSON.stringify({ dataType: 'all' }),
+        'op-check-in',
+        'op-waiting',
+        OperationStatus.PENDING,
+      ]);
+    });
+
+    it('inserts after all when the waiting operation finished in between', async () => {
+      mockDb.runAsync.mockResolvedValueOnce({ changes: 0 }).mockResolvedValueOnce({ changes: 1 });
+      mockDb.getFirstAsync.mockResolvedValueOnce(null);
+
+      await expect(
+        operationQueueRepository.addOperationOrUpdateWaiting(refresh, 'refresh:all')
+      ).resolves.toBe('op-new');
+      expect(mockDb.runAsync).toHaveBeenCalledTimes(2);
+    });
+
+    it('inserts after all when the waiting operation started running in between', async () => {
+      mockDb.runAsync
+        .mockResolvedValueOnce({ changes: 0 })
+        .mockResolvedValueOnce({ changes: 0 })
+        .mockResolvedValueOnce({ changes: 1 });
+      mockDb.getFirstAsync.mockResolvedValueOnce({ id: 'op-running' });
+
+      await expect(
+        operationQueueRepository.addOperationOrUpdateWaiting(refresh, 'refresh:all')
+      ).resolves.toBe('op-new');
+      expect(mockDb.runAsync).toHaveBeenCalledTimes(3);
+    });
+  });
+
   describe('rowToOperation - corrupted payload handling', () => {
     it('filters out rows with non-JSON payload from getPendingOperations', async () => {
       const mockRows = [
@@ -204,6 +293,16 @@ describe('OperationQueueRepository', () => {
       expect(operations[0].status).toBe(OperationStatus.PENDING);
     });
 
+    it('returns the highest priority first, then the order queued', async () => {
+      mockDb.getAllAsync.mockResolvedValue([]);
+
+      await operationQueueRepository.getPendingOperations();
+
+      expect(mockDb.getAllAsync.mock.calls[0][0]).toContain(
+        'ORDER BY priority DESC, timestamp ASC'
+      );
+    });
+
     it('should return empty array if no pending operations', async () => {
       mockDb.getAllAsync.mockResolvedValue([]);
 
@@ -291,6 +390,79 @@ describe('OperationQueueRepository', () => {
     });
   });
 
+  describe('markRetrying', () => {
+    it('claims an operation that is not already being retried', async () => {
+      mockDb.runAsync.mockResolvedValueOnce({ changes: 1 });
+
+      await expect(operationQueueRepository.markRetrying('op-1')).resolves.toBe(true);
+
+      const [sql, params] = mockDb.runAsync.mock.calls[0];
+      expect(sql).toContain('WHERE id = ? AND status != ?');
+      expect(params).toEqual([
+        OperationStatus.RETRYING,
+        expect.any(Number),
+        'op-1',
+        OperationStatus.RETRYING,
+      ]);
+    });
+
+    it('does not claim an operation another retry already has', async () => {
+      mockDb.runAsync.mockResolvedValueOnce({ changes: 0 });
+
+      await expect(operationQueueRepository.markRetrying('op-1')).resolves.toBe(false);
+    });
+  });
+
+  describe('resetRetrying', () => {
+    it('puts every operation marked as retrying back in line', async () => {
+      mockDb.runAsync.mockResolvedValueOnce({ changes: 2 });
+
+      await expect(operationQueueRepository.resetRetrying()).resolves.toBe(2);
+
+      expect(mockDb.runAsync).toHaveBeenCalledWith(
+        'UPDATE operation_queue SET status = ? WHERE status = ?',
+        [OperationStatus.PENDING, OperationStatus.RETRYING]
+      );
+    });
+  });
+
+  describe('resubmit', () => {
+    it('puts a failed operation back in the queue with a fresh retry budget', async () => {
+      mockDb.runAsync.mockResolvedValueOnce({ changes: 1 });
+
+      await expect(operationQueueRepository.resubmit('op-1')).resolves.toBe(true);
+
+      const [sql, params] = mockDb.runAsync.mock.calls[0];
+      expect(sql).toContain('retry_count = 0');
+      expect(sql).toContain('expires_at = NULL');
+      expect(sql).toContain('WHERE id = ? AND status = ?');
+      expect(params).toEqual([OperationStatus.PENDING, null, 'op-1', OperationStatus.FAILED]);
+    });
+
+    it('replaces the payload when given one', async () => {
+      mockDb.runAsync.mockResolvedValueOnce({ changes: 1 });
+      const payload: CheckInBeerPayload = {
+        beerId: 'beer-2',
+        beerName: 'Edited Beer',
+        storeId: 'store-1',
+        storeName: 'Test Store',
+        memberId: 'member-1',
+      };
+
+      await operationQueueRepository.resubmit('op-1', payload);
+
+      const [sql, params] = mockDb.runAsync.mock.calls[0];
+      expect(sql).toContain('payload = COALESCE(?, payload)');
+      expect(params[1]).toBe(JSON.stringify(payload));
+    });
+
+    it('leaves an operation that has not failed alone', async () => {
+      mockDb.runAsync.mockResolvedValueOnce({ changes: 0 });
+
+      await expect(operationQueueRepository.resubmit('op-1')).resolves.toBe(false);
+    });
+  });
+
   describe('deleteOperation', () => {
     it('should delete operation by ID', async () => {
       await operationQueueRepository.deleteOperation('op-1');
@@ -397,6 +569,60 @@ describe('OperationQueueRepository', () => {
 
       expect(operation).toBeNull();
     });
+
+    it('reads the scheduling fields', async () => {
+      mockDb.getFirstAsync.mockResolvedValue({
+        id: 'op-2',
+        type: OperationType.REFRESH_ALL_DATA,
+        payload: JSON.stringify({ dataType: 'all' }),
+        timestamp: 1700000000000,
+        retry_count: 0,
+        status: OperationStatus.PENDING,
+        error_message: null,
+        last_retry_timestamp: null,
+        priority: -1,
+        depends_on: 'op-1',
+        idempotency_key: null,
+        expires_at: 1700003600000,
+      });
+
+      const operation = await operationQueueRepository.getOperationById('op-2');
+
+      expect(operation).toMatchObject({
+        priority: -1,
+        dependsOn: 'op-1',
+        expiresAt: 1700003600000,
+      });
+      expect(operation?.idempotencyKey).toBeUndefined();
+    });
+  });
+
+  describe('getOperationByIdempotencyKey', () => {
+    it('looks the operation up by its key', async () => {
+      mockDb.getFirstAsync.mockResolvedValue({
+        id: 'op-1',
+        type: OperationType.REFRESH_ALL_DATA,
+        payload: JSON.stringify({ dataType: 'all' }),
+        timestamp: 1700000000000,
+        retry_count: 0,
+        status: OperationStatus.PENDING,
+        idempotency_key: 'refresh:all',
+      });
+
+      const operation = await operationQueueRepository.getOperationByIdempotencyKey('refresh:all');
+
+      expect(mockDb.getFirstAsync).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE idempotency_key = ?'),
+        ['refresh:all']
+      );
+      expect(operation?.id).toBe('op-1');
+    });
+
+    it('returns null when no operation has the key', async () => {
+      mockDb.getFirstAsync.mockResolvedValue(null);
+
+      await expect(operationQueueRepository.getOperationByIdempotencyKey('k')).resolves.toBeNull();
+    });
   });
 
   describe('deleteSuccessfulOperations', () => {
@@ -0,0 +1,102 @@
+/**
+ * Tests for RefreshLogRepository
+ */
+
+import { RefreshLogRepository } from '../RefreshLogRepository';
+import * as connection from '../../connection';
+import { DatabaseContentionError } from '../../errors';
+import { MAX_REFRESH_LOG_ENTRIES, skippedSource } from '@/src/utils/refreshLog';
+
+jest.mock('../../connection');
+
+type MockDatabase = {
+  runAsync: jest.Mock;
+  getAllAsync: jest.Mock;
+  withTransactionAsync: jest.Mock;
+};
+
+function createMockDatabase(): MockDatabase {
+  return {
+    runAsync: jest.fn().mockResolvedValue({ changes: 1, lastInsertRowId: 1 }),
+    getAllAsync: jest.fn(),
+    withTransactionAsync: jest.fn(async (task: () => Promise<void>) => task()),
+  };
+}
+
+const sources = [skippedSource('allBeers', 'waiting-for-wifi')];
+
+describe('RefreshLogRepository', () => {
+  let mockDatabase: MockDatabase;
+  let repository: RefreshLogRepository;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDatabase = createMockDatabase();
+    (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+    repository = new RefreshLogRepository();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('record', () => {
+    it('stores the run and prunes the log in one transaction', async () => {
+      await repository.record({ trigger: 'focus', started_at: 5000, duration_ms: 120, sources });
+
+      expect(mockDatabase.withTransactionAsync).toHaveBeenCalledTimes(1);
+      const [[insertSql, insertParams], [pruneSql, pruneParams]] = mockDatabase.runAsync.mock
+        .calls as [string, unknown[]][];
+      expect(insertSql).toContain('INSERT INTO refresh_log');
+      expect(insertParams).toEqual(['focus', 5000, 120, JSON.stringify(sources)]);
+      expect(pruneSql).toContain('DELETE FROM refresh_log WHERE id NOT IN');
+      expect(pruneParams).toEqual([MAX_REFRESH_LOG_ENTRIES]);
+    });
+
+    it('maps lock contention to DatabaseContentionError', async () => {
+      mockDatabase.withTransactionAsync.mockRejectedValueOnce(new Error('database is locked'));
+
+      await expect(
+        repository.record({ trigger: 'manual', started_at: 0, duration_ms: 0, sources: [] })
+      ).rejects.toBeInstanceOf(DatabaseContentionError);
+    });
+  });
+
+  describe('getRecent', () => {
+    it('reads the latest runs, skipping rows it cannot read', async () => {
+      mockDatabase.getAllAsync.mockResolvedValue([
+        {
+          id: 2,
+          trigger: 'manual',
+          started_at: 9000,
+          duration_ms: 800,
+          sources: JSON.stringify(sources),
+        },
+        { id: 1, trigger: 'cron', started_at: 1000, duration_ms: 10, sources: '[]' },
+      ]);
+
+      await expect(repository.getRecent(50)).resolves.toEqual([
+        { id: 2, trigger: 'manual', started_at: 9000, duration_ms: 800, sources },
+      ]);
+      expect(mockDatabase.getAllAsync).toHaveBeenCalledWith(
+        expect.stringContaining('ORDER BY id DESC LIMIT ?'),
+        [50]
+      );
+    });
+
+    it('rethrows a failed read', async () => {
+      mockDatabase.getAllAsync.mockRejectedValue(new Error('no such table: refresh_log'));
+
+      await expect(repository.getRecent(50)).rejects.toThrow('no such table');
+    });
+  });
+
+  describe('clear', () => {
+    it('removes every run', async () => {
+      await repository.clear();
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith('DELETE FROM refresh_log');
+    });
+  });
+});
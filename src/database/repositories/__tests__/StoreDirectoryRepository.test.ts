@@ -0,0 +1,148 @@
+/**
+ * Tests for StoreDirectoryRepository
+ */
+
+import { StoreDirectoryRepository } from '../StoreDirectoryRepository';
+import * as connection from '../../connection';
+import { databaseLockManager } from '../../locks';
+
+jest.mock('../../connection');
+
+type MockDatabase = {
+  runAsync: jest.Mock;
+  getAllAsync: jest.Mock;
+  withTransactionAsync: jest.Mock;
+};
+
+function createMockDatabase(): MockDatabase {
+  return {
+    runAsync: jest.fn().mockResolvedValue({ changes: 1, lastInsertRowId: 0 }),
+    getAllAsync: jest.fn(),
+    withTransactionAsync: jest.fn(async (work: () => Promise<void>) => work()),
+  };
+}
+
+const entry = {
+  store_id: ' 13879 ',
+  name: ' Sugar Land ',
+  city: ' ',
+  state: 'TX',
+  latitude: 29.6,
+  longitude: -95.6,
+};
+
+describe('StoreDirectoryRepository', () => {
+  let mockDatabase: MockDatabase;
+  let repository: StoreDirectoryRepository;
+
+  beforeEach(() => {
+    mockDatabase = createMockDatabase();
+    (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+    repository = new StoreDirectoryRepository();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getStored', () => {
+    it('returns valid rows and drops the rest', async () => {
+      mockDatabase.getAllAsync.mockResolvedValue([
+        {
+          store_id: '13879',
+          name: 'Sugar Land',
+          city: null,
+          state: 'TX',
+          latitude: null,
+          longitude: null,
+          source: 'user',
+          updated_at: 10,
+        },
+        { store_id: '13880', name: 'Bad', source: 'bundled', updated_at: 10 },
+      ]);
+
+      const stored = await repository.getStored();
+
+      expect(stored).toEqual([
+        {
+          store_id: '13879',
+          name: 'Sugar Land',
+          city: null,
+          state: 'TX',
+          latitude: null,
+          longitude: null,
+          source: 'user',
+          updated_at: 10,
+        },
+      ]);
+    });
+
+    it('rethrows database errors', async () => {
+      mockDatabase.getAllAsync.mockRejectedValue(new Error('boom'));
+
+      await expect(repository.getStored()).rejects.toThrow('boom');
+    });
+  });
+
+  describe('saveUserEntry', () => {
+    it('stores the trimmed entry as a user entry, under the lock', async () => {
+      const lockSpy = jest.spyOn(databaseLockManager, 'withDatabaseLock');
+
+      const saved = await repository.saveUserEntry(entry);
+
+      expect(lockSpy).toHaveBeenCalledWith(
+        'StoreDirectoryRepository.saveUserEntry',
+        expect.any(Function)
+      );
+      const [sql, params] = mockDatabase.runAsync.mock.calls[0];
+      expect(sql).toContain('INSERT OR REPLACE INTO store_directory');
+      expect(params).toEqual([
+        '13879',
+        'Sugar Land',
+        null,
+        'TX',
+        29.6,
+        -95.6,
+        'user',
+        saved.updated_at,
+      ]);
+      expect(saved).toMatchObject({ store_id: '13879', name: 'Sugar Land', source: 'user' });
+    });
+
+    it('refuses an entry without an id or a name', async () => {
+      await expect(repository.saveUserEntry({ ...entry, store_id: ' ' })).rejects.toThrow(
+        'Store ID is required'
+      );
+      await expect(repository.saveUserEntry({ ...entry, name: '' })).rejects.toThrow(
+        'Store name is required'
+      );
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeEntry', () => {
+    it('deletes the stored entry', async () => {
+      await repository.removeEntry('13879');
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        'DELETE FROM store_directory WHERE store_id = ?',
+        ['13879']
+      );
+    });
+  });
+
+  describe('replaceRemote', () => {
+    it('replaces the fetched entries in one transaction, leaving user entries', async () => {
+      await repository.replaceRemote([{ ...entry, store_id: '13880', name: 'Charlotte' }], 1234);
+
+      expect(mockDatabase.withTransactionAsync).toHaveBeenCalledTimes(1);
+      expect(mockDatabase.runAsync.mock.calls[0][0]).toBe(
+        "DELETE FROM store_directory WHERE source = 'remote'"
+      );
+      const [sql, params] = mockDatabase.runAsync.mock.calls[1];
+      expect(sql).toContain('INSERT OR IGNORE INTO store_directory');
+      expect(params).toEqual(['13880', 'Charlotte', ' ', 'TX', 29.6, -95.6, 'remote', 1234]);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Tests for StoreTaplistRepository
+ */
+
+import { StoreTaplistRepository } from '../StoreTaplistRepository';
+import * as connection from '../../connection';
+import { databaseLockManager } from '../../locks';
+
+jest.mock('../../connection');
+
+type MockDatabase = {
+  runAsync: jest.Mock;
+  getAllAsync: jest.Mock;
+  getFirstAsync: jest.Mock;
+};
+
+function createMockDatabase(): MockDatabase {
+  return {
+    runAsync: jest.fn().mockResolvedValue({ changes: 1, lastInsertRowId: 0 }),
+    getAllAsync: jest.fn(),
+    getFirstAsync: jest.fn(),
+  };
+}
+
+const pliny = { id: 'b1', brew_name: 'Pliny the Elder', brewer: 'Russian River', abv: 8 };
+
+describe('StoreTaplistRepository', () => {
+  let mockDatabase: MockDatabase;
+  let repository: StoreTaplistRepository;
+
+  beforeEach(() => {
+    mockDatabase = createMockDatabase();
+    (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+    repository = new StoreTaplistRepository();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('add', () => {
+    it('saves the store as compared, keeping a taplist already cached', async () => {
+      const store = await repository.add(' 13879 ', 'Sugar Land');
+
+      const [sql, params] = mockDatabase.runAsync.mock.calls[0];
+      expect(sql).toContain('INSERT INTO store_taplists');
+      expect(sql).toContain('ON CONFLICT(store_id) DO UPDATE SET');
+      expect(sql).not.toMatch(/beers = |etag = /);
+      expect(params).toEqual(['13879', 'Sugar Land', store.added_at]);
+      expect(store).toMatchObject({
+        store_id: '13879',
+        beers: [],
+        etag: null,
+        fetched_at: null,
+        compared: true,
+      });
+    });
+
+    it('names an unnamed store by its id', async () => {
+      const store = await repository.add('13879', '  ');
+
+      expect(store.store_name).toBe('Store 13879');
+    });
+
+    it('writes under the database lock', async () => {
+      const lockSpy = jest.spyOn(databaseLockManager, 'withDatabaseLock');
+
+      await repository.add('13879', 'Sugar Land');
+
+      expect(lockSpy).toHaveBeenCalledWith('StoreTaplistRepository.add', expect.any(Function));
+    });
+
+    it('rejects an empty store id without writing', async () => {
+      await expect(repository.add('  ', 'Nowhere')).rejects.toThrow(
+        'Store ID is required to compare a store'
+      );
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('stops comparing the store but keeps its cached taplist', async () => {
+      await repository.remove('13879');
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        'UPDATE store_taplists SET compared = 0 WHERE store_id = ?',
+        ['13879']
+      );
+    });
+  });
+
+  describe('saveTaplist', () => {
+    it('writes the beers and their ETag together', async () => {
+      await repository.saveTaplist('13879', [pliny], '"v2"', 5000);
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith(
+        'UPDATE store_taplists SET beers = ?, etag = ?, fetched_at = ? WHERE store_id = ?',
+        [JSON.stringify([pliny]), '"v2"', 5000, '13879']
+      );
+    });
+
+    it('stores a cleared ETag as none', async () => {
+      await repository.saveTaplist('13879', [pliny], '', 5000);
+
+      expect(mockDatabase.runAsync.mock.calls[0][1][1]).toBeNull();
+    });
+  });
+
+  describe('saveTaplistUnsafe', () => {
+    it('caches a store not compared without touching an existing row name', async () => {
+      await repository.saveTaplistUnsafe('13879', 'Sugar Land', [pliny], '"v2"', 5000);
+
+      const [sql, params] = mockDatabase.runAsync.mock.calls[0];
+      expect(sql).toContain('VALUES (?, ?, ?, ?, ?, ?, 0)');
+      expect(sql).toContain(
+        'beers = excluded.beers, etag = excluded.etag, fetched_at = excluded.fetched_at'
+      );
+      expect(sql).not.toContain('store_name = excluded');
+      expect(params.slice(0, 5)).toEqual([
+        '13879',
+        'Sugar Land',
+        JSON.stringify([pliny]),
+        '"v2"',
+        5000,
+      ]);
+    });
+
+    it('takes no lock', async () => {
+      const lockSpy = jest.spyOn(databaseLockManager, 'withDatabaseLock');
+
+      await repository.saveTaplistUnsafe('13879', 'Sugar Land', [pliny], null, null);
+
+      expect(lockSpy).not.toHaveBeenCalled();
+    });
+
+    it('logs and continues when the write fails', async () => {
+      mockDatabase.runAsync.mockRejectedValue(new Error('disk I/O error'));
+
+      await expect(
+        repository.saveTaplistUnsafe('13879', 'Sugar Land', [pliny], null, null)
+      ).resolves.toBeUndefined();
+      expect(console.error).toHaveBeenCalled();
+    });
+
+    it('rethrows lock contention', async () => {
+      mockDatabase.runAsync.mockRejectedValue(new Error('database is locked'));
+
+      await expect(
+        repository.saveTaplistUnsafe('13879', 'Sugar Land', [pliny], null, null)
+      ).rejects.toThrow('database is locked');
+    });
+  });
+
+  describe('getByStoreId', () => {
+    it('returns the store cache whether or not it is compared', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue({
+        store_id: '13879',
+        store_name: 'Sugar Land',
+        beers: JSON.stringify([pliny]),
+        etag: '"v2"',
+        fetched_at: 5000,
+        added_at: 1000,
+        compared: 0,
+      });
+
+      const store = await repository.getByStoreId('13879');
+
+      expect(store).toMatchObject({ store_id: '13879', etag: '"v2"', compared: false });
+      expect(store?.beers).toHaveLength(1);
+    });
+
+    it('returns null for a store with no cache', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue(null);
+
+      await expect(repository.getByStoreId('13879')).resolves.toBeNull();
+    });
+  });
+
+  describe('getCompared', () => {
+    it('returns the saved stores with their taplists, dropping unreadable beers', async () => {
+      mockDatabase.getAllAsync.mockResolvedValue([
+        {
+          store_id: '13879',
+          store_name: 'Sugar Land',
+          beers: JSON.stringify([pliny, { id: 'b2', brew_name: '' }]),
+          etag: '"v2"',
+          fetched_at: 5000,
+          added_at: 1000,
+        },
+        { store_id: '', store_name: 'No id', beers: '[]', added_at: 1000 },
+      ]);
+
+      const stores = await repository.getCompared();
+
+      expect(stores).toHaveLength(1);
+      expect(stores[0].beers.map(beer => beer.id)).toEqual(['b1']);
+      expect(stores[0].etag).toBe('"v2"');
+      expect(mockDatabase.getAllAsync.mock.calls[0][0]).toContain(
+        'WHERE compared = 1 ORDER BY added_at ASC'
+      );
+    });
+
+    it('reads an unreadable taplist as never fetched, without its ETag', async () => {
+      mockDatabase.getAllAsync.mockResolvedValue([
+        {
+          store_id: '13879',
+          store_name: 'Sugar Land',
+          beers: 'not json',
+          etag: '"v2"',
+          fetched_at: 5000,
+          added_at: 1000,
+        },
+      ]);
+
+      const [store] = await repository.getCompared();
+
+      expect(store).toMatchObject({ beers: [], etag: null, fetched_at: null });
+    });
+
+    it('propagates database errors', async () => {
+      mockDatabase.getAllAsync.mockRejectedValue(new Error('disk I/O error'));
+
+      await expect(repository.getCompared()).rejects.toThrow('disk I/O error');
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Tests for TaplistDiffRepository
+ */
+
+import { TaplistDiffRepository } from '../TaplistDiffRepository';
+import * as connection from '../../connection';
+import { databaseLockManager } from '../../locks';
+import { getPreference, setPreference } from '../../preferences';
+import { MAX_TAPLIST_DIFFS, DEFAULT_NEW_ARRIVAL_WINDOW_DAYS } from '@/src/utils/taplistDiff';
+
+jest.mock('../../connection');
+jest.mock('../../preferences', () => ({
+  getPreference: jest.fn(),
+  setPreference: jest.fn(),
+}));
+
+type MockDatabase = {
+  runAsync: jest.Mock;
+  getAllAsync: jest.Mock;
+};
+
+function createMockDatabase(): MockDatabase {
+  return {
+    runAsync: jest.fn().mockResolvedValue({ changes: 1, lastInsertRowId: 1 }),
+    getAllAsync: jest.fn(),
+  };
+}
+
+const arrival = { id: 'b1', brew_name: 'Pliny the Elder', brewer: 'Russian River', abv: 8 };
+
+describe('TaplistDiffRepository', () => {
+  let mockDatabase: MockDatabase;
+  let repository: TaplistDiffRepository;
+
+  beforeEach(() => {
+    mockDatabase = createMockDatabase();
+    (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+    (getPreference as jest.Mock).mockReset();
+    (setPreference as jest.Mock).mockReset();
+    repository = new TaplistDiffRepository();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('recordUnsafe', () => {
+    it('stores each list as JSON and prunes to the latest diffs', async () => {
+      await repository.recordUnsafe({ added: [arrival], removed: [], changed: [] }, 5000);
+
+      const [insertSql, insertParams] = mockDatabase.runAsync.mock.calls[0];
+      expect(insertSql).toContain('INSERT INTO taplist_diffs');
+      expect(insertParams).toEqual([5000, JSON.stringify([arrival]), '[]', '[]']);
+
+      const [pruneSql, pruneParams] = mockDatabase.runAsync.mock.calls[1];
+      expect(pruneSql).toContain('DELETE FROM taplist_diffs WHERE id NOT IN');
+      expect(pruneParams).toEqual([MAX_TAPLIST_DIFFS]);
+    });
+
+    it('takes no lock of its own', async () => {
+      // The caller holds the all-beers write lock; taking it again would deadlock.
+      const lockSpy = jest.spyOn(databaseLockManager, 'withDatabaseLock');
+
+      await repository.recordUnsafe({ added: [arrival], removed: [], changed: [] });
+
+      expect(lockSpy).not.toHaveBeenCalled();
+    });
+
+    it('logs and continues when the table is missing', async () => {
+      mockDatabase.runAsync.mockRejectedValueOnce(new Error('no such table: taplist_diffs'));
+
+      await expect(
+        repository.recordUnsafe({ added: [arrival], removed: [], changed: [] })
+      ).resolves.toBeUndefined();
+      expect(console.error).toHaveBeenCalled();
+    });
+
+    it('rethrows lock contention', async () => {
+      mockDatabase.runAsync.mockRejectedValueOnce(new Error('database is locked'));
+
+      await expect(
+        repository.recordUnsafe({ added: [arrival], removed: [], changed: [] })
+      ).rejects.toThrow('database is locked');
+    });
+  });
+
+  describe('getRecent', () => {
+    it('returns readable rows newest first and drops the rest', async () => {
+      mockDatabase.getAllAsync.mockResolvedValue([
+        {
+          id: 2,
+          recorded_at: 2000,
+          added: JSON.stringify([arrival]),
+          removed: '[]',
+          changed: '[]',
+        },
+        { id: 1, recorded_at: 1000, added: 'not json', removed: '[]', changed: '[]' },
+      ]);
+
+      const records = await repository.getRecent();
+
+      expect(records).toEqual([
+        { id: 2, recorded_at: 2000, added: [arrival], removed: [], changed: [] },
+      ]);
+      expect(mockDatabase.getAllAsync.mock.calls[0][0]).toContain('ORDER BY recorded_at DESC');
+    });
+
+    it('propagates database errors', async () => {
+      mockDatabase.getAllAsync.mockRejectedValue(new Error('disk I/O error'));
+
+      await expect(repository.getRecent()).rejects.toThrow('disk I/O error');
+    });
+  });
+
+  describe('NEW badge window', () => {
+    it('reads a stored window', async () => {
+      (getPreference as jest.Mock).mockResolvedValue('7');
+
+      await expect(repository.getNewArrivalWindowDays()).resolves.toBe(7);
+    });
+
+    it('falls back to the default for a value that is not an option', async () => {
+      (getPreference as jest.Mock).mockResolvedValue('5');
+
+      await expect(repository.getNewArrivalWindowDays()).resolves.toBe(
+        DEFAULT_NEW_ARRIVAL_WINDOW_DAYS
+      );
+    });
+
+    it('refuses to store a value that is not an option', async () => {
+      await expect(repository.setNewArrivalWindowDays(5)).rejects.toThrow(
+        'Unsupported NEW badge window: 5 days'
+      );
+      expect(setPreference).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('last Home visit', () => {
+    it('is null before the first visit', async () => {
+      (getPreference as jest.Mock).mockResolvedValue(null);
+
+      await expect(repository.getLastHomeVisit()).resolves.toBeNull();
+    });
+
+    it('round-trips through the preference', async () => {
+      await repository.setLastHomeVisit(123456);
+      (getPreference as jest.Mock).mockResolvedValue((setPreference as jest.Mock).mock.calls[0][1]);
+
+      await expect(repository.getLastHomeVisit()).resolves.toBe(123456);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for TaplistSnapshotRepository
+ */
+
+import { TaplistSnapshotRepository } from '../TaplistSnapshotRepository';
+import * as connection from '../../connection';
+import { databaseLockManager } from '../../locks';
+import { MAX_TAPLIST_SNAPSHOTS, packTaplist } from '@/src/utils/taplistSnapshot';
+
+jest.mock('../../connection');
+
+type MockDatabase = {
+  runAsync: jest.Mock;
+  getAllAsync: jest.Mock;
+  getFirstAsync: jest.Mock;
+};
+
+function createMockDatabase(): MockDatabase {
+  return {
+    runAsync: jest.fn().mockResolvedValue({ changes: 1, lastInsertRowId: 1 }),
+    getAllAsync: jest.fn(),
+    getFirstAsync: jest.fn(),
+  };
+}
+
+const beers = [
+  { id: 'b1', brew_name: 'Pliny the Elder', brewer: 'Russian River', abv: 8 },
+  { id: 'b2', brew_name: 'Lager' },
+];
+
+const snapshot = {
+  storeId: '13879',
+  fetchedAt: 5000,
+  source: 'live' as const,
+  etag: '"v1"',
+  beers,
+};
+
+describe('TaplistSnapshotRepository', () => {
+  let mockDatabase: MockDatabase;
+  let repository: TaplistSnapshotRepository;
+
+  beforeEach(() => {
+    mockDatabase = createMockDatabase();
+    (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+    repository = new TaplistSnapshotRepository();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('saveUnsafe', () => {
+    it('stores the packed taplist and prunes the store to its latest snapshots', async () => {
+      await repository.saveUnsafe(snapshot);
+
+      const [insertSql, insertParams] = mockDatabase.runAsync.mock.calls[0];
+      expect(insertSql).toContain('INSERT INTO taplist_snapshots');
+      expect(insertParams).toEqual(['13879', 5000, 'live', '"v1"', 2, packTaplist(beers)]);
+
+      const [pruneSql, pruneParams] = mockDatabase.runAsync.mock.calls[1];
+      expect(pruneSql).toContain('DELETE FROM taplist_snapshots WHERE store_id = ?');
+      expect(pruneParams).toEqual(['13879', '13879', MAX_TAPLIST_SNAPSHOTS]);
+    });
+
+    it('takes no lock of its own', async () => {
+      // The caller holds the all-beers write lock; taking it again would deadlock.
+      const lockSpy = jest.spyOn(databaseLockManager, 'withDatabaseLock');
+
+      await repository.saveUnsafe(snapshot);
+
+      expect(lockSpy).not.toHaveBeenCalled();
+    });
+
+    it('logs and continues when the table is missing', async () => {
+      mockDatabase.runAsync.mockRejectedValueOnce(new Error('no such table: taplist_snapshots'));
+
+      await expect(repository.saveUnsafe(snapshot)).resolves.toBeUndefined();
+      expect(console.error).toHaveBeenCalled();
+    });
+
+    it('rethrows lock contention', async () => {
+      mockDatabase.runAsync.mockRejectedValueOnce(new Error('database is locked'));
+
+      await expect(repository.saveUnsafe(snapshot)).rejects.toThrow('database is locked');
+    });
+  });
+
+  describe('getForStore', () => {
+    it("returns the store's valid snapshots newest first", async () => {
+      mockDatabase.getAllAsync.mockResolvedValue([
+        {
+          id: 2,
+          store_id: '13879',
+          fetched_at: 2000,
+          source: 'cache',
+          etag: null,
+          beer_count: 2,
+        },
+        { id: 1, store_id: '13879', fetched_at: 1000, source: 'carrier pigeon', beer_count: 1 },
+      ]);
+
+      const snapshots = await repository.getForStore('13879');
+
+      expect(snapshots).toEqual([
+        { id: 2, store_id: '13879', fetched_at: 2000, source: 'cache', etag: null, beer_count: 2 },
+      ]);
+      const [sql, params] = mockDatabase.getAllAsync.mock.calls[0];
+      expect(sql).toContain('ORDER BY fetched_at DESC');
+      expect(sql).not.toContain('beers FROM');
+      expect(params).toEqual(['13879']);
+    });
+
+    it('propagates database errors', async () => {
+      mockDatabase.getAllAsync.mockRejectedValue(new Error('disk I/O error'));
+
+      await expect(repository.getForStore('13879')).rejects.toThrow('disk I/O error');
+    });
+  });
+
+  describe('getBeers', () => {
+    it("unpacks the snapshot's taplist", async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue({ beers: packTaplist(beers) });
+
+      await expect(repository.getBeers(2)).resolves.toEqual([
+        { ...beers[0], enrichment_confidence: null, enrichment_source: null },
+        { ...beers[1], abv: null, enrichment_confidence: null, enrichment_source: null },
+      ]);
+      expect(mockDatabase.getFirstAsync.mock.calls[0][1]).toEqual([2]);
+    });
+
+    it('is null for a snapshot that was pruned', async () => {
+      mockDatabase.getFirstAsync.mockResolvedValue(null);
+
+      await expect(repository.getBeers(2)).resolves.toBeNull();
+    });
+  });
+});
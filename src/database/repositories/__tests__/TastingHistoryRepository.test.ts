@@ -0,0 +1,162 @@
+/**
+ * Tests for TastingHistoryRepository
+ */
+
+import { TastingHistoryRepository } from '../TastingHistoryRepository';
+import { BeerfinderWithContainerType } from '../../../types/beer';
+import * as connection from '../../connection';
+import { databaseLockManager } from '../../locks';
+
+jest.mock('../../connection');
+
+type MockDatabase = {
+  runAsync: jest.Mock;
+  getAllAsync: jest.Mock;
+};
+
+function createMockDatabase(): MockDatabase {
+  return {
+    runAsync: jest.fn(async (_sql: string, params: unknown[]) => ({
+      changes: params.length / 7,
+      lastInsertRowId: 0,
+    })),
+    getAllAsync: jest.fn(),
+  };
+}
+
+function tastedBeer(id: string, overrides: Partial<BeerfinderWithContainerType> = {}) {
+  return {
+    id,
+    brew_name: `Beer ${id}`,
+    brewer: 'Test Brewery',
+    brew_style: 'IPA',
+    roh_lap: '3',
+    tasted_date: '01/15/2025',
+    container_type: null,
+    abv: null,
+    enrichment_confidence: null,
+    enrichment_source: null,
+    ...overrides,
+  } as BeerfinderWithContainerType;
+}
+
+describe('TastingHistoryRepository', () => {
+  let mockDatabase: MockDatabase;
+  let repository: TastingHistoryRepository;
+
+  beforeEach(() => {
+    mockDatabase = createMockDatabase();
+    (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+    repository = new TastingHistoryRepository();
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('appendUnsafe', () => {
+    it('inserts with INSERT OR IGNORE so a beer is recorded once per plate', async () => {
+      const appended = await repository.appendUnsafe([tastedBeer('b1')]);
+
+      const [sql, params] = mockDatabase.runAsync.mock.calls[0];
+      expect(sql).toContain('INSERT OR IGNORE INTO tasting_history');
+      expect(params.slice(0, 6)).toEqual([
+        'b1',
+        '3',
+        '01/15/2025',
+        'Beer b1',
+        'Test Brewery',
+        'IPA',
+      ]);
+      expect(typeof params[6]).toBe('number');
+      expect(appended).toBe(1);
+    });
+
+    it('skips beers that carry no plate number', async () => {
+      await repository.appendUnsafe([tastedBeer('b1'), tastedBeer('b2', { roh_lap: '' })]);
+
+      const [, params] = mockDatabase.runAsync.mock.calls[0];
+      expect(params).toHaveLength(7);
+      expect(params[0]).toBe('b1');
+    });
+
+    it('writes nothing when no beer can be attributed to a plate', async () => {
+      const appended = await repository.appendUnsafe([tastedBeer('b1', { roh_lap: undefined })]);
+
+      expect(appended).toBe(0);
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+
+    it('batches a full plate into several statements', async () => {
+      const plate = Array.from({ length: 120 }, (_, i) => tastedBeer(`b${i}`));
+
+      const appended = await repository.appendUnsafe(plate);
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledTimes(3);
+      expect(appended).toBe(120);
+    });
+
+    it('takes no lock of its own', async () => {
+      // The caller holds the import lock; taking it again here would deadlock.
+      const lockSpy = jest.spyOn(databaseLockManager, 'withDatabaseLock');
+
+      await repository.appendUnsafe([tastedBeer('b1')]);
+
+      expect(lockSpy).not.toHaveBeenCalled();
+    });
+
+    it('logs and continues when the table is missing', async () => {
+      mockDatabase.runAsync.mockRejectedValueOnce(new Error('no such table: tasting_history'));
+
+      await expect(repository.appendUnsafe([tastedBeer('b1')])).resolves.toBe(0);
+      expect(console.error).toHaveBeenCalled();
+    });
+
+    it('rethrows lock contention so the enclosing transaction rolls back', async () => {
+      mockDatabase.runAsync.mockRejectedValueOnce(new Error('database is locked'));
+
+      await expect(repository.appendUnsafe([tastedBeer('b1')])).rejects.toThrow(
+        'database is locked'
+      );
+    });
+  });
+
+  describe('getAll', () => {
+    it('returns valid rows and drops malformed ones', async () => {
+      mockDatabase.getAllAsync.mockResolvedValue([
+        {
+          beer_id: 'b1',
+          roh_lap: '2',
+          tasted_date: '03/01/2024',
+          brew_name: 'Old Pale',
+          brewer: null,
+          brew_style: 'Pale Ale',
+          recorded_at: 1000,
+        },
+        { beer_id: '', roh_lap: '2', recorded_at: 1000 },
+      ]);
+
+      const entries = await repository.getAll();
+
+      expect(entries).toEqual([
+        {
+          beer_id: 'b1',
+          roh_lap: '2',
+          tasted_date: '03/01/2024',
+          brew_name: 'Old Pale',
+          brewer: '',
+          brew_style: 'Pale Ale',
+          recorded_at: 1000,
+        },
+      ]);
+    });
+
+    it('propagates database errors', async () => {
+      mockDatabase.getAllAsync.mockRejectedValue(new Error('disk I/O error'));
+
+      await expect(repository.getAll()).rejects.toThrow('disk I/O error');
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for WishlistRepository
+ */
+
+import { WishlistRepository } from '../WishlistRepository';
+import * as connection from '../../connection';
+import { databaseLockManager } from '../../locks';
+
+jest.mock('../../connection');
+
+type MockDatabase = {
+  runAsync: jest.Mock;
+  getAllAsync: jest.Mock;
+};
+
+function createMockDatabase(): MockDatabase {
+  return {
+    runAsync: jest.fn().mockResolvedValue({ changes: 1, lastInsertRowId: 0 }),
+    getAllAsync: jest.fn(),
+  };
+}
+
+const pliny = {
+  id: 'b1',
+  brew_name: 'Pliny the Elder',
+  brewer: 'Russian River',
+  brew_style: 'Double IPA',
+};
+
+describe('WishlistRepository', () => {
+  let mockDatabase: MockDatabase;
+  let repository: WishlistRepository;
+
+  beforeEach(() => {
+    mockDatabase = createMockDatabase();
+    (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+    repository = new WishlistRepository();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('add', () => {
+    it('inserts the beer with its name, brewer and style, keeping an existing entry', async () => {
+      const entry = await repository.add(pliny);
+
+      const [sql, params] = mockDatabase.runAsync.mock.calls[0];
+      expect(sql).toContain('INSERT OR IGNORE INTO wishlist');
+      expect(params.slice(0, 4)).toEqual(['b1', 'Pliny the Elder', 'Russian River', 'Double IPA']);
+      expect(entry).toEqual({
+        beer_id: 'b1',
+        brew_name: 'Pliny the Elder',
+        brewer: 'Russian River',
+        brew_style: 'Double IPA',
+        added_at: params[4],
+        last_seen_on_tap: params[4],
+      });
+    });
+
+    it('writes under the database lock', async () => {
+      const lockSpy = jest.spyOn(databaseLockManager, 'withDatabaseLock');
+
+      await repository.add(pliny);
+
+      expect(lockSpy).toHaveBeenCalledWith('WishlistRepository.add', expect.any(Function));
+    });
+
+    it('rejects a beer with no id without writing', async () => {
+      await expect(repository.add({ ...pliny, id: '' })).rejects.toThrow(
+        'Beer ID is required to add to the wishlist'
+      );
+      expect(mockDatabase.runAsync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('deletes the entry by beer id', async () => {
+      await repository.remove('b1');
+
+      expect(mockDatabase.runAsync).toHaveBeenCalledWith('DELETE FROM wishlist WHERE beer_id = ?', [
+        'b1',
+      ]);
+    });
+  });
+
+  describe('getAll', () => {
+    it('returns valid rows and drops malformed ones', async () => {
+      mockDatabase.getAllAsync.mockResolvedValue([
+        {
+          beer_id: 'b1',
+          brew_name: 'Pliny the Elder',
+          brewer: null,
+          brew_style: 'Double IPA',
+          added_at: 2000,
+          last_seen_on_tap: null,
+        },
+        { beer_id: '', brew_name: 'No id', added_at: 1000 },
+      ]);
+
+      const entries = await repository.getAll();
+
+      expect(entries).toEqual([
+        {
+          beer_id: 'b1',
+          brew_name: 'Pliny the Elder',
+          brewer: '',
+          brew_style: 'Double IPA',
+          added_at: 2000,
+          last_seen_on_tap: null,
+        },
+      ]);
+      expect(mockDatabase.getAllAsync.mock.calls[0][0]).toContain('ORDER BY added_at DESC');
+    });
+
+    it('propagates database errors', async () => {
+      mockDatabase.getAllAsync.mockRejectedValue(new Error('disk I/O error'));
+
+      await expect(repository.getAll()).rejects.toThrow('disk I/O error');
+    });
+  });
+
+  describe('markOnTapUnsafe', () => {
+    it('stamps every wishlisted beer present in allbeers', async () => {
+      mockDatabase.runAsync.mockResolvedValue({ changes: 2, lastInsertRowId: 0 });
+
+      const found = await repository.markOnTapUnsafe();
+
+      const [sql, params] = mockDatabase.runAsync.mock.calls[0];
+      expect(sql).toContain('UPDATE wishlist SET last_seen_on_tap = ?');
+      expect(sql).toContain('SELECT id FROM allbeers');
+      expect(typeof params[0]).toBe('number');
+      expect(found).toBe(2);
+    });
+
+    it('takes no lock of its own', async () => {
+      // The caller holds the all-beers write lock; taking it again would deadlock.
+      const lockSpy = jest.spyOn(databaseLockManager, 'withDatabaseLock');
+
+      await repository.markOnTapUnsafe();
+
+      expect(lockSpy).not.toHaveBeenCalled();
+    });
+
+    it('logs and continues when the table is missing', async () => {
+      mockDatabase.runAsync.mockRejectedValueOnce(new Error('no such table: wishlist'));
+
+      await expect(repository.markOnTapUnsafe()).resolves.toBe(0);
+      expect(console.error).toHaveBeenCalled();
+    });
+
+    it('rethrows lock contention', async () => {
+      mockDatabase.runAsync.mockRejectedValueOnce(new Error('database is locked'));
+
+      await expect(repository.markOnTapUnsafe()).rejects.toThrow('database is locked');
+    });
+  });
+});
@@ -16,6 +16,7 @@ import { MyBeersRepository } from '../MyBeersRepository';
 import * as connection from '../../connection';
 import { databaseLockManager } from '../../locks';
 import { EnrichmentUpdate } from '../../../types/enrichment';
+import { DatabaseChange, subscribeToDatabaseChanges } from '../../changeEvents';
 
 // Mock dependencies
 jest.mock('../../connection');
@@ -258,6 +259,29 @@ describe('BeerRepository.updateEnrichmentData', () => {
       ]);
     });
 
+    test('should leave rows the user corrected alone', async () => {
+      const mockStatement = createMockStatement();
+      const mockDatabase = createMockDatabase(mockStatement);
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      setupLocks();
+      const repository = new BeerRepository();
+
+      mockStatement.executeAsync.mockResolvedValue({ changes: 0 });
+
+      await repository.updateEnrichmentData({
+        'beer-1': {
+          enriched_abv: 5.5,
+          enrichment_confidence: 0.9,
+          enrichment_source: 'perplexity',
+          brew_description: 'Test',
+        },
+      });
+
+      expect(mockDatabase.prepareAsync).toHaveBeenCalledWith(
+        expect.stringContaining("enrichment_source IS NOT 'manual'")
+      );
+    });
+
     test('should use COALESCE for ABV (preserve existing if null passed)', async () => {
       const mockStatement = createMockStatement();
       const mockDatabase = createMockDatabase(mockStatement);
@@ -491,6 +515,77 @@ describe('BeerRepository.updateEnrichmentData', () => {
       expect(mockStatement.finalizeAsync).toHaveBeenCalled();
     });
   });
+
+  // ============================================================================
+  // CHANGE EVENT TESTS
+  // ============================================================================
+
+  describe('Change Events', () => {
+    const enrichments: Record<string, EnrichmentUpdate> = {
+      'beer-1': {
+        enriched_abv: 5.5,
+        enrichment_confidence: 0.9,
+        enrichment_source: 'perplexity',
+        brew_description: null,
+      },
+      'beer-2': {
+        enriched_abv: 6,
+        enrichment_confidence: 0.9,
+        enrichment_source: 'perplexity',
+        brew_description: null,
+      },
+    };
+    let changes: DatabaseChange[];
+    let unsubscribe: () => void;
+
+    beforeEach(() => {
+      changes = [];
+      unsubscribe = subscribeToDatabaseChanges(change => changes.push(change));
+    });
+
+    afterEach(() => {
+      unsubscribe();
+    });
+
+    test('should announce the beers it updated, after the transaction', async () => {
+      const mockStatement = createMockStatement();
+      const mockDatabase = createMockDatabase(mockStatement);
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      setupLocks();
+      const repository = new BeerRepository();
+      let announcedInsideTransaction = false;
+      mockDatabase.withTransactionAsync.mockImplementation(
+        async (callback: () => Promise<void>) => {
+          await callback();
+          announcedInsideTransaction = changes.length > 0;
+        }
+      );
+
+      // beer-2 is not in the table
+      mockStatement.executeAsync
+        .mockResolvedValueOnce({ changes: 1 })
+        .mockResolvedValueOnce({ changes: 0 });
+
+      await repository.updateEnrichmentData(enrichments);
+
+      expect(announcedInsideTransaction).toBe(false);
+      expect(changes).toEqual([{ table: 'allbeers', kind: 'enrichment', ids: ['beer-1'] }]);
+    });
+
+    test('should announce nothing when the update fails', async () => {
+      const mockStatement = createMockStatement();
+      const mockDatabase = createMockDatabase(mockStatement);
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      setupLocks();
+      const repository = new BeerRepository();
+
+      mockStatement.executeAsync.mockRejectedValue(new Error('Database error'));
+
+      await expect(repository.updateEnrichmentData(enrichments)).rejects.toThrow('Database error');
+
+      expect(changes).toEqual([]);
+    });
+  });
 });
 
 // ============================================================================
@@ -618,6 +713,29 @@ describe('MyBeersRepository.updateEnrichmentData', () => {
       );
     });
 
+    test('should leave rows the user corrected alone', async () => {
+      const mockStatement = createMockStatement();
+      const mockDatabase = createMockDatabase(mockStatement);
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      setupLocks();
+      const repository = new MyBeersRepository();
+
+      mockStatement.executeAsync.mockResolvedValue({ changes: 0 });
+
+      await repository.updateEnrichmentData({
+        'beer-1': {
+          enriched_abv: 5.5,
+          enrichment_confidence: 0.9,
+          enrichment_source: 'perplexity',
+          brew_description: 'Test',
+        },
+      });
+
+      expect(mockDatabase.prepareAsync).toHaveBeenCalledWith(
+        expect.stringContaining("enrichment_source IS NOT 'manual'")
+      );
+    });
+
     test('should use same COALESCE pattern as BeerRepository', async () => {
       const mockStatement = createMockStatement();
       const mockDatabase = createMockDatabase(mockStatement);
@@ -706,4 +824,77 @@ describe('MyBeersRepository.updateEnrichmentData', () => {
       expect(databaseLockManager.isLocked()).toBe(false);
     });
   });
+
+  // ============================================================================
+  // CHANGE EVENT TESTS
+  // ============================================================================
+
+  describe('Change Events', () => {
+    const enrichments: Record<string, EnrichmentUpdate> = {
+      'beer-1': {
+        enriched_abv: 5.5,
+        enrichment_confidence: 0.9,
+        enrichment_source: 'perplexity',
+        brew_description: null,
+      },
+      'beer-2': {
+        enriched_abv: 6,
+        enrichment_confidence: 0.9,
+        enrichment_source: 'perplexity',
+        brew_description: null,
+      },
+    };
+    let changes: DatabaseChange[];
+    let unsubscribe: () => void;
+
+    beforeEach(() => {
+      changes = [];
+      unsubscribe = subscribeToDatabaseChanges(change => changes.push(change));
+    });
+
+    afterEach(() => {
+      unsubscribe();
+    });
+
+    test('should announce the beers it updated, after the transaction', async () => {
+      const mockStatement = createMockStatement();
+      const mockDatabase = createMockDatabase(mockStatement);
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      setupLocks();
+      const repository = new MyBeersRepository();
+      let announcedInsideTransaction = false;
+      mockDatabase.withTransactionAsync.mockImplementation(
+        async (callback: () => Promise<void>) => {
+          await callback();
+          announcedInsideTransaction = changes.length > 0;
+        }
+      );
+
+      // beer-2 is not in the table
+      mockStatement.executeAsync
+        .mockResolvedValueOnce({ changes: 1 })
+        .mockResolvedValueOnce({ changes: 0 });
+
+      await repository.updateEnrichmentData(enrichments);
+
+      expect(announcedInsideTransaction).toBe(false);
+      expect(changes).toEqual([
+        { table: 'tasted_brew_current_round', kind: 'enrichment', ids: ['beer-1'] },
+      ]);
+    });
+
+    test('should announce nothing when the update fails', async () => {
+      const mockStatement = createMockStatement();
+      const mockDatabase = createMockDatabase(mockStatement);
+      (connection.getDatabase as jest.Mock).mockResolvedValue(mockDatabase);
+      setupLocks();
+      const repository = new MyBeersRepository();
+
+      mockStatement.executeAsync.mockRejectedValue(new Error('Database error'));
+
+      await expect(repository.updateEnrichmentData(enrichments)).rejects.toThrow('Database error');
+
+      expect(changes).toEqual([]);
+    });
+  });
 });
@@ -19,6 +19,24 @@ import { migrateToVersion5 } from './migrations/migrateToV5';
 import { migrateToVersion6 } from './migrations/migrateToV6';
 import { migrateToVersion7 } from './migrations/migrateToV7';
 import { migrateToVersion8 } from './migrations/migrateToV8';
+import { migrateToVersion9 } from './migrations/migrateToV9';
+import { migrateToVersion10 } from './migrations/migrateToV10';
+import { migrateToVersion11 } from './migrations/migrateToV11';
+import { migrateToVersion12 } from './migrations/migrateToV12';
+import { migrateToVersion13 } from './migrations/migrateToV13';
+import { migrateToVersion14 } from './migrations/migrateToV14';
+import { migrateToVersion15 } from './migrations/migrateToV15';
+import { migrateToVersion16 } from './migrations/migrateToV16';
+import { migrateToVersion17 } from './migrations/migrateToV17';
+import { migrateToVersion18 } from './migrations/migrateToV18';
+import { migrateToVersion19 } from './migrations/migrateToV19';
+import { migrateToVersion20 } from './migrations/migrateToV20';
+import { migrateToVersion21 } from './migrations/migrateToV21';
+import { migrateToVersion22 } from './migrations/migrateToV22';
+import { migrateToVersion23 } from './migrations/migrateToV23';
+import { migrateToVersion24 } from './migrations/migrateToV24';
+import { migrateToVersion25 } from './migrations/migrateToV25';
+import { isSearchIndexUnsupportedError } from './searchIndex';
 
 /**
  * SQL statement to create the allbeers table
@@ -39,7 +57,8 @@ export const CREATE_ALLBEERS_TABLE = `
     container_type TEXT,
     abv REAL,
     enrichment_confidence REAL,
-    enrichment_source TEXT
+    enrichment_source TEXT,
+    style_family TEXT
   )
 `;
 
@@ -64,7 +83,8 @@ export const CREATE_TASTED_BREW_TABLE = `
     container_type TEXT,
     abv REAL,
     enrichment_confidence REAL,
-    enrichment_source TEXT
+    enrichment_source TEXT,
+    style_family TEXT
   )
 `;
 
@@ -105,7 +125,260 @@ export const CREATE_OPERATION_QUEUE_TABLE = `
     retry_count INTEGER DEFAULT 0,
     status TEXT DEFAULT 'pending',
     error_message TEXT,
-    last_retry_timestamp INTEGER
+    last_retry_timestamp INTEGER,
+    priority INTEGER NOT NULL DEFAULT 0,
+    depends_on TEXT,
+    idempotency_key TEXT,
+    expires_at INTEGER,
+    dedupe_key TEXT
+  )
+`;
+
+/**
+ * SQL statement to create the operation_attempts table
+ * One row per attempt at a queued operation, for the failed operations'
+ * timelines. Removed with the operation.
+ */
+export const CREATE_OPERATION_ATTEMPTS_TABLE = `
+  CREATE TABLE IF NOT EXISTS operation_attempts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    operation_id TEXT NOT NULL,
+    attempted_at INTEGER NOT NULL,
+    outcome TEXT NOT NULL,
+    error_message TEXT,
+    error_class TEXT
+  )
+`;
+
+/**
+ * SQL statement to create the beer_notes table
+ * Stores the user's own rating, tasting notes and flavor tags per beer id.
+ * Deliberately separate from tasted_brew_current_round, which every refresh
+ * empties and refills from the API.
+ */
+export const CREATE_BEER_NOTES_TABLE = `
+  CREATE TABLE IF NOT EXISTS beer_notes (
+    beer_id TEXT PRIMARY KEY,
+    rating INTEGER,
+    notes TEXT,
+    flavor_tags TEXT,
+    updated_at INTEGER NOT NULL
+  )
+`;
+
+/**
+ * SQL statement to create the tasting_history table
+ * Append-only record of every tasted beer per UFO Club plate (roh_lap), so a
+ * plate's history outlives the rollover that empties tasted_brew_current_round.
+ */
+export const CREATE_TASTING_HISTORY_TABLE = `
+  CREATE TABLE IF NOT EXISTS tasting_history (
+    beer_id TEXT NOT NULL,
+    roh_lap TEXT NOT NULL,
+    tasted_date TEXT,
+    brew_name TEXT,
+    brewer TEXT,
+    brew_style TEXT,
+    recorded_at INTEGER NOT NULL,
+    PRIMARY KEY (beer_id, roh_lap)
+  )
+`;
+
+/**
+ * SQL statement to create the filter_presets table
+ * Named filter and sort snapshots per beer list, saved by the user or imported
+ * from a teammate's export string. `state` is JSON; see filterPresets.ts.
+ */
+export const CREATE_FILTER_PRESETS_TABLE = `
+  CREATE TABLE IF NOT EXISTS filter_presets (
+    list TEXT NOT NULL,
+    name TEXT NOT NULL,
+    state TEXT NOT NULL,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (list, name)
+  )
+`;
+
+/**
+ * SQL statement to create the wishlist table
+ * Beers the user has starred to try, with the name, brewer and style they had
+ * when starred. `last_seen_on_tap` is stamped by fetchAndUpdateAllBeers.
+ */
+export const CREATE_WISHLIST_TABLE = `
+  CREATE TABLE IF NOT EXISTS wishlist (
+    beer_id TEXT PRIMARY KEY,
+    brew_name TEXT NOT NULL,
+    brewer TEXT,
+    brew_style TEXT,
+    added_at INTEGER NOT NULL,
+    last_seen_on_tap INTEGER
+  )
+`;
+
+/**
+ * SQL statement to create the taplist_diffs table
+ * What each taplist refresh added, removed and changed, as JSON arrays; the
+ * latest MAX_TAPLIST_DIFFS are kept. See taplistDiff.ts.
+ */
+export const CREATE_TAPLIST_DIFFS_TABLE = `
+  CREATE TABLE IF NOT EXISTS taplist_diffs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    recorded_at INTEGER NOT NULL,
+    added TEXT NOT NULL,
+    removed TEXT NOT NULL,
+    changed TEXT NOT NULL
+  )
+`;
+
+/**
+ * SQL statement to create the store_taplists table
+ * One cached taplist (a JSON array of beers) and proxy ETag per store other than
+ * the active one, whose taplist is allbeers under `all_beers_etag`. `compared`
+ * marks the stores saved for comparison (storeComparisonService.ts); the rest
+ * are stores switched away from (storeDirectoryService.ts).
+ */
+export const CREATE_STORE_TAPLISTS_TABLE = `
+  CREATE TABLE IF NOT EXISTS store_taplists (
+    store_id TEXT PRIMARY KEY,
+    store_name TEXT NOT NULL,
+    beers TEXT NOT NULL DEFAULT '[]',
+    etag TEXT,
+    fetched_at INTEGER,
+    added_at INTEGER NOT NULL,
+    compared INTEGER NOT NULL DEFAULT 1
+  )
+`;
+
+/**
+ * SQL statement to create the store_directory table
+ * Flying Saucer locations fetched from the proxy or entered by the user. The
+ * bundled directory is not stored; these rows are laid over it when the
+ * directory is read. See storeDirectory.ts.
+ */
+export const CREATE_STORE_DIRECTORY_TABLE = `
+  CREATE TABLE IF NOT EXISTS store_directory (
+    store_id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    city TEXT,
+    state TEXT,
+    latitude REAL,
+    longitude REAL,
+    source TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  )
+`;
+
+/**
+ * SQL statement to create the enrichment_jobs table
+ * Beers handed to the Worker for enrichment whose results have not come back
+ * yet, with when they were handed over and how often the app has asked since.
+ * See enrichmentJobService.ts.
+ */
+export const CREATE_ENRICHMENT_JOBS_TABLE = `
+  CREATE TABLE IF NOT EXISTS enrichment_jobs (
+    beer_id TEXT PRIMARY KEY,
+    requested_at INTEGER NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_attempt_at INTEGER
+  )
+`;
+
+/**
+ * SQL statement to create the beer_corrections table
+ * The user's own ABV, style and description for a beer, laid over the fetched
+ * row on every write to allbeers or tasted_brew_current_round. A null column
+ * leaves that field as fetched. See beerCorrections.ts.
+ */
+export const CREATE_BEER_CORRECTIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS beer_corrections (
+    beer_id TEXT PRIMARY KEY,
+    abv REAL,
+    brew_style TEXT,
+    brew_description TEXT,
+    updated_at INTEGER NOT NULL
+  )
+`;
+
+/**
+ * SQL statement to create the enrichment_metrics table
+ * The enrichment service's counters, summed per hour (`bucket_start` is the
+ * hour's start in epoch ms) so they outlive the app. Buckets older than
+ * METRICS_RETENTION_MS are dropped. See enrichmentDiagnosticsService.ts.
+ */
+export const CREATE_ENRICHMENT_METRICS_TABLE = `
+  CREATE TABLE IF NOT EXISTS enrichment_metrics (
+    bucket_start INTEGER NOT NULL,
+    metric TEXT NOT NULL,
+    count INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (bucket_start, metric)
+  )
+`;
+
+/**
+ * SQL statement to create the enrichment_requests table
+ * The latest MAX_LOGGED_REQUESTS requests to the Worker, with its request id
+ * and how each ended. See enrichmentDiagnosticsService.ts.
+ */
+export const CREATE_ENRICHMENT_REQUESTS_TABLE = `
+  CREATE TABLE IF NOT EXISTS enrichment_requests (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    request_id TEXT,
+    endpoint TEXT NOT NULL,
+    outcome TEXT NOT NULL,
+    recorded_at INTEGER NOT NULL
+  )
+`;
+
+/**
+ * SQL statement to create the taplist_snapshots table
+ * The last MAX_TAPLIST_SNAPSHOTS taplists written to allbeers for each store,
+ * for browsing one read-only from All Beers. `beers` is the taplist packed by
+ * `packTaplist` (src/utils/taplistSnapshot.ts); `source` is where it came from:
+ * the proxy's `live`/`cache`/`stale`, the direct `fallback`, or a `file`.
+ */
+export const CREATE_TAPLIST_SNAPSHOTS_TABLE = `
+  CREATE TABLE IF NOT EXISTS taplist_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    store_id TEXT NOT NULL,
+    fetched_at INTEGER NOT NULL,
+    source TEXT NOT NULL,
+    etag TEXT,
+    beer_count INTEGER NOT NULL,
+    beers TEXT NOT NULL
+  )
+`;
+
+/**
+ * SQL statement to create the refresh_log table
+ * The last MAX_REFRESH_LOG_ENTRIES refresh runs, for Settings > Sync History.
+ * `sources` is a JSON array of each source's part in the run (see
+ * `RefreshLogSource` in src/utils/refreshLog.ts).
+ */
+export const CREATE_REFRESH_LOG_TABLE = `
+  CREATE TABLE IF NOT EXISTS refresh_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    trigger TEXT NOT NULL,
+    started_at INTEGER NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    sources TEXT NOT NULL
+  )
+`;
+
+/**
+ * SQL statement to create the beer_search FTS5 table
+ * Full-text index over allbeers and tasted_brew_current_round (told apart by
+ * `source`), written by the repositories inside their own transactions. See
+ * searchIndex.ts.
+ */
+export const CREATE_BEER_SEARCH_TABLE = `
+  CREATE VIRTUAL TABLE IF NOT EXISTS beer_search USING fts5(
+    beer_id UNINDEXED,
+    source UNINDEXED,
+    brew_name,
+    brewer,
+    brew_style,
+    description,
+    tokenize = 'unicode61 remove_diacritics 2'
   )
 `;
 
@@ -181,6 +454,28 @@ export const setupTables = async (database: SQLiteDatabase): Promise<void> => {
           await database.execAsync(CREATE_REWARDS_TABLE);
           await database.execAsync(CREATE_PREFERENCES_TABLE);
           await database.execAsync(CREATE_OPERATION_QUEUE_TABLE);
+          await database.execAsync(CREATE_OPERATION_ATTEMPTS_TABLE);
+          await database.execAsync(CREATE_BEER_NOTES_TABLE);
+          await database.execAsync(CREATE_TASTING_HISTORY_TABLE);
+          await database.execAsync(CREATE_FILTER_PRESETS_TABLE);
+          await database.execAsync(CREATE_WISHLIST_TABLE);
+          await database.execAsync(CREATE_TAPLIST_DIFFS_TABLE);
+          await database.execAsync(CREATE_STORE_TAPLISTS_TABLE);
+          await database.execAsync(CREATE_STORE_DIRECTORY_TABLE);
+          await database.execAsync(CREATE_ENRICHMENT_JOBS_TABLE);
+          await database.execAsync(CREATE_BEER_CORRECTIONS_TABLE);
+          await database.execAsync(CREATE_ENRICHMENT_METRICS_TABLE);
+          await database.execAsync(CREATE_ENRICHMENT_REQUESTS_TABLE);
+          await database.execAsync(CREATE_TAPLIST_SNAPSHOTS_TABLE);
+          await database.execAsync(CREATE_REFRESH_LOG_TABLE);
+
+          // Optional: without FTS5 the lists keep their in-memory search
+          try {
+            await database.execAsync(CREATE_BEER_SEARCH_TABLE);
+          } catch (error) {
+            if (!isSearchIndexUnsupportedError(error)) throw error;
+            console.warn('[Database] FTS5 unavailable; skipping the beer_search index');
+          }
 
           // Create indexes for operation_queue table
           await database.execAsync(`
@@ -193,6 +488,21 @@ export const setupTables = async (database: SQLiteDatabase): Promise<void> => {
             ON operation_queue(timestamp);
           `);
 
+          await database.execAsync(`
+            CREATE UNIQUE INDEX IF NOT EXISTS idx_operation_queue_idempotency_key
+            ON operation_queue(idempotency_key);
+          `);
+
+          await database.execAsync(`
+            CREATE INDEX IF NOT EXISTS idx_operation_queue_dedupe_key
+            ON operation_queue(dedupe_key);
+          `);
+
+          await database.execAsync(`
+            CREATE INDEX IF NOT EXISTS idx_operation_attempts_operation_id
+            ON operation_attempts(operation_id);
+          `);
+
           console.log('[Database] Created operation_queue indexes');
 
           // Record initial schema version at current version (includes glass_type columns)
@@ -270,6 +580,108 @@ async function runMigrations(database: SQLiteDatabase, fromVersion: number): Pro
     await migrateToVersion8(database);
     console.log('Migration to version 8 complete');
   }
+
+  // Run migration to v9 (add beer_notes table)
+  if (fromVersion < 9) {
+    await migrateToVersion9(database);
+    console.log('Migration to version 9 complete');
+  }
+
+  // Run migration to v10 (add tasting_history table, seeded from the current round)
+  if (fromVersion < 10) {
+    await migrateToVersion10(database);
+    console.log('Migration to version 10 complete');
+  }
+
+  // Run migration to v11 (add beer_search full-text index, built from both beer tables)
+  if (fromVersion < 11) {
+    await migrateToVersion11(database);
+    console.log('Migration to version 11 complete');
+  }
+
+  // Run migration to v12 (add style_family column, backfilled from brew_style)
+  if (fromVersion < 12) {
+    await migrateToVersion12(database);
+    console.log('Migration to version 12 complete');
+  }
+
+  // Run migration to v13 (add filter_presets table)
+  if (fromVersion < 13) {
+    await migrateToVersion13(database);
+    console.log('Migration to version 13 complete');
+  }
+
+  // Run migration to v14 (add wishlist table)
+  if (fromVersion < 14) {
+    await migrateToVersion14(database);
+    console.log('Migration to version 14 complete');
+  }
+
+  // Run migration to v15 (add taplist_diffs table)
+  if (fromVersion < 15) {
+    await migrateToVersion15(database);
+    console.log('Migration to version 15 complete');
+  }
+
+  // Run migration to v16 (add store_taplists table)
+  if (fromVersion < 16) {
+    await migrateToVersion16(database);
+    console.log('Migration to version 16 complete');
+  }
+
+  // Run migration to v17 (add store_directory table and store_taplists.compared)
+  if (fromVersion < 17) {
+    await migrateToVersion17(database);
+    console.log('Migration to version 17 complete');
+  }
+
+  // Run migration to v18 (add enrichment_jobs table)
+  if (fromVersion < 18) {
+    await migrateToVersion18(database);
+    console.log('Migration to version 18 complete');
+  }
+
+  // Run migration to v19 (add beer_corrections table)
+  if (fromVersion < 19) {
+    await migrateToVersion19(database);
+    console.log('Migration to version 19 complete');
+  }
+
+  // Run migration to v20 (add enrichment_metrics and enrichment_requests tables)
+  if (fromVersion < 20) {
+    await migrateToVersion20(database);
+    console.log('Migration to version 20 complete');
+  }
+
+  // Run migration to v21 (add taplist_snapshots table)
+  if (fromVersion < 21) {
+    await migrateToVersion21(database);
+    console.log('Migration to version 21 complete');
+  }
+
+  // Run migration to v22 (add refresh_log table)
+  if (fromVersion < 22) {
+    await migrateToVersion22(database);
+    console.log('Migration to version 22 complete');
+  }
+
+  // Run migration to v23 (add operation_queue scheduling columns)
+  if (fromVersion < 23) {
+    await migrateToVersion23(database);
+    console.log('Migration to version 23 complete');
+  }
+
+  // Run migration to v24 (add operation_attempts table)
+  if (fromVersion < 24) {
+    await migrateToVersion24(database);
+    console.log('Migration to version 24 complete');
+  }
+
+  // Run migration to v25 (add operation_queue dedupe key)
+  if (fromVersion < 25) {
+    await migrateToVersion25(database);
+    console.log('Migration to version 25 complete');
+  }
 }
 
 /**
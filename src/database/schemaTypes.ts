@@ -17,11 +17,33 @@
 import { z } from 'zod';
 import {
   Beer,
+  BeerCorrection,
+  BeerNote,
   Beerfinder,
   BeerWithContainerType,
   BeerfinderWithContainerType,
+  MAX_PERSONAL_RATING,
+  TastingHistoryEntry,
+  WishlistEntry,
 } from '../types/beer';
 import { Reward, Preference } from '../types/database';
+import { isStyleFamily } from '../utils/styleTaxonomy';
+import {
+  FilterPreset,
+  FilterPresetState,
+  isFilterPresetList,
+  parseFilterPresetState,
+} from '../utils/filterPresets';
+import {
+  TaplistDiffRecord,
+  taplistChangeSchema,
+  taplistDiffBeerSchema,
+} from '../utils/taplistDiff';
+import { StoreTaplist } from '../utils/storeComparison';
+import { DirectoryStore } from '../utils/storeDirectory';
+import { EnrichmentJob, EnrichmentRequestRecord } from '../types/enrichment';
+import { TAPLIST_SNAPSHOT_SOURCES, TaplistSnapshot } from '../utils/taplistSnapshot';
+import { REFRESH_TRIGGERS, RefreshLogEntry, parseRefreshLogSources } from '../utils/refreshLog';
 
 // ============================================================================
 // AllBeers Table
@@ -45,7 +67,8 @@ import { Reward, Preference } from '../types/database';
  *   container_type TEXT,
  *   abv REAL,
  *   enrichment_confidence REAL,
- *   enrichment_source TEXT
+ *   enrichment_source TEXT,
+ *   style_family TEXT
  * )
  *
  * Required fields: id, brew_name (non-empty)
@@ -82,6 +105,9 @@ export const allBeersRowSchema = z.object({
   enrichment_source: z
     .union([z.literal('description'), z.literal('perplexity'), z.literal('manual'), z.null()])
     .optional(),
+  // Added in schema v12. A plain string, so a family this build does not know
+  // reads as null rather than failing the whole row.
+  style_family: z.string().nullable().optional(),
 });
 
 /**
@@ -147,6 +173,7 @@ export function allBeersRowToBeerWithContainerType(row: AllBeersRow): BeerWithCo
     // Enrichment fields (default to null if not present)
     enrichment_confidence: row.enrichment_confidence ?? null,
     enrichment_source: row.enrichment_source ?? null,
+    style_family: isStyleFamily(row.style_family) ? row.style_family : null,
   };
 }
 
@@ -174,7 +201,8 @@ export function allBeersRowToBeerWithContainerType(row: AllBeersRow): BeerWithCo
  *   container_type TEXT,
  *   abv REAL,
  *   enrichment_confidence REAL,
- *   enrichment_source TEXT
+ *   enrichment_source TEXT,
+ *   style_family TEXT
  * )
  *
  * Required fields: id, brew_name (non-empty)
@@ -209,6 +237,9 @@ export const tastedBrewRowSchema = z.object({
   enrichment_source: z
     .union([z.literal('description'), z.literal('perplexity'), z.literal('manual'), z.null()])
     .optional(),
+  // Added in schema v12. A plain string, so a family this build does not know
+  // reads as null rather than failing the whole row.
+  style_family: z.string().nullable().optional(),
 });
 
 /**
@@ -276,6 +307,7 @@ export function tastedBrewRowToBeerfinderWithContainerType(
     // Enrichment fields (default to null if not present)
     enrichment_confidence: row.enrichment_confidence ?? null,
     enrichment_source: row.enrichment_source ?? null,
+    style_family: isStyleFamily(row.style_family) ? row.style_family : null,
   };
 }
 
@@ -369,6 +401,193 @@ export function preferenceRowToPreference(row: PreferenceRow): Preference {
   };
 }
 
+// ============================================================================
+// Beer Notes Table
+// ============================================================================
+
+/**
+ * Zod schema for beer_notes table rows
+ *
+ * Matches SQL schema (v9):
+ * CREATE TABLE IF NOT EXISTS beer_notes (
+ *   beer_id TEXT PRIMARY KEY,
+ *   rating INTEGER,
+ *   notes TEXT,
+ *   flavor_tags TEXT,
+ *   updated_at INTEGER NOT NULL
+ * )
+ *
+ * Required fields: beer_id, updated_at. `flavor_tags` is a JSON array string.
+ */
+export const beerNoteRowSchema = z.object({
+  beer_id: z.string().min(1, 'beer_id must not be empty'),
+  rating: z.number().int().min(0).max(MAX_PERSONAL_RATING).nullable().optional(),
+  notes: z.string().nullable().optional(),
+  flavor_tags: z.string().nullable().optional(),
+  updated_at: z.number(),
+});
+
+/**
+ * TypeScript type for beer_notes table rows
+ */
+export type BeerNoteRow = z.infer<typeof beerNoteRowSchema>;
+
+/**
+ * Type guard to check if an object is a valid BeerNoteRow
+ */
+export function isBeerNoteRow(obj: unknown): obj is BeerNoteRow {
+  return beerNoteRowSchema.safeParse(obj).success;
+}
+
+/**
+ * Convert BeerNoteRow to BeerNote domain model
+ *
+ * A `flavor_tags` value that is not a JSON array of strings reads as no tags
+ * rather than failing the row: the rating and notes are still worth showing.
+ */
+export function beerNoteRowToBeerNote(row: BeerNoteRow): BeerNote {
+  let flavorTags: string[] = [];
+  if (row.flavor_tags) {
+    try {
+      const parsed: unknown = JSON.parse(row.flavor_tags);
+      if (Array.isArray(parsed)) {
+        flavorTags = parsed.filter((tag): tag is string => typeof tag === 'string');
+      }
+    } catch {
+      flavorTags = [];
+    }
+  }
+
+  return {
+    beer_id: row.beer_id,
+    rating: row.rating ?? null,
+    notes: row.notes || '',
+    flavor_tags: flavorTags,
+    updated_at: row.updated_at,
+  };
+}
+
+// ============================================================================
+// Tasting History Table
+// ============================================================================
+
+/**
+ * Zod schema for tasting_history table rows
+ *
+ * Matches SQL schema (v10):
+ * CREATE TABLE IF NOT EXISTS tasting_history (
+ *   beer_id TEXT NOT NULL,
+ *   roh_lap TEXT NOT NULL,
+ *   tasted_date TEXT,
+ *   brew_name TEXT,
+ *   brewer TEXT,
+ *   brew_style TEXT,
+ *   recorded_at INTEGER NOT NULL,
+ *   PRIMARY KEY (beer_id, roh_lap)
+ * )
+ *
+ * Required fields: beer_id, roh_lap (non-empty), recorded_at
+ */
+export const tastingHistoryRowSchema = z.object({
+  beer_id: z.string().min(1, 'beer_id must not be empty'),
+  roh_lap: z.string().min(1, 'roh_lap must not be empty'),
+  tasted_date: z.string().nullable().optional(),
+  brew_name: z.string().nullable().optional(),
+  brewer: z.string().nullable().optional(),
+  brew_style: z.string().nullable().optional(),
+  recorded_at: z.number(),
+});
+
+/**
+ * TypeScript type for tasting_history table rows
+ */
+export type TastingHistoryRow = z.infer<typeof tastingHistoryRowSchema>;
+
+/**
+ * Type guard to check if an object is a valid TastingHistoryRow
+ */
+export function isTastingHistoryRow(obj: unknown): obj is TastingHistoryRow {
+  return tastingHistoryRowSchema.safeParse(obj).success;
+}
+
+/**
+ * Convert TastingHistoryRow to TastingHistoryEntry domain model
+ */
+export function tastingHistoryRowToEntry(row: TastingHistoryRow): TastingHistoryEntry {
+  return {
+    beer_id: row.beer_id,
+    roh_lap: row.roh_lap,
+    tasted_date: row.tasted_date || '',
+    brew_name: row.brew_name || '',
+    brewer: row.brewer || '',
+    brew_style: row.brew_style || '',
+    recorded_at: row.recorded_at,
+  };
+}
+
+// ============================================================================
+// Filter Presets Table
+// ============================================================================
+
+/**
+ * Zod schema for filter_presets table rows
+ *
+ * Matches SQL schema (v13):
+ * CREATE TABLE IF NOT EXISTS filter_presets (
+ *   list TEXT NOT NULL,
+ *   name TEXT NOT NULL,
+ *   state TEXT NOT NULL,
+ *   updated_at INTEGER NOT NULL,
+ *   PRIMARY KEY (list, name)
+ * )
+ *
+ * Required fields: all. `list` must be a known list; `state` is a JSON object string.
+ */
+export const filterPresetRowSchema = z.object({
+  list: z.string().refine(isFilterPresetList, 'list must be a known beer list'),
+  name: z.string().min(1, 'name must not be empty'),
+  state: z.string(),
+  updated_at: z.number(),
+});
+
+/**
+ * TypeScript type for filter_presets table rows
+ */
+export type FilterPresetRow = z.infer<typeof filterPresetRowSchema>;
+
+/**
+ * Type guard to check if an object is a valid FilterPresetRow
+ */
+export function isFilterPresetRow(obj: unknown): obj is FilterPresetRow {
+  return filterPresetRowSchema.safeParse(obj).success;
+}
+
+/**
+ * Convert FilterPresetRow to FilterPreset domain model
+ *
+ * Returns null when `state` is not a JSON object, so the caller can drop the
+ * row. A state that parses but lacks fields gets the defaults for them.
+ */
+export function filterPresetRowToFilterPreset(row: FilterPresetRow): FilterPreset | null {
+  let state: FilterPresetState | null = null;
+  try {
+    state = parseFilterPresetState(JSON.parse(row.state));
+  } catch {
+    state = null;
+  }
+
+  if (!state || !isFilterPresetList(row.list)) {
+    return null;
+  }
+
+  return {
+    list: row.list,
+    name: row.name,
+    state,
+    updated_at: row.updated_at,
+  };
+}
+
 // ============================================================================
 // Utility Types and Schemas
 // ============================================================================
@@ -412,3 +631,520 @@ export const columnInfoSchema = z.object({
 
 export type ColumnInfo = z.infer<typeof columnInfoSchema>;
 
+// ============================================================================
+// Wishlist Table
+// ============================================================================
+
+/**
+ * Zod schema for wishlist table rows
+ *
+ * Matches SQL schema (v14):
+ * CREATE TABLE IF NOT EXISTS wishlist (
+ *   beer_id TEXT PRIMARY KEY,
+ *   brew_name TEXT NOT NULL,
+ *   brewer TEXT,
+ *   brew_style TEXT,
+ *   added_at INTEGER NOT NULL,
+ *   last_seen_on_tap INTEGER
+ * )
+ *
+ * Required fields: beer_id (non-empty), brew_name, added_at
+ */
+export const wishlistRowSchema = z.object({
+  beer_id: z.string().min(1, 'beer_id must not be empty'),
+  brew_name: z.string(),
+  brewer: z.string().nullable().optional(),
+  brew_style: z.string().nullable().optional(),
+  added_at: z.number(),
+  last_seen_on_tap: z.number().nullable().optional(),
+});
+
+/**
+ * TypeScript type for wishlist table rows
+ */
+export type WishlistRow = z.infer<typeof wishlistRowSchema>;
+
+/**
+ * Type guard to check if an object is a valid WishlistRow
+ */
+export function isWishlistRow(obj: unknown): obj is WishlistRow {
+  return wishlistRowSchema.safeParse(obj).success;
+}
+
+/**
+ * Convert WishlistRow to WishlistEntry domain model
+ */
+export function wishlistRowToEntry(row: WishlistRow): WishlistEntry {
+  return {
+    beer_id: row.beer_id,
+    brew_name: row.brew_name,
+    brewer: row.brewer || '',
+    brew_style: row.brew_style || '',
+    added_at: row.added_at,
+    last_seen_on_tap: row.last_seen_on_tap ?? null,
+  };
+}
+
+// ============================================================================
+// Taplist Diffs Table
+// ============================================================================
+
+/**
+ * Zod schema for taplist_diffs table rows
+ *
+ * Matches SQL schema (v15):
+ * CREATE TABLE IF NOT EXISTS taplist_diffs (
+ *   id INTEGER PRIMARY KEY AUTOINCREMENT,
+ *   recorded_at INTEGER NOT NULL,
+ *   added TEXT NOT NULL,
+ *   removed TEXT NOT NULL,
+ *   changed TEXT NOT NULL
+ * )
+ *
+ * Required fields: all. `added`, `removed` and `changed` are JSON array strings.
+ */
+export const taplistDiffRowSchema = z.object({
+  id: z.number(),
+  recorded_at: z.number(),
+  added: z.string(),
+  removed: z.string(),
+  changed: z.string(),
+});
+
+/**
+ * TypeScript type for taplist_diffs table rows
+ */
+export type TaplistDiffRow = z.infer<typeof taplistDiffRowSchema>;
+
+/**
+ * Type guard to check if an object is a valid TaplistDiffRow
+ */
+export function isTaplistDiffRow(obj: unknown): obj is TaplistDiffRow {
+  return taplistDiffRowSchema.safeParse(obj).success;
+}
+
+const taplistDiffBeersSchema = z.array(taplistDiffBeerSchema);
+const taplistChangesSchema = z.array(taplistChangeSchema);
+
+const parseJsonColumn = <T>(value: string, schema: z.ZodType<T>): T | null => {
+  try {
+    const parsed = schema.safeParse(JSON.parse(value));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Convert TaplistDiffRow to TaplistDiffRecord domain model
+ *
+ * Returns null when any of the JSON columns is unreadable, so the caller can
+ * drop the row rather than show half a diff.
+ */
+export function taplistDiffRowToRecord(row: TaplistDiffRow): TaplistDiffRecord | null {
+  const added = parseJsonColumn(row.added, taplistDiffBeersSchema);
+  const removed = parseJsonColumn(row.removed, taplistDiffBeersSchema);
+  const changed = parseJsonColumn(row.changed, taplistChangesSchema);
+
+  if (!added || !removed || !changed) {
+    return null;
+  }
+
+  return {
+    id: row.id,
+    recorded_at: row.recorded_at,
+    added,
+    removed,
+    changed,
+  };
+}
+
+// ============================================================================
+// Store Taplists Table
+// ============================================================================
+
+/**
+ * Zod schema for store_taplists table rows
+ *
+ * Matches SQL schema (v17):
+ * CREATE TABLE IF NOT EXISTS store_taplists (
+ *   store_id TEXT PRIMARY KEY,
+ *   store_name TEXT NOT NULL,
+ *   beers TEXT NOT NULL DEFAULT '[]',
+ *   etag TEXT,
+ *   fetched_at INTEGER,
+ *   added_at INTEGER NOT NULL,
+ *   compared INTEGER NOT NULL DEFAULT 1
+ * )
+ *
+ * Required fields: store_id (non-empty), store_name, beers, added_at. `beers`
+ * is a JSON array of allbeers-shaped rows.
+ */
+export const storeTaplistRowSchema = z.object({
+  store_id: z.string().min(1, 'store_id must not be empty'),
+  store_name: z.string(),
+  beers: z.string(),
+  etag: z.string().nullable().optional(),
+  fetched_at: z.number().nullable().optional(),
+  added_at: z.number(),
+  compared: z.number().optional(),
+});
+
+/**
+ * TypeScript type for store_taplists table rows
+ */
+export type StoreTaplistRow = z.infer<typeof storeTaplistRowSchema>;
+
+/**
+ * Type guard to check if an object is a valid StoreTaplistRow
+ */
+export function isStoreTaplistRow(obj: unknown): obj is StoreTaplistRow {
+  return storeTaplistRowSchema.safeParse(obj).success;
+}
+
+/**
+ * Convert StoreTaplistRow to StoreTaplist domain model
+ *
+ * Beers that fail allbeers validation are dropped one by one. An unreadable
+ * `beers` column reads as never fetched, with no ETag, so the next refresh
+ * downloads the taplist in full rather than revalidating data that is gone.
+ */
+export function storeTaplistRowToStoreTaplist(row: StoreTaplistRow): StoreTaplist {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(row.beers);
+  } catch {
+    parsed = null;
+  }
+
+  const rows: unknown[] | null = Array.isArray(parsed) ? parsed : null;
+  const readable = rows !== null;
+
+  return {
+    store_id: row.store_id,
+    store_name: row.store_name,
+    beers: (rows ?? []).filter(beer => isAllBeersRow(beer)).map(beer => allBeersRowToBeer(beer)),
+    etag: readable ? (row.etag ?? null) : null,
+    fetched_at: readable ? (row.fetched_at ?? null) : null,
+    added_at: row.added_at,
+    compared: row.compared !== 0,
+  };
+}
+
+// ============================================================================
+// Store Directory Table
+// ============================================================================
+
+/**
+ * Zod schema for store_directory table rows
+ *
+ * Matches SQL schema (v17):
+ * CREATE TABLE IF NOT EXISTS store_directory (
+ *   store_id TEXT PRIMARY KEY,
+ *   name TEXT NOT NULL,
+ *   city TEXT,
+ *   state TEXT,
+ *   latitude REAL,
+ *   longitude REAL,
+ *   source TEXT NOT NULL,
+ *   updated_at INTEGER NOT NULL
+ * )
+ *
+ * Required fields: store_id (non-empty), name (non-empty), source, updated_at.
+ * Only fetched and user-entered entries are stored, so `source` is never
+ * 'bundled'.
+ */
+export const storeDirectoryRowSchema = z.object({
+  store_id: z.string().min(1, 'store_id must not be empty'),
+  name: z.string().min(1, 'name must not be empty'),
+  city: z.string().nullable().optional(),
+  state: z.string().nullable().optional(),
+  latitude: z.number().nullable().optional(),
+  longitude: z.number().nullable().optional(),
+  source: z.enum(['remote', 'user']),
+  updated_at: z.number(),
+});
+
+/**
+ * TypeScript type for store_directory table rows
+ */
+export type StoreDirectoryRow = z.infer<typeof storeDirectoryRowSchema>;
+
+/**
+ * Type guard to check if an object is a valid StoreDirectoryRow
+ */
+export function isStoreDirectoryRow(obj: unknown): obj is StoreDirectoryRow {
+  return storeDirectoryRowSchema.safeParse(obj).success;
+}
+
+/**
+ * Convert StoreDirectoryRow to DirectoryStore domain model
+ */
+export function storeDirectoryRowToStore(row: StoreDirectoryRow): DirectoryStore {
+  return {
+    store_id: row.store_id,
+    name: row.name,
+    city: row.city ?? null,
+    state: row.state ?? null,
+    latitude: row.latitude ?? null,
+    longitude: row.longitude ?? null,
+    source: row.source,
+    updated_at: row.updated_at,
+  };
+}
+
+// ============================================================================
+// Enrichment Jobs Table
+// ============================================================================
+
+/**
+ * Zod schema for enrichment_jobs table rows
+ *
+ * Matches SQL schema (v18):
+ * CREATE TABLE IF NOT EXISTS enrichment_jobs (
+ *   beer_id TEXT PRIMARY KEY,
+ *   requested_at INTEGER NOT NULL,
+ *   attempts INTEGER NOT NULL DEFAULT 0,
+ *   last_attempt_at INTEGER
+ * )
+ *
+ * Required fields: beer_id (non-empty), requested_at, attempts
+ */
+export const enrichmentJobRowSchema = z.object({
+  beer_id: z.string().min(1, 'beer_id must not be empty'),
+  requested_at: z.number(),
+  attempts: z.number(),
+  last_attempt_at: z.number().nullable().optional(),
+});
+
+/**
+ * TypeScript type for enrichment_jobs table rows
+ */
+export type EnrichmentJobRow = z.infer<typeof enrichmentJobRowSchema>;
+
+/**
+ * Type guard to check if an object is a valid EnrichmentJobRow
+ */
+export function isEnrichmentJobRow(obj: unknown): obj is EnrichmentJobRow {
+  return enrichmentJobRowSchema.safeParse(obj).success;
+}
+
+/**
+ * Convert EnrichmentJobRow to EnrichmentJob domain model
+ */
+export function enrichmentJobRowToJob(row: EnrichmentJobRow): EnrichmentJob {
+  return {
+    beer_id: row.beer_id,
+    requested_at: row.requested_at,
+    attempts: row.attempts,
+    last_attempt_at: row.last_attempt_at ?? null,
+  };
+}
+
+// ============================================================================
+// Beer Corrections Table
+// ============================================================================
+
+/**
+ * Zod schema for beer_corrections table rows
+ *
+ * Matches SQL schema (v19):
+ * CREATE TABLE IF NOT EXISTS beer_corrections (
+ *   beer_id TEXT PRIMARY KEY,
+ *   abv REAL,
+ *   brew_style TEXT,
+ *   brew_description TEXT,
+ *   updated_at INTEGER NOT NULL
+ * )
+ *
+ * Required fields: beer_id (non-empty), updated_at
+ */
+export const beerCorrectionRowSchema = z.object({
+  beer_id: z.string().min(1, 'beer_id must not be empty'),
+  abv: z.number().nullable().optional(),
+  brew_style: z.string().nullable().optional(),
+  brew_description: z.string().nullable().optional(),
+  updated_at: z.number(),
+});
+
+/**
+ * TypeScript type for beer_corrections table rows
+ */
+export type BeerCorrectionRow = z.infer<typeof beerCorrectionRowSchema>;
+
+/**
+ * Type guard to check if an object is a valid BeerCorrectionRow
+ */
+export function isBeerCorrectionRow(obj: unknown): obj is BeerCorrectionRow {
+  return beerCorrectionRowSchema.safeParse(obj).success;
+}
+
+/**
+ * Convert BeerCorrectionRow to BeerCorrection domain model
+ */
+export function beerCorrectionRowToCorrection(row: BeerCorrectionRow): BeerCorrection {
+  return {
+    beer_id: row.beer_id,
+    abv: row.abv ?? null,
+    brew_style: row.brew_style ?? null,
+    brew_description: row.brew_description ?? null,
+    updated_at: row.updated_at,
+  };
+}
+
+// ============================================================================
+// Enrichment Requests Table
+// ============================================================================
+
+/**
+ * Zod schema for enrichment_requests table rows
+ *
+ * Matches SQL schema (v20):
+ * CREATE TABLE IF NOT EXISTS enrichment_requests (
+ *   id INTEGER PRIMARY KEY AUTOINCREMENT,
+ *   request_id TEXT,
+ *   endpoint TEXT NOT NULL,
+ *   outcome TEXT NOT NULL,
+ *   recorded_at INTEGER NOT NULL
+ * )
+ *
+ * Required fields: id, endpoint (non-empty), outcome (a known outcome), recorded_at
+ */
+export const enrichmentRequestRowSchema = z.object({
+  id: z.number(),
+  request_id: z.string().nullable().optional(),
+  endpoint: z.string().min(1, 'endpoint must not be empty'),
+  outcome: z.enum(['ok', 'cached', 'rate_limited', 'failed', 'timed_out']),
+  recorded_at: z.number(),
+});
+
+/**
+ * TypeScript type for enrichment_requests table rows
+ */
+export type EnrichmentRequestRow = z.infer<typeof enrichmentRequestRowSchema>;
+
+/**
+ * Type guard to check if an object is a valid EnrichmentRequestRow
+ */
+export function isEnrichmentRequestRow(obj: unknown): obj is EnrichmentRequestRow {
+  return enrichmentRequestRowSchema.safeParse(obj).success;
+}
+
+/**
+ * Convert EnrichmentRequestRow to EnrichmentRequestRecord domain model
+ */
+export function enrichmentRequestRowToRecord(row: EnrichmentRequestRow): EnrichmentRequestRecord {
+  return {
+    request_id: row.request_id ?? null,
+    endpoint: row.endpoint,
+    outcome: row.outcome,
+    recorded_at: row.recorded_at,
+  };
+}
+
+// ============================================================================
+// Taplist Snapshots Table
+// ============================================================================
+
+/**
+ * Zod schema for taplist_snapshots table rows, without the `beers` column
+ * (read on its own when a snapshot is opened)
+ *
+ * Matches SQL schema (v21):
+ * CREATE TABLE IF NOT EXISTS taplist_snapshots (
+ *   id INTEGER PRIMARY KEY AUTOINCREMENT,
+ *   store_id TEXT NOT NULL,
+ *   fetched_at INTEGER NOT NULL,
+ *   source TEXT NOT NULL,
+ *   etag TEXT,
+ *   beer_count INTEGER NOT NULL,
+ *   beers TEXT NOT NULL
+ * )
+ *
+ * Required fields: id, store_id (non-empty), fetched_at, source (a known source), beer_count
+ */
+export const taplistSnapshotRowSchema = z.object({
+  id: z.number(),
+  store_id: z.string().min(1, 'store_id must not be empty'),
+  fetched_at: z.number(),
+  source: z.enum(TAPLIST_SNAPSHOT_SOURCES),
+  etag: z.string().nullable().optional(),
+  beer_count: z.number(),
+});
+
+/**
+ * TypeScript type for taplist_snapshots table rows
+ */
+export type TaplistSnapshotRow = z.infer<typeof taplistSnapshotRowSchema>;
+
+/**
+ * Type guard to check if an object is a valid TaplistSnapshotRow
+ */
+export function isTaplistSnapshotRow(obj: unknown): obj is TaplistSnapshotRow {
+  return taplistSnapshotRowSchema.safeParse(obj).success;
+}
+
+/**
+ * Convert TaplistSnapshotRow to TaplistSnapshot domain model
+ */
+export function taplistSnapshotRowToSnapshot(row: TaplistSnapshotRow): TaplistSnapshot {
+  return {
+    id: row.id,
+    store_id: row.store_id,
+    fetched_at: row.fetched_at,
+    source: row.source,
+    etag: row.etag ?? null,
+    beer_count: row.beer_count,
+  };
+}
+
+// ============================================================================
+// Refresh Log Table
+// ============================================================================
+
+/**
+ * Zod schema for refresh_log table rows
+ *
+ * Matches SQL schema (v22):
+ * CREATE TABLE IF NOT EXISTS refresh_log (
+ *   id INTEGER PRIMARY KEY AUTOINCREMENT,
+ *   trigger TEXT NOT NULL,
+ *   started_at INTEGER NOT NULL,
+ *   duration_ms INTEGER NOT NULL,
+ *   sources TEXT NOT NULL
+ * )
+ *
+ * Required fields: id, trigger (a known trigger), started_at, duration_ms, sources
+ */
+export const refreshLogRowSchema = z.object({
+  id: z.number(),
+  trigger: z.enum(REFRESH_TRIGGERS),
+  started_at: z.number(),
+  duration_ms: z.number(),
+  sources: z.string(),
+});
+
+/**
+ * TypeScript type for refresh_log table rows
+ */
+export type RefreshLogRow = z.infer<typeof refreshLogRowSchema>;
+
+/**
+ * Type guard to check if an object is a valid RefreshLogRow
+ */
+export function isRefreshLogRow(obj: unknown): obj is RefreshLogRow {
+  return refreshLogRowSchema.safeParse(obj).success;
+}
+
+/**
+ * Convert RefreshLogRow to RefreshLogEntry domain model
+ */
+export function refreshLogRowToEntry(row: RefreshLogRow): RefreshLogEntry {
+  return {
+    id: row.id,
+    trigger: row.trigger,
+    started_at: row.started_at,
+    duration_ms: row.duration_ms,
+    sources: parseRefreshLogSources(row.sources),
+  };
+}
@@ -0,0 +1,301 @@
+/**
+ * Full-text search index over the local beer tables
+ *
+ * `beer_search` is an FTS5 table holding one row per beer per source table
+ * (`allbeers` or `tasted_brew_current_round`), over name, brewer, style and the
+ * description with its HTML stripped. It is not an external-content table: the
+ * repositories write it through the helpers below, inside the same transaction
+ * that writes the source rows, so the two commit or roll back together.
+ *
+ * The index is an accelerator, not a source of truth. A write that fails for
+ * any reason other than lock contention is logged and skipped rather than
+ * failing the import around it. A skipped write leaves the index out of step
+ * with its table, so it also marks that source stale (a preference row, written
+ * in the same transaction); `BeerSearchRepository` refuses to query a stale
+ * source, and every reader falls back to the in-memory or LIKE search when a
+ * query against the index fails. The next full replace of the source clears
+ * the mark.
+ */
+
+import type { TransactionLike } from './transactions';
+import { isDatabaseLockedError } from './errors';
+import { logWarning } from '../utils/errorLogger';
+
+/** Which table a `beer_search` row indexes. */
+export type SearchSource = 'allbeers' | 'tasted';
+
+/** The fields the index covers; both beer row types satisfy it. */
+export type IndexableBeer = {
+  id: string;
+  brew_name?: string;
+  brewer?: string;
+  brew_style?: string;
+  brew_description?: string;
+};
+
+/**
+ * Delimiters `snippet()` wraps around each matched term. Control characters,
+ * so no beer description can contain them and `splitSearchSnippet` never
+ * mistakes text for a marker.
+ */
+export const SNIPPET_MATCH_START = '\u0002';
+export const SNIPPET_MATCH_END = '\u0003';
+
+export type SnippetSegment = {
+  text: string;
+  match: boolean;
+};
+
+/** Preference key marking one source's index as out of step with its table. */
+export function searchIndexStaleKey(source: SearchSource): string {
+  return `search_index_stale_${source}`;
+}
+
+/** Savepoint around a full replace, so a failure partway leaves the old rows. */
+const REPLACE_SAVEPOINT = 'beer_search_replace';
+
+const INSERT_SEARCH_ROW = `INSERT INTO beer_search (
+  beer_id, source, brew_name, brewer, brew_style, description
+) VALUES (?, ?, ?, ?, ?, ?)`;
+
+/**
+ * Reduce an API `brew_description` to plain text for indexing: tags become
+ * spaces, the handful of entities the API emits are decoded, and whitespace is
+ * collapsed so snippets do not show runs of blanks.
+ */
+export function cleanDescriptionForIndex(description: string | null | undefined): string {
+  if (!description) return '';
+  return description
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;|&apos;/gi, "'")
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&amp;/gi, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Build an FTS5 MATCH expression from free text typed into a search box.
+ *
+ * Every whitespace-separated word becomes a quoted prefix term, ANDed: quoting
+ * keeps FTS5 operators and punctuation in user input from being parsed as query
+ * syntax (the tokenizer splits `o'hara` inside the quotes instead), and the
+ * prefix makes a half-typed word match as the list narrows.
+ *
+ * @returns The MATCH expression, or null when the text has no searchable words
+ */
+export function toFtsMatchQuery(text: string): string | null {
+  const words = text
+    .split(/\s+/)
+    .map(word => word.replace(/"/g, ''))
+    // A word of punctuation alone tokenizes to nothing and would match nothing
+    .filter(word => /[a-z0-9\u00C0-\uFFFF]/i.test(word));
+  if (words.length === 0) return null;
+  return words.map(word => `"${word}"*`).join(' ');
+}
+
+/** Split a `snippet()` result into plain and highlighted runs for rendering. */
+export function splitSearchSnippet(snippet: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  let rest = snippet;
+
+  while (rest) {
+    const start = rest.indexOf(SNIPPET_MATCH_START);
+    if (start === -1) {
+      segments.push({ text: rest, match: false });
+      break;
+    }
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), match: false });
+    }
+    const end = rest.indexOf(SNIPPET_MATCH_END, start + 1);
+    const matchEnd = end === -1 ? rest.length : end;
+    segments.push({ text: rest.slice(start + 1, matchEnd), match: true });
+    rest = rest.slice(matchEnd + 1);
+  }
+
+  return segments.filter(segment => segment.text);
+}
+
+/**
+ * Lock contention aborts the caller's transaction and must reach it; anything
+ * else is logged and marks the source stale, since the write it interrupted
+ * left the index out of step with the table.
+ */
+async function handleIndexWriteError(
+  txn: TransactionLike,
+  error: unknown,
+  operation: string,
+  source: SearchSource
+): Promise<void> {
+  if (isDatabaseLockedError(error)) {
+    throw error;
+  }
+  logWarning('Search index write skipped; searches fall back to a plain scan', {
+    operation,
+    component: 'searchIndex',
+    additionalData: { source, error: error instanceof Error ? error.message : String(error) },
+  });
+
+  try {
+    await txn.runAsync(
+      'INSERT OR REPLACE INTO preferences (key, value, description) VALUES (?, ?, ?)',
+      [searchIndexStaleKey(source), 'true', 'Search index needs rebuilding from this source']
+    );
+  } catch (markError) {
+    console.error('[searchIndex] failed to mark the index stale', markError);
+  }
+}
+
+async function clearStaleMark(txn: TransactionLike, source: SearchSource): Promise<void> {
+  await txn.runAsync('DELETE FROM preferences WHERE key = ?', [searchIndexStaleKey(source)]);
+}
+
+/**
+ * Replace every index row for one source with the given beers, and clear the
+ * source's stale mark.
+ *
+ * The delete and inserts run under a savepoint: if one fails, the source's
+ * rows roll back to what they were and the source is marked stale, rather than
+ * a partial index being committed with the import.
+ *
+ * UNSAFE: runs on the caller's handle with no lock of its own. Call it from
+ * inside the transaction that replaces the source table.
+ */
+export async function replaceSearchSourceUnsafe(
+  txn: TransactionLike,
+  source: SearchSource,
+  beers: readonly IndexableBeer[]
+): Promise<void> {
+  try {
+    await txn.runAsync(`SAVEPOINT ${REPLACE_SAVEPOINT}`);
+  } catch (error) {
+    await handleIndexWriteError(txn, error, 'replaceSearchSource', source);
+    return;
+  }
+
+  try {
+    await txn.runAsync('DELETE FROM beer_search WHERE source = ?', [source]);
+
+    const insert = await txn.prepareAsync(INSERT_SEARCH_ROW);
+    try {
+      for (const beer of beers) {
+        if (!beer.id) continue;
+        await insert.executeAsync([
+          beer.id,
+          source,
+          beer.brew_name || '',
+          beer.brewer || '',
+          beer.brew_style || '',
+          cleanDescriptionForIndex(beer.brew_description),
+        ]);
+      }
+    } finally {
+      try {
+        await insert.finalizeAsync();
+      } catch (finalizeError) {
+        console.error('[searchIndex] failed to finalize the insert statement', finalizeError);
+      }
+    }
+
+    await clearStaleMark(txn, source);
+    await txn.runAsync(`RELEASE ${REPLACE_SAVEPOINT}`);
+  } catch (error) {
+    try {
+      await txn.runAsync(`ROLLBACK TO ${REPLACE_SAVEPOINT}`);
+      await txn.runAsync(`RELEASE ${REPLACE_SAVEPOINT}`);
+    } catch (rollbackError) {
+      console.error('[searchIndex] failed to roll back the index replace', rollbackError);
+    }
+    await handleIndexWriteError(txn, error, 'replaceSearchSource', source);
+  }
+}
+
+/**
+ * Re-index the descriptions of beers whose `brew_description` was just updated.
+ *
+ * UNSAFE: as `replaceSearchSourceUnsafe`, call it inside the updating transaction.
+ *
+ * @param descriptions - Beer id and its new raw (HTML) description
+ */
+export async function updateSearchDescriptionsUnsafe(
+  txn: TransactionLike,
+  source: SearchSource,
+  descriptions: readonly (readonly [id: string, description: string])[]
+): Promise<void> {
+  if (descriptions.length === 0) return;
+
+  try {
+    for (const [id, description] of descriptions) {
+      await txn.runAsync(
+        'UPDATE beer_search SET description = ? WHERE beer_id = ? AND source = ?',
+        [cleanDescriptionForIndex(description), id, source]
+      );
+    }
+  } catch (error) {
+    await handleIndexWriteError(txn, error, 'updateSearchDescriptions', source);
+  }
+}
+
+/**
+ * Re-index a few beers whose style or description was just changed in place.
+ *
+ * UNSAFE: as `replaceSearchSourceUnsafe`, call it inside the updating transaction.
+ *
+ * @param beers - The rows as now stored
+ */
+export async function replaceSearchRowsUnsafe(
+  txn: TransactionLike,
+  source: SearchSource,
+  beers: readonly IndexableBeer[]
+): Promise<void> {
+  if (beers.length === 0) return;
+
+  try {
+    for (const beer of beers) {
+      await txn.runAsync('DELETE FROM beer_search WHERE beer_id = ? AND source = ?', [
+        beer.id,
+        source,
+      ]);
+      await txn.runAsync(INSERT_SEARCH_ROW, [
+        beer.id,
+        source,
+        beer.brew_name || '',
+        beer.brewer || '',
+        beer.brew_style || '',
+        cleanDescriptionForIndex(beer.brew_description),
+      ]);
+    }
+  } catch (error) {
+    await handleIndexWriteError(txn, error, 'replaceSearchRows', source);
+  }
+}
+
+/**
+ * Drop every index row for one source. An empty index matches an empty table,
+ * so the stale mark goes too.
+ *
+ * UNSAFE: call it inside the transaction that empties the source table.
+ */
+export async function clearSearchSourceUnsafe(
+  txn: TransactionLike,
+  source: SearchSource
+): Promise<void> {
+  try {
+    await txn.runAsync('DELETE FROM beer_search WHERE source = ?', [source]);
+    await clearStaleMark(txn, source);
+  } catch (error) {
+    await handleIndexWriteError(txn, error, 'clearSearchSource', source);
+  }
+}
+
+/**
+ * True when SQLite was built without FTS5. expo-sqlite's bundled build includes
+ * it, but the index must never be the reason a database fails to open.
+ */
+export function isSearchIndexUnsupportedError(error: unknown): boolean {
+  return error instanceof Error && /no such module: fts5/i.test(error.message);
+}
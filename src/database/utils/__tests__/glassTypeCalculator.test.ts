@@ -60,4 +60,14 @@ describe('calculateContainerTypes', () => {
     expect(results[1].container_type).toBe('pint');
     expect(results[1].abv).toBe(5.0);
   });
+
+  it('should store the normalized style family with each beer', () => {
+    const results = calculateContainerTypes([
+      createBeer({ id: '1', brew_style: 'IPA - Double' }),
+      createBeer({ id: '2', brew_style: 'Russian Imperial Stout' }),
+      createBeer({ id: '3', brew_style: undefined }),
+    ]);
+
+    expect(results.map(beer => beer.style_family)).toEqual(['IPA', 'Stout', 'Other']);
+  });
 });
@@ -1,4 +1,5 @@
 import { getContainerType, extractABV } from '@/src/utils/beerGlassType';
+import { getStyleFamily } from '@/src/utils/styleTaxonomy';
 import { Beer, BeerWithContainerType } from '@/src/types/beer';
 
 /**
@@ -11,6 +12,9 @@ import { Beer, BeerWithContainerType } from '@/src/types/beer';
  * Otherwise, extract ABV from description.
  *
  * Enrichment fields are passed through if present.
+ *
+ * The style family is normalized here too, so it is stored with the row and
+ * the style filter never re-parses free text per render.
  */
 export function calculateContainerTypes(beers: Beer[]): BeerWithContainerType[] {
   return beers.map((beer): BeerWithContainerType => {
@@ -33,6 +37,7 @@ export function calculateContainerTypes(beers: Beer[]): BeerWithContainerType[]
       // Pass through enrichment fields, defaulting to null if not present
       enrichment_confidence: beer.enrichment_confidence ?? null,
       enrichment_source: beer.enrichment_source ?? null,
+      style_family: getStyleFamily(beer.brew_style),
     };
   });
 }
@@ -0,0 +1,331 @@
+/**
+ * Tests for the background refresh entry point
+ *
+ * The policy itself is tested in backgroundRefresh.test.ts; these check that
+ * the task reads its inputs, runs the shared refresh within the budget and
+ * records what happened.
+ */
+
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import * as BackgroundTask from 'expo-background-task';
+import * as TaskManager from 'expo-task-manager';
+import {
+  BACKGROUND_REFRESH_TASK,
+  defineBackgroundRefreshTask,
+  readLastBackgroundRefresh,
+  runBackgroundRefresh,
+  scheduleBackgroundRefresh,
+  launchSourcesFreshFromBackground,
+} from '../backgroundRefreshService';
+import { sequentialRefreshAllData } from '../dataUpdateService';
+import { getPreference, setPreference } from '../../database/preferences';
+import { closeDatabaseConnection } from '../../database/connection';
+import { BACKGROUND_REFRESH_BUDGET_MS } from '../../utils/backgroundRefresh';
+import { logError } from '../../utils/errorLogger';
+import { recordRefreshRun } from '../refreshLogService';
+import { sourcesWaitingForWifi } from '../refreshPolicyService';
+
+jest.mock('expo-background-task', () => ({
+  BackgroundTaskStatus: { Restricted: 1, Available: 2 },
+  BackgroundTaskResult: { Success: 1, Failed: 2 },
+  getStatusAsync: jest.fn(),
+  registerTaskAsync: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('expo-task-manager', () => ({
+  defineTask: jest.fn(),
+  isTaskDefined: jest.fn(() => false),
+  isTaskRegisteredAsync: jest.fn(),
+}));
+jest.mock('../dataUpdateService', () => ({
+  sequentialRefreshAllData: jest.fn(),
+}));
+jest.mock('../refreshLogService', () => ({
+  recordRefreshRun: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../refreshPolicyService', () => ({
+  sourcesWaitingForWifi: jest.fn(),
+}));
+jest.mock('../../database/db', () => ({
+  setupDatabase: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../../database/connection', () => ({
+  closeDatabaseConnection: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../../database/preferences', () => ({
+  getPreference: jest.fn(),
+  setPreference: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../../utils/errorLogger', () => ({
+  logError: jest.fn(),
+  logInfo: jest.fn(),
+}));
+
+const ok = { success: true, dataUpdated: true };
+const offline = {
+  success: false,
+  dataUpdated: false,
+  error: { type: 'NETWORK_ERROR', message: 'offline' },
+};
+
+const refreshResult = (rewardsResult: typeof ok | typeof offline = ok) => ({
+  allBeersResult: ok,
+  myBeersResult: ok,
+  rewardsResult,
+  hasErrors: !rewardsResult.success,
+  allNetworkErrors: false,
+});
+
+/** Stored preferences, read through the `getPreference` mock */
+let stored: Record<string, string>;
+
+const storedRecord = () =>
+  JSON.parse(
+    (setPreference as jest.Mock).mock.calls.find(([key]) => key === 'background_refresh_last')[1]
+  );
+
+describe('backgroundRefreshService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation();
+    stored = { all_beers_api_url: 'https://fsbs.beerknurd.com/bk-store-json.php?sid=13879' };
+    (getPreference as jest.Mock).mockImplementation(async (key: string) => stored[key] ?? null);
+    (sequentialRefreshAllData as jest.Mock).mockResolvedValue(refreshResult());
+    (sourcesWaitingForWifi as jest.Mock).mockResolvedValue(new Set());
+    AppState.currentState = 'background';
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('runBackgroundRefresh', () => {
+    it('runs the shared refresh and records that it finished', async () => {
+      const record = await runBackgroundRefresh();
+
+      expect(sequentialRefreshAllData).toHaveBeenCalledWith({
+        includeRewards: true,
+        leaveOut: new Set(),
+      });
+      expect(record).toEqual({
+        startedAt: expect.any(Number),
+        finishedAt: expect.any(Number),
+        outcome: 'refreshed',
+        includedRewards: true,
+        leftForWifi: [],
+      });
+      expect(storedRecord()).toEqual(record);
+      expect(closeDatabaseConnection).toHaveBeenCalled();
+    });
+
+    it('leaves the rewards out when the caller says it is throttled', async () => {
+      await runBackgroundRefresh({ throttled: true });
+
+      expect(sequentialRefreshAllData).toHaveBeenCalledWith(
+        expect.objectContaining({ includeRewards: false })
+      );
+      expect(storedRecord().includedRewards).toBe(false);
+    });
+
+    it('adds the run to the refresh log, without rewards it left out', async () => {
+      await runBackgroundRefresh({ throttled: true });
+
+      expect(recordRefreshRun).toHaveBeenCalledWith('background', expect.any(Number), [
+        expect.objectContaining({ source: 'allBeers', status: 'updated' }),
+        expect.objectContaining({ source: 'myBeers', status: 'updated' }),
+      ]);
+    });
+
+    it('leaves the sources the refresh policy keeps for Wi-Fi on a metered connection', async () => {
+      (NetInfo.fetch as jest.Mock).mockResolvedValueOnce({
+        type: 'cellular',
+        isConnected: true,
+        details: { isConnectionExpensive: true },
+      });
+      (sourcesWaitingForWifi as jest.Mock).mockResolvedValue(new Set(['allBeers']));
+
+      const record = await runBackgroundRefresh();
+
+      expect(sourcesWaitingForWifi).toHaveBeenCalledWith(true);
+      expect(sequentialRefreshAllData).toHaveBeenCalledWith({
+        includeRewards: true,
+        leaveOut: new Set(['allBeers']),
+      });
+      expect(record).toMatchObject({ outcome: 'refreshed', leftForWifi: ['allBeers'] });
+      expect(recordRefreshRun).toHaveBeenCalledWith('background', expect.any(Number), [
+        expect.objectContaining({
+          source: 'allBeers',
+          status: 'skipped',
+          skipReason: 'waiting-for-wifi',
+        }),
+        expect.objectContaining({ source: 'myBeers', status: 'updated' }),
+        expect.objectContaining({ source: 'rewards', status: 'updated' }),
+      ]);
+    });
+
+    it('does not run when every source it would fetch is waiting for Wi-Fi', async () => {
+      (sourcesWaitingForWifi as jest.Mock).mockResolvedValue(new Set(['allBeers', 'myBeers']));
+
+      await expect(runBackgroundRefresh({ throttled: true })).resolves.toBeNull();
+      expect(sequentialRefreshAllData).not.toHaveBeenCalled();
+      expect(recordRefreshRun).not.toHaveBeenCalled();
+      expect(setPreference).not.toHaveBeenCalled();
+    });
+
+    it('records a partial refresh when a source failed', async () => {
+      (sequentialRefreshAllData as jest.Mock).mockResolvedValue(refreshResult(offline));
+
+      await expect(runBackgroundRefresh()).resolves.toMatchObject({ outcome: 'partial' });
+    });
+
+    it('records a timeout and leaves the database open for the refresh still writing', async () => {
+      jest.useFakeTimers();
+      (sequentialRefreshAllData as jest.Mock).mockReturnValue(new Promise(() => {}));
+
+      const run = runBackgroundRefresh();
+      await jest.advanceTimersByTimeAsync(BACKGROUND_REFRESH_BUDGET_MS);
+
+      await expect(run).resolves.toMatchObject({ outcome: 'timed-out' });
+      expect(closeDatabaseConnection).not.toHaveBeenCalled();
+    });
+
+    it('does not refresh while the app is on screen', async () => {
+      AppState.currentState = 'active';
+
+      await expect(runBackgroundRefresh()).resolves.toBeNull();
+      expect(sequentialRefreshAllData).not.toHaveBeenCalled();
+      expect(setPreference).not.toHaveBeenCalled();
+    });
+
+    it('does not refresh again inside the interval', async () => {
+      stored.background_refresh_last = JSON.stringify({
+        startedAt: Date.now() - 60_000,
+        finishedAt: Date.now() - 50_000,
+        outcome: 'refreshed',
+        includedRewards: true,
+      });
+
+      await expect(runBackgroundRefresh()).resolves.toBeNull();
+      expect(sequentialRefreshAllData).not.toHaveBeenCalled();
+    });
+
+    it('logs rather than throws when the refresh fails outright', async () => {
+      (sequentialRefreshAllData as jest.Mock).mockRejectedValue(new Error('disk full'));
+
+      await expect(runBackgroundRefresh()).resolves.toBeNull();
+      expect(logError).toHaveBeenCalled();
+    });
+  });
+
+  describe('defineBackgroundRefreshTask', () => {
+    it('defines a task that runs the refresh and reports how it went', async () => {
+      defineBackgroundRefreshTask();
+
+      const [name, executor] = (TaskManager.defineTask as jest.Mock).mock.calls[0];
+      expect(name).toBe(BACKGROUND_REFRESH_TASK);
+      await expect(executor({ data: null, error: null })).resolves.toBe(
+        BackgroundTask.BackgroundTaskResult.Success
+      );
+      expect(sequentialRefreshAllData).toHaveBeenCalled();
+    });
+
+    it('reports a failure when every source failed', async () => {
+      (sequentialRefreshAllData as jest.Mock).mockResolvedValue({
+        ...refreshResult(offline),
+        allBeersResult: offline,
+        myBeersResult: offline,
+      });
+      defineBackgroundRefreshTask();
+
+      const [, executor] = (TaskManager.defineTask as jest.Mock).mock.calls[0];
+      await expect(executor({ data: null, error: null })).resolves.toBe(
+        BackgroundTask.BackgroundTaskResult.Failed
+      );
+    });
+
+    it('does not define the task twice', () => {
+      (TaskManager.isTaskDefined as jest.Mock).mockReturnValueOnce(true);
+
+      defineBackgroundRefreshTask();
+
+      expect(TaskManager.defineTask).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('scheduleBackgroundRefresh', () => {
+    beforeEach(() => {
+      (BackgroundTask.getStatusAsync as jest.Mock).mockResolvedValue(
+        BackgroundTask.BackgroundTaskStatus.Available
+      );
+      (TaskManager.isTaskRegisteredAsync as jest.Mock).mockResolvedValue(false);
+    });
+
+    it('asks the OS to run the task no more often than the interval', async () => {
+      await expect(scheduleBackgroundRefresh()).resolves.toBe(true);
+
+      expect(BackgroundTask.registerTaskAsync).toHaveBeenCalledWith(BACKGROUND_REFRESH_TASK, {
+        minimumInterval: 240,
+      });
+    });
+
+    it('leaves a task already registered alone', async () => {
+      (TaskManager.isTaskRegisteredAsync as jest.Mock).mockResolvedValue(true);
+
+      await expect(scheduleBackgroundRefresh()).resolves.toBe(true);
+      expect(BackgroundTask.registerTaskAsync).not.toHaveBeenCalled();
+    });
+
+    it('does not schedule when background tasks are restricted', async () => {
+      (BackgroundTask.getStatusAsync as jest.Mock).mockResolvedValue(
+        BackgroundTask.BackgroundTaskStatus.Restricted
+      );
+
+      await expect(scheduleBackgroundRefresh()).resolves.toBe(false);
+      expect(BackgroundTask.registerTaskAsync).not.toHaveBeenCalled();
+    });
+
+    it('logs rather than throws when registering fails', async () => {
+      (BackgroundTask.registerTaskAsync as jest.Mock).mockRejectedValueOnce(new Error('denied'));
+
+      await expect(scheduleBackgroundRefresh()).resolves.toBe(false);
+      expect(logError).toHaveBeenCalled();
+    });
+  });
+
+  describe('launchSourcesFreshFromBackground', () => {
+    it('skips the launch fetch right after a complete background refresh', async () => {
+      await runBackgroundRefresh();
+      stored.background_refresh_last = JSON.stringify(storedRecord());
+
+      await expect(launchSourcesFreshFromBackground()).resolves.toEqual(
+        new Set(['allBeers', 'myBeers', 'rewards'])
+      );
+    });
+
+    it('leaves the rewards to the launch after a throttled background refresh', async () => {
+      await runBackgroundRefresh({ throttled: true });
+      stored.background_refresh_last = JSON.stringify(storedRecord());
+
+      await expect(launchSourcesFreshFromBackground()).resolves.toEqual(
+        new Set(['allBeers', 'myBeers'])
+      );
+    });
+
+    it('leaves the sources left for Wi-Fi to the launch', async () => {
+      (sourcesWaitingForWifi as jest.Mock).mockResolvedValue(new Set(['myBeers']));
+      await runBackgroundRefresh();
+      stored.background_refresh_last = JSON.stringify(storedRecord());
+
+      await expect(launchSourcesFreshFromBackground()).resolves.toEqual(
+        new Set(['allBeers', 'rewards'])
+      );
+    });
+
+    it('fetches when the record cannot be read', async () => {
+      (getPreference as jest.Mock).mockRejectedValue(new Error('no such table: preferences'));
+
+      await expect(readLastBackgroundRefresh()).resolves.toBeNull();
+      await expect(launchSourcesFreshFromBackground()).resolves.toEqual(new Set());
+    });
+  });
+});
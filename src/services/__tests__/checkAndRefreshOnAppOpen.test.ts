@@ -0,0 +1,317 @@
+/**
+ * The focus check against the refresh policy
+ *
+ * Asserts on which sources were fetched, at the API boundary, since the three
+ * `fetchAndUpdate*` functions it calls live in the same module.
+ */
+
+import { checkAndRefreshOnAppOpen } from '../dataUpdateService';
+import { fetchBeersFromAPI, fetchRewardsFromAPI } from '../../api/beerApi';
+import { fetchBeersFromProxy } from '../enrichmentService';
+import { resetRefreshPolicyCache } from '../refreshPolicyService';
+import { recordRefreshRun } from '../refreshLogService';
+import { resetFocusRefreshThrottle } from '../../utils/focusRefreshThrottle';
+import { DEFAULT_REFRESH_POLICY, RefreshPolicy, withSourcePolicy } from '../../utils/refreshPolicy';
+import { confirmedEmpty, fetchedRows } from '../../api/__tests__/helpers/fetchOutcomeFixtures';
+
+const STORE_URL = 'https://fsbs.beerknurd.com/bk-store-json.php?sid=13879';
+const MEMBER_URL = 'https://fsbs.beerknurd.com/bk-member-json.php?uid=1';
+
+/** Stored preferences, read through the `getPreference` mock */
+let mockStored: Record<string, string>;
+
+jest.mock('../../database/preferences', () => ({
+  getPreference: jest.fn(async (key: string) => mockStored[key] ?? null),
+  setPreference: jest.fn(async (key: string, value: string) => {
+    mockStored[key] = value;
+  }),
+}));
+
+jest.mock('../../api/beerApi', () => ({
+  fetchBeersFromAPI: jest.fn(),
+  fetchMyBeersFromAPI: jest.fn(),
+  fetchRewardsFromAPI: jest.fn(),
+}));
+
+jest.mock('../enrichmentService', () => ({
+  fetchBeersFromProxy: jest.fn(),
+  fetchEnrichmentBatchWithMissing: jest.fn(async () => ({ enrichments: {}, missing: [] })),
+  syncBeersToWorker: jest.fn(async () => {}),
+  mergeEnrichmentData: jest.fn((beers: unknown[]) => beers),
+  recordFallback: jest.fn(),
+  pollForEnrichmentUpdates: jest.fn(),
+}));
+
+jest.mock('../../database/repositories/BeerRepository', () => ({
+  beerRepository: {
+    count: jest.fn(async () => 1),
+    getAllIdsUnsafe: jest.fn(async () => []),
+    insertManyUnsafe: jest.fn(async () => {}),
+  },
+}));
+
+jest.mock('../../database/repositories/MyBeersRepository', () => ({
+  myBeersRepository: {
+    insertManyUnsafe: jest.fn(async () => {}),
+    replaceAllWithEmptyUnsafe: jest.fn(async () => {}),
+    replaceAllWithEmpty: jest.fn(async () => {}),
+    insertMany: jest.fn(async () => {}),
+  },
+}));
+
+jest.mock('../../database/repositories/RewardsRepository', () => ({
+  rewardsRepository: {
+    replaceAllWithEmpty: jest.fn(async () => {}),
+    insertMany: jest.fn(async () => {}),
+  },
+}));
+
+jest.mock('../../database/repositories/WishlistRepository', () => ({
+  wishlistRepository: { markOnTapUnsafe: jest.fn(async () => 0) },
+}));
+
+jest.mock('../../database/repositories/TaplistDiffRepository', () => ({
+  taplistDiffRepository: { recordUnsafe: jest.fn(async () => {}) },
+}));
+
+jest.mock('../../database/repositories/TaplistSnapshotRepository', () => ({
+  taplistSnapshotRepository: { saveUnsafe: jest.fn(async () => {}) },
+}));
+
+jest.mock('../refreshLogService', () => ({
+  recordRefreshRun: jest.fn(async () => {}),
+}));
+
+jest.mock('../../database/DatabaseLockManager', () => ({
+  databaseLockManager: {
+    withDatabaseLock: jest.fn(async (_name: string, task: () => Promise<unknown>) => task()),
+  },
+}));
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Which sources were asked for. The taplist is asked of the proxy first, and
+ * `fetchAndUpdateMyBeers` fetches its URL itself.
+ */
+const fetchedSources = () => ({
+  allBeers:
+    (fetchBeersFromProxy as jest.Mock).mock.calls.length +
+      (fetchBeersFromAPI as jest.Mock).mock.calls.length >
+    0,
+  myBeers: (global.fetch as jest.Mock).mock.calls.some(([url]) => url === MEMBER_URL),
+  rewards: (fetchRewardsFromAPI as jest.Mock).mock.calls.length > 0,
+});
+
+const checkedHoursAgo = (hours: number) => new Date(Date.now() - hours * HOUR).toISOString();
+
+const storePolicy = (policy: RefreshPolicy) => {
+  mockStored.refresh_policy = JSON.stringify(policy);
+};
+
+describe('checkAndRefreshOnAppOpen', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+    resetRefreshPolicyCache();
+    resetFocusRefreshThrottle();
+    mockStored = {
+      all_beers_api_url: STORE_URL,
+      my_beers_api_url: MEMBER_URL,
+      all_beers_last_check: checkedHoursAgo(3),
+      my_beers_last_check: checkedHoursAgo(3),
+      rewards_last_check: checkedHoursAgo(3),
+    };
+    (fetchBeersFromAPI as jest.Mock).mockResolvedValue(
+      fetchedRows([{ id: 'b1', brew_name: 'Beer', brewer: 'X' }])
+    );
+    (fetchBeersFromProxy as jest.Mock).mockRejectedValue(new Error('proxy unavailable'));
+    // Failing is enough: the tests ask only whether each source was fetched
+    global.fetch = jest.fn().mockRejectedValue(new Error('offline'));
+    (fetchRewardsFromAPI as jest.Mock).mockResolvedValue(confirmedEmpty());
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refreshes each source past its own max age', async () => {
+    // Three hours old: past the two-hour default for the lists, not the
+    // rewards' twelve
+    await checkAndRefreshOnAppOpen();
+
+    expect(fetchedSources()).toEqual({ allBeers: true, myBeers: true, rewards: false });
+  });
+
+  it('uses the stored max ages', async () => {
+    storePolicy(
+      withSourcePolicy(
+        withSourcePolicy(DEFAULT_REFRESH_POLICY, 'allBeers', { maxAgeHours: 4 }),
+        'rewards',
+        { maxAgeHours: 1 }
+      )
+    );
+
+    await checkAndRefreshOnAppOpen();
+
+    expect(fetchedSources()).toEqual({ allBeers: false, myBeers: true, rewards: true });
+  });
+
+  it('throttles each source on its own interval', async () => {
+    storePolicy(withSourcePolicy(DEFAULT_REFRESH_POLICY, 'myBeers', { focusThrottleMinutes: 1 }));
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+    await checkAndRefreshOnAppOpen();
+    jest.clearAllMocks();
+    mockStored.all_beers_last_check = checkedHoursAgo(3);
+    mockStored.my_beers_last_check = checkedHoursAgo(3);
+
+    spy.mockReturnValue(now + 2 * 60 * 1000);
+    await checkAndRefreshOnAppOpen();
+
+    expect(fetchedSources()).toEqual({ allBeers: false, myBeers: true, rewards: false });
+  });
+
+  it('leaves a source for Wi-Fi on a metered connection until its throttle next lets it through', async () => {
+    storePolicy(
+      withSourcePolicy(DEFAULT_REFRESH_POLICY, 'allBeers', {
+        onMetered: 'wait-for-wifi',
+        focusThrottleMinutes: 1,
+      })
+    );
+    const now = Date.now();
+    const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await checkAndRefreshOnAppOpen({ isConnectionExpensive: true });
+    expect(fetchedSources()).toEqual({ allBeers: false, myBeers: true, rewards: false });
+
+    jest.clearAllMocks();
+    await checkAndRefreshOnAppOpen({ isConnectionExpensive: false });
+    expect(fetchedSources().allBeers).toBe(false);
+
+    spy.mockReturnValue(now + 2 * 60 * 1000);
+    await checkAndRefreshOnAppOpen({ isConnectionExpensive: false });
+    expect(fetchedSources().allBeers).toBe(true);
+  });
+
+  it('skips the member sources in visitor mode', async () => {
+    mockStored.is_visitor_mode = 'true';
+    mockStored.rewards_last_check = checkedHoursAgo(24);
+
+    await checkAndRefreshOnAppOpen();
+
+    expect(fetchedSources()).toEqual({ allBeers: true, myBeers: false, rewards: false });
+  });
+
+  it('stamps the rewards check, so the next focus leaves them alone', async () => {
+    mockStored.rewards_last_check = checkedHoursAgo(24);
+    await checkAndRefreshOnAppOpen();
+    expect(fetchedSources().rewards).toBe(true);
+
+    resetFocusRefreshThrottle();
+    jest.clearAllMocks();
+    await checkAndRefreshOnAppOpen();
+
+    expect(fetchedSources().rewards).toBe(false);
+  });
+
+  describe('refresh log', () => {
+    const recordedSources = () => {
+      const [[trigger, , sources]] = (recordRefreshRun as jest.Mock).mock.calls;
+      expect(trigger).toBe('focus');
+      return Object.fromEntries(
+        sources.map((source: { source: string; status: string; skipReason: string | null }) => [
+          source.source,
+          source.skipReason ?? source.status,
+        ])
+      );
+    };
+
+    it('records what each source did', async () => {
+      await checkAndRefreshOnAppOpen();
+
+      expect(recordRefreshRun).toHaveBeenCalledTimes(1);
+      expect(recordedSources()).toEqual({
+        allBeers: 'updated',
+        myBeers: 'failed',
+        rewards: 'fresh',
+      });
+    });
+
+    it('records a source left for Wi-Fi, even when nothing was fetched', async () => {
+      mockStored.all_beers_last_check = checkedHoursAgo(0);
+      mockStored.my_beers_last_check = checkedHoursAgo(0);
+      storePolicy(
+        withSourcePolicy(DEFAULT_REFRESH_POLICY, 'rewards', { onMetered: 'wait-for-wifi' })
+      );
+
+      await checkAndRefreshOnAppOpen({ isConnectionExpensive: true });
+
+      expect(recordedSources()).toEqual({
+        allBeers: 'fresh',
+        myBeers: 'fresh',
+        rewards: 'waiting-for-wifi',
+      });
+    });
+
+    it('records a source left for Wi-Fi once while it keeps waiting', async () => {
+      storePolicy(
+        withSourcePolicy(DEFAULT_REFRESH_POLICY, 'rewards', { onMetered: 'wait-for-wifi' })
+      );
+      const now = Date.now();
+      const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+      await checkAndRefreshOnAppOpen({ isConnectionExpensive: true });
+      expect(recordedSources().rewards).toBe('waiting-for-wifi');
+      jest.clearAllMocks();
+
+      spy.mockReturnValue(now + 24 * HOUR);
+      mockStored.all_beers_last_check = checkedHoursAgo(0);
+      mockStored.my_beers_last_check = checkedHoursAgo(0);
+      await checkAndRefreshOnAppOpen({ isConnectionExpensive: true });
+
+      // Only the fresh sources are left, which alone are not worth a run
+      expect(recordRefreshRun).not.toHaveBeenCalled();
+    });
+
+    it('records the wait again after the source stopped waiting', async () => {
+      storePolicy(
+        withSourcePolicy(DEFAULT_REFRESH_POLICY, 'rewards', { onMetered: 'wait-for-wifi' })
+      );
+      const now = Date.now();
+      const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+      await checkAndRefreshOnAppOpen({ isConnectionExpensive: true });
+      spy.mockReturnValue(now + 24 * HOUR);
+      await checkAndRefreshOnAppOpen({ isConnectionExpensive: false });
+      jest.clearAllMocks();
+
+      spy.mockReturnValue(now + 48 * HOUR);
+      await checkAndRefreshOnAppOpen({ isConnectionExpensive: true });
+
+      expect(recordedSources().rewards).toBe('waiting-for-wifi');
+    });
+
+    it('does not record a wait for a source its throttle holds back', async () => {
+      await checkAndRefreshOnAppOpen();
+      jest.clearAllMocks();
+      storePolicy(
+        withSourcePolicy(DEFAULT_REFRESH_POLICY, 'allBeers', { onMetered: 'wait-for-wifi' })
+      );
+      resetRefreshPolicyCache();
+
+      await checkAndRefreshOnAppOpen({ isConnectionExpensive: true });
+
+      expect(recordRefreshRun).not.toHaveBeenCalled();
+    });
+
+    it('records nothing when every source was fresh', async () => {
+      mockStored.all_beers_last_check = checkedHoursAgo(0);
+      mockStored.my_beers_last_check = checkedHoursAgo(0);
+
+      await checkAndRefreshOnAppOpen();
+
+      expect(recordRefreshRun).not.toHaveBeenCalled();
+    });
+  });
+});
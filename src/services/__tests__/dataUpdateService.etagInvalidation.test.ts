@@ -56,6 +56,14 @@ jest.mock('../../database/repositories/BeerRepository', () => ({
     insertMany: jest.fn(async () => {}),
     insertManyUnsafe: jest.fn(async () => {}),
     count: jest.fn(async () => 12),
+    getAll: jest.fn(async () => []),
+  },
+}));
+
+jest.mock('../../database/repositories/TaplistDiffRepository', () => ({
+  taplistDiffRepository: {
+    recordUnsafe: jest.fn(async () => {}),
+    clearUnsafe: jest.fn(async () => {}),
   },
 }));
 
@@ -67,6 +75,12 @@ jest.mock('../../database/repositories/MyBeersRepository', () => ({
   },
 }));
 
+jest.mock('../../database/repositories/WishlistRepository', () => ({
+  wishlistRepository: {
+    markOnTapUnsafe: jest.fn(async () => 0),
+  },
+}));
+
 jest.mock('../../database/repositories/RewardsRepository', () => ({
   rewardsRepository: {
     insertMany: jest.fn(async () => {}),
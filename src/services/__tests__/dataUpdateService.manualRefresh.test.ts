@@ -5,6 +5,7 @@ import { fetchBeersFromAPI, fetchMyBeersFromAPI, fetchRewardsFromAPI } from '../
 import { setPreference } from '../../database/preferences';
 import { myBeersRepository } from '../../database/repositories/MyBeersRepository';
 import { rewardsRepository } from '../../database/repositories/RewardsRepository';
+import { recordRefreshRun } from '../refreshLogService';
 import {
   fetchedRows,
   confirmedEmpty,
@@ -49,6 +50,10 @@ jest.mock('../../database/repositories/RewardsRepository', () => ({
   },
 }));
 
+jest.mock('../refreshLogService', () => ({
+  recordRefreshRun: jest.fn(async () => {}),
+}));
+
 jest.mock('../../database/DatabaseLockManager', () => ({
   databaseLockManager: {
     withDatabaseLock: jest.fn(async (_name: string, task: () => Promise<unknown>) => task()),
@@ -170,6 +175,23 @@ describe('manualRefreshAllData', () => {
     expect(result.rewardsResult.success).toBe(true);
   });
 
+  it('records the run, with each source, in the refresh log', async () => {
+    (fetchBeersFromAPI as jest.Mock).mockRejectedValue(new Error('Server error'));
+    (fetchMyBeersFromAPI as jest.Mock).mockResolvedValue(confirmedEmpty());
+    (fetchRewardsFromAPI as jest.Mock).mockResolvedValue(
+      fetchedRows([{ reward_id: 'reward-1', reward_type: 'badge' }])
+    );
+
+    await svc.manualRefreshAllData();
+
+    expect(recordRefreshRun).toHaveBeenCalledTimes(1);
+    expect(recordRefreshRun).toHaveBeenCalledWith('manual', expect.any(Number), [
+      expect.objectContaining({ source: 'allBeers', status: 'failed' }),
+      expect.objectContaining({ source: 'myBeers', status: 'updated', rowCount: 0 }),
+      expect.objectContaining({ source: 'rewards', status: 'updated', rowCount: 1 }),
+    ]);
+  });
+
   // INVERTED by plan 04 Phase 2. The arrangement mocks `fetchBeersFromAPI` —
   // the FALLBACK path — and a fallback write must clear the ETag, whether or
   // not the rapid-refresh window also wanted it cleared. The rapid-refresh
@@ -381,3 +403,52 @@ describe('sequentialRefreshAllData: FetchOutcome semantics (plan 02 Phase 3)', (
     expect(result.myBeersResult.success).toBe(true);
   });
 });
+
+describe('sequentialRefreshAllData: includeRewards', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fetchBeersFromAPI as jest.Mock).mockResolvedValue(
+      fetchedRows([{ id: 'b1', brew_name: 'Beer', brewer: 'X' }])
+    );
+    (fetchMyBeersFromAPI as jest.Mock).mockResolvedValue(confirmedEmpty());
+    (fetchRewardsFromAPI as jest.Mock).mockResolvedValue(fetchedRows([]));
+  });
+
+  it('skips the rewards fetch without reporting it as a failure', async () => {
+    // The background refresh leaves the rewards out when its budget is tight;
+    // the rewards already stored are kept, not cleared.
+    const result = await svc.sequentialRefreshAllData({ includeRewards: false });
+
+    expect(fetchRewardsFromAPI).not.toHaveBeenCalled();
+    expect(rewardsRepository.replaceAllWithEmptyUnsafe).not.toHaveBeenCalled();
+    expect(rewardsRepository.insertManyUnsafe).not.toHaveBeenCalled();
+    expect(result.rewardsResult).toEqual({ success: true, dataUpdated: false });
+    expect(result.hasErrors).toBe(false);
+  });
+});
+
+describe('sequentialRefreshAllData: leaveOut', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fetchBeersFromAPI as jest.Mock).mockResolvedValue(
+      fetchedRows([{ id: 'b1', brew_name: 'Beer', brewer: 'X' }])
+    );
+    (fetchMyBeersFromAPI as jest.Mock).mockResolvedValue(confirmedEmpty());
+    (fetchRewardsFromAPI as jest.Mock).mockResolvedValue(fetchedRows([]));
+  });
+
+  it('fetches none of the sources left out, and reports them as unchanged', async () => {
+    // The background refresh leaves out the sources waiting for Wi-Fi
+    const result = await svc.sequentialRefreshAllData({
+      includeRewards: true,
+      leaveOut: new Set(['allBeers', 'myBeers']),
+    });
+
+    expect(fetchBeersFromAPI).not.toHaveBeenCalled();
+    expect(fetchMyBeersFromAPI).not.toHaveBeenCalled();
+    expect(fetchRewardsFromAPI).toHaveBeenCalled();
+    expect(result.allBeersResult).toEqual({ success: true, dataUpdated: false });
+    expect(result.myBeersResult).toEqual({ success: true, dataUpdated: false });
+    expect(result.hasErrors).toBe(false);
+  });
+});
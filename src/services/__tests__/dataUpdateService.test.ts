@@ -22,6 +22,9 @@ import { getPreference, setPreference, areApiUrlsConfigured } from '../../databa
 import { beerRepository } from '../../database/repositories/BeerRepository';
 import { myBeersRepository } from '../../database/repositories/MyBeersRepository';
 import { rewardsRepository } from '../../database/repositories/RewardsRepository';
+import { wishlistRepository } from '../../database/repositories/WishlistRepository';
+import { taplistDiffRepository } from '../../database/repositories/TaplistDiffRepository';
+import { taplistSnapshotRepository } from '../../database/repositories/TaplistSnapshotRepository';
 import { databaseLockManager } from '../../database/DatabaseLockManager';
 import { fetchBeersFromAPI, fetchMyBeersFromAPI, fetchRewardsFromAPI } from '../../api/beerApi';
 import {
@@ -38,8 +41,8 @@ import {
   fetchEnrichmentBatchWithMissing,
   syncBeersToWorker,
   mergeEnrichmentData,
-  pollForEnrichmentUpdates,
 } from '../enrichmentService';
+import { trackEnrichmentJobs } from '../enrichmentJobService';
 
 // Helper: flush all pending microtasks and macrotasks
 async function flushPromises(iterations = 10): Promise<void> {
@@ -60,12 +63,32 @@ jest.mock('../../database/preferences', () => ({
 jest.mock('../../database/repositories/BeerRepository', () => ({
   beerRepository: {
     count: jest.fn(async () => 12),
+    getAll: jest.fn(async () => []),
     insertMany: jest.fn(),
     insertManyUnsafe: jest.fn(),
     updateEnrichmentData: jest.fn().mockResolvedValue(0),
   },
 }));
 
+jest.mock('../../database/repositories/TaplistDiffRepository', () => ({
+  taplistDiffRepository: {
+    recordUnsafe: jest.fn(async () => {}),
+    clearUnsafe: jest.fn(async () => {}),
+  },
+}));
+
+jest.mock('../../database/repositories/TaplistSnapshotRepository', () => ({
+  taplistSnapshotRepository: {
+    saveUnsafe: jest.fn(async () => {}),
+  },
+}));
+
+jest.mock('../../database/repositories/WishlistRepository', () => ({
+  wishlistRepository: {
+    markOnTapUnsafe: jest.fn().mockResolvedValue(0),
+  },
+}));
+
 jest.mock('../../database/repositories/MyBeersRepository', () => ({
   myBeersRepository: {
     replaceAllWithEmpty: jest.fn(),
@@ -122,6 +145,11 @@ jest.mock('../enrichmentService', () => ({
   pollForEnrichmentUpdates: jest.fn().mockResolvedValue({}),
 }));
 
+// Mock enrichment job tracking
+jest.mock('../enrichmentJobService', () => ({
+  trackEnrichmentJobs: jest.fn().mockResolvedValue(undefined),
+}));
+
 // Mock error logger — pass through to console.error so existing assertions still work
 jest.mock('../../utils/errorLogger', () => ({
   logError: jest.fn((...args: unknown[]) => console.error(...args)),
@@ -280,6 +308,7 @@ describe('dataUpdateService', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: 'Other',
         },
         {
           id: 'beer-2',
@@ -289,10 +318,16 @@ describe('dataUpdateService', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: 'Other',
         },
       ]);
       expect(setPreference).toHaveBeenCalledWith('all_beers_last_update', expect.any(String));
       expect(setPreference).toHaveBeenCalledWith('all_beers_last_check', expect.any(String));
+      // Stamped after the rows land, so the wishlist sees this taplist
+      expect(wishlistRepository.markOnTapUnsafe).toHaveBeenCalledTimes(1);
+      expect(
+        (beerRepository.insertManyUnsafe as jest.Mock).mock.invocationCallOrder[0]
+      ).toBeLessThan((wishlistRepository.markOnTapUnsafe as jest.Mock).mock.invocationCallOrder[0]);
     });
 
     it('should handle errors during update', async () => {
@@ -353,6 +388,94 @@ describe('dataUpdateService', () => {
       expect(result.success).toBe(true);
       expect(result.itemCount).toBe(2);
     });
+
+    it('records what changed against the taplist it replaced', async () => {
+      taplistUrlIsStable();
+      (beerRepository.getAll as jest.Mock).mockResolvedValueOnce([
+        { id: 'beer-1', brew_name: 'Staying', brewer: 'Brewery 1' },
+        { id: 'beer-2', brew_name: 'Leaving', brewer: 'Brewery 2' },
+      ]);
+      (fetchBeersFromAPI as jest.Mock).mockResolvedValueOnce(
+        fetchedRows([
+          { id: 'beer-1', brew_name: 'Staying', brewer: 'Brewery 1' },
+          { id: 'beer-3', brew_name: 'Arriving', brewer: 'Brewery 3' },
+        ])
+      );
+
+      const result = await fetchAndUpdateAllBeers();
+
+      expect(result.success).toBe(true);
+      expect(taplistDiffRepository.recordUnsafe).toHaveBeenCalledTimes(1);
+      const [diff] = (taplistDiffRepository.recordUnsafe as jest.Mock).mock.calls[0];
+      expect(diff.added.map((beer: Beer) => beer.id)).toEqual(['beer-3']);
+      expect(diff.removed.map((beer: Beer) => beer.id)).toEqual(['beer-2']);
+      expect(diff.changed).toEqual([]);
+      // Read before the replace, or it would be diffing the new rows with themselves
+      expect((beerRepository.getAll as jest.Mock).mock.invocationCallOrder[0]).toBeLessThan(
+        (beerRepository.insertManyUnsafe as jest.Mock).mock.invocationCallOrder[0]
+      );
+    });
+
+    it('records no diff on the first load, when there is no taplist to compare with', async () => {
+      taplistUrlIsStable();
+      (beerRepository.getAll as jest.Mock).mockResolvedValueOnce([]);
+      (fetchBeersFromAPI as jest.Mock).mockResolvedValueOnce(
+        fetchedRows([{ id: 'beer-1', brew_name: 'First', brewer: 'Brewery 1' }])
+      );
+
+      const result = await fetchAndUpdateAllBeers();
+
+      expect(result.success).toBe(true);
+      expect(taplistDiffRepository.recordUnsafe).not.toHaveBeenCalled();
+    });
+
+    it('still stores the taplist when the one it replaces cannot be read', async () => {
+      taplistUrlIsStable();
+      (beerRepository.getAll as jest.Mock).mockRejectedValueOnce(new Error('disk I/O error'));
+      (fetchBeersFromAPI as jest.Mock).mockResolvedValueOnce(
+        fetchedRows([{ id: 'beer-1', brew_name: 'First', brewer: 'Brewery 1' }])
+      );
+
+      const result = await fetchAndUpdateAllBeers();
+
+      expect(result.success).toBe(true);
+      expect(beerRepository.insertManyUnsafe).toHaveBeenCalled();
+      expect(taplistDiffRepository.recordUnsafe).not.toHaveBeenCalled();
+    });
+
+    it("keeps a snapshot of the new taplist under its store's ID", async () => {
+      taplistUrlIsStable('https://fsbs.beerknurd.com/bk-store-json.php?sid=13885');
+      (fetchBeersFromAPI as jest.Mock).mockResolvedValueOnce(
+        fetchedRows([{ id: 'beer-1', brew_name: 'First', brewer: 'Brewery 1' }])
+      );
+
+      const result = await fetchAndUpdateAllBeers();
+
+      expect(result.success).toBe(true);
+      expect(taplistSnapshotRepository.saveUnsafe).toHaveBeenCalledWith({
+        storeId: '13885',
+        fetchedAt: expect.any(Number),
+        source: 'fallback',
+        etag: null,
+        beers: [expect.objectContaining({ id: 'beer-1' })],
+      });
+      // After the rows, so the snapshot copies what was written
+      expect(
+        (taplistSnapshotRepository.saveUnsafe as jest.Mock).mock.invocationCallOrder[0]
+      ).toBeGreaterThan((beerRepository.insertManyUnsafe as jest.Mock).mock.invocationCallOrder[0]);
+    });
+
+    it('keeps no snapshot for a taplist URL without a store ID', async () => {
+      taplistUrlIsStable();
+      (fetchBeersFromAPI as jest.Mock).mockResolvedValueOnce(
+        fetchedRows([{ id: 'beer-1', brew_name: 'First', brewer: 'Brewery 1' }])
+      );
+
+      const result = await fetchAndUpdateAllBeers();
+
+      expect(result.success).toBe(true);
+      expect(taplistSnapshotRepository.saveUnsafe).not.toHaveBeenCalled();
+    });
   });
 
   describe('fetchAndUpdateMyBeers', () => {
@@ -504,7 +627,7 @@ describe('dataUpdateService', () => {
       expect(result.success).toBe(true);
       expect(result.dataUpdated).toBe(true);
       expect(result.itemCount).toBe(mockBeers.length);
-      // The service adds container_type, abv, and enrichment fields (all null) to beers before insertion via calculateContainerTypes()
+      // The service adds container_type, abv, enrichment fields (all null) and style_family to beers before insertion via calculateContainerTypes()
       expect(myBeersRepository.insertMany).toHaveBeenCalledWith([
         {
           id: 'beer-1',
@@ -514,6 +637,7 @@ describe('dataUpdateService', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: 'Other',
         },
         {
           id: 'beer-2',
@@ -523,6 +647,7 @@ describe('dataUpdateService', () => {
           abv: null,
           enrichment_confidence: null,
           enrichment_source: null,
+          style_family: 'Other',
         },
       ]);
       expect(setPreference).toHaveBeenCalledWith('my_beers_last_update', expect.any(String));
@@ -1563,6 +1688,27 @@ describe('dataUpdateService', () => {
       expect(result.allBeersResult.success).toBe(true);
     });
 
+    it("records the proxy's freshness and ETag on the snapshot", async () => {
+      const storeUrl = 'https://fsbs.beerknurd.com/bk-store-json.php?sid=13885';
+      (getPreference as jest.Mock).mockResolvedValue(storeUrl);
+      (config.enrichment.isConfigured as jest.Mock).mockReturnValue(true);
+      (fetchBeersFromProxy as jest.Mock).mockResolvedValue({
+        beers: [{ id: 'beer-1', brew_name: 'Test IPA', brewer: 'Brewery 1', enriched_abv: 6.5 }],
+        cached: true,
+        source: 'stale',
+        etag: '"v7"',
+      });
+      (fetchMyBeersFromAPI as jest.Mock).mockResolvedValue(fetchedRows(mockMyBeers));
+      (fetchRewardsFromAPI as jest.Mock).mockResolvedValue(fetchedRows(mockRewards));
+
+      const result = await sequentialRefreshAllData();
+
+      expect(result.allBeersResult.success).toBe(true);
+      expect(taplistSnapshotRepository.saveUnsafe).toHaveBeenCalledWith(
+        expect.objectContaining({ storeId: '13885', source: 'stale', etag: '"v7"' })
+      );
+    });
+
     it('falls back to direct API when proxy fails', async () => {
       const storeUrl = 'https://fsbs.beerknurd.com/bk-store-json.php?sid=13885';
       (getPreference as jest.Mock).mockResolvedValue(storeUrl);
@@ -1764,8 +1910,8 @@ describe('dataUpdateService', () => {
     });
   });
 
-  describe('Polling Persistence via syncMissingBeersInBackground', () => {
-    it('should persist polling enrichment results to both repositories', async () => {
+  describe('Enrichment job tracking via syncMissingBeersInBackground', () => {
+    it('should record the synced beers as enrichment jobs', async () => {
       // Use real timers for this test since we need fire-and-forget promise chains to resolve
       jest.useRealTimers();
 
@@ -1797,24 +1943,7 @@ describe('dataUpdateService', () => {
         missing: ['beer-1', 'beer-2'],
       });
 
-      // Mock pollForEnrichmentUpdates to return enrichment data
-      const mockPollingResults = {
-        'beer-1': {
-          enriched_abv: 5.5,
-          enrichment_confidence: 0.9,
-          enrichment_source: 'perplexity' as const,
-          brew_description: 'A hoppy IPA',
-        },
-        'beer-2': {
-          enriched_abv: 6.0,
-          enrichment_confidence: 0.85,
-          enrichment_source: 'description' as const,
-          brew_description: 'A smooth stout',
-        },
-      };
-      (pollForEnrichmentUpdates as jest.Mock).mockResolvedValueOnce(mockPollingResults);
-
-      // Mock syncBeersToWorker to return queued_for_cleanup > 0 (triggers polling path)
+      // Mock syncBeersToWorker to return queued_for_cleanup > 0 (triggers job tracking)
       (syncBeersToWorker as jest.Mock).mockResolvedValueOnce({
         synced: 2,
         failed: 0,
@@ -1828,32 +1957,16 @@ describe('dataUpdateService', () => {
       await fetchAndUpdateMyBeers();
 
       // Flush fire-and-forget promise chains
-      // syncBeersToWorker().then() -> pollForEnrichmentUpdates().then() -> persist
+      // syncBeersToWorker().then() -> trackEnrichmentJobs()
       await flushPromises();
 
       // Verify syncBeersToWorker was called with the missing beers
       expect(syncBeersToWorker).toHaveBeenCalled();
 
-      // Verify pollForEnrichmentUpdates was called with missing IDs
-      expect(pollForEnrichmentUpdates).toHaveBeenCalledWith(['beer-1', 'beer-2']);
-
-      // Verify enrichment data was persisted to both repositories
-      const expectedUpdates = {
-        'beer-1': {
-          enriched_abv: 5.5,
-          enrichment_confidence: 0.9,
-          enrichment_source: 'perplexity',
-          brew_description: 'A hoppy IPA',
-        },
-        'beer-2': {
-          enriched_abv: 6.0,
-          enrichment_confidence: 0.85,
-          enrichment_source: 'description',
-          brew_description: 'A smooth stout',
-        },
-      };
-      expect(beerRepository.updateEnrichmentData).toHaveBeenCalledWith(expectedUpdates);
-      expect(myBeersRepository.updateEnrichmentData).toHaveBeenCalledWith(expectedUpdates);
+      // Verify the missing IDs were recorded for polling rather than polled for here
+      expect(trackEnrichmentJobs).toHaveBeenCalledWith(['beer-1', 'beer-2']);
+      expect(beerRepository.updateEnrichmentData).not.toHaveBeenCalled();
+      expect(myBeersRepository.updateEnrichmentData).not.toHaveBeenCalled();
 
       // Restore fake timers for remaining tests
       jest.useFakeTimers();
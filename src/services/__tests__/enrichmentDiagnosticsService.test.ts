@@ -0,0 +1,197 @@
+/**
+ * Tests for enrichmentDiagnosticsService
+ *
+ * The counters must reach SQLite before they are read, or the panel shows
+ * everything but this session.
+ */
+
+import { AppState } from 'react-native';
+import {
+  DIAGNOSTICS_WINDOW_MS,
+  flushEnrichmentMetrics,
+  formatEnrichmentDiagnostics,
+  loadEnrichmentDiagnostics,
+  MAX_LOGGED_REQUESTS,
+  METRICS_RETENTION_MS,
+  RECENT_REQUEST_COUNT,
+  startEnrichmentMetricsRecorder,
+} from '../enrichmentDiagnosticsService';
+import { enrichmentMetricsRepository } from '../../database/repositories/EnrichmentMetricsRepository';
+import { getEnrichmentHealthDetails, takePendingEnrichmentMetrics } from '../enrichmentService';
+import { logWarning } from '../../utils/errorLogger';
+import { EnrichmentCounter } from '../../types/enrichment';
+
+jest.mock('../../database/repositories/EnrichmentMetricsRepository', () => ({
+  enrichmentMetricsRepository: {
+    record: jest.fn(async () => {}),
+    removeBucketsBefore: jest.fn(async () => 0),
+    getTotalsSince: jest.fn(),
+    getRecentRequests: jest.fn(),
+  },
+}));
+
+jest.mock('../enrichmentService', () => ({
+  getEnrichmentHealthDetails: jest.fn(),
+  takePendingEnrichmentMetrics: jest.fn(),
+}));
+
+jest.mock('../../utils/errorLogger', () => ({
+  logWarning: jest.fn(),
+}));
+
+const NOW = 40 * 24 * 60 * 60 * 1000;
+
+const totals = (overrides: Partial<Record<EnrichmentCounter, number>> = {}) => ({
+  proxyRequests: 0,
+  proxySuccesses: 0,
+  proxyFailures: 0,
+  rateLimitedRequests: 0,
+  fallbackCount: 0,
+  enrichedBeerCount: 0,
+  unenrichedBeerCount: 0,
+  cacheHits: 0,
+  ...overrides,
+});
+
+const pending = {
+  buckets: [{ bucket_start: NOW - 3600000, counts: { proxyRequests: 1 } }],
+  requests: [
+    { request_id: 'req-1', endpoint: 'beers', outcome: 'ok' as const, recorded_at: NOW - 10 },
+  ],
+};
+
+describe('enrichmentDiagnosticsService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (takePendingEnrichmentMetrics as jest.Mock).mockReturnValue(pending);
+  });
+
+  describe('flushEnrichmentMetrics', () => {
+    it('writes what is pending and drops buckets past retention', async () => {
+      await flushEnrichmentMetrics(NOW);
+
+      expect(enrichmentMetricsRepository.record).toHaveBeenCalledWith(
+        pending.buckets,
+        pending.requests,
+        MAX_LOGGED_REQUESTS
+      );
+      expect(enrichmentMetricsRepository.removeBucketsBefore).toHaveBeenCalledWith(
+        NOW - METRICS_RETENTION_MS
+      );
+    });
+
+    it('logs a failed write instead of throwing', async () => {
+      (enrichmentMetricsRepository.record as jest.Mock).mockRejectedValueOnce(
+        new Error('database is locked')
+      );
+
+      await expect(flushEnrichmentMetrics(NOW)).resolves.toBeUndefined();
+      expect(logWarning).toHaveBeenCalledWith(
+        'Failed to save enrichment metrics',
+        expect.objectContaining({ operation: 'flushEnrichmentMetrics' })
+      );
+    });
+  });
+
+  describe('startEnrichmentMetricsRecorder', () => {
+    it('writes the pending metrics when the app goes to the background', async () => {
+      let onChange: ((state: string) => void) | undefined;
+      const remove = jest.fn();
+      jest.spyOn(AppState, 'addEventListener').mockImplementation((_type, listener) => {
+        onChange = listener as (state: string) => void;
+        return { remove } as never;
+      });
+
+      const stop = startEnrichmentMetricsRecorder();
+      onChange?.('inactive');
+      expect(takePendingEnrichmentMetrics).not.toHaveBeenCalled();
+
+      onChange?.('background');
+      await Promise.resolve();
+      expect(enrichmentMetricsRepository.record).toHaveBeenCalledTimes(1);
+
+      stop();
+      expect(remove).toHaveBeenCalled();
+    });
+  });
+
+  describe('loadEnrichmentDiagnostics', () => {
+    it('writes what is pending before reading the last 7 days', async () => {
+      const order: string[] = [];
+      (enrichmentMetricsRepository.record as jest.Mock).mockImplementationOnce(async () => {
+        order.push('record');
+      });
+      (enrichmentMetricsRepository.getTotalsSince as jest.Mock).mockImplementationOnce(async () => {
+        order.push('read');
+        return totals({ proxyRequests: 10, proxySuccesses: 8, cacheHits: 2, fallbackCount: 1 });
+      });
+      (enrichmentMetricsRepository.getRecentRequests as jest.Mock).mockResolvedValueOnce(
+        pending.requests
+      );
+      (getEnrichmentHealthDetails as jest.Mock).mockResolvedValueOnce({
+        status: 'ok',
+        database: 'connected',
+        enrichment: {
+          enabled: true,
+          daily: { used: 40, limit: 100, remaining: 60 },
+          monthly: { used: 400, limit: 1000, remaining: 600 },
+        },
+      });
+
+      const diagnostics = await loadEnrichmentDiagnostics(NOW);
+
+      expect(order).toEqual(['record', 'read']);
+      expect(enrichmentMetricsRepository.getTotalsSince).toHaveBeenCalledWith(
+        NOW - DIAGNOSTICS_WINDOW_MS
+      );
+      expect(enrichmentMetricsRepository.getRecentRequests).toHaveBeenCalledWith(
+        RECENT_REQUEST_COUNT
+      );
+      expect(diagnostics.successRate).toBe(0.8);
+      expect(diagnostics.cacheHitRatio).toBe(0.25);
+      expect(diagnostics.quota?.daily.used).toBe(40);
+      expect(diagnostics.recentRequests).toEqual(pending.requests);
+    });
+
+    it('has no rates without requests and no quota without /health', async () => {
+      (enrichmentMetricsRepository.getTotalsSince as jest.Mock).mockResolvedValueOnce(totals());
+      (enrichmentMetricsRepository.getRecentRequests as jest.Mock).mockResolvedValueOnce([]);
+      (getEnrichmentHealthDetails as jest.Mock).mockResolvedValueOnce(null);
+
+      const diagnostics = await loadEnrichmentDiagnostics(NOW);
+
+      expect(diagnostics.successRate).toBeNull();
+      expect(diagnostics.cacheHitRatio).toBeNull();
+      expect(diagnostics.quota).toBeNull();
+    });
+  });
+
+  describe('formatEnrichmentDiagnostics', () => {
+    it('lists the rates, counters, quota and requests as text', () => {
+      const text = formatEnrichmentDiagnostics(
+        {
+          since: 0,
+          totals: totals({ proxyRequests: 4, proxySuccesses: 3, fallbackCount: 2 }),
+          successRate: 0.75,
+          cacheHitRatio: null,
+          quota: {
+            enabled: false,
+            daily: { used: 100, limit: 100, remaining: 0 },
+            monthly: { used: 500, limit: 1000, remaining: 500 },
+          },
+          recentRequests: [
+            { request_id: null, endpoint: 'batch', outcome: 'timed_out', recorded_at: 1000 },
+          ],
+        },
+        2000
+      );
+
+      expect(text).toContain('Success rate: 75%');
+      expect(text).toContain('Cache hit ratio: —');
+      expect(text).toContain('Fallbacks: 2');
+      expect(text).toContain('  proxyRequests: 4');
+      expect(text).toContain('Quota: daily 100/100, monthly 500/1000 (enrichment disabled)');
+      expect(text).toContain('1970-01-01T00:00:01.000Z batch timed_out -');
+    });
+  });
+});
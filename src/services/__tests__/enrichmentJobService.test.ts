@@ -0,0 +1,319 @@
+/**
+ * Tests for enrichmentJobService
+ *
+ * A job leaves the table only when its result is stored or its budget is
+ * spent; anything else — a paused run, a spent quota, a failed write — must
+ * leave it there for the next foreground.
+ */
+
+import {
+  MAX_JOB_ATTEMPTS,
+  MAX_ROUNDS_PER_RUN,
+  pollRoundBudget,
+  runEnrichmentJobs,
+} from '../enrichmentJobService';
+import { config } from '@/src/config';
+import { beerRepository } from '../../database/repositories/BeerRepository';
+import { myBeersRepository } from '../../database/repositories/MyBeersRepository';
+import { enrichmentJobRepository } from '../../database/repositories/EnrichmentJobRepository';
+import {
+  EnrichmentData,
+  fetchEnrichmentUpdates,
+  getEnrichmentHealthDetails,
+  HealthResponse,
+} from '../enrichmentService';
+import { logWarning } from '../../utils/errorLogger';
+import { EnrichmentJob } from '../../types/enrichment';
+
+jest.mock('@/src/config', () => {
+  const actual = jest.requireActual('@/src/config');
+  return {
+    ...actual,
+    config: {
+      ...actual.config,
+      enrichment: {
+        ...actual.config.enrichment,
+        batchSize: 2,
+        isConfigured: jest.fn().mockReturnValue(true),
+      },
+    },
+  };
+});
+
+jest.mock('../../database/repositories/BeerRepository', () => ({
+  beerRepository: { updateEnrichmentData: jest.fn(async () => 0) },
+}));
+
+jest.mock('../../database/repositories/MyBeersRepository', () => ({
+  myBeersRepository: { updateEnrichmentData: jest.fn(async () => 0) },
+}));
+
+jest.mock('../../database/repositories/EnrichmentJobRepository', () => ({
+  enrichmentJobRepository: {
+    getAll: jest.fn(),
+    remove: jest.fn(async () => {}),
+    recordAttempt: jest.fn(async () => {}),
+    removeExpired: jest.fn(async () => 0),
+  },
+}));
+
+jest.mock('../enrichmentService', () => ({
+  fetchEnrichmentUpdates: jest.fn(),
+  getEnrichmentHealthDetails: jest.fn(),
+}));
+
+jest.mock('../../utils/errorLogger', () => ({
+  logWarning: jest.fn(),
+}));
+
+const quota = (dailyRemaining: number, monthlyRemaining = 100) => ({
+  enabled: true,
+  daily: { used: 0, limit: 100, remaining: dailyRemaining },
+  monthly: { used: 0, limit: 1000, remaining: monthlyRemaining },
+});
+
+const healthy: HealthResponse = { status: 'ok', database: 'connected', enrichment: quota(50) };
+
+const job = (beer_id: string, overrides: Partial<EnrichmentJob> = {}): EnrichmentJob => ({
+  beer_id,
+  requested_at: 1000,
+  attempts: 0,
+  last_attempt_at: null,
+  ...overrides,
+});
+
+const enriched: EnrichmentData = {
+  enriched_abv: 6.5,
+  enrichment_confidence: 0.9,
+  enrichment_source: 'perplexity',
+  brew_description: 'A hazy IPA',
+  has_cleaned_description: true,
+};
+
+describe('enrichmentJobService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation();
+    (config.enrichment.isConfigured as jest.Mock).mockReturnValue(true);
+    (getEnrichmentHealthDetails as jest.Mock).mockResolvedValue(healthy);
+    (fetchEnrichmentUpdates as jest.Mock).mockResolvedValue({});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('pollRoundBudget', () => {
+    it('allows no polls when /health could not be read or reports an error', () => {
+      expect(pollRoundBudget(null).rounds).toBe(0);
+      expect(pollRoundBudget({ ...healthy, status: 'error' }).rounds).toBe(0);
+    });
+
+    it('allows no polls when enrichment is disabled or a quota is spent', () => {
+      expect(
+        pollRoundBudget({ ...healthy, enrichment: { ...quota(50), enabled: false } }).rounds
+      ).toBe(0);
+      expect(pollRoundBudget({ ...healthy, enrichment: quota(0) }).rounds).toBe(0);
+      expect(pollRoundBudget({ ...healthy, enrichment: quota(50, 0) }).rounds).toBe(0);
+    });
+
+    it('allows the full budget when quota covers a full run or is not reported', () => {
+      expect(pollRoundBudget(healthy, 2)).toEqual({ rounds: MAX_ROUNDS_PER_RUN, batchSize: 2 });
+      expect(pollRoundBudget({ status: 'ok', database: 'connected' }, 2)).toEqual({
+        rounds: MAX_ROUNDS_PER_RUN,
+        batchSize: 2,
+      });
+    });
+
+    it('asks about no more beers than the quota has left for', () => {
+      expect(pollRoundBudget({ ...healthy, enrichment: quota(7) }, 2)).toEqual({
+        rounds: 3,
+        batchSize: 2,
+      });
+      expect(pollRoundBudget({ ...healthy, enrichment: quota(50, 5) }, 10)).toEqual({
+        rounds: 1,
+        batchSize: 5,
+      });
+    });
+  });
+
+  describe('runEnrichmentJobs', () => {
+    it('is idle when enrichment is not configured', async () => {
+      (config.enrichment.isConfigured as jest.Mock).mockReturnValue(false);
+
+      const outcome = await runEnrichmentJobs(new AbortController().signal);
+
+      expect(outcome).toEqual({ status: 'idle' });
+      expect(enrichmentJobRepository.getAll).not.toHaveBeenCalled();
+    });
+
+    it('is idle without asking /health when no jobs are waiting', async () => {
+      (enrichmentJobRepository.getAll as jest.Mock).mockResolvedValue([]);
+
+      const outcome = await runEnrichmentJobs(new AbortController().signal);
+
+      expect(outcome).toEqual({ status: 'idle' });
+      expect(enrichmentJobRepository.removeExpired).toHaveBeenCalledWith(
+        MAX_JOB_ATTEMPTS,
+        expect.any(Number)
+      );
+      expect(getEnrichmentHealthDetails).not.toHaveBeenCalled();
+    });
+
+    it('defers without counting attempts when the quota is spent', async () => {
+      (enrichmentJobRepository.getAll as jest.Mock).mockResolvedValue([job('b1')]);
+      (getEnrichmentHealthDetails as jest.Mock).mockResolvedValue({
+        ...healthy,
+        enrichment: quota(0),
+      });
+
+      const outcome = await runEnrichmentJobs(new AbortController().signal);
+
+      expect(outcome).toEqual({ status: 'deferred', reason: 'quota', pending: 1 });
+      expect(fetchEnrichmentUpdates).not.toHaveBeenCalled();
+      expect(enrichmentJobRepository.recordAttempt).not.toHaveBeenCalled();
+    });
+
+    it('defers as unavailable when /health cannot be read', async () => {
+      (enrichmentJobRepository.getAll as jest.Mock).mockResolvedValue([job('b1')]);
+      (getEnrichmentHealthDetails as jest.Mock).mockResolvedValue(null);
+
+      const outcome = await runEnrichmentJobs(new AbortController().signal);
+
+      expect(outcome).toEqual({ status: 'deferred', reason: 'unavailable', pending: 1 });
+    });
+
+    it('stores results, removes their jobs and counts an attempt for the rest', async () => {
+      (enrichmentJobRepository.getAll as jest.Mock)
+        .mockResolvedValueOnce([job('b1'), job('b2')])
+        .mockResolvedValueOnce([job('b2', { attempts: 1, last_attempt_at: 2000 })])
+        .mockResolvedValueOnce([]);
+      (fetchEnrichmentUpdates as jest.Mock)
+        .mockResolvedValueOnce({ b1: enriched })
+        .mockResolvedValueOnce({ b2: enriched });
+
+      const run = runEnrichmentJobs(new AbortController().signal);
+      await jest.advanceTimersByTimeAsync(5000);
+      await jest.advanceTimersByTimeAsync(10000);
+      const outcome = await run;
+
+      expect(outcome).toEqual({ status: 'finished', enriched: 2, pending: 0 });
+      expect(fetchEnrichmentUpdates).toHaveBeenNthCalledWith(1, ['b1', 'b2'], expect.anything());
+      expect(beerRepository.updateEnrichmentData).toHaveBeenCalledWith({
+        b1: {
+          enriched_abv: 6.5,
+          enrichment_confidence: 0.9,
+          enrichment_source: 'perplexity',
+          brew_description: 'A hazy IPA',
+        },
+      });
+      expect(myBeersRepository.updateEnrichmentData).toHaveBeenCalledTimes(2);
+      expect(enrichmentJobRepository.remove).toHaveBeenNthCalledWith(1, ['b1']);
+      expect(enrichmentJobRepository.recordAttempt).toHaveBeenNthCalledWith(1, ['b2']);
+      expect(enrichmentJobRepository.remove).toHaveBeenNthCalledWith(2, ['b2']);
+    });
+
+    it('asks about at most a batch of jobs, least recently asked first', async () => {
+      (enrichmentJobRepository.getAll as jest.Mock)
+        .mockResolvedValueOnce([
+          job('asked-late', { attempts: 1, last_attempt_at: 3000 }),
+          job('asked-early', { attempts: 1, last_attempt_at: 2000 }),
+          job('never-asked'),
+        ])
+        .mockResolvedValue([]);
+
+      const run = runEnrichmentJobs(new AbortController().signal);
+      await jest.advanceTimersByTimeAsync(5000);
+      await run;
+
+      expect(fetchEnrichmentUpdates).toHaveBeenCalledWith(
+        ['never-asked', 'asked-early'],
+        expect.anything()
+      );
+    });
+
+    it('keeps the jobs when storing their results fails', async () => {
+      (enrichmentJobRepository.getAll as jest.Mock)
+        .mockResolvedValueOnce([job('b1')])
+        .mockResolvedValue([]);
+      (fetchEnrichmentUpdates as jest.Mock).mockResolvedValueOnce({ b1: enriched });
+      (beerRepository.updateEnrichmentData as jest.Mock).mockRejectedValueOnce(
+        new Error('database is locked')
+      );
+
+      const run = runEnrichmentJobs(new AbortController().signal);
+      await jest.advanceTimersByTimeAsync(5000);
+      const outcome = await run;
+
+      expect(outcome).toMatchObject({ status: 'finished', enriched: 0 });
+      expect(enrichmentJobRepository.remove).toHaveBeenCalledWith([]);
+      expect(enrichmentJobRepository.recordAttempt).toHaveBeenCalledWith(['b1']);
+      expect(logWarning).toHaveBeenCalled();
+    });
+
+    it('stops after its round budget with jobs still waiting', async () => {
+      (enrichmentJobRepository.getAll as jest.Mock).mockResolvedValue([job('b1')]);
+
+      const run = runEnrichmentJobs(new AbortController().signal);
+      await jest.advanceTimersByTimeAsync(10 * 60 * 1000);
+      const outcome = await run;
+
+      expect(outcome).toEqual({ status: 'finished', enriched: 0, pending: 1 });
+      expect(fetchEnrichmentUpdates).toHaveBeenCalledTimes(MAX_ROUNDS_PER_RUN);
+    });
+
+    it('polls only as far as a quota smaller than one run allows', async () => {
+      (getEnrichmentHealthDetails as jest.Mock).mockResolvedValue({
+        ...healthy,
+        enrichment: quota(3),
+      });
+      (enrichmentJobRepository.getAll as jest.Mock).mockResolvedValue([
+        job('b1'),
+        job('b2'),
+        job('b3'),
+      ]);
+
+      const run = runEnrichmentJobs(new AbortController().signal);
+      await jest.advanceTimersByTimeAsync(10 * 60 * 1000);
+      const outcome = await run;
+
+      expect(outcome).toEqual({ status: 'finished', enriched: 0, pending: 3 });
+      expect(fetchEnrichmentUpdates).toHaveBeenCalledTimes(1);
+      expect((fetchEnrichmentUpdates as jest.Mock).mock.calls[0][0]).toHaveLength(2);
+    });
+
+    it('pauses during its sleep without asking or counting', async () => {
+      (enrichmentJobRepository.getAll as jest.Mock).mockResolvedValue([job('b1')]);
+      const controller = new AbortController();
+
+      const run = runEnrichmentJobs(controller.signal);
+      await jest.advanceTimersByTimeAsync(1000);
+      controller.abort();
+      const outcome = await run;
+
+      expect(outcome).toEqual({ status: 'paused', enriched: 0, pending: 1 });
+      expect(fetchEnrichmentUpdates).not.toHaveBeenCalled();
+      expect(enrichmentJobRepository.recordAttempt).not.toHaveBeenCalled();
+    });
+
+    it('discards an answer that arrives after the pause', async () => {
+      (enrichmentJobRepository.getAll as jest.Mock).mockResolvedValue([job('b1')]);
+      const controller = new AbortController();
+      (fetchEnrichmentUpdates as jest.Mock).mockImplementationOnce(async () => {
+        controller.abort();
+        return { b1: enriched };
+      });
+
+      const run = runEnrichmentJobs(controller.signal);
+      await jest.advanceTimersByTimeAsync(5000);
+      const outcome = await run;
+
+      expect(outcome).toEqual({ status: 'paused', enriched: 0, pending: 1 });
+      expect(beerRepository.updateEnrichmentData).not.toHaveBeenCalled();
+      expect(enrichmentJobRepository.remove).not.toHaveBeenCalled();
+      expect(enrichmentJobRepository.recordAttempt).not.toHaveBeenCalled();
+    });
+  });
+});
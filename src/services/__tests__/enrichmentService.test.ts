@@ -12,6 +12,8 @@ import {
   getEnrichmentMetrics,
   resetEnrichmentMetrics,
   recordFallback,
+  takePendingEnrichmentMetrics,
+  METRICS_BUCKET_MS,
   getTimeUntilNextRequest,
   mergeEnrichmentData,
   checkEnrichmentHealth,
@@ -21,6 +23,7 @@ import {
   fetchEnrichmentBatch,
   fetchEnrichmentBatchWithMissing,
   syncBeersToWorker,
+  submitBeerCorrection,
   pollForEnrichmentUpdates,
   getClientId,
   EnrichmentData,
@@ -67,6 +70,7 @@ global.fetch = mockFetch;
 
 function setupEnrichmentTest() {
   resetEnrichmentMetrics();
+  takePendingEnrichmentMetrics();
   __resetRateLimitStateForTests();
   mockFetch.mockReset();
   return { mockFetch };
@@ -134,6 +138,61 @@ describe('enrichmentService', () => {
       });
     });
 
+    describe('takePendingEnrichmentMetrics', () => {
+      it('returns the counts by hour and the requests, then none', async () => {
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => ({ storeId: '13879', beers: [], requestId: 'req-1', source: 'cache' }),
+          headers: new Headers({ 'X-Request-ID': 'req-1' }),
+        });
+        recordFallback();
+
+        await fetchBeersFromProxy('13879');
+        const { buckets, requests } = takePendingEnrichmentMetrics();
+
+        expect(buckets).toHaveLength(1);
+        expect(buckets[0].bucket_start % METRICS_BUCKET_MS).toBe(0);
+        expect(buckets[0].counts).toEqual({
+          fallbackCount: 1,
+          proxyRequests: 1,
+          proxySuccesses: 1,
+          cacheHits: 1,
+        });
+        expect(requests).toEqual([
+          {
+            request_id: 'req-1',
+            endpoint: 'beers',
+            outcome: 'cached',
+            recorded_at: expect.any(Number),
+          },
+        ]);
+        expect(takePendingEnrichmentMetrics()).toEqual({ buckets: [], requests: [] });
+      });
+
+      it('survives resetEnrichmentMetrics, which only clears this session', () => {
+        recordFallback();
+        resetEnrichmentMetrics();
+
+        expect(takePendingEnrichmentMetrics().buckets[0].counts).toEqual({ fallbackCount: 1 });
+      });
+
+      it('logs a request that never got an answer', async () => {
+        const abortError = new Error('The operation was aborted');
+        abortError.name = 'AbortError';
+        mockFetch.mockRejectedValueOnce(abortError);
+        mockFetch.mockResolvedValueOnce({ ok: false, status: 401, headers: new Headers() });
+
+        await expect(fetchBeersFromProxy('13879')).rejects.toThrow();
+        await expect(fetchBeersFromProxy('13879')).rejects.toThrow();
+
+        expect(takePendingEnrichmentMetrics().requests).toEqual([
+          expect.objectContaining({ endpoint: 'beers', outcome: 'timed_out', request_id: null }),
+          expect.objectContaining({ endpoint: 'beers', outcome: 'failed', request_id: null }),
+        ]);
+      });
+    });
+
     describe('recordFallback', () => {
       it('should increment fallback count', () => {
         expect(getEnrichmentMetrics().fallbackCount).toBe(0);
@@ -1264,6 +1323,82 @@ describe('enrichmentService', () => {
     });
   });
 
+  describe('submitBeerCorrection', () => {
+    const correction = { id: '123', abv: 6.8, brew_style: null, brew_description: 'Piney' };
+
+    beforeEach(() => {
+      (getPreference as jest.Mock).mockResolvedValue('test-client-id');
+    });
+
+    it('should not send and not retry when not configured', async () => {
+      const { config } = require('@/src/config');
+      config.enrichment.isConfigured.mockReturnValueOnce(false);
+
+      const result = await submitBeerCorrection(correction);
+
+      expect(result).toEqual({ success: false, error: expect.any(String), isRetryable: false });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should post only the corrected fields', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, status: 200 });
+
+      const result = await submitBeerCorrection(correction);
+
+      expect(result).toEqual({ success: true });
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test-api.example.com/corrections',
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({ 'X-API-Key': 'test-api-key' }),
+        })
+      );
+      expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+        id: '123',
+        abv: 6.8,
+        brew_description: 'Piney',
+      });
+      expect(getEnrichmentMetrics().proxySuccesses).toBe(1);
+    });
+
+    it('should mark server errors and rate limits as retryable', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 503, text: async () => 'Unavailable' })
+        .mockResolvedValueOnce({ ok: false, status: 429 });
+
+      expect(await submitBeerCorrection(correction)).toMatchObject({
+        success: false,
+        isRetryable: true,
+      });
+      expect(await submitBeerCorrection(correction)).toMatchObject({
+        success: false,
+        isRetryable: true,
+      });
+      expect(getEnrichmentMetrics().rateLimitedRequests).toBe(1);
+    });
+
+    it('should not retry a correction the Worker rejected', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 400, text: async () => 'Bad ABV' });
+
+      const result = await submitBeerCorrection(correction);
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Correction rejected: 400 - Bad ABV',
+        isRetryable: false,
+      });
+    });
+
+    it('should return a retryable failure instead of throwing on network errors', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('Network request failed'));
+
+      const result = await submitBeerCorrection(correction);
+
+      expect(result).toMatchObject({ success: false, isRetryable: true });
+      expect(getEnrichmentMetrics().proxyFailures).toBe(1);
+    });
+  });
+
   describe('fetchEnrichmentBatchWithMissing', () => {
     const mockGetPreference = getPreference as jest.Mock;
 
@@ -85,6 +85,10 @@ jest.mock('@/src/config', () => {
         ...actual.config.enrichment,
         isConfigured: jest.fn().mockReturnValue(false),
       },
+      taplistFile: {
+        uri: 'file:///fixtures/taplist.csv',
+        isConfigured: jest.fn().mockReturnValue(false),
+      },
     },
   };
 });
@@ -102,6 +106,7 @@ describe('fetchTaplistFromProxyOrDirect', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     (config.enrichment.isConfigured as jest.Mock).mockReturnValue(false);
+    (config.taplistFile.isConfigured as jest.Mock).mockReturnValue(false);
   });
 
   it('calls fetchBeersFromProxy when enrichment is configured and storeId is provided', async () => {
@@ -374,4 +379,63 @@ describe('fetchTaplistFromProxyOrDirect', () => {
 
     expect(result.etag).toBeNull();
   });
+
+  describe('static taplist file', () => {
+    const fileResponse = (body: string, status = 200) =>
+      ({ ok: status < 400, status, statusText: '', text: async () => body }) as Response;
+
+    beforeEach(() => {
+      (config.taplistFile.isConfigured as jest.Mock).mockReturnValue(true);
+      global.fetch = jest.fn();
+    });
+
+    it('reads the file instead of the proxy and the Flying Saucer API', async () => {
+      (config.enrichment.isConfigured as jest.Mock).mockReturnValue(true);
+      (global.fetch as jest.Mock).mockResolvedValue(
+        fileResponse('id,brew_name,brewer\n1,Fixture Lager,Fixture Brewing')
+      );
+
+      const result = await fetchTaplistFromProxyOrDirect('13885');
+
+      expect(global.fetch).toHaveBeenCalledWith('file:///fixtures/taplist.csv');
+      expect(fetchBeersFromProxy).not.toHaveBeenCalled();
+      expect(fetchBeersFromAPI).not.toHaveBeenCalled();
+      expect(recordFallback).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        beers: [{ id: '1', brew_name: 'Fixture Lager', brewer: 'Fixture Brewing' }],
+        source: 'file',
+        usedProxy: false,
+        etag: null,
+        notModified: false,
+      });
+    });
+
+    it('fails rather than falling back to the live taplist when the file is unusable', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(fileResponse('name\nno ids here'));
+
+      const error = await fetchTaplistFromProxyOrDirect('13885').catch(e => e);
+
+      expect(createErrorResponse(error).type).toBe(ApiErrorType.MALFORMED_RESPONSE_ERROR);
+      expect(fetchBeersFromAPI).not.toHaveBeenCalled();
+    });
+
+    it('fails when the file cannot be read', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue(fileResponse('', 404));
+
+      await expect(fetchTaplistFromProxyOrDirect('13885')).rejects.toThrow();
+      expect(fetchBeersFromAPI).not.toHaveBeenCalled();
+    });
+  });
+
+  it('reports which source answered', async () => {
+    (config.enrichment.isConfigured as jest.Mock).mockReturnValue(true);
+    (fetchBeersFromProxy as jest.Mock).mockRejectedValue(new Error('proxy down'));
+    (fetchBeersFromAPI as jest.Mock).mockResolvedValue(
+      fetchedRows([{ id: 'beer-1', brew_name: 'Test', brewer: 'B' }])
+    );
+
+    const result = await fetchTaplistFromProxyOrDirect('13885');
+
+    expect(result.source).toBe('flying-saucer');
+  });
 });
@@ -0,0 +1,896 @@
+import {
+  OPERATION_DEPENDENCY_FAILED_ERROR,
+  OPERATION_EXPIRED_ERROR,
+  OperationHandler,
+  OperationQueueEngine,
+} from '../operationQueueEngine';
+import type { OperationAttemptRepository } from '../../database/repositories/OperationAttemptRepository';
+import type { OperationQueueRepository } from '../../database/repositories/OperationQueueRepository';
+import {
+  OperationAttempt,
+  OperationPayload,
+  OperationStatus,
+  OperationType,
+  QueuedOperation,
+  RefreshDataPayload,
+  RewardRedemptionPayload,
+  isRefreshDataPayload,
+} from '../../types/operationQueue';
+
+/** The repository's queue kept in memory */
+function createRepository() {
+  const rows = new Map<string, QueuedOperation>();
+  const dedupeKeys = new Map<string, string>();
+
+  const repository = {
+    rows,
+    addOperation: jest.fn(async (operation: QueuedOperation) => {
+      rows.set(operation.id, { ...operation });
+    }),
+    addOperationOrUpdateWaiting: jest.fn(async (operation: QueuedOperation, dedupeKey: string) => {
+      const waiting = Array.from(rows.values()).find(
+        op => op.status === OperationStatus.PENDING && dedupeKeys.get(op.id) === dedupeKey
+      );
+      if (waiting) {
+        waiting.payload = operation.payload;
+        waiting.dependsOn = operation.dependsOn;
+        return waiting.id;
+      }
+      rows.set(operation.id, { ...operation });
+      dedupeKeys.set(operation.id, dedupeKey);
+      return operation.id;
+    }),
+    getAllOperations: jest.fn(async () => Array.from(rows.values())),
+    getPendingOperations: jest.fn(async () =>
+      Array.from(rows.values())
+        .filter(op => op.status === OperationStatus.PENDING)
+        .sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0) || a.timestamp - b.timestamp)
+    ),
+    getOperationById: jest.fn(async (id: string) => rows.get(id) ?? null),
+    getOperationByIdempotencyKey: jest.fn(
+      async (key: string) => Array.from(rows.values()).find(op => op.idempotencyKey === key) ?? null
+    ),
+    resetRetrying: jest.fn(async () => {
+      const retrying = Array.from(rows.values()).filter(
+        op => op.status === OperationStatus.RETRYING
+      );
+      retrying.forEach(op => {
+        op.status = OperationStatus.PENDING;
+      });
+      return retrying.length;
+    }),
+    markRetrying: jest.fn(async (id: string) => {
+      const operation = rows.get(id);
+      if (!operation || operation.status === OperationStatus.RETRYING) {
+        return false;
+      }
+      operation.status = OperationStatus.RETRYING;
+      return true;
+    }),
+    updateStatus: jest.fn(async (id: string, status: OperationStatus, errorMessage?: string) => {
+      const operation = rows.get(id);
+      if (operation) {
+        operation.status = status;
+        operation.errorMessage = errorMessage;
+      }
+    }),
+    incrementRetryCount: jest.fn(async (id: string, errorMessage?: string) => {
+      const operation = rows.get(id);
+      if (operation) {
+        operation.retryCount += 1;
+        operation.status = OperationStatus.PENDING;
+        operation.errorMessage = errorMessage;
+      }
+    }),
+    deleteOperation: jest.fn(async (id: string) => {
+      rows.delete(id);
+    }),
+    clearAll: jest.fn(async () => {
+      rows.clear();
+    }),
+    resubmit: jest.fn(async (id: string, payload?: OperationPayload) => {
+      const operation = rows.get(id);
+      if (!operation || operation.status !== OperationStatus.FAILED) {
+        return false;
+      }
+      operation.status = OperationStatus.PENDING;
+      operation.retryCount = 0;
+      operation.errorMessage = undefined;
+      operation.expiresAt = undefined;
+      operation.payload = payload ?? operation.payload;
+      return true;
+    }),
+  };
+
+  return repository;
+}
+
+/** The attempts table kept in memory */
+function createAttempts() {
+  let rows: OperationAttempt[] = [];
+
+  const attempts = {
+    get rows() {
+      return rows;
+    },
+    recordAttempt: jest.fn(async (attempt: OperationAttempt) => {
+      rows.push({ ...attempt });
+    }),
+    getAttempts: jest.fn(async (ids: readonly string[]) =>
+      rows.filter(attempt => ids.includes(attempt.operationId))
+    ),
+    deleteForOperation: jest.fn(async (id: string) => {
+      rows = rows.filter(attempt => attempt.operationId !== id);
+    }),
+    clearAll: jest.fn(async () => {
+      rows = [];
+    }),
+  };
+
+  return attempts;
+}
+
+const refreshPayload: RefreshDataPayload = { dataType: 'all' };
+const rewardPayload: RewardRedemptionPayload = {
+  rewardId: 'reward-1',
+  rewardType: 'Free pint',
+  memberId: 'member-1',
+};
+
+describe('OperationQueueEngine', () => {
+  let repository: ReturnType<typeof createRepository>;
+  let attempts: ReturnType<typeof createAttempts>;
+  let engine: OperationQueueEngine;
+  let handler: jest.Mocked<Required<OperationHandler<RefreshDataPayload>>>;
+  let sleep: jest.Mock;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+
+    repository = createRepository();
+    attempts = createAttempts();
+    sleep = jest.fn().mockResolvedValue(undefined);
+    engine = new OperationQueueEngine({
+      repository: repository as unknown as OperationQueueRepository,
+      attempts: attempts as unknown as OperationAttemptRepository,
+      retryConfig: { maxRetries: 2, baseDelayMs: 100, maxDelayMs: 300 },
+      sleep,
+    });
+
+    handler = {
+      validate: jest.fn(isRefreshDataPayload) as unknown as typeof handler.validate,
+      execute: jest.fn().mockResolvedValue({ success: true }),
+      classifyError: jest.fn((_error: unknown) => ({ error: 'classified', isRetryable: false })),
+      dedupeKey: jest.fn(payload => `refresh:${payload.dataType}`),
+      dependencyOrdersOnly: false,
+    };
+    engine.registerHandler(OperationType.REFRESH_ALL_DATA, handler);
+    engine.registerHandler(OperationType.REFRESH_REWARDS, handler);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('enqueue', () => {
+    it('stores a pending operation and announces the change', async () => {
+      const onChange = jest.fn();
+      engine.onChange(onChange);
+
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+
+      expect(repository.rows.get(id)).toMatchObject({
+        type: OperationType.REFRESH_ALL_DATA,
+        payload: refreshPayload,
+        retryCount: 0,
+        status: OperationStatus.PENDING,
+      });
+      expect(onChange).toHaveBeenCalled();
+    });
+
+    it('rejects a type with no handler', async () => {
+      await expect(
+        engine.enqueue(OperationType.ADD_TO_REWARD_QUEUE, rewardPayload)
+      ).rejects.toThrow('No handler registered for ADD_TO_REWARD_QUEUE');
+      expect(repository.rows.size).toBe(0);
+    });
+
+    it('rejects a payload the handler does not accept', async () => {
+      await expect(engine.enqueue(OperationType.REFRESH_ALL_DATA, rewardPayload)).rejects.toThrow(
+        'Invalid REFRESH_ALL_DATA payload'
+      );
+      expect(repository.rows.size).toBe(0);
+    });
+
+    it('returns the waiting operation with the same dedupe key, across types', async () => {
+      const first = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+      const second = await engine.enqueue(OperationType.REFRESH_REWARDS, refreshPayload);
+
+      expect(second).toBe(first);
+      expect(repository.rows.size).toBe(1);
+    });
+
+    it('hands the newer dependency to the waiting operation with the same dedupe key', async () => {
+      const onChange = jest.fn();
+      const first = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        dependsOn: 'op-check-in-1',
+      });
+      engine.onChange(onChange);
+
+      const second = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        dependsOn: 'op-check-in-2',
+      });
+
+      expect(second).toBe(first);
+      expect(repository.rows.get(first)?.dependsOn).toBe('op-check-in-2');
+      expect(onChange).toHaveBeenCalled();
+    });
+
+    it('queues again rather than join an operation already running', async () => {
+      const first = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+      repository.rows.get(first)!.status = OperationStatus.RETRYING;
+
+      const second = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+
+      expect(second).not.toBe(first);
+    });
+
+    it('dedupes operations queued at the same time', async () => {
+      const ids = await Promise.all([
+        engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload),
+        engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload),
+      ]);
+
+      expect(ids[0]).toBe(ids[1]);
+      expect(repository.rows.size).toBe(1);
+    });
+
+    it('queues again once the waiting operation has failed', async () => {
+      const first = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+      repository.rows.get(first)!.status = OperationStatus.FAILED;
+
+      const second = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+
+      expect(second).not.toBe(first);
+    });
+
+    it('stores the scheduling options with the operation', async () => {
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        priority: -10,
+        dependsOn: 'op-1',
+        expiresAt: 1700003600000,
+      });
+
+      expect(repository.rows.get(id)).toMatchObject({
+        priority: -10,
+        dependsOn: 'op-1',
+        expiresAt: 1700003600000,
+      });
+    });
+
+    it('returns the operation already queued with the same idempotency key', async () => {
+      const first = await engine.enqueue(
+        OperationType.REFRESH_REWARDS,
+        { dataType: 'rewards' },
+        { idempotencyKey: 'tap-1' }
+      );
+      const second = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        idempotencyKey: 'tap-1',
+      });
+
+      expect(second).toBe(first);
+      expect(repository.rows.size).toBe(1);
+    });
+
+    it('replaces a failed operation with the same idempotency key', async () => {
+      const first = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        idempotencyKey: 'tap-1',
+      });
+      repository.rows.get(first)!.status = OperationStatus.FAILED;
+
+      const second = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        idempotencyKey: 'tap-1',
+      });
+
+      expect(second).not.toBe(first);
+      expect(Array.from(repository.rows.keys())).toEqual([second]);
+    });
+
+    it('drops the attempts of the failed operation it replaces', async () => {
+      const first = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        idempotencyKey: 'tap-1',
+      });
+      repository.rows.get(first)!.status = OperationStatus.FAILED;
+      attempts.rows.push({ operationId: first, attemptedAt: 1000, outcome: 'failed' });
+
+      await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        idempotencyKey: 'tap-1',
+      });
+
+      expect(attempts.rows).toEqual([]);
+    });
+
+    it('does not dedupe different work', async () => {
+      const first = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+      const second = await engine.enqueue(OperationType.REFRESH_REWARDS, {
+        dataType: 'rewards',
+      });
+
+      expect(second).not.toBe(first);
+    });
+  });
+
+  describe('retryOperation', () => {
+    it('removes a successful operation and tells the success listeners', async () => {
+      const onSuccess = jest.fn();
+      engine.onSuccess(onSuccess);
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+
+      await engine.retryOperation(id);
+
+      expect(handler.execute).toHaveBeenCalledWith(refreshPayload, expect.objectContaining({ id }));
+      expect(repository.rows.has(id)).toBe(false);
+      expect(onSuccess).toHaveBeenCalledWith(id, expect.objectContaining({ id }));
+    });
+
+    it('leaves a retryable failure waiting with its retry count raised', async () => {
+      handler.execute.mockResolvedValue({ success: false, error: 'offline', isRetryable: true });
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+
+      await engine.retryOperation(id);
+
+      expect(repository.rows.get(id)).toMatchObject({
+        status: OperationStatus.PENDING,
+        retryCount: 1,
+        errorMessage: 'offline',
+      });
+    });
+
+    it('fails an operation for good once its retries are used up', async () => {
+      const onFailure = jest.fn();
+      engine.onFailure(onFailure);
+      handler.execute.mockResolvedValue({ success: false, error: 'offline', isRetryable: true });
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+      repository.rows.get(id)!.retryCount = 2;
+
+      await engine.retryOperation(id);
+
+      expect(repository.rows.get(id)?.status).toBe(OperationStatus.FAILED);
+      expect(onFailure).toHaveBeenCalledWith(id, expect.objectContaining({ id }), 'offline');
+    });
+
+    it('reports a thrown error through the handler classification', async () => {
+      const onFailure = jest.fn();
+      engine.onFailure(onFailure);
+      handler.execute.mockRejectedValue(new Error('boom'));
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+
+      await engine.retryOperation(id);
+
+      expect(handler.classifyError).toHaveBeenCalledWith(expect.any(Error));
+      expect(repository.rows.get(id)).toMatchObject({
+        status: OperationStatus.FAILED,
+        errorMessage: 'classified',
+      });
+      expect(onFailure).toHaveBeenCalledWith(id, expect.anything(), 'classified');
+    });
+
+    it('fails an expired operation without running it', async () => {
+      const onFailure = jest.fn();
+      engine.onFailure(onFailure);
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        expiresAt: Date.now() - 1,
+      });
+
+      await engine.retryOperation(id);
+
+      expect(handler.execute).not.toHaveBeenCalled();
+      expect(repository.rows.get(id)).toMatchObject({
+        status: OperationStatus.FAILED,
+        errorMessage: OPERATION_EXPIRED_ERROR,
+      });
+      expect(onFailure).toHaveBeenCalledWith(id, expect.anything(), OPERATION_EXPIRED_ERROR);
+    });
+
+    it('records each failed attempt with the kind of failure', async () => {
+      handler.execute.mockResolvedValue({
+        success: false,
+        error: 'Network request failed',
+        isRetryable: true,
+      });
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+      repository.rows.get(id)!.retryCount = 1;
+
+      await engine.retryOperation(id);
+      await engine.retryOperation(id);
+
+      expect(attempts.rows).toEqual([
+        {
+          operationId: id,
+          attemptedAt: expect.any(Number),
+          outcome: 'retry',
+          errorMessage: 'Network request failed',
+          errorClass: 'network',
+        },
+        {
+          operationId: id,
+          attemptedAt: expect.any(Number),
+          outcome: 'failed',
+          errorMessage: 'Network request failed',
+          errorClass: 'network',
+        },
+      ]);
+    });
+
+    it("takes the handler's kind of failure over the message", async () => {
+      handler.execute.mockResolvedValue({
+        success: false,
+        error: 'Network request failed',
+        isRetryable: false,
+        errorClass: 'auth',
+      });
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+
+      await engine.retryOperation(id);
+
+      expect(attempts.rows[0]).toMatchObject({ outcome: 'failed', errorClass: 'auth' });
+    });
+
+    it('records an expired operation as expired', async () => {
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        expiresAt: Date.now() - 1,
+      });
+
+      await engine.retryOperation(id);
+
+      expect(attempts.rows[0]).toMatchObject({
+        outcome: 'failed',
+        errorMessage: OPERATION_EXPIRED_ERROR,
+        errorClass: 'expired',
+      });
+    });
+
+    it('drops the attempts of an operation that succeeds', async () => {
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+      attempts.rows.push({ operationId: id, attemptedAt: 1000, outcome: 'retry' });
+
+      await engine.retryOperation(id);
+
+      expect(attempts.rows).toEqual([]);
+      expect(attempts.recordAttempt).not.toHaveBeenCalled();
+    });
+
+    it('still fails the operation when its attempt cannot be recorded', async () => {
+      attempts.recordAttempt.mockRejectedValue(new Error('database is locked'));
+      handler.execute.mockResolvedValue({ success: false, error: 'nope', isRetryable: false });
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+
+      await engine.retryOperation(id);
+
+      expect(repository.rows.get(id)).toMatchObject({
+        status: OperationStatus.FAILED,
+        errorMessage: 'nope',
+      });
+    });
+
+    it('leaves an operation whose dependency is still waiting', async () => {
+      const dependency = await engine.enqueue(OperationType.REFRESH_REWARDS, {
+        dataType: 'rewards',
+      });
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        dependsOn: dependency,
+      });
+
+      await engine.retryOperation(id);
+
+      expect(handler.execute).not.toHaveBeenCalled();
+      expect(repository.rows.get(id)?.status).toBe(OperationStatus.PENDING);
+    });
+
+    it('runs an operation whose dependency has gone', async () => {
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        dependsOn: 'op-removed',
+      });
+
+      await engine.retryOperation(id);
+
+      expect(handler.execute).toHaveBeenCalledTimes(1);
+      expect(repository.rows.has(id)).toBe(false);
+    });
+
+    it('fails an operation whose dependency failed, without running it', async () => {
+      const onFailure = jest.fn();
+      engine.onFailure(onFailure);
+      const failed = await engine.enqueue(OperationType.REFRESH_REWARDS, { dataType: 'rewards' });
+      repository.rows.get(failed)!.status = OperationStatus.FAILED;
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        dependsOn: failed,
+      });
+
+      await engine.retryOperation(id);
+
+      expect(handler.execute).not.toHaveBeenCalled();
+      expect(repository.rows.get(id)).toMatchObject({
+        status: OperationStatus.FAILED,
+        errorMessage: OPERATION_DEPENDENCY_FAILED_ERROR,
+      });
+      expect(attempts.rows).toEqual([
+        expect.objectContaining({ operationId: id, outcome: 'failed', errorClass: 'dependency' }),
+      ]);
+      expect(onFailure).toHaveBeenCalledWith(
+        id,
+        expect.anything(),
+        OPERATION_DEPENDENCY_FAILED_ERROR
+      );
+    });
+
+    it('runs an operation whose dependency failed when the dependency only orders it', async () => {
+      handler.dependencyOrdersOnly = true;
+      const failed = await engine.enqueue(OperationType.REFRESH_REWARDS, { dataType: 'rewards' });
+      repository.rows.get(failed)!.status = OperationStatus.FAILED;
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        dependsOn: failed,
+      });
+
+      await engine.retryOperation(id);
+
+      expect(handler.execute).toHaveBeenCalledTimes(1);
+      expect(repository.rows.has(id)).toBe(false);
+    });
+
+    it('leaves an operation another retry has claimed alone', async () => {
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+      repository.rows.get(id)!.status = OperationStatus.RETRYING;
+
+      await engine.retryOperation(id);
+
+      expect(handler.execute).not.toHaveBeenCalled();
+    });
+
+    it('fails a stored operation whose payload no longer validates, without running it', async () => {
+      repository.rows.set('op-old', {
+        id: 'op-old',
+        type: OperationType.REFRESH_ALL_DATA,
+        payload: rewardPayload,
+        timestamp: 1,
+        retryCount: 0,
+        status: OperationStatus.PENDING,
+      });
+
+      await engine.retryOperation('op-old');
+
+      expect(handler.execute).not.toHaveBeenCalled();
+      expect(repository.rows.get('op-old')).toMatchObject({
+        status: OperationStatus.FAILED,
+        errorMessage: 'Invalid REFRESH_ALL_DATA payload',
+      });
+    });
+
+    it('puts the operation back in line when the queue cannot be updated', async () => {
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+      repository.deleteOperation.mockRejectedValueOnce(new Error('database is locked'));
+
+      await engine.retryOperation(id);
+
+      expect(repository.rows.get(id)).toMatchObject({
+        status: OperationStatus.PENDING,
+        errorMessage: 'database is locked',
+      });
+    });
+  });
+
+  describe('retryAll', () => {
+    it('runs every pending operation in turn, backing off after ones tried before', async () => {
+      const first = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+      const second = await engine.enqueue(OperationType.REFRESH_REWARDS, { dataType: 'rewards' });
+      repository.rows.get(second)!.retryCount = 2;
+
+      await engine.retryAll();
+
+      expect(handler.execute.mock.calls.map(([, operation]) => operation.id)).toEqual([
+        first,
+        second,
+      ]);
+      expect(sleep).toHaveBeenCalledTimes(1);
+      expect(sleep).toHaveBeenCalledWith(300);
+      expect(repository.rows.size).toBe(0);
+    });
+
+    it('runs the highest priority first', async () => {
+      const background = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        priority: -10,
+      });
+      const urgent = await engine.enqueue(
+        OperationType.REFRESH_REWARDS,
+        { dataType: 'rewards' },
+        { priority: 10 }
+      );
+
+      await engine.retryAll();
+
+      expect(handler.execute.mock.calls.map(([, operation]) => operation.id)).toEqual([
+        urgent,
+        background,
+      ]);
+    });
+
+    it('runs an operation after the one it depends on, whatever their order', async () => {
+      repository.rows.set('op-refresh', {
+        id: 'op-refresh',
+        type: OperationType.REFRESH_ALL_DATA,
+        payload: refreshPayload,
+        timestamp: 1,
+        retryCount: 0,
+        status: OperationStatus.PENDING,
+        priority: 10,
+        dependsOn: 'op-rewards',
+      });
+      repository.rows.set('op-rewards', {
+        id: 'op-rewards',
+        type: OperationType.REFRESH_REWARDS,
+        payload: { dataType: 'rewards' },
+        timestamp: 2,
+        retryCount: 0,
+        status: OperationStatus.PENDING,
+      });
+
+      await engine.retryAll();
+
+      expect(handler.execute.mock.calls.map(([, operation]) => operation.id)).toEqual([
+        'op-rewards',
+        'op-refresh',
+      ]);
+      expect(repository.rows.size).toBe(0);
+    });
+
+    it('holds back an operation whose dependency is left to retry later', async () => {
+      handler.execute.mockResolvedValueOnce({
+        success: false,
+        error: 'offline',
+        isRetryable: true,
+      });
+      const dependency = await engine.enqueue(OperationType.REFRESH_REWARDS, {
+        dataType: 'rewards',
+      });
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        dependsOn: dependency,
+      });
+
+      await engine.retryAll();
+
+      expect(handler.execute).toHaveBeenCalledTimes(1);
+      expect(repository.rows.get(id)?.status).toBe(OperationStatus.PENDING);
+      expect(engine.isRetrying).toBe(false);
+    });
+
+    it('fails the operations that depend on one that failed, in turn', async () => {
+      handler.execute.mockResolvedValueOnce({
+        success: false,
+        error: 'HTTP error! status: 422 Unprocessable Entity',
+        isRetryable: false,
+      });
+      const dependency = await engine.enqueue(OperationType.REFRESH_REWARDS, {
+        dataType: 'rewards',
+      });
+      const refresh = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        dependsOn: dependency,
+      });
+      const after = await engine.enqueue(
+        OperationType.REFRESH_ALL_DATA,
+        { dataType: 'beers' },
+        { dependsOn: refresh }
+      );
+
+      await engine.retryAll();
+
+      expect(handler.execute).toHaveBeenCalledTimes(1);
+      expect(repository.rows.get(refresh)?.status).toBe(OperationStatus.FAILED);
+      expect(repository.rows.get(after)?.status).toBe(OperationStatus.FAILED);
+    });
+
+    it('does not start while a run is in progress', async () => {
+      let started: () => void = () => undefined;
+      const executing = new Promise<void>(resolve => {
+        started = resolve;
+      });
+      let finish: () => void = () => undefined;
+      handler.execute.mockImplementationOnce(
+        () =>
+          new Promise(resolve => {
+            started();
+            finish = () => resolve({ success: true });
+          })
+      );
+      await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+
+      const running = engine.retryAll();
+      await executing;
+      expect(engine.isRetrying).toBe(true);
+
+      await engine.retryAll();
+      expect(repository.getPendingOperations).toHaveBeenCalledTimes(1);
+
+      finish();
+      await running;
+      expect(engine.isRetrying).toBe(false);
+    });
+  });
+
+  describe('after the app was killed mid-retry', () => {
+    /** Start a retry that never finishes, then leave it as a killed app would */
+    const killMidRetry = async () => {
+      let started: () => void = () => undefined;
+      const executing = new Promise<void>(resolve => {
+        started = resolve;
+      });
+      handler.execute.mockImplementationOnce(() => {
+        started();
+        return new Promise(() => {});
+      });
+      void engine.retryAll();
+      await executing;
+      handler.execute.mockClear();
+    };
+
+    /** The engine the next launch builds, over the same stored queue */
+    const relaunch = () =>
+      new OperationQueueEngine({
+        repository: repository as unknown as OperationQueueRepository,
+        attempts: attempts as unknown as OperationAttemptRepository,
+        sleep,
+      });
+
+    it('runs the operation it left marked as retrying', async () => {
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+      await killMidRetry();
+      expect(repository.rows.get(id)?.status).toBe(OperationStatus.RETRYING);
+
+      const relaunched = relaunch();
+      relaunched.registerHandler(OperationType.REFRESH_ALL_DATA, handler);
+      await relaunched.retryAll();
+
+      expect(handler.execute).toHaveBeenCalledTimes(1);
+      expect(repository.rows.has(id)).toBe(false);
+    });
+
+    it('no longer holds back the operations that depend on it', async () => {
+      const dependency = await engine.enqueue(OperationType.REFRESH_REWARDS, {
+        dataType: 'rewards',
+      });
+      const dependent = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        dependsOn: dependency,
+      });
+      await killMidRetry();
+
+      const relaunched = relaunch();
+      relaunched.registerHandler(OperationType.REFRESH_ALL_DATA, handler);
+      relaunched.registerHandler(OperationType.REFRESH_REWARDS, handler);
+      await relaunched.retryAll();
+
+      expect(handler.execute.mock.calls.map(([, operation]) => operation.id)).toEqual([
+        dependency,
+        dependent,
+      ]);
+    });
+
+    it('shows it as pending rather than retrying', async () => {
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+      await killMidRetry();
+
+      const operations = await relaunch().getOperations();
+
+      expect(operations.find(operation => operation.id === id)?.status).toBe(
+        OperationStatus.PENDING
+      );
+    });
+
+    it('puts operations back in line only once, so its own retries keep their marks', async () => {
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+      await killMidRetry();
+
+      await engine.getOperations();
+
+      expect(repository.resetRetrying).toHaveBeenCalledTimes(1);
+      expect(repository.rows.get(id)?.status).toBe(OperationStatus.RETRYING);
+    });
+  });
+
+  describe('resubmitOperations', () => {
+    it('puts failed operations back in the queue and keeps their attempts', async () => {
+      const onChange = jest.fn();
+      const failed = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload, {
+        expiresAt: Date.now() - 1,
+      });
+      Object.assign(repository.rows.get(failed)!, {
+        status: OperationStatus.FAILED,
+        retryCount: 2,
+        errorMessage: 'offline',
+      });
+      attempts.rows.push({ operationId: failed, attemptedAt: 1000, outcome: 'failed' });
+      const pending = await engine.enqueue(OperationType.REFRESH_REWARDS, { dataType: 'rewards' });
+      engine.onChange(onChange);
+
+      const resubmitted = await engine.resubmitOperations([failed, pending]);
+
+      expect(resubmitted).toBe(1);
+      expect(repository.rows.get(failed)).toMatchObject({
+        status: OperationStatus.PENDING,
+        retryCount: 0,
+        errorMessage: undefined,
+        expiresAt: undefined,
+      });
+      expect(repository.rows.get(pending)?.status).toBe(OperationStatus.PENDING);
+      expect(attempts.rows).toHaveLength(1);
+      expect(onChange).toHaveBeenCalled();
+    });
+  });
+
+  describe('editAndResubmit', () => {
+    it('resubmits a failed operation with the new payload', async () => {
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+      repository.rows.get(id)!.status = OperationStatus.FAILED;
+
+      await expect(engine.editAndResubmit(id, { dataType: 'rewards' })).resolves.toBe(true);
+
+      expect(repository.rows.get(id)).toMatchObject({
+        status: OperationStatus.PENDING,
+        payload: { dataType: 'rewards' },
+      });
+    });
+
+    it('rejects a payload the handler does not accept', async () => {
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+      repository.rows.get(id)!.status = OperationStatus.FAILED;
+
+      await expect(engine.editAndResubmit(id, rewardPayload)).rejects.toThrow(
+        'Invalid REFRESH_ALL_DATA payload'
+      );
+      expect(repository.rows.get(id)).toMatchObject({
+        status: OperationStatus.FAILED,
+        payload: refreshPayload,
+      });
+    });
+
+    it('leaves an operation that has not failed alone', async () => {
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+
+      await expect(engine.editAndResubmit(id, { dataType: 'rewards' })).resolves.toBe(false);
+      expect(repository.rows.get(id)?.payload).toEqual(refreshPayload);
+    });
+
+    it('does nothing for an operation that is gone', async () => {
+      await expect(engine.editAndResubmit('op-missing', refreshPayload)).resolves.toBe(false);
+      expect(repository.resubmit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleting', () => {
+    it("drops a deleted operation's attempts", async () => {
+      const id = await engine.enqueue(OperationType.REFRESH_ALL_DATA, refreshPayload);
+      attempts.rows.push({ operationId: id, attemptedAt: 1000, outcome: 'failed' });
+
+      await engine.deleteOperation(id);
+
+      expect(await engine.getAttempts([id])).toEqual([]);
+    });
+
+    it('drops every attempt when the queue is cleared', async () => {
+      attempts.rows.push({ operationId: 'op-1', attemptedAt: 1000, outcome: 'failed' });
+
+      await engine.clearQueue();
+
+      expect(attempts.clearAll).toHaveBeenCalled();
+      expect(attempts.rows).toEqual([]);
+    });
+  });
+
+  describe('calculateRetryDelay', () => {
+    it('doubles with each attempt up to the maximum', () => {
+      expect(engine.calculateRetryDelay(0)).toBe(100);
+      expect(engine.calculateRetryDelay(1)).toBe(200);
+      expect(engine.calculateRetryDelay(5)).toBe(300);
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { refreshDataHandler, updatePreferencesHandler } from '../operationQueueService';
+import { setPreference } from '../../database/preferences';
+import { QueuedOperation } from '../../types/operationQueue';
+
+jest.mock('../../database/preferences', () => ({
+  setPreference: jest.fn().mockResolvedValue(undefined),
+}));
+jest.mock('../queuedRefreshService', () => ({ runQueuedRefresh: jest.fn() }));
+jest.mock('../enrichmentService', () => ({ submitBeerCorrection: jest.fn() }));
+jest.mock('../../api/beerService', () => ({ checkInBeer: jest.fn() }));
+jest.mock('../../api/rewardService', () => ({ redeemReward: jest.fn() }));
+jest.mock('../../database/repositories/OperationQueueRepository', () => ({
+  operationQueueRepository: {},
+}));
+jest.mock('../../database/repositories/OperationAttemptRepository', () => ({
+  operationAttemptRepository: {},
+}));
+
+describe('updatePreferencesHandler', () => {
+  it('writes the preference', async () => {
+    const result = await updatePreferencesHandler.execute(
+      { key: 'refresh_wifi_only', value: 'true' },
+      {} as QueuedOperation
+    );
+
+    expect(setPreference).toHaveBeenCalledWith('refresh_wifi_only', 'true');
+    expect(result).toEqual({ success: true });
+  });
+
+  it('dedupes changes to the same preference, so the last value wins', () => {
+    const dedupeKey = updatePreferencesHandler.dedupeKey!;
+
+    expect(dedupeKey({ key: 'refresh_wifi_only', value: 'true' })).toBe(
+      dedupeKey({ key: 'refresh_wifi_only', value: 'false' })
+    );
+    expect(dedupeKey({ key: 'refresh_wifi_only', value: 'true' })).not.toBe(
+      dedupeKey({ key: 'theme', value: 'true' })
+    );
+  });
+});
+
+describe('refreshDataHandler', () => {
+  it('runs after a check-in it depends on, even one that failed', () => {
+    expect(refreshDataHandler.dependencyOrdersOnly).toBe(true);
+  });
+});
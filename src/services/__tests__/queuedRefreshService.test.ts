@@ -0,0 +1,96 @@
+import { refreshExecutionResult, runQueuedRefresh } from '../queuedRefreshService';
+import { fetchAndUpdateRewards, sequentialRefreshAllData } from '../dataUpdateService';
+import { recordRefreshRun } from '../refreshLogService';
+import { ApiErrorType } from '../../utils/notificationUtils';
+
+jest.mock('../dataUpdateService', () => ({
+  fetchAndUpdateRewards: jest.fn(),
+  sequentialRefreshAllData: jest.fn(),
+}));
+jest.mock('../refreshLogService', () => ({
+  recordRefreshRun: jest.fn().mockResolvedValue(undefined),
+}));
+
+const updated = { success: true, dataUpdated: true, itemCount: 3 };
+const offline = {
+  success: false,
+  dataUpdated: false,
+  error: { type: ApiErrorType.NETWORK_ERROR, message: 'Network request failed' },
+};
+const rejected = {
+  success: false,
+  dataUpdated: false,
+  error: { type: ApiErrorType.VALIDATION_ERROR, message: 'Invalid response' },
+};
+
+describe('refreshExecutionResult', () => {
+  it('succeeds when every source did', () => {
+    expect(refreshExecutionResult([updated, updated])).toEqual({ success: true });
+  });
+
+  it('is retryable when every failure is the connection or the server', () => {
+    expect(refreshExecutionResult([updated, offline])).toEqual({
+      success: false,
+      error: 'Network request failed',
+      isRetryable: true,
+    });
+  });
+
+  it('is not retryable when a source was rejected for its data', () => {
+    expect(refreshExecutionResult([offline, rejected])).toMatchObject({
+      success: false,
+      error: 'Network request failed; Invalid response',
+      isRetryable: false,
+    });
+  });
+
+  it('is retryable for a failure marked retryable, such as database contention', () => {
+    const contended = {
+      success: false,
+      dataUpdated: false,
+      error: { type: ApiErrorType.CONTENTION_ERROR, message: 'locked', retryable: true },
+    };
+
+    expect(refreshExecutionResult([contended])).toMatchObject({ isRetryable: true });
+  });
+});
+
+describe('runQueuedRefresh', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (fetchAndUpdateRewards as jest.Mock).mockResolvedValue(updated);
+    (sequentialRefreshAllData as jest.Mock).mockResolvedValue({
+      allBeersResult: updated,
+      myBeersResult: updated,
+      rewardsResult: offline,
+      hasErrors: true,
+      allNetworkErrors: true,
+    });
+  });
+
+  it('refreshes only the rewards for a rewards refresh', async () => {
+    await expect(runQueuedRefresh('rewards')).resolves.toEqual({ success: true });
+
+    expect(sequentialRefreshAllData).not.toHaveBeenCalled();
+    expect(recordRefreshRun).toHaveBeenCalledWith('queue', expect.any(Number), [
+      expect.objectContaining({ source: 'rewards', status: 'updated' }),
+    ]);
+  });
+
+  it('refreshes everything for an all refresh', async () => {
+    await expect(runQueuedRefresh('all')).resolves.toMatchObject({
+      success: false,
+      isRetryable: true,
+    });
+
+    expect(sequentialRefreshAllData).toHaveBeenCalledWith({ includeRewards: true });
+    expect((recordRefreshRun as jest.Mock).mock.calls[0][2]).toHaveLength(3);
+  });
+
+  it('leaves the rewards out of a beers refresh', async () => {
+    await expect(runQueuedRefresh('beers')).resolves.toEqual({ success: true });
+
+    expect(sequentialRefreshAllData).toHaveBeenCalledWith({ includeRewards: false });
+    expect((recordRefreshRun as jest.Mock).mock.calls[0][2]).toHaveLength(2);
+  });
+});
@@ -37,10 +37,19 @@ import { getPreference, setPreference } from '../../database/preferences';
 import { fetchBeersFromProxy } from '../enrichmentService';
 import { fetchedRows, failed, unavailable } from '../../api/__tests__/helpers/fetchOutcomeFixtures';
 import { refreshAllDataFromAPI } from '../dataUpdateService';
+import { recordRefreshRun } from '../refreshLogService';
 
 /** One ordered log of everything worth ordering. See the sibling suite. */
 const mockEvents: string[] = [];
 
+// The refresh log is written after the refresh lets go of the lock, under its
+// own; these tests are about the refresh's
+jest.mock('../refreshLogService', () => ({
+  recordRefreshRun: jest.fn(async () => {
+    mockEvents.push('log:record');
+  }),
+}));
+
 jest.mock('../../database/preferences', () => ({
   getPreference: jest.fn(async (key: string) => {
     if (key === 'all_beers_api_url') return 'https://example.com/allbeers.json';
@@ -239,6 +248,22 @@ describe('refreshAllDataFromAPI locking', () => {
     expect(result.allBeers).toHaveLength(ALL_BEERS.length);
   });
 
+  it('records what each source did in the refresh log, once the lock is released', async () => {
+    // The rows returned say nothing of a failed source; the log does
+    respondsWith(fetchBeersFromAPI as jest.Mock, 'allBeers', fetchedRows(ALL_BEERS));
+    respondsWith(fetchMyBeersFromAPI as jest.Mock, 'myBeers', failed());
+    respondsWith(fetchRewardsFromAPI as jest.Mock, 'rewards', fetchedRows(REWARDS));
+
+    await refreshAllDataFromAPI();
+
+    expect(recordRefreshRun).toHaveBeenCalledWith('login', expect.any(Number), [
+      expect.objectContaining({ source: 'allBeers' }),
+      expect.objectContaining({ source: 'myBeers', status: 'failed', errorType: 'NETWORK_ERROR' }),
+      expect.objectContaining({ source: 'rewards', status: 'updated', rowCount: REWARDS.length }),
+    ]);
+    expect(mockEvents.indexOf('log:record')).toBeGreaterThan(mockEvents.indexOf('lock:release'));
+  });
+
   it('does not acquire the lock at all when every fetch fails', async () => {
     respondsWith(fetchBeersFromAPI as jest.Mock, 'allBeers', failed());
     respondsWith(fetchMyBeersFromAPI as jest.Mock, 'myBeers', failed());
@@ -45,6 +45,12 @@ import { fetchBeersFromAPI, fetchMyBeersFromAPI, fetchRewardsFromAPI } from '../
 import { beerRepository } from '../../database/repositories/BeerRepository';
 import { fetchedRows } from '../../api/__tests__/helpers/fetchOutcomeFixtures';
 
+// The refresh log is written after the refresh lets go of the lock, under its
+// own; these tests are about the refresh's
+jest.mock('../refreshLogService', () => ({
+  recordRefreshRun: jest.fn(async () => {}),
+}));
+
 jest.mock('../../database/db', () => ({
   getPreference: jest.fn(),
   setPreference: jest.fn(),
@@ -0,0 +1,45 @@
+import { getSyncHistory, recordRefreshRun, SYNC_HISTORY_COUNT } from '../refreshLogService';
+import { refreshLogRepository } from '../../database/repositories/RefreshLogRepository';
+import { skippedSource } from '../../utils/refreshLog';
+
+jest.mock('../../database/repositories/RefreshLogRepository', () => ({
+  refreshLogRepository: {
+    record: jest.fn().mockResolvedValue(undefined),
+    getRecent: jest.fn().mockResolvedValue([]),
+    clear: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+const sources = [skippedSource('rewards', 'visitor-mode')];
+
+describe('refreshLogService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('records a run with its duration', async () => {
+    await recordRefreshRun('login', 1000, sources, 3500);
+
+    expect(refreshLogRepository.record).toHaveBeenCalledWith({
+      trigger: 'login',
+      started_at: 1000,
+      duration_ms: 2500,
+      sources,
+    });
+  });
+
+  it('does not throw when the run cannot be recorded', async () => {
+    jest.spyOn(console, 'warn').mockImplementation();
+    (refreshLogRepository.record as jest.Mock).mockRejectedValueOnce(
+      new Error('database is locked')
+    );
+
+    await expect(recordRefreshRun('manual', 1000, sources)).resolves.toBeUndefined();
+  });
+
+  it('reads the latest runs for Sync History', async () => {
+    await getSyncHistory();
+
+    expect(refreshLogRepository.getRecent).toHaveBeenCalledWith(SYNC_HISTORY_COUNT);
+  });
+});
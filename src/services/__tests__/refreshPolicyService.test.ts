@@ -0,0 +1,87 @@
+import {
+  getRefreshPolicy,
+  noteWaitingForWifi,
+  resetRefreshPolicyCache,
+  saveRefreshPolicy,
+  sourcesWaitingForWifi,
+} from '../refreshPolicyService';
+import { getPreference, setPreference } from '../../database/preferences';
+import { DEFAULT_REFRESH_POLICY, withSourcePolicy } from '../../utils/refreshPolicy';
+
+jest.mock('../../database/preferences', () => ({
+  getPreference: jest.fn(),
+  setPreference: jest.fn().mockResolvedValue(undefined),
+}));
+
+const waitsForTaplist = withSourcePolicy(DEFAULT_REFRESH_POLICY, 'allBeers', {
+  onMetered: 'wait-for-wifi',
+});
+
+describe('refreshPolicyService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetRefreshPolicyCache();
+    (getPreference as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('gives the default when no policy is stored', async () => {
+    await expect(getRefreshPolicy()).resolves.toEqual(DEFAULT_REFRESH_POLICY);
+  });
+
+  it('reads the stored policy once', async () => {
+    (getPreference as jest.Mock).mockResolvedValue(JSON.stringify(waitsForTaplist));
+
+    await expect(getRefreshPolicy()).resolves.toEqual(waitsForTaplist);
+    await expect(getRefreshPolicy()).resolves.toEqual(waitsForTaplist);
+
+    expect(getPreference).toHaveBeenCalledTimes(1);
+    expect(getPreference).toHaveBeenCalledWith('refresh_policy');
+  });
+
+  it('gives the default, and reads again next time, when the read fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation();
+    (getPreference as jest.Mock).mockRejectedValueOnce(new Error('database is locked'));
+
+    await expect(getRefreshPolicy()).resolves.toEqual(DEFAULT_REFRESH_POLICY);
+    await getRefreshPolicy();
+
+    expect(getPreference).toHaveBeenCalledTimes(2);
+  });
+
+  it('stores a saved policy and reads it back without a query', async () => {
+    await saveRefreshPolicy(waitsForTaplist);
+
+    expect(setPreference).toHaveBeenCalledWith(
+      'refresh_policy',
+      JSON.stringify(waitsForTaplist),
+      expect.any(String)
+    );
+    await expect(getRefreshPolicy()).resolves.toEqual(waitsForTaplist);
+    expect(getPreference).not.toHaveBeenCalled();
+  });
+
+  it('keeps the previous policy when the save fails', async () => {
+    await saveRefreshPolicy(waitsForTaplist);
+    (setPreference as jest.Mock).mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(saveRefreshPolicy(DEFAULT_REFRESH_POLICY)).rejects.toThrow('disk full');
+    await expect(getRefreshPolicy()).resolves.toEqual(waitsForTaplist);
+  });
+
+  it('lists the sources that wait for Wi-Fi on a metered connection', async () => {
+    await saveRefreshPolicy(waitsForTaplist);
+
+    await expect(sourcesWaitingForWifi(true)).resolves.toEqual(new Set(['allBeers']));
+    await expect(sourcesWaitingForWifi(false)).resolves.toEqual(new Set());
+    await expect(sourcesWaitingForWifi(null)).resolves.toEqual(new Set());
+  });
+
+  it('reports a wait as news only when it starts', () => {
+    expect(noteWaitingForWifi('allBeers', true)).toBe(true);
+    expect(noteWaitingForWifi('allBeers', true)).toBe(false);
+    expect(noteWaitingForWifi('myBeers', true)).toBe(true);
+
+    expect(noteWaitingForWifi('allBeers', false)).toBe(false);
+    expect(noteWaitingForWifi('allBeers', true)).toBe(true);
+  });
+});
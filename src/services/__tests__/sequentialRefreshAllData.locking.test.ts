@@ -50,6 +50,12 @@ import { sequentialRefreshAllData, resetInFlightSequentialRefresh } from '../dat
  */
 const mockEvents: string[] = [];
 
+// The refresh log is written after the refresh lets go of the lock, under its
+// own; these tests are about the refresh's
+jest.mock('../refreshLogService', () => ({
+  recordRefreshRun: jest.fn(async () => {}),
+}));
+
 jest.mock('../../database/preferences', () => ({
   getPreference: jest.fn(async (key: string) => {
     if (key === 'all_beers_api_url') return 'https://example.com/allbeers.json';
@@ -340,7 +346,11 @@ describe('sequentialRefreshAllData locking', () => {
       'lock:acquire',
       'lock:release',
     ]);
-    expect(result.allBeersResult).toEqual({ success: true, dataUpdated: false });
+    expect(result.allBeersResult).toEqual({
+      success: true,
+      dataUpdated: false,
+      notModified: 'trusted',
+    });
 
     enrichmentSpy.mockRestore();
   });
@@ -0,0 +1,186 @@
+/**
+ * Tests for storeComparisonService
+ *
+ * Each saved store is fetched with its own ETag, and none of it may reach the
+ * home store's taplist or its `all_beers_etag`.
+ */
+
+import { refreshStoreTaplist, refreshStoreTaplists } from '../storeComparisonService';
+import { config } from '@/src/config';
+import { fetchBeersFromProxy } from '../enrichmentService';
+import { storeTaplistRepository } from '../../database/repositories/StoreTaplistRepository';
+import { beerRepository } from '../../database/repositories/BeerRepository';
+import { setPreference } from '../../database/preferences';
+import { logWarning } from '../../utils/errorLogger';
+import { StoreTaplist } from '../../utils/storeComparison';
+
+jest.mock('../enrichmentService', () => ({
+  fetchBeersFromProxy: jest.fn(),
+}));
+
+jest.mock('../../database/repositories/StoreTaplistRepository', () => ({
+  storeTaplistRepository: {
+    saveTaplist: jest.fn(async () => {}),
+    markRevalidated: jest.fn(async () => {}),
+  },
+}));
+
+jest.mock('../../database/repositories/BeerRepository', () => ({
+  beerRepository: {
+    insertMany: jest.fn(),
+    insertManyUnsafe: jest.fn(),
+  },
+}));
+
+jest.mock('../../database/preferences', () => ({
+  getPreference: jest.fn(async () => null),
+  setPreference: jest.fn(),
+}));
+
+jest.mock('../../utils/errorLogger', () => ({
+  logError: jest.fn(),
+  logWarning: jest.fn(),
+}));
+
+jest.mock('@/src/config', () => {
+  const actual = jest.requireActual('@/src/config');
+  return {
+    ...actual,
+    config: {
+      ...actual.config,
+      enrichment: {
+        ...actual.config.enrichment,
+        isConfigured: jest.fn().mockReturnValue(true),
+      },
+    },
+  };
+});
+
+const proxyBeer = {
+  id: 'b1',
+  brew_name: 'Pliny the Elder',
+  brewer: 'Russian River',
+  brewer_loc: 'CA',
+  brew_style: 'Double IPA',
+  brew_container: 'pint',
+  review_count: '5',
+  review_rating: '4.5',
+  brew_description: 'Hoppy',
+  added_date: '2024-01-01',
+  enriched_abv: 8,
+  enrichment_confidence: 0.9,
+  enrichment_source: 'perplexity' as const,
+  has_cleaned_description: true,
+};
+
+const savedStore = (overrides: Partial<StoreTaplist> = {}): StoreTaplist => ({
+  store_id: '13879',
+  store_name: 'Sugar Land',
+  beers: [{ id: 'b0', brew_name: 'Old Beer' }],
+  etag: '"v1"',
+  fetched_at: 1000,
+  added_at: 1000,
+  compared: true,
+  ...overrides,
+});
+
+describe('refreshStoreTaplist', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (config.enrichment.isConfigured as jest.Mock).mockReturnValue(true);
+  });
+
+  it("sends the store's own ETag and keeps its taplist on a 304", async () => {
+    (fetchBeersFromProxy as jest.Mock).mockResolvedValue({
+      beers: [],
+      source: 'cache',
+      notModified: true,
+    });
+
+    const outcome = await refreshStoreTaplist(savedStore());
+
+    expect(fetchBeersFromProxy).toHaveBeenCalledWith('13879', '"v1"');
+    expect(storeTaplistRepository.markRevalidated).toHaveBeenCalledWith('13879');
+    expect(storeTaplistRepository.saveTaplist).not.toHaveBeenCalled();
+    expect(outcome).toEqual({ storeId: '13879', status: 'not-modified' });
+  });
+
+  it('sends no ETag when the store has no cached beers', async () => {
+    (fetchBeersFromProxy as jest.Mock).mockResolvedValue({ beers: [], source: 'live' });
+
+    await refreshStoreTaplist(savedStore({ beers: [] }));
+
+    expect(fetchBeersFromProxy).toHaveBeenCalledWith('13879', undefined);
+  });
+
+  it('stores a new taplist with the ETag it came with', async () => {
+    (fetchBeersFromProxy as jest.Mock).mockResolvedValue({
+      beers: [proxyBeer],
+      source: 'live',
+      etag: '"v2"',
+    });
+
+    const outcome = await refreshStoreTaplist(savedStore());
+
+    expect(storeTaplistRepository.saveTaplist).toHaveBeenCalledWith(
+      '13879',
+      [expect.objectContaining({ id: 'b1', brew_name: 'Pliny the Elder', abv: 8 })],
+      '"v2"'
+    );
+    expect(outcome).toEqual({ storeId: '13879', status: 'updated', beerCount: 1 });
+  });
+
+  it('never writes the home store taplist or its ETag', async () => {
+    (fetchBeersFromProxy as jest.Mock).mockResolvedValue({
+      beers: [proxyBeer],
+      source: 'live',
+      etag: '"v2"',
+    });
+
+    await refreshStoreTaplist(savedStore());
+
+    expect(beerRepository.insertMany).not.toHaveBeenCalled();
+    expect(beerRepository.insertManyUnsafe).not.toHaveBeenCalled();
+    expect(setPreference).not.toHaveBeenCalled();
+  });
+
+  it('returns a failure and leaves the cached taplist when the fetch fails', async () => {
+    (fetchBeersFromProxy as jest.Mock).mockRejectedValue(new Error('Proxy returned 503'));
+
+    const outcome = await refreshStoreTaplist(savedStore());
+
+    expect(outcome).toEqual({ storeId: '13879', status: 'failed', message: 'Proxy returned 503' });
+    expect(storeTaplistRepository.saveTaplist).not.toHaveBeenCalled();
+    expect(logWarning).toHaveBeenCalled();
+  });
+
+  it('fails without fetching when enrichment is not configured', async () => {
+    (config.enrichment.isConfigured as jest.Mock).mockReturnValue(false);
+
+    const outcome = await refreshStoreTaplist(savedStore());
+
+    expect(outcome.status).toBe('failed');
+    expect(fetchBeersFromProxy).not.toHaveBeenCalled();
+  });
+});
+
+describe('refreshStoreTaplists', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (config.enrichment.isConfigured as jest.Mock).mockReturnValue(true);
+  });
+
+  it('refreshes the rest when one store fails', async () => {
+    (fetchBeersFromProxy as jest.Mock)
+      .mockRejectedValueOnce(new Error('Proxy returned 503'))
+      .mockResolvedValueOnce({ beers: [proxyBeer], source: 'live', etag: '"v2"' });
+
+    const outcomes = await refreshStoreTaplists([
+      savedStore({ store_id: '1' }),
+      savedStore({ store_id: '2' }),
+    ]);
+
+    expect(outcomes.map(outcome => outcome.status)).toEqual(['failed', 'updated']);
+    expect(storeTaplistRepository.saveTaplist).toHaveBeenCalledWith('2', expect.any(Array), '"v2"');
+  });
+});
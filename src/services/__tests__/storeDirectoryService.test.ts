@@ -0,0 +1,317 @@
+/**
+ * Tests for storeDirectoryService
+ *
+ * A switch must leave the store switched away from with everything it had,
+ * and the store switched to with exactly what its cache held: its rows, its
+ * ETag and its freshness, or none of them.
+ */
+
+import { getActiveStore, refreshStoreDirectory, switchActiveStore } from '../storeDirectoryService';
+import { config } from '@/src/config';
+import { setPreferenceUnsafe } from '../../database/preferences';
+import { beerRepository } from '../../database/repositories/BeerRepository';
+import { storeDirectoryRepository } from '../../database/repositories/StoreDirectoryRepository';
+import { storeTaplistRepository } from '../../database/repositories/StoreTaplistRepository';
+import { taplistDiffRepository } from '../../database/repositories/TaplistDiffRepository';
+import { wishlistRepository } from '../../database/repositories/WishlistRepository';
+import { fetchStoreDirectoryFromProxy } from '../enrichmentService';
+import { logWarning } from '../../utils/errorLogger';
+import { StoreTaplist } from '../../utils/storeComparison';
+
+let mockPreferences: Record<string, string> = {};
+let mockLockHolder: string | null = null;
+const mockTxn = { runAsync: jest.fn() };
+
+jest.mock('../../database/preferences', () => ({
+  getPreference: jest.fn(async (key: string) => mockPreferences[key] ?? null),
+  setPreference: jest.fn(async (key: string, value: string) => {
+    mockPreferences[key] = value;
+  }),
+  setPreferenceUnsafe: jest.fn(async (_txn: unknown, key: string, value: string) => {
+    mockPreferences[key] = value;
+  }),
+}));
+
+jest.mock('../../database/DatabaseLockManager', () => ({
+  databaseLockManager: {
+    withDatabaseLock: jest.fn(async (name: string, task: () => Promise<unknown>) => {
+      mockLockHolder = name;
+      try {
+        return await task();
+      } finally {
+        mockLockHolder = null;
+      }
+    }),
+  },
+}));
+
+jest.mock('../../database/repositories/BeerRepository', () => ({
+  beerRepository: {
+    getAll: jest.fn(async () => []),
+    // Rolls the preferences back when the writes alongside the rows fail, as
+    // the transaction would
+    replaceAllWithUnsafe: jest.fn(
+      async (_beers: unknown, alongside: (txn: typeof mockTxn) => Promise<void>) => {
+        const before = { ...mockPreferences };
+        try {
+          await alongside(mockTxn);
+        } catch (error) {
+          mockPreferences = before;
+          throw error;
+        }
+      }
+    ),
+  },
+}));
+
+jest.mock('../../database/repositories/StoreDirectoryRepository', () => ({
+  storeDirectoryRepository: {
+    getStored: jest.fn(async () => []),
+    replaceRemote: jest.fn(async () => {}),
+  },
+}));
+
+jest.mock('../../database/repositories/StoreTaplistRepository', () => ({
+  storeTaplistRepository: {
+    saveTaplistUnsafe: jest.fn(async () => {}),
+    getByStoreId: jest.fn(async () => null),
+  },
+}));
+
+jest.mock('../../database/repositories/TaplistDiffRepository', () => ({
+  taplistDiffRepository: {
+    clearUnsafe: jest.fn(async () => {}),
+  },
+}));
+
+jest.mock('../../database/repositories/WishlistRepository', () => ({
+  wishlistRepository: {
+    markOnTapUnsafe: jest.fn(async () => 0),
+  },
+}));
+
+jest.mock('../enrichmentService', () => ({
+  fetchStoreDirectoryFromProxy: jest.fn(),
+}));
+
+jest.mock('../../utils/errorLogger', () => ({
+  logError: jest.fn(),
+  logWarning: jest.fn(),
+}));
+
+jest.mock('@/src/config', () => {
+  const actual = jest.requireActual('@/src/config');
+  return {
+    ...actual,
+    config: {
+      ...actual.config,
+      enrichment: {
+        ...actual.config.enrichment,
+        isConfigured: jest.fn().mockReturnValue(true),
+      },
+    },
+  };
+});
+
+const SUGAR_LAND_URL = 'https://fsbs.beerknurd.com/bk-store-json.php?sid=13879';
+const CHARLOTTE_URL = 'https://fsbs.beerknurd.com/bk-store-json.php?sid=13880';
+const FETCHED_AT = Date.UTC(2026, 9, 1, 12);
+
+const homeBeers = [{ id: 'h1', brew_name: 'Home IPA', brew_container: 'pint' }];
+
+const charlotteCache = (overrides: Partial<StoreTaplist> = {}): StoreTaplist => ({
+  store_id: '13880',
+  store_name: 'Charlotte',
+  beers: [{ id: 'c1', brew_name: 'Charlotte Lager', brew_container: 'pint' }],
+  etag: '"c1"',
+  fetched_at: FETCHED_AT,
+  added_at: 1,
+  compared: false,
+  ...overrides,
+});
+
+const writesOf = (key: string): unknown[] =>
+  (setPreferenceUnsafe as jest.Mock).mock.calls
+    .filter(call => call[1] === key)
+    .map(call => call[2]);
+
+describe('storeDirectoryService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPreferences = {
+      all_beers_api_url: SUGAR_LAND_URL,
+      all_beers_etag: '"home"',
+      all_beers_last_check: '2026-10-10T08:00:00.000Z',
+    };
+    (beerRepository.getAll as jest.Mock).mockResolvedValue(homeBeers);
+    (storeTaplistRepository.getByStoreId as jest.Mock).mockResolvedValue(null);
+    (config.enrichment.isConfigured as jest.Mock).mockReturnValue(true);
+  });
+
+  describe('switchActiveStore', () => {
+    it('stashes the active store and restores the cached one in one transaction under the lock', async () => {
+      (storeTaplistRepository.getByStoreId as jest.Mock).mockResolvedValue(charlotteCache());
+      let holderAtReplace: string | null = null;
+      (beerRepository.replaceAllWithUnsafe as jest.Mock).mockImplementationOnce(
+        async (_beers: unknown, alongside: (txn: typeof mockTxn) => Promise<void>) => {
+          holderAtReplace = mockLockHolder;
+          await alongside(mockTxn);
+        }
+      );
+
+      const result = await switchActiveStore('13880');
+
+      expect(result).toEqual({
+        status: 'switched',
+        storeId: '13880',
+        beerCount: 1,
+        fetchedAt: FETCHED_AT,
+      });
+      expect(holderAtReplace).toBe('store-switch');
+      expect(storeTaplistRepository.saveTaplistUnsafe).toHaveBeenCalledWith(
+        '13879',
+        'Sugar Land',
+        homeBeers,
+        '"home"',
+        Date.parse('2026-10-10T08:00:00.000Z'),
+        mockTxn
+      );
+      expect(beerRepository.replaceAllWithUnsafe).toHaveBeenCalledWith(
+        [expect.objectContaining({ id: 'c1', brew_name: 'Charlotte Lager' })],
+        expect.any(Function)
+      );
+      expect(mockPreferences.all_beers_etag).toBe('"c1"');
+      expect(mockPreferences.all_beers_last_check).toBe(new Date(FETCHED_AT).toISOString());
+      expect(mockPreferences.all_beers_api_url).toBe(CHARLOTTE_URL);
+      expect(taplistDiffRepository.clearUnsafe).toHaveBeenCalledWith(mockTxn);
+      expect(wishlistRepository.markOnTapUnsafe).toHaveBeenCalledWith(mockTxn);
+    });
+
+    it('writes every preference in the transaction', async () => {
+      (storeTaplistRepository.getByStoreId as jest.Mock).mockResolvedValue(charlotteCache());
+
+      await switchActiveStore('13880');
+
+      const calls = (setPreferenceUnsafe as jest.Mock).mock.calls;
+      expect(calls.map(call => call[1]).sort()).toEqual([
+        'all_beers_api_url',
+        'all_beers_etag',
+        'all_beers_last_check',
+        'all_beers_last_update',
+      ]);
+      expect(calls.every(call => call[0] === mockTxn)).toBe(true);
+      expect(writesOf('all_beers_etag')).toEqual(['"c1"']);
+    });
+
+    it('leaves the old store active with its ETag when a write in the switch fails', async () => {
+      (storeTaplistRepository.getByStoreId as jest.Mock).mockResolvedValue(charlotteCache());
+      (wishlistRepository.markOnTapUnsafe as jest.Mock).mockRejectedValueOnce(
+        new Error('database is locked')
+      );
+
+      await expect(switchActiveStore('13880')).rejects.toThrow('database is locked');
+
+      expect(mockPreferences.all_beers_api_url).toBe(SUGAR_LAND_URL);
+      expect(mockPreferences.all_beers_etag).toBe('"home"');
+      expect(mockPreferences.all_beers_last_check).toBe('2026-10-10T08:00:00.000Z');
+    });
+
+    it('leaves an uncached store empty and unstamped, so the next refresh fetches it', async () => {
+      const result = await switchActiveStore('13880');
+
+      expect(result).toMatchObject({ status: 'switched', beerCount: 0, fetchedAt: null });
+      expect(beerRepository.replaceAllWithUnsafe).toHaveBeenCalledWith([], expect.any(Function));
+      expect(mockPreferences.all_beers_etag).toBe('');
+      expect(mockPreferences.all_beers_last_check).toBe('');
+      expect(mockPreferences.all_beers_last_update).toBe('');
+    });
+
+    it('drops the ETag of a cache with no rows', async () => {
+      (storeTaplistRepository.getByStoreId as jest.Mock).mockResolvedValue(
+        charlotteCache({ beers: [] })
+      );
+
+      await switchActiveStore('13880');
+
+      expect(mockPreferences.all_beers_etag).toBe('');
+    });
+
+    it('does nothing when the store is already active', async () => {
+      const result = await switchActiveStore(' 13879 ');
+
+      expect(result).toEqual({ status: 'unchanged', storeId: '13879' });
+      expect(setPreferenceUnsafe).not.toHaveBeenCalled();
+      expect(beerRepository.replaceAllWithUnsafe).not.toHaveBeenCalled();
+      expect(storeTaplistRepository.saveTaplistUnsafe).not.toHaveBeenCalled();
+    });
+
+    it('refuses to switch before a login has configured a store', async () => {
+      mockPreferences = {};
+
+      await expect(switchActiveStore('13880')).rejects.toThrow('Sign in before switching stores.');
+      expect(setPreferenceUnsafe).not.toHaveBeenCalled();
+    });
+
+    it('refuses an empty store id', async () => {
+      await expect(switchActiveStore('  ')).rejects.toThrow('Store ID is required');
+    });
+  });
+
+  describe('getActiveStore', () => {
+    it('returns the directory entry for the active store', async () => {
+      mockPreferences.all_beers_api_url = CHARLOTTE_URL;
+
+      await expect(getActiveStore()).resolves.toMatchObject({
+        store_id: '13880',
+        name: 'Charlotte',
+      });
+    });
+
+    it('returns null before a login', async () => {
+      mockPreferences = {};
+
+      await expect(getActiveStore()).resolves.toBeNull();
+    });
+  });
+
+  describe('refreshStoreDirectory', () => {
+    it('stores the fetched directory', async () => {
+      (fetchStoreDirectoryFromProxy as jest.Mock).mockResolvedValue({
+        stores: [{ id: '13899', name: 'New Place', city: 'Tulsa' }],
+      });
+
+      const outcome = await refreshStoreDirectory();
+
+      expect(outcome).toEqual({ status: 'updated', storeCount: 1 });
+      expect(storeDirectoryRepository.replaceRemote).toHaveBeenCalledWith([
+        {
+          store_id: '13899',
+          name: 'New Place',
+          city: 'Tulsa',
+          state: null,
+          latitude: null,
+          longitude: null,
+        },
+      ]);
+    });
+
+    it('returns a failure rather than throwing', async () => {
+      (fetchStoreDirectoryFromProxy as jest.Mock).mockRejectedValue(new Error('offline'));
+
+      const outcome = await refreshStoreDirectory();
+
+      expect(outcome).toEqual({ status: 'failed', message: 'offline' });
+      expect(storeDirectoryRepository.replaceRemote).not.toHaveBeenCalled();
+      expect(logWarning).toHaveBeenCalled();
+    });
+
+    it('does not fetch when the enrichment service is not set up', async () => {
+      (config.enrichment.isConfigured as jest.Mock).mockReturnValue(false);
+
+      const outcome = await refreshStoreDirectory();
+
+      expect(outcome.status).toBe('failed');
+      expect(fetchStoreDirectoryFromProxy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -34,6 +34,7 @@ import { fetchBeersFromAPI, fetchMyBeersFromAPI, fetchRewardsFromAPI } from '../
 import { fetchBeersFromProxy } from '../enrichmentService';
 import { config } from '@/src/config';
 import { beerRepository } from '../../database/repositories/BeerRepository';
+import { storeTaplistRepository } from '../../database/repositories/StoreTaplistRepository';
 import { setPreference } from '../../database/preferences';
 import { fetchedRows, confirmedEmpty } from '../../api/__tests__/helpers/fetchOutcomeFixtures';
 import {
@@ -101,6 +102,10 @@ jest.mock('../../database/repositories/BeerRepository', () => ({
   beerRepository: { insertManyUnsafe: jest.fn(async () => {}), count: jest.fn(async () => 12) },
 }));
 
+jest.mock('../../database/repositories/StoreTaplistRepository', () => ({
+  storeTaplistRepository: { saveTaplistUnsafe: jest.fn(async () => {}) },
+}));
+
 jest.mock('../../database/repositories/MyBeersRepository', () => ({
   myBeersRepository: {
     insertManyUnsafe: jest.fn(async () => {}),
@@ -258,6 +263,39 @@ describe('a store switch between fetch and commit', () => {
     });
   });
 
+  describe('the rows fetched for the previous store', () => {
+    it.each([
+      ['refreshAllDataFromAPI', refreshAllDataFromAPI],
+      ['sequentialRefreshAllData', sequentialRefreshAllData],
+      ['fetchAndUpdateAllBeers', fetchAndUpdateAllBeers],
+    ])("go into that store's cache on %s", async (_name, refresh) => {
+      // Switching back to A then shows them at once instead of an empty list
+      fetchThenSwitchStore();
+
+      await refresh();
+
+      expect(storeTaplistRepository.saveTaplistUnsafe).toHaveBeenCalledTimes(1);
+      const [storeId, , beers, etag] = (storeTaplistRepository.saveTaplistUnsafe as jest.Mock).mock
+        .calls[0];
+      expect(storeId).toBe('13885');
+      expect(beers).toEqual([expect.objectContaining({ id: 'b1' })]);
+      // A direct fetch carries no validator, so none is kept with it
+      expect(etag).toBe('');
+    });
+
+    it('are cached inside the hold that refused them', async () => {
+      let holderAtSave: string | null = null;
+      (storeTaplistRepository.saveTaplistUnsafe as jest.Mock).mockImplementationOnce(async () => {
+        holderAtSave = mockLockHolder;
+      });
+      fetchThenSwitchStore();
+
+      await fetchAndUpdateAllBeers();
+
+      expect(holderAtSave).not.toBeNull();
+    });
+  });
+
   describe('when the server answers 304', () => {
     // A 304 writes no rows, which is why the guard was originally applied only
     // to the replace arm. That reasoning was wrong: a 304 stamps
@@ -30,6 +30,10 @@ describe('nextTaplistEtag', () => {
     expect(nextTaplistEtag({ kind: 'fallback' })).toBe('');
   });
 
+  it('clears the ETag when the table was filled from a taplist file', () => {
+    expect(nextTaplistEtag({ kind: 'file' })).toBe('');
+  });
+
   it('clears the ETag when a proxy response carried no ETag header', () => {
     expect(nextTaplistEtag({ kind: 'proxy', etag: null })).toBe('');
   });
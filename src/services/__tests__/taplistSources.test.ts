@@ -0,0 +1,102 @@
+/**
+ * Tests for the taplist source registry
+ */
+
+import { config } from '@/src/config';
+import { getTaplistSources, registerTaplistSource, TaplistSource } from '../taplistSources';
+
+jest.mock('../../api/beerApi', () => ({
+  fetchBeersFromAPI: jest.fn(),
+}));
+
+jest.mock('../enrichmentService', () => ({
+  fetchBeersFromProxy: jest.fn(),
+  recordFallback: jest.fn(),
+}));
+
+jest.mock('@/src/config', () => {
+  const actual = jest.requireActual('@/src/config');
+  return {
+    ...actual,
+    config: {
+      ...actual.config,
+      enrichment: { ...actual.config.enrichment, isConfigured: jest.fn().mockReturnValue(true) },
+      taplistFile: { uri: undefined, isConfigured: jest.fn().mockReturnValue(false) },
+    },
+  };
+});
+
+const kinds = (storeId: string | null) => getTaplistSources(storeId).map(source => source.kind);
+
+beforeEach(() => {
+  (config.enrichment.isConfigured as jest.Mock).mockReturnValue(true);
+  (config.taplistFile.isConfigured as jest.Mock).mockReturnValue(false);
+});
+
+describe('getTaplistSources', () => {
+  it('asks the proxy before the Flying Saucer API', () => {
+    expect(kinds('13879')).toEqual(['proxy', 'flying-saucer']);
+  });
+
+  it('asks a configured taplist file first', () => {
+    (config.taplistFile.isConfigured as jest.Mock).mockReturnValue(true);
+
+    expect(kinds('13879')).toEqual(['file', 'proxy', 'flying-saucer']);
+  });
+
+  it('skips the proxy without a store id or an enrichment config', () => {
+    expect(kinds(null)).toEqual(['flying-saucer']);
+
+    (config.enrichment.isConfigured as jest.Mock).mockReturnValue(false);
+    expect(kinds('13879')).toEqual(['flying-saucer']);
+  });
+
+  it('declares what each built-in source can do', () => {
+    (config.taplistFile.isConfigured as jest.Mock).mockReturnValue(true);
+    const capabilities = Object.fromEntries(
+      getTaplistSources('13879').map(source => [source.kind, source.capabilities])
+    );
+
+    expect(capabilities).toEqual({
+      file: { etag: false, enrichment: false, memberData: false },
+      proxy: { etag: true, enrichment: true, memberData: true },
+      'flying-saucer': { etag: false, enrichment: false, memberData: true },
+    });
+  });
+});
+
+describe('registerTaplistSource', () => {
+  const otherBar: TaplistSource = {
+    kind: 'flying-saucer',
+    label: 'another bar',
+    capabilities: { etag: false, enrichment: false, memberData: false },
+    onFailure: 'fail',
+    canFetch: () => true,
+    fetch: jest.fn(),
+  };
+
+  it('replaces the source for its kind until restored', () => {
+    const restore = registerTaplistSource(otherBar);
+
+    expect(getTaplistSources(null)).toEqual([otherBar]);
+
+    restore();
+
+    expect(getTaplistSources(null).map(source => source.label)).toEqual(['Flying Saucer API']);
+  });
+
+  it('leaves a later registration in place when an earlier one is restored', () => {
+    const restoreFirst = registerTaplistSource(otherBar);
+    const later = { ...otherBar, label: 'later bar' };
+    const restoreLater = registerTaplistSource(later);
+
+    restoreFirst();
+    expect(getTaplistSources(null)).toEqual([later]);
+
+    restoreLater();
+    expect(getTaplistSources(null)).toEqual([otherBar]);
+
+    restoreFirst();
+    expect(getTaplistSources(null).map(source => source.label)).toEqual(['Flying Saucer API']);
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Background Refresh Service
+ *
+ * The entry point the OS calls to refresh the data while the app is not on
+ * screen. It runs `sequentialRefreshAllData` — the same fetch-then-write
+ * refresh the foreground uses, so its writes take the same
+ * `refresh-all-data-write` lock, join a refresh already in flight, and keep the
+ * store-switch guards of the taplist writers.
+ *
+ * Whether to run, and within what budget, is `decideBackgroundRefresh`
+ * (`src/utils/backgroundRefresh.ts`). Like every automatic refresh it then
+ * leaves the sources the refresh policy keeps for Wi-Fi when the connection is
+ * metered. Each run's outcome is stored, both for the next decision and so the
+ * next launch can skip the fetch it would otherwise repeat
+ * (`launchSourcesFreshFromBackground`).
+ *
+ * The OS schedules it through expo-background-task: WorkManager on Android,
+ * BGTaskScheduler on iOS (the config plugin adds the `processing` background
+ * mode and task identifier). `defineBackgroundRefreshTask` defines the task at
+ * module scope of the app's entry, so a start in the background finds it, and
+ * `scheduleBackgroundRefresh` asks for it to run every
+ * BACKGROUND_REFRESH_INTERVAL_MS at most. The OS treats that as a minimum and
+ * picks its own windows; `decideBackgroundRefresh` still ignores an early
+ * wake-up. Neither scheduler reports when it is limiting background work, so
+ * a run that timed out last time stands in for that.
+ */
+
+import { AppState, Platform } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import * as BackgroundTask from 'expo-background-task';
+import * as TaskManager from 'expo-task-manager';
+import { closeDatabaseConnection } from '../database/connection';
+// eslint-disable-next-line no-restricted-imports -- setupDatabase is a bootstrap function, not CRUD
+import { setupDatabase } from '../database/db';
+import { getPreference, setPreference } from '../database/preferences';
+import {
+  BACKGROUND_REFRESH_INTERVAL_MS,
+  BackgroundRefreshOutcome,
+  BackgroundRefreshRecord,
+  decideBackgroundRefresh,
+  parseBackgroundRefreshRecord,
+  runWithinBudget,
+  sourcesFreshFromBackground,
+} from '../utils/backgroundRefresh';
+import { logError, logInfo } from '../utils/errorLogger';
+import { skippedSource, sourcesFromRefreshResult } from '../utils/refreshLog';
+import { REFRESH_SOURCES, RefreshSource } from '../utils/refreshPolicy';
+import { ManualRefreshResult, sequentialRefreshAllData } from './dataUpdateService';
+import { recordRefreshRun } from './refreshLogService';
+import { sourcesWaitingForWifi } from './refreshPolicyService';
+
+/** The task's name, as the scheduler knows it */
+export const BACKGROUND_REFRESH_TASK = 'BeerSelectorBackgroundRefresh';
+
+const LAST_BACKGROUND_REFRESH_KEY = 'background_refresh_last';
+
+/**
+ * What a caller knows about the conditions the task runs in
+ */
+export type BackgroundRefreshTaskData = {
+  /** The system is limiting background work, e.g. in battery saver */
+  throttled?: boolean;
+};
+
+/** How a finished refresh went, across its three sources */
+function refreshOutcome(result: ManualRefreshResult): BackgroundRefreshOutcome {
+  if (!result.hasErrors) {
+    return 'refreshed';
+  }
+  const results = [result.allBeersResult, result.myBeersResult, result.rewardsResult];
+  return results.every(sourceResult => !sourceResult.success) ? 'failed' : 'partial';
+}
+
+/**
+ * The last background refresh's record, or null if there is none or it cannot
+ * be read. Never throws.
+ */
+export async function readLastBackgroundRefresh(): Promise<BackgroundRefreshRecord | null> {
+  try {
+    return parseBackgroundRefreshRecord(await getPreference(LAST_BACKGROUND_REFRESH_KEY));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The sources the launch refresh can skip because a background refresh just
+ * fetched them. Never throws: when in doubt, the launch fetches.
+ */
+export async function launchSourcesFreshFromBackground(
+  now: number = Date.now()
+): Promise<ReadonlySet<RefreshSource>> {
+  return sourcesFreshFromBackground(await readLastBackgroundRefresh(), now);
+}
+
+/**
+ * Refresh in the background, if the policy says to.
+ *
+ * Never throws: a background task that rejects is only logged by the OS, so
+ * failures are logged here and reported as no run.
+ *
+ * @param taskData - What the caller knows of the conditions; the scheduled task
+ *   passes nothing
+ * @returns The run's record, or null when nothing ran
+ */
+export async function runBackgroundRefresh(
+  taskData: BackgroundRefreshTaskData = {}
+): Promise<BackgroundRefreshRecord | null> {
+  try {
+    // A background start may be the first code to run in this process
+    await setupDatabase();
+
+    const decision = decideBackgroundRefresh({
+      now: Date.now(),
+      lastRun: await readLastBackgroundRefresh(),
+      appActive: AppState.currentState === 'active',
+      configured: Boolean(await getPreference('all_beers_api_url')),
+      throttled: taskData.throttled === true,
+    });
+
+    if (!decision.run) {
+      console.log(`[backgroundRefresh] Not refreshing: ${decision.reason}`);
+      return null;
+    }
+
+    const waitingForWifi = await sourcesWaitingForWifi(
+      (await NetInfo.fetch().catch(() => null))?.details?.isConnectionExpensive
+    );
+    const toFetch = REFRESH_SOURCES.filter(
+      source => source !== 'rewards' || decision.includeRewards
+    );
+    const leftForWifi = toFetch.filter(source => waitingForWifi.has(source));
+    if (leftForWifi.length === toFetch.length) {
+      console.log('[backgroundRefresh] Not refreshing: every source is waiting for Wi-Fi');
+      return null;
+    }
+
+    const startedAt = Date.now();
+    const refresh = sequentialRefreshAllData({
+      includeRewards: decision.includeRewards,
+      leaveOut: waitingForWifi,
+    });
+    const finished = await runWithinBudget(refresh, decision.budgetMs);
+
+    // A refresh past its budget is recorded when it finishes, if the process
+    // lives that long. One that throws has no results to record.
+    const recorded = refresh.then(
+      result =>
+        recordRefreshRun(
+          'background',
+          startedAt,
+          sourcesFromRefreshResult(result, decision.includeRewards).map(logged =>
+            waitingForWifi.has(logged.source)
+              ? skippedSource(logged.source, 'waiting-for-wifi')
+              : logged
+          )
+        ),
+      () => undefined
+    );
+    if (finished.kind === 'finished') {
+      await recorded;
+    }
+
+    const record: BackgroundRefreshRecord = {
+      startedAt,
+      finishedAt: Date.now(),
+      outcome: finished.kind === 'timed-out' ? 'timed-out' : refreshOutcome(finished.value),
+      includedRewards: decision.includeRewards,
+      leftForWifi,
+    };
+    await setPreference(
+      LAST_BACKGROUND_REFRESH_KEY,
+      JSON.stringify(record),
+      'Outcome of the last background refresh'
+    );
+    logInfo(`Background refresh ${record.outcome}`, {
+      operation: 'runBackgroundRefresh',
+      component: 'backgroundRefreshService',
+      additionalData: { ...record, durationMs: record.finishedAt - startedAt },
+    });
+
+    // Closed as the app closes it on backgrounding. Not after a timeout: the
+    // refresh is still writing, and closing would wait on it past the budget.
+    if (finished.kind === 'finished' && AppState.currentState !== 'active') {
+      await closeDatabaseConnection();
+    }
+
+    return record;
+  } catch (error) {
+    logError(error, {
+      operation: 'runBackgroundRefresh',
+      component: 'backgroundRefreshService',
+    });
+    return null;
+  }
+}
+
+/**
+ * Define the task. Call once, at module scope of the app's entry, so a start
+ * in the background finds it.
+ */
+export function defineBackgroundRefreshTask(): void {
+  if (Platform.OS === 'web' || TaskManager.isTaskDefined(BACKGROUND_REFRESH_TASK)) {
+    return;
+  }
+  TaskManager.defineTask(BACKGROUND_REFRESH_TASK, async () => {
+    const record = await runBackgroundRefresh();
+    return record?.outcome === 'failed'
+      ? BackgroundTask.BackgroundTaskResult.Failed
+      : BackgroundTask.BackgroundTaskResult.Success;
+  });
+}
+
+/**
+ * Ask the OS to run the task periodically. Registration persists across
+ * launches, so a task already registered is left alone.
+ *
+ * Never throws: without background refresh the app still refreshes on launch.
+ *
+ * @returns Whether the task is scheduled
+ */
+export async function scheduleBackgroundRefresh(): Promise<boolean> {
+  if (Platform.OS === 'web') {
+    return false;
+  }
+
+  try {
+    if ((await BackgroundTask.getStatusAsync()) !== BackgroundTask.BackgroundTaskStatus.Available) {
+      console.log('[backgroundRefresh] Background tasks are restricted on this device');
+      return false;
+    }
+    if (!(await TaskManager.isTaskRegisteredAsync(BACKGROUND_REFRESH_TASK))) {
+      await BackgroundTask.registerTaskAsync(BACKGROUND_REFRESH_TASK, {
+        minimumInterval: BACKGROUND_REFRESH_INTERVAL_MS / 60_000,
+      });
+    }
+    return true;
+  } catch (error) {
+    logError(error, {
+      operation: 'scheduleBackgroundRefresh',
+      component: 'backgroundRefreshService',
+    });
+    return false;
+  }
+}
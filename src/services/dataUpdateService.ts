@@ -1,5 +1,5 @@
 import { getPreference, setPreference, areApiUrlsConfigured } from '../database/preferences';
-import { fetchBeersFromAPI, fetchMyBeersFromAPI, fetchRewardsFromAPI } from '../api/beerApi';
+import { fetchMyBeersFromAPI, fetchRewardsFromAPI } from '../api/beerApi';
 import {
   Beer,
   Beerfinder,
@@ -16,9 +16,17 @@ import {
 import { beerRepository } from '../database/repositories/BeerRepository';
 import { myBeersRepository } from '../database/repositories/MyBeersRepository';
 import { rewardsRepository } from '../database/repositories/RewardsRepository';
+import { wishlistRepository } from '../database/repositories/WishlistRepository';
+import { taplistDiffRepository } from '../database/repositories/TaplistDiffRepository';
+import { storeTaplistRepository } from '../database/repositories/StoreTaplistRepository';
 import { databaseLockManager } from '../database/DatabaseLockManager';
 import { toNonEmpty } from '../api/fetchOutcome';
-import { commitTaplistWrite, readTaplistEtag, shouldTrustNotModified } from './taplistEtag';
+import {
+  commitTaplistWrite,
+  nextTaplistEtag,
+  readTaplistEtag,
+  shouldTrustNotModified,
+} from './taplistEtag';
 import type { TaplistWriteSource } from './taplistEtag';
 import type {
   FetchOutcome,
@@ -29,19 +37,30 @@ import type {
 import { validateBeerArray } from '../api/validators';
 import { logError, logWarning } from '../utils/errorLogger';
 import { calculateContainerTypes } from '../database/utils/glassTypeCalculator';
+import { computeTaplistDiff, isEmptyTaplistDiff } from '../utils/taplistDiff';
+import { storeIdFromTaplistUrl } from '../utils/storeDirectory';
 import { config } from '@/src/config';
 import {
-  fetchBeersFromProxy,
   fetchEnrichmentBatchWithMissing,
   syncBeersToWorker,
   mergeEnrichmentData,
-  recordFallback,
-  pollForEnrichmentUpdates,
-  EnrichedBeerResponse,
 } from './enrichmentService';
-import { EnrichmentUpdate } from '../types/enrichment';
+import { getTaplistSources } from './taplistSources';
+import type { TaplistFreshness, TaplistSourceKind } from './taplistSources';
+import { taplistSnapshotRepository } from '../database/repositories/TaplistSnapshotRepository';
+import type { TaplistSnapshotSource } from '../utils/taplistSnapshot';
+import { trackEnrichmentJobs } from './enrichmentJobService';
+import { getRefreshPolicy, noteWaitingForWifi } from './refreshPolicyService';
+import { REFRESH_SOURCES, RefreshSource, shouldWaitForWifi } from '../utils/refreshPolicy';
+import { shouldRunFocusRefresh } from '../utils/focusRefreshThrottle';
+import { recordRefreshRun } from './refreshLogService';
+import {
+  RefreshLogSource,
+  skippedSource,
+  sourceFromResult,
+  sourcesFromRefreshResult,
+} from '../utils/refreshLog';
 
-const RAPID_REFRESH_WINDOW_MS = 30_000;
 let lastManualRefreshTime = 0;
 
 export function resetLastManualRefreshTime(): void {
@@ -116,6 +135,16 @@ type SequentialRefreshOptions = {
    * was added for.
    */
   readonly join?: boolean;
+  /**
+   * Fetch the rewards as well (default). The background refresh leaves them out
+   * when its budget is tight; a joined refresh's result is returned as it is.
+   */
+  readonly includeRewards?: boolean;
+  /**
+   * Sources not to fetch this time, e.g. those the refresh policy leaves for
+   * Wi-Fi. Like rewards left out, each settles as nothing to store.
+   */
+  readonly leaveOut?: ReadonlySet<RefreshSource>;
 };
 
 /**
@@ -140,7 +169,7 @@ async function settleInFlightRefresh(): Promise<void> {
  * Plan 01 Phase 4. Until that phase the master lock was the *only* thing
  * serialising concurrent refreshes — nothing else de-duplicates them:
  * `useDataRefresh`'s `refreshing` flag is per-component
- * (`hooks/useDataRefresh.ts`), and `shouldRunFocusRefresh` is a five-minute
+ * (`hooks/useDataRefresh.ts`), and `shouldRunFocusRefresh` is a per-source
  * throttle rather than a mutex (`src/utils/focusRefreshThrottle.ts`). Moving the
  * fetches out from under that lock therefore removes the serialisation as a
  * side effect, and without this replacement the result is two concurrent full
@@ -222,6 +251,8 @@ type AllBeersWrite =
        * decision now; the plan carries it and the writer only commits it.
        */
       readonly taplistSource: TaplistWriteSource;
+      /** Where the rows came from, as the snapshot of them records it */
+      readonly snapshotSource: TaplistSnapshotSource;
     };
 
 /** A tasted-list write. `clear` is reachable only from `confirmed-empty`. */
@@ -256,7 +287,8 @@ type PendingWorkerSync = {
  * The my-beers plan, plus a Worker sync that must not start yet.
  *
  * The sync is the one part of `prepareMyBeers` that is not pure with respect to
- * the database: it polls the Worker and then writes enrichment straight into
+ * the database: the beers it hands the Worker are polled for
+ * (`enrichmentJobService.ts`), and their enrichment written straight into
  * `allbeers` and `tasted_brew_current_round`, taking the master lock itself to
  * do it (`BeerRepository.updateEnrichmentData`,
  * `MyBeersRepository.updateEnrichmentData`).
@@ -266,7 +298,7 @@ type PendingWorkerSync = {
  * the fetch phase, so a poll returning while the rewards fetch is still running
  * could acquire it first, persist enrichment, log success — and then have the
  * clear-and-reinsert throw it away. The poll's first sleep is 5s
- * (`enrichmentService.ts`), so the window opens on exactly the slow links this
+ * (`enrichmentJobService.ts`), so the window opens on exactly the slow links this
  * work targets, and the data lost is exactly the enrichment the sync was
  * started to obtain.
  *
@@ -287,13 +319,19 @@ export type DataUpdateResult = {
   error?: ErrorResponse;
   dataUpdated: boolean;
   itemCount?: number;
+  /**
+   * Set when the taplist server answered 304: what the stored rows made of it.
+   * Only `trusted` succeeds; see `NotModifiedVerdict`.
+   */
+  notModified?: NotModifiedVerdict;
 };
 
 /**
  * Sync missing beers to Worker in background (fire-and-forget pattern).
  *
  * When batch enrichment returns IDs not found in the Worker database,
- * this helper syncs those beers to the Worker for enrichment processing.
+ * this helper syncs those beers to the Worker for enrichment processing and
+ * records them as enrichment jobs to be polled for.
  * Runs asynchronously without blocking the caller.
  *
  * @param missingIds - Array of beer IDs missing from Worker database
@@ -317,42 +355,15 @@ async function syncMissingBeersInBackground(
           `[${operation}] Synced ${syncResult.synced} beers, ${syncResult.queued_for_cleanup} queued for cleanup`
         );
 
-        // Start polling in background (fire-and-forget)
-        // Results logged but UI updates on next manual refresh
-        pollForEnrichmentUpdates(missingIds)
-          .then(async enrichments => {
-            const count = Object.keys(enrichments).length;
-            if (count > 0) {
-              try {
-                const updates: Record<string, EnrichmentUpdate> = {};
-                for (const [id, data] of Object.entries(enrichments)) {
-                  updates[id] = {
-                    enriched_abv: data.enriched_abv,
-                    enrichment_confidence: data.enrichment_confidence,
-                    enrichment_source: data.enrichment_source,
-                    brew_description: data.brew_description,
-                  };
-                }
-                // Persist to both tables — IDs not present in a table are no-ops
-                await beerRepository.updateEnrichmentData(updates);
-                await myBeersRepository.updateEnrichmentData(updates);
-                console.log(`[${operation}] Persisted ${count} enrichment results from polling`);
-              } catch (persistError) {
-                logWarning('Failed to persist polling enrichment results', {
-                  operation,
-                  component: 'dataUpdateService',
-                  additionalData: { error: String(persistError) },
-                });
-              }
-            }
-          })
-          .catch(pollError => {
-            logWarning('Polling for enrichment updates failed', {
-              operation,
-              component: 'dataUpdateService',
-              additionalData: { error: String(pollError) },
-            });
+        // Recorded rather than polled for here, so the wait survives the app
+        // being backgrounded or killed. enrichmentJobService polls for them
+        trackEnrichmentJobs(missingIds).catch(trackError => {
+          logWarning('Failed to record beers waiting on enrichment', {
+            operation,
+            component: 'dataUpdateService',
+            additionalData: { error: String(trackError) },
           });
+        });
       }
     })
     .catch(syncError => {
@@ -364,31 +375,6 @@ async function syncMissingBeersInBackground(
     });
 }
 
-/**
- * Map Worker's enriched beer response to app's Beer interface
- */
-function mapEnrichedBeerToAppBeer(beer: EnrichedBeerResponse): Beer {
-  return {
-    id: beer.id,
-    brew_name: beer.brew_name,
-    brewer: beer.brewer,
-    brewer_loc: beer.brewer_loc,
-    brew_style: beer.brew_style,
-    brew_container: beer.brew_container,
-    // `EnrichedBeerResponse` allows `null` here (`z.string().nullish()`);
-    // `Beer` only allows `undefined`. Normalize at this boundary rather than
-    // widening `Beer`'s type for the sake of one producer.
-    review_count: beer.review_count ?? undefined,
-    review_rating: beer.review_rating ?? undefined,
-    brew_description: beer.brew_description,
-    added_date: beer.added_date,
-    // Use enriched ABV from Worker
-    abv: beer.enriched_abv,
-    enrichment_confidence: beer.enrichment_confidence,
-    enrichment_source: beer.enrichment_source,
-  };
-}
-
 /**
  * Which store the app is currently configured for.
  *
@@ -519,8 +505,34 @@ async function taplistConfigurationHeld(fetchedFor: TaplistConfiguration): Promi
 }
 
 /**
- * What a writer returns when it discards rows fetched for a store the app has
- * since left.
+ * Keep rows fetched for a store the app has since left in that store's cache,
+ * so switching back to it shows them. Runs under the caller's lock.
+ *
+ * The ETag goes with them: it was minted for exactly these rows, which is the
+ * invariant `taplistEtag.ts` holds `allbeers` to.
+ */
+async function keepTaplistForStore(
+  fetchedFor: TaplistConfiguration,
+  beers: readonly Beer[],
+  source: TaplistWriteSource
+): Promise<void> {
+  const storeId = fetchedFor ? storeIdFromTaplistUrl(fetchedFor) : null;
+  if (!storeId) {
+    return;
+  }
+  await storeTaplistRepository.saveTaplistUnsafe(
+    storeId,
+    `Store ${storeId}`,
+    beers,
+    nextTaplistEtag(source),
+    Date.now()
+  );
+}
+
+/**
+ * What a writer returns when it does not commit rows fetched for a store the
+ * app has since left. Those rows are not lost: the writer hands them to
+ * `keepTaplistForStore` first.
  *
  * `success: true` deliberately, matching the `skip` arm of `decideRewards`:
  * nothing failed, and the user is not the person to tell. The refresh did its
@@ -538,7 +550,7 @@ async function taplistConfigurationHeld(fetchedFor: TaplistConfiguration): Promi
  * of being suppressed by the 12-hour window.
  */
 function abandonedAfterStoreSwitch(operation: string): DataUpdateResult {
-  logWarning(`[${operation}] taplist discarded: store changed between fetch and write`, {
+  logWarning(`[${operation}] taplist not written: store changed between fetch and write`, {
     operation,
     component: 'dataUpdateService',
   });
@@ -546,35 +558,48 @@ function abandonedAfterStoreSwitch(operation: string): DataUpdateResult {
 }
 
 /**
- * Extract store ID from the all_beers_api_url preference.
- *
- * The URL format is: https://fsbs.beerknurd.com/bk-store-json.php?sid={storeId}
- * We need to extract the sid parameter.
- *
- * @param apiUrl - The full API URL
- * @returns Store ID string or null if not found
- */
-function extractStoreIdFromUrl(apiUrl: string): string | null {
-  try {
-    const url = new URL(apiUrl);
-    return url.searchParams.get('sid');
-  } catch {
-    // Try regex as fallback for malformed URLs
-    const match = apiUrl.match(/sid=(\d+)/);
-    return match ? match[1] : null;
-  }
-}
-
-/**
- * Result of fetching taplist data via proxy or direct API
+ * Result of fetching taplist data from the first taplist source that answered
  */
 export type TaplistFetchResult = {
   beers: Beer[];
+  /** Which source answered */
+  source: TaplistSourceKind;
+  /** `source === 'proxy'`: the rows carry the Worker's enrichment */
   usedProxy: boolean;
   etag: string | null;
   notModified: boolean;
+  /** How fresh the source said the rows were, when it said */
+  freshness?: TaplistFreshness;
 };
 
+/**
+ * What produced a fetched taplist, for `taplistEtag.ts` to decide its ETag.
+ */
+function taplistWriteSource(result: TaplistFetchResult): TaplistWriteSource {
+  switch (result.source) {
+    case 'proxy':
+      return { kind: 'proxy', etag: result.etag };
+    case 'flying-saucer':
+      return { kind: 'fallback' };
+    case 'file':
+      return { kind: 'file' };
+  }
+}
+
+/**
+ * Where a fetched taplist came from, for its snapshot.
+ */
+function taplistSnapshotSource(result: TaplistFetchResult): TaplistSnapshotSource {
+  switch (result.source) {
+    case 'proxy':
+      return result.freshness ?? 'live';
+    case 'flying-saucer':
+      return 'fallback';
+    case 'file':
+      return 'file';
+  }
+}
+
 /**
  * The result of disbelieving a 304 because the table it describes is empty.
  *
@@ -604,7 +629,7 @@ export type TaplistFetchResult = {
  *     chance: these functions RETURN the failure and do not throw, so the
  *     catch never fires for it. (Cited by symbol, not line: the line this
  *     first cited was pushed down by the very comment that records it.)
- *   - tab focus — the three tab screens call `checkAndRefreshOnAppOpen(2)` and
+ *   - tab focus — the three tab screens call `checkAndRefreshOnAppOpen` and
  *     read `result.updated` only. That result carries an `errors:
  *     ErrorResponse[]`, and nothing in `app/`, `hooks/`, `components/` or
  *     `context/` reads `.errors` from anything — verified by grep, not assumed.
@@ -627,6 +652,7 @@ function emptyTableNotModifiedFailure(verdict: NotModifiedVerdict): DataUpdateRe
   return {
     success: false,
     dataUpdated: false,
+    notModified: verdict,
     error: {
       type: ApiErrorType.VALIDATION_ERROR,
       message:
@@ -648,7 +674,7 @@ function emptyTableNotModifiedFailure(verdict: NotModifiedVerdict): DataUpdateRe
  * i.e. the very state the backstop exists for. Both wrong answers are silent;
  * this one is neither, and leaves the next refresh free to retry.
  */
-type NotModifiedVerdict = 'trusted' | 'empty' | 'unknown';
+export type NotModifiedVerdict = 'trusted' | 'empty' | 'unknown';
 
 /**
  * Decide whether to believe a 304. MUST be called while holding the write lock:
@@ -675,14 +701,16 @@ async function verifyNotModified(): Promise<NotModifiedVerdict> {
 }
 
 /**
- * Shared helper that encapsulates the proxy-then-fallback taplist fetch logic.
+ * Shared helper that encapsulates the source-then-fallback taplist fetch logic.
  *
- * Tries the enrichment proxy first (if configured and storeId available),
- * falls back to the direct Flying Saucer API on failure or when proxy is unavailable.
+ * Asks the taplist sources (see `taplistSources.ts`) in order: a configured
+ * taplist file, then the enrichment proxy (if configured and storeId
+ * available), falling back to the direct Flying Saucer API when the proxy
+ * fails or is unavailable. The name predates the file source.
  *
  * @param storeId - Flying Saucer store ID, or null if not extractable from URL
- * @returns TaplistFetchResult with beers, proxy usage flag, and optional ETag
- * @throws Error if both proxy and direct fetch fail, or if direct fetch fails when proxy is not configured
+ * @returns TaplistFetchResult with beers, the source that answered, and optional ETag
+ * @throws Error if the last source asked fails, or a source that does not fall back fails
  */
 export async function fetchTaplistFromProxyOrDirect(
   storeId: string | null
@@ -764,55 +792,63 @@ export function dropInFlightTaplistFetch(): void {
 }
 
 async function runTaplistFetch(storeId: string | null): Promise<TaplistFetchResult> {
-  if (storeId && config.enrichment.isConfigured()) {
+  const sources = getTaplistSources(storeId);
+  // Via the module, not the raw preference. This is defensive, not corrective:
+  // an earlier comment here claimed reading the preference directly sent a
+  // cleared ETag as an empty `If-None-Match`, which is false —
+  // `fetchBeersFromProxy` guards with `if (etag)`, and `''` is falsy, so the
+  // header was already omitted. What routing through `readTaplistEtag` actually
+  // buys is that the decision no longer depends on a falsiness check in another
+  // module, and `normalizeStoredEtag` trims, so a whitespace-only value omits
+  // the header instead of sending `If-None-Match:   `. No current writer
+  // produces that value. Read only for a source that can revalidate.
+  const etag = sources.some(source => source.capabilities.etag)
+    ? await readTaplistEtag()
+    : undefined;
+
+  for (const [index, source] of sources.entries()) {
+    const passesOn = source.onFailure === 'next-source' && index < sources.length - 1;
+
     try {
-      console.log(`[dataUpdateService] Attempting enrichment proxy for store ${storeId}...`);
-      // Via the module, not the raw preference. This is defensive, not
-      // corrective: an earlier comment here claimed reading the preference
-      // directly sent a cleared ETag as an empty `If-None-Match`, which is
-      // false — `fetchBeersFromProxy` guards with `if (etag)`, and `''` is
-      // falsy, so the header was already omitted. What routing through
-      // `readTaplistEtag` actually buys is that the decision no longer depends
-      // on a falsiness check in another module, and `normalizeStoredEtag` trims,
-      // so a whitespace-only value omits the header instead of sending
-      // `If-None-Match:   `. No current writer produces that value.
-      const proxyResponse = await fetchBeersFromProxy(storeId, await readTaplistEtag());
-
-      if (proxyResponse.notModified) {
-        console.log(`[dataUpdateService] 304 Not Modified for store ${storeId}`);
-        return { beers: [], usedProxy: true, etag: proxyResponse.etag ?? null, notModified: true };
+      const answer = await source.fetch(storeId, source.capabilities.etag ? etag : undefined);
+
+      if (answer.status === 'unchanged') {
+        return {
+          beers: [],
+          source: source.kind,
+          usedProxy: source.kind === 'proxy',
+          etag: answer.etag,
+          notModified: true,
+        };
       }
 
-      const beers = proxyResponse.beers.map(mapEnrichedBeerToAppBeer);
-      console.log(
-        `[dataUpdateService] Fetched ${beers.length} beers via proxy (${proxyResponse.source ?? 'unknown'})`
-      );
+      const beers = requireRows(answer, 'All beers');
       return {
-        beers,
-        usedProxy: true,
-        etag: proxyResponse.etag ?? null,
+        beers: [...beers],
+        source: source.kind,
+        usedProxy: source.kind === 'proxy',
+        etag: answer.status === 'fetched' ? answer.etag : null,
         notModified: false,
+        freshness: answer.freshness,
       };
-    } catch (proxyError) {
-      logWarning('Enrichment proxy failed, falling back to direct fetch', {
+    } catch (sourceError) {
+      if (!passesOn) {
+        throw sourceError;
+      }
+      logWarning(`Taplist source ${source.label} failed, falling back to the next`, {
         operation: 'fetchTaplistFromProxyOrDirect',
         component: 'dataUpdateService',
         additionalData: {
           storeId,
-          error: proxyError instanceof Error ? proxyError.message : String(proxyError),
+          source: source.kind,
+          error: sourceError instanceof Error ? sourceError.message : String(sourceError),
         },
       });
     }
-  } else if (!config.enrichment.isConfigured()) {
-    console.log('[dataUpdateService] Enrichment not configured, using direct fetch');
-  } else if (!storeId) {
-    console.log('[dataUpdateService] Could not extract store ID from URL, using direct fetch');
   }
 
-  console.log('[dataUpdateService] Using direct Flying Saucer fetch...');
-  recordFallback();
-  const beers = requireRows(await fetchBeersFromAPI(), 'All beers');
-  return { beers: [...beers], usedProxy: false, etag: null, notModified: false };
+  // Unreachable with the built-in sources: the Flying Saucer one can always fetch
+  throw new Error('No taplist source can fetch this store');
 }
 
 /**
@@ -1013,6 +1049,80 @@ function decideRewards(source: UnconditionalSource<FetchOutcome<Reward>>): Rewar
     : { action: 'write', rows: source.data.items };
 }
 
+/**
+ * The taplist a refresh is about to replace, for the new-arrivals diff.
+ *
+ * Read under the caller's write lock, just before the replace, so it is the
+ * taplist the new one follows. Null when it cannot be read: the refresh goes
+ * ahead and records no diff.
+ */
+async function readTaplistBeforeReplace(): Promise<readonly Beer[] | null> {
+  try {
+    return await beerRepository.getAll();
+  } catch (error) {
+    logWarning('Could not read the taplist being replaced; recording no diff', {
+      operation: 'readTaplistBeforeReplace',
+      component: 'dataUpdateService',
+      additionalData: { message: error instanceof Error ? error.message : String(error) },
+    });
+    return null;
+  }
+}
+
+/**
+ * Record what a taplist write changed. Runs under the caller's write lock.
+ *
+ * Both fetch paths arrive here with the same shape of rows, which is what lets
+ * one diff serve the proxy and the direct fallback alike; see taplistDiff.ts
+ * for how the ABVs the fallback lacks are handled. Nothing is recorded against
+ * an empty or unreadable previous taplist (the first load would report every
+ * beer as new), nor when nothing changed.
+ */
+async function recordTaplistDiff(
+  previous: readonly Beer[] | null,
+  next: readonly Beer[]
+): Promise<void> {
+  if (!previous || previous.length === 0) {
+    return;
+  }
+
+  const diff = computeTaplistDiff(previous, next);
+  if (isEmptyTaplistDiff(diff)) {
+    return;
+  }
+
+  await taplistDiffRepository.recordUnsafe(diff);
+  console.log(
+    `Taplist diff: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed`
+  );
+}
+
+/**
+ * Keep a snapshot of the taplist just written, for browsing it later. Runs
+ * under the caller's write lock, after the rows it copies.
+ *
+ * The ETag stored is the one committed with the rows. Nothing is kept for a
+ * taplist URL without a store ID: snapshots are listed per store.
+ */
+async function snapshotTaplist(
+  fetchedFor: TaplistConfiguration,
+  beers: readonly Beer[],
+  source: TaplistWriteSource,
+  snapshotSource: TaplistSnapshotSource
+): Promise<void> {
+  const storeId = fetchedFor ? storeIdFromTaplistUrl(fetchedFor) : null;
+  if (!storeId) {
+    return;
+  }
+  await taplistSnapshotRepository.saveUnsafe({
+    storeId,
+    fetchedAt: Date.now(),
+    source: snapshotSource,
+    etag: nextTaplistEtag(source) || null,
+    beers,
+  });
+}
+
 /**
  * Fetch and update all beers data
  *
@@ -1045,7 +1155,7 @@ export async function fetchAndUpdateAllBeers(): Promise<DataUpdateResult> {
     }
 
     // Extract store ID from URL for proxy calls
-    const storeId = extractStoreIdFromUrl(apiUrl);
+    const storeId = storeIdFromTaplistUrl(apiUrl);
 
     // Fetch beers via proxy or direct API
     const result = await fetchTaplistFromProxyOrDirect(storeId);
@@ -1105,14 +1215,14 @@ export async function fetchAndUpdateAllBeers(): Promise<DataUpdateResult> {
       }
 
       console.log('All beers data not modified (304), skipping DB update');
-      return { success: true, dataUpdated: false };
+      return { success: true, dataUpdated: false, notModified: 'trusted' };
     }
 
-    const { beers: allBeers, usedProxy, etag } = result;
+    const { beers: allBeers, usedProxy } = result;
 
     // Log the source of data
     console.log(
-      `All beers fetch complete: ${allBeers.length} beers ${usedProxy ? '(with enrichment)' : '(no enrichment)'}`
+      `All beers fetch complete: ${allBeers.length} beers from ${result.source} ${usedProxy ? '(with enrichment)' : '(no enrichment)'}`
     );
 
     // Validate individual beer records before insertion
@@ -1221,12 +1331,27 @@ export async function fetchAndUpdateAllBeers(): Promise<DataUpdateResult> {
       // user sits on the previous store's taplist until something manual
       // happens.
       if (!(await taplistConfigurationHeld(fetchedFor))) {
+        await keepTaplistForStore(fetchedFor, beersToInsert, taplistWriteSource(result));
         return false;
       }
 
+      const previousTaplist = await readTaplistBeforeReplace();
       await commitTaplistWrite({ kind: 'cleared' });
       await beerRepository.insertManyUnsafe(beersToInsert);
-      await commitTaplistWrite(usedProxy ? { kind: 'proxy', etag } : { kind: 'fallback' });
+      await commitTaplistWrite(taplistWriteSource(result));
+      await recordTaplistDiff(previousTaplist, beersToInsert);
+      await snapshotTaplist(
+        fetchedFor,
+        beersToInsert,
+        taplistWriteSource(result),
+        taplistSnapshotSource(result)
+      );
+
+      // In the same hold as the rows, so the stamp is for this store's taplist
+      const wishlistedOnTap = await wishlistRepository.markOnTapUnsafe();
+      if (wishlistedOnTap > 0) {
+        console.log(`${wishlistedOnTap} wishlisted beers are on tap`);
+      }
 
       // Stamped INSIDE the hold, with the guard and the commit it describes.
       // These were outside it, one statement after the hold returned — and the
@@ -1597,11 +1722,6 @@ export type AutoRefreshResult = {
   errors: ErrorResponse[];
 };
 
-/**
- * Check and refresh data on app open if needed
- * @param minIntervalHours Minimum hours between checks (default: 12)
- * @returns Object with update status and any errors encountered
- */
 // Create a simple wrapper for rewards update
 export async function fetchAndUpdateRewards(): Promise<DataUpdateResult> {
   try {
@@ -1635,12 +1755,14 @@ export async function fetchAndUpdateRewards(): Promise<DataUpdateResult> {
     // nothing — the server confirmed zero rewards and the stale ones stayed.
     if (decision.action === 'clear') {
       await rewardsRepository.replaceAllWithEmpty();
+      await setPreference('rewards_last_check', new Date().toISOString());
       console.log('Updated rewards data successfully: 0 rewards (server confirmed none)');
       return { success: true, dataUpdated: true, itemCount: 0 };
     }
 
     const rows = [...decision.rows];
     await rewardsRepository.insertMany(rows);
+    await setPreference('rewards_last_check', new Date().toISOString());
 
     console.log(`Updated rewards data successfully: ${rows.length} rewards`);
     return {
@@ -1677,6 +1799,8 @@ export async function fetchAndUpdateRewards(): Promise<DataUpdateResult> {
  */
 export async function sequentialRefreshAllData({
   join = true,
+  includeRewards = true,
+  leaveOut,
 }: SequentialRefreshOptions = {}): Promise<ManualRefreshResult> {
   if (join) {
     if (inFlightSequentialRefresh !== null) {
@@ -1687,7 +1811,12 @@ export async function sequentialRefreshAllData({
     await settleInFlightRefresh();
   }
 
-  const run = runSequentialRefresh().finally(() => {
+  const skipped = new Set<RefreshSource>(leaveOut);
+  if (!includeRewards) {
+    skipped.add('rewards');
+  }
+
+  const run = runSequentialRefresh(skipped).finally(() => {
     // Guarded rather than a bare `null` assignment so a late `finally` can only
     // ever clear its OWN entry. Cheap insurance against a future edit that
     // reorders the assignment below.
@@ -1703,11 +1832,22 @@ export async function sequentialRefreshAllData({
  * The refresh itself: fetch everything with no lock held, then write everything
  * under one.
  */
-async function runSequentialRefresh(): Promise<ManualRefreshResult> {
+async function runSequentialRefresh(
+  leaveOut: ReadonlySet<RefreshSource>
+): Promise<ManualRefreshResult> {
   console.log('Sequential refresh: fetching all sources with no lock held');
-  const allBeers = await prepareAllBeers(SEQUENTIAL_REFRESH);
-  const { plan: myBeers, pendingWorkerSync } = await prepareMyBeers(SEQUENTIAL_REFRESH);
-  const rewards = await prepareRewards(SEQUENTIAL_REFRESH);
+  // A source left out settles as nothing to store: a success, so it is not
+  // reported as a failure of the refresh
+  const leftOut = { kind: 'settled', result: { success: true, dataUpdated: false } } as const;
+  const allBeers: SourcePlan<AllBeersWrite> = leaveOut.has('allBeers')
+    ? leftOut
+    : await prepareAllBeers(SEQUENTIAL_REFRESH);
+  const { plan: myBeers, pendingWorkerSync }: MyBeersPreparation = leaveOut.has('myBeers')
+    ? { plan: leftOut, pendingWorkerSync: null }
+    : await prepareMyBeers(SEQUENTIAL_REFRESH);
+  const rewards: SourcePlan<RewardsWrite> = leaveOut.has('rewards')
+    ? leftOut
+    : await prepareRewards(SEQUENTIAL_REFRESH);
 
   /**
    * Applying all three, in order.
@@ -1815,7 +1955,7 @@ async function prepareAllBeers(operation: RefreshOperation): Promise<SourcePlan<
     // store this plan is for: everything below was fetched against THIS value,
     // and the writer refuses to commit it under any other.
     const fetchedFor = await readTaplistConfiguration();
-    const storeId = fetchedFor ? extractStoreIdFromUrl(fetchedFor) : null;
+    const storeId = fetchedFor ? storeIdFromTaplistUrl(fetchedFor) : null;
 
     const taplistResult = await fetchTaplistFromProxyOrDirect(storeId);
 
@@ -1825,7 +1965,7 @@ async function prepareAllBeers(operation: RefreshOperation): Promise<SourcePlan<
       return { kind: 'write', write: { kind: 'not-modified', fetchedFor } };
     }
 
-    const { beers: allBeers, etag } = taplistResult;
+    const { beers: allBeers } = taplistResult;
 
     // Validate beers before insertion
     const validationResult = validateBeerArray(allBeers);
@@ -1880,7 +2020,8 @@ async function prepareAllBeers(operation: RefreshOperation): Promise<SourcePlan<
       write: {
         kind: 'replace',
         beers: sequentialBeers,
-        taplistSource: taplistResult.usedProxy ? { kind: 'proxy', etag } : { kind: 'fallback' },
+        taplistSource: taplistWriteSource(taplistResult),
+        snapshotSource: taplistSnapshotSource(taplistResult),
         fetchedFor,
       },
     };
@@ -1901,6 +2042,9 @@ async function writeAllBeers(write: AllBeersWrite): Promise<DataUpdateResult> {
   // First statement in the writer, before the 304 branch as well as the replace
   // one, and under the caller's lock — see `taplistConfigurationHeld`.
   if (!(await taplistConfigurationHeld(write.fetchedFor))) {
+    if (write.kind === 'replace') {
+      await keepTaplistForStore(write.fetchedFor, write.beers, write.taplistSource);
+    }
     return abandonedAfterStoreSwitch(SEQUENTIAL_REFRESH);
   }
 
@@ -1911,16 +2055,19 @@ async function writeAllBeers(write: AllBeersWrite): Promise<DataUpdateResult> {
       return emptyTableNotModifiedFailure(verdict);
     }
     await setPreference('all_beers_last_check', new Date().toISOString());
-    return { success: true, dataUpdated: false };
+    return { success: true, dataUpdated: false, notModified: 'trusted' };
   }
 
   // Invalidate before replacing, commit after. See the same sequence in
   // `fetchAndUpdateAllBeers`: the caller's lock excludes other writers but does
   // not make these one transaction, so an interruption must leave a cleared
   // ETag rather than the previous one against replaced rows.
+  const previousTaplist = await readTaplistBeforeReplace();
   await commitTaplistWrite({ kind: 'cleared' });
   await beerRepository.insertManyUnsafe(write.beers);
   await commitTaplistWrite(write.taplistSource);
+  await recordTaplistDiff(previousTaplist, write.beers);
+  await snapshotTaplist(write.fetchedFor, write.beers, write.taplistSource, write.snapshotSource);
 
   await setPreference('all_beers_last_update', new Date().toISOString());
   await setPreference('all_beers_last_check', new Date().toISOString());
@@ -2168,11 +2315,13 @@ async function writeRewards(write: RewardsWrite): Promise<DataUpdateResult> {
   // `clear` through it left stale rewards behind and still reported an update.
   if (write.kind === 'clear') {
     await rewardsRepository.replaceAllWithEmptyUnsafe();
+    await setPreference('rewards_last_check', new Date().toISOString());
     return { success: true, dataUpdated: true, itemCount: 0 };
   }
 
   const rows = [...write.rows];
   await rewardsRepository.insertManyUnsafe(rows);
+  await setPreference('rewards_last_check', new Date().toISOString());
   return { success: true, dataUpdated: true, itemCount: rows.length };
 }
 
@@ -2185,6 +2334,16 @@ async function writeRewards(write: RewardsWrite): Promise<DataUpdateResult> {
  * @returns Promise<ManualRefreshResult> with results for all three refresh operations
  */
 export async function manualRefreshAllData(): Promise<ManualRefreshResult> {
+  const startedAt = Date.now();
+  const result = await runManualRefresh();
+  await recordRefreshRun('manual', startedAt, sourcesFromRefreshResult(result));
+  return result;
+}
+
+/**
+ * The manual refresh itself; `manualRefreshAllData` records how it went.
+ */
+async function runManualRefresh(): Promise<ManualRefreshResult> {
   console.log('Starting unified manual refresh for all data types...');
 
   try {
@@ -2225,7 +2384,8 @@ export async function manualRefreshAllData(): Promise<ManualRefreshResult> {
     // Force fresh data by clearing relevant timestamps
     console.log('Clearing timestamp checks for manual refresh (all data)');
     const now = Date.now();
-    if (now - lastManualRefreshTime < RAPID_REFRESH_WINDOW_MS) {
+    const { rapidRefreshWindowSeconds } = await getRefreshPolicy();
+    if (now - lastManualRefreshTime < rapidRefreshWindowSeconds * 1000) {
       console.log('Rapid double-refresh detected, clearing ETag to force full fetch');
       await commitTaplistWrite({ kind: 'cleared' });
     }
@@ -2269,10 +2429,88 @@ export async function manualRefreshAllData(): Promise<ManualRefreshResult> {
   }
 }
 
+/**
+ * What the focus check is told by its caller
+ */
+export type AutoRefreshOptions = {
+  /**
+   * `NetworkContext`'s reading of the connection. When true, sources whose
+   * policy waits for Wi-Fi are left for a later check.
+   */
+  isConnectionExpensive?: boolean | null;
+};
+
+/** The preference each source stamps when it last got an answer */
+const LAST_CHECK_KEYS: Record<RefreshSource, string> = {
+  allBeers: 'all_beers_last_check',
+  myBeers: 'my_beers_last_check',
+  rewards: 'rewards_last_check',
+};
+
+const REFRESH_SOURCE_LABELS: Record<RefreshSource, string> = {
+  allBeers: 'all beers',
+  myBeers: 'my beers',
+  rewards: 'rewards',
+};
+
+/**
+ * Refresh whichever sources the refresh policy says are due, when a tab gains
+ * focus.
+ *
+ * Each source is checked against its own policy (`src/utils/refreshPolicy.ts`),
+ * in order: its focus throttle, then left for Wi-Fi on a metered connection,
+ * then its max age. A throttled tab switch therefore does no more than it did
+ * before the Wi-Fi policy, and a source's wait goes to the refresh log when it
+ * starts rather than on every check it spends waiting.
+ *
+ * @param options - The connection as the caller sees it
+ * @returns Object with update status and any errors encountered
+ */
 export async function checkAndRefreshOnAppOpen(
-  minIntervalHours: number = 12
+  options: AutoRefreshOptions = {}
+): Promise<AutoRefreshResult> {
+  const startedAt = Date.now();
+  const logged: RefreshLogSource[] = [];
+  const result = await refreshDueSources(options, logged);
+
+  // A check that found everything fresh happens on most tab switches, so only
+  // one that fetched something, or held a source back for Wi-Fi, is recorded
+  if (
+    logged.some(source => source.status !== 'skipped' || source.skipReason === 'waiting-for-wifi')
+  ) {
+    await recordRefreshRun('focus', startedAt, logged);
+  }
+  return result;
+}
+
+/**
+ * The focus check itself. Each source it looks at is added to `logged`.
+ */
+async function refreshDueSources(
+  options: AutoRefreshOptions,
+  logged: RefreshLogSource[]
 ): Promise<AutoRefreshResult> {
   try {
+    // The policy is cached, so a throttled tab switch stops here without a
+    // query, as it did when the throttle sat in the tab screens.
+    const policy = await getRefreshPolicy();
+    const now = Date.now();
+    const checked = REFRESH_SOURCES.filter(source => {
+      if (!shouldRunFocusRefresh(now, policy[source].focusThrottleMinutes * 60 * 1000, source)) {
+        return false;
+      }
+      const waiting = shouldWaitForWifi(policy[source], options.isConnectionExpensive);
+      if (noteWaitingForWifi(source, waiting)) {
+        console.log(`On a metered connection, leaving ${REFRESH_SOURCE_LABELS[source]} for Wi-Fi`);
+        logged.push(skippedSource(source, 'waiting-for-wifi'));
+      }
+      return !waiting;
+    });
+
+    if (checked.length === 0) {
+      return { updated: false, errors: [] };
+    }
+
     // First check if API URLs are actually configured
     const allBeersApiUrl = await getPreference('all_beers_api_url');
     const myBeersApiUrl = await getPreference('my_beers_api_url');
@@ -2290,56 +2528,55 @@ export async function checkAndRefreshOnAppOpen(
       return { updated: false, errors: [] };
     }
 
-    const shouldRefreshAllBeers = await shouldRefreshData('all_beers_last_check', minIntervalHours);
-    const shouldRefreshMyBeers = await shouldRefreshData('my_beers_last_check', minIntervalHours);
+    // Only try to refresh my beers and rewards if not in visitor mode and the
+    // URL is configured
+    const configured: Record<RefreshSource, boolean> = {
+      allBeers: Boolean(allBeersApiUrl),
+      myBeers: Boolean(myBeersApiUrl) && !isVisitor,
+      rewards: Boolean(myBeersApiUrl) && !isVisitor,
+    };
+    const refreshers: Record<RefreshSource, () => Promise<DataUpdateResult>> = {
+      allBeers: fetchAndUpdateAllBeers,
+      myBeers: fetchAndUpdateMyBeers,
+      rewards: fetchAndUpdateRewards,
+    };
 
     let updated = false;
     const errors: ErrorResponse[] = [];
 
-    if (shouldRefreshAllBeers && allBeersApiUrl) {
-      console.log(
-        `More than ${minIntervalHours} hours since last all beers check, refreshing data`
-      );
-      const allBeersResult = await fetchAndUpdateAllBeers();
+    for (const source of checked) {
+      const label = REFRESH_SOURCE_LABELS[source];
+      const { maxAgeHours } = policy[source];
 
-      updated = updated || allBeersResult.dataUpdated;
+      if (!configured[source]) {
+        if (isVisitor && source !== 'allBeers') {
+          console.log(`In visitor mode, skipping ${label} refresh`);
+          logged.push(skippedSource(source, 'visitor-mode'));
+        } else {
+          console.log(`API URL not set, skipping ${label} refresh`);
+        }
+        continue;
+      }
 
-      if (!allBeersResult.success && allBeersResult.error) {
-        logError(allBeersResult.error, {
-          operation: 'checkAndRefreshOnAppOpen',
-          component: 'dataUpdateService',
-          additionalData: { message: 'Error refreshing all beers data' },
-        });
-        errors.push(allBeersResult.error);
+      if (!(await shouldRefreshData(LAST_CHECK_KEYS[source], maxAgeHours))) {
+        console.log(`${label} data is less than ${maxAgeHours} hours old, skipping refresh`);
+        logged.push(skippedSource(source, 'fresh'));
+        continue;
       }
-    } else {
-      console.log(
-        `All beers data is less than ${minIntervalHours} hours old or API URL not set, skipping refresh`
-      );
-    }
 
-    // Only try to refresh my beers if not in visitor mode and the URL is configured
-    if (shouldRefreshMyBeers && myBeersApiUrl && !isVisitor) {
-      console.log(`More than ${minIntervalHours} hours since last my beers check, refreshing data`);
-      const myBeersResult = await fetchAndUpdateMyBeers();
+      console.log(`More than ${maxAgeHours} hours since last ${label} check, refreshing data`);
+      const result = await refreshers[source]();
+      logged.push(sourceFromResult(source, result));
 
-      updated = updated || myBeersResult.dataUpdated;
+      updated = updated || result.dataUpdated;
 
-      if (!myBeersResult.success && myBeersResult.error) {
-        logError(myBeersResult.error, {
+      if (!result.success && result.error) {
+        logError(result.error, {
           operation: 'checkAndRefreshOnAppOpen',
           component: 'dataUpdateService',
-          additionalData: { message: 'Error refreshing my beers data' },
+          additionalData: { message: `Error refreshing ${label} data` },
         });
-        errors.push(myBeersResult.error);
-      }
-    } else {
-      if (isVisitor) {
-        console.log('In visitor mode, skipping my beers refresh');
-      } else {
-        console.log(
-          `My beers data is less than ${minIntervalHours} hours old or API URL not set, skipping refresh`
-        );
+        errors.push(result.error);
       }
     }
 
@@ -2387,6 +2624,7 @@ export const refreshAllDataFromAPI = async (): Promise<{
   if (!apiUrlsConfigured) {
     throw new Error('API URLs not configured. Please log in to set up API URLs.');
   }
+  const startedAt = Date.now();
 
   // Fetch phase, no lock held. `01` Phase 4 left this function alone and gave a
   // reason: it had no per-source try/catch, so hoisting the fetches above the
@@ -2410,10 +2648,10 @@ export const refreshAllDataFromAPI = async (): Promise<{
   // they were stored. They are derived from the same plans, so the two cannot
   // describe different decisions; they can still describe a decision that then
   // failed, because `applyPlan` turns a throwing write into a result this
-  // function discards. A rejected taplist insert therefore still returns its
-  // rows. That is pre-existing behaviour, not something the plan derivation
-  // introduced, and an earlier version of this comment claiming the two "cannot
-  // disagree" was overstating it.
+  // function only records in the refresh log. A rejected taplist insert
+  // therefore still returns its rows. That is pre-existing behaviour, not
+  // something the plan derivation introduced, and an earlier version of this
+  // comment claiming the two "cannot disagree" was overstating it.
   //
   // That same earlier version also claimed "autoLogin -> checkInBeer consumes
   // them". It does not: both production callers (`authService.ts:44`, `:399`)
@@ -2426,17 +2664,21 @@ export const refreshAllDataFromAPI = async (): Promise<{
 
   const needsLock = [allBeersPlan, myBeersPlan, rewardsPlan].some(plan => plan.kind === 'write');
 
-  if (needsLock) {
-    await databaseLockManager.withDatabaseLock('refresh-all-from-api-write', async () => {
-      // Each write is isolated, as each fetch is. Failures are logged and not
-      // reported: this entry point returns rows and has no channel to carry a
-      // per-source outcome. Callers needing one use fetchAndUpdateRewards or
-      // sequentialRefreshAllData.
-      await applyPlan(allBeersPlan, writeAllBeersOnLogin, `${REFRESH_FROM_API} - all beers`);
-      await applyPlan(myBeersPlan, writeMyBeersOnLogin, `${REFRESH_FROM_API} - my beers`);
-      await applyPlan(rewardsPlan, writeRewards, `${REFRESH_FROM_API} - rewards`);
-    });
-  }
+  // Each write is isolated, as each fetch is. Failures are logged and not
+  // reported: this entry point returns rows and has no channel to carry a
+  // per-source outcome. Callers needing one use fetchAndUpdateRewards or
+  // sequentialRefreshAllData. The outcomes go to the refresh log below.
+  const applyAll = async (): Promise<
+    readonly [DataUpdateResult, DataUpdateResult, DataUpdateResult]
+  > => [
+    await applyPlan(allBeersPlan, writeAllBeersOnLogin, `${REFRESH_FROM_API} - all beers`),
+    await applyPlan(myBeersPlan, writeMyBeersOnLogin, `${REFRESH_FROM_API} - my beers`),
+    await applyPlan(rewardsPlan, writeRewards, `${REFRESH_FROM_API} - rewards`),
+  ];
+
+  const [allBeersResult, myBeersResult, rewardsResult] = needsLock
+    ? await databaseLockManager.withDatabaseLock('refresh-all-from-api-write', applyAll)
+    : await applyAll();
 
   // After the burst, for the reason `MyBeersPreparation` gives: this sync polls
   // and then writes enrichment into both tables under its own lock, so starting
@@ -2450,6 +2692,12 @@ export const refreshAllDataFromAPI = async (): Promise<{
     );
   }
 
+  await recordRefreshRun(
+    'login',
+    startedAt,
+    sourcesFromRefreshResult({ allBeersResult, myBeersResult, rewardsResult })
+  );
+
   console.log(
     `Refreshed all data: ${allBeers.length} beers, ${myBeers.length} tasted beers, ${rewards.length} rewards`
   );
@@ -2529,6 +2777,9 @@ async function writeAllBeersOnLogin(write: AllBeersWrite): Promise<DataUpdateRes
   // path's own writer: a second login (or a settings change) can land while
   // this one is still fetching.
   if (!(await taplistConfigurationHeld(write.fetchedFor))) {
+    if (write.kind === 'replace') {
+      await keepTaplistForStore(write.fetchedFor, write.beers, write.taplistSource);
+    }
     return abandonedAfterStoreSwitch(REFRESH_FROM_API);
   }
 
@@ -2539,13 +2790,18 @@ async function writeAllBeersOnLogin(write: AllBeersWrite): Promise<DataUpdateRes
       return emptyTableNotModifiedFailure(verdict);
     }
     await setPreference('all_beers_last_check', new Date().toISOString());
-    return { success: true, dataUpdated: false };
+    return { success: true, dataUpdated: false, notModified: 'trusted' };
   }
 
   // Same invalidate-then-commit sequence as the other two writers.
   await commitTaplistWrite({ kind: 'cleared' });
   await beerRepository.insertManyUnsafe(write.beers);
   await commitTaplistWrite(write.taplistSource);
+  // A login can change the store, and a diff against another store's taplist
+  // would call every beer new. Start the history again from this taplist.
+  await taplistDiffRepository.clearUnsafe();
+  // Snapshots are kept per store, so unlike the diffs they survive the switch
+  await snapshotTaplist(write.fetchedFor, write.beers, write.taplistSource, write.snapshotSource);
   return { success: true, dataUpdated: true, itemCount: write.beers.length };
 }
 
@@ -0,0 +1,173 @@
+/**
+ * Enrichment Diagnostics Service
+ *
+ * Keeps the enrichment service's counters and request log across launches, and
+ * puts them together with the Worker's quota for the diagnostics panel in the
+ * Developer settings.
+ *
+ * enrichmentService counts in memory and holds what it counted until it is
+ * taken from here and written to SQLite: whenever the app goes to the
+ * background, and before the panel reads. Counts recorded between the last
+ * write and the app being killed are lost; they are diagnostics, and a write
+ * per request would cost more than they are worth. `_layout.tsx` starts the
+ * recorder once the database is set up.
+ */
+
+import { AppState, AppStateStatus } from 'react-native';
+import { enrichmentMetricsRepository } from '../database/repositories/EnrichmentMetricsRepository';
+import {
+  ENRICHMENT_COUNTERS,
+  EnrichmentCounter,
+  EnrichmentRequestRecord,
+} from '../types/enrichment';
+import { logWarning } from '../utils/errorLogger';
+import {
+  getEnrichmentHealthDetails,
+  HealthResponse,
+  takePendingEnrichmentMetrics,
+} from './enrichmentService';
+
+/** The period the panel sums the counters over */
+export const DIAGNOSTICS_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Buckets older than this are dropped */
+export const METRICS_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Requests kept in the log */
+export const MAX_LOGGED_REQUESTS = 100;
+
+/** Requests the panel lists */
+export const RECENT_REQUEST_COUNT = 20;
+
+/**
+ * What the diagnostics panel shows
+ */
+export type EnrichmentDiagnostics = {
+  /** Start of the period the totals cover, in epoch ms */
+  since: number;
+  /** Each counter summed over the period */
+  totals: Record<EnrichmentCounter, number>;
+  /** Successful share of proxy requests; null when none were made */
+  successRate: number | null;
+  /** Share of successful requests served from the Worker's cache; null when none succeeded */
+  cacheHitRatio: number | null;
+  /** The Worker's Perplexity quota; null when /health was unreachable or did not say */
+  quota: NonNullable<HealthResponse['enrichment']> | null;
+  /** The latest requests, newest first */
+  recentRequests: EnrichmentRequestRecord[];
+};
+
+/**
+ * Write the counts and requests recorded since the last write to SQLite, and
+ * drop buckets past retention. A failed write is logged and its counts lost.
+ */
+export async function flushEnrichmentMetrics(now: number = Date.now()): Promise<void> {
+  const { buckets, requests } = takePendingEnrichmentMetrics();
+
+  try {
+    await enrichmentMetricsRepository.record(buckets, requests, MAX_LOGGED_REQUESTS);
+    await enrichmentMetricsRepository.removeBucketsBefore(now - METRICS_RETENTION_MS);
+  } catch (error) {
+    logWarning('Failed to save enrichment metrics', {
+      operation: 'flushEnrichmentMetrics',
+      component: 'enrichmentDiagnosticsService',
+      additionalData: {
+        error: String(error),
+        buckets: buckets.length,
+        requests: requests.length,
+      },
+    });
+  }
+}
+
+/**
+ * Write the pending metrics whenever the app goes to the background.
+ *
+ * @returns Stops the recorder
+ */
+export function startEnrichmentMetricsRecorder(): () => void {
+  const subscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+    if (state === 'background') {
+      void flushEnrichmentMetrics();
+    }
+  });
+
+  return () => {
+    subscription.remove();
+  };
+}
+
+const ratio = (part: number, whole: number): number | null => (whole > 0 ? part / whole : null);
+
+/**
+ * Read the diagnostics for the last DIAGNOSTICS_WINDOW_MS, after writing what
+ * is pending so the totals include this session.
+ *
+ * @throws Propagates a failed read; an unreachable /health only leaves `quota` null
+ */
+export async function loadEnrichmentDiagnostics(
+  now: number = Date.now()
+): Promise<EnrichmentDiagnostics> {
+  await flushEnrichmentMetrics(now);
+
+  const since = now - DIAGNOSTICS_WINDOW_MS;
+  const [totals, recentRequests, health] = await Promise.all([
+    enrichmentMetricsRepository.getTotalsSince(since),
+    enrichmentMetricsRepository.getRecentRequests(RECENT_REQUEST_COUNT),
+    getEnrichmentHealthDetails(),
+  ]);
+
+  return {
+    since,
+    totals,
+    successRate: ratio(totals.proxySuccesses, totals.proxyRequests),
+    cacheHitRatio: ratio(totals.cacheHits, totals.proxySuccesses),
+    quota: health?.enrichment ?? null,
+    recentRequests,
+  };
+}
+
+/** A ratio as a whole percentage, or an em dash when there is none */
+export function formatRatio(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+/**
+ * The diagnostics as plain text, for the "copy diagnostics" export.
+ *
+ * @param diagnostics - What loadEnrichmentDiagnostics returned
+ * @param generatedAt - When the export was made, in epoch ms
+ */
+export function formatEnrichmentDiagnostics(
+  diagnostics: EnrichmentDiagnostics,
+  generatedAt: number = Date.now()
+): string {
+  const { totals, quota } = diagnostics;
+
+  const lines = [
+    'Enrichment diagnostics',
+    `Generated: ${new Date(generatedAt).toISOString()}`,
+    `Since: ${new Date(diagnostics.since).toISOString()}`,
+    '',
+    `Success rate: ${formatRatio(diagnostics.successRate)}`,
+    `Cache hit ratio: ${formatRatio(diagnostics.cacheHitRatio)}`,
+    `Fallbacks: ${totals.fallbackCount}`,
+    '',
+    'Counters:',
+    ...ENRICHMENT_COUNTERS.map(counter => `  ${counter}: ${totals[counter]}`),
+    '',
+    quota
+      ? `Quota: daily ${quota.daily.used}/${quota.daily.limit}, monthly ${quota.monthly.used}/${quota.monthly.limit}${quota.enabled ? '' : ' (enrichment disabled)'}`
+      : 'Quota: unavailable',
+    '',
+    'Recent requests:',
+    ...(diagnostics.recentRequests.length > 0
+      ? diagnostics.recentRequests.map(
+          request =>
+            `  ${new Date(request.recorded_at).toISOString()} ${request.endpoint} ${request.outcome} ${request.request_id ?? '-'}`
+        )
+      : ['  none']),
+  ];
+
+  return lines.join('\n');
+}
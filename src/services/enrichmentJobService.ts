@@ -0,0 +1,323 @@
+/**
+ * Enrichment jobs: waiting on the Worker for beers handed to it
+ *
+ * A refresh that finds beers the Worker has never seen syncs them to it and
+ * records each in `enrichment_jobs`. This module polls the Worker for their
+ * results and stores what comes back. It works from the table rather than
+ * from memory, so a wait cut short by the app being backgrounded or killed
+ * picks up again at the next foreground.
+ *
+ * Runs only while the app is active. AppState going to the background aborts
+ * the run in flight, its sleep and request included, and coming back starts
+ * another. `_layout.tsx` starts the runner once the database is set up.
+ *
+ * Two budgets bound the polling:
+ * - Per job: a beer the Worker has not enriched after MAX_JOB_ATTEMPTS polls,
+ *   or MAX_JOB_AGE_MS after it was handed over, is given up on. The next
+ *   refresh that finds it missing hands it over again.
+ * - Per run: at most MAX_ROUNDS_PER_RUN polls of a batch each, cut down so the
+ *   beers asked about never outnumber the lookups `/health` says remain today
+ *   and this month; none when enrichment is disabled or a quota is spent. The
+ *   Worker looks up nothing more until the quota resets, so polling then would
+ *   only use up the jobs' attempts. They wait, uncounted, for a later
+ *   foreground.
+ *
+ * Results are stored through the repositories, whose change events bring the
+ * rows on screen up to date. A refresh replacing a table after a result was
+ * stored and its job removed writes the rows it fetched; those carry the
+ * Worker's enrichment too, read in that refresh's own batch lookup.
+ */
+
+import { AppState, AppStateStatus } from 'react-native';
+import { config } from '@/src/config';
+import { beerRepository } from '../database/repositories/BeerRepository';
+import { myBeersRepository } from '../database/repositories/MyBeersRepository';
+import { enrichmentJobRepository } from '../database/repositories/EnrichmentJobRepository';
+import { EnrichmentJob, EnrichmentUpdate } from '../types/enrichment';
+import { logWarning } from '../utils/errorLogger';
+import {
+  EnrichmentData,
+  fetchEnrichmentUpdates,
+  getEnrichmentHealthDetails,
+  HealthResponse,
+} from './enrichmentService';
+
+/** Polls of one job before it is given up on */
+export const MAX_JOB_ATTEMPTS = 20;
+
+/** How long after it was handed over a job is given up on */
+export const MAX_JOB_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** Polls in one foreground run */
+export const MAX_ROUNDS_PER_RUN = 8;
+
+// Linear backoff with cap, as the in-memory poll used: 5s, 10s, 15s, 20s, 20s...
+const POLL_BASE_DELAY_MS = 5000;
+const POLL_MAX_DELAY_MS = 20000;
+
+/** What a run did */
+export type EnrichmentJobRunOutcome =
+  | { readonly status: 'idle' }
+  | {
+      readonly status: 'deferred';
+      /** `quota` when /health says no lookups remain; `unavailable` when it could not be read */
+      readonly reason: 'quota' | 'unavailable';
+      readonly pending: number;
+    }
+  | {
+      /** `paused` when the app went to the background first */
+      readonly status: 'finished' | 'paused';
+      readonly enriched: number;
+      readonly pending: number;
+    };
+
+/** How a run may poll: how many times, and for how many beers each time */
+export type PollBudget = {
+  readonly rounds: number;
+  readonly batchSize: number;
+};
+
+const NO_POLLS: PollBudget = { rounds: 0, batchSize: 0 };
+
+/**
+ * How a run may poll, given what `/health` reports.
+ *
+ * Every beer asked about may cost the Worker a lookup, so with quota reported
+ * the run asks about no more beers than remain in the smaller of the daily
+ * and monthly quotas: a batch no larger than that, and no more rounds than it
+ * covers. An older Worker that reports no quota gets the full budget; one that
+ * cannot be reached gets none, since its batch endpoint would not answer
+ * either.
+ *
+ * @param health - The health response, or null if it could not be read
+ * @param batchSize - The most beers one poll asks about
+ */
+export function pollRoundBudget(
+  health: HealthResponse | null,
+  batchSize: number = config.enrichment.batchSize
+): PollBudget {
+  if (!health || health.status !== 'ok') {
+    return NO_POLLS;
+  }
+  if (!health.enrichment) {
+    return { rounds: MAX_ROUNDS_PER_RUN, batchSize };
+  }
+
+  const { enabled, daily, monthly } = health.enrichment;
+  const remaining = Math.min(daily.remaining, monthly.remaining);
+  if (!enabled || remaining <= 0) {
+    return NO_POLLS;
+  }
+
+  const cappedBatch = Math.min(batchSize, remaining);
+  return {
+    rounds: Math.min(MAX_ROUNDS_PER_RUN, Math.floor(remaining / cappedBatch)),
+    batchSize: cappedBatch,
+  };
+}
+
+/** Never asked first, then longest since asked, so a long backlog rotates */
+const leastRecentlyAsked = (jobs: readonly EnrichmentJob[]): EnrichmentJob[] =>
+  [...jobs].sort(
+    (a, b) =>
+      (a.last_attempt_at ?? -1) - (b.last_attempt_at ?? -1) || a.requested_at - b.requested_at
+  );
+
+/**
+ * Resolve after `ms`, or early when the signal aborts.
+ *
+ * @returns false if aborted
+ */
+const sleepUnlessAborted = (ms: number, signal: AbortSignal): Promise<boolean> =>
+  new Promise(resolve => {
+    if (signal.aborted) {
+      resolve(false);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, ms);
+    signal.addEventListener('abort', onAbort);
+  });
+
+/**
+ * Store the results in both tables. IDs not present in a table are no-ops.
+ *
+ * @returns The IDs stored; none if the write failed, so their jobs stay and
+ *   are asked about again
+ */
+async function storeResults(results: Record<string, EnrichmentData>): Promise<string[]> {
+  const ids = Object.keys(results);
+  if (ids.length === 0) return [];
+
+  const updates: Record<string, EnrichmentUpdate> = {};
+  for (const [id, data] of Object.entries(results)) {
+    updates[id] = {
+      enriched_abv: data.enriched_abv,
+      enrichment_confidence: data.enrichment_confidence,
+      enrichment_source: data.enrichment_source,
+      brew_description: data.brew_description,
+    };
+  }
+
+  try {
+    await beerRepository.updateEnrichmentData(updates);
+    await myBeersRepository.updateEnrichmentData(updates);
+    return ids;
+  } catch (error) {
+    logWarning('Failed to persist polling enrichment results', {
+      operation: 'runEnrichmentJobs',
+      component: 'enrichmentJobService',
+      additionalData: { error: String(error), count: ids.length },
+    });
+    return [];
+  }
+}
+
+/**
+ * Poll the Worker for the waiting jobs until they are all done, the run's
+ * budget is spent, or the signal aborts.
+ *
+ * Reads the table again after every poll, so beers handed over mid-run are
+ * picked up by it. An answer that arrives after the abort is not stored or
+ * counted; the jobs are asked about again next time.
+ *
+ * @param signal - Aborted when the app goes to the background
+ * @throws Propagates database errors to the caller
+ */
+export async function runEnrichmentJobs(signal: AbortSignal): Promise<EnrichmentJobRunOutcome> {
+  if (!config.enrichment.isConfigured()) {
+    return { status: 'idle' };
+  }
+
+  await enrichmentJobRepository.removeExpired(MAX_JOB_ATTEMPTS, Date.now() - MAX_JOB_AGE_MS);
+  let jobs = await enrichmentJobRepository.getAll();
+  if (jobs.length === 0) {
+    return { status: 'idle' };
+  }
+
+  const health = await getEnrichmentHealthDetails();
+  if (signal.aborted) {
+    return { status: 'paused', enriched: 0, pending: jobs.length };
+  }
+  const { rounds, batchSize } = pollRoundBudget(health);
+  if (rounds === 0) {
+    return { status: 'deferred', reason: health ? 'quota' : 'unavailable', pending: jobs.length };
+  }
+
+  let enriched = 0;
+  for (let round = 0; round < rounds && jobs.length > 0; round++) {
+    const delay = Math.min(POLL_BASE_DELAY_MS * (round + 1), POLL_MAX_DELAY_MS);
+    if (!(await sleepUnlessAborted(delay, signal))) {
+      return { status: 'paused', enriched, pending: jobs.length };
+    }
+
+    const asked = leastRecentlyAsked(jobs)
+      .slice(0, batchSize)
+      .map(job => job.beer_id);
+    const results = await fetchEnrichmentUpdates(asked, signal);
+    if (signal.aborted) {
+      return { status: 'paused', enriched, pending: jobs.length };
+    }
+
+    const stored = new Set(await storeResults(results));
+    await enrichmentJobRepository.remove([...stored]);
+    await enrichmentJobRepository.recordAttempt(asked.filter(id => !stored.has(id)));
+    enriched += stored.size;
+
+    await enrichmentJobRepository.removeExpired(MAX_JOB_ATTEMPTS, Date.now() - MAX_JOB_AGE_MS);
+    jobs = await enrichmentJobRepository.getAll();
+
+    console.log(
+      `[enrichmentJobService] Poll ${round + 1}: ${stored.size} enriched, ${jobs.length} waiting`
+    );
+  }
+
+  return { status: 'finished', enriched, pending: jobs.length };
+}
+
+/** The run in flight, if any; aborting it pauses the jobs */
+let activeRun: AbortController | null = null;
+
+/** Set when jobs are tracked during a run that may already have read the table for the last time */
+let rerunRequested = false;
+
+function resumeEnrichmentJobs(): void {
+  if (activeRun) {
+    rerunRequested = true;
+    return;
+  }
+
+  const controller = new AbortController();
+  activeRun = controller;
+  rerunRequested = false;
+
+  runEnrichmentJobs(controller.signal)
+    .then(outcome => {
+      console.log('[enrichmentJobService] Run ended:', outcome);
+    })
+    .catch(error => {
+      logWarning('Enrichment job run failed', {
+        operation: 'runEnrichmentJobs',
+        component: 'enrichmentJobService',
+        additionalData: { error: String(error) },
+      });
+    })
+    .finally(() => {
+      if (activeRun !== controller) return;
+      activeRun = null;
+      if (rerunRequested && AppState.currentState === 'active') {
+        resumeEnrichmentJobs();
+      }
+    });
+}
+
+function pauseEnrichmentJobs(): void {
+  activeRun?.abort();
+  activeRun = null;
+  rerunRequested = false;
+}
+
+/**
+ * Poll for the waiting jobs whenever the app is active, and pause while it is
+ * in the background.
+ *
+ * @returns Stops the runner and aborts any run in flight
+ */
+export function startEnrichmentJobRunner(): () => void {
+  const subscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+    if (state === 'active') {
+      resumeEnrichmentJobs();
+    } else if (state === 'background') {
+      pauseEnrichmentJobs();
+    }
+  });
+
+  if (AppState.currentState === 'active') {
+    resumeEnrichmentJobs();
+  }
+
+  return () => {
+    subscription.remove();
+    pauseEnrichmentJobs();
+  };
+}
+
+/**
+ * Record beers just handed to the Worker, and start polling for them if the
+ * app is active.
+ *
+ * @param beerIds - The beers synced to the Worker
+ * @throws Propagates database errors to the caller
+ */
+export async function trackEnrichmentJobs(beerIds: readonly string[]): Promise<void> {
+  await enrichmentJobRepository.track(beerIds);
+  if (AppState.currentState === 'active') {
+    resumeEnrichmentJobs();
+  }
+}
@@ -19,6 +19,12 @@ import { config, assertEnrichmentConfigured } from '@/src/config';
 import { getPreference, setPreference } from '@/src/database/preferences';
 import { logWarning } from '@/src/utils/errorLogger';
 import { Beer } from '@/src/types/beer';
+import {
+  EnrichmentCounter,
+  EnrichmentMetricBucket,
+  EnrichmentRequestOutcome,
+  EnrichmentRequestRecord,
+} from '@/src/types/enrichment';
 
 // Conditionally import expo-application only in React Native environment
 let Application: { applicationId: string | null } | undefined;
@@ -91,6 +97,20 @@ const healthResponseSchema = z.object({
     .optional(),
 });
 
+const storeDirectoryResponseSchema = z.object({
+  stores: z.array(
+    z.object({
+      id: z.string().min(1),
+      name: z.string().min(1),
+      city: z.string().nullish(),
+      state: z.string().nullish(),
+      latitude: z.number().nullish(),
+      longitude: z.number().nullish(),
+    })
+  ),
+  requestId: z.string().optional(),
+});
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -145,6 +165,11 @@ export type SyncBeersResponse = z.infer<typeof syncBeersResponseSchema>;
  */
 export type HealthResponse = z.infer<typeof healthResponseSchema>;
 
+/**
+ * Response from GET /stores
+ */
+export type StoreDirectoryResponse = z.infer<typeof storeDirectoryResponseSchema>;
+
 // ============================================================================
 // Metrics & Observability
 // ============================================================================
@@ -223,7 +248,69 @@ export function resetEnrichmentMetrics(): void {
  * Called by dataUpdateService when proxy fails and direct API is used.
  */
 export function recordFallback(): void {
-  metrics.fallbackCount++;
+  countMetric('fallbackCount');
+}
+
+/** Counts are kept across launches in buckets of this length */
+export const METRICS_BUCKET_MS = 60 * 60 * 1000;
+
+/**
+ * Counts and requests not yet written to SQLite. The in-memory `metrics` above
+ * cover this session only; these are the same increments, held until
+ * enrichmentDiagnosticsService takes them.
+ */
+let pendingBuckets = new Map<number, Partial<Record<EnrichmentCounter, number>>>();
+let pendingRequests: EnrichmentRequestRecord[] = [];
+
+function countMetric(counter: EnrichmentCounter, by: number = 1): void {
+  metrics[counter] += by;
+  if (by === 0) return;
+
+  const now = Date.now();
+  const bucketStart = now - (now % METRICS_BUCKET_MS);
+  const bucket = pendingBuckets.get(bucketStart) ?? {};
+  bucket[counter] = (bucket[counter] ?? 0) + by;
+  pendingBuckets.set(bucketStart, bucket);
+}
+
+/**
+ * Note how a request to the Worker ended, for the diagnostics request log.
+ *
+ * @param endpoint - The endpoint asked
+ * @param outcome - How it ended
+ * @param requestId - The Worker's request id, when one came back
+ */
+function logRequest(
+  endpoint: string,
+  outcome: EnrichmentRequestOutcome,
+  requestId: string | null = null
+): void {
+  pendingRequests.push({
+    request_id: requestId || null,
+    endpoint,
+    outcome,
+    recorded_at: Date.now(),
+  });
+}
+
+/**
+ * Take the counts and requests recorded since the last call, leaving none
+ * pending. The caller writes them to SQLite; see enrichmentDiagnosticsService.
+ *
+ * @returns Counts by hour bucket, and requests oldest first
+ */
+export function takePendingEnrichmentMetrics(): {
+  buckets: EnrichmentMetricBucket[];
+  requests: EnrichmentRequestRecord[];
+} {
+  const buckets = Array.from(pendingBuckets, ([bucket_start, counts]) => ({
+    bucket_start,
+    counts,
+  }));
+  const requests = pendingRequests;
+  pendingBuckets = new Map();
+  pendingRequests = [];
+  return { buckets, requests };
 }
 
 // ============================================================================
@@ -414,14 +501,14 @@ export async function fetchBeersFromProxy(
 
   // Check client-side rate limit
   if (!isRequestAllowed()) {
-    metrics.rateLimitedRequests++;
+    countMetric('rateLimitedRequests');
     const waitTime = getTimeUntilNextRequest();
     throw new Error(
       `Client rate limited while fetching beers for store ${storeId}. Try again in ${Math.ceil(waitTime / 1000)} seconds.`
     );
   }
 
-  metrics.proxyRequests++;
+  countMetric('proxyRequests');
   const clientId = await getClientId();
   const url = `${enrichment.getFullUrl('beers')}?sid=${storeId}`;
 
@@ -438,6 +525,9 @@ export async function fetchBeersFromProxy(
     headers['If-None-Match'] = etag;
   }
 
+  // Errors thrown after the Worker answered are logged where they are thrown
+  let answered = false;
+
   try {
     const response = await fetch(url, {
       method: 'GET',
@@ -446,6 +536,7 @@ export async function fetchBeersFromProxy(
     });
 
     clearTimeout(timeoutId);
+    answered = true;
 
     // Log request ID for debugging
     const requestId = response.headers.get('X-Request-ID');
@@ -455,8 +546,9 @@ export async function fetchBeersFromProxy(
 
     // Handle 304 Not Modified — data hasn't changed since last ETag
     if (response.status === 304) {
-      metrics.proxySuccesses++;
-      metrics.cacheHits++;
+      countMetric('proxySuccesses');
+      countMetric('cacheHits');
+      logRequest('beers', 'cached', requestId);
       return {
         beers: [],
         storeId,
@@ -469,7 +561,8 @@ export async function fetchBeersFromProxy(
 
     // Handle server-side rate limiting
     if (response.status === 429) {
-      metrics.rateLimitedRequests++;
+      countMetric('rateLimitedRequests');
+      logRequest('beers', 'rate_limited', requestId);
       syncRateLimitFromServer(); // Sync client state to prevent immediate retries
       const retryAfter = response.headers.get('Retry-After') || '60';
       logWarning(
@@ -487,20 +580,23 @@ export async function fetchBeersFromProxy(
 
     // Handle authentication errors
     if (response.status === 401) {
-      metrics.proxyFailures++;
+      countMetric('proxyFailures');
+      logRequest('beers', 'failed', requestId);
       throw new Error('Invalid API key for enrichment service');
     }
 
     // Handle other errors
     if (!response.ok) {
-      metrics.proxyFailures++;
+      countMetric('proxyFailures');
+      logRequest('beers', 'failed', requestId);
       throw new Error(`Enrichment service error: ${response.status} ${response.statusText}`);
     }
 
     const rawData: unknown = await response.json();
     const parseResult = beersProxyResponseSchema.safeParse(rawData);
     if (!parseResult.success) {
-      metrics.proxyFailures++;
+      countMetric('proxyFailures');
+      logRequest('beers', 'failed', requestId);
       throw new Error(
         `Enrichment service returned invalid response shape for store ${storeId}: ${parseResult.error.message}`
       );
@@ -513,15 +609,17 @@ export async function fetchBeersFromProxy(
     };
 
     // Track metrics
-    metrics.proxySuccesses++;
-    if (data.source === 'cache' || data.source === 'stale') {
-      metrics.cacheHits++;
+    const fromCache = data.source === 'cache' || data.source === 'stale';
+    countMetric('proxySuccesses');
+    if (fromCache) {
+      countMetric('cacheHits');
     }
+    logRequest('beers', fromCache ? 'cached' : 'ok', requestId ?? data.requestId);
 
     // Count enriched vs unenriched beers
     const enrichedCount = data.beers.filter(b => b.enriched_abv !== null).length;
-    metrics.enrichedBeerCount += enrichedCount;
-    metrics.unenrichedBeerCount += data.beers.length - enrichedCount;
+    countMetric('enrichedBeerCount', enrichedCount);
+    countMetric('unenrichedBeerCount', data.beers.length - enrichedCount);
 
     console.log(
       `[EnrichmentService] Fetched ${data.beers.length} beers for store ${storeId} (${data.source ?? 'unknown'})`
@@ -531,7 +629,105 @@ export async function fetchBeersFromProxy(
   } catch (error) {
     clearTimeout(timeoutId);
 
-    if (error instanceof Error && error.name === 'AbortError') {
+    const timedOut = error instanceof Error && error.name === 'AbortError';
+    if (!answered) {
+      logRequest('beers', timedOut ? 'timed_out' : 'failed');
+    }
+
+    if (timedOut) {
+      throw new Error('Enrichment service request timed out');
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Fetch the Flying Saucer store directory from the proxy.
+ *
+ * Counts against the same client rate limit as the taplist fetches. A Worker
+ * without the endpoint answers 404, which is thrown like any other error
+ * status; the caller keeps the directory it has.
+ *
+ * @returns The stores the proxy knows, with their locations where it has them
+ * @throws Error if request fails, rate limited, or returns non-200 status
+ */
+export async function fetchStoreDirectoryFromProxy(): Promise<StoreDirectoryResponse> {
+  const { enrichment } = config;
+
+  assertEnrichmentConfigured(enrichment);
+
+  if (!isRequestAllowed()) {
+    countMetric('rateLimitedRequests');
+    const waitTime = getTimeUntilNextRequest();
+    throw new Error(
+      `Client rate limited while fetching the store directory. Try again in ${Math.ceil(waitTime / 1000)} seconds.`
+    );
+  }
+
+  countMetric('proxyRequests');
+  const clientId = await getClientId();
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), enrichment.timeout);
+
+  let answered = false;
+
+  try {
+    const response = await fetch(enrichment.getFullUrl('stores'), {
+      method: 'GET',
+      headers: {
+        'X-API-Key': enrichment.apiKey,
+        'X-Client-ID': clientId,
+        Accept: 'application/json',
+      },
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+    answered = true;
+
+    if (response.status === 429) {
+      countMetric('rateLimitedRequests');
+      logRequest('stores', 'rate_limited');
+      syncRateLimitFromServer();
+      const retryAfter = response.headers.get('Retry-After') || '60';
+      throw new Error(
+        `Rate limited while fetching the store directory. Retry after ${retryAfter} seconds.`
+      );
+    }
+
+    if (!response.ok) {
+      countMetric('proxyFailures');
+      logRequest('stores', 'failed');
+      throw new Error(`Enrichment service error: ${response.status} ${response.statusText}`);
+    }
+
+    const rawData: unknown = await response.json();
+    const parseResult = storeDirectoryResponseSchema.safeParse(rawData);
+    if (!parseResult.success) {
+      countMetric('proxyFailures');
+      logRequest('stores', 'failed');
+      throw new Error(
+        `Enrichment service returned invalid store directory: ${parseResult.error.message}`
+      );
+    }
+
+    countMetric('proxySuccesses');
+    logRequest('stores', 'ok', parseResult.data.requestId);
+    console.log(
+      `[EnrichmentService] Fetched store directory: ${parseResult.data.stores.length} stores`
+    );
+    return parseResult.data;
+  } catch (error) {
+    clearTimeout(timeoutId);
+
+    const timedOut = error instanceof Error && error.name === 'AbortError';
+    if (!answered) {
+      logRequest('stores', timedOut ? 'timed_out' : 'failed');
+    }
+
+    if (timedOut) {
       throw new Error('Enrichment service request timed out');
     }
 
@@ -578,7 +774,7 @@ export async function fetchEnrichmentBatch(
   // FIX: Check if ALL chunks are allowed upfront to avoid race condition
   // where we check rate limit once but make multiple HTTP requests
   if (!isRequestAllowed(chunks.length)) {
-    metrics.rateLimitedRequests++;
+    countMetric('rateLimitedRequests');
     const waitTime = getTimeUntilNextRequest();
     logWarning(
       `Client rate limited while batch enriching ${beerIds.length} beers (${chunks.length} chunks). Try again in ${Math.ceil(waitTime / 1000)} seconds.`,
@@ -598,7 +794,7 @@ export async function fetchEnrichmentBatch(
 
   // Process chunks sequentially to avoid rate limiting (Perplexity throttle)
   for (const chunk of chunks) {
-    metrics.proxyRequests++; // Track per-chunk requests
+    countMetric('proxyRequests'); // Track per-chunk requests
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), enrichment.timeout);
 
@@ -618,7 +814,8 @@ export async function fetchEnrichmentBatch(
 
       // Handle server-side rate limiting - stop processing further chunks
       if (response.status === 429) {
-        metrics.rateLimitedRequests++;
+        countMetric('rateLimitedRequests');
+        logRequest('batch', 'rate_limited');
         syncRateLimitFromServer(); // Sync client state to prevent immediate retries
         failureCount++;
         logWarning(
@@ -634,6 +831,7 @@ export async function fetchEnrichmentBatch(
 
       if (!response.ok) {
         failureCount++;
+        logRequest('batch', 'failed');
         logWarning(`Batch enrichment chunk failed: ${response.status}`, {
           operation: 'fetchEnrichmentBatch',
           component: 'enrichmentService',
@@ -646,6 +844,7 @@ export async function fetchEnrichmentBatch(
       const parseResult = batchEnrichmentResponseSchema.safeParse(rawData);
       if (!parseResult.success) {
         failureCount++;
+        logRequest('batch', 'failed');
         logWarning(`Batch enrichment chunk returned invalid response shape`, {
           operation: 'fetchEnrichmentBatch',
           component: 'enrichmentService',
@@ -658,11 +857,12 @@ export async function fetchEnrichmentBatch(
       }
       const data = parseResult.data;
       successCount++;
+      logRequest('batch', 'ok', data.requestId);
 
       // Merge results and track metrics
       const enrichmentCount = Object.keys(data.enrichments || {}).length;
-      metrics.enrichedBeerCount += enrichmentCount;
-      metrics.unenrichedBeerCount += chunk.length - enrichmentCount;
+      countMetric('enrichedBeerCount', enrichmentCount);
+      countMetric('unenrichedBeerCount', chunk.length - enrichmentCount);
 
       Object.assign(results, data.enrichments || {});
     } catch (error) {
@@ -670,6 +870,7 @@ export async function fetchEnrichmentBatch(
       failureCount++;
 
       if (error instanceof Error && error.name === 'AbortError') {
+        logRequest('batch', 'timed_out');
         logWarning(
           `Batch enrichment request timed out for chunk ${successCount + failureCount}/${chunks.length}`,
           {
@@ -681,6 +882,7 @@ export async function fetchEnrichmentBatch(
         continue;
       }
 
+      logRequest('batch', 'failed');
       logWarning('Batch enrichment chunk failed', {
         operation: 'fetchEnrichmentBatch',
         component: 'enrichmentService',
@@ -691,8 +893,8 @@ export async function fetchEnrichmentBatch(
   }
 
   // Track success/failure metrics per chunk processed
-  metrics.proxySuccesses += successCount;
-  metrics.proxyFailures += failureCount;
+  countMetric('proxySuccesses', successCount);
+  countMetric('proxyFailures', failureCount);
 
   return results;
 }
@@ -745,7 +947,7 @@ export async function fetchEnrichmentBatchWithMissing(
 
   // Check if ALL chunks are allowed upfront
   if (!isRequestAllowed(chunks.length)) {
-    metrics.rateLimitedRequests++;
+    countMetric('rateLimitedRequests');
     const waitTime = getTimeUntilNextRequest();
     logWarning(
       `Client rate limited while batch enriching ${beerIds.length} beers (${chunks.length} chunks). Try again in ${Math.ceil(waitTime / 1000)} seconds.`,
@@ -766,7 +968,7 @@ export async function fetchEnrichmentBatchWithMissing(
 
   // Process chunks sequentially to avoid rate limiting
   for (const chunk of chunks) {
-    metrics.proxyRequests++;
+    countMetric('proxyRequests');
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), enrichment.timeout);
 
@@ -786,7 +988,8 @@ export async function fetchEnrichmentBatchWithMissing(
 
       // Handle server-side rate limiting
       if (response.status === 429) {
-        metrics.rateLimitedRequests++;
+        countMetric('rateLimitedRequests');
+        logRequest('batch', 'rate_limited');
         syncRateLimitFromServer();
         failureCount++;
         logWarning(
@@ -802,6 +1005,7 @@ export async function fetchEnrichmentBatchWithMissing(
 
       if (!response.ok) {
         failureCount++;
+        logRequest('batch', 'failed');
         logWarning(`Batch enrichment chunk failed: ${response.status}`, {
           operation: 'fetchEnrichmentBatchWithMissing',
           component: 'enrichmentService',
@@ -814,6 +1018,7 @@ export async function fetchEnrichmentBatchWithMissing(
       const parseResult = batchEnrichmentResponseSchema.safeParse(rawData);
       if (!parseResult.success) {
         failureCount++;
+        logRequest('batch', 'failed');
         logWarning(`Batch enrichment chunk returned invalid response shape`, {
           operation: 'fetchEnrichmentBatchWithMissing',
           component: 'enrichmentService',
@@ -826,11 +1031,12 @@ export async function fetchEnrichmentBatchWithMissing(
       }
       const data = parseResult.data;
       successCount++;
+      logRequest('batch', 'ok', data.requestId);
 
       // Merge results
       const enrichmentCount = Object.keys(data.enrichments || {}).length;
-      metrics.enrichedBeerCount += enrichmentCount;
-      metrics.unenrichedBeerCount += chunk.length - enrichmentCount;
+      countMetric('enrichedBeerCount', enrichmentCount);
+      countMetric('unenrichedBeerCount', chunk.length - enrichmentCount);
 
       Object.assign(results, data.enrichments || {});
 
@@ -843,6 +1049,7 @@ export async function fetchEnrichmentBatchWithMissing(
       failureCount++;
 
       if (error instanceof Error && error.name === 'AbortError') {
+        logRequest('batch', 'timed_out');
         logWarning(
           `Batch enrichment request timed out for chunk ${successCount + failureCount}/${chunks.length}`,
           {
@@ -854,6 +1061,7 @@ export async function fetchEnrichmentBatchWithMissing(
         continue;
       }
 
+      logRequest('batch', 'failed');
       logWarning('Batch enrichment chunk failed', {
         operation: 'fetchEnrichmentBatchWithMissing',
         component: 'enrichmentService',
@@ -863,8 +1071,8 @@ export async function fetchEnrichmentBatchWithMissing(
     }
   }
 
-  metrics.proxySuccesses += successCount;
-  metrics.proxyFailures += failureCount;
+  countMetric('proxySuccesses', successCount);
+  countMetric('proxyFailures', failureCount);
 
   console.log(
     `[EnrichmentService] Batch enrichment complete: ${Object.keys(results).length} enriched, ${allMissing.length} missing`
@@ -912,7 +1120,7 @@ export async function syncBeersToWorker(
 
   // Check client-side rate limit for all chunks upfront
   if (!isRequestAllowed(chunks.length)) {
-    metrics.rateLimitedRequests++;
+    countMetric('rateLimitedRequests');
     const waitTime = getTimeUntilNextRequest();
     logWarning(
       `Client rate limited while syncing ${beers.length} beers (${chunks.length} chunks). Try again in ${Math.ceil(waitTime / 1000)} seconds.`,
@@ -933,7 +1141,7 @@ export async function syncBeersToWorker(
 
   // Process chunks sequentially to avoid rate limiting
   for (const chunk of chunks) {
-    metrics.proxyRequests++;
+    countMetric('proxyRequests');
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), enrichment.timeout);
 
@@ -962,7 +1170,8 @@ export async function syncBeersToWorker(
 
       // Handle server-side rate limiting - stop processing further chunks
       if (response.status === 429) {
-        metrics.rateLimitedRequests++;
+        countMetric('rateLimitedRequests');
+        logRequest('sync', 'rate_limited');
         syncRateLimitFromServer();
         logWarning('Sync rate limited, returning partial results', {
           operation: 'syncBeersToWorker',
@@ -975,6 +1184,7 @@ export async function syncBeersToWorker(
       if (!response.ok) {
         const errorText = await response.text().catch(() => 'Unknown error');
         allErrors.push(`Sync failed: ${response.status} - ${errorText}`);
+        logRequest('sync', 'failed');
         logWarning(`Sync chunk failed: ${response.status}`, {
           operation: 'syncBeersToWorker',
           component: 'enrichmentService',
@@ -986,6 +1196,7 @@ export async function syncBeersToWorker(
       const rawData: unknown = await response.json();
       const parseResult = syncBeersResponseSchema.safeParse(rawData);
       if (!parseResult.success) {
+        logRequest('sync', 'failed');
         logWarning('Sync response has invalid shape, skipping chunk', {
           operation: 'syncBeersToWorker',
           component: 'enrichmentService',
@@ -1002,12 +1213,14 @@ export async function syncBeersToWorker(
         allErrors.push(...data.errors);
       }
 
-      metrics.proxySuccesses++;
+      countMetric('proxySuccesses');
+      logRequest('sync', 'ok', data.requestId);
     } catch (error) {
       clearTimeout(timeoutId);
-      metrics.proxyFailures++;
+      countMetric('proxyFailures');
 
       if (error instanceof Error && error.name === 'AbortError') {
+        logRequest('sync', 'timed_out');
         logWarning('Sync request timed out', {
           operation: 'syncBeersToWorker',
           component: 'enrichmentService',
@@ -1016,6 +1229,7 @@ export async function syncBeersToWorker(
         continue;
       }
 
+      logRequest('sync', 'failed');
       logWarning('Sync chunk failed', {
         operation: 'syncBeersToWorker',
         component: 'enrichmentService',
@@ -1038,6 +1252,114 @@ export async function syncBeersToWorker(
   };
 }
 
+/**
+ * Outcome of sending a beer correction to the Worker
+ */
+export type BeerCorrectionSubmitResult =
+  | { success: true }
+  | {
+      success: false;
+      error: string;
+      /** Whether sending it again later might succeed */
+      isRetryable: boolean;
+    };
+
+/**
+ * Send the user's correction of a beer's details to the Worker.
+ *
+ * Fields left null were not corrected and are not sent. Never throws: a
+ * failure is returned with whether it is worth retrying. Timeouts, network
+ * errors, rate limiting and 5xx are; any other status means the Worker
+ * rejected the correction, and sending it again would not change that.
+ *
+ * @param correction - The beer and its corrected fields
+ * @returns Whether the Worker accepted it
+ */
+export async function submitBeerCorrection(correction: {
+  id: string;
+  abv: number | null;
+  brew_style: string | null;
+  brew_description: string | null;
+}): Promise<BeerCorrectionSubmitResult> {
+  const { enrichment } = config;
+
+  if (!enrichment.isConfigured()) {
+    return { success: false, error: 'Enrichment service is not configured', isRetryable: false };
+  }
+
+  assertEnrichmentConfigured(enrichment);
+
+  if (!isRequestAllowed()) {
+    countMetric('rateLimitedRequests');
+    const waitTime = getTimeUntilNextRequest();
+    return {
+      success: false,
+      error: `Client rate limited. Try again in ${Math.ceil(waitTime / 1000)} seconds.`,
+      isRetryable: true,
+    };
+  }
+
+  countMetric('proxyRequests');
+  const clientId = await getClientId();
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), enrichment.timeout);
+
+  const body: Record<string, string | number> = { id: correction.id };
+  if (correction.abv !== null) body.abv = correction.abv;
+  if (correction.brew_style !== null) body.brew_style = correction.brew_style;
+  if (correction.brew_description !== null) body.brew_description = correction.brew_description;
+
+  try {
+    const response = await fetch(enrichment.getFullUrl('corrections'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-Key': enrichment.apiKey,
+        'X-Client-ID': clientId,
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    if (response.status === 429) {
+      countMetric('rateLimitedRequests');
+      logRequest('corrections', 'rate_limited');
+      syncRateLimitFromServer();
+      return { success: false, error: 'Rate limited by the enrichment service', isRetryable: true };
+    }
+
+    if (!response.ok) {
+      countMetric('proxyFailures');
+      logRequest('corrections', 'failed');
+      const errorText = await response.text().catch(() => 'Unknown error');
+      return {
+        success: false,
+        error: `Correction rejected: ${response.status} - ${errorText}`,
+        isRetryable: response.status >= 500,
+      };
+    }
+
+    countMetric('proxySuccesses');
+    logRequest('corrections', 'ok');
+    console.log(`[EnrichmentService] Sent correction for beer ${correction.id}`);
+    return { success: true };
+  } catch (error) {
+    clearTimeout(timeoutId);
+    countMetric('proxyFailures');
+
+    if (error instanceof Error && error.name === 'AbortError') {
+      logRequest('corrections', 'timed_out');
+      return { success: false, error: 'Enrichment service request timed out', isRetryable: true };
+    }
+
+    logRequest('corrections', 'failed');
+    return { success: false, error: String(error), isRetryable: true };
+  }
+}
+
 /**
  * Helper function to sleep for a given duration.
  * @param ms - Duration in milliseconds
@@ -1104,17 +1426,12 @@ export async function pollForEnrichmentUpdates(
     }
 
     try {
-      // Fetch current batch - use internal function to avoid rate limit overhead
-      // since polling is already rate-limited by the backoff
-      const response = await fetchEnrichmentBatchInternal(Array.from(remainingIds));
+      const response = await fetchEnrichmentUpdates(Array.from(remainingIds));
 
-      // Update results and remove found IDs (those with actual enrichment data)
+      // Update results and remove found IDs
       for (const [id, data] of Object.entries(response)) {
-        // Consider a beer "enriched" if it has ABV or description (Worker returns merged brew_description)
-        if (data.enriched_abv !== null || data.brew_description !== null) {
-          results[id] = data;
-          remainingIds.delete(id);
-        }
+        results[id] = data;
+        remainingIds.delete(id);
       }
 
       console.log(
@@ -1143,20 +1460,51 @@ export async function pollForEnrichmentUpdates(
   return results;
 }
 
+/**
+ * Ask the Worker once which of these beers it has enriched since they were
+ * synced. One round of a poll; the caller owns the backoff.
+ *
+ * A failed or malformed response reads as nothing enriched yet.
+ *
+ * @param beerIds - Beer IDs still waiting
+ * @param signal - Aborts the request, for a poll paused mid-flight
+ * @returns Map of beer ID to enrichment data, for the beers that now have an
+ *   ABV or a description
+ */
+export async function fetchEnrichmentUpdates(
+  beerIds: string[],
+  signal?: AbortSignal
+): Promise<Record<string, EnrichmentData>> {
+  // Uses the internal fetch to avoid rate limit overhead, since polling is
+  // already rate-limited by the backoff
+  const response = await fetchEnrichmentBatchInternal(beerIds, signal);
+
+  const enriched: Record<string, EnrichmentData> = {};
+  for (const [id, data] of Object.entries(response)) {
+    // Consider a beer "enriched" if it has ABV or description (Worker returns merged brew_description)
+    if (data.enriched_abv !== null || data.brew_description !== null) {
+      enriched[id] = data;
+    }
+  }
+  return enriched;
+}
+
 /**
  * Internal batch fetch function that bypasses rate limit checks.
  * Used by polling to avoid rate limit overhead since polling already
  * has linear backoff with cap built in.
  *
  * @param beerIds - Array of beer IDs to look up
+ * @param signal - Aborts the request along with the timeout
  * @returns Map of beer ID to enrichment data
  */
 async function fetchEnrichmentBatchInternal(
-  beerIds: string[]
+  beerIds: string[],
+  signal?: AbortSignal
 ): Promise<Record<string, EnrichmentData>> {
   const { enrichment } = config;
 
-  if (!enrichment.isConfigured() || beerIds.length === 0) {
+  if (!enrichment.isConfigured() || beerIds.length === 0 || signal?.aborted) {
     return {};
   }
 
@@ -1165,6 +1513,8 @@ async function fetchEnrichmentBatchInternal(
   const clientId = await getClientId();
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), enrichment.timeout);
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort);
 
   try {
     const response = await fetch(enrichment.getFullUrl('batch'), {
@@ -1193,6 +1543,8 @@ async function fetchEnrichmentBatchInternal(
   } catch {
     clearTimeout(timeoutId);
     return {};
+  } finally {
+    signal?.removeEventListener('abort', abort);
   }
 }
 
@@ -0,0 +1,699 @@
+/**
+ * Operation queue engine
+ *
+ * Runs the operation queue outside React: it stores operations through
+ * `OperationQueueRepository`, executes them with the handler registered for
+ * their type, and decides after each attempt whether the operation is done,
+ * waits for another try, or has failed for good. `OperationQueueContext` is a
+ * thin adapter over it, so a background task can drain the queue the same
+ * way the app does.
+ *
+ * A handler covers one operation type:
+ * - `validate` checks a payload, both when it is queued and before it runs,
+ *   since a stored payload may predate the shape the handler expects
+ * - `execute` carries the operation out and reports whether a failure is worth
+ *   another try
+ * - `classifyError` turns an error `execute` threw into that same report; an
+ *   unclassified throw is treated as retryable
+ * - `dedupeKey` names what the operation does, so that queueing the same thing
+ *   again while one is waiting returns the waiting one, which takes the newer
+ *   payload and dependency. Keys are shared across types; two types that do
+ *   the same work can give the same key. The key is stored with the operation,
+ *   and the repository checks for a waiting one and inserts in one statement.
+ * - `dependencyOrdersOnly` says the operation depends on another only to run
+ *   after it, so it still runs when that one failed
+ *
+ * How each operation is scheduled is given when it is queued (see
+ * `QueueOperationOptions`): `retryAll` runs the highest priority first, holds
+ * back an operation until the one it depends on has finished and, unless its
+ * handler says the dependency only orders it, fails it without running if
+ * that one failed; it fails one whose `expiresAt` has passed without running
+ * it, and an idempotency key makes queueing the same work again return the
+ * operation already queued — unless that one failed, in which case it is
+ * replaced.
+ *
+ * An operation is marked as retrying only while a retry runs it. The first
+ * time the engine touches the queue it puts back in line any operation still
+ * marked, since only an app killed mid-retry leaves one behind.
+ *
+ * Each failed attempt is recorded through `OperationAttemptRepository`, with
+ * the kind of failure it was (see `utils/operationFailures`), so a failed
+ * operation can show how it got there. A failed operation stays in the queue
+ * until it is deleted or resubmitted, with its payload edited if need be.
+ *
+ * The engine knows nothing of the network. Whoever owns it decides when to
+ * call `retryAll` — the context does so when the connection comes back.
+ */
+
+import { operationAttemptRepository } from '../database/repositories/OperationAttemptRepository';
+import type { OperationAttemptRepository } from '../database/repositories/OperationAttemptRepository';
+import { operationQueueRepository } from '../database/repositories/OperationQueueRepository';
+import type { OperationQueueRepository } from '../database/repositories/OperationQueueRepository';
+import { classifyOperationError } from '../utils/operationFailures';
+import {
+  DEFAULT_RETRY_CONFIG,
+  OperationAttempt,
+  OperationErrorClass,
+  OperationExecutionResult,
+  OperationPayload,
+  OperationStatus,
+  OperationType,
+  QueueOperationOptions,
+  QueuedOperation,
+  RetryConfig,
+} from '../types/operationQueue';
+
+/** How a failure should be reported */
+export type OperationErrorClassification = {
+  error: string;
+  isRetryable: boolean;
+  errorClass?: OperationErrorClass;
+};
+
+/** Everything the engine needs to run one operation type */
+export type OperationHandler<P extends OperationPayload = OperationPayload> = {
+  validate: (payload: unknown) => payload is P;
+  execute: (payload: P, operation: QueuedOperation) => Promise<OperationExecutionResult>;
+  classifyError?: (error: unknown) => OperationErrorClassification;
+  dedupeKey?: (payload: P) => string | null;
+  dependencyOrdersOnly?: boolean;
+};
+
+/** Called after an operation succeeded and was removed from the queue */
+export type OperationSuccessListener = (
+  operationId: string,
+  operation: QueuedOperation
+) => Promise<void> | void;
+
+/** Called after an operation failed for good */
+export type OperationFailureListener = (
+  operationId: string,
+  operation: QueuedOperation,
+  error?: string
+) => Promise<void> | void;
+
+/** Called whenever the stored queue or the retrying state changed */
+export type OperationQueueChangeListener = () => void;
+
+export type OperationQueueEngineOptions = {
+  repository?: OperationQueueRepository;
+  attempts?: OperationAttemptRepository;
+  retryConfig?: Partial<RetryConfig>;
+  /** Waits between retries; replaceable so tests need not wait */
+  sleep?: (ms: number) => Promise<void>;
+};
+
+/** Stored operations that have not run to an end yet */
+const WAITING_STATUSES: readonly OperationStatus[] = [
+  OperationStatus.PENDING,
+  OperationStatus.RETRYING,
+];
+
+/** The error an operation fails with when it expired before it could run */
+export const OPERATION_EXPIRED_ERROR = 'Expired before it could run';
+
+/** The error an operation fails with when the operation it depends on failed */
+export const OPERATION_DEPENDENCY_FAILED_ERROR = 'The operation it waited on failed';
+
+const defaultSleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Default classification for an error a handler threw: retryable, since
+ * nothing says otherwise
+ */
+const classifyUnknownError = (error: unknown): OperationErrorClassification => ({
+  error: error instanceof Error ? error.message : 'Unknown error',
+  isRetryable: true,
+});
+
+export class OperationQueueEngine {
+  private readonly repository: OperationQueueRepository;
+  private readonly attempts: OperationAttemptRepository;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private retryConfig: RetryConfig;
+  private readonly handlers = new Map<OperationType, OperationHandler>();
+  private readonly successListeners = new Set<OperationSuccessListener>();
+  private readonly failureListeners = new Set<OperationFailureListener>();
+  private readonly changeListeners = new Set<OperationQueueChangeListener>();
+  private retrying = false;
+  private recovery: Promise<void> | null = null;
+
+  // Enqueues run one at a time, so two with the same idempotency key queued
+  // together cannot both replace the failed one they find
+  private enqueueChain: Promise<unknown> = Promise.resolve();
+
+  constructor(options: OperationQueueEngineOptions = {}) {
+    this.repository = options.repository ?? operationQueueRepository;
+    this.attempts = options.attempts ?? operationAttemptRepository;
+    this.sleep = options.sleep ?? defaultSleep;
+    this.retryConfig = { ...DEFAULT_RETRY_CONFIG, ...options.retryConfig };
+  }
+
+  // ============================================================================
+  // CONFIGURATION
+  // ============================================================================
+
+  /**
+   * Register the handler for an operation type, replacing any already there
+   */
+  registerHandler<P extends OperationPayload>(type: OperationType, handler: OperationHandler<P>) {
+    this.handlers.set(type, handler as unknown as OperationHandler);
+  }
+
+  getHandler(type: OperationType): OperationHandler | undefined {
+    return this.handlers.get(type);
+  }
+
+  getRetryConfig(): RetryConfig {
+    return this.retryConfig;
+  }
+
+  /**
+   * Replace the retry configuration; unset fields take the defaults
+   */
+  setRetryConfig(retryConfig: Partial<RetryConfig>): void {
+    this.retryConfig = { ...DEFAULT_RETRY_CONFIG, ...retryConfig };
+  }
+
+  /**
+   * Delay before retrying an operation that has already been tried, doubling
+   * with each attempt up to `maxDelayMs`
+   */
+  calculateRetryDelay(retryCount: number): number {
+    const delay = this.retryConfig.baseDelayMs * Math.pow(2, retryCount);
+    return Math.min(delay, this.retryConfig.maxDelayMs);
+  }
+
+  // ============================================================================
+  // LISTENERS
+  // ============================================================================
+
+  /** @returns Unsubscribe function */
+  onSuccess(listener: OperationSuccessListener): () => void {
+    this.successListeners.add(listener);
+    return () => {
+      this.successListeners.delete(listener);
+    };
+  }
+
+  /** @returns Unsubscribe function */
+  onFailure(listener: OperationFailureListener): () => void {
+    this.failureListeners.add(listener);
+    return () => {
+      this.failureListeners.delete(listener);
+    };
+  }
+
+  /** @returns Unsubscribe function */
+  onChange(listener: OperationQueueChangeListener): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private emitChange(): void {
+    // Copied so a listener that unsubscribes itself does not skip its neighbour
+    for (const listener of Array.from(this.changeListeners)) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('[OperationQueueEngine] Error in change listener:', error);
+      }
+    }
+  }
+
+  private async notifySuccess(operationId: string, operation: QueuedOperation): Promise<void> {
+    for (const listener of Array.from(this.successListeners)) {
+      try {
+        await listener(operationId, operation);
+      } catch (error) {
+        console.error('[OperationQueueEngine] Error in success listener:', error);
+      }
+    }
+  }
+
+  private async notifyFailure(
+    operationId: string,
+    operation: QueuedOperation,
+    error?: string
+  ): Promise<void> {
+    for (const listener of Array.from(this.failureListeners)) {
+      try {
+        await listener(operationId, operation, error);
+      } catch (callbackError) {
+        console.error('[OperationQueueEngine] Error in failure listener:', callbackError);
+      }
+    }
+  }
+
+  // ============================================================================
+  // QUEUE
+  // ============================================================================
+
+  get isRetrying(): boolean {
+    return this.retrying;
+  }
+
+  async getOperations(): Promise<QueuedOperation[]> {
+    await this.recoverInterrupted();
+    return this.repository.getAllOperations();
+  }
+
+  /**
+   * Put back in line the operations a killed app left marked as retrying
+   *
+   * Runs once, before this engine first reads the queue or claims an
+   * operation: until then no mark can be its own. A failure is logged and not
+   * tried again, since by then a retry of this engine's may hold a mark.
+   */
+  private recoverInterrupted(): Promise<void> {
+    this.recovery ??= this.repository.resetRetrying().then(
+      reset => {
+        if (reset > 0) {
+          console.log(`[OperationQueueEngine] Put back ${reset} operations left mid-retry`);
+        }
+      },
+      error => {
+        console.error('[OperationQueueEngine] Error putting back interrupted operations:', error);
+      }
+    );
+    return this.recovery;
+  }
+
+  /**
+   * Queue an operation
+   *
+   * @param type - Operation type; a handler must be registered for it
+   * @param payload - Checked with the handler's `validate`
+   * @param options - Priority, dependency, idempotency key and expiry
+   * @returns The new operation's ID, or that of the operation already queued
+   *   with the same idempotency key or waiting with the same dedupe key
+   * @throws Error if no handler is registered or the payload is invalid
+   */
+  enqueue(
+    type: OperationType,
+    payload: OperationPayload,
+    options: QueueOperationOptions = {}
+  ): Promise<string> {
+    const queued = this.enqueueChain.then(() => this.enqueueOnce(type, payload, options));
+    this.enqueueChain = queued.catch(() => undefined);
+    return queued;
+  }
+
+  private async enqueueOnce(
+    type: OperationType,
+    payload: OperationPayload,
+    options: QueueOperationOptions
+  ): Promise<string> {
+    const handler = this.handlers.get(type);
+    if (!handler) {
+      throw new Error(`No handler registered for ${type}`);
+    }
+    if (!handler.validate(payload)) {
+      throw new Error(`Invalid ${type} payload`);
+    }
+
+    await this.recoverInterrupted();
+
+    if (options.idempotencyKey !== undefined) {
+      const existing = await this.repository.getOperationByIdempotencyKey(options.idempotencyKey);
+      if (existing && existing.status !== OperationStatus.FAILED) {
+        console.log(
+          `[OperationQueueEngine] ${type} already queued as ${existing.id} (${options.idempotencyKey})`
+        );
+        return existing.id;
+      }
+      if (existing) {
+        // The key is unique, so the failed attempt makes way for this one
+        await this.repository.deleteOperation(existing.id);
+        await this.forgetAttempts(existing.id);
+      }
+    }
+
+    const operation: QueuedOperation = {
+      id: `op_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      type,
+      payload,
+      timestamp: Date.now(),
+      retryCount: 0,
+      status: OperationStatus.PENDING,
+      ...options,
+    };
+
+    const dedupeKey = handler.dedupeKey?.(payload) ?? null;
+    if (dedupeKey !== null) {
+      const queuedId = await this.repository.addOperationOrUpdateWaiting(operation, dedupeKey);
+      if (queuedId !== operation.id) {
+        console.log(`[OperationQueueEngine] ${type} already waiting as ${queuedId} (${dedupeKey})`);
+        this.emitChange();
+        return queuedId;
+      }
+    } else {
+      await this.repository.addOperation(operation);
+    }
+    console.log(`[OperationQueueEngine] Queued operation: ${type} (ID: ${operation.id})`);
+    this.emitChange();
+
+    return operation.id;
+  }
+
+  /**
+   * The status of the operation this one depends on, or null if there is
+   * none. A dependency no longer in the queue has succeeded or been removed;
+   * either way it is done with.
+   */
+  private async dependencyStatus(operation: QueuedOperation): Promise<OperationStatus | null> {
+    if (operation.dependsOn === undefined) {
+      return null;
+    }
+
+    const dependency = await this.repository.getOperationById(operation.dependsOn);
+    return dependency?.status ?? null;
+  }
+
+  /**
+   * Whether the operation this one depends on is still waiting
+   */
+  private async isWaitingOnDependency(operation: QueuedOperation): Promise<boolean> {
+    const status = await this.dependencyStatus(operation);
+    return status !== null && WAITING_STATUSES.includes(status);
+  }
+
+  async deleteOperation(id: string): Promise<void> {
+    await this.repository.deleteOperation(id);
+    await this.forgetAttempts(id);
+    console.log(`[OperationQueueEngine] Operation ${id} deleted`);
+    this.emitChange();
+  }
+
+  async clearQueue(): Promise<void> {
+    await this.repository.clearAll();
+    try {
+      await this.attempts.clearAll();
+    } catch (error) {
+      console.error('[OperationQueueEngine] Error clearing attempts:', error);
+    }
+    console.log('[OperationQueueEngine] Queue cleared');
+    this.emitChange();
+  }
+
+  /**
+   * Put failed operations back in the queue with a fresh retry budget and no
+   * expiry. They run on the next `retryAll`. Their attempts are kept, so the
+   * timeline runs on from before.
+   *
+   * @param ids - Operation IDs; any that have not failed are left alone
+   * @returns How many were resubmitted
+   */
+  async resubmitOperations(ids: readonly string[]): Promise<number> {
+    let resubmitted = 0;
+    for (const id of ids) {
+      if (await this.repository.resubmit(id)) {
+        resubmitted += 1;
+      }
+    }
+
+    console.log(`[OperationQueueEngine] Resubmitted ${resubmitted} of ${ids.length} operations`);
+    if (resubmitted > 0) {
+      this.emitChange();
+    }
+    return resubmitted;
+  }
+
+  /**
+   * Resubmit a failed operation with a corrected payload
+   *
+   * @param id - Operation ID
+   * @param payload - Checked with the handler's `validate`
+   * @returns Whether it was resubmitted; false if it is gone or has not failed
+   * @throws Error if no handler is registered or the payload is invalid
+   */
+  async editAndResubmit(id: string, payload: OperationPayload): Promise<boolean> {
+    const operation = await this.repository.getOperationById(id);
+    if (!operation) {
+      return false;
+    }
+
+    const handler = this.handlers.get(operation.type);
+    if (!handler) {
+      throw new Error(`No handler registered for ${operation.type}`);
+    }
+    if (!handler.validate(payload)) {
+      throw new Error(`Invalid ${operation.type} payload`);
+    }
+
+    const resubmitted = await this.repository.resubmit(id, payload);
+    if (resubmitted) {
+      console.log(`[OperationQueueEngine] Operation ${id} edited and resubmitted`);
+      this.emitChange();
+    }
+    return resubmitted;
+  }
+
+  // ============================================================================
+  // ATTEMPTS
+  // ============================================================================
+
+  /**
+   * The failed attempts at some operations, oldest first
+   */
+  async getAttempts(ids: readonly string[]): Promise<OperationAttempt[]> {
+    return this.attempts.getAttempts(ids);
+  }
+
+  // The timeline is a record, not the queue: failing to keep it must not
+  // fail the operation it describes
+  private async recordAttempt(attempt: OperationAttempt): Promise<void> {
+    try {
+      await this.attempts.recordAttempt(attempt);
+    } catch (error) {
+      console.error(
+        `[OperationQueueEngine] Error recording attempt at ${attempt.operationId}:`,
+        error
+      );
+    }
+  }
+
+  private async forgetAttempts(id: string): Promise<void> {
+    try {
+      await this.attempts.deleteForOperation(id);
+    } catch (error) {
+      console.error(`[OperationQueueEngine] Error deleting attempts at ${id}:`, error);
+    }
+  }
+
+  // ============================================================================
+  // EXECUTION
+  // ============================================================================
+
+  /**
+   * Run an operation once with its handler. Never throws: an operation with no
+   * handler or an invalid payload fails for good, and a thrown error is
+   * reported through the handler's `classifyError`.
+   */
+  async execute(operation: QueuedOperation): Promise<OperationExecutionResult> {
+    console.log(`[OperationQueueEngine] Executing operation: ${operation.type} (${operation.id})`);
+
+    const handler = this.handlers.get(operation.type);
+    if (!handler) {
+      return {
+        success: false,
+        error: `Unknown operation type: ${operation.type}`,
+        isRetryable: false,
+      };
+    }
+    if (!handler.validate(operation.payload)) {
+      return {
+        success: false,
+        error: `Invalid ${operation.type} payload`,
+        isRetryable: false,
+      };
+    }
+
+    try {
+      return await handler.execute(operation.payload, operation);
+    } catch (error) {
+      console.error(`[OperationQueueEngine] Error executing operation ${operation.id}:`, error);
+      return { success: false, ...(handler.classifyError ?? classifyUnknownError)(error) };
+    }
+  }
+
+  /**
+   * Try an operation now
+   *
+   * An operation whose dependency is still waiting is left for a later
+   * retry. Otherwise it is claimed, so an operation another retry is running
+   * is left to that one. An expired operation, or one whose dependency
+   * failed, fails without running; unless its handler has
+   * `dependencyOrdersOnly`, which runs it after a failed dependency too.
+   * Afterwards it is removed on success, left waiting with its retry count
+   * raised if the failure is retryable and retries remain, or marked failed.
+   * A failed attempt is recorded either way.
+   */
+  async retryOperation(id: string): Promise<void> {
+    await this.recoverInterrupted();
+
+    try {
+      const operation = await this.repository.getOperationById(id);
+
+      if (!operation) {
+        console.warn(`[OperationQueueEngine] Operation ${id} not found`);
+        return;
+      }
+
+      const dependencyStatus = await this.dependencyStatus(operation);
+      if (dependencyStatus !== null && WAITING_STATUSES.includes(dependencyStatus)) {
+        console.log(
+          `[OperationQueueEngine] Operation ${id} is waiting on operation ${operation.dependsOn}`
+        );
+        return;
+      }
+
+      if (!(await this.repository.markRetrying(id))) {
+        console.log(`[OperationQueueEngine] Operation ${id} is already being retried`);
+        return;
+      }
+      this.emitChange();
+
+      const attemptedAt = Date.now();
+      let result: OperationExecutionResult;
+      if (operation.expiresAt !== undefined && operation.expiresAt <= attemptedAt) {
+        result = {
+          success: false,
+          error: OPERATION_EXPIRED_ERROR,
+          isRetryable: false,
+          errorClass: 'expired',
+        };
+      } else if (
+        dependencyStatus === OperationStatus.FAILED &&
+        !this.handlers.get(operation.type)?.dependencyOrdersOnly
+      ) {
+        result = {
+          success: false,
+          error: OPERATION_DEPENDENCY_FAILED_ERROR,
+          isRetryable: false,
+          errorClass: 'dependency',
+        };
+      } else {
+        result = await this.execute(operation);
+      }
+      const { maxRetries } = this.retryConfig;
+      const willRetry = !result.success && result.isRetryable && operation.retryCount < maxRetries;
+
+      if (!result.success) {
+        await this.recordAttempt({
+          operationId: id,
+          attemptedAt,
+          outcome: willRetry ? 'retry' : 'failed',
+          errorMessage: result.error,
+          errorClass: result.errorClass ?? classifyOperationError(result.error),
+        });
+      }
+
+      if (result.success) {
+        await this.repository.updateStatus(id, OperationStatus.SUCCESS);
+        await this.repository.deleteOperation(id);
+        await this.forgetAttempts(id);
+        console.log(`[OperationQueueEngine] Operation ${id} completed successfully`);
+        this.emitChange();
+
+        await this.notifySuccess(id, operation);
+      } else if (willRetry) {
+        await this.repository.incrementRetryCount(id, result.error);
+        console.log(
+          `[OperationQueueEngine] Operation ${id} failed (retry ${operation.retryCount + 1}/${maxRetries}): ${result.error}`
+        );
+        this.emitChange();
+      } else {
+        await this.repository.updateStatus(id, OperationStatus.FAILED, result.error);
+        console.error(`[OperationQueueEngine] Operation ${id} failed permanently: ${result.error}`);
+        this.emitChange();
+
+        await this.notifyFailure(id, operation, result.error);
+      }
+    } catch (error) {
+      console.error(`[OperationQueueEngine] Error retrying operation ${id}:`, error);
+
+      // Put it back in line rather than leave it claimed
+      try {
+        await this.repository.updateStatus(
+          id,
+          OperationStatus.PENDING,
+          error instanceof Error ? error.message : 'Unknown error'
+        );
+        this.emitChange();
+      } catch (updateError) {
+        console.error('[OperationQueueEngine] Error updating operation status:', updateError);
+      }
+    }
+  }
+
+  /**
+   * Try every pending operation, one after another so the server is not sent
+   * them all at once, highest priority first. An operation tried before waits
+   * out its backoff delay after its attempt.
+   *
+   * An operation whose dependency is still waiting is passed over and tried
+   * after the rest, once the dependency has had its turn. One whose
+   * dependency is left waiting for a later retry waits with it, and one whose
+   * dependency failed fails in turn unless the dependency only orders it.
+   *
+   * Does nothing while a previous call is still running.
+   */
+  async retryAll(): Promise<void> {
+    if (this.retrying) {
+      console.log('[OperationQueueEngine] Retry already in progress');
+      return;
+    }
+
+    this.retrying = true;
+    this.emitChange();
+
+    try {
+      await this.recoverInterrupted();
+      const pendingOperations = await this.repository.getPendingOperations();
+
+      if (pendingOperations.length === 0) {
+        console.log('[OperationQueueEngine] No pending operations to retry');
+        return;
+      }
+
+      console.log(`[OperationQueueEngine] Retrying ${pendingOperations.length} pending operations`);
+
+      let remaining = pendingOperations;
+      while (remaining.length > 0) {
+        const deferred: QueuedOperation[] = [];
+
+        for (const operation of remaining) {
+          if (await this.isWaitingOnDependency(operation)) {
+            deferred.push(operation);
+            continue;
+          }
+
+          await this.retryOperation(operation.id);
+
+          if (operation.retryCount > 0) {
+            await this.sleep(this.calculateRetryDelay(operation.retryCount));
+          }
+        }
+
+        // Nothing ran this pass, so nothing deferred can have been unblocked
+        if (deferred.length === remaining.length) {
+          console.log(
+            `[OperationQueueEngine] ${deferred.length} operations left waiting on others`
+          );
+          break;
+        }
+        remaining = deferred;
+      }
+
+      console.log('[OperationQueueEngine] Finished retrying all operations');
+    } catch (error) {
+      console.error('[OperationQueueEngine] Error retrying all operations:', error);
+    } finally {
+      this.retrying = false;
+      this.emitChange();
+    }
+  }
+}
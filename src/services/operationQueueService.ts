@@ -0,0 +1,132 @@
+/**
+ * The app's operation queue
+ *
+ * `operationQueueEngine` is the queue every part of the app shares, with a
+ * handler registered for each built-in operation type. A new operation type
+ * is added by registering its handler here, not by changing the engine or
+ * `OperationQueueContext`.
+ */
+
+import { OperationHandler, OperationQueueEngine } from './operationQueueEngine';
+import { runQueuedRefresh } from './queuedRefreshService';
+import { submitBeerCorrection } from './enrichmentService';
+import { checkInBeer } from '../api/beerService';
+import { redeemReward } from '../api/rewardService';
+import { setPreference } from '../database/preferences';
+import { Beer } from '../types/beer';
+import {
+  CheckInBeerPayload,
+  CorrectBeerDetailsPayload,
+  OperationType,
+  RefreshDataPayload,
+  RewardRedemptionPayload,
+  UpdatePreferencesPayload,
+  isCheckInBeerPayload,
+  isCorrectBeerDetailsPayload,
+  isRefreshDataPayload,
+  isRewardRedemptionPayload,
+  isUpdatePreferencesPayload,
+} from '../types/operationQueue';
+
+export const checkInBeerHandler: OperationHandler<CheckInBeerPayload> = {
+  validate: isCheckInBeerPayload,
+  execute: async payload => {
+    // checkInBeer takes a Beer; only the ID and name are sent
+    const beer: Beer = {
+      id: payload.beerId,
+      brew_name: payload.beerName,
+      brewer: '',
+      brewer_loc: '',
+      brew_style: '',
+      brew_container: '',
+      review_count: '',
+      review_rating: '',
+      brew_description: '',
+    };
+
+    const result = await checkInBeer(beer);
+
+    if (result.success) {
+      return { success: true };
+    }
+
+    return {
+      success: false,
+      error: result.error || 'Check-in failed',
+      isRetryable: true,
+    };
+  },
+};
+
+export const correctBeerDetailsHandler: OperationHandler<CorrectBeerDetailsPayload> = {
+  validate: isCorrectBeerDetailsPayload,
+  execute: async ({ beerId, abv, brewStyle, brewDescription }) => {
+    const result = await submitBeerCorrection({
+      id: beerId,
+      abv,
+      brew_style: brewStyle,
+      brew_description: brewDescription,
+    });
+
+    if (result.success) {
+      return { success: true };
+    }
+
+    return {
+      success: false,
+      error: result.error,
+      isRetryable: result.isRetryable,
+    };
+  },
+};
+
+export const rewardRedemptionHandler: OperationHandler<RewardRedemptionPayload> = {
+  validate: isRewardRedemptionPayload,
+  execute: async ({ rewardId, rewardType, memberId }) => {
+    const result = await redeemReward({ rewardId, rewardType }, memberId);
+
+    if (result.success) {
+      return { success: true };
+    }
+
+    return {
+      success: false,
+      error: result.error || 'Reward redemption failed',
+      isRetryable: result.isRetryable ?? false,
+    };
+  },
+};
+
+/**
+ * Runs a queued refresh. One refresh per `dataType` waits at a time, whichever
+ * of the refresh types queued it. It depends on a check-in only to run after
+ * it, so a check-in that failed does not stop the refresh.
+ */
+export const refreshDataHandler: OperationHandler<RefreshDataPayload> = {
+  validate: isRefreshDataPayload,
+  execute: payload => runQueuedRefresh(payload.dataType),
+  dedupeKey: payload => `refresh:${payload.dataType}`,
+  dependencyOrdersOnly: true,
+};
+
+/**
+ * Writes a queued preference change. One change per key waits at a time, and
+ * queueing another hands it the newer value, so the last change wins.
+ */
+export const updatePreferencesHandler: OperationHandler<UpdatePreferencesPayload> = {
+  validate: isUpdatePreferencesPayload,
+  execute: async ({ key, value }) => {
+    await setPreference(key, value);
+    return { success: true };
+  },
+  dedupeKey: payload => `preference:${payload.key}`,
+};
+
+export const operationQueueEngine = new OperationQueueEngine();
+
+operationQueueEngine.registerHandler(OperationType.CHECK_IN_BEER, checkInBeerHandler);
+operationQueueEngine.registerHandler(OperationType.CORRECT_BEER_DETAILS, correctBeerDetailsHandler);
+operationQueueEngine.registerHandler(OperationType.ADD_TO_REWARD_QUEUE, rewardRedemptionHandler);
+operationQueueEngine.registerHandler(OperationType.REFRESH_ALL_DATA, refreshDataHandler);
+operationQueueEngine.registerHandler(OperationType.REFRESH_REWARDS, refreshDataHandler);
+operationQueueEngine.registerHandler(OperationType.UPDATE_PREFERENCES, updatePreferencesHandler);
@@ -0,0 +1,77 @@
+/**
+ * Queued Refresh Service
+ *
+ * Runs the refreshes the operation queue holds: a pull-to-refresh that could
+ * not reach the server is queued as a `REFRESH_ALL_DATA` or `REFRESH_REWARDS`
+ * operation and run from here once the connection is back. Each run is
+ * recorded in the refresh log like any other.
+ */
+
+import { fetchAndUpdateRewards, sequentialRefreshAllData } from './dataUpdateService';
+import type { DataUpdateResult } from './dataUpdateService';
+import { recordRefreshRun } from './refreshLogService';
+import { ApiErrorType } from '../utils/notificationUtils';
+import { sourceFromResult, sourcesFromRefreshResult } from '../utils/refreshLog';
+import { OperationExecutionResult, RefreshDataPayload } from '../types/operationQueue';
+
+/** Error types a later attempt can get past: the connection or the server */
+const RETRYABLE_ERROR_TYPES: readonly ApiErrorType[] = [
+  ApiErrorType.NETWORK_ERROR,
+  ApiErrorType.TIMEOUT_ERROR,
+  ApiErrorType.SERVER_ERROR,
+];
+
+/**
+ * The operation's outcome from each source's result. It fails if any source
+ * failed, and is retryable only if every failure is one a later attempt can
+ * get past — a refresh rejected for its data would be rejected again.
+ */
+export function refreshExecutionResult(
+  results: readonly DataUpdateResult[]
+): OperationExecutionResult {
+  const failures = results.filter(result => !result.success);
+  if (failures.length === 0) {
+    return { success: true };
+  }
+
+  return {
+    success: false,
+    error: failures.map(result => result.error?.message ?? 'Refresh failed').join('; '),
+    isRetryable: failures.every(
+      result =>
+        result.error !== undefined &&
+        (result.error.retryable === true || RETRYABLE_ERROR_TYPES.includes(result.error.type))
+    ),
+  };
+}
+
+/**
+ * Run a queued refresh
+ *
+ * `rewards` refreshes the rewards alone; `beers` refreshes both beer lists;
+ * `all` refreshes everything.
+ *
+ * @param dataType - What the queued refresh covers
+ * @returns The result the operation queue acts on
+ */
+export async function runQueuedRefresh(
+  dataType: RefreshDataPayload['dataType']
+): Promise<OperationExecutionResult> {
+  const startedAt = Date.now();
+
+  if (dataType === 'rewards') {
+    const result = await fetchAndUpdateRewards();
+    await recordRefreshRun('queue', startedAt, [sourceFromResult('rewards', result)]);
+    return refreshExecutionResult([result]);
+  }
+
+  const includeRewards = dataType === 'all';
+  const result = await sequentialRefreshAllData({ includeRewards });
+  await recordRefreshRun('queue', startedAt, sourcesFromRefreshResult(result, includeRewards));
+
+  return refreshExecutionResult(
+    includeRewards
+      ? [result.allBeersResult, result.myBeersResult, result.rewardsResult]
+      : [result.allBeersResult, result.myBeersResult]
+  );
+}
@@ -0,0 +1,63 @@
+/**
+ * Refresh Log Service
+ *
+ * Records each refresh run in the refresh log (`src/utils/refreshLog.ts`) and
+ * reads it back for Settings > Sync History. The refresh paths call
+ * `recordRefreshRun` once their writes are done; it never throws, so a log
+ * that cannot be written costs an entry, not the refresh.
+ */
+
+import { refreshLogRepository } from '../database/repositories/RefreshLogRepository';
+import { logWarning } from '../utils/errorLogger';
+import { RefreshLogEntry, RefreshLogSource, RefreshTrigger } from '../utils/refreshLog';
+
+/** Runs the Sync History screen lists */
+export const SYNC_HISTORY_COUNT = 50;
+
+/**
+ * Record a finished run. Never throws.
+ *
+ * @param trigger - What started the run
+ * @param startedAt - When it started, in epoch ms
+ * @param sources - Each source's part in it
+ * @param finishedAt - When it finished, in epoch ms
+ */
+export async function recordRefreshRun(
+  trigger: RefreshTrigger,
+  startedAt: number,
+  sources: readonly RefreshLogSource[],
+  finishedAt: number = Date.now()
+): Promise<void> {
+  try {
+    await refreshLogRepository.record({
+      trigger,
+      started_at: startedAt,
+      duration_ms: Math.max(0, finishedAt - startedAt),
+      sources: [...sources],
+    });
+  } catch (error) {
+    logWarning('Failed to record refresh run', {
+      operation: 'recordRefreshRun',
+      component: 'refreshLogService',
+      additionalData: { error: String(error), trigger },
+    });
+  }
+}
+
+/**
+ * The latest runs, newest first
+ *
+ * @throws Propagates any database error to the caller
+ */
+export async function getSyncHistory(): Promise<RefreshLogEntry[]> {
+  return refreshLogRepository.getRecent(SYNC_HISTORY_COUNT);
+}
+
+/**
+ * Forget every recorded run
+ *
+ * @throws Propagates any database error to the caller
+ */
+export async function clearSyncHistory(): Promise<void> {
+  await refreshLogRepository.clear();
+}
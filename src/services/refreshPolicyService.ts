@@ -0,0 +1,91 @@
+/**
+ * Refresh Policy Service
+ *
+ * Stores the refresh policy (`src/utils/refreshPolicy.ts`) as one preference
+ * and keeps the last one read in memory: the focus check reads it on every tab
+ * switch, before its throttle, and a tab switch should not cost a query.
+ */
+
+import { getPreference, setPreference } from '../database/preferences';
+import {
+  DEFAULT_REFRESH_POLICY,
+  REFRESH_SOURCES,
+  RefreshPolicy,
+  RefreshSource,
+  parseRefreshPolicy,
+  shouldWaitForWifi,
+} from '../utils/refreshPolicy';
+
+const REFRESH_POLICY_KEY = 'refresh_policy';
+
+let cachedPolicy: RefreshPolicy | null = null;
+
+/** Sources whose wait for Wi-Fi is already in the refresh log */
+const loggedWaits = new Set<RefreshSource>();
+
+/**
+ * The stored policy, or the default if none is stored. Never throws: an
+ * unreadable preference gives the default, and is read again next time.
+ */
+export async function getRefreshPolicy(): Promise<RefreshPolicy> {
+  if (cachedPolicy) return cachedPolicy;
+
+  try {
+    cachedPolicy = parseRefreshPolicy(await getPreference(REFRESH_POLICY_KEY));
+    return cachedPolicy;
+  } catch (error) {
+    console.error('[refreshPolicyService] Failed to read the refresh policy:', error);
+    return DEFAULT_REFRESH_POLICY;
+  }
+}
+
+/**
+ * @throws Error if the preference cannot be written; the previous policy stays
+ */
+export async function saveRefreshPolicy(policy: RefreshPolicy): Promise<void> {
+  await setPreference(REFRESH_POLICY_KEY, JSON.stringify(policy), 'Per-source refresh policy');
+  cachedPolicy = policy;
+}
+
+/**
+ * The sources an automatic refresh should leave for Wi-Fi on this connection.
+ * Never throws.
+ *
+ * @param isConnectionExpensive - NetInfo's reading; null or undefined if unknown
+ */
+export async function sourcesWaitingForWifi(
+  isConnectionExpensive: boolean | null | undefined
+): Promise<ReadonlySet<RefreshSource>> {
+  const policy = await getRefreshPolicy();
+  return new Set(
+    REFRESH_SOURCES.filter(source => shouldWaitForWifi(policy[source], isConnectionExpensive))
+  );
+}
+
+/**
+ * Note whether a source is being left for Wi-Fi, and whether that is news.
+ *
+ * A source can wait through many automatic refreshes on the same metered
+ * connection; the refresh log wants the first of them, not every tab switch.
+ *
+ * @param source - The source an automatic refresh looked at
+ * @param waiting - Whether it was left for Wi-Fi
+ * @returns True when the source has just started waiting
+ */
+export function noteWaitingForWifi(source: RefreshSource, waiting: boolean): boolean {
+  if (!waiting) {
+    loggedWaits.delete(source);
+    return false;
+  }
+  if (loggedWaits.has(source)) {
+    return false;
+  }
+  loggedWaits.add(source);
+  return true;
+}
+
+/** Forget the policy read and the waits logged. **Tests only.** */
+export function resetRefreshPolicyCache(): void {
+  cachedPolicy = null;
+  loggedWaits.clear();
+}
@@ -0,0 +1,96 @@
+/**
+ * Fetches the taplists of the stores saved for comparison
+ *
+ * Each saved store is fetched from the enrichment proxy (`GET /beers?sid=`)
+ * with its own ETag, stored beside its taplist in `store_taplists`. Nothing
+ * here touches `allbeers` or `all_beers_etag`: the home store's taplist, which
+ * Beerfinder and check-in read, is refreshed only by dataUpdateService.
+ *
+ * There is no direct Flying Saucer fallback. The direct endpoint is the URL
+ * the login stored for the home store, and it cannot be pointed at another.
+ *
+ * The ETag decisions are the ones taplistEtag.ts makes for the home store,
+ * applied per store: a proxy response without an ETag stores none, and a 304
+ * is only believed when there is a cached taplist for it to describe.
+ */
+
+import { config } from '@/src/config';
+import { storeTaplistRepository } from '../database/repositories/StoreTaplistRepository';
+import { StoreTaplist } from '../utils/storeComparison';
+import { logWarning } from '../utils/errorLogger';
+import { fetchBeersFromProxy } from './enrichmentService';
+import { mapEnrichedBeerToAppBeer } from './taplistSources';
+import { nextTaplistEtag, normalizeStoredEtag, shouldTrustNotModified } from './taplistEtag';
+
+/** What refreshing one saved store did */
+export type StoreRefreshOutcome =
+  | { readonly storeId: string; readonly status: 'updated'; readonly beerCount: number }
+  | { readonly storeId: string; readonly status: 'not-modified' }
+  | { readonly storeId: string; readonly status: 'failed'; readonly message: string };
+
+const UNCONFIGURED_MESSAGE = 'Comparing stores needs the enrichment service, which is not set up.';
+
+/**
+ * Fetch one saved store's taplist and store it.
+ *
+ * Never throws: a failure is returned as an outcome, so one unreachable store
+ * does not stop the others being refreshed, and the cached taplist stays as
+ * it was.
+ *
+ * @param store - The saved store, as last read
+ */
+export async function refreshStoreTaplist(store: StoreTaplist): Promise<StoreRefreshOutcome> {
+  const storeId = store.store_id;
+
+  if (!config.enrichment.isConfigured()) {
+    return { storeId, status: 'failed', message: UNCONFIGURED_MESSAGE };
+  }
+
+  try {
+    // A 304 against an empty cache would leave the store showing nothing
+    const etag = shouldTrustNotModified(store.beers.length)
+      ? normalizeStoredEtag(store.etag)
+      : undefined;
+    const response = await fetchBeersFromProxy(storeId, etag);
+
+    if (response.notModified) {
+      await storeTaplistRepository.markRevalidated(storeId);
+      return { storeId, status: 'not-modified' };
+    }
+
+    const beers = response.beers.map(mapEnrichedBeerToAppBeer);
+    await storeTaplistRepository.saveTaplist(
+      storeId,
+      beers,
+      nextTaplistEtag({ kind: 'proxy', etag: response.etag })
+    );
+    return { storeId, status: 'updated', beerCount: beers.length };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logWarning('Could not refresh a compared store taplist', {
+      operation: 'refreshStoreTaplist',
+      component: 'storeComparisonService',
+      additionalData: { storeId, message },
+    });
+    return { storeId, status: 'failed', message };
+  }
+}
+
+/**
+ * Refresh every saved store, one after another.
+ *
+ * Sequential rather than parallel: the proxy client allows only a few
+ * requests a minute, and a burst would have the later stores rate limited.
+ *
+ * @param stores - The saved stores, as last read
+ * @returns One outcome per store, in the same order
+ */
+export async function refreshStoreTaplists(
+  stores: readonly StoreTaplist[]
+): Promise<StoreRefreshOutcome[]> {
+  const outcomes: StoreRefreshOutcome[] = [];
+  for (const store of stores) {
+    outcomes.push(await refreshStoreTaplist(store));
+  }
+  return outcomes;
+}
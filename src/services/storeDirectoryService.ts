@@ -0,0 +1,225 @@
+/**
+ * The store directory, and switching the store the app is pointed at
+ *
+ * The active store is the one `all_beers_api_url` names; its taplist is
+ * `allbeers` under `all_beers_etag`, as it always was. Every other store the
+ * app has a taplist for keeps it in `store_taplists`, with the ETag it came
+ * with. A switch swaps the two under the database lock, in one transaction:
+ * the active store's rows, ETag and freshness go into its cache, and the new
+ * store's come out of theirs. Nothing is fetched, so switching back is instant and works offline;
+ * the caller refreshes afterwards if it can.
+ *
+ * The switch writes `all_beers_api_url` under the same lock the taplist writers
+ * hold, as every writer of that key must (see `taplistConfigurationHeld` in
+ * dataUpdateService.ts). A refresh still in flight for the old store is then
+ * refused by its guard, and its rows go into the old store's cache rather
+ * than being thrown away.
+ *
+ * Only the taplist moves. The tasted list and rewards belong to the member,
+ * and check-ins still go to the store the member signed in at, so they are
+ * refused while another store is active (see useOptimisticCheckIn).
+ */
+
+import { config } from '@/src/config';
+import { getPreference, setPreferenceUnsafe } from '../database/preferences';
+import { databaseLockManager } from '../database/DatabaseLockManager';
+import { beerRepository } from '../database/repositories/BeerRepository';
+import {
+  storeDirectoryRepository,
+  StoreDirectoryEntry,
+} from '../database/repositories/StoreDirectoryRepository';
+import { storeTaplistRepository } from '../database/repositories/StoreTaplistRepository';
+import { taplistDiffRepository } from '../database/repositories/TaplistDiffRepository';
+import { wishlistRepository } from '../database/repositories/WishlistRepository';
+import { calculateContainerTypes } from '../database/utils/glassTypeCalculator';
+import { toNonEmpty } from '../api/fetchOutcome';
+import {
+  BUNDLED_STORE_DIRECTORY,
+  DirectoryStore,
+  mergeStoreDirectory,
+  storeIdFromTaplistUrl,
+  taplistUrlForStore,
+} from '../utils/storeDirectory';
+import { logWarning } from '../utils/errorLogger';
+import { fetchStoreDirectoryFromProxy } from './enrichmentService';
+import { commitTaplistWriteUnsafe, readTaplistEtag } from './taplistEtag';
+
+/** What refreshing the directory did */
+export type DirectoryRefreshOutcome =
+  | { readonly status: 'updated'; readonly storeCount: number }
+  | { readonly status: 'failed'; readonly message: string };
+
+/** What a switch did */
+export type StoreSwitchResult =
+  | { readonly status: 'unchanged'; readonly storeId: string }
+  | {
+      readonly status: 'switched';
+      readonly storeId: string;
+      /** Beers restored from the store's cache; 0 if it had none */
+      readonly beerCount: number;
+      /** When the restored taplist was fetched, in epoch ms; null if never */
+      readonly fetchedAt: number | null;
+    };
+
+/**
+ * The directory: the bundled stores with the fetched and user-entered entries
+ * laid over them, by name.
+ *
+ * @throws Propagates any database error to the caller
+ */
+export async function loadStoreDirectory(): Promise<DirectoryStore[]> {
+  return mergeStoreDirectory(BUNDLED_STORE_DIRECTORY, await storeDirectoryRepository.getStored());
+}
+
+/**
+ * Fetch the directory from the proxy and store it. A store the user has edited
+ * keeps the user's entry.
+ *
+ * Never throws: a failure is returned as an outcome and the directory stays
+ * as it was.
+ */
+export async function refreshStoreDirectory(): Promise<DirectoryRefreshOutcome> {
+  if (!config.enrichment.isConfigured()) {
+    return {
+      status: 'failed',
+      message: 'Refreshing the directory needs the enrichment service, which is not set up.',
+    };
+  }
+
+  try {
+    const { stores } = await fetchStoreDirectoryFromProxy();
+    const entries: StoreDirectoryEntry[] = stores.map(store => ({
+      store_id: store.id,
+      name: store.name,
+      city: store.city ?? null,
+      state: store.state ?? null,
+      latitude: store.latitude ?? null,
+      longitude: store.longitude ?? null,
+    }));
+    await storeDirectoryRepository.replaceRemote(entries);
+    return { status: 'updated', storeCount: entries.length };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logWarning('Could not refresh the store directory', {
+      operation: 'refreshStoreDirectory',
+      component: 'storeDirectoryService',
+      additionalData: { message },
+    });
+    return { status: 'failed', message };
+  }
+}
+
+/**
+ * The store the app is pointed at, or null before a login configures one.
+ */
+export async function getActiveStoreId(): Promise<string | null> {
+  const apiUrl = await getPreference('all_beers_api_url');
+  return apiUrl ? storeIdFromTaplistUrl(apiUrl) : null;
+}
+
+/**
+ * The directory entry of the store the app is pointed at, or null before a
+ * login configures one or when the directory does not list it.
+ */
+export async function getActiveStore(): Promise<DirectoryStore | null> {
+  const activeId = await getActiveStoreId();
+  if (!activeId) {
+    return null;
+  }
+  return (await loadStoreDirectory()).find(store => store.store_id === activeId) ?? null;
+}
+
+const toEpochMs = (timestamp: string | null): number | null => {
+  const parsed = timestamp ? Date.parse(timestamp) : NaN;
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * Point the app at another store, from cached data only.
+ *
+ * A store with no cached taplist leaves `allbeers` empty and the freshness
+ * stamps cleared, so the next refresh fetches it in full.
+ *
+ * @param storeId - The store to switch to
+ * @throws Error if no store is given, or before a login has configured one
+ */
+export async function switchActiveStore(storeId: string): Promise<StoreSwitchResult> {
+  const target = storeId.trim();
+  if (!target) {
+    throw new Error('Store ID is required to switch stores');
+  }
+
+  // Read before the hold: names only label new cache rows
+  const directory = await loadStoreDirectory();
+  const nameOf = (id: string): string =>
+    directory.find(store => store.store_id === id)?.name ?? `Store ${id}`;
+
+  return databaseLockManager.withDatabaseLock('store-switch', async () => {
+    const currentUrl = await getPreference('all_beers_api_url');
+    if (!currentUrl) {
+      throw new Error('Sign in before switching stores.');
+    }
+
+    const currentId = storeIdFromTaplistUrl(currentUrl);
+    if (currentId === target) {
+      return { status: 'unchanged', storeId: target } as const;
+    }
+
+    // Every read comes first: inside the transaction only writes are safe
+    const stash = currentId
+      ? {
+          storeId: currentId,
+          beers: await beerRepository.getAll(),
+          etag: (await readTaplistEtag()) ?? null,
+          fetchedAt: toEpochMs(await getPreference('all_beers_last_check')),
+        }
+      : null;
+
+    const cached = await storeTaplistRepository.getByStoreId(target);
+    const rows = toNonEmpty(calculateContainerTypes(cached?.beers ?? []));
+    const fetchedAt = rows ? (cached?.fetched_at ?? null) : null;
+    const stamp = fetchedAt === null ? '' : new Date(fetchedAt).toISOString();
+
+    // One transaction, so a failure part-way leaves the old store active with
+    // everything it had, never its URL over another store's rows
+    await beerRepository.replaceAllWithUnsafe(rows ?? [], async txn => {
+      if (stash) {
+        await storeTaplistRepository.saveTaplistUnsafe(
+          stash.storeId,
+          nameOf(stash.storeId),
+          stash.beers,
+          stash.etag,
+          stash.fetchedAt,
+          txn
+        );
+      }
+
+      await commitTaplistWriteUnsafe(
+        txn,
+        rows && cached?.etag ? { kind: 'proxy', etag: cached.etag } : { kind: 'cleared' }
+      );
+
+      // The diffs describe the store being left; a diff against them would call
+      // every beer here new
+      await taplistDiffRepository.clearUnsafe(txn);
+
+      await setPreferenceUnsafe(txn, 'all_beers_last_update', stamp);
+      await setPreferenceUnsafe(txn, 'all_beers_last_check', stamp);
+      await setPreferenceUnsafe(
+        txn,
+        'all_beers_api_url',
+        taplistUrlForStore(target),
+        'API endpoint for fetching all beers'
+      );
+
+      await wishlistRepository.markOnTapUnsafe(txn);
+    });
+
+    return {
+      status: 'switched',
+      storeId: target,
+      beerCount: rows?.length ?? 0,
+      fetchedAt,
+    } as const;
+  });
+}
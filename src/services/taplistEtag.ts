@@ -36,7 +36,8 @@
  * once; if it reverses again, this exception is the first thing to revisit.
  */
 
-import { getPreference, setPreference } from '../database/preferences';
+import { getPreference, setPreference, setPreferenceUnsafe } from '../database/preferences';
+import type { TransactionLike } from '../database/transactions';
 
 /**
  * Preference key. Deliberately not exported — the raw string should appear
@@ -50,11 +51,14 @@ const TAPLIST_ETAG_DESCRIPTION = 'Cached ETag for all beers taplist';
  * Where the rows now in `allbeers` came from.
  *
  * `proxy` carries the ETag the server sent for that exact payload; every other
- * kind means the table no longer corresponds to any stored ETag.
+ * kind means the table no longer corresponds to any stored ETag. `fallback` is
+ * the direct Flying Saucer fetch and `file` a static taplist file (see
+ * `taplistSources.ts`) — neither answers conditional requests.
  */
 export type TaplistWriteSource =
   | { readonly kind: 'proxy'; readonly etag: string | null }
   | { readonly kind: 'fallback' }
+  | { readonly kind: 'file' }
   | { readonly kind: 'local-mutation' }
   | { readonly kind: 'cleared' };
 
@@ -130,3 +134,24 @@ export async function readTaplistEtag(): Promise<string | undefined> {
 export async function commitTaplistWrite(source: TaplistWriteSource): Promise<void> {
   await setPreference(TAPLIST_ETAG_KEY, nextTaplistEtag(source), TAPLIST_ETAG_DESCRIPTION);
 }
+
+/**
+ * Record the ETag implied by a write, inside the transaction that made it.
+ *
+ * For writers that replace `allbeers` with other writes in one transaction,
+ * where the ETag must commit or roll back with the rows it describes.
+ *
+ * @param txn - The transaction the write runs in
+ * @param source - What filled or changed the table
+ */
+export async function commitTaplistWriteUnsafe(
+  txn: TransactionLike,
+  source: TaplistWriteSource
+): Promise<void> {
+  await setPreferenceUnsafe(
+    txn,
+    TAPLIST_ETAG_KEY,
+    nextTaplistEtag(source),
+    TAPLIST_ETAG_DESCRIPTION
+  );
+}
@@ -0,0 +1,228 @@
+/**
+ * Taplist Sources
+ *
+ * The places a taplist can be read from, behind one interface, so
+ * `dataUpdateService` asks each in turn instead of hardwiring the enrichment
+ * proxy and the Flying Saucer API.
+ *
+ * Three are built in, tried in this order:
+ *
+ *   - `file` — a static JSON or CSV taplist (`EXPO_PUBLIC_TAPLIST_FILE_URI`),
+ *     for running against a local fixture or another bar's export. Only
+ *     available when configured, and then the only one asked.
+ *   - `proxy` — the enrichment Worker: enriched ABVs and an ETag.
+ *   - `flying-saucer` — the store's own API, read directly. The fallback.
+ *
+ * A source says what it can do through its capabilities, and whether a
+ * failure should pass on to the next source. What it answers is the shared
+ * `FetchOutcome` shape the `beerApi` fetchers already return, plus `unchanged`
+ * for a source with the `etag` capability, so the caller unwraps every source
+ * the same way.
+ */
+
+import { fetchBeersFromAPI } from '../api/beerApi';
+import { HttpError, toNonEmpty } from '../api/fetchOutcome';
+import type { FetchOutcome, UnconditionalSource } from '../api/fetchOutcome';
+import { Beer } from '../types/beer';
+import { createErrorResponse } from '../utils/notificationUtils';
+import { parseTaplistFile } from '../utils/taplistFile';
+import { config } from '@/src/config';
+import { EnrichedBeerResponse, fetchBeersFromProxy, recordFallback } from './enrichmentService';
+
+/** Every kind of taplist source, in the order they are asked */
+export type TaplistSourceKind = 'file' | 'proxy' | 'flying-saucer';
+
+export const TAPLIST_SOURCE_ORDER: readonly TaplistSourceKind[] = [
+  'file',
+  'proxy',
+  'flying-saucer',
+];
+
+/** How fresh the proxy says its rows are: fetched now, from its cache, or a stale cache */
+export type TaplistFreshness = 'live' | 'cache' | 'stale';
+
+/**
+ * A source's answer. `unchanged` carries the ETag the 304 came with; rows may
+ * carry how fresh the source says they are.
+ */
+export type TaplistSourceAnswer =
+  | { readonly status: 'unchanged'; readonly etag: string | null }
+  | (UnconditionalSource<FetchOutcome<Beer>> & { readonly freshness?: TaplistFreshness });
+
+/**
+ * What a source can provide beyond the rows themselves
+ */
+export type TaplistSourceCapabilities = {
+  /** Answers conditional requests, so a stored ETag can be revalidated */
+  readonly etag: boolean;
+  /** Rows arrive with the Worker's ABVs and confidence */
+  readonly enrichment: boolean;
+  /** The taplist is a Flying Saucer store's, so the member's tasted list and rewards match it */
+  readonly memberData: boolean;
+};
+
+/**
+ * One place a taplist can be read from
+ */
+export interface TaplistSource {
+  readonly kind: TaplistSourceKind;
+  /** For logs */
+  readonly label: string;
+  readonly capabilities: TaplistSourceCapabilities;
+  /**
+   * `next-source` when a failure should pass on to the next source that can
+   * fetch; `fail` when it should be the refresh's error.
+   */
+  readonly onFailure: 'next-source' | 'fail';
+  /** Whether this source can be asked at all, for this store */
+  canFetch(storeId: string | null): boolean;
+  /**
+   * Read the taplist. May throw; from a `next-source` source a throw passes on
+   * like a `failed` answer, from any other it is the refresh's error.
+   *
+   * @param storeId - Flying Saucer store ID, or null if not extractable from URL
+   * @param etag - The stored ETag, for sources with the `etag` capability
+   */
+  fetch(storeId: string | null, etag: string | undefined): Promise<TaplistSourceAnswer>;
+}
+
+/**
+ * Map Worker's enriched beer response to app's Beer interface
+ *
+ * Exported for storeComparisonService, which fetches other stores' taplists
+ * from the same endpoint.
+ */
+export function mapEnrichedBeerToAppBeer(beer: EnrichedBeerResponse): Beer {
+  return {
+    id: beer.id,
+    brew_name: beer.brew_name,
+    brewer: beer.brewer,
+    brewer_loc: beer.brewer_loc,
+    brew_style: beer.brew_style,
+    brew_container: beer.brew_container,
+    // `EnrichedBeerResponse` allows `null` here (`z.string().nullish()`);
+    // `Beer` only allows `undefined`. Normalize at this boundary rather than
+    // widening `Beer`'s type for the sake of one producer.
+    review_count: beer.review_count ?? undefined,
+    review_rating: beer.review_rating ?? undefined,
+    brew_description: beer.brew_description,
+    added_date: beer.added_date,
+    // Use enriched ABV from Worker
+    abv: beer.enriched_abv,
+    enrichment_confidence: beer.enrichment_confidence,
+    enrichment_source: beer.enrichment_source,
+  };
+}
+
+const fileTaplistSource: TaplistSource = {
+  kind: 'file',
+  label: 'taplist file',
+  capabilities: { etag: false, enrichment: false, memberData: false },
+  // Asked first and not passed over: a developer pointed the app at this file,
+  // and quietly showing the live taplist would hide that it could not be read.
+  onFailure: 'fail',
+  canFetch: () => config.taplistFile.isConfigured(),
+  async fetch() {
+    const { uri } = config.taplistFile;
+    if (!uri) {
+      return {
+        status: 'unavailable',
+        reason: { code: 'not-configured', detail: 'EXPO_PUBLIC_TAPLIST_FILE_URI is not set' },
+      };
+    }
+
+    try {
+      console.log(`[taplistSources] Reading taplist file ${uri}`);
+      // `fetch` reads file:// URIs as well as http(s) on both platforms
+      const response = await fetch(uri);
+      if (!response.ok) {
+        throw new HttpError(response.status, response.statusText);
+      }
+      return { status: 'fetched', data: parseTaplistFile(await response.text()), etag: null };
+    } catch (error) {
+      return { status: 'failed', error: createErrorResponse(error) };
+    }
+  },
+};
+
+const proxyTaplistSource: TaplistSource = {
+  kind: 'proxy',
+  label: 'enrichment proxy',
+  capabilities: { etag: true, enrichment: true, memberData: true },
+  onFailure: 'next-source',
+  canFetch: storeId => Boolean(storeId) && config.enrichment.isConfigured(),
+  async fetch(storeId, etag) {
+    if (!storeId) {
+      return {
+        status: 'unavailable',
+        reason: { code: 'not-applicable', detail: 'no store ID in the taplist URL' },
+      };
+    }
+
+    console.log(`[taplistSources] Attempting enrichment proxy for store ${storeId}...`);
+    const proxyResponse = await fetchBeersFromProxy(storeId, etag);
+
+    if (proxyResponse.notModified) {
+      console.log(`[taplistSources] 304 Not Modified for store ${storeId}`);
+      return { status: 'unchanged', etag: proxyResponse.etag ?? null };
+    }
+
+    const beers = toNonEmpty(proxyResponse.beers.map(mapEnrichedBeerToAppBeer));
+    console.log(
+      `[taplistSources] Fetched ${beers?.length ?? 0} beers via proxy (${proxyResponse.source ?? 'unknown'})`
+    );
+    return {
+      status: 'fetched',
+      data: beers ? { kind: 'data', items: beers } : { kind: 'confirmed-empty' },
+      etag: proxyResponse.etag ?? null,
+      freshness: proxyResponse.source === 'not_modified' ? undefined : proxyResponse.source,
+    };
+  },
+};
+
+const flyingSaucerTaplistSource: TaplistSource = {
+  kind: 'flying-saucer',
+  label: 'Flying Saucer API',
+  capabilities: { etag: false, enrichment: false, memberData: true },
+  onFailure: 'fail',
+  canFetch: () => true,
+  fetch() {
+    console.log('[taplistSources] Using direct Flying Saucer fetch...');
+    recordFallback();
+    return fetchBeersFromAPI();
+  },
+};
+
+const registry = new Map<TaplistSourceKind, TaplistSource>([
+  ['file', fileTaplistSource],
+  ['proxy', proxyTaplistSource],
+  ['flying-saucer', flyingSaucerTaplistSource],
+]);
+
+/**
+ * Replace the source for a kind, e.g. to read another bar's API in place of
+ * the Flying Saucer one.
+ *
+ * @returns Restores the source it replaced
+ */
+export function registerTaplistSource(source: TaplistSource): () => void {
+  const previous = registry.get(source.kind);
+  registry.set(source.kind, source);
+  return () => {
+    if (registry.get(source.kind) !== source) return;
+    if (previous) {
+      registry.set(source.kind, previous);
+    } else {
+      registry.delete(source.kind);
+    }
+  };
+}
+
+/**
+ * The sources that can be asked for this store, in the order to ask them
+ */
+export function getTaplistSources(storeId: string | null): TaplistSource[] {
+  return TAPLIST_SOURCE_ORDER.map(kind => registry.get(kind)).filter(
+    (source): source is TaplistSource => source !== undefined && source.canFetch(storeId)
+  );
+}
@@ -6,6 +6,9 @@ import {
   isQueuedOperation,
   isCheckInBeerPayload,
   isRewardRedemptionPayload,
+  isRefreshDataPayload,
+  isUpdatePreferencesPayload,
+  isCorrectBeerDetailsPayload,
   OperationType,
   OperationStatus,
 } from '../operationQueue';
@@ -120,6 +123,42 @@ describe('isQueuedOperation', () => {
       })
     ).toBe(false);
   });
+
+  it('accepts the optional scheduling fields', () => {
+    expect(
+      isQueuedOperation({
+        id: 'op-2',
+        type: OperationType.REFRESH_ALL_DATA,
+        payload: { dataType: 'all' },
+        timestamp: 1700000000000,
+        retryCount: 0,
+        status: OperationStatus.PENDING,
+        priority: -1,
+        dependsOn: 'op-1',
+        idempotencyKey: 'refresh:all',
+        expiresAt: 1700003600000,
+      })
+    ).toBe(true);
+  });
+
+  it.each([
+    ['priority', '1'],
+    ['dependsOn', 42],
+    ['idempotencyKey', null],
+    ['expiresAt', '1700003600000'],
+  ])('rejects objects where %s has the wrong type', (field, value) => {
+    expect(
+      isQueuedOperation({
+        id: 'op-2',
+        type: OperationType.REFRESH_ALL_DATA,
+        payload: { dataType: 'all' },
+        timestamp: 1700000000000,
+        retryCount: 0,
+        status: OperationStatus.PENDING,
+        [field]: value,
+      })
+    ).toBe(false);
+  });
 });
 
 describe('isCheckInBeerPayload', () => {
@@ -216,3 +255,63 @@ describe('isRewardRedemptionPayload', () => {
     ).toBe(false);
   });
 });
+
+describe('isRefreshDataPayload', () => {
+  it.each(['all', 'rewards', 'beers'])('returns true for dataType %s', dataType => {
+    expect(isRefreshDataPayload({ dataType })).toBe(true);
+  });
+
+  it('rejects an unknown dataType', () => {
+    expect(isRefreshDataPayload({ dataType: 'wishlist' })).toBe(false);
+  });
+
+  it('returns false for null', () => {
+    expect(isRefreshDataPayload(null)).toBe(false);
+  });
+});
+
+describe('isUpdatePreferencesPayload', () => {
+  it('returns true for valid UpdatePreferencesPayload', () => {
+    expect(isUpdatePreferencesPayload({ key: 'refresh_wifi_only', value: 'true' })).toBe(true);
+  });
+
+  it('rejects an empty key', () => {
+    expect(isUpdatePreferencesPayload({ key: '', value: 'true' })).toBe(false);
+  });
+
+  it('rejects a value that is not a string', () => {
+    expect(isUpdatePreferencesPayload({ key: 'refresh_wifi_only', value: true })).toBe(false);
+  });
+});
+
+describe('isCorrectBeerDetailsPayload', () => {
+  const valid = {
+    beerId: 'beer-1',
+    beerName: 'Test IPA',
+    abv: 6.8,
+    brewStyle: null,
+    brewDescription: 'Piney',
+  };
+
+  it('returns true for valid CorrectBeerDetailsPayload', () => {
+    expect(isCorrectBeerDetailsPayload(valid)).toBe(true);
+  });
+
+  it('accepts null for every uncorrected field', () => {
+    expect(
+      isCorrectBeerDetailsPayload({ ...valid, abv: null, brewStyle: null, brewDescription: null })
+    ).toBe(true);
+  });
+
+  it('returns false for null', () => {
+    expect(isCorrectBeerDetailsPayload(null)).toBe(false);
+  });
+
+  it('rejects objects with missing fields', () => {
+    expect(isCorrectBeerDetailsPayload({ beerId: 'beer-1', beerName: 'Test IPA' })).toBe(false);
+  });
+
+  it('rejects objects where abv is not a number', () => {
+    expect(isCorrectBeerDetailsPayload({ ...valid, abv: '6.8' })).toBe(false);
+  });
+});
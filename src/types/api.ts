@@ -36,6 +36,19 @@ export type ApiResponse<T> =
   | { success: true; data: T; statusCode: number }
   | { success: false; data: null; error: string; statusCode: number };
 
+/**
+ * Result of adding a reward to the member's queue.
+ * `isRetryable` is true for failures worth sending again later — a dropped
+ * connection or a server error — and false or unset for ones that would fail
+ * the same way every time.
+ */
+export type RewardRedemptionResponse = {
+  success: boolean;
+  message?: string;
+  error?: string;
+  isRetryable?: boolean;
+};
+
 /**
  * API error class for handling API errors
  */
@@ -105,4 +118,3 @@ export function isSessionData(obj: unknown): obj is SessionData {
     typeof o.sessionId === 'string'
   );
 }
-
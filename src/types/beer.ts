@@ -3,6 +3,7 @@
  */
 
 import { ContainerType } from '@/src/utils/beerGlassType';
+import { StyleFamily } from '@/src/utils/styleTaxonomy';
 
 /**
  * Valid enrichment source values
@@ -49,6 +50,12 @@ export type BeerWithContainerType = Beer & {
   // Enrichment fields explicitly typed (inherited from Beer, made required with nullable values)
   enrichment_confidence: number | null;
   enrichment_source: EnrichmentSource;
+  /**
+   * Normalized family of `brew_style`, computed with container_type (schema v12).
+   * Absent on beers built without `calculateContainerTypes`; readers fall back
+   * to `getStyleFamily(brew_style)`.
+   */
+  style_family?: StyleFamily | null;
 };
 
 /**
@@ -75,6 +82,75 @@ export type BeerfinderWithContainerType = BeerWithContainerType & {
   chit_code?: string;
 };
 
+/**
+ * Flavor tags offered when annotating a beer. Stored as plain strings, so a
+ * tag removed from this list later still round-trips on rows that carry it.
+ */
+export const FLAVOR_TAGS = [
+  'hoppy',
+  'malty',
+  'roasty',
+  'sour',
+  'fruity',
+  'citrus',
+  'sweet',
+  'bitter',
+  'smoky',
+  'crisp',
+] as const;
+
+export type FlavorTag = (typeof FLAVOR_TAGS)[number];
+
+/** Highest personal star rating. 0 is a real rating; "unrated" is null. */
+export const MAX_PERSONAL_RATING = 5;
+
+/**
+ * The user's own rating, tasting notes and flavor tags for a beer.
+ *
+ * Kept in its own table (`beer_notes`) rather than on the tasted-brew row,
+ * because `tasted_brew_current_round` is a mirror of the Flying Saucer API and
+ * is emptied and refilled on every refresh.
+ */
+export type BeerNote = {
+  beer_id: string;
+  rating: number | null;
+  notes: string;
+  flavor_tags: string[];
+  updated_at: number;
+};
+
+/**
+ * One beer as it was recorded on one plate, in the append-only
+ * `tasting_history` table. Written the first time a sync sees the beer on that
+ * plate and never updated, so it outlives the plate's rollover.
+ */
+export type TastingHistoryEntry = {
+  beer_id: string;
+  roh_lap: string;
+  tasted_date: string;
+  brew_name: string;
+  brewer: string;
+  brew_style: string;
+  recorded_at: number;
+};
+
+/**
+ * A beer the user wants to try, from the local `wishlist` table. Independent
+ * of the Flying Saucer queue: nothing is sent to the server.
+ *
+ * Name, brewer and style are copied from the taplist when the beer is starred,
+ * so the entry still reads right once the beer has left every taplist.
+ */
+export type WishlistEntry = {
+  beer_id: string;
+  brew_name: string;
+  brewer: string;
+  brew_style: string;
+  added_at: number;
+  /** When a refresh last found this beer on the store's taplist, if ever */
+  last_seen_on_tap: number | null;
+};
+
 /**
  * CheckInRequestData type for beer check-in requests
  */
@@ -130,3 +206,17 @@ export function isBeer(obj: unknown): obj is Beer {
   return true;
 }
 
+/**
+ * The user's own ABV, style and description for a beer, replacing what the
+ * taplist and the enrichment Worker supplied. A null field is not corrected.
+ *
+ * Kept in its own table (`beer_corrections`) and laid over the beer rows on
+ * every write, since those rows are replaced on every refresh.
+ */
+export type BeerCorrection = {
+  beer_id: string;
+  abv: number | null;
+  brew_style: string | null;
+  brew_description: string | null;
+  updated_at: number;
+};
@@ -8,3 +8,72 @@ export type EnrichmentUpdate = {
   enrichment_source: 'description' | 'perplexity' | 'manual' | null;
   brew_description: string | null;
 };
+
+/**
+ * A beer handed to the Worker for enrichment whose result has not come back.
+ * Stored in the enrichment_jobs table; see enrichmentJobService.ts.
+ */
+export type EnrichmentJob = {
+  beer_id: string;
+  /** When the beer was handed over, in epoch ms */
+  requested_at: number;
+  /** How many times the Worker has been asked for the result */
+  attempts: number;
+  /** When it was last asked, in epoch ms; null before the first poll */
+  last_attempt_at: number | null;
+};
+
+/**
+ * A counter the enrichment service keeps; see EnrichmentMetrics in
+ * enrichmentService.ts. Stored by this name in the enrichment_metrics table.
+ */
+export type EnrichmentCounter =
+  | 'proxyRequests'
+  | 'proxySuccesses'
+  | 'proxyFailures'
+  | 'rateLimitedRequests'
+  | 'fallbackCount'
+  | 'enrichedBeerCount'
+  | 'unenrichedBeerCount'
+  | 'cacheHits';
+
+/** Every enrichment counter, in the order the diagnostics list them */
+export const ENRICHMENT_COUNTERS: readonly EnrichmentCounter[] = [
+  'proxyRequests',
+  'proxySuccesses',
+  'proxyFailures',
+  'rateLimitedRequests',
+  'fallbackCount',
+  'enrichedBeerCount',
+  'unenrichedBeerCount',
+  'cacheHits',
+];
+
+/**
+ * How a request to the Worker ended. `cached` is a success the Worker served
+ * from its cache, or a 304 for a taplist that had not changed.
+ */
+export type EnrichmentRequestOutcome = 'ok' | 'cached' | 'rate_limited' | 'failed' | 'timed_out';
+
+/**
+ * One request to the Worker, kept in the enrichment_requests table so a
+ * problem report can quote the Worker's request id.
+ */
+export type EnrichmentRequestRecord = {
+  /** The Worker's request id; null when the request failed before one came back */
+  request_id: string | null;
+  /** The endpoint asked, e.g. `beers` or `batch` */
+  endpoint: string;
+  outcome: EnrichmentRequestOutcome;
+  /** When the request ended, in epoch ms */
+  recorded_at: number;
+};
+
+/**
+ * Counts recorded in one hour, keyed by the hour's start in epoch ms. Only the
+ * counters that moved are present.
+ */
+export type EnrichmentMetricBucket = {
+  bucket_start: number;
+  counts: Partial<Record<EnrichmentCounter, number>>;
+};
@@ -23,6 +23,9 @@ export enum OperationType {
 
   /** Update preferences operation */
   UPDATE_PREFERENCES = 'UPDATE_PREFERENCES',
+
+  /** Send the user's correction of a beer's details to the enrichment Worker */
+  CORRECT_BEER_DETAILS = 'CORRECT_BEER_DETAILS',
 }
 
 /**
@@ -95,6 +98,28 @@ export type UpdatePreferencesPayload = {
   value: string;
 };
 
+/**
+ * Beer correction operation payload
+ *
+ * A null field was not corrected, and is not sent.
+ */
+export type CorrectBeerDetailsPayload = {
+  /** Beer ID being corrected */
+  beerId: string;
+
+  /** Beer name for display */
+  beerName: string;
+
+  /** Corrected ABV */
+  abv: number | null;
+
+  /** Corrected style */
+  brewStyle: string | null;
+
+  /** Corrected description */
+  brewDescription: string | null;
+};
+
 /**
  * Union type for all operation payloads
  */
@@ -102,7 +127,8 @@ export type OperationPayload =
   | CheckInBeerPayload
   | RewardRedemptionPayload
   | RefreshDataPayload
-  | UpdatePreferencesPayload;
+  | UpdatePreferencesPayload
+  | CorrectBeerDetailsPayload;
 
 /**
  * Queued operation structure
@@ -131,8 +157,43 @@ export type QueuedOperation = {
 
   /** Timestamp of last retry attempt (milliseconds) */
   lastRetryTimestamp?: number;
+
+  /** Higher runs first; operations of equal priority run in the order queued (default 0) */
+  priority?: number;
+
+  /**
+   * ID of an operation that must succeed or be removed before this runs. If it
+   * fails, this fails without running.
+   */
+  dependsOn?: string;
+
+  /** While an operation with this key is in the queue, queueing another returns it instead */
+  idempotencyKey?: string;
+
+  /** After this timestamp (milliseconds) the operation fails instead of running */
+  expiresAt?: number;
 };
 
+/**
+ * Priorities the app queues its operations with. Any number works; higher runs
+ * first.
+ */
+export const OperationPriority = {
+  /** Something the user did and is waiting to see go through */
+  USER_ACTION: 10,
+  DEFAULT: 0,
+  /** Work nobody is watching, such as a refresh */
+  BACKGROUND: -10,
+} as const;
+
+/**
+ * How an operation is scheduled, given when it is queued
+ */
+export type QueueOperationOptions = Pick<
+  QueuedOperation,
+  'priority' | 'dependsOn' | 'idempotencyKey' | 'expiresAt'
+>;
+
 /**
  * Database row representation of a queued operation
  */
@@ -145,6 +206,11 @@ export type QueuedOperationRow = {
   status: string;
   error_message?: string;
   last_retry_timestamp?: number;
+  priority?: number;
+  depends_on?: string | null;
+  idempotency_key?: string | null;
+  expires_at?: number | null;
+  dedupe_key?: string | null;
 };
 
 /**
@@ -166,7 +232,11 @@ export function isQueuedOperation(obj: unknown): obj is QueuedOperation {
     typeof op['timestamp'] === 'number' &&
     typeof op['retryCount'] === 'number' &&
     typeof op['status'] === 'string' &&
-    Object.values(OperationStatus).includes(op['status'] as OperationStatus)
+    Object.values(OperationStatus).includes(op['status'] as OperationStatus) &&
+    (op['priority'] === undefined || typeof op['priority'] === 'number') &&
+    (op['dependsOn'] === undefined || typeof op['dependsOn'] === 'string') &&
+    (op['idempotencyKey'] === undefined || typeof op['idempotencyKey'] === 'string') &&
+    (op['expiresAt'] === undefined || typeof op['expiresAt'] === 'number')
   );
 }
 
@@ -206,6 +276,53 @@ export function isRewardRedemptionPayload(payload: unknown): payload is RewardRe
   );
 }
 
+/**
+ * Type guard for RefreshDataPayload
+ */
+export function isRefreshDataPayload(payload: unknown): payload is RefreshDataPayload {
+  if (!payload || typeof payload !== 'object') {
+    return false;
+  }
+
+  const p = payload as Record<string, unknown>;
+
+  return p['dataType'] === 'all' || p['dataType'] === 'rewards' || p['dataType'] === 'beers';
+}
+
+/**
+ * Type guard for UpdatePreferencesPayload
+ */
+export function isUpdatePreferencesPayload(payload: unknown): payload is UpdatePreferencesPayload {
+  if (!payload || typeof payload !== 'object') {
+    return false;
+  }
+
+  const p = payload as Record<string, unknown>;
+
+  return typeof p['key'] === 'string' && p['key'].length > 0 && typeof p['value'] === 'string';
+}
+
+/**
+ * Type guard for CorrectBeerDetailsPayload
+ */
+export function isCorrectBeerDetailsPayload(
+  payload: unknown
+): payload is CorrectBeerDetailsPayload {
+  if (!payload || typeof payload !== 'object') {
+    return false;
+  }
+
+  const p = payload as Record<string, unknown>;
+
+  return (
+    typeof p['beerId'] === 'string' &&
+    typeof p['beerName'] === 'string' &&
+    (p['abv'] === null || typeof p['abv'] === 'number') &&
+    (p['brewStyle'] === null || typeof p['brewStyle'] === 'string') &&
+    (p['brewDescription'] === null || typeof p['brewDescription'] === 'string')
+  );
+}
+
 /**
  * Configuration for retry behavior
  */
@@ -245,4 +362,72 @@ export type OperationExecutionResult = {
 
   /** Whether the error is retryable (network error) */
   isRetryable?: boolean;
+
+  /** What kind of failure it was; worked out from `error` when unset */
+  errorClass?: OperationErrorClass;
+};
+
+/**
+ * What kind of failure an operation ended in, which decides what the user can
+ * do about it:
+ * - `auth`: the session expired and logging in again failed
+ * - `visitor`: the operation needs a UFO Club member login
+ * - `rejected`: the server refused it
+ * - `network`: the server could not be reached, or was failing, every time
+ * - `expired`: it was no longer worth running by the time it could be
+ * - `dependency`: the operation it depended on failed
+ * - `unknown`: none of the above
+ */
+export const OPERATION_ERROR_CLASSES = [
+  'auth',
+  'visitor',
+  'rejected',
+  'network',
+  'expired',
+  'dependency',
+  'unknown',
+] as const;
+
+export type OperationErrorClass = (typeof OPERATION_ERROR_CLASSES)[number];
+
+/**
+ * How one failed attempt at an operation ended. Attempts that succeed are not
+ * kept: the operation leaves the queue with its timeline.
+ * - `retry`: it will be tried again
+ * - `failed`: it failed for good
+ */
+export const OPERATION_ATTEMPT_OUTCOMES = ['retry', 'failed'] as const;
+
+export type OperationAttemptOutcome = (typeof OPERATION_ATTEMPT_OUTCOMES)[number];
+
+/**
+ * One failed attempt at running a queued operation
+ */
+export type OperationAttempt = {
+  /** ID of the operation attempted */
+  operationId: string;
+
+  /** When the attempt started (milliseconds) */
+  attemptedAt: number;
+
+  /** How it ended */
+  outcome: OperationAttemptOutcome;
+
+  /** The error it failed with */
+  errorMessage?: string;
+
+  /** What kind of failure it was */
+  errorClass?: OperationErrorClass;
+};
+
+/**
+ * Database row representation of an operation attempt
+ */
+export type OperationAttemptRow = {
+  id: number;
+  operation_id: string;
+  attempted_at: number;
+  outcome: string;
+  error_message: string | null;
+  error_class: string | null;
 };
@@ -0,0 +1,180 @@
+import {
+  BACKGROUND_REFRESH_BUDGET_MS,
+  BACKGROUND_REFRESH_INTERVAL_MS,
+  BackgroundRefreshConditions,
+  BackgroundRefreshRecord,
+  FOREGROUND_SKIP_WINDOW_MS,
+  decideBackgroundRefresh,
+  parseBackgroundRefreshRecord,
+  runWithinBudget,
+  sourcesFreshFromBackground,
+} from '../backgroundRefresh';
+
+const NOW = 1_800_000_000_000;
+
+const record = (overrides: Partial<BackgroundRefreshRecord> = {}): BackgroundRefreshRecord => ({
+  startedAt: NOW - BACKGROUND_REFRESH_INTERVAL_MS,
+  finishedAt: NOW - BACKGROUND_REFRESH_INTERVAL_MS + 5_000,
+  outcome: 'refreshed',
+  includedRewards: true,
+  leftForWifi: [],
+  ...overrides,
+});
+
+const conditions = (
+  overrides: Partial<BackgroundRefreshConditions> = {}
+): BackgroundRefreshConditions => ({
+  now: NOW,
+  lastRun: null,
+  appActive: false,
+  configured: true,
+  throttled: false,
+  ...overrides,
+});
+
+describe('decideBackgroundRefresh', () => {
+  it('runs a full refresh within the budget', () => {
+    expect(decideBackgroundRefresh(conditions())).toEqual({
+      run: true,
+      includeRewards: true,
+      budgetMs: BACKGROUND_REFRESH_BUDGET_MS,
+    });
+  });
+
+  it('leaves the refresh to the foreground while the app is on screen', () => {
+    expect(decideBackgroundRefresh(conditions({ appActive: true }))).toEqual({
+      run: false,
+      reason: 'app-active',
+    });
+  });
+
+  it('does nothing without a taplist to refresh', () => {
+    expect(decideBackgroundRefresh(conditions({ configured: false }))).toEqual({
+      run: false,
+      reason: 'not-configured',
+    });
+  });
+
+  it('waits out the interval since the last run', () => {
+    const lastRun = record({ startedAt: NOW - BACKGROUND_REFRESH_INTERVAL_MS + 1 });
+
+    expect(decideBackgroundRefresh(conditions({ lastRun }))).toEqual({
+      run: false,
+      reason: 'too-soon',
+    });
+    expect(decideBackgroundRefresh(conditions({ lastRun: record() })).run).toBe(true);
+  });
+
+  it('leaves the rewards out when throttled', () => {
+    expect(decideBackgroundRefresh(conditions({ throttled: true }))).toMatchObject({
+      run: true,
+      includeRewards: false,
+    });
+  });
+
+  it('leaves the rewards out after a run that timed out', () => {
+    const lastRun = record({ outcome: 'timed-out' });
+
+    expect(decideBackgroundRefresh(conditions({ lastRun }))).toMatchObject({
+      run: true,
+      includeRewards: false,
+    });
+  });
+});
+
+describe('sourcesFreshFromBackground', () => {
+  it('skips every source after a complete refresh inside the window', () => {
+    expect(
+      sourcesFreshFromBackground(record({ finishedAt: NOW - FOREGROUND_SKIP_WINDOW_MS + 1 }), NOW)
+    ).toEqual(new Set(['allBeers', 'myBeers', 'rewards']));
+  });
+
+  it('still fetches the rewards a throttled run left out', () => {
+    expect(
+      sourcesFreshFromBackground(record({ includedRewards: false, finishedAt: NOW }), NOW)
+    ).toEqual(new Set(['allBeers', 'myBeers']));
+  });
+
+  it('still fetches the sources a run left for Wi-Fi', () => {
+    expect(
+      sourcesFreshFromBackground(record({ leftForWifi: ['allBeers'], finishedAt: NOW }), NOW)
+    ).toEqual(new Set(['myBeers', 'rewards']));
+  });
+
+  it('fetches once the window has passed', () => {
+    expect(
+      sourcesFreshFromBackground(record({ finishedAt: NOW - FOREGROUND_SKIP_WINDOW_MS }), NOW).size
+    ).toBe(0);
+  });
+
+  it.each(['partial', 'failed', 'timed-out'] as const)('fetches after a %s run', outcome => {
+    expect(sourcesFreshFromBackground(record({ outcome, finishedAt: NOW }), NOW).size).toBe(0);
+  });
+
+  it('fetches when no run is recorded', () => {
+    expect(sourcesFreshFromBackground(null, NOW).size).toBe(0);
+  });
+});
+
+describe('parseBackgroundRefreshRecord', () => {
+  it('reads a stored record', () => {
+    expect(parseBackgroundRefreshRecord(JSON.stringify(record()))).toEqual(record());
+  });
+
+  it('reads a record from before the refresh policy as leaving nothing for Wi-Fi', () => {
+    const { leftForWifi: _leftForWifi, ...older } = record();
+
+    expect(parseBackgroundRefreshRecord(JSON.stringify(older))).toEqual(record());
+  });
+
+  it.each([
+    ['nothing stored', null],
+    ['an empty value', ''],
+    ['invalid JSON', '{"startedAt": '],
+    ['an unknown outcome', JSON.stringify({ ...record(), outcome: 'exploded' })],
+  ])('is null for %s', (_case, value) => {
+    expect(parseBackgroundRefreshRecord(value)).toBeNull();
+  });
+});
+
+describe('runWithinBudget', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  it('returns the value of a task that finishes in time', async () => {
+    await expect(runWithinBudget(Promise.resolve(42), 1_000)).resolves.toEqual({
+      kind: 'finished',
+      value: 42,
+    });
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('returns the value of a task that finishes just before the deadline', async () => {
+    let finish: (value: number) => void = () => {};
+    const task = new Promise<number>(resolve => {
+      finish = resolve;
+    });
+
+    const outcome = runWithinBudget(task, 1_000);
+    jest.advanceTimersByTime(999);
+    finish(1);
+
+    await expect(outcome).resolves.toEqual({ kind: 'finished', value: 1 });
+  });
+
+  it('reports a timeout when the task is still running at the deadline', async () => {
+    const outcome = runWithinBudget(new Promise<number>(() => {}), 1_000);
+
+    jest.advanceTimersByTime(1_000);
+
+    await expect(outcome).resolves.toEqual({ kind: 'timed-out' });
+  });
+
+  it('passes on a task that fails in time', async () => {
+    await expect(runWithinBudget(Promise.reject(new Error('offline')), 1_000)).rejects.toThrow(
+      'offline'
+    );
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
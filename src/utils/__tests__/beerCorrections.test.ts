@@ -0,0 +1,123 @@
+import {
+  applyBeerCorrection,
+  applyBeerCorrections,
+  MANUAL_ENRICHMENT_CONFIDENCE,
+  normalizeBeerCorrection,
+  validateBeerCorrection,
+} from '../beerCorrections';
+import { BeerCorrection, BeerWithContainerType } from '@/src/types/beer';
+
+const beer: BeerWithContainerType = {
+  id: 'b1',
+  brew_name: 'Test Beer',
+  brewer: 'Test Brewery',
+  brew_style: 'IPA',
+  brew_container: 'Draught',
+  brew_description: 'Wrong description',
+  container_type: 'tulip',
+  abv: 5,
+  enrichment_confidence: 0.6,
+  enrichment_source: 'perplexity',
+  style_family: 'IPA',
+};
+
+const correction = (overrides: Partial<BeerCorrection> = {}): BeerCorrection => ({
+  beer_id: 'b1',
+  abv: null,
+  brew_style: null,
+  brew_description: null,
+  updated_at: 1000,
+  ...overrides,
+});
+
+describe('normalizeBeerCorrection', () => {
+  it('trims text fields and turns blanks into null', () => {
+    expect(
+      normalizeBeerCorrection({
+        beer_id: 'b1',
+        abv: 6.5,
+        brew_style: '  Milk Stout ',
+        brew_description: '   ',
+      })
+    ).toEqual({ beer_id: 'b1', abv: 6.5, brew_style: 'Milk Stout', brew_description: null });
+  });
+});
+
+describe('validateBeerCorrection', () => {
+  it('accepts a correction of any one field', () => {
+    expect(
+      validateBeerCorrection({ beer_id: 'b1', abv: 0, brew_style: null, brew_description: null })
+    ).toBeNull();
+    expect(
+      validateBeerCorrection({
+        beer_id: 'b1',
+        abv: null,
+        brew_style: 'Stout',
+        brew_description: null,
+      })
+    ).toBeNull();
+  });
+
+  it.each([-1, 101, NaN, Infinity])('rejects an ABV of %p', abv => {
+    expect(
+      validateBeerCorrection({ beer_id: 'b1', abv, brew_style: null, brew_description: null })
+    ).toMatch(/ABV must be/);
+  });
+
+  it('rejects a correction that changes nothing', () => {
+    expect(
+      validateBeerCorrection({ beer_id: 'b1', abv: null, brew_style: null, brew_description: null })
+    ).toMatch(/Enter an ABV/);
+  });
+
+  it('rejects a correction without a beer id', () => {
+    expect(
+      validateBeerCorrection({ beer_id: '', abv: 5, brew_style: null, brew_description: null })
+    ).not.toBeNull();
+  });
+});
+
+describe('applyBeerCorrection', () => {
+  it('overlays the corrected fields and marks the row as manual', () => {
+    const corrected = applyBeerCorrection(
+      beer,
+      correction({ abv: 6.8, brew_description: 'Right description' })
+    );
+
+    expect(corrected).toMatchObject({
+      abv: 6.8,
+      brew_style: 'IPA',
+      brew_description: 'Right description',
+      enrichment_source: 'manual',
+      enrichment_confidence: MANUAL_ENRICHMENT_CONFIDENCE,
+    });
+    expect(beer.abv).toBe(5);
+  });
+
+  it('works out the style family and container again from the corrected fields', () => {
+    const session = applyBeerCorrection(beer, correction({ brew_style: 'Milk Stout', abv: 4.5 }));
+    const strong = applyBeerCorrection(session, correction({ abv: 11 }));
+
+    expect(session.style_family).toBe('Stout');
+    expect(session.container_type).toBe('pint');
+    expect(strong.container_type).toBe('tulip');
+  });
+});
+
+describe('applyBeerCorrections', () => {
+  it('returns the same array when there are no corrections', () => {
+    const beers = [beer];
+    expect(applyBeerCorrections(beers, new Map())).toBe(beers);
+  });
+
+  it('corrects only the beers that have a correction', () => {
+    const other = { ...beer, id: 'b2' };
+    const [first, second] = applyBeerCorrections(
+      [beer, other],
+      new Map([['b1', correction({ abv: 7 })]])
+    );
+
+    expect(first.abv).toBe(7);
+    expect(second).toBe(other);
+  });
+});
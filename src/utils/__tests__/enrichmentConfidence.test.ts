@@ -0,0 +1,75 @@
+import {
+  describeAbvSource,
+  formatAbv,
+  isLowConfidenceAbv,
+  LOW_CONFIDENCE_THRESHOLD,
+  selectLowConfidenceBeers,
+} from '../enrichmentConfidence';
+import { BeerWithContainerType } from '@/src/types/beer';
+
+const beer = (overrides: Partial<BeerWithContainerType> = {}): BeerWithContainerType => ({
+  id: 'b1',
+  brew_name: 'Test Beer',
+  container_type: 'pint',
+  abv: 6.5,
+  enrichment_confidence: 0.4,
+  enrichment_source: 'perplexity',
+  style_family: null,
+  ...overrides,
+});
+
+describe('isLowConfidenceAbv', () => {
+  it('flags an ABV below the threshold', () => {
+    expect(isLowConfidenceAbv(beer())).toBe(true);
+    expect(isLowConfidenceAbv(beer({ enrichment_confidence: LOW_CONFIDENCE_THRESHOLD }))).toBe(
+      false
+    );
+  });
+
+  it('never flags a corrected ABV, a missing ABV or one without a confidence', () => {
+    expect(isLowConfidenceAbv(beer({ enrichment_source: 'manual' }))).toBe(false);
+    expect(isLowConfidenceAbv(beer({ abv: null }))).toBe(false);
+    expect(isLowConfidenceAbv(beer({ enrichment_confidence: null }))).toBe(false);
+  });
+});
+
+describe('formatAbv', () => {
+  it('marks a low-confidence ABV as approximate', () => {
+    expect(formatAbv(beer())).toBe('~6.5%');
+    expect(formatAbv(beer({ enrichment_confidence: 0.95 }))).toBe('6.5%');
+  });
+
+  it('returns null without an ABV', () => {
+    expect(formatAbv(beer({ abv: null }))).toBeNull();
+  });
+});
+
+describe('describeAbvSource', () => {
+  it('names the source and the confidence', () => {
+    expect(describeAbvSource(beer())).toBe('Looked up by Perplexity · 40% confidence');
+    expect(
+      describeAbvSource(beer({ enrichment_source: 'description', enrichment_confidence: 0.9 }))
+    ).toBe('Read from the description · 90% confidence');
+  });
+
+  it('gives no confidence for a correction or an unknown source', () => {
+    expect(describeAbvSource(beer({ enrichment_source: 'manual', enrichment_confidence: 1 }))).toBe(
+      'Corrected by you'
+    );
+    expect(describeAbvSource(beer({ enrichment_source: null, enrichment_confidence: null }))).toBe(
+      'Source unknown'
+    );
+  });
+});
+
+describe('selectLowConfidenceBeers', () => {
+  it('keeps the doubtful beers, least confident first', () => {
+    const beers = [
+      beer({ id: 'a', enrichment_confidence: 0.6 }),
+      beer({ id: 'b', enrichment_confidence: 0.9 }),
+      beer({ id: 'c', enrichment_confidence: 0.2 }),
+    ];
+
+    expect(selectLowConfidenceBeers(beers).map(b => b.id)).toEqual(['c', 'a']);
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  DEFAULT_FILTER_STATE,
+  FilterPresetState,
+  exportFilterPresets,
+  importFilterPresets,
+  isSameFilterState,
+  normalizePresetName,
+  parseFilterPresetState,
+} from '../filterPresets';
+
+const strongDrafts: FilterPresetState = {
+  containerFilter: 'draft',
+  ratingFilter: 'all',
+  sortBy: 'abv',
+  sortDirection: 'desc',
+  searchText: 'abv:>8',
+  styleFamilies: [],
+};
+
+describe('parseFilterPresetState', () => {
+  it('reads a complete state unchanged', () => {
+    expect(parseFilterPresetState({ ...strongDrafts })).toEqual(strongDrafts);
+  });
+
+  it('fills what a state lacks with the defaults', () => {
+    expect(parseFilterPresetState({ containerFilter: 'cans' })).toEqual({
+      ...DEFAULT_FILTER_STATE,
+      containerFilter: 'cans',
+    });
+  });
+
+  it('falls back per field on values this build does not know', () => {
+    // A preset from a newer build with a sort this one lacks still keeps its container
+    expect(
+      parseFilterPresetState({ containerFilter: 'draft', sortBy: 'freshness', searchText: 7 })
+    ).toEqual({ ...DEFAULT_FILTER_STATE, containerFilter: 'draft' });
+  });
+
+  it('keeps only known style families, once each', () => {
+    expect(
+      parseFilterPresetState({ styleFamilies: ['IPA', 'Kvass', 'IPA', 3, 'Stout'] })?.styleFamilies
+    ).toEqual(['IPA', 'Stout']);
+  });
+
+  it.each([null, 'draft', 42, ['draft']])('reads %p as no state', value => {
+    expect(parseFilterPresetState(value)).toBeNull();
+  });
+});
+
+describe('normalizePresetName', () => {
+  it('trims and collapses whitespace', () => {
+    expect(normalizePresetName('  Strong   drafts ')).toBe('Strong drafts');
+  });
+
+  it('cuts long names to the maximum length', () => {
+    expect(normalizePresetName('x'.repeat(60))).toHaveLength(40);
+  });
+
+  it('rejects a blank name', () => {
+    expect(normalizePresetName('   ')).toBeNull();
+  });
+});
+
+describe('isSameFilterState', () => {
+  it('ignores the order of style families and surrounding search whitespace', () => {
+    expect(
+      isSameFilterState(
+        { ...strongDrafts, styleFamilies: ['IPA', 'Stout'], searchText: 'abv:>8 ' },
+        { ...strongDrafts, styleFamilies: ['Stout', 'IPA'] }
+      )
+    ).toBe(true);
+  });
+
+  it('tells apart states that sort differently', () => {
+    expect(isSameFilterState(strongDrafts, { ...strongDrafts, sortDirection: 'asc' })).toBe(false);
+  });
+});
+
+describe('export and import', () => {
+  it('round-trips presets through the export string', () => {
+    const exported = exportFilterPresets([
+      { name: 'Strong drafts', state: strongDrafts },
+      { name: 'Hazy', state: { ...DEFAULT_FILTER_STATE, styleFamilies: ['IPA'] } },
+    ]);
+
+    expect(importFilterPresets(exported)).toEqual([
+      { name: 'Strong drafts', state: strongDrafts },
+      { name: 'Hazy', state: { ...DEFAULT_FILTER_STATE, styleFamilies: ['IPA'] } },
+    ]);
+  });
+
+  it('exports one line, so it survives being pasted into a message', () => {
+    expect(exportFilterPresets([{ name: 'Strong drafts', state: strongDrafts }])).not.toContain(
+      '\n'
+    );
+  });
+
+  it('accepts an export with whitespace pasted around it', () => {
+    const exported = exportFilterPresets([{ name: 'Strong drafts', state: strongDrafts }]);
+    expect(importFilterPresets(`\n  ${exported}  \n`)).toHaveLength(1);
+  });
+
+  it('skips unusable entries and lets a repeated name take the later state', () => {
+    const text = JSON.stringify({
+      kind: 'beerselector-filter-presets',
+      version: 1,
+      presets: [
+        { name: 'Cans', state: { containerFilter: 'cans' } },
+        { name: '   ', state: strongDrafts },
+        { name: 'No state' },
+        'junk',
+        { name: 'Cans', state: { containerFilter: 'draft' } },
+      ],
+    });
+
+    expect(importFilterPresets(text)).toEqual([
+      { name: 'Cans', state: { ...DEFAULT_FILTER_STATE, containerFilter: 'draft' } },
+    ]);
+  });
+
+  it.each([
+    ['text that is not JSON', 'Strong drafts'],
+    ['JSON that is not an export', '{"presets":[]}'],
+  ])('rejects %s', (_label, text) => {
+    expect(() => importFilterPresets(text)).toThrow('That is not a filter preset export.');
+  });
+
+  it('rejects an export from a newer format version', () => {
+    const text = JSON.stringify({ kind: 'beerselector-filter-presets', version: 2, presets: [] });
+    expect(() => importFilterPresets(text)).toThrow(/newer version of the app/);
+  });
+
+  it('rejects an export with no usable presets', () => {
+    expect(() => importFilterPresets(exportFilterPresets([]))).toThrow(
+      'The export has no presets in it.'
+    );
+  });
+});
@@ -44,3 +44,15 @@ describe('shouldRunFocusRefresh', () => {
     expect(shouldRunFocusRefresh(t0 + 1_000)).toBe(true);
   });
 });
+
+describe('shouldRunFocusRefresh with keys', () => {
+  beforeEach(() => resetFocusRefreshThrottle());
+
+  it('throttles each key on its own window', () => {
+    const t0 = 1_000_000;
+    expect(shouldRunFocusRefresh(t0, FIVE_MIN, 'allBeers')).toBe(true);
+    expect(shouldRunFocusRefresh(t0 + 1_000, 60_000, 'rewards')).toBe(true);
+    expect(shouldRunFocusRefresh(t0 + 61_000, FIVE_MIN, 'allBeers')).toBe(false);
+    expect(shouldRunFocusRefresh(t0 + 61_000, 60_000, 'rewards')).toBe(true);
+  });
+});
@@ -0,0 +1,26 @@
+import { isOffline } from '../networkStatus';
+
+describe('isOffline', () => {
+  it('is online only when connected and the internet is reachable', () => {
+    expect(isOffline({ isConnected: true, isInternetReachable: true })).toBe(false);
+  });
+
+  it.each([
+    [false, true],
+    [true, false],
+    [false, false],
+  ])('is offline when connected=%s and reachable=%s', (isConnected, isInternetReachable) => {
+    expect(isOffline({ isConnected, isInternetReachable })).toBe(true);
+  });
+
+  it.each([
+    [null, null],
+    [true, null],
+    [null, true],
+  ])(
+    'is offline while connected=%s and reachable=%s are not yet known',
+    (isConnected, isInternetReachable) => {
+      expect(isOffline({ isConnected, isInternetReachable })).toBe(true);
+    }
+  );
+});
@@ -0,0 +1,125 @@
+import { classifyOperationError, failureClassOf, groupDeadLetters } from '../operationFailures';
+import {
+  OperationAttempt,
+  OperationStatus,
+  OperationType,
+  QueuedOperation,
+} from '../../types/operationQueue';
+
+function operation(id: string, status: OperationStatus, errorMessage?: string): QueuedOperation {
+  return {
+    id,
+    type: OperationType.CHECK_IN_BEER,
+    payload: {
+      beerId: 'beer-1',
+      beerName: 'Test Beer',
+      storeId: 'store-1',
+      storeName: 'Test Store',
+      memberId: 'member-1',
+    },
+    timestamp: 1000,
+    retryCount: 3,
+    status,
+    errorMessage,
+  };
+}
+
+function attempt(operationId: string, overrides: Partial<OperationAttempt> = {}): OperationAttempt {
+  return { operationId, attemptedAt: 1000, outcome: 'failed', ...overrides };
+}
+
+describe('classifyOperationError', () => {
+  it.each([
+    ['Check-in requires UFO Club member login. Please log in via Settings.', 'visitor'],
+    ['Rewards require UFO Club member login. Please log in via Settings.', 'visitor'],
+    ['No session data found. Please log in again.', 'auth'],
+    ['No valid session available', 'auth'],
+    ['HTTP error! status: 401 Unauthorized', 'auth'],
+    ['HTTP error! status: 403 Forbidden', 'auth'],
+    ['Network request failed', 'network'],
+    ['Request timed out', 'network'],
+    ['HTTP error! status: 503 Service Unavailable', 'network'],
+    ['HTTP error! status: 429 Too Many Requests', 'network'],
+    ['HTTP error! status: 422 Unprocessable Entity', 'rejected'],
+    ['Invalid CHECK_IN_BEER payload', 'rejected'],
+    ['Correction rejected', 'rejected'],
+    ['Something odd happened', 'unknown'],
+  ])('classifies "%s" as %s', (message, expected) => {
+    expect(classifyOperationError(message)).toBe(expected);
+  });
+
+  it('classifies a missing message as unknown', () => {
+    expect(classifyOperationError(undefined)).toBe('unknown');
+    expect(classifyOperationError('')).toBe('unknown');
+  });
+});
+
+describe('failureClassOf', () => {
+  it("takes the latest attempt's class over the message", () => {
+    const failed = operation('op-1', OperationStatus.FAILED, 'Network request failed');
+
+    expect(
+      failureClassOf(failed, [
+        attempt('op-1', { outcome: 'retry', errorClass: 'network' }),
+        attempt('op-1', { errorClass: 'auth' }),
+      ])
+    ).toBe('auth');
+  });
+
+  it('falls back to the message when no attempt has a class', () => {
+    const failed = operation('op-1', OperationStatus.FAILED, 'Network request failed');
+
+    expect(failureClassOf(failed, [attempt('op-1')])).toBe('network');
+    expect(failureClassOf(failed, [])).toBe('network');
+  });
+});
+
+describe('groupDeadLetters', () => {
+  it('groups only failed operations, in dead-letter order', () => {
+    const operations = [
+      operation('op-1', OperationStatus.FAILED, 'Network request failed'),
+      operation('op-2', OperationStatus.PENDING),
+      operation('op-3', OperationStatus.FAILED, 'HTTP error! status: 401 Unauthorized'),
+      operation('op-4', OperationStatus.FAILED, 'Request timed out'),
+      operation('op-5', OperationStatus.RETRYING),
+    ];
+
+    const groups = groupDeadLetters(operations, []);
+
+    expect(groups.map(group => group.errorClass)).toEqual(['auth', 'network']);
+    expect(groups[0].operations.map(op => op.id)).toEqual(['op-3']);
+    expect(groups[1].operations.map(op => op.id)).toEqual(['op-1', 'op-4']);
+  });
+
+  it("uses each operation's own attempts", () => {
+    const operations = [
+      operation('op-1', OperationStatus.FAILED),
+      operation('op-2', OperationStatus.FAILED),
+    ];
+
+    const groups = groupDeadLetters(operations, [
+      attempt('op-1', { errorClass: 'expired' }),
+      attempt('op-2', { errorClass: 'visitor' }),
+    ]);
+
+    expect(groups).toEqual([
+      { errorClass: 'visitor', operations: [operations[1]] },
+      { errorClass: 'expired', operations: [operations[0]] },
+    ]);
+  });
+
+  it('lists operations whose dependency failed after the failures that caused them', () => {
+    const operations = [
+      operation('op-1', OperationStatus.FAILED),
+      operation('op-2', OperationStatus.FAILED, 'HTTP error! status: 422 Unprocessable Entity'),
+    ];
+
+    const groups = groupDeadLetters(operations, [attempt('op-1', { errorClass: 'dependency' })]);
+
+    expect(groups.map(group => group.errorClass)).toEqual(['rejected', 'dependency']);
+  });
+
+  it('gives no groups when nothing failed', () => {
+    expect(groupDeadLetters([operation('op-1', OperationStatus.PENDING)], [])).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+import { summarizeCompletedPlates } from '../plateHistory';
+import type { TastingHistoryEntry } from '@/src/types/beer';
+
+const makeEntry = (
+  id: string,
+  rohLap: string,
+  tastedDate: string,
+  brewStyle = 'IPA'
+): TastingHistoryEntry => ({
+  beer_id: id,
+  roh_lap: rohLap,
+  tasted_date: tastedDate,
+  brew_name: `Beer ${id}`,
+  brewer: 'Test Brewery',
+  brew_style: brewStyle,
+  recorded_at: 0,
+});
+
+describe('summarizeCompletedPlates', () => {
+  it('leaves out the plate still being filled', () => {
+    const result = summarizeCompletedPlates(
+      [makeEntry('1', '1', '01/02/2024'), makeEntry('2', '2', '06/01/2025')],
+      '2'
+    );
+
+    expect(result.map(plate => plate.rohLap)).toEqual(['1']);
+  });
+
+  it('treats every plate as complete when there is no current plate', () => {
+    // Right after a rollover the current round is empty.
+    const result = summarizeCompletedPlates(
+      [makeEntry('1', '1', '01/02/2024'), makeEntry('2', '2', '06/01/2025')],
+      null
+    );
+
+    expect(result.map(plate => plate.rohLap)).toEqual(['2', '1']);
+  });
+
+  it('orders plates numerically, newest first', () => {
+    const result = summarizeCompletedPlates(
+      [
+        makeEntry('1', '9', '01/01/2020'),
+        makeEntry('2', '10', '01/01/2021'),
+        makeEntry('3', '2', '01/01/2019'),
+      ],
+      null
+    );
+
+    expect(result.map(plate => plate.rohLap)).toEqual(['10', '9', '2']);
+  });
+
+  it('spans the plate by tasted date, not string order', () => {
+    const [plate] = summarizeCompletedPlates(
+      [
+        makeEntry('1', '1', '12/30/2023'),
+        makeEntry('2', '1', '02/14/2024'),
+        makeEntry('3', '1', '01/05/2024'),
+      ],
+      null
+    );
+
+    expect(plate.firstTastedDate).toBe('12/30/2023');
+    expect(plate.lastTastedDate).toBe('02/14/2024');
+    expect(plate.beerCount).toBe(3);
+  });
+
+  it('ignores unparseable dates and reports null when none parse', () => {
+    const [plate] = summarizeCompletedPlates(
+      [makeEntry('1', '1', ''), makeEntry('2', '1', 'soon')],
+      null
+    );
+
+    expect(plate.firstTastedDate).toBeNull();
+    expect(plate.lastTastedDate).toBeNull();
+    expect(plate.beerCount).toBe(2);
+  });
+
+  it('breaks styles down by count, most-tasted first', () => {
+    const [plate] = summarizeCompletedPlates(
+      [
+        makeEntry('1', '1', '01/01/2024', 'Stout'),
+        makeEntry('2', '1', '01/02/2024', 'IPA'),
+        makeEntry('3', '1', '01/03/2024', 'IPA'),
+        makeEntry('4', '1', '01/04/2024', ''),
+      ],
+      null
+    );
+
+    expect(plate.styles).toEqual([
+      { style: 'IPA', count: 2 },
+      { style: 'Stout', count: 1 },
+      { style: 'Unknown', count: 1 },
+    ]);
+  });
+
+  it('returns nothing for an empty history', () => {
+    expect(summarizeCompletedPlates([], '1')).toEqual([]);
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  RefreshLogSource,
+  describeRefreshLogSource,
+  formatRefreshDuration,
+  parseRefreshLogSources,
+  refreshRunOutcome,
+  skippedSource,
+  sourceFromResult,
+  sourcesFromRefreshResult,
+} from '../refreshLog';
+import { ApiErrorType } from '../notificationUtils';
+
+const serverError = {
+  success: false,
+  dataUpdated: false,
+  error: { type: ApiErrorType.SERVER_ERROR, message: 'Server error', statusCode: 503 },
+};
+
+describe('sourceFromResult', () => {
+  it('records the rows a source stored', () => {
+    expect(
+      sourceFromResult('allBeers', { success: true, dataUpdated: true, itemCount: 112 })
+    ).toMatchObject({ source: 'allBeers', status: 'updated', rowCount: 112, errorType: null });
+  });
+
+  it('tells a trusted 304 from an answer with nothing to store', () => {
+    expect(
+      sourceFromResult('allBeers', { success: true, dataUpdated: false, notModified: 'trusted' })
+    ).toMatchObject({ status: 'not-modified', notModified: 'trusted' });
+    expect(sourceFromResult('rewards', { success: true, dataUpdated: false })).toMatchObject({
+      status: 'unchanged',
+      notModified: null,
+    });
+  });
+
+  it('keeps the error code, status and message of a failure', () => {
+    expect(sourceFromResult('myBeers', serverError)).toEqual({
+      source: 'myBeers',
+      status: 'failed',
+      rowCount: null,
+      notModified: null,
+      skipReason: null,
+      errorType: 'SERVER_ERROR',
+      statusCode: 503,
+      message: 'Server error',
+    });
+  });
+
+  it('keeps the verdict of a 304 that was not believed', () => {
+    expect(
+      sourceFromResult('allBeers', {
+        success: false,
+        dataUpdated: false,
+        notModified: 'empty',
+        error: { type: ApiErrorType.VALIDATION_ERROR, message: 'No beers stored' },
+      })
+    ).toMatchObject({ status: 'failed', notModified: 'empty', errorType: 'VALIDATION_ERROR' });
+  });
+});
+
+describe('sourcesFromRefreshResult', () => {
+  const result = {
+    allBeersResult: { success: true, dataUpdated: true, itemCount: 3 },
+    myBeersResult: serverError,
+    rewardsResult: { success: true, dataUpdated: false },
+  };
+
+  it('gives one entry per source', () => {
+    expect(sourcesFromRefreshResult(result).map(source => source.source)).toEqual([
+      'allBeers',
+      'myBeers',
+      'rewards',
+    ]);
+  });
+
+  it('leaves out rewards the run did not include', () => {
+    expect(sourcesFromRefreshResult(result, false).map(source => source.source)).toEqual([
+      'allBeers',
+      'myBeers',
+    ]);
+  });
+});
+
+describe('refreshRunOutcome', () => {
+  const updated = sourceFromResult('allBeers', { success: true, dataUpdated: true });
+  const failed = sourceFromResult('myBeers', serverError);
+  const skipped = skippedSource('rewards', 'waiting-for-wifi');
+
+  it.each<[string, RefreshLogSource[], string]>([
+    ['no fetched source failed', [updated, skipped], 'succeeded'],
+    ['some fetched sources failed', [updated, failed], 'partial'],
+    ['every fetched source failed', [failed, skipped], 'failed'],
+    ['nothing was fetched', [skipped], 'skipped'],
+    ['the run had no sources', [], 'skipped'],
+  ])('is right when %s', (_case, sources, outcome) => {
+    expect(refreshRunOutcome(sources)).toBe(outcome);
+  });
+});
+
+describe('describeRefreshLogSource', () => {
+  it.each<[RefreshLogSource, string]>([
+    [
+      sourceFromResult('allBeers', { success: true, dataUpdated: true, itemCount: 1 }),
+      'Updated, 1 row',
+    ],
+    [
+      sourceFromResult('allBeers', { success: true, dataUpdated: false, notModified: 'trusted' }),
+      'Not modified (304)',
+    ],
+    [sourceFromResult('rewards', { success: true, dataUpdated: false }), 'Nothing new'],
+    [skippedSource('myBeers', 'waiting-for-wifi'), 'Skipped: waiting for Wi-Fi'],
+    [sourceFromResult('myBeers', serverError), 'Failed: SERVER_ERROR 503 - Server error'],
+    [
+      sourceFromResult('allBeers', {
+        success: false,
+        dataUpdated: false,
+        notModified: 'unknown',
+      }),
+      'Failed: 304 with the stored beers unreadable',
+    ],
+  ])('describes %j', (source, text) => {
+    expect(describeRefreshLogSource(source)).toBe(text);
+  });
+});
+
+describe('formatRefreshDuration', () => {
+  it('gives milliseconds under a second and seconds above', () => {
+    expect(formatRefreshDuration(850)).toBe('850 ms');
+    expect(formatRefreshDuration(2430)).toBe('2.4 s');
+  });
+});
+
+describe('parseRefreshLogSources', () => {
+  it('reads back what was stored', () => {
+    const sources = [
+      sourceFromResult('myBeers', serverError),
+      skippedSource('rewards', 'visitor-mode'),
+    ];
+
+    expect(parseRefreshLogSources(JSON.stringify(sources))).toEqual(sources);
+  });
+
+  it('leaves out sources it cannot read', () => {
+    const stored = [skippedSource('rewards', 'fresh'), { source: 'wishlist', status: 'updated' }];
+
+    expect(parseRefreshLogSources(JSON.stringify(stored))).toEqual([
+      skippedSource('rewards', 'fresh'),
+    ]);
+  });
+
+  it.each(['not json', '{"source": "allBeers"}'])('gives none for %s', value => {
+    expect(parseRefreshLogSources(value)).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import {
+  DEFAULT_REFRESH_POLICY,
+  RefreshPolicy,
+  parseRefreshPolicy,
+  shouldWaitForWifi,
+  withSourcePolicy,
+} from '../refreshPolicy';
+
+const custom: RefreshPolicy = {
+  allBeers: { maxAgeHours: 12, focusThrottleMinutes: 15, onMetered: 'wait-for-wifi' },
+  myBeers: { maxAgeHours: 1, focusThrottleMinutes: 1, onMetered: 'refresh' },
+  rewards: { maxAgeHours: 24, focusThrottleMinutes: 60, onMetered: 'refresh' },
+  rapidRefreshWindowSeconds: 60,
+};
+
+describe('parseRefreshPolicy', () => {
+  it('reads a stored policy', () => {
+    expect(parseRefreshPolicy(JSON.stringify(custom))).toEqual(custom);
+  });
+
+  it.each([
+    ['nothing stored', null],
+    ['an empty value', ''],
+    ['invalid JSON', '{"allBeers": '],
+    ['a value that is not an object', '42'],
+  ])('gives the default for %s', (_case, value) => {
+    expect(parseRefreshPolicy(value)).toEqual(DEFAULT_REFRESH_POLICY);
+  });
+
+  it('keeps the valid fields of a partly unreadable policy', () => {
+    const stored = {
+      ...custom,
+      allBeers: { ...custom.allBeers, maxAgeHours: -3 },
+      myBeers: 'often',
+      rapidRefreshWindowSeconds: undefined,
+    };
+
+    expect(parseRefreshPolicy(JSON.stringify(stored))).toEqual({
+      ...custom,
+      allBeers: { ...custom.allBeers, maxAgeHours: DEFAULT_REFRESH_POLICY.allBeers.maxAgeHours },
+      myBeers: DEFAULT_REFRESH_POLICY.myBeers,
+      rapidRefreshWindowSeconds: DEFAULT_REFRESH_POLICY.rapidRefreshWindowSeconds,
+    });
+  });
+
+  it('fills in a source an older policy did not have', () => {
+    const { rewards: _rewards, ...older } = custom;
+
+    expect(parseRefreshPolicy(JSON.stringify(older)).rewards).toEqual(
+      DEFAULT_REFRESH_POLICY.rewards
+    );
+  });
+});
+
+describe('withSourcePolicy', () => {
+  it('changes one source and leaves the rest', () => {
+    const changed = withSourcePolicy(custom, 'myBeers', { onMetered: 'wait-for-wifi' });
+
+    expect(changed.myBeers).toEqual({ ...custom.myBeers, onMetered: 'wait-for-wifi' });
+    expect(changed.allBeers).toBe(custom.allBeers);
+    expect(custom.myBeers.onMetered).toBe('refresh');
+  });
+});
+
+describe('shouldWaitForWifi', () => {
+  const waits = custom.allBeers;
+  const refreshes = custom.myBeers;
+
+  it('waits only on a connection known to be metered', () => {
+    expect(shouldWaitForWifi(waits, true)).toBe(true);
+    expect(shouldWaitForWifi(waits, false)).toBe(false);
+  });
+
+  it('refreshes while the connection cost is unknown', () => {
+    expect(shouldWaitForWifi(waits, null)).toBe(false);
+    expect(shouldWaitForWifi(waits, undefined)).toBe(false);
+  });
+
+  it('refreshes on a metered connection when the source allows it', () => {
+    expect(shouldWaitForWifi(refreshes, true)).toBe(false);
+  });
+});
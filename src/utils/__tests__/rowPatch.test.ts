@@ -0,0 +1,39 @@
+/**
+ * Tests for patchRowsById
+ */
+
+import { patchRowsById } from '../rowPatch';
+
+type Row = { id: string; abv: number | null };
+
+const rows: Row[] = [
+  { id: 'a', abv: null },
+  { id: 'b', abv: null },
+  { id: 'c', abv: 5 },
+];
+
+describe('patchRowsById', () => {
+  it('replaces the updated rows and keeps the identity of the rest', () => {
+    const patched = patchRowsById(rows, [{ id: 'b', abv: 6.5 }]);
+
+    expect(patched).toEqual([
+      { id: 'a', abv: null },
+      { id: 'b', abv: 6.5 },
+      { id: 'c', abv: 5 },
+    ]);
+    expect(patched[0]).toBe(rows[0]);
+    expect(patched[2]).toBe(rows[2]);
+    expect(rows[1].abv).toBeNull();
+  });
+
+  it('returns the same array when no held row was updated', () => {
+    expect(patchRowsById(rows, [])).toBe(rows);
+    expect(patchRowsById(rows, [{ id: 'z', abv: 4 }])).toBe(rows);
+  });
+
+  it('appends rows it does not hold when asked to', () => {
+    const patched = patchRowsById(rows, [{ id: 'z', abv: 4 }], true);
+
+    expect(patched.map(row => row.id)).toEqual(['a', 'b', 'c', 'z']);
+  });
+});
@@ -0,0 +1,157 @@
+import { parseSearchQuery, matchesSearchQuery, freeTextOf, withoutFreeText } from '../searchQuery';
+import type { Beer } from '@/src/types/beer';
+
+const makeBeer = (overrides: Partial<Beer> = {}): Beer => ({
+  id: '1',
+  brew_name: 'Hazy Wonder',
+  brewer: 'Jester King Brewery',
+  brew_style: 'IPA',
+  brewer_loc: 'Austin, TX',
+  abv: 6.5,
+  ...overrides,
+});
+
+const matches = (query: string, beer: Beer = makeBeer()): boolean =>
+  matchesSearchQuery(beer, parseSearchQuery(query));
+
+describe('parseSearchQuery', () => {
+  it('returns no terms for an empty or blank query', () => {
+    expect(parseSearchQuery('')).toEqual({ terms: [], errors: [] });
+    expect(parseSearchQuery('   ')).toEqual({ terms: [], errors: [] });
+  });
+
+  it('keeps consecutive bare words together as one phrase', () => {
+    // What the search box did before it had any syntax: "Brewery B" must not
+    // become "brewery" AND "b", which would match nearly everything.
+    expect(parseSearchQuery('Brewery  B').terms).toEqual([
+      { kind: 'text', value: 'brewery b', negated: false },
+    ]);
+  });
+
+  it('parses field terms, including aliases and quoted values', () => {
+    expect(parseSearchQuery('style:IPA brewery:"Jester King" location:tx').terms).toEqual([
+      { kind: 'field', field: 'style', value: 'ipa', negated: false },
+      { kind: 'field', field: 'brewer', value: 'jester king', negated: false },
+      { kind: 'field', field: 'loc', value: 'tx', negated: false },
+    ]);
+  });
+
+  it('treats an unknown key as free text', () => {
+    expect(parseSearchQuery('color:gold').terms).toEqual([
+      { kind: 'text', value: 'color:gold', negated: false },
+    ]);
+  });
+
+  it('parses ABV comparisons and ranges', () => {
+    expect(parseSearchQuery('abv:>8').terms).toEqual([
+      { kind: 'abv', min: { value: 8, inclusive: false }, max: null, negated: false },
+    ]);
+    expect(parseSearchQuery('abv:5..7').terms).toEqual([
+      {
+        kind: 'abv',
+        min: { value: 5, inclusive: true },
+        max: { value: 7, inclusive: true },
+        negated: false,
+      },
+    ]);
+    expect(parseSearchQuery('abv:..4.5').terms).toEqual([
+      { kind: 'abv', min: null, max: { value: 4.5, inclusive: true }, negated: false },
+    ]);
+  });
+
+  it.each(['abv:strong', 'abv:>', 'abv:7..5', 'abv:..', 'abv:5..7..9'])(
+    'reports %s as an error and leaves it out of the terms',
+    query => {
+      const parsed = parseSearchQuery(query);
+      expect(parsed.terms).toEqual([]);
+      expect(parsed.errors).toHaveLength(1);
+      expect(parsed.errors[0].message).toMatch(/^abv:/);
+    }
+  );
+
+  it('reports a field with no value', () => {
+    const parsed = parseSearchQuery('hazy style:');
+    expect(parsed.terms).toHaveLength(1);
+    expect(parsed.errors).toEqual([{ token: 'style:', message: 'style: needs a value' }]);
+  });
+
+  it('reports an unterminated quote but still searches on it', () => {
+    const parsed = parseSearchQuery('"jester ki');
+    expect(parsed.errors).toEqual([{ token: 'jester ki', message: 'Missing closing quote' }]);
+    expect(parsed.terms).toEqual([{ kind: 'text', value: 'jester ki', negated: false }]);
+  });
+
+  it('ignores a lone dash while the user is still typing', () => {
+    expect(parseSearchQuery('hazy -')).toEqual({
+      terms: [{ kind: 'text', value: 'hazy', negated: false }],
+      errors: [],
+    });
+  });
+});
+
+describe('matchesSearchQuery', () => {
+  it('matches free text across name, brewer, style and location', () => {
+    expect(matches('wonder')).toBe(true);
+    expect(matches('jester')).toBe(true);
+    expect(matches('ipa')).toBe(true);
+    expect(matches('austin')).toBe(true);
+    expect(matches('stout')).toBe(false);
+  });
+
+  it('restricts a field term to its field', () => {
+    expect(matches('style:ipa')).toBe(true);
+    expect(matches('name:ipa')).toBe(false);
+    expect(matches('brewer:"jester king"')).toBe(true);
+    expect(matches('loc:tx')).toBe(true);
+  });
+
+  it('requires every term to match', () => {
+    expect(matches('style:ipa loc:tx')).toBe(true);
+    expect(matches('style:ipa loc:ca')).toBe(false);
+  });
+
+  it('matches a quoted phrase as a single substring', () => {
+    expect(matches('"king brewery"')).toBe(true);
+    expect(matches('"brewery king"')).toBe(false);
+  });
+
+  it('excludes beers that match a negated term', () => {
+    expect(matches('-sour')).toBe(true);
+    expect(matches('-ipa')).toBe(false);
+    expect(matches('-style:ipa')).toBe(false);
+    expect(matches('-"jester king"')).toBe(false);
+  });
+
+  it('compares ABV with the requested bounds', () => {
+    expect(matches('abv:>6')).toBe(true);
+    expect(matches('abv:>6.5')).toBe(false);
+    expect(matches('abv:>=6.5')).toBe(true);
+    expect(matches('abv:<7')).toBe(true);
+    expect(matches('abv:5..7')).toBe(true);
+    expect(matches('abv:6.5')).toBe(true);
+    expect(matches('abv:6')).toBe(false);
+  });
+
+  it('never matches an ABV condition for a beer without an ABV', () => {
+    const unknownAbv = makeBeer({ abv: null });
+    expect(matches('abv:>0', unknownAbv)).toBe(false);
+    expect(matches('-abv:>8', unknownAbv)).toBe(true);
+  });
+
+  it('matches everything when only erroneous tokens were entered', () => {
+    expect(matches('abv:strong')).toBe(true);
+  });
+});
+
+describe('freeTextOf / withoutFreeText', () => {
+  it('splits the positive free text from the structured terms', () => {
+    const query = parseSearchQuery('roasted coffee style:stout -"milk" abv:>8');
+
+    expect(freeTextOf(query)).toBe('roasted coffee');
+    expect(withoutFreeText(query).terms.map(term => term.kind)).toEqual(['field', 'text', 'abv']);
+  });
+
+  it('returns empty free text when the query has none', () => {
+    expect(freeTextOf(parseSearchQuery('style:ipa -sour'))).toBe('');
+  });
+});
@@ -0,0 +1,64 @@
+import { ComparedStore, compareStoreTaplists } from '../storeComparison';
+import type { Beer } from '@/src/types/beer';
+
+const beer = (id: string, name = `Beer ${id}`): Beer => ({ id, brew_name: name });
+
+const store = (storeId: string, beers: Beer[], isHome = false): ComparedStore => ({
+  store_id: storeId,
+  store_name: `Store ${storeId}`,
+  beers,
+  fetched_at: isHome ? null : 1000,
+  is_home: isHome,
+});
+
+describe('compareStoreTaplists', () => {
+  it('lists the untasted beers only one store has', () => {
+    const [home, other] = compareStoreTaplists(
+      [store('home', [beer('1'), beer('2')], true), store('other', [beer('2'), beer('3')])],
+      new Set()
+    );
+
+    expect(home.exclusive.map(b => b.id)).toEqual(['1']);
+    expect(other.exclusive.map(b => b.id)).toEqual(['3']);
+  });
+
+  it('leaves tasted beers out of the exclusives and the untasted count', () => {
+    const [home] = compareStoreTaplists(
+      [store('home', [beer('1'), beer('2')], true), store('other', [])],
+      new Set(['1'])
+    );
+
+    expect(home.total).toBe(2);
+    expect(home.untasted).toBe(1);
+    expect(home.exclusive.map(b => b.id)).toEqual(['2']);
+  });
+
+  it('takes nothing from the others for a store not fetched yet', () => {
+    const [home, unfetched] = compareStoreTaplists(
+      [store('home', [beer('1')], true), { ...store('new', []), fetched_at: null }],
+      new Set()
+    );
+
+    expect(home.exclusive.map(b => b.id)).toEqual(['1']);
+    expect(unfetched.total).toBe(0);
+    expect(unfetched.fetched_at).toBeNull();
+  });
+
+  it('counts a beer listed twice on one taplist as one store', () => {
+    const [home] = compareStoreTaplists(
+      [store('home', [beer('1'), beer('1')], true), store('other', [])],
+      new Set()
+    );
+
+    expect(home.exclusive).toHaveLength(2);
+  });
+
+  it('orders exclusives by name, ignoring case', () => {
+    const [home] = compareStoreTaplists(
+      [store('home', [beer('1', 'zwickel'), beer('2', 'Amber'), beer('3', 'bock')], true)],
+      new Set()
+    );
+
+    expect(home.exclusive.map(b => b.brew_name)).toEqual(['Amber', 'bock', 'zwickel']);
+  });
+});
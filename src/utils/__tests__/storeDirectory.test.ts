@@ -0,0 +1,107 @@
+/**
+ * Tests for the store directory helpers
+ */
+
+import {
+  BUNDLED_STORE_DIRECTORY,
+  DirectoryStore,
+  distanceKm,
+  mergeStoreDirectory,
+  sortByDistanceFrom,
+  storeIdFromTaplistUrl,
+  taplistUrlForStore,
+} from '../storeDirectory';
+
+const store = (overrides: Partial<DirectoryStore> & { store_id: string }): DirectoryStore => ({
+  name: `Store ${overrides.store_id}`,
+  city: null,
+  state: null,
+  latitude: null,
+  longitude: null,
+  source: 'bundled',
+  updated_at: 0,
+  ...overrides,
+});
+
+describe('taplist URLs', () => {
+  it('round-trips a store id', () => {
+    const url = taplistUrlForStore('13879');
+
+    expect(url).toBe('https://fsbs.beerknurd.com/bk-store-json.php?sid=13879');
+    expect(storeIdFromTaplistUrl(url)).toBe('13879');
+  });
+
+  it('reads the sid from a malformed URL', () => {
+    expect(storeIdFromTaplistUrl('bk-store-json.php?sid=13880')).toBe('13880');
+  });
+
+  it('returns null when there is no sid', () => {
+    expect(storeIdFromTaplistUrl('https://fsbs.beerknurd.com/bk-store-json.php')).toBeNull();
+  });
+});
+
+describe('BUNDLED_STORE_DIRECTORY', () => {
+  it('lists each store once', () => {
+    const ids = BUNDLED_STORE_DIRECTORY.map(entry => entry.store_id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(ids).toContain('13879');
+  });
+});
+
+describe('mergeStoreDirectory', () => {
+  it('lays stored entries over bundled ones and sorts by name', () => {
+    const merged = mergeStoreDirectory(
+      [store({ store_id: '1', name: 'Zeta' }), store({ store_id: '2', name: 'beta' })],
+      [
+        store({ store_id: '1', name: 'Alpha', source: 'user', updated_at: 5 }),
+        store({ store_id: '3', name: 'Gamma', source: 'remote' }),
+      ]
+    );
+
+    expect(merged.map(entry => [entry.store_id, entry.name, entry.source])).toEqual([
+      ['1', 'Alpha', 'user'],
+      ['2', 'beta', 'bundled'],
+      ['3', 'Gamma', 'remote'],
+    ]);
+  });
+});
+
+describe('distanceKm', () => {
+  it('measures the great-circle distance', () => {
+    const houston = store({ store_id: 'h', latitude: 29.7604, longitude: -95.3632 });
+    const austin = store({ store_id: 'a', latitude: 30.2672, longitude: -97.7431 });
+
+    expect(distanceKm(houston, austin)).toBeCloseTo(235, -1);
+  });
+
+  it('is null without coordinates', () => {
+    expect(
+      distanceKm(store({ store_id: 'a' }), store({ store_id: 'b', latitude: 1, longitude: 1 }))
+    ).toBeNull();
+  });
+});
+
+describe('sortByDistanceFrom', () => {
+  const directory = [
+    store({ store_id: 'far', name: 'A', latitude: 40, longitude: -90 }),
+    store({ store_id: 'nowhere', name: 'B' }),
+    store({ store_id: 'origin', name: 'C', latitude: 30, longitude: -95 }),
+    store({ store_id: 'near', name: 'D', latitude: 30.5, longitude: -95 }),
+    store({ store_id: 'unknown', name: 'E' }),
+  ];
+
+  it('puts the origin first, then the nearest, then stores without coordinates by name', () => {
+    expect(sortByDistanceFrom(directory, 'origin').map(entry => entry.store_id)).toEqual([
+      'origin',
+      'near',
+      'far',
+      'nowhere',
+      'unknown',
+    ]);
+  });
+
+  it('keeps the given order when the origin is not listed', () => {
+    expect(sortByDistanceFrom(directory, null)).toEqual(directory);
+  });
+});
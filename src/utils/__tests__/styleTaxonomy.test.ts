@@ -0,0 +1,49 @@
+import { normalizeStyle, getStyleFamily, isStyleFamily, STYLE_FAMILIES } from '../styleTaxonomy';
+
+describe('normalizeStyle', () => {
+  it.each([
+    ['Imperial IPA', 'IPA', 'Double IPA'],
+    ['IPA - Double', 'IPA', 'Double IPA'],
+    ['DIPA', 'IPA', 'Double IPA'],
+    ['New England IPA', 'IPA', 'Hazy IPA'],
+    ['Black IPA', 'IPA', 'Black IPA'],
+    ['IPA', 'IPA', 'IPA'],
+    ['Russian Imperial Stout', 'Stout', 'Imperial Stout'],
+    ['Milk Stout', 'Stout', 'Milk Stout'],
+    ['Baltic Porter', 'Porter', 'Baltic Porter'],
+    ['Berliner Weisse', 'Sour', 'Berliner Weisse'],
+    ['Hefeweizen', 'Wheat', 'Hefeweizen'],
+    ['Wheatwine', 'Strong Ale', 'Wheatwine'],
+    ['Belgian Strong Dark Ale', 'Belgian', 'Belgian Strong Ale'],
+    ['German Pilsner', 'Lager', 'Pilsner'],
+    ['Maibock', 'Lager', 'Bock'],
+    ['Kölsch', 'Lager', 'Kölsch'],
+    ['Hard Cider', 'Cider & Mead', 'Cider'],
+  ])('maps %s to %s / %s', (raw, family, style) => {
+    expect(normalizeStyle(raw)).toEqual({ family, style });
+  });
+
+  it('is case- and whitespace-insensitive', () => {
+    expect(normalizeStyle('  imperial STOUT ')).toEqual(normalizeStyle('Imperial Stout'));
+  });
+
+  it('files unknown and missing styles under Other', () => {
+    expect(normalizeStyle('Gruit')).toEqual({ family: 'Other', style: 'Other' });
+    expect(normalizeStyle('')).toEqual({ family: 'Other', style: 'Other' });
+    expect(normalizeStyle(undefined)).toEqual({ family: 'Other', style: 'Other' });
+  });
+});
+
+describe('getStyleFamily', () => {
+  it('returns the family alone', () => {
+    expect(getStyleFamily('Hazy Double IPA')).toBe('IPA');
+  });
+});
+
+describe('isStyleFamily', () => {
+  it('accepts every listed family and nothing else', () => {
+    STYLE_FAMILIES.forEach(family => expect(isStyleFamily(family)).toBe(true));
+    expect(isStyleFamily('Double IPA')).toBe(false);
+    expect(isStyleFamily(null)).toBe(false);
+  });
+});
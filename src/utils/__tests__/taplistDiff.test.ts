@@ -0,0 +1,161 @@
+import {
+  computeTaplistDiff,
+  getNewArrivals,
+  isEmptyTaplistDiff,
+  summarizeTaplistDiffs,
+  TaplistDiffBeer,
+  TaplistDiffRecord,
+} from '../taplistDiff';
+import type { Beer } from '@/src/types/beer';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const makeBeer = (id: string, overrides: Partial<Beer> = {}): Beer => ({
+  id,
+  brew_name: `Beer ${id}`,
+  brewer: 'Test Brewery',
+  ...overrides,
+});
+
+const diffBeer = (id: string): TaplistDiffBeer => ({
+  id,
+  brew_name: `Beer ${id}`,
+  brewer: 'Test Brewery',
+  abv: null,
+});
+
+const makeRecord = (
+  id: number,
+  recordedAt: number,
+  { added = [], removed = [] }: { added?: string[]; removed?: string[] } = {}
+): TaplistDiffRecord => ({
+  id,
+  recorded_at: recordedAt,
+  added: added.map(diffBeer),
+  removed: removed.map(diffBeer),
+  changed: [],
+});
+
+describe('computeTaplistDiff', () => {
+  it('lists the beers that arrived and the beers that left', () => {
+    const diff = computeTaplistDiff([makeBeer('1'), makeBeer('2')], [makeBeer('2'), makeBeer('3')]);
+
+    expect(diff.added.map(beer => beer.id)).toEqual(['3']);
+    expect(diff.removed.map(beer => beer.id)).toEqual(['1']);
+    expect(diff.changed).toEqual([]);
+  });
+
+  it('records an ABV change with the previous ABV', () => {
+    const diff = computeTaplistDiff([makeBeer('1', { abv: 6.5 })], [makeBeer('1', { abv: 7 })]);
+
+    expect(diff.changed).toEqual([
+      {
+        beer: { id: '1', brew_name: 'Beer 1', brewer: 'Test Brewery', abv: 7 },
+        fields: ['abv'],
+        previousAbv: 6.5,
+      },
+    ]);
+  });
+
+  it('ignores an ABV missing on either side', () => {
+    // The direct fetch stores no ABVs until enrichment catches up
+    const diff = computeTaplistDiff(
+      [makeBeer('1', { abv: 6.5 }), makeBeer('2', { abv: null })],
+      [makeBeer('1', { abv: null }), makeBeer('2', { abv: 5 })]
+    );
+
+    expect(isEmptyTaplistDiff(diff)).toBe(true);
+  });
+
+  it('ignores descriptions that differ only in markup and whitespace', () => {
+    const diff = computeTaplistDiff(
+      [makeBeer('1', { brew_description: '<p>Hazy and  bright</p>' })],
+      [makeBeer('1', { brew_description: 'Hazy&nbsp;and bright\n' })]
+    );
+
+    expect(isEmptyTaplistDiff(diff)).toBe(true);
+  });
+
+  it('records a rewritten description', () => {
+    const diff = computeTaplistDiff(
+      [makeBeer('1', { brew_description: 'Hazy' })],
+      [makeBeer('1', { brew_description: 'Crisp' })]
+    );
+
+    expect(diff.changed[0].fields).toEqual(['description']);
+    expect(diff.changed[0].previousAbv).toBeNull();
+  });
+});
+
+describe('summarizeTaplistDiffs', () => {
+  it('leaves out diffs recorded at or before the last visit', () => {
+    const summary = summarizeTaplistDiffs(
+      [makeRecord(1, 100, { added: ['1'] }), makeRecord(2, 200, { added: ['2'] })],
+      100
+    );
+
+    expect(summary.added.map(beer => beer.id)).toEqual(['2']);
+  });
+
+  it('drops a beer that arrived and left since the last visit', () => {
+    const summary = summarizeTaplistDiffs(
+      [makeRecord(2, 300, { removed: ['1'] }), makeRecord(1, 200, { added: ['1'] })],
+      100
+    );
+
+    expect(isEmptyTaplistDiff(summary)).toBe(true);
+  });
+
+  it('drops a beer that left and came back since the last visit', () => {
+    const summary = summarizeTaplistDiffs(
+      [makeRecord(1, 200, { removed: ['1'] }), makeRecord(2, 300, { added: ['1'] })],
+      100
+    );
+
+    expect(isEmptyTaplistDiff(summary)).toBe(true);
+  });
+
+  it('keeps the first previous ABV across two changes', () => {
+    const change = (id: number, at: number, abv: number, previousAbv: number) => ({
+      ...makeRecord(id, at),
+      changed: [{ beer: { ...diffBeer('1'), abv }, fields: ['abv' as const], previousAbv }],
+    });
+
+    const summary = summarizeTaplistDiffs([change(1, 200, 6, 5), change(2, 300, 7, 6)], 100);
+
+    expect(summary.changed).toEqual([
+      { beer: { ...diffBeer('1'), abv: 7 }, fields: ['abv'], previousAbv: 5 },
+    ]);
+  });
+});
+
+describe('getNewArrivals', () => {
+  const now = 10 * DAY_MS;
+
+  it('returns beers added within the window, by id', () => {
+    const arrivals = getNewArrivals(
+      [
+        makeRecord(1, now - 5 * DAY_MS, { added: ['old'] }),
+        makeRecord(2, now - DAY_MS, { added: ['recent'] }),
+      ],
+      3,
+      now
+    );
+
+    expect(Array.from(arrivals.keys())).toEqual(['recent']);
+    expect(arrivals.get('recent')).toBe(now - DAY_MS);
+  });
+
+  it('counts a returning beer from its latest arrival', () => {
+    const arrivals = getNewArrivals(
+      [
+        makeRecord(2, now - DAY_MS, { added: ['1'] }),
+        makeRecord(1, now - 2 * DAY_MS, { added: ['1'] }),
+      ],
+      3,
+      now
+    );
+
+    expect(arrivals.get('1')).toBe(now - DAY_MS);
+  });
+});
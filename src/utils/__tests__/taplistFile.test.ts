@@ -0,0 +1,118 @@
+/**
+ * Tests for reading static taplist files
+ */
+
+import { parseCsvRows, parseTaplistFile } from '../taplistFile';
+
+describe('parseCsvRows', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsvRows('a,b\n1,2\r\n3,4')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', '4'],
+    ]);
+  });
+
+  it('keeps commas, doubled quotes and line breaks inside quoted fields', () => {
+    expect(parseCsvRows('name,notes\n"Hop, Skip","Say ""hi""\nthen leave"')).toEqual([
+      ['name', 'notes'],
+      ['Hop, Skip', 'Say "hi"\nthen leave'],
+    ]);
+  });
+
+  it('skips blank lines and keeps empty fields', () => {
+    expect(parseCsvRows('a,b\n\n1,\n')).toEqual([
+      ['a', 'b'],
+      ['1', ''],
+    ]);
+  });
+});
+
+describe('parseTaplistFile', () => {
+  it('reads a JSON array of beers', () => {
+    const outcome = parseTaplistFile(
+      JSON.stringify([
+        { id: 101, brew_name: ' Test IPA ', brewer: 'Brewery', abv: '6.5' },
+        { id: '102', brew_name: 'Stout', brew_container: 'draught' },
+      ])
+    );
+
+    expect(outcome).toEqual({
+      kind: 'data',
+      items: [
+        { id: '101', brew_name: 'Test IPA', brewer: 'Brewery', abv: 6.5 },
+        { id: '102', brew_name: 'Stout', brew_container: 'draught' },
+      ],
+    });
+  });
+
+  it('reads a saved Flying Saucer response', () => {
+    const outcome = parseTaplistFile(
+      JSON.stringify([{ meta: true }, { brewInStock: [{ id: '1', brew_name: 'Lager' }] }])
+    );
+
+    expect(outcome).toEqual({ kind: 'data', items: [{ id: '1', brew_name: 'Lager' }] });
+  });
+
+  it('reads an object with a beers list', () => {
+    expect(parseTaplistFile('{"beers":[{"id":"1","brew_name":"Lager"}]}')).toEqual({
+      kind: 'data',
+      items: [{ id: '1', brew_name: 'Lager' }],
+    });
+  });
+
+  it('ignores enrichment fields in the file', () => {
+    const outcome = parseTaplistFile(
+      JSON.stringify([
+        {
+          id: '1',
+          brew_name: 'Lager',
+          enrichment_confidence: 0.9,
+          enrichment_source: 'perplexity',
+        },
+      ])
+    );
+
+    expect(outcome).toEqual({ kind: 'data', items: [{ id: '1', brew_name: 'Lager' }] });
+  });
+
+  it('reads a CSV with a header row, ignoring unknown columns', () => {
+    const outcome = parseTaplistFile(
+      '\uFEFFID,Brew_Name,brewer,abv,tap_number\n1,Lager,"Brewery, Inc",4.8,7\n2,Stout,,,8'
+    );
+
+    expect(outcome).toEqual({
+      kind: 'data',
+      items: [
+        { id: '1', brew_name: 'Lager', brewer: 'Brewery, Inc', abv: 4.8 },
+        { id: '2', brew_name: 'Stout' },
+      ],
+    });
+  });
+
+  it('drops entries without an id or a name', () => {
+    const outcome = parseTaplistFile(
+      JSON.stringify([{ id: '1' }, { brew_name: 'Nameless' }, { id: '2', brew_name: 'Kept' }])
+    );
+
+    expect(outcome).toEqual({ kind: 'data', items: [{ id: '2', brew_name: 'Kept' }] });
+  });
+
+  it('treats a list with no rows as confirmed-empty', () => {
+    expect(parseTaplistFile('[]')).toEqual({ kind: 'confirmed-empty' });
+    expect(parseTaplistFile('id,brew_name\n')).toEqual({ kind: 'confirmed-empty' });
+  });
+
+  it.each([
+    ['an empty file', '  '],
+    ['invalid JSON', '[{"id": '],
+    ['JSON without a list of beers', '{"name":"not a taplist"}'],
+    ['a CSV without the required columns', 'name,brewer\nLager,Brewery'],
+    ['entries that are none of them beers', '[{"id":"1"},{"name":"x"}]'],
+  ])('is malformed for %s', (_case, contents) => {
+    expect(parseTaplistFile(contents)).toEqual({
+      kind: 'malformed',
+      detail: expect.any(String),
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests for packing taplists into snapshots
+ */
+
+import { packTaplist, unpackTaplist } from '../taplistSnapshot';
+import { Beer } from '@/src/types/beer';
+
+describe('taplist snapshots', () => {
+  const beers: Beer[] = [
+    {
+      id: '101',
+      brew_name: 'Test IPA',
+      brewer: 'Brewery',
+      brew_style: 'IPA',
+      brew_container: 'Draught',
+      abv: 6.5,
+      enrichment_confidence: 0.9,
+      enrichment_source: 'perplexity',
+    },
+    {
+      id: '102',
+      brew_name: 'Stout',
+      abv: null,
+      enrichment_confidence: null,
+      enrichment_source: null,
+    },
+  ];
+
+  it('round-trips a taplist', () => {
+    expect(unpackTaplist(packTaplist(beers))).toEqual(beers);
+  });
+
+  it('writes each field name once', () => {
+    const packed = packTaplist(beers);
+
+    expect(packed.match(/brew_name/g)).toHaveLength(1);
+    expect(packed.length).toBeLessThan(JSON.stringify(beers).length * 2);
+  });
+
+  it('reads the field names stored with the snapshot, ignoring unknown ones', () => {
+    const packed = JSON.stringify({
+      fields: ['brew_name', 'id', 'tap_number'],
+      rows: [['Lager', '1', 7]],
+    });
+
+    expect(unpackTaplist(packed)).toEqual([{ id: '1', brew_name: 'Lager' }]);
+  });
+
+  it('leaves out beers that cannot be read', () => {
+    const packed = JSON.stringify({
+      fields: ['id', 'brew_name', 'abv'],
+      rows: [
+        ['1', 'Lager', 4.8],
+        [null, 'Nameless', null],
+        ['3', 'Bad ABV', 'strong'],
+      ],
+    });
+
+    expect(unpackTaplist(packed)).toEqual([{ id: '1', brew_name: 'Lager', abv: 4.8 }]);
+  });
+
+  it.each([
+    ['invalid JSON', '{"fields": '],
+    ['JSON that is not a packed taplist', '[{"id":"1","brew_name":"Lager"}]'],
+  ])('is null for %s', (_case, packed) => {
+    expect(unpackTaplist(packed)).toBeNull();
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Background refresh - when the scheduled task refreshes, and within what budget
+ *
+ * The OS wakes the app for a background refresh on its own schedule and allows
+ * it a short, hard window. These decide whether a wake-up should refresh at
+ * all, whether the rewards are worth fetching, and how long the refresh may
+ * run before the task gives up waiting, and read back the record a run leaves
+ * so the next foreground launch can skip a fetch it has just done.
+ *
+ * Pure apart from the timer in `runWithinBudget`, so the whole policy runs
+ * under Jest's fake timers; `backgroundRefreshService` supplies the clock and
+ * the stored record.
+ */
+
+import { z } from 'zod';
+import { REFRESH_SOURCES, RefreshSource } from './refreshPolicy';
+
+/** Least time between two background refreshes; earlier wake-ups are ignored */
+export const BACKGROUND_REFRESH_INTERVAL_MS = 4 * 60 * 60 * 1000;
+
+/**
+ * How long a background refresh may run. iOS can end a background task at any
+ * moment, and Android's WorkManager jobs are held to the same limit here so
+ * both platforms behave alike.
+ */
+export const BACKGROUND_REFRESH_BUDGET_MS = 25 * 1000;
+
+/** How recent a background refresh lets the next launch skip its own fetch */
+export const FOREGROUND_SKIP_WINDOW_MS = 30 * 60 * 1000;
+
+/**
+ * How a background refresh ended: every source written (or unchanged), some
+ * failed, all failed, or the budget ran out before it finished.
+ */
+export const BACKGROUND_REFRESH_OUTCOMES = ['refreshed', 'partial', 'failed', 'timed-out'] as const;
+
+export type BackgroundRefreshOutcome = (typeof BACKGROUND_REFRESH_OUTCOMES)[number];
+
+const backgroundRefreshRecordSchema = z.object({
+  /** When the run started, in epoch ms */
+  startedAt: z.number(),
+  /** When the task stopped waiting for it, in epoch ms */
+  finishedAt: z.number(),
+  outcome: z.enum(BACKGROUND_REFRESH_OUTCOMES),
+  includedRewards: z.boolean(),
+  /** Sources the refresh policy left for Wi-Fi; none in records older than the policy */
+  leftForWifi: z.array(z.enum(REFRESH_SOURCES)).default([]),
+});
+
+/** What a background refresh leaves behind for the next decision */
+export type BackgroundRefreshRecord = z.infer<typeof backgroundRefreshRecordSchema>;
+
+/**
+ * What the task knows when it is woken
+ */
+export type BackgroundRefreshConditions = {
+  now: number;
+  /** The last run's record, or null if there is none */
+  lastRun: BackgroundRefreshRecord | null;
+  /** The app is on screen, where the foreground refreshes own the data */
+  appActive: boolean;
+  /** A taplist URL is set; without one there is nothing to refresh */
+  configured: boolean;
+  /** The caller knows the OS is limiting background work, e.g. in battery saver */
+  throttled: boolean;
+};
+
+export type BackgroundRefreshDecision =
+  | { readonly run: false; readonly reason: 'app-active' | 'not-configured' | 'too-soon' }
+  | {
+      readonly run: true;
+      /**
+       * Rewards change least and matter only once the member opens the app, so
+       * they are the source dropped when the budget is tight.
+       */
+      readonly includeRewards: boolean;
+      /** Wall-clock limit, in ms */
+      readonly budgetMs: number;
+    };
+
+/**
+ * Decide what a background wake-up should do.
+ *
+ * A run that timed out last time counts as throttled: the device or the network
+ * could not fit a full refresh in the budget, so the next one carries less.
+ */
+export function decideBackgroundRefresh(
+  conditions: BackgroundRefreshConditions
+): BackgroundRefreshDecision {
+  if (conditions.appActive) {
+    return { run: false, reason: 'app-active' };
+  }
+  if (!conditions.configured) {
+    return { run: false, reason: 'not-configured' };
+  }
+
+  const { lastRun } = conditions;
+  if (lastRun && conditions.now - lastRun.startedAt < BACKGROUND_REFRESH_INTERVAL_MS) {
+    return { run: false, reason: 'too-soon' };
+  }
+
+  const throttled = conditions.throttled || lastRun?.outcome === 'timed-out';
+  return { run: true, includeRewards: !throttled, budgetMs: BACKGROUND_REFRESH_BUDGET_MS };
+}
+
+/**
+ * The sources a launch can skip because a background refresh just fetched
+ * them. Only a complete refresh counts: after a partial one the launch fetches
+ * everything again. Rewards count only if the run included them, and a source
+ * left for Wi-Fi not at all.
+ */
+export function sourcesFreshFromBackground(
+  lastRun: BackgroundRefreshRecord | null,
+  now: number,
+  windowMs: number = FOREGROUND_SKIP_WINDOW_MS
+): ReadonlySet<RefreshSource> {
+  if (lastRun === null || lastRun.outcome !== 'refreshed' || now - lastRun.finishedAt >= windowMs) {
+    return new Set();
+  }
+  return new Set<RefreshSource>(
+    REFRESH_SOURCES.filter(
+      source =>
+        (source !== 'rewards' || lastRun.includedRewards) && !lastRun.leftForWifi.includes(source)
+    )
+  );
+}
+
+/**
+ * Read a stored record. Anything unreadable reads as null, as if no run had
+ * been recorded.
+ */
+export function parseBackgroundRefreshRecord(
+  value: string | null | undefined
+): BackgroundRefreshRecord | null {
+  if (!value) return null;
+  try {
+    const result = backgroundRefreshRecordSchema.safeParse(JSON.parse(value));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Wait for `task` for at most `budgetMs`.
+ *
+ * The task is not cancelled when the budget runs out — a refresh holding the
+ * write lock must finish its writes — only no longer waited for.
+ */
+export async function runWithinBudget<T>(
+  task: Promise<T>,
+  budgetMs: number
+): Promise<{ kind: 'finished'; value: T } | { kind: 'timed-out' }> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<{ kind: 'timed-out' }>(resolve => {
+    timer = setTimeout(() => resolve({ kind: 'timed-out' }), budgetMs);
+  });
+
+  try {
+    return await Promise.race([
+      task.then(value => ({ kind: 'finished' as const, value })),
+      timeout,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
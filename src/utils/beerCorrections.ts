@@ -0,0 +1,122 @@
+/**
+ * Beer corrections - the user's own ABV, style and description for a beer
+ *
+ * The Flying Saucer taplist and the enrichment Worker both get beers wrong
+ * now and then. A correction is stored in `beer_corrections` and laid over the
+ * fetched row whenever a beer table is written, marked with the `manual`
+ * enrichment source so a later enrichment result does not replace it. It is
+ * also queued for the Worker (`CORRECT_BEER_DETAILS`), so other users of the
+ * Worker get the fix too.
+ */
+
+import { BeerCorrection, BeerWithContainerType } from '@/src/types/beer';
+import { extractABV, getContainerType } from './beerGlassType';
+import { getStyleFamily } from './styleTaxonomy';
+
+/** Confidence stored with a corrected row: the user has checked it */
+export const MANUAL_ENRICHMENT_CONFIDENCE = 1;
+
+/** Highest ABV a correction may carry */
+export const MAX_CORRECTED_ABV = 100;
+
+/** What a caller supplies when saving a correction. `updated_at` is stamped on save. */
+export type BeerCorrectionInput = Omit<BeerCorrection, 'updated_at'>;
+
+/**
+ * Trim the text fields, turning blanks into "not corrected".
+ *
+ * @param input - The correction as entered
+ * @returns The correction as stored
+ */
+export function normalizeBeerCorrection(input: BeerCorrectionInput): BeerCorrectionInput {
+  const text = (value: string | null): string | null => {
+    const trimmed = value?.trim() ?? '';
+    return trimmed === '' ? null : trimmed;
+  };
+
+  return {
+    beer_id: input.beer_id,
+    abv: input.abv,
+    brew_style: text(input.brew_style),
+    brew_description: text(input.brew_description),
+  };
+}
+
+/**
+ * Why a correction cannot be saved, if it cannot.
+ *
+ * @param input - A normalized correction
+ * @returns A message for the user, or null if the correction is valid
+ */
+export function validateBeerCorrection(input: BeerCorrectionInput): string | null {
+  if (!input.beer_id) {
+    return 'The beer has no id.';
+  }
+  if (
+    input.abv !== null &&
+    (!Number.isFinite(input.abv) || input.abv < 0 || input.abv > MAX_CORRECTED_ABV)
+  ) {
+    return `ABV must be a number from 0 to ${MAX_CORRECTED_ABV}.`;
+  }
+  if (input.abv === null && input.brew_style === null && input.brew_description === null) {
+    return 'Enter an ABV, a style or a description.';
+  }
+  return null;
+}
+
+/**
+ * Lay a correction over a beer row.
+ *
+ * The container type and style family are worked out again, since both
+ * depend on the fields a correction changes.
+ *
+ * @param beer - The row as fetched
+ * @param correction - The user's correction for it
+ * @returns A new row; the original is unchanged
+ */
+export function applyBeerCorrection<T extends BeerWithContainerType>(
+  beer: T,
+  correction: BeerCorrection
+): T {
+  const abv = correction.abv ?? beer.abv ?? null;
+  const brewStyle = correction.brew_style ?? beer.brew_style;
+  const brewDescription = correction.brew_description ?? beer.brew_description;
+
+  return {
+    ...beer,
+    abv,
+    brew_style: brewStyle,
+    brew_description: brewDescription,
+    container_type: getContainerType(
+      beer.brew_container,
+      brewDescription,
+      brewStyle,
+      beer.brew_name,
+      abv ?? extractABV(brewDescription)
+    ),
+    style_family: getStyleFamily(brewStyle),
+    enrichment_source: 'manual',
+    enrichment_confidence: MANUAL_ENRICHMENT_CONFIDENCE,
+  };
+}
+
+/**
+ * Lay each beer's correction, if it has one, over it.
+ *
+ * @param beers - The rows as fetched
+ * @param corrections - Corrections by beer id
+ * @returns The rows, corrected; the same array if there is nothing to correct
+ */
+export function applyBeerCorrections<T extends BeerWithContainerType>(
+  beers: T[],
+  corrections: ReadonlyMap<string, BeerCorrection>
+): T[] {
+  if (corrections.size === 0) {
+    return beers;
+  }
+
+  return beers.map(beer => {
+    const correction = corrections.get(beer.id);
+    return correction ? applyBeerCorrection(beer, correction) : beer;
+  });
+}
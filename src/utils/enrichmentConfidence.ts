@@ -0,0 +1,73 @@
+/**
+ * How much to trust a beer's ABV, from where it came and the confidence the
+ * enrichment Worker gave it.
+ *
+ * An ABV parsed from the description and one Perplexity guessed at 0.4 look the
+ * same in a row. These helpers tell the card how to show it (a "~" and a dimmed
+ * badge below the threshold) and pick out the beers worth a reviewer's look.
+ */
+
+import type { BeerWithContainerType, EnrichmentSource } from '@/src/types/beer';
+
+/** Below this confidence an ABV is shown as approximate and listed for review */
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+/** The fields that decide how an ABV is shown */
+type AbvFields = Pick<BeerWithContainerType, 'abv' | 'enrichment_confidence' | 'enrichment_source'>;
+
+const SOURCE_LABELS: Record<NonNullable<EnrichmentSource>, string> = {
+  description: 'Read from the description',
+  perplexity: 'Looked up by Perplexity',
+  manual: 'Corrected by you',
+};
+
+/**
+ * Whether the beer has an ABV the Worker was not sure of.
+ *
+ * A corrected (`manual`) ABV never is, and neither is one with no confidence
+ * recorded: there is nothing to say it is doubtful.
+ */
+export function isLowConfidenceAbv(beer: AbvFields): boolean {
+  return (
+    beer.abv != null &&
+    beer.enrichment_source !== 'manual' &&
+    beer.enrichment_confidence != null &&
+    beer.enrichment_confidence < LOW_CONFIDENCE_THRESHOLD
+  );
+}
+
+/**
+ * The ABV as the badge shows it: "~" in front when it is low confidence.
+ *
+ * @returns The label, or null when the beer has no ABV
+ */
+export function formatAbv(beer: AbvFields): string | null {
+  if (beer.abv == null) return null;
+  return `${isLowConfidenceAbv(beer) ? '~' : ''}${beer.abv}%`;
+}
+
+/**
+ * Where the ABV came from, and how sure the Worker was, for the badge's tooltip.
+ *
+ * @example describeAbvSource({ abv: 6.5, enrichment_source: 'perplexity', enrichment_confidence: 0.4 })
+ * // 'Looked up by Perplexity · 40% confidence'
+ */
+export function describeAbvSource(beer: AbvFields): string {
+  const source = beer.enrichment_source ? SOURCE_LABELS[beer.enrichment_source] : 'Source unknown';
+
+  if (beer.enrichment_source === 'manual' || beer.enrichment_confidence == null) {
+    return source;
+  }
+  return `${source} · ${Math.round(beer.enrichment_confidence * 100)}% confidence`;
+}
+
+/**
+ * The beers a reviewer should check, least confident first.
+ */
+export function selectLowConfidenceBeers<T extends BeerWithContainerType>(
+  beers: readonly T[]
+): T[] {
+  return beers
+    .filter(isLowConfidenceAbv)
+    .sort((a, b) => (a.enrichment_confidence ?? 0) - (b.enrichment_confidence ?? 0));
+}
@@ -0,0 +1,146 @@
+import { z } from 'zod';
+import { isStyleFamily } from './styleTaxonomy';
+
+/**
+ * Saved filter presets for the beer lists
+ *
+ * A preset is a named snapshot of everything `useBeerFilters` holds for one
+ * list: container, personal rating, style families, sort, direction and the
+ * search text. The search text is what carries ABV bounds and field terms, so
+ * "Strong drafts" is `{ containerFilter: 'draft', searchText: 'abv:>8',
+ * sortBy: 'abv', sortDirection: 'desc' }`.
+ *
+ * States are parsed leniently: a field that is missing or holds a value this
+ * build does not know falls back to its default instead of dropping the whole
+ * preset. A preset shared from a newer build still applies everything it can.
+ */
+
+/** The lists that keep their own presets and last-used filters. */
+export const FILTER_PRESET_LISTS = ['allbeers', 'beerfinder', 'tasted'] as const;
+
+export type FilterPresetList = (typeof FILTER_PRESET_LISTS)[number];
+
+export function isFilterPresetList(value: unknown): value is FilterPresetList {
+  return typeof value === 'string' && (FILTER_PRESET_LISTS as readonly string[]).includes(value);
+}
+
+export const MAX_PRESET_NAME_LENGTH = 40;
+
+const filterPresetStateSchema = z.object({
+  containerFilter: z.enum(['all', 'draft', 'cans']).catch('all'),
+  ratingFilter: z.enum(['all', 'rated', '3+', '4+', 'unrated']).catch('all'),
+  sortBy: z.enum(['relevance', 'date', 'name', 'abv', 'rating']).catch('date'),
+  sortDirection: z.enum(['asc', 'desc']).catch('desc'),
+  searchText: z.string().catch(''),
+  styleFamilies: z
+    .array(z.unknown())
+    .catch([])
+    .transform(families => Array.from(new Set(families.filter(isStyleFamily)))),
+});
+
+export type FilterPresetState = z.infer<typeof filterPresetStateSchema>;
+
+/** What every list starts from: all containers, newest first, no search. */
+export const DEFAULT_FILTER_STATE: FilterPresetState = {
+  containerFilter: 'all',
+  ratingFilter: 'all',
+  sortBy: 'date',
+  sortDirection: 'desc',
+  searchText: '',
+  styleFamilies: [],
+};
+
+export type FilterPreset = {
+  list: FilterPresetList;
+  name: string;
+  state: FilterPresetState;
+  updated_at: number;
+};
+
+/** A preset as it travels in an export string, without its list or timestamp. */
+export type SharedFilterPreset = Pick<FilterPreset, 'name' | 'state'>;
+
+/**
+ * Read a stored or shared state. Anything that is not an object reads as null;
+ * an object reads as a full state, with defaults for what it lacks.
+ */
+export function parseFilterPresetState(value: unknown): FilterPresetState | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return null;
+  return filterPresetStateSchema.parse(value);
+}
+
+/** Trim and collapse whitespace; null when nothing usable is left. */
+export function normalizePresetName(name: string): string | null {
+  const normalized = name.trim().replace(/\s+/g, ' ').slice(0, MAX_PRESET_NAME_LENGTH).trim();
+  return normalized || null;
+}
+
+/** Whether two states would filter and sort a list identically. */
+export function isSameFilterState(a: FilterPresetState, b: FilterPresetState): boolean {
+  return (
+    a.containerFilter === b.containerFilter &&
+    a.ratingFilter === b.ratingFilter &&
+    a.sortBy === b.sortBy &&
+    a.sortDirection === b.sortDirection &&
+    a.searchText.trim() === b.searchText.trim() &&
+    a.styleFamilies.length === b.styleFamilies.length &&
+    a.styleFamilies.every(family => b.styleFamilies.includes(family))
+  );
+}
+
+// The envelope names the app and the format, so pasting some other JSON gives
+// a clear error instead of importing an empty preset
+const EXPORT_KIND = 'beerselector-filter-presets';
+const EXPORT_VERSION = 1;
+
+/** One line of JSON, so it survives being pasted into a chat message. */
+export function exportFilterPresets(presets: readonly SharedFilterPreset[]): string {
+  return JSON.stringify({
+    kind: EXPORT_KIND,
+    version: EXPORT_VERSION,
+    presets: presets.map(({ name, state }) => ({ name, state })),
+  });
+}
+
+/**
+ * Read presets from an export string
+ *
+ * Presets with an unusable name or state are skipped; if the same name appears
+ * twice, the later one wins.
+ *
+ * @throws Error with a message fit to show the user if the text is not an export
+ */
+export function importFilterPresets(text: string): SharedFilterPreset[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.trim());
+  } catch {
+    throw new Error('That is not a filter preset export.');
+  }
+
+  const envelope = z
+    .object({ kind: z.literal(EXPORT_KIND), version: z.number(), presets: z.array(z.unknown()) })
+    .safeParse(parsed);
+  if (!envelope.success) {
+    throw new Error('That is not a filter preset export.');
+  }
+  if (envelope.data.version > EXPORT_VERSION) {
+    throw new Error('These presets come from a newer version of the app. Update to import them.');
+  }
+
+  const byName = new Map<string, SharedFilterPreset>();
+  for (const entry of envelope.data.presets) {
+    if (typeof entry !== 'object' || entry === null) continue;
+    const { name, state } = entry as { name?: unknown; state?: unknown };
+    const presetName = typeof name === 'string' ? normalizePresetName(name) : null;
+    const presetState = parseFilterPresetState(state);
+    if (presetName && presetState) {
+      byName.set(presetName, { name: presetName, state: presetState });
+    }
+  }
+
+  if (byName.size === 0) {
+    throw new Error('The export has no presets in it.');
+  }
+  return Array.from(byName.values());
+}
@@ -7,10 +7,15 @@
  * switch. This throttle lets at most one focus-check run per window across all
  * tabs — the underlying data window is hours wide, so a few minutes of
  * coalescing is harmless and keeps tab switching cheap.
+ *
+ * Each source keeps its own window, set by its refresh policy
+ * (`src/utils/refreshPolicy.ts`), under its own key.
  */
 const DEFAULT_THROTTLE_MS = 5 * 60 * 1000;
 
-let lastRunAt = 0;
+const DEFAULT_KEY = 'focus';
+
+const lastRunAt = new Map<string, number>();
 
 /** Pure decision: has the throttle window elapsed since the last run? */
 export function shouldRunFocusCheck(lastRunAt: number, now: number, throttleMs: number): boolean {
@@ -20,13 +25,16 @@ export function shouldRunFocusCheck(lastRunAt: number, now: number, throttleMs:
 /**
  * Stateful gate for focus effects. Returns true (and records the run) when the
  * window has elapsed; false while throttled. `now` is injectable for testing.
+ *
+ * @param key - Which check this is; each key is throttled on its own
  */
 export function shouldRunFocusRefresh(
   now: number = Date.now(),
-  throttleMs: number = DEFAULT_THROTTLE_MS
+  throttleMs: number = DEFAULT_THROTTLE_MS,
+  key: string = DEFAULT_KEY
 ): boolean {
-  if (shouldRunFocusCheck(lastRunAt, now, throttleMs)) {
-    lastRunAt = now;
+  if (shouldRunFocusCheck(lastRunAt.get(key) ?? 0, now, throttleMs)) {
+    lastRunAt.set(key, now);
     return true;
   }
   return false;
@@ -34,5 +42,5 @@ export function shouldRunFocusRefresh(
 
 /** Reset the throttle (test isolation only). */
 export function resetFocusRefreshThrottle(): void {
-  lastRunAt = 0;
+  lastRunAt.clear();
 }
@@ -0,0 +1,20 @@
+/**
+ * Whether user actions should be sent now or queued for later
+ *
+ * Every action that can wait in the operation queue uses this one rule: it is
+ * sent only when the device is known to be connected and the internet known
+ * to be reachable, which is also when `OperationQueueContext` drains the
+ * queue. While NetInfo has not yet said either way the action is queued, and
+ * runs as soon as the queue sees the connection.
+ */
+
+/** The two NetInfo flags, as `useNetwork` reports them; null is not yet known */
+export type Connectivity = {
+  isConnected: boolean | null;
+  isInternetReachable: boolean | null;
+};
+
+/** True unless the connection and the internet are both known to be up */
+export function isOffline({ isConnected, isInternetReachable }: Connectivity): boolean {
+  return !(isConnected === true && isInternetReachable === true);
+}
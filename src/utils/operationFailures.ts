@@ -0,0 +1,180 @@
+/**
+ * Operation failures - what kind of failure a queued operation ended in
+ *
+ * A failed operation used to sit in the queue modal with its last error and a
+ * Retry button, whatever had gone wrong. What the user can do depends on the
+ * kind of failure: an expired session wants a fresh login, visitor mode wants
+ * a member login, a refused request usually wants its payload corrected, and a
+ * network failure only wants trying again. The dead-letter view groups failed
+ * operations by that kind so each group can offer its own remedy.
+ *
+ * Handlers may say what kind of failure they hit; most report only a message,
+ * which is classified here from the wording the API layer uses.
+ */
+
+import {
+  OperationAttempt,
+  OperationErrorClass,
+  OperationStatus,
+  QueuedOperation,
+} from '../types/operationQueue';
+
+/** The order the dead-letter view lists its groups in */
+export const DEAD_LETTER_ORDER: readonly OperationErrorClass[] = [
+  'auth',
+  'visitor',
+  'rejected',
+  'network',
+  'expired',
+  'dependency',
+  'unknown',
+];
+
+/** Each kind of failure as the dead-letter view names it */
+export const OPERATION_ERROR_CLASS_TITLES: Record<OperationErrorClass, string> = {
+  auth: 'Login Expired',
+  visitor: 'Visitor Mode',
+  rejected: 'Rejected by Server',
+  network: 'Network',
+  expired: 'Expired',
+  dependency: 'Waited on a Failure',
+  unknown: 'Other',
+};
+
+/** What the user can do about each kind of failure */
+export const OPERATION_ERROR_CLASS_DESCRIPTIONS: Record<OperationErrorClass, string> = {
+  auth: 'Your session expired. Log in again, then resubmit.',
+  visitor: 'These need a UFO Club member login. Log in via Settings, then resubmit.',
+  rejected: 'The server refused these. Check the details, edit if needed, and resubmit.',
+  network: 'The server could not be reached. Resubmit when you have a connection.',
+  expired: 'These waited too long to be worth sending. Resubmit to send them anyway.',
+  dependency:
+    'These waited on an operation that failed. Resubmit it along with them, or delete it and resubmit these alone.',
+  unknown: 'These failed for another reason. Resubmit to try again.',
+};
+
+/** Matches the status in `ApiClient`'s "HTTP error! status: 401 Unauthorized" */
+const HTTP_STATUS = /status:?\s*(\d{3})\b/i;
+
+/**
+ * Work out the kind of failure from an error message
+ *
+ * Visitor mode is checked first: its messages also ask the user to log in.
+ *
+ * @param message - The error the operation failed with
+ * @returns The kind of failure; `unknown` when the message says nothing useful
+ */
+export function classifyOperationError(message: string | undefined): OperationErrorClass {
+  if (!message) {
+    return 'unknown';
+  }
+
+  const text = message.toLowerCase();
+  const statusMatch = HTTP_STATUS.exec(text);
+  const status = statusMatch ? Number(statusMatch[1]) : undefined;
+
+  if (text.includes('member login') || text.includes('visitor')) {
+    return 'visitor';
+  }
+
+  if (
+    status === 401 ||
+    status === 403 ||
+    text.includes('log in again') ||
+    text.includes('session') ||
+    text.includes('unauthorized')
+  ) {
+    return 'auth';
+  }
+
+  if (
+    status === 0 ||
+    status === 408 ||
+    status === 429 ||
+    (status !== undefined && status >= 500) ||
+    text.includes('network') ||
+    text.includes('timed out') ||
+    text.includes('timeout') ||
+    text.includes('offline')
+  ) {
+    return 'network';
+  }
+
+  if (
+    (status !== undefined && status >= 400) ||
+    text.includes('rejected') ||
+    text.includes('refused') ||
+    text.includes('invalid')
+  ) {
+    return 'rejected';
+  }
+
+  return 'unknown';
+}
+
+/**
+ * The kind of failure an operation ended in
+ *
+ * Its last attempt's class when one was recorded, else what its error message
+ * says. Operations that failed before attempts were recorded have only the
+ * message.
+ *
+ * @param operation - A failed operation
+ * @param attempts - Its attempts, oldest first
+ */
+export function failureClassOf(
+  operation: QueuedOperation,
+  attempts: readonly OperationAttempt[]
+): OperationErrorClass {
+  for (let index = attempts.length - 1; index >= 0; index -= 1) {
+    const { errorClass } = attempts[index];
+    if (errorClass) {
+      return errorClass;
+    }
+  }
+
+  return classifyOperationError(operation.errorMessage);
+}
+
+/** Failed operations that share a kind of failure */
+export interface DeadLetterGroup {
+  errorClass: OperationErrorClass;
+  operations: QueuedOperation[];
+}
+
+/**
+ * Group the failed operations by the kind of failure they ended in
+ *
+ * @param operations - Operations of any status; only FAILED ones are grouped
+ * @param attempts - Attempts at any of them, oldest first
+ * @returns The non-empty groups, in `DEAD_LETTER_ORDER`, each keeping the
+ *   order the operations were given in
+ */
+export function groupDeadLetters(
+  operations: readonly QueuedOperation[],
+  attempts: readonly OperationAttempt[]
+): DeadLetterGroup[] {
+  const attemptsByOperation = new Map<string, OperationAttempt[]>();
+  for (const attempt of attempts) {
+    const list = attemptsByOperation.get(attempt.operationId) ?? [];
+    list.push(attempt);
+    attemptsByOperation.set(attempt.operationId, list);
+  }
+
+  const byClass = new Map<OperationErrorClass, QueuedOperation[]>();
+  for (const operation of operations) {
+    if (operation.status !== OperationStatus.FAILED) {
+      continue;
+    }
+
+    const errorClass = failureClassOf(operation, attemptsByOperation.get(operation.id) ?? []);
+    const list = byClass.get(errorClass) ?? [];
+    list.push(operation);
+    byClass.set(errorClass, list);
+  }
+
+  return DEAD_LETTER_ORDER.flatMap(errorClass => {
+    const grouped = byClass.get(errorClass);
+    return grouped ? [{ errorClass, operations: grouped }] : [];
+  });
+}
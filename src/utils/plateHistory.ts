@@ -0,0 +1,85 @@
+import type { TastingHistoryEntry } from '@/src/types/beer';
+
+export type StyleCount = {
+  style: string;
+  count: number;
+};
+
+/** One finished UFO Club plate, as shown on the Past Plates screen. */
+export type PlateSummary = {
+  rohLap: string;
+  beerCount: number;
+  /** Earliest and latest tasted dates on the plate, as stored (MM/DD/YYYY). */
+  firstTastedDate: string | null;
+  lastTastedDate: string | null;
+  /** Most-tasted style first. */
+  styles: StyleCount[];
+};
+
+const UNKNOWN_STYLE = 'Unknown';
+
+/** Parse a Flying Saucer MM/DD/YYYY date to a sortable timestamp, or null. */
+function parseTastedDate(value: string): number | null {
+  const parts = value.split('/');
+  if (parts.length !== 3) return null;
+  const [month, day, year] = parts.map(part => parseInt(part, 10));
+  if (!month || !day || !year) return null;
+  return new Date(year, month - 1, day).getTime();
+}
+
+function summarizePlate(rohLap: string, entries: readonly TastingHistoryEntry[]): PlateSummary {
+  let first: { date: string; time: number } | null = null;
+  let last: { date: string; time: number } | null = null;
+  const styleCounts = new Map<string, number>();
+
+  for (const entry of entries) {
+    const time = parseTastedDate(entry.tasted_date);
+    if (time !== null) {
+      if (!first || time < first.time) first = { date: entry.tasted_date, time };
+      if (!last || time > last.time) last = { date: entry.tasted_date, time };
+    }
+
+    const style = entry.brew_style.trim() || UNKNOWN_STYLE;
+    styleCounts.set(style, (styleCounts.get(style) ?? 0) + 1);
+  }
+
+  const styles = Array.from(styleCounts, ([style, count]) => ({ style, count })).sort(
+    (a, b) => b.count - a.count || a.style.localeCompare(b.style)
+  );
+
+  return {
+    rohLap,
+    beerCount: entries.length,
+    firstTastedDate: first?.date ?? null,
+    lastTastedDate: last?.date ?? null,
+    styles,
+  };
+}
+
+/**
+ * Group the tasting history into one summary per completed plate, newest first.
+ *
+ * The plate still being filled is whatever `roh_lap` the current round carries,
+ * so the caller passes it in rather than this guessing "the highest one": right
+ * after a rollover the current round is empty and every plate in the history is
+ * complete.
+ */
+export function summarizeCompletedPlates(
+  entries: readonly TastingHistoryEntry[],
+  currentRohLap: string | null
+): PlateSummary[] {
+  const byPlate = new Map<string, TastingHistoryEntry[]>();
+  for (const entry of entries) {
+    if (entry.roh_lap === currentRohLap) continue;
+    const plate = byPlate.get(entry.roh_lap);
+    if (plate) {
+      plate.push(entry);
+    } else {
+      byPlate.set(entry.roh_lap, [entry]);
+    }
+  }
+
+  return Array.from(byPlate, ([rohLap, plateEntries]) => summarizePlate(rohLap, plateEntries)).sort(
+    (a, b) => (parseInt(b.rohLap, 10) || 0) - (parseInt(a.rohLap, 10) || 0)
+  );
+}
@@ -0,0 +1,240 @@
+/**
+ * Refresh log - what each refresh run did, source by source
+ *
+ * Every refresh run (manual, launch, focus, login, background, queued) is
+ * summarised here into one entry for the `refresh_log` table, from the
+ * `DataUpdateResult` each source produced. The entries are what Settings >
+ * Sync History lists, so "my list is stale" can be answered from the device:
+ * which runs happened, which sources they fetched, and how each ended.
+ */
+
+import { z } from 'zod';
+import type {
+  DataUpdateResult,
+  ManualRefreshResult,
+  NotModifiedVerdict,
+} from '../services/dataUpdateService';
+import { REFRESH_SOURCES, RefreshSource } from './refreshPolicy';
+
+/** Entries kept; older ones are pruned as new ones land */
+export const MAX_REFRESH_LOG_ENTRIES = 200;
+
+/** What started a run */
+export const REFRESH_TRIGGERS = [
+  'manual',
+  'launch',
+  'focus',
+  'login',
+  'background',
+  'queue',
+] as const;
+
+export type RefreshTrigger = (typeof REFRESH_TRIGGERS)[number];
+
+/** Each trigger as Sync History names it */
+export const REFRESH_TRIGGER_TITLES: Record<RefreshTrigger, string> = {
+  manual: 'Manual refresh',
+  launch: 'App launch',
+  focus: 'Tab opened',
+  login: 'Login',
+  background: 'Background',
+  queue: 'Queued refresh',
+};
+
+/**
+ * How one source ended: new rows stored, a trusted 304, an answer with nothing
+ * to store, not fetched at all, or a failure
+ */
+export const REFRESH_SOURCE_STATUSES = [
+  'updated',
+  'not-modified',
+  'unchanged',
+  'skipped',
+  'failed',
+] as const;
+
+export type RefreshSourceStatus = (typeof REFRESH_SOURCE_STATUSES)[number];
+
+/** Why a source in a run was not fetched */
+export const REFRESH_SKIP_REASONS = ['waiting-for-wifi', 'fresh', 'visitor-mode'] as const;
+
+export type RefreshSkipReason = (typeof REFRESH_SKIP_REASONS)[number];
+
+/** One source's part in a run */
+export type RefreshLogSource = {
+  source: RefreshSource;
+  status: RefreshSourceStatus;
+  /** Rows stored, when the source stored any */
+  rowCount: number | null;
+  /** The 304 verdict, when the server answered 304 */
+  notModified: NotModifiedVerdict | null;
+  skipReason: RefreshSkipReason | null;
+  /** An `ApiErrorType`, kept as a string so an old entry stays readable */
+  errorType: string | null;
+  statusCode: number | null;
+  message: string | null;
+};
+
+/** A run, as stored */
+export type RefreshLogEntry = {
+  id: number;
+  trigger: RefreshTrigger;
+  /** Epoch ms */
+  started_at: number;
+  duration_ms: number;
+  sources: RefreshLogSource[];
+};
+
+/** A run, before it is stored */
+export type NewRefreshLogEntry = Omit<RefreshLogEntry, 'id'>;
+
+/** How a run went overall, for the list */
+export type RefreshRunOutcome = 'succeeded' | 'partial' | 'failed' | 'skipped';
+
+/**
+ * The entry for a source that produced a result
+ */
+export function sourceFromResult(
+  source: RefreshSource,
+  result: DataUpdateResult
+): RefreshLogSource {
+  const status: RefreshSourceStatus = !result.success
+    ? 'failed'
+    : result.dataUpdated
+      ? 'updated'
+      : result.notModified === 'trusted'
+        ? 'not-modified'
+        : 'unchanged';
+
+  return {
+    source,
+    status,
+    rowCount: result.itemCount ?? null,
+    notModified: result.notModified ?? null,
+    skipReason: null,
+    errorType: result.success ? null : (result.error?.type ?? null),
+    statusCode: result.success ? null : (result.error?.statusCode ?? null),
+    message: result.success ? null : (result.error?.message ?? null),
+  };
+}
+
+/**
+ * The entry for a source the run chose not to fetch
+ */
+export function skippedSource(source: RefreshSource, reason: RefreshSkipReason): RefreshLogSource {
+  return {
+    source,
+    status: 'skipped',
+    rowCount: null,
+    notModified: null,
+    skipReason: reason,
+    errorType: null,
+    statusCode: null,
+    message: null,
+  };
+}
+
+/**
+ * The entries for a refresh of all three sources. Rewards left out of the run
+ * are left out here too, rather than reported as unchanged.
+ */
+export function sourcesFromRefreshResult(
+  result: Pick<ManualRefreshResult, 'allBeersResult' | 'myBeersResult' | 'rewardsResult'>,
+  includeRewards = true
+): RefreshLogSource[] {
+  const sources = [
+    sourceFromResult('allBeers', result.allBeersResult),
+    sourceFromResult('myBeers', result.myBeersResult),
+  ];
+  return includeRewards ? [...sources, sourceFromResult('rewards', result.rewardsResult)] : sources;
+}
+
+/**
+ * A run's overall outcome: failed if every fetched source failed, partial if
+ * some did, skipped if nothing was fetched
+ */
+export function refreshRunOutcome(sources: readonly RefreshLogSource[]): RefreshRunOutcome {
+  const fetched = sources.filter(source => source.status !== 'skipped');
+  if (fetched.length === 0) return 'skipped';
+
+  const failed = fetched.filter(source => source.status === 'failed').length;
+  if (failed === 0) return 'succeeded';
+  return failed === fetched.length ? 'failed' : 'partial';
+}
+
+const SKIP_REASON_TEXT: Record<RefreshSkipReason, string> = {
+  'waiting-for-wifi': 'waiting for Wi-Fi',
+  fresh: 'checked recently',
+  'visitor-mode': 'visitor mode',
+};
+
+const UNTRUSTED_NOT_MODIFIED_TEXT: Record<Exclude<NotModifiedVerdict, 'trusted'>, string> = {
+  empty: '304 with no beers stored',
+  unknown: '304 with the stored beers unreadable',
+};
+
+/**
+ * One line on what a source did in a run, e.g. "Updated, 112 rows" or
+ * "Failed: SERVER_ERROR 503 - Server error"
+ */
+export function describeRefreshLogSource(source: RefreshLogSource): string {
+  switch (source.status) {
+    case 'updated':
+      return source.rowCount === null
+        ? 'Updated'
+        : `Updated, ${source.rowCount} ${source.rowCount === 1 ? 'row' : 'rows'}`;
+    case 'not-modified':
+      return 'Not modified (304)';
+    case 'unchanged':
+      return 'Nothing new';
+    case 'skipped':
+      return source.skipReason ? `Skipped: ${SKIP_REASON_TEXT[source.skipReason]}` : 'Skipped';
+    case 'failed': {
+      const code = [
+        source.notModified && source.notModified !== 'trusted'
+          ? UNTRUSTED_NOT_MODIFIED_TEXT[source.notModified]
+          : source.errorType,
+        source.statusCode,
+      ]
+        .filter(part => part !== null)
+        .join(' ');
+      const detail = [code, source.message].filter(Boolean).join(' - ');
+      return detail ? `Failed: ${detail}` : 'Failed';
+    }
+  }
+}
+
+/** A run's duration, e.g. "850 ms" or "2.4 s" */
+export function formatRefreshDuration(durationMs: number): string {
+  return durationMs < 1000 ? `${durationMs} ms` : `${(durationMs / 1000).toFixed(1)} s`;
+}
+
+const refreshLogSourceSchema = z.object({
+  source: z.enum(REFRESH_SOURCES),
+  status: z.enum(REFRESH_SOURCE_STATUSES),
+  rowCount: z.number().nullable().catch(null),
+  notModified: z.enum(['trusted', 'empty', 'unknown']).nullable().catch(null),
+  skipReason: z.enum(REFRESH_SKIP_REASONS).nullable().catch(null),
+  errorType: z.string().nullable().catch(null),
+  statusCode: z.number().nullable().catch(null),
+  message: z.string().nullable().catch(null),
+});
+
+/**
+ * Read a run's stored `sources` column. Sources that cannot be read are left
+ * out; a column that cannot be read at all gives none.
+ */
+export function parseRefreshLogSources(value: string): RefreshLogSource[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  return parsed.flatMap(item => {
+    const source = refreshLogSourceSchema.safeParse(item);
+    return source.success ? [source.data] : [];
+  });
+}
@@ -0,0 +1,127 @@
+/**
+ * Refresh policy - how eagerly each data source refreshes on its own
+ *
+ * The focus check used to hold every source to one staleness window and one
+ * throttle, and a double tap of Refresh forced a full taplist download inside
+ * a fixed 30 seconds. The policy splits those per source, since the three do
+ * not cost or change alike: the taplist is the large download and changes
+ * daily, the tasted list changes when the member drinks, and the rewards
+ * hardly at all. The metered rule applies to the launch fetch as well.
+ *
+ * Stored as one JSON preference (`refreshPolicyService`). Anything missing or
+ * unreadable in it reads as the default, field by field, so a policy saved by
+ * an older build keeps what it did set.
+ */
+
+import { z } from 'zod';
+
+/** The sources a policy covers, in the order the refreshes run them */
+export const REFRESH_SOURCES = ['allBeers', 'myBeers', 'rewards'] as const;
+
+export type RefreshSource = (typeof REFRESH_SOURCES)[number];
+
+/** Each source as Settings names it */
+export const REFRESH_SOURCE_TITLES: Record<RefreshSource, string> = {
+  allBeers: 'Taplist',
+  myBeers: 'Tasted Beers',
+  rewards: 'Rewards',
+};
+
+/**
+ * What an automatic refresh does on a metered connection (cellular, or a
+ * hotspot): refresh as usual, or leave the source until the device is on
+ * Wi-Fi. A manual refresh always refreshes.
+ */
+export const METERED_BEHAVIORS = ['refresh', 'wait-for-wifi'] as const;
+
+export type MeteredBehavior = (typeof METERED_BEHAVIORS)[number];
+
+/** Max ages the settings screen offers, in hours */
+export const MAX_AGE_HOUR_OPTIONS = [1, 2, 4, 12, 24] as const;
+
+/** Focus throttles the settings screen offers, in minutes */
+export const FOCUS_THROTTLE_MINUTE_OPTIONS = [1, 5, 15, 60] as const;
+
+/** Double-refresh windows the settings screen offers, in seconds */
+export const RAPID_REFRESH_WINDOW_SECOND_OPTIONS = [10, 30, 60, 120] as const;
+
+export type SourceRefreshPolicy = {
+  /** How old a source's data may get before a focus check refreshes it */
+  maxAgeHours: number;
+  /** Least time between two focus checks of the source */
+  focusThrottleMinutes: number;
+  onMetered: MeteredBehavior;
+};
+
+export type RefreshPolicy = Record<RefreshSource, SourceRefreshPolicy> & {
+  /**
+   * A second manual refresh within this many seconds of the first also drops
+   * the taplist ETag, forcing a full download rather than a 304.
+   */
+  rapidRefreshWindowSeconds: number;
+};
+
+/**
+ * What the app did before the policy existed: the tabs checked every two
+ * hours at most every five minutes, and the rewards, which the tabs never
+ * checked, get the twelve hours `shouldRefreshData` defaults to.
+ */
+export const DEFAULT_REFRESH_POLICY: RefreshPolicy = {
+  allBeers: { maxAgeHours: 2, focusThrottleMinutes: 5, onMetered: 'refresh' },
+  myBeers: { maxAgeHours: 2, focusThrottleMinutes: 5, onMetered: 'refresh' },
+  rewards: { maxAgeHours: 12, focusThrottleMinutes: 5, onMetered: 'refresh' },
+  rapidRefreshWindowSeconds: 30,
+};
+
+const positive = (fallback: number) => z.number().positive().catch(fallback);
+
+const sourcePolicySchema = (fallback: SourceRefreshPolicy) =>
+  z
+    .object({
+      maxAgeHours: positive(fallback.maxAgeHours),
+      focusThrottleMinutes: positive(fallback.focusThrottleMinutes),
+      onMetered: z.enum(METERED_BEHAVIORS).catch(fallback.onMetered),
+    })
+    .catch(fallback);
+
+const refreshPolicySchema = z.object({
+  allBeers: sourcePolicySchema(DEFAULT_REFRESH_POLICY.allBeers),
+  myBeers: sourcePolicySchema(DEFAULT_REFRESH_POLICY.myBeers),
+  rewards: sourcePolicySchema(DEFAULT_REFRESH_POLICY.rewards),
+  rapidRefreshWindowSeconds: positive(DEFAULT_REFRESH_POLICY.rapidRefreshWindowSeconds),
+});
+
+/**
+ * Read a stored policy. Never throws: an unreadable value, or an unreadable
+ * field within one, reads as the default.
+ */
+export function parseRefreshPolicy(value: string | null | undefined): RefreshPolicy {
+  if (!value) return DEFAULT_REFRESH_POLICY;
+  try {
+    const result = refreshPolicySchema.safeParse(JSON.parse(value));
+    return result.success ? result.data : DEFAULT_REFRESH_POLICY;
+  } catch {
+    return DEFAULT_REFRESH_POLICY;
+  }
+}
+
+/** The policy with one source's settings changed */
+export function withSourcePolicy(
+  policy: RefreshPolicy,
+  source: RefreshSource,
+  changes: Partial<SourceRefreshPolicy>
+): RefreshPolicy {
+  return { ...policy, [source]: { ...policy[source], ...changes } };
+}
+
+/**
+ * Whether an automatic refresh should leave the source for Wi-Fi. An unknown
+ * connection cost (`null`, before NetInfo answers) refreshes: waiting on a
+ * reading that may never come would stop the source refreshing at all.
+ */
+export function shouldWaitForWifi(
+  policy: SourceRefreshPolicy,
+  isConnectionExpensive: boolean | null | undefined
+): boolean {
+  return policy.onMetered === 'wait-for-wifi' && isConnectionExpensive === true;
+}
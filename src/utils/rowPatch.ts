@@ -0,0 +1,43 @@
+/**
+ * Patching rows held in memory with rows re-read after a change event
+ *
+ * Only the changed rows get new objects. Every other row keeps its identity,
+ * so a memoised list item for an untouched beer does not re-render.
+ */
+
+/**
+ * Replace the rows whose ids appear in `updates`.
+ *
+ * @param rows - The rows held
+ * @param updates - The changed rows as they now stand
+ * @param appendMissing - Add updates for rows not held, at the end; for inserts
+ * @returns `rows` itself when nothing changed, otherwise a new array
+ */
+export function patchRowsById<T extends { id: string }>(
+  rows: T[],
+  updates: readonly T[],
+  appendMissing: boolean = false
+): T[] {
+  if (updates.length === 0) {
+    return rows;
+  }
+
+  const byId = new Map(updates.map(row => [row.id, row]));
+  let changed = false;
+  const patched = rows.map(row => {
+    const update = byId.get(row.id);
+    if (!update) {
+      return row;
+    }
+    byId.delete(row.id);
+    changed = true;
+    return update;
+  });
+
+  if (appendMissing && byId.size > 0) {
+    patched.push(...byId.values());
+    changed = true;
+  }
+
+  return changed ? patched : rows;
+}
@@ -0,0 +1,278 @@
+import type { Beer } from '@/src/types/beer';
+
+/**
+ * Structured search for the beer lists.
+ *
+ * Grammar, one token per whitespace-separated word:
+ *   ipa                 free text, matched across name, brewer, style and location
+ *   "hazy ipa"          quoted phrase, matched the same way
+ *   style:ipa           one field: name, brewer (brewery), style, loc (location)
+ *   brewer:"jester king"
+ *   abv:>8  abv:<=5     comparison
+ *   abv:5..7  abv:6..   inclusive range, either end optional
+ *   abv:6.5             exact ABV
+ *   -sour  -style:sour  negation of any of the above
+ *
+ * Consecutive bare words form one phrase, so a query with no syntax in it
+ * matches exactly as the search box always has. A `key:` prefix that is not a
+ * known field is treated as bare text for the same reason.
+ */
+
+export type SearchField = 'name' | 'brewer' | 'style' | 'loc';
+
+export type AbvBound = {
+  value: number;
+  inclusive: boolean;
+};
+
+export type SearchTerm =
+  | { kind: 'text'; value: string; negated: boolean }
+  | { kind: 'field'; field: SearchField; value: string; negated: boolean }
+  | { kind: 'abv'; min: AbvBound | null; max: AbvBound | null; negated: boolean };
+
+/** A token that could not be parsed, with a hint the search bar shows inline. */
+export type SearchQueryError = {
+  token: string;
+  message: string;
+};
+
+export type ParsedSearchQuery = {
+  terms: SearchTerm[];
+  errors: SearchQueryError[];
+};
+
+type SearchableBeer = Pick<Beer, 'brew_name' | 'brewer' | 'brew_style' | 'brewer_loc' | 'abv'>;
+
+const FIELD_KEYS: Readonly<Record<string, SearchField | 'abv'>> = {
+  name: 'name',
+  brewer: 'brewer',
+  brewery: 'brewer',
+  style: 'style',
+  loc: 'loc',
+  location: 'loc',
+  abv: 'abv',
+};
+
+const ABV_HINT = 'abv: takes a number, a comparison like >8, or a range like 5..7';
+
+/** Half a tenth either side, so `abv:6.5` matches a stored 6.5 despite float noise. */
+const ABV_EXACT_TOLERANCE = 0.05;
+
+/** The bounds of an ABV term; either end may be open. */
+type AbvRange = {
+  min: AbvBound | null;
+  max: AbvBound | null;
+};
+
+type RawToken = {
+  text: string;
+  /** The token contained a quoted section, so it is never merged into a bare phrase. */
+  quoted: boolean;
+  unterminated: boolean;
+};
+
+function tokenize(input: string): RawToken[] {
+  const tokens: RawToken[] = [];
+  let current = '';
+  let inQuote = false;
+  let quoted = false;
+
+  const flush = () => {
+    if (current || quoted) {
+      tokens.push({ text: current, quoted, unterminated: false });
+    }
+    current = '';
+    quoted = false;
+  };
+
+  for (const char of input) {
+    if (char === '"') {
+      inQuote = !inQuote;
+      quoted = true;
+    } else if (/\s/.test(char) && !inQuote) {
+      flush();
+    } else {
+      current += char;
+    }
+  }
+
+  if (inQuote) {
+    tokens.push({ text: current, quoted: true, unterminated: true });
+  } else {
+    flush();
+  }
+  return tokens;
+}
+
+function parseNumber(text: string): number | null {
+  if (!/^\d+(\.\d+)?$|^\.\d+$/.test(text)) return null;
+  return parseFloat(text);
+}
+
+function parseAbv(value: string): AbvRange | null {
+  const range = value.split('..');
+  if (range.length === 2) {
+    const [low, high] = range;
+    if (!low && !high) return null;
+    const min = low ? parseNumber(low) : null;
+    const max = high ? parseNumber(high) : null;
+    if ((low && min === null) || (high && max === null)) return null;
+    if (min !== null && max !== null && min > max) return null;
+    return {
+      min: min === null ? null : { value: min, inclusive: true },
+      max: max === null ? null : { value: max, inclusive: true },
+    };
+  }
+
+  const comparison = /^(>=|<=|>|<)?(.*)$/.exec(value);
+  const operator = comparison?.[1];
+  const number = parseNumber(comparison?.[2] ?? '');
+  if (number === null) return null;
+
+  switch (operator) {
+    case '>':
+      return { min: { value: number, inclusive: false }, max: null };
+    case '>=':
+      return { min: { value: number, inclusive: true }, max: null };
+    case '<':
+      return { min: null, max: { value: number, inclusive: false } };
+    case '<=':
+      return { min: null, max: { value: number, inclusive: true } };
+    default:
+      return {
+        min: { value: number - ABV_EXACT_TOLERANCE, inclusive: true },
+        max: { value: number + ABV_EXACT_TOLERANCE, inclusive: true },
+      };
+  }
+}
+
+/**
+ * Parse a search box query. Never throws: tokens that cannot be parsed are
+ * reported in `errors` and left out of `terms`, so the list keeps filtering on
+ * the rest while the user finishes typing.
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const terms: SearchTerm[] = [];
+  const errors: SearchQueryError[] = [];
+  let phrase: string[] = [];
+
+  const flushPhrase = () => {
+    if (phrase.length > 0) {
+      terms.push({ kind: 'text', value: phrase.join(' ').toLowerCase(), negated: false });
+      phrase = [];
+    }
+  };
+
+  for (const token of tokenize(input)) {
+    if (token.unterminated) {
+      errors.push({ token: token.text, message: 'Missing closing quote' });
+    }
+
+    let text = token.text;
+    let negated = false;
+    if (text.startsWith('-') && (text.length > 1 || token.quoted)) {
+      negated = true;
+      text = text.slice(1);
+    }
+
+    const colon = text.indexOf(':');
+    const key = colon > 0 ? FIELD_KEYS[text.slice(0, colon).toLowerCase()] : undefined;
+
+    if (!key) {
+      if (!text || text === '-') continue;
+      if (negated || token.quoted) {
+        flushPhrase();
+        terms.push({ kind: 'text', value: text.toLowerCase(), negated });
+      } else {
+        phrase.push(text);
+      }
+      continue;
+    }
+
+    flushPhrase();
+    const value = text.slice(colon + 1);
+
+    if (!value) {
+      errors.push({
+        token: token.text,
+        message: `${text.slice(0, colon + 1)} needs a value`,
+      });
+      continue;
+    }
+
+    if (key === 'abv') {
+      const abv = parseAbv(value);
+      if (abv) {
+        terms.push({ kind: 'abv', ...abv, negated });
+      } else {
+        errors.push({ token: token.text, message: ABV_HINT });
+      }
+      continue;
+    }
+
+    terms.push({ kind: 'field', field: key, value: value.toLowerCase(), negated });
+  }
+
+  flushPhrase();
+  return { terms, errors };
+}
+
+function fieldValue(beer: SearchableBeer, field: SearchField): string | undefined {
+  switch (field) {
+    case 'name':
+      return beer.brew_name;
+    case 'brewer':
+      return beer.brewer;
+    case 'style':
+      return beer.brew_style;
+    case 'loc':
+      return beer.brewer_loc;
+  }
+}
+
+const ALL_FIELDS: readonly SearchField[] = ['name', 'brewer', 'style', 'loc'];
+
+function matchesTerm(beer: SearchableBeer, term: SearchTerm): boolean {
+  switch (term.kind) {
+    case 'text':
+      return ALL_FIELDS.some(field => fieldValue(beer, field)?.toLowerCase().includes(term.value));
+    case 'field':
+      return fieldValue(beer, term.field)?.toLowerCase().includes(term.value) ?? false;
+    case 'abv': {
+      const abv = beer.abv;
+      // An unknown ABV satisfies no ABV condition, so `-abv:>8` keeps it
+      if (abv == null || isNaN(abv)) return false;
+      if (term.min && (term.min.inclusive ? abv < term.min.value : abv <= term.min.value)) {
+        return false;
+      }
+      if (term.max && (term.max.inclusive ? abv > term.max.value : abv >= term.max.value)) {
+        return false;
+      }
+      return true;
+    }
+  }
+}
+
+/** True when the beer satisfies every term. An empty query matches everything. */
+export function matchesSearchQuery(beer: SearchableBeer, query: ParsedSearchQuery): boolean {
+  return query.terms.every(term => matchesTerm(beer, term) !== term.negated);
+}
+
+/**
+ * The positive free-text terms, joined, for the full-text index to rank.
+ * Field, ABV and negated terms are left to `matchesSearchQuery`.
+ */
+export function freeTextOf(query: ParsedSearchQuery): string {
+  return query.terms
+    .filter(term => term.kind === 'text' && !term.negated)
+    .map(term => (term.kind === 'text' ? term.value : ''))
+    .join(' ');
+}
+
+/** The query minus the terms `freeTextOf` hands to the full-text index. */
+export function withoutFreeText(query: ParsedSearchQuery): ParsedSearchQuery {
+  return {
+    terms: query.terms.filter(term => term.kind !== 'text' || term.negated),
+    errors: query.errors,
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Store comparison - which untasted beers only one of several stores has on tap
+ *
+ * The active store's taplist comes from `allbeers`; every other store's comes
+ * from its `store_taplists` row. Beers are matched across stores by id, which
+ * Flying Saucer assigns chain-wide: the tasted list a member carries between
+ * stores is keyed the same way.
+ */
+
+import { Beer } from '@/src/types/beer';
+
+/**
+ * A store's cached taplist: one saved for comparison, or one the app was
+ * switched away from, or both
+ */
+export type StoreTaplist = {
+  store_id: string;
+  store_name: string;
+  beers: Beer[];
+  /** Proxy ETag for `beers`; null when there is none to revalidate with */
+  etag: string | null;
+  /** When `beers` was last fetched or revalidated, in epoch ms; null if never */
+  fetched_at: number | null;
+  added_at: number;
+  /** Saved for comparison, rather than only cached by a store switch */
+  compared: boolean;
+};
+
+/** One store going into a comparison */
+export type ComparedStore = Pick<
+  StoreTaplist,
+  'store_id' | 'store_name' | 'beers' | 'fetched_at'
+> & {
+  is_home: boolean;
+};
+
+export type StoreComparisonEntry = {
+  store_id: string;
+  store_name: string;
+  is_home: boolean;
+  fetched_at: number | null;
+  /** Beers on tap */
+  total: number;
+  /** Beers on tap the member has not tasted */
+  untasted: number;
+  /** Untasted beers on tap here and at none of the other stores, by name */
+  exclusive: Beer[];
+};
+
+const byName = (a: Beer, b: Beer): number =>
+  (a.brew_name || '').localeCompare(b.brew_name || '', undefined, { sensitivity: 'base' });
+
+/**
+ * Compare the stores' taplists.
+ *
+ * A store that has never been fetched has no beers, so it takes nothing from
+ * the others' exclusives; its entry says so through `fetched_at`.
+ *
+ * @param stores - The stores to compare, in the order to show them
+ * @param tastedIds - Ids of the beers the member has tasted
+ */
+export function compareStoreTaplists(
+  stores: readonly ComparedStore[],
+  tastedIds: ReadonlySet<string>
+): StoreComparisonEntry[] {
+  // How many of the compared stores pour each beer
+  const storeCounts = new Map<string, number>();
+  for (const store of stores) {
+    for (const id of new Set(store.beers.map(beer => beer.id))) {
+      storeCounts.set(id, (storeCounts.get(id) ?? 0) + 1);
+    }
+  }
+
+  return stores.map(store => {
+    const untasted = store.beers.filter(beer => !tastedIds.has(beer.id));
+    const exclusive = untasted.filter(beer => storeCounts.get(beer.id) === 1).sort(byName);
+
+    return {
+      store_id: store.store_id,
+      store_name: store.store_name,
+      is_home: store.is_home,
+      fetched_at: store.fetched_at,
+      total: store.beers.length,
+      untasted: untasted.length,
+      exclusive,
+    };
+  });
+}
@@ -0,0 +1,180 @@
+/**
+ * Store directory - the Flying Saucer locations the app can be pointed at
+ *
+ * A bundled directory ships with the app. Entries fetched from the proxy or
+ * entered by the user are stored in `store_directory` and laid over it by id,
+ * so a correction survives an app update and an app update can still add a
+ * location the user never touched.
+ *
+ * A store's identity everywhere else is its `sid`: the taplist URL carries it
+ * (`all_beers_api_url`), the proxy takes it, and `store_taplists` is keyed by it.
+ */
+
+/** Where a directory entry came from; a user edit outranks a refresh */
+export type StoreDirectorySource = 'bundled' | 'remote' | 'user';
+
+export type DirectoryStore = {
+  /** Flying Saucer store id, as in `?sid=` */
+  store_id: string;
+  name: string;
+  city: string | null;
+  state: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  source: StoreDirectorySource;
+  /** When the entry was fetched or edited, in epoch ms; 0 for bundled entries */
+  updated_at: number;
+};
+
+const bundled = (
+  store_id: string,
+  name: string,
+  city: string,
+  state: string,
+  latitude: number,
+  longitude: number
+): DirectoryStore => ({
+  store_id,
+  name,
+  city,
+  state,
+  latitude,
+  longitude,
+  source: 'bundled',
+  updated_at: 0,
+});
+
+/**
+ * The directory as shipped.
+ *
+ * Only Sugar Land's id is confirmed against the proxy, which enables that one
+ * store today. The others are unconfirmed until a directory refresh returns
+ * them; an entry that is wrong is fixed by a refresh or an edit rather than a
+ * release.
+ */
+export const BUNDLED_STORE_DIRECTORY: readonly DirectoryStore[] = [
+  bundled('13877', 'Addison', 'Addison', 'TX', 32.958, -96.8218),
+  bundled('13878', 'Austin', 'Austin', 'TX', 30.4021, -97.7253),
+  bundled('13880', 'Charlotte', 'Charlotte', 'NC', 35.3152, -80.7452),
+  bundled('13881', 'Cordova', 'Cordova', 'TN', 35.1664, -89.7924),
+  bundled('13882', 'Fort Worth', 'Fort Worth', 'TX', 32.7539, -97.331),
+  bundled('13883', 'Houston', 'Houston', 'TX', 29.7604, -95.3632),
+  bundled('13884', 'Kansas City', 'Kansas City', 'MO', 39.0988, -94.5826),
+  bundled('13885', 'Little Rock', 'Little Rock', 'AR', 34.7476, -92.2664),
+  bundled('13886', 'Memphis', 'Memphis', 'TN', 35.1403, -90.0514),
+  bundled('13887', 'Nashville', 'Nashville', 'TN', 36.1571, -86.7846),
+  bundled('13888', 'Raleigh', 'Raleigh', 'NC', 35.7774, -78.6435),
+  bundled('13889', 'San Antonio', 'San Antonio', 'TX', 29.5538, -98.5856),
+  bundled('13879', 'Sugar Land', 'Sugar Land', 'TX', 29.5962, -95.6151),
+  bundled('13890', 'The Lake', 'Garland', 'TX', 32.898, -96.562),
+];
+
+const TAPLIST_URL_BASE = 'https://fsbs.beerknurd.com/bk-store-json.php';
+
+/**
+ * The taplist URL for a store, in the form the logins store it.
+ *
+ * @param storeId - Flying Saucer store id
+ */
+export function taplistUrlForStore(storeId: string): string {
+  return `${TAPLIST_URL_BASE}?sid=${encodeURIComponent(storeId)}`;
+}
+
+/**
+ * Extract the store id from a taplist URL.
+ *
+ * The URL format is: https://fsbs.beerknurd.com/bk-store-json.php?sid={storeId}
+ *
+ * @param apiUrl - The full API URL
+ * @returns Store ID string or null if not found
+ */
+export function storeIdFromTaplistUrl(apiUrl: string): string | null {
+  try {
+    const url = new URL(apiUrl);
+    return url.searchParams.get('sid');
+  } catch {
+    // Try regex as fallback for malformed URLs
+    const match = apiUrl.match(/sid=(\d+)/);
+    return match ? match[1] : null;
+  }
+}
+
+/**
+ * Lay the stored entries over the bundled directory.
+ *
+ * @param bundledStores - The directory as shipped
+ * @param stored - Entries fetched or entered, one per store id
+ * @returns Every store once, by name
+ */
+export function mergeStoreDirectory(
+  bundledStores: readonly DirectoryStore[],
+  stored: readonly DirectoryStore[]
+): DirectoryStore[] {
+  const byId = new Map<string, DirectoryStore>();
+  for (const store of bundledStores) {
+    byId.set(store.store_id, store);
+  }
+  for (const store of stored) {
+    byId.set(store.store_id, store);
+  }
+
+  return Array.from(byId.values()).sort((a, b) =>
+    a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })
+  );
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two stores, or null when either has no
+ * coordinates.
+ */
+export function distanceKm(from: DirectoryStore, to: DirectoryStore): number | null {
+  if (
+    from.latitude === null ||
+    from.longitude === null ||
+    to.latitude === null ||
+    to.longitude === null
+  ) {
+    return null;
+  }
+
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Order the directory nearest first from a store, so the stores a member is
+ * likely to switch to sit at the top of the picker.
+ *
+ * The origin comes first. Stores without coordinates go last, by name, as do
+ * all stores when the origin has none.
+ *
+ * @param directory - The directory, by name
+ * @param originId - The store to measure from, usually the active one
+ */
+export function sortByDistanceFrom(
+  directory: readonly DirectoryStore[],
+  originId: string | null
+): DirectoryStore[] {
+  const origin = directory.find(store => store.store_id === originId);
+  if (!origin) {
+    return [...directory];
+  }
+
+  const distance = (store: DirectoryStore): number =>
+    store.store_id === origin.store_id ? -1 : (distanceKm(origin, store) ?? Infinity);
+
+  // Array.prototype.sort is stable, so ties keep the by-name order. Compared
+  // rather than subtracted: Infinity - Infinity is NaN.
+  return [...directory].sort((a, b) => {
+    const [fromA, fromB] = [distance(a), distance(b)];
+    return fromA === fromB ? 0 : fromA < fromB ? -1 : 1;
+  });
+}
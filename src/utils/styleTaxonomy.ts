@@ -0,0 +1,194 @@
+/**
+ * Style taxonomy for the free-text `brew_style` the API sends
+ *
+ * The same beer arrives as "Imperial IPA", "IPA - Double" or "DIPA". Each raw
+ * style is mapped to one family and, where it can be told apart, a canonical
+ * style within that family:
+ *
+ *   IPA    → Double IPA, Hazy IPA, West Coast IPA, Session IPA, Black IPA, ...
+ *   Stout  → Imperial Stout, Milk Stout, Oatmeal Stout, Dry Stout, ...
+ *
+ * Families are checked in TAXONOMY order and the first match wins, which is
+ * what keeps "Black IPA" out of the dark beers, "Berliner Weisse" out of wheat
+ * and "Wheatwine" out of both. A family with no matching sub-style normalizes
+ * to the family name itself.
+ */
+
+/** Every family, in the order the filter lists them. */
+export const STYLE_FAMILIES = [
+  'IPA',
+  'Pale Ale',
+  'Sour',
+  'Stout',
+  'Porter',
+  'Belgian',
+  'Wheat',
+  'Lager',
+  'Amber & Red',
+  'Brown Ale',
+  'Strong Ale',
+  'Cider & Mead',
+  'Other',
+] as const;
+
+export type StyleFamily = (typeof STYLE_FAMILIES)[number];
+
+export type NormalizedStyle = {
+  family: StyleFamily;
+  /** Canonical style within the family, or the family name when none matched */
+  style: string;
+};
+
+type StyleRule = {
+  style: string;
+  match: RegExp;
+};
+
+type FamilyRule = {
+  family: Exclude<StyleFamily, 'Other'>;
+  match: RegExp;
+  /** Checked in order; the first match names the canonical style */
+  styles: readonly StyleRule[];
+};
+
+const TAXONOMY: readonly FamilyRule[] = [
+  {
+    family: 'IPA',
+    match: /\bipa\b|\bdipa\b|\btipa\b|\bneipa\b|india pale/,
+    styles: [
+      { style: 'Double IPA', match: /double|imperial|\bdipa\b|triple|\btipa\b|\biipa\b/ },
+      { style: 'Hazy IPA', match: /hazy|\bneipa\b|new england|juicy|milkshake/ },
+      { style: 'Session IPA', match: /session/ },
+      { style: 'Black IPA', match: /black|cascadian/ },
+      { style: 'Belgian IPA', match: /belgian/ },
+      { style: 'West Coast IPA', match: /west coast/ },
+    ],
+  },
+  {
+    family: 'Sour',
+    match: /sour|gose|berliner|lambic|gueuze|geuze|kriek|framboise|flanders|wild ale|brett/,
+    styles: [
+      { style: 'Gose', match: /gose/ },
+      { style: 'Berliner Weisse', match: /berliner/ },
+      { style: 'Lambic', match: /lambic|gueuze|geuze|kriek|framboise/ },
+      { style: 'Flanders Red', match: /flanders|oud bruin/ },
+      { style: 'Wild Ale', match: /wild|brett/ },
+      { style: 'Fruited Sour', match: /fruit/ },
+    ],
+  },
+  {
+    family: 'Pale Ale',
+    match: /pale ale|\bapa\b|\besb\b|bitter\b|blonde|golden ale|cream ale/,
+    styles: [
+      { style: 'Blonde Ale', match: /blonde|golden/ },
+      { style: 'Cream Ale', match: /cream/ },
+      { style: 'English Bitter', match: /\besb\b|bitter/ },
+    ],
+  },
+  {
+    family: 'Stout',
+    match: /stout/,
+    styles: [
+      { style: 'Imperial Stout', match: /imperial|russian|double|\bris\b/ },
+      { style: 'Pastry Stout', match: /pastry|dessert/ },
+      { style: 'Milk Stout', match: /milk|sweet|cream/ },
+      { style: 'Oatmeal Stout', match: /oat/ },
+      { style: 'Dry Stout', match: /dry|irish/ },
+    ],
+  },
+  {
+    family: 'Porter',
+    match: /porter/,
+    styles: [
+      { style: 'Baltic Porter', match: /baltic/ },
+      { style: 'Imperial Porter', match: /imperial/ },
+    ],
+  },
+  {
+    family: 'Belgian',
+    match: /belgian|saison|farmhouse|tripel|dubbel|quad|abbey|trappist|bi[eè]re de garde/,
+    styles: [
+      { style: 'Saison', match: /saison|farmhouse/ },
+      { style: 'Tripel', match: /tripel/ },
+      { style: 'Dubbel', match: /dubbel/ },
+      { style: 'Quadrupel', match: /quad/ },
+      { style: 'Belgian Strong Ale', match: /strong/ },
+    ],
+  },
+  {
+    family: 'Strong Ale',
+    match: /barley ?wine|scotch|wee heavy|old ale|strong ale|wheat wine|wheatwine/,
+    styles: [
+      { style: 'Barleywine', match: /barley ?wine/ },
+      { style: 'Wheatwine', match: /wheat ?wine/ },
+      { style: 'Scotch Ale', match: /scotch|wee heavy/ },
+      { style: 'Old Ale', match: /old ale/ },
+    ],
+  },
+  {
+    family: 'Wheat',
+    match: /wheat|weizen|weiss|weisse|\bwit\b|witbier|hefe/,
+    styles: [
+      { style: 'Hefeweizen', match: /hefe|weizen|weiss/ },
+      { style: 'Witbier', match: /\bwit\b|witbier/ },
+      { style: 'American Wheat', match: /american/ },
+    ],
+  },
+  {
+    family: 'Lager',
+    match:
+      /lager|pils|helles|m[aä]rzen|oktoberfest|festbier|bock\b|dunkel|schwarz|vienna|k[oö]lsch|mexican/,
+    styles: [
+      { style: 'Pilsner', match: /pils/ },
+      { style: 'Helles', match: /helles/ },
+      { style: 'Märzen', match: /m[aä]rzen|oktoberfest|festbier/ },
+      { style: 'Bock', match: /bock/ },
+      { style: 'Dark Lager', match: /dunkel|schwarz|dark|black/ },
+      { style: 'Kölsch', match: /k[oö]lsch/ },
+      { style: 'Vienna Lager', match: /vienna/ },
+      { style: 'Mexican Lager', match: /mexican/ },
+    ],
+  },
+  {
+    family: 'Amber & Red',
+    match: /amber|\bred\b|irish red/,
+    styles: [{ style: 'Red Ale', match: /\bred\b/ }],
+  },
+  {
+    family: 'Brown Ale',
+    match: /brown|mild/,
+    styles: [],
+  },
+  {
+    family: 'Cider & Mead',
+    match: /cider|perry|mead|seltzer/,
+    styles: [
+      { style: 'Cider', match: /cider|perry/ },
+      { style: 'Mead', match: /mead/ },
+      { style: 'Hard Seltzer', match: /seltzer/ },
+    ],
+  },
+];
+
+/** Map a raw `brew_style` to its family and canonical style. */
+export function normalizeStyle(rawStyle: string | null | undefined): NormalizedStyle {
+  const style = (rawStyle ?? '').toLowerCase().trim();
+  if (!style) return { family: 'Other', style: 'Other' };
+
+  for (const rule of TAXONOMY) {
+    if (!rule.match.test(style)) continue;
+    const sub = rule.styles.find(candidate => candidate.match.test(style));
+    return { family: rule.family, style: sub?.style ?? rule.family };
+  }
+
+  return { family: 'Other', style: 'Other' };
+}
+
+/** The family alone, as stored in the `style_family` column. */
+export function getStyleFamily(rawStyle: string | null | undefined): StyleFamily {
+  return normalizeStyle(rawStyle).family;
+}
+
+export function isStyleFamily(value: unknown): value is StyleFamily {
+  return typeof value === 'string' && (STYLE_FAMILIES as readonly string[]).includes(value);
+}
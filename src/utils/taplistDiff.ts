@@ -0,0 +1,215 @@
+/**
+ * Taplist diffs - what changed between one stored taplist and the next
+ *
+ * Each refresh that replaces `allbeers` compares the rows it is about to
+ * replace with the rows replacing them and records the result in
+ * `taplist_diffs`. The Home screen's "New since last visit" section and the
+ * NEW badge on beer rows are both read from those records.
+ *
+ * The comparison has to give the same answer whichever path fetched the
+ * taplist. The enrichment proxy returns ABVs; the direct Flying Saucer fetch
+ * returns none, and the ABVs arrive afterwards from the enrichment poll. So an
+ * ABV only counts as changed when both sides have one, and a description only
+ * when it differs once markup and whitespace are set aside.
+ */
+
+import { z } from 'zod';
+import { Beer } from '@/src/types/beer';
+
+/** Diffs kept in `taplist_diffs`; older ones are pruned as new ones land */
+export const MAX_TAPLIST_DIFFS = 30;
+
+/** Choices for how long a beer keeps its NEW badge, in days */
+export const NEW_ARRIVAL_WINDOW_OPTIONS = [1, 3, 7, 14] as const;
+
+export const DEFAULT_NEW_ARRIVAL_WINDOW_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type TaplistChangeField = 'abv' | 'description';
+
+/** The parts of a beer a diff keeps, enough to list it after it has gone */
+export const taplistDiffBeerSchema = z.object({
+  id: z.string().min(1),
+  brew_name: z.string(),
+  brewer: z.string(),
+  abv: z.number().nullable(),
+});
+
+export type TaplistDiffBeer = z.infer<typeof taplistDiffBeerSchema>;
+
+export const taplistChangeSchema = z.object({
+  beer: taplistDiffBeerSchema,
+  fields: z.array(z.enum(['abv', 'description'])).min(1),
+  /** The ABV before the change, when `fields` includes 'abv' */
+  previousAbv: z.number().nullable(),
+});
+
+export type TaplistChange = z.infer<typeof taplistChangeSchema>;
+
+export type TaplistDiff = {
+  added: TaplistDiffBeer[];
+  removed: TaplistDiffBeer[];
+  changed: TaplistChange[];
+};
+
+/** A diff as stored, with when the refresh that produced it ran */
+export type TaplistDiffRecord = TaplistDiff & {
+  id: number;
+  recorded_at: number;
+};
+
+const toDiffBeer = (beer: Beer): TaplistDiffBeer => ({
+  id: beer.id,
+  brew_name: beer.brew_name || '',
+  brewer: beer.brewer || '',
+  abv: beer.abv ?? null,
+});
+
+/** Description text with tags, entities and runs of whitespace set aside */
+const normalizeDescription = (description: string | undefined): string =>
+  (description ?? '')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Compare the taplist being replaced with the one replacing it.
+ *
+ * @param previous - Rows in `allbeers` before the refresh
+ * @param next - Rows the refresh is storing
+ */
+export function computeTaplistDiff(previous: readonly Beer[], next: readonly Beer[]): TaplistDiff {
+  const previousById = new Map(previous.map(beer => [beer.id, beer]));
+  const nextIds = new Set(next.map(beer => beer.id));
+
+  const added: TaplistDiffBeer[] = [];
+  const changed: TaplistChange[] = [];
+
+  for (const beer of next) {
+    const before = previousById.get(beer.id);
+    if (!before) {
+      added.push(toDiffBeer(beer));
+      continue;
+    }
+
+    const fields: TaplistChangeField[] = [];
+    if (before.abv != null && beer.abv != null && before.abv !== beer.abv) {
+      fields.push('abv');
+    }
+    if (
+      normalizeDescription(before.brew_description) !== normalizeDescription(beer.brew_description)
+    ) {
+      fields.push('description');
+    }
+    if (fields.length > 0) {
+      changed.push({
+        beer: toDiffBeer(beer),
+        fields,
+        previousAbv: fields.includes('abv') ? (before.abv ?? null) : null,
+      });
+    }
+  }
+
+  const removed = previous.filter(beer => !nextIds.has(beer.id)).map(toDiffBeer);
+
+  return { added, removed, changed };
+}
+
+export function isEmptyTaplistDiff(diff: TaplistDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+/**
+ * Fold every diff recorded after `since` into one, oldest first, so a beer
+ * that arrived and left in between appears in neither list, and a beer that
+ * changed twice appears once with its latest state.
+ *
+ * @param records - Stored diffs, in any order
+ * @param since - Epoch ms; diffs recorded at or before it are left out
+ */
+export function summarizeTaplistDiffs(
+  records: readonly TaplistDiffRecord[],
+  since: number
+): TaplistDiff {
+  const added = new Map<string, TaplistDiffBeer>();
+  const removed = new Map<string, TaplistDiffBeer>();
+  const changed = new Map<string, TaplistChange>();
+
+  const ordered = records
+    .filter(record => record.recorded_at > since)
+    .sort((a, b) => a.recorded_at - b.recorded_at || a.id - b.id);
+
+  for (const record of ordered) {
+    for (const beer of record.added) {
+      if (removed.has(beer.id)) {
+        // Left and came back: it was on tap at the last visit, so it is not new
+        removed.delete(beer.id);
+      } else {
+        added.set(beer.id, beer);
+      }
+    }
+    for (const beer of record.removed) {
+      changed.delete(beer.id);
+      if (added.has(beer.id)) {
+        added.delete(beer.id);
+      } else {
+        removed.set(beer.id, beer);
+      }
+    }
+    for (const change of record.changed) {
+      if (added.has(change.beer.id)) {
+        // New since the last visit; that it changed since is no news
+        added.set(change.beer.id, change.beer);
+        continue;
+      }
+      const earlier = changed.get(change.beer.id);
+      changed.set(change.beer.id, {
+        beer: change.beer,
+        fields: Array.from(new Set([...(earlier?.fields ?? []), ...change.fields])),
+        previousAbv: earlier?.fields.includes('abv') ? earlier.previousAbv : change.previousAbv,
+      });
+    }
+  }
+
+  return {
+    added: Array.from(added.values()),
+    removed: Array.from(removed.values()),
+    changed: Array.from(changed.values()),
+  };
+}
+
+/**
+ * Beers that arrived within the window, by id, with when each arrived.
+ *
+ * A beer that arrived, left and arrived again counts from its latest arrival.
+ * Whether it is still on tap is for the caller: a list only shows beers that are.
+ *
+ * @param records - Stored diffs, in any order
+ * @param windowDays - How many days a beer stays new
+ * @param now - Epoch ms to measure the window back from
+ */
+export function getNewArrivals(
+  records: readonly TaplistDiffRecord[],
+  windowDays: number,
+  now: number = Date.now()
+): ReadonlyMap<string, number> {
+  const since = now - windowDays * DAY_MS;
+  const arrivals = new Map<string, number>();
+
+  for (const record of records) {
+    if (record.recorded_at <= since) continue;
+    for (const beer of record.added) {
+      arrivals.set(beer.id, Math.max(arrivals.get(beer.id) ?? 0, record.recorded_at));
+    }
+  }
+
+  return arrivals;
+}
+
+export function isNewArrivalWindow(
+  days: number
+): days is (typeof NEW_ARRIVAL_WINDOW_OPTIONS)[number] {
+  return (NEW_ARRIVAL_WINDOW_OPTIONS as readonly number[]).includes(days);
+}
@@ -0,0 +1,185 @@
+/**
+ * Taplist files - a taplist read from a JSON or CSV file instead of an API
+ *
+ * For running the app against a local fixture or another bar's export (see the
+ * `file` taplist source). JSON is either an array of beers or the Flying Saucer
+ * response, so a saved API response works as-is. CSV has a header row naming
+ * `Beer` fields; `id` and `brew_name` are required, the rest are optional and
+ * unknown columns are ignored.
+ */
+
+import { FetchOutcome, toNonEmpty } from '@/src/api/fetchOutcome';
+import { Beer } from '@/src/types/beer';
+
+/** The `Beer` text fields a file may set, besides `id` and `brew_name` */
+const TEXT_FIELDS = [
+  'brewer',
+  'brewer_loc',
+  'brew_style',
+  'brew_container',
+  'review_count',
+  'review_rating',
+  'brew_description',
+  'added_date',
+] as const;
+
+const text = (value: unknown): string | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  return trimmed === '' ? undefined : trimmed;
+};
+
+/**
+ * One entry as a beer, or null without an id and a name.
+ *
+ * Only the fields a taplist carries are kept; enrichment fields in a saved
+ * proxy response are not trusted, so the file reads as an unenriched taplist.
+ */
+function toBeer(entry: unknown): Beer | null {
+  if (typeof entry !== 'object' || entry === null) return null;
+  const record = entry as Record<string, unknown>;
+
+  const id = text(record.id);
+  const brewName = text(record.brew_name);
+  if (!id || !brewName) return null;
+
+  const beer: Beer = { id, brew_name: brewName };
+  for (const field of TEXT_FIELDS) {
+    const value = text(record[field]);
+    if (value !== undefined) beer[field] = value;
+  }
+
+  const abvText = text(record.abv);
+  if (abvText !== undefined && Number.isFinite(Number(abvText))) {
+    beer.abv = Number(abvText);
+  }
+
+  return beer;
+}
+
+/** The beer entries in a parsed JSON file, or null if it holds none */
+function findJsonEntries(data: unknown): unknown[] | null {
+  if (Array.isArray(data)) {
+    // Flying Saucer: `[meta, { brewInStock: [...] }]`
+    const inStock = data.find(
+      (item): item is { brewInStock: unknown[] } =>
+        typeof item === 'object' &&
+        item !== null &&
+        Array.isArray((item as Record<string, unknown>).brewInStock)
+    );
+    return inStock ? inStock.brewInStock : data;
+  }
+
+  if (typeof data === 'object' && data !== null) {
+    const record = data as Record<string, unknown>;
+    for (const key of ['brewInStock', 'beers', 'beer_list']) {
+      if (Array.isArray(record[key])) return record[key] as unknown[];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Split CSV text into rows of fields. Handles quoted fields with commas,
+ * doubled quotes and line breaks, and both line ending styles.
+ */
+export function parseCsvRows(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines are not rows
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+/** The rows of a CSV file as entries keyed by header, or null without the required columns */
+function findCsvEntries(csv: string): Record<string, string>[] | null {
+  const [header, ...rows] = parseCsvRows(csv);
+  if (!header) return null;
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  if (!columns.includes('id') || !columns.includes('brew_name')) return null;
+
+  return rows.map(fields =>
+    Object.fromEntries(columns.map((column, index) => [column, fields[index] ?? '']))
+  );
+}
+
+/**
+ * Read a taplist file's contents.
+ *
+ * JSON is recognised by its first character; anything else is read as CSV.
+ * Entries without an id or a name are dropped, and a file whose entries are all
+ * dropped is `malformed` rather than empty: it was not a taplist.
+ *
+ * @param contents - The file's text
+ * @returns The beers, `confirmed-empty` for a taplist with no rows, or `malformed`
+ */
+export function parseTaplistFile(contents: string): FetchOutcome<Beer> {
+  const trimmed = contents.replace(/^\uFEFF/, '').trim();
+  if (trimmed === '') {
+    return { kind: 'malformed', detail: 'the taplist file is empty' };
+  }
+
+  let entries: unknown[] | null;
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    try {
+      entries = findJsonEntries(JSON.parse(trimmed));
+    } catch {
+      return { kind: 'malformed', detail: 'the taplist file is not valid JSON' };
+    }
+    if (!entries) {
+      return { kind: 'malformed', detail: 'the taplist file has no list of beers' };
+    }
+  } else {
+    entries = findCsvEntries(trimmed);
+    if (!entries) {
+      return { kind: 'malformed', detail: 'the taplist CSV needs id and brew_name columns' };
+    }
+  }
+
+  if (entries.length === 0) {
+    return { kind: 'confirmed-empty' };
+  }
+
+  const beers = toNonEmpty(entries.map(toBeer).filter((beer): beer is Beer => beer !== null));
+  return beers
+    ? { kind: 'data', items: beers }
+    : { kind: 'malformed', detail: 'no entry in the taplist file has an id and a brew_name' };
+}
@@ -0,0 +1,127 @@
+/**
+ * Taplist snapshots - earlier taplists, kept for browsing
+ *
+ * Every refresh that replaces `allbeers` also keeps the taplist it wrote in
+ * `taplist_snapshots`, the last MAX_TAPLIST_SNAPSHOTS per store. All Beers can
+ * show one read-only, "as of" when it was fetched.
+ *
+ * A taplist is packed before it is stored: the field names are written once
+ * and each beer as an array of values, which roughly halves the JSON of a
+ * hundred-beer taplist. Unpacking reads the field names from the snapshot
+ * itself, so a snapshot stays readable if the fields kept here change.
+ */
+
+import { z } from 'zod';
+import { Beer } from '@/src/types/beer';
+
+/** Snapshots kept per store; older ones are pruned as new ones land */
+export const MAX_TAPLIST_SNAPSHOTS = 10;
+
+/**
+ * Where a snapshot's taplist came from: the enrichment proxy's `live`, `cache`
+ * or `stale` answer, the direct Flying Saucer `fallback`, or a taplist `file`.
+ */
+export const TAPLIST_SNAPSHOT_SOURCES = ['live', 'cache', 'stale', 'fallback', 'file'] as const;
+
+export type TaplistSnapshotSource = (typeof TAPLIST_SNAPSHOT_SOURCES)[number];
+
+/** A stored snapshot, without its beers */
+export type TaplistSnapshot = {
+  id: number;
+  store_id: string;
+  /** When the taplist was fetched, in epoch ms */
+  fetched_at: number;
+  source: TaplistSnapshotSource;
+  etag: string | null;
+  beer_count: number;
+};
+
+/** The `Beer` fields a snapshot keeps */
+const SNAPSHOT_FIELDS = [
+  'id',
+  'brew_name',
+  'brewer',
+  'brewer_loc',
+  'brew_style',
+  'brew_container',
+  'review_count',
+  'review_rating',
+  'brew_description',
+  'added_date',
+  'abv',
+  'enrichment_confidence',
+  'enrichment_source',
+] as const satisfies readonly (keyof Beer)[];
+
+/** Fields where `Beer` itself allows null, so a stored null is kept */
+const NULLABLE_FIELDS: ReadonlySet<string> = new Set([
+  'abv',
+  'enrichment_confidence',
+  'enrichment_source',
+]);
+
+type SnapshotValue = string | number | null;
+
+const packedTaplistSchema = z.object({
+  fields: z.array(z.string()),
+  rows: z.array(z.array(z.union([z.string(), z.number(), z.null()]))),
+});
+
+const snapshotBeerSchema = z.object({
+  id: z.string().min(1),
+  brew_name: z.string(),
+  brewer: z.string().optional(),
+  brewer_loc: z.string().optional(),
+  brew_style: z.string().optional(),
+  brew_container: z.string().optional(),
+  review_count: z.string().optional(),
+  review_rating: z.string().optional(),
+  brew_description: z.string().optional(),
+  added_date: z.string().optional(),
+  abv: z.number().nullable().optional(),
+  enrichment_confidence: z.number().nullable().optional(),
+  enrichment_source: z.enum(['description', 'perplexity', 'manual']).nullable().optional(),
+});
+
+/**
+ * Pack a taplist for `taplist_snapshots.beers`.
+ *
+ * @param beers - The taplist as written to `allbeers`
+ * @returns JSON text for the `beers` column
+ */
+export function packTaplist(beers: readonly Beer[]): string {
+  const rows = beers.map(beer =>
+    SNAPSHOT_FIELDS.map((field): SnapshotValue => beer[field] ?? null)
+  );
+  return JSON.stringify({ fields: SNAPSHOT_FIELDS, rows });
+}
+
+/**
+ * Unpack a stored taplist. Beers that cannot be read are left out.
+ *
+ * @param packed - The `beers` column of a snapshot
+ * @returns The taplist, or null if the column is not a packed taplist
+ */
+export function unpackTaplist(packed: string): Beer[] | null {
+  let parsed: z.infer<typeof packedTaplistSchema>;
+  try {
+    const result = packedTaplistSchema.safeParse(JSON.parse(packed));
+    if (!result.success) return null;
+    parsed = result.data;
+  } catch {
+    return null;
+  }
+
+  const beers: Beer[] = [];
+  for (const row of parsed.rows) {
+    // Absent fields were stored as null; `Beer` leaves its text fields undefined
+    const entry = Object.fromEntries(
+      parsed.fields
+        .map((field, index) => [field, row[index] ?? null] as const)
+        .filter(([field, value]) => value !== null || NULLABLE_FIELDS.has(field))
+    );
+    const beer = snapshotBeerSchema.safeParse(entry);
+    if (beer.success) beers.push(beer.data);
+  }
+  return beers;
+}